@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { PRODUCT_TABLES } from '../../../constants/products'
+import { ORDER_TABLES } from '../../../constants/orders'
+import { CATALOG_TABLES } from '../../../constants/catalog'
+import { PRICING_TABLES } from '../../../constants/pricing'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { DELETE as DELETE_CATEGORY } from '../categories/[id]/route'
+import { PUT as PUT_COLLECTION_PRODUCTS } from '../collections/[id]/products/route'
+import { GET as CATEGORY_REVENUE } from '../analytics/category-revenue/route'
+import { PUT as PUT_VAT_RATE } from '../vat-rates/route'
+
+const category = (id: string, name: string, parent_id: string | null = null) => ({
+  id,
+  name,
+  slug: id,
+  parent_id,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+})
+
+describe('catalog routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should refuse to delete a category with subcategories', async () => {
+    signIn('editor')
+    mock.respond(CATALOG_TABLES.CATEGORIES, { data: [category('scotch', 'Scotch'), category('islay', 'Islay', 'scotch')] })
+
+    const response = await DELETE_CATEGORY(
+      new NextRequest('http://localhost/api/categories/scotch', { method: 'DELETE' }),
+      { params: { id: 'scotch' } }
+    )
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ type: 'category_not_allowed' })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+
+  it('should reject a curated order that lists a product twice', async () => {
+    signIn('editor')
+
+    const response = await PUT_COLLECTION_PRODUCTS(
+      new NextRequest('http://localhost/api/collections/gifts/products', {
+        method: 'PUT',
+        body: JSON.stringify({ productIds: ['product-1', 'product-1'] }),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      { params: { id: 'gifts' } }
+    )
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ type: 'invalid_collection', details: { field: 'productIds' } })
+    expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS)).toHaveLength(0)
+  })
+
+  it('should only let admins set VAT rates', async () => {
+    signIn('editor')
+
+    const response = await PUT_VAT_RATE(
+      new NextRequest('http://localhost/api/vat-rates', {
+        method: 'PUT',
+        body: JSON.stringify({ country_code: 'BE', rate: 21 }),
+        headers: { 'Content-Type': 'application/json' },
+      })
+    )
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(PRICING_TABLES.VAT_RATES)).toHaveLength(0)
+  })
+
+  it('should only count orders from the requested period', async () => {
+    signIn('editor')
+    mock.respond(ORDER_TABLES.ORDERS, { data: [] })
+
+    const response = await CATEGORY_REVENUE(new NextRequest('http://localhost/api/analytics/category-revenue?days=30'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ report: { since: expect.any(String), orderCount: 0, total: {}, rows: [] } })
+    const [, since] = mock.callsFor(ORDER_TABLES.ORDERS, 'gte')[0].args
+    expect(Date.now() - new Date(since).getTime()).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000)
+  })
+})
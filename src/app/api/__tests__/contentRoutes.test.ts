@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { CONTENT_PAGES, CONTENT_TABLES } from '../../../constants/content'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { GET as GET_SECTIONS } from '../content/[page]/sections/route'
+import { PUT as PUT_DRAFT } from '../content/[page]/sections/[id]/draft/route'
+import { POST as PUBLISH_PAGE } from '../content/[page]/publish/route'
+import { POST as ROLLBACK_PAGE } from '../content/[page]/snapshot/restore/route'
+import { POST as RESTORE_REVISION } from '../content/[page]/sections/[id]/revisions/[revisionId]/restore/route'
+
+function draftRequest(page: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost/api/content/${page}/sections/s-1/draft`, {
+    method: 'PUT',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('content routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should answer 404 for pages that are not in the registry', async () => {
+    signIn('editor')
+
+    const response = await GET_SECTIONS(
+      new NextRequest('http://localhost/api/content/homepage/sections'),
+      { params: { page: 'homepage' } }
+    )
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ type: 'content_page_not_found' })
+  })
+
+  it('should let editors save a draft without changing the live section', async () => {
+    signIn('editor')
+    const table = CONTENT_PAGES.whiskypage.table
+    mock.respond(table, { data: { id: 's-1', section_key: 'intro', content: 'Old', order_number: 1, style_type: 'paragraph', version: 1 } })
+    mock.respond(CONTENT_TABLES.DRAFTS, { data: null }, { data: { id: 'draft-1', section_id: 's-1', content: 'New', status: 'draft' } })
+
+    const response = await PUT_DRAFT(draftRequest('whiskypage', { content: 'New' }), { params: { page: 'whiskypage', id: 's-1' } })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ draft: { content: 'New', status: 'draft' } })
+    expect(mock.callsFor(table, 'update')).toHaveLength(0)
+  })
+
+  it('should answer 409 when the draft was saved by someone else since the edit started', async () => {
+    signIn('editor')
+    mock.respond(CONTENT_PAGES.whiskypage.table, { data: { id: 's-1', section_key: 'intro', content: 'Old', order_number: 1, style_type: 'paragraph' } })
+    mock.respond(CONTENT_TABLES.DRAFTS, { data: { id: 'draft-1', section_id: 's-1', content: 'Theirs', status: 'draft', updated_at: '2024-05-01T11:00:00Z' } })
+
+    const response = await PUT_DRAFT(
+      draftRequest('whiskypage', { content: 'Mine', expected_updated_at: '2024-05-01T10:00:00Z' }),
+      { params: { page: 'whiskypage', id: 's-1' } }
+    )
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ type: 'concurrent_update', details: { current: { content: 'Theirs' } } })
+  })
+
+  it('should reject a draft without content', async () => {
+    signIn('admin')
+
+    const response = await PUT_DRAFT(draftRequest('whiskypage', { text: 'New' }), { params: { page: 'whiskypage', id: 's-1' } })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ type: 'invalid_content_section', details: { field: 'content' } })
+    expect(mock.callsFor(CONTENT_PAGES.whiskypage.table)).toHaveLength(0)
+  })
+
+  it('should only let admins publish', async () => {
+    signIn('editor')
+
+    const response = await PUBLISH_PAGE(
+      new NextRequest('http://localhost/api/content/whiskypage/publish', { method: 'POST' }),
+      { params: { page: 'whiskypage' } }
+    )
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(CONTENT_TABLES.DRAFTS)).toHaveLength(0)
+  })
+
+  it('should only let admins roll a page back', async () => {
+    signIn('editor')
+
+    const response = await ROLLBACK_PAGE(
+      new NextRequest('http://localhost/api/content/whiskypage/snapshot/restore', {
+        method: 'POST',
+        body: JSON.stringify({ at: '2024-05-01T00:00:00Z' }),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      { params: { page: 'whiskypage' } }
+    )
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(CONTENT_PAGES.whiskypage.table)).toHaveLength(0)
+  })
+
+  it('should only let admins put an earlier version live', async () => {
+    signIn('editor')
+
+    const response = await RESTORE_REVISION(
+      new NextRequest('http://localhost/api/content/whiskypage/sections/s-1/revisions/audit-1/restore', { method: 'POST' }),
+      { params: { page: 'whiskypage', id: 's-1', revisionId: 'audit-1' } }
+    )
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(CONTENT_PAGES.whiskypage.table)).toHaveLength(0)
+  })
+})
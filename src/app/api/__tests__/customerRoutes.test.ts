@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { ORDER_TABLES } from '../../../constants/orders'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { GET as GET_CUSTOMERS } from '../customers/route'
+import { GET as GET_EXPORT } from '../customers/[email]/export/route'
+import { POST as POST_ANONYMISE } from '../customers/[email]/anonymise/route'
+
+const order = {
+  id: 'order-1',
+  order_number: 'WFC-1001',
+  customer_first_name: 'Jan',
+  customer_last_name: 'Jansen',
+  customer_email: 'jan@example.com',
+  customer_address: 'Dorpsstraat 1',
+  customer_city: 'Utrecht',
+  customer_postal_code: '1234 AB',
+  customer_country: 'Netherlands',
+  total_amount: 100,
+  refunded_amount: 0,
+  status: 'completed',
+  created_at: '2024-03-01T10:00:00Z',
+}
+
+const context = { params: { email: 'jan%40example.com' } }
+
+describe('customer routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should let editors search customers', async () => {
+    signIn('editor', 'anna@whiskyforcharity.com')
+    mock.respond(ORDER_TABLES.ORDERS, { data: [order] })
+
+    const response = await GET_CUSTOMERS(new NextRequest('http://localhost/api/customers?q=utrecht'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ total: 1, customers: [{ email: 'jan@example.com', lifetimeDonated: { EUR: 100 } }] })
+  })
+
+  it('should only let admins export or anonymise customer data', async () => {
+    signIn('editor', 'anna@whiskyforcharity.com')
+
+    expect((await GET_EXPORT(new NextRequest('http://localhost/api/customers/jan%40example.com/export'), context)).status).toBe(403)
+    expect((await POST_ANONYMISE(new NextRequest('http://localhost/api/customers/jan%40example.com/anonymise', { method: 'POST' }), context)).status).toBe(403)
+    expect(mock.callsFor(ORDER_TABLES.ORDERS)).toHaveLength(0)
+  })
+
+  it('should serve the export as a download', async () => {
+    signIn('admin', 'anna@whiskyforcharity.com')
+    mock.respond(ORDER_TABLES.ORDERS, { data: [order] })
+
+    const response = await GET_EXPORT(new NextRequest('http://localhost/api/customers/jan%40example.com/export'), context)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="customer-data-\d{4}-\d{2}-\d{2}\.json"$/)
+    expect(await response.json()).toMatchObject({ customer: { email: 'jan@example.com' }, orders: [{ id: 'order-1', items: [] }] })
+  })
+
+  it('should refuse to anonymise customers with open orders', async () => {
+    signIn('admin', 'anna@whiskyforcharity.com')
+    mock.respond(ORDER_TABLES.ORDERS, { data: [{ ...order, status: 'pending' }] })
+
+    const response = await POST_ANONYMISE(new NextRequest('http://localhost/api/customers/jan%40example.com/anonymise', { method: 'POST' }), context)
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ type: 'customer_not_allowed' })
+  })
+})
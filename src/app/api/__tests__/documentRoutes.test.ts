@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { ORDER_TABLES } from '../../../constants/orders'
+import { DOCUMENT_TABLES } from '../../../constants/documents'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { GET as getDocument } from '../orders/[id]/documents/[type]/route'
+import { POST as exportDocuments } from '../orders/documents/route'
+
+const order = {
+  id: 'order-1',
+  order_number: 'W4C-1001',
+  customer_first_name: 'Sam',
+  customer_last_name: 'Jansen',
+  customer_email: 'sam@example.com',
+  total_amount: 60,
+  status: 'paid',
+  created_at: '2024-03-01T10:00:00Z',
+}
+
+function exportRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/orders/documents', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('order document routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should serve the packing slip as a PDF download', async () => {
+    signIn('editor')
+    mock.respond(ORDER_TABLES.ORDERS, { data: order })
+
+    const response = await getDocument(new NextRequest('http://localhost/api/orders/order-1/documents/packing_slip'), {
+      params: { id: 'order-1', type: 'packing_slip' },
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/pdf')
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="packing-slip-W4C-1001.pdf"')
+  })
+
+  it('should only let admins issue invoices', async () => {
+    signIn('editor')
+
+    const response = await getDocument(new NextRequest('http://localhost/api/orders/order-1/documents/invoice'), {
+      params: { id: 'order-1', type: 'invoice' },
+    })
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(DOCUMENT_TABLES.INVOICES)).toHaveLength(0)
+  })
+
+  it('should return 400 for unknown document types', async () => {
+    signIn('admin')
+
+    const response = await getDocument(new NextRequest('http://localhost/api/orders/order-1/documents/receipt'), {
+      params: { id: 'order-1', type: 'receipt' },
+    })
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 409 when none of the exported orders can be invoiced', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, { data: { ...order, status: 'pending' } })
+
+    const response = await exportDocuments(exportRequest({ orderIds: ['order-1'], type: 'invoice' }))
+
+    expect(response.status).toBe(409)
+    expect((await response.json()).type).toBe('invoice_not_allowed')
+  })
+
+  it('should report exported and skipped counts in the headers', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, { data: order }, { data: { ...order, id: 'order-2', status: 'cancelled' } })
+    mock.respond(DOCUMENT_TABLES.INVOICES, { data: { order_id: 'order-1', sequence: 1, invoice_number: 'W4C-000001', issued_at: '2024-03-02T10:00:00Z' } })
+
+    const response = await exportDocuments(exportRequest({ orderIds: ['order-1', 'order-2'], type: 'invoice' }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-Exported-Count')).toBe('1')
+    expect(response.headers.get('X-Skipped-Count')).toBe('1')
+  })
+
+  it('should validate the export payload', async () => {
+    signIn('admin')
+
+    const response = await exportDocuments(exportRequest({ orderIds: [], type: 'invoice' }))
+
+    expect(response.status).toBe(400)
+  })
+})
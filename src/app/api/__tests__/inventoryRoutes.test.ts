@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { PRODUCT_TABLES } from '../../../constants/products'
+import { INVENTORY_TABLES } from '../../../constants/inventory'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { POST } from '../products/[id]/stock/route'
+import { GET as LOW_STOCK } from '../inventory/low-stock/route'
+
+function adjustRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/products/product-1/stock', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('inventory routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should require a reason for a stock adjustment', async () => {
+    signIn('editor')
+
+    const response = await POST(adjustRequest({ stock: 4 }), { params: { id: 'product-1' } })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ type: 'invalid_stock_adjustment', details: { field: 'reason' } })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+
+  it('should record the adjustment under the signed-in user', async () => {
+    signIn('editor')
+    mock.respond(PRODUCT_TABLES.PRODUCTS,
+      { data: { id: 'product-1', stock: 6, variants: [] } },
+      { data: { id: 'product-1', stock: 6 } },
+      { data: [{ id: 'product-1' }] }
+    )
+
+    const response = await POST(adjustRequest({ stock: 4, reason: 'Two bottles broken' }), { params: { id: 'product-1' } })
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toMatchObject({ productStock: 4 })
+    expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')[0].args[0]).toMatchObject({
+      quantity: -2,
+      reason: 'Two bottles broken',
+      created_by: 'user-1',
+      created_by_email: 'staff@example.com',
+    })
+  })
+
+  it('should return 401 for low-stock alerts when not logged in', async () => {
+    const response = await LOW_STOCK(new NextRequest('http://localhost/api/inventory/low-stock'))
+
+    expect(response.status).toBe(401)
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+})
@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { AUDIT_TABLES } from '../../../constants/api'
+import { PRODUCT_TABLES } from '../../../constants/products'
+import { createMockMediaAdapter, type MockMediaAdapter } from '../../../services/mediaAdapters'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+let adapter: MockMediaAdapter
+
+vi.mock('../../../services/mediaAdapters', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/mediaAdapters')>()),
+  createMediaAdapter: () => adapter,
+}))
+
+import { DELETE } from '../media/assets/[...publicId]/route'
+
+function deleteRequest(query = ''): NextRequest {
+  return new NextRequest(`http://localhost/api/media/assets/products/port-ellen${query}`, { method: 'DELETE' })
+}
+
+const params = { params: { publicId: ['products', 'port-ellen'] } }
+
+describe('media routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+    adapter = createMockMediaAdapter([{
+      publicId: 'products/port-ellen',
+      url: 'https://res.cloudinary.com/demo/image/upload/v1700000000/products/port-ellen.jpg',
+      format: 'jpg',
+      width: 800,
+      height: 1200,
+      bytes: 120000,
+      tags: [],
+      createdAt: '2024-01-01T00:00:00Z',
+    }])
+  })
+
+  it('should only let admins delete images', async () => {
+    signIn('editor')
+
+    const response = await DELETE(deleteRequest(), params)
+
+    expect(response.status).toBe(403)
+    expect(adapter.destroyed).toEqual([])
+  })
+
+  it('should answer 409 with the usages while the image is still in use', async () => {
+    signIn('admin')
+    mock.respond(PRODUCT_TABLES.PRODUCTS, {
+      data: [{ id: 'product-1', name: 'Port Ellen 1981', image: 'products/port-ellen', images: [], variants: [] }],
+    })
+
+    const response = await DELETE(deleteRequest(), params)
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({
+      type: 'asset_in_use',
+      details: { usage: [{ kind: 'product', id: 'product-1' }] },
+    })
+    expect(adapter.destroyed).toEqual([])
+  })
+
+  it('should delete an image in use when forced', async () => {
+    signIn('admin')
+    mock.respond(PRODUCT_TABLES.PRODUCTS, {
+      data: [{ id: 'product-1', name: 'Port Ellen 1981', image: 'products/port-ellen', images: [], variants: [] }],
+    })
+
+    const response = await DELETE(deleteRequest('?force=true'), params)
+
+    expect(response.status).toBe(200)
+    expect(adapter.destroyed).toEqual(['products/port-ellen'])
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0].action).toBe('media.deleted')
+  })
+})
@@ -0,0 +1,198 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { ORDER_TABLES } from '../../../constants/orders'
+import { PRODUCT_TABLES } from '../../../constants/products'
+import { AUDIT_TABLES } from '../../../constants/api'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { PATCH as patchOrder } from '../orders/[id]/route'
+import { POST as createProduct } from '../products/route'
+import { PATCH as patchProduct } from '../products/[id]/route'
+import { POST as restoreRevision } from '../products/[id]/revisions/[revisionId]/restore/route'
+
+function jsonRequest(url: string, method: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${url}`, {
+    method,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('PATCH /api/orders/[id]', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should return 401 when not logged in', async () => {
+    const response = await patchOrder(jsonRequest('/api/orders/order-1', 'PATCH', { status: 'paid' }), { params: { id: 'order-1' } })
+
+    expect(response.status).toBe(401)
+    expect(mock.callsFor(ORDER_TABLES.ORDERS)).toHaveLength(0)
+  })
+
+  it('should return 403 for roles without order write access', async () => {
+    signIn('editor')
+
+    const response = await patchOrder(jsonRequest('/api/orders/order-1', 'PATCH', { status: 'paid' }), { params: { id: 'order-1' } })
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')).toHaveLength(0)
+  })
+
+  it('should return 400 for an invalid payload', async () => {
+    signIn('admin')
+
+    const badStatus = await patchOrder(jsonRequest('/api/orders/order-1', 'PATCH', { status: 'lost' }), { params: { id: 'order-1' } })
+    const badJson = await patchOrder(jsonRequest('/api/orders/order-1', 'PATCH', '{not json'), { params: { id: 'order-1' } })
+
+    expect(badStatus.status).toBe(400)
+    expect((await badStatus.json()).type).toBe('invalid_payload')
+    expect(badJson.status).toBe(400)
+  })
+
+  it('should reject refund statuses, which only a refund may set', async () => {
+    signIn('admin')
+
+    for (const status of ['partially_refunded', 'refunded']) {
+      const response = await patchOrder(jsonRequest('/api/orders/order-1', 'PATCH', { status }), { params: { id: 'order-1' } })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).type).toBe('invalid_payload')
+    }
+    expect(mock.callsFor(ORDER_TABLES.ORDERS)).toHaveLength(0)
+  })
+
+  it('should apply the transition and write history and audit entries', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS,
+      { data: { id: 'order-1', status: 'paid' } },
+      { data: [{ id: 'order-1', status: 'shipped', updated_at: '2024-01-01T00:00:00Z' }] }
+    )
+
+    const response = await patchOrder(
+      jsonRequest('/api/orders/order-1', 'PATCH', { status: 'shipped', note: 'PostNL' }),
+      { params: { id: 'order-1' } }
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.order.status).toBe('shipped')
+    expect(mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY, 'insert')[0].args[0]).toMatchObject({
+      changed_by: 'user-1',
+      note: 'PostNL',
+    })
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toMatchObject({
+      entity_type: 'order',
+      action: 'order.status_changed',
+      actor_email: 'staff@example.com',
+    })
+  })
+
+  it('should return 409 for an illegal transition', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, { data: { id: 'order-1', status: 'cancelled' } })
+
+    const response = await patchOrder(jsonRequest('/api/orders/order-1', 'PATCH', { status: 'paid' }), { params: { id: 'order-1' } })
+
+    expect(response.status).toBe(409)
+    expect((await response.json()).type).toBe('invalid_transition')
+  })
+
+  it('should return 404 for an unknown order', async () => {
+    signIn('admin')
+
+    const response = await patchOrder(jsonRequest('/api/orders/missing', 'PATCH', { status: 'paid' }), { params: { id: 'missing' } })
+
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('product routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should let editors update a product and audit the change', async () => {
+    signIn('editor')
+    mock.respond(PRODUCT_TABLES.PRODUCTS,
+      { data: { id: 'product-1', name: 'Bottle', stock: 10 } },
+      { data: { id: 'product-1', name: 'Bottle', stock: 2 } }
+    )
+
+    const response = await patchProduct(jsonRequest('/api/products/product-1', 'PATCH', { stock: 2 }), { params: { id: 'product-1' } })
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).product.stock).toBe(2)
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toMatchObject({
+      entity_id: 'product-1',
+      action: 'product.updated',
+      changes: { stock: { from: 10, to: 2 } },
+    })
+  })
+
+  it('should reject invalid product updates before touching the database', async () => {
+    signIn('admin')
+
+    const response = await patchProduct(jsonRequest('/api/products/product-1', 'PATCH', { stock: -1 }), { params: { id: 'product-1' } })
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).details).toEqual({ field: 'stock' })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+
+  it('should return 403 for users without a role', async () => {
+    signIn(null)
+
+    const response = await createProduct(jsonRequest('/api/products', 'POST', {}))
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should not take the role from user metadata, which users can set themselves', async () => {
+    mock.client.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-1', email: 'staff@example.com', app_metadata: {}, user_metadata: { role: 'admin' } } },
+      error: null,
+    })
+
+    const response = await createProduct(jsonRequest('/api/products', 'POST', {}))
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+
+  it('should create a product and return 201', async () => {
+    signIn('admin')
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', name: 'Bottle' } })
+
+    const response = await createProduct(jsonRequest('/api/products', 'POST', {
+      name: 'Bottle',
+      description: 'Reusable bottle',
+      price: 12.5,
+      stock: 10,
+      is_active: true,
+      image: 'products/bottle',
+      image_meta: { 'products/bottle': { alt: 'Reusable water bottle' } },
+    }))
+
+    expect(response.status).toBe(201)
+    expect((await response.json()).product.id).toBe('product-1')
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0].action).toBe('product.created')
+  })
+
+  it('should return 404 when restoring a revision the product does not have', async () => {
+    signIn('editor')
+    mock.respond(AUDIT_TABLES.AUDIT_LOG, { data: [] })
+
+    const response = await restoreRevision(
+      new NextRequest('http://localhost/api/products/product-1/revisions/audit-9/restore', { method: 'POST' }),
+      { params: { id: 'product-1', revisionId: 'audit-9' } }
+    )
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ type: 'revision_not_found' })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')).toHaveLength(0)
+  })
+})
@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { DATABASE } from '../../../constants/auth'
+import { NOTE_TABLES } from '../../../constants/notes'
+import { AUDIT_TABLES } from '../../../constants/api'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { POST } from '../orders/[id]/notes/route'
+import { GET as GET_ACTIVITY } from '../orders/[id]/activity/route'
+
+function noteRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/orders/order-1/notes', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+const context = { params: { id: 'order-1' } }
+
+describe('order note routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should require a logged-in user', async () => {
+    const response = await POST(noteRequest({ content: 'Hello' }), context)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should let editors add notes as themselves', async () => {
+    signIn('editor', 'anna@whiskyforcharity.com')
+    mock.respond(NOTE_TABLES.ORDER_NOTES, { data: { id: 'note-1', content: 'Gift wrap please' } })
+
+    const response = await POST(noteRequest({ content: 'Gift wrap please', authorId: 'someone-else' }), context)
+
+    expect(response.status).toBe(201)
+    expect(mock.callsFor(NOTE_TABLES.ORDER_NOTES, 'insert')[0].args[0]).toMatchObject({
+      order_id: 'order-1',
+      author_id: 'user-1',
+      author_email: 'anna@whiskyforcharity.com',
+    })
+  })
+
+  it('should validate the payload', async () => {
+    signIn('admin', 'anna@whiskyforcharity.com')
+
+    const response = await POST(noteRequest({ content: '   ' }), context)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ type: 'invalid_note' })
+  })
+
+  it('should return notes, audited edits and mentionable users for the feed', async () => {
+    signIn('editor', 'anna@whiskyforcharity.com')
+    mock.respond(NOTE_TABLES.ORDER_NOTES, { data: [{ id: 'note-1' }] })
+    mock.respond(AUDIT_TABLES.AUDIT_LOG, { data: [{ id: 'audit-1', action: 'order.refunded' }] })
+    mock.respond(DATABASE.TABLES.USERS, { data: [{ id: 'user-2', email: 'bram@whiskyforcharity.com', role: 'admin' }] })
+
+    const response = await GET_ACTIVITY(new NextRequest('http://localhost/api/orders/order-1/activity'), context)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      notes: [{ id: 'note-1' }],
+      audit: [{ id: 'audit-1', action: 'order.refunded' }],
+      mentionable: [{ id: 'user-2', email: 'bram@whiskyforcharity.com', handle: 'bram', role: 'admin' }],
+    })
+  })
+})
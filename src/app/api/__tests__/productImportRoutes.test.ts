@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { PRODUCT_TABLES } from '../../../constants/products'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { POST } from '../products/import/route'
+
+function importRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/products/import', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+const content = 'Name,Description,Price,Stock,Main image\r\nSpeyside 12y,Sherried,65,12,products/speyside'
+
+describe('product import route', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+  })
+
+  it('should return the dry run without writing', async () => {
+    signIn('editor')
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [] })
+
+    const response = await POST(importRequest({ format: 'csv', content }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).preview).toMatchObject({
+      mapping: ['name', 'description', 'price', 'stock', 'image'],
+      summary: { create: 1, update: 0, unchanged: 0, error: 0 },
+    })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'insert')).toHaveLength(0)
+  })
+
+  it('should refuse to apply rows with errors', async () => {
+    signIn('editor')
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [] })
+
+    const response = await POST(importRequest({ format: 'csv', content: content.replace('65', 'free'), dryRun: false }))
+
+    expect(response.status).toBe(422)
+    expect(await response.json()).toMatchObject({ type: 'import_has_errors', details: { rows: [2] } })
+  })
+})
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createMockSupabase } from '../../../test/mockSupabase'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { PRODUCT_TABLES } from '../../../constants/products'
+import { AUDIT_TABLES } from '../../../constants/api'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+let serviceRoleMock: ReturnType<typeof createMockSupabase>
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@supabase/supabase-js')>()),
+  createClient: () => serviceRoleMock.client,
+}))
+
+import { GET, POST } from '../products/publishing/route'
+
+function jobRequest(method: 'GET' | 'POST', token?: string): NextRequest {
+  return new NextRequest('http://localhost/api/products/publishing', {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  })
+}
+
+describe('product publishing routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+    serviceRoleMock = createMockSupabase()
+    vi.stubEnv('CRON_SECRET', 'cron-secret')
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'http://localhost:54321')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should reject scheduler calls with the wrong token', async () => {
+    const response = await GET(jobRequest('GET', 'guessed'))
+
+    expect(response.status).toBe(401)
+    expect(serviceRoleMock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+
+  it('should only let admins run the job by hand', async () => {
+    signIn('editor')
+
+    const response = await POST(jobRequest('POST'))
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+
+  it('should apply the due changes with the service role when the scheduler calls', async () => {
+    serviceRoleMock.respond(PRODUCT_TABLES.PRODUCTS,
+      { data: [{ id: 'product-1', name: 'Port Ellen 1981', status: 'scheduled', is_active: false, publish_at: '2024-03-10T09:00:00Z', unpublish_at: null }] },
+      { data: [] },
+      { data: [{ id: 'product-1' }] }
+    )
+
+    const response = await GET(jobRequest('GET', 'cron-secret'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ applied: [{ productId: 'product-1', action: 'publish' }] })
+    expect(serviceRoleMock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0])
+      .toMatchObject({ action: 'product.published', actor_id: null })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS)).toHaveLength(0)
+  })
+})
@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { ORDER_TABLES } from '../../../constants/orders'
+import { REFUND_TABLES } from '../../../constants/refunds'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { GET, POST } from '../orders/[id]/refunds/route'
+
+function refundRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/orders/order-1/refunds', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+const context = { params: { id: 'order-1' } }
+
+describe('order refund routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+    vi.stubEnv('PAYMENT_PROVIDER', 'fake')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should only let admins refund', async () => {
+    signIn('editor')
+
+    const response = await POST(refundRequest({ reason: 'Broken' }), context)
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(ORDER_TABLES.ORDERS)).toHaveLength(0)
+  })
+
+  it('should validate the payload', async () => {
+    signIn('admin')
+
+    const response = await POST(refundRequest({ reason: 'Broken', lines: [{ orderItemId: 'item-1' }] }), context)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ type: 'invalid_payload', details: { field: 'lines' } })
+  })
+
+  it('should refund the order through the payment provider', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, {
+      data: { id: 'order-1', order_number: 'W4C-1001', total_amount: 60, status: 'paid', payment_reference: 'tr_123' },
+    })
+    mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [] })
+    mock.respond(REFUND_TABLES.REFUNDS, { data: [] }, { data: { id: 'refund-1' } })
+    mock.respond(
+      ORDER_TABLES.ORDERS,
+      { data: [{ id: 'order-1' }] }, // refunded_amount reservation
+      { data: { id: 'order-1', status: 'paid' } },
+      { data: [{ id: 'order-1', status: 'refunded', updated_at: '2024-03-02T10:00:00Z' }] }
+    )
+
+    const response = await POST(refundRequest({ reason: 'Donation withdrawn' }), context)
+    const body = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(body.refund).toMatchObject({ id: 'refund-1', type: 'full', amount: 60, provider: 'fake' })
+    expect(body.order).toEqual({ id: 'order-1', status: 'refunded', refunded_amount: 60 })
+    expect(mock.callsFor('audit_log', 'insert').map(call => call.args[0].action)).toEqual([
+      'order.status_changed',
+      'order.refunded',
+    ])
+  })
+
+  it('should map refund errors to 409', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, { data: { id: 'order-1', total_amount: 60, status: 'pending', payment_reference: null } })
+
+    const response = await POST(refundRequest({ reason: 'Broken' }), context)
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ type: 'refund_not_allowed' })
+  })
+
+  it('should list refunds with the net total', async () => {
+    signIn('editor')
+    mock.respond(ORDER_TABLES.ORDERS, { data: { id: 'order-1', total_amount: 60 } })
+    mock.respond(REFUND_TABLES.REFUNDS, { data: [{ id: 'refund-1', amount: 15 }] })
+    mock.respond(REFUND_TABLES.REFUND_LINES, { data: [] })
+
+    const response = await GET(new NextRequest('http://localhost/api/orders/order-1/refunds'), context)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.refunds).toHaveLength(1)
+    expect(body.summary).toMatchObject({ orderTotal: 60, refundedAmount: 15, netAmount: 45 })
+  })
+})
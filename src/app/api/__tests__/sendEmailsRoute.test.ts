@@ -0,0 +1,108 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { ORDER_TABLES } from '../../../constants/orders'
+import { EMAIL_TABLES } from '../../../constants/email'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { POST, GET } from '../orders/send-emails-wfc/route'
+
+function postRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/orders/send-emails-wfc', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('/api/orders/send-emails-wfc', () => {
+  let mailDir: string
+  const originalEnv = { ...process.env }
+
+  beforeEach(async () => {
+    mock = mockRouteSupabase()
+    // File sink instead of SMTP: every message lands as JSON in a temp directory
+    mailDir = await mkdtemp(join(tmpdir(), 'w4c-mail-'))
+    process.env.MAIL_TRANSPORT = 'file'
+    process.env.MAIL_FILE_DIR = mailDir
+    process.env.MAIL_NOTIFICATION_TO = 'team@example.com'
+  })
+
+  afterEach(async () => {
+    process.env = { ...originalEnv }
+    await rm(mailDir, { recursive: true, force: true })
+  })
+
+  it('should require an admin', async () => {
+    signIn('editor')
+
+    const response = await POST(postRequest({ orderId: 'order-1' }))
+
+    expect(response.status).toBe(403)
+    expect(await readdir(mailDir)).toHaveLength(0)
+  })
+
+  it('should return 400 without an orderId', async () => {
+    signIn('admin')
+
+    const response = await POST(postRequest({ customer: {} }))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should write both emails to the file sink and record the send log', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, {
+      data: {
+        id: 'order-1',
+        order_number: 'W4C-1001',
+        customer_first_name: 'Sam',
+        customer_last_name: 'Jansen',
+        customer_email: 'sam@example.com',
+        total_amount: 60,
+        status: 'paid',
+      },
+    })
+    mock.respond(ORDER_TABLES.ORDER_ITEMS, {
+      data: [{ id: 'item-1', order_id: 'order-1', product_id: 'product-1', quantity: 2, price: 30 }],
+    })
+
+    const response = await POST(postRequest({ orderId: 'order-1' }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.emailsSent).toBe(true)
+
+    const files = await readdir(mailDir)
+    const messages = await Promise.all(files.map(async file => JSON.parse(await readFile(join(mailDir, file), 'utf8'))))
+    expect(messages.map(message => message.to).sort()).toEqual(['sam@example.com', 'team@example.com'])
+
+    const [logged] = mock.callsFor(EMAIL_TABLES.ORDER_EMAIL_LOG, 'insert')[0].args
+    expect(logged.map((entry: any) => entry.transport)).toEqual(['file', 'file'])
+    expect(logged[0].sent_by).toBe('user-1')
+  })
+
+  it('should return 404 for an unknown order', async () => {
+    signIn('admin')
+
+    const response = await POST(postRequest({ orderId: 'missing' }))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should return the send log of an order', async () => {
+    signIn('editor')
+    mock.respond(EMAIL_TABLES.ORDER_EMAIL_LOG, { data: [{ id: 'log-1', order_id: 'order-1', status: 'sent' }] })
+
+    const response = await GET(new NextRequest('http://localhost/api/orders/send-emails-wfc?orderId=order-1'))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).log).toHaveLength(1)
+    expect(mock.callsFor(EMAIL_TABLES.ORDER_EMAIL_LOG, 'eq')[0].args).toEqual(['order_id', 'order-1'])
+  })
+})
@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mockRouteSupabase, signIn } from '../../../test/apiRoutes'
+import { ORDER_TABLES } from '../../../constants/orders'
+import { SHIPMENT_TABLES } from '../../../constants/shipments'
+
+let mock: ReturnType<typeof mockRouteSupabase>
+
+import { POST } from '../orders/[id]/shipments/route'
+import { POST as REFRESH_TRACKING } from '../orders/[id]/shipments/[shipmentId]/tracking/route'
+
+function shipmentRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/orders/order-1/shipments', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('order shipment routes', () => {
+  beforeEach(() => {
+    mock = mockRouteSupabase()
+    vi.stubEnv('CARRIER_ADAPTER', 'mock')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should only let admins ship orders', async () => {
+    signIn('editor')
+
+    const response = await POST(shipmentRequest({ carrier: 'postnl', parcels: [{}] }), { params: { id: 'order-1' } })
+
+    expect(response.status).toBe(403)
+    expect(mock.callsFor(ORDER_TABLES.ORDERS)).toHaveLength(0)
+  })
+
+  it('should validate the payload', async () => {
+    signIn('admin')
+
+    const response = await POST(shipmentRequest({ carrier: 'postnl', parcels: [{ weightKg: '2 kg' }] }), { params: { id: 'order-1' } })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ type: 'invalid_payload', details: { field: 'parcels' } })
+  })
+
+  it('should refuse to ship unpaid orders', async () => {
+    signIn('admin')
+    mock.respond(ORDER_TABLES.ORDERS, { data: { id: 'order-1', status: 'pending' } })
+
+    const response = await POST(shipmentRequest({ carrier: 'postnl', parcels: [{ trackingNumber: '3SABCD123' }] }), { params: { id: 'order-1' } })
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ type: 'shipment_not_allowed' })
+  })
+
+  it('should let editors refresh the tracking status', async () => {
+    signIn('editor')
+    mock.respond(SHIPMENT_TABLES.SHIPMENTS, {
+      data: { id: 'shipment-1', order_id: 'order-1', carrier: 'dhl', tracking_number: 'JVGL0123456789' },
+    })
+    mock.respond(ORDER_TABLES.ORDERS, { data: { id: 'order-1', status: 'shipped', customer_postal_code: null, customer_country: null } })
+
+    const response = await REFRESH_TRACKING(
+      new NextRequest('http://localhost/api/orders/order-1/shipments/shipment-1/tracking', { method: 'POST' }),
+      { params: { id: 'order-1', shipmentId: 'shipment-1' } }
+    )
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).shipment).toMatchObject({ id: 'shipment-1', tracking_status: 'in_transit' })
+  })
+})
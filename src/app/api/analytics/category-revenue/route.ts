@@ -0,0 +1,28 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createCatalogService } from '../../../../services/catalogService'
+import { authorizeRequest, errorResponse } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API analytics/category-revenue]'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/analytics/category-revenue - revenue per product category, net of refunds (?days, all time without)
+export async function GET(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const days = Number(request.nextUrl.searchParams.get('days'))
+    const since = Number.isInteger(days) && days > 0 ? new Date(Date.now() - days * DAY_MS).toISOString() : null
+
+    const report = await createCatalogService(supabase).getCategoryRevenue(since)
+
+    return NextResponse.json({ report }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,41 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createCatalogService } from '../../../../services/catalogService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API categories/[id]]'
+
+// PATCH /api/categories/[id] - rename a category or move it under another parent
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const catalogService = createCatalogService(supabase, createAuditService(supabase))
+
+    const changes = catalogService.validateCategoryInput(await parseJsonBody(request), true)
+    const category = await catalogService.updateCategory(params.id, changes, toAuditActor(caller))
+
+    return NextResponse.json({ category }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// DELETE /api/categories/[id] - delete a category without subcategories; its products move to the parent
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+
+    const result = await createCatalogService(supabase, createAuditService(supabase)).deleteCategory(params.id, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
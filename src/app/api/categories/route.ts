@@ -0,0 +1,42 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { CategoryInput } from '../../../types/catalog'
+import { API_PERMISSIONS } from '../../../constants/api'
+import { createCatalogService } from '../../../services/catalogService'
+import { createAuditService } from '../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API categories]'
+
+// GET /api/categories - all product categories, to be nested with buildCategoryTree()
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_READ)
+
+    const categories = await createCatalogService(supabase).getCategories()
+
+    return NextResponse.json({ categories }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// POST /api/categories - create a category, optionally under a parent
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const catalogService = createCatalogService(supabase, createAuditService(supabase))
+
+    const input = catalogService.validateCategoryInput(await parseJsonBody(request)) as CategoryInput
+    const category = await catalogService.createCategory(input, toAuditActor(caller))
+
+    return NextResponse.json({ category }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
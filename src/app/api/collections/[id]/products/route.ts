@@ -0,0 +1,26 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createCatalogService } from '../../../../../services/catalogService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API collections/[id]/products]'
+
+// PUT /api/collections/[id]/products - replace the products of a collection, in display order
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const catalogService = createCatalogService(supabase, createAuditService(supabase))
+
+    const productIds = catalogService.validateProductOrder(await parseJsonBody(request))
+    const collection = await catalogService.setCollectionProducts(params.id, productIds, toAuditActor(caller))
+
+    return NextResponse.json({ collection }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
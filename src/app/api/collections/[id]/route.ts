@@ -0,0 +1,41 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createCatalogService } from '../../../../services/catalogService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API collections/[id]]'
+
+// PATCH /api/collections/[id] - rename a collection or change its description
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const catalogService = createCatalogService(supabase, createAuditService(supabase))
+
+    const changes = catalogService.validateCollectionInput(await parseJsonBody(request), true)
+    const collection = await catalogService.updateCollection(params.id, changes, toAuditActor(caller))
+
+    return NextResponse.json({ collection }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// DELETE /api/collections/[id] - delete a collection; its products stay
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+
+    await createCatalogService(supabase, createAuditService(supabase)).deleteCollection(params.id, toAuditActor(caller))
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,42 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { CollectionInput } from '../../../types/catalog'
+import { API_PERMISSIONS } from '../../../constants/api'
+import { createCatalogService } from '../../../services/catalogService'
+import { createAuditService } from '../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API collections]'
+
+// GET /api/collections - all collections with their products in curated order
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_READ)
+
+    const collections = await createCatalogService(supabase).getCollections()
+
+    return NextResponse.json({ collections }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// POST /api/collections - create an empty collection
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const catalogService = createCatalogService(supabase, createAuditService(supabase))
+
+    const input = catalogService.validateCollectionInput(await parseJsonBody(request)) as CollectionInput
+    const collection = await catalogService.createCollection(input, toAuditActor(caller))
+
+    return NextResponse.json({ collection }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
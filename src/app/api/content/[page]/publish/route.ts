@@ -0,0 +1,24 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createContentService } from '../../../../../services/contentService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/publish]'
+
+// POST /api/content/[page]/publish - publish every draft in review on a page
+export async function POST(_request: NextRequest, { params }: { params: { page: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_PUBLISH)
+
+    const result = await createContentService(supabase, createAuditService(supabase)).publishPage(params.page, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
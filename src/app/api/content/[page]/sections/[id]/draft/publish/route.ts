@@ -0,0 +1,25 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../../constants/api'
+import { createContentService } from '../../../../../../../../services/contentService'
+import { createAuditService } from '../../../../../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/sections/[id]/draft/publish]'
+
+// POST /api/content/[page]/sections/[id]/draft/publish - approve a draft in review and put it live
+export async function POST(_request: NextRequest, { params }: { params: { page: string; id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_PUBLISH)
+
+    const section = await createContentService(supabase, createAuditService(supabase))
+      .publishDraft(params.page, params.id, toAuditActor(caller))
+
+    return NextResponse.json({ section }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,26 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../../constants/api'
+import { createContentService } from '../../../../../../../../services/contentService'
+import { createAuditService } from '../../../../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/sections/[id]/draft/reject]'
+
+// POST /api/content/[page]/sections/[id]/draft/reject - send a draft in review back to its author with a note
+export async function POST(request: NextRequest, { params }: { params: { page: string; id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_PUBLISH)
+    const contentService = createContentService(supabase, createAuditService(supabase))
+
+    const { note } = contentService.validateReviewInput(await parseJsonBody(request))
+    const draft = await contentService.rejectDraft(params.page, params.id, note, toAuditActor(caller))
+
+    return NextResponse.json({ draft }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,45 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../constants/api'
+import { createContentService } from '../../../../../../../services/contentService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../../../utils/apiAuth'
+import { readExpectedVersion } from '../../../../../../../utils/concurrency'
+
+const LOG_PREFIX = '[API content/[page]/sections/[id]/draft]'
+
+type Params = { params: { page: string; id: string } }
+
+// PUT /api/content/[page]/sections/[id]/draft - save the draft of a section; the live site is unchanged. With
+// expected_updated_at (null when there was no draft), only if nobody saved the draft since
+export async function PUT(request: NextRequest, { params }: Params) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_WRITE)
+    const contentService = createContentService(supabase)
+
+    const { payload, expectedUpdatedAt } = readExpectedVersion(await parseJsonBody(request))
+    const { content } = contentService.validateSectionInput(payload)
+    const draft = await contentService.saveDraft(params.page, params.id, content, toAuditActor(caller), expectedUpdatedAt)
+
+    return NextResponse.json({ draft }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// DELETE /api/content/[page]/sections/[id]/draft - discard the draft of a section
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_WRITE)
+
+    await createContentService(supabase).discardDraft(params.page, params.id)
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,25 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../../constants/api'
+import { createContentService } from '../../../../../../../../services/contentService'
+import { createAuditService } from '../../../../../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/sections/[id]/draft/submit]'
+
+// POST /api/content/[page]/sections/[id]/draft/submit - submit the draft of a section for review
+export async function POST(_request: NextRequest, { params }: { params: { page: string; id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_WRITE)
+
+    const draft = await createContentService(supabase, createAuditService(supabase))
+      .submitDraft(params.page, params.id, toAuditActor(caller))
+
+    return NextResponse.json({ draft }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
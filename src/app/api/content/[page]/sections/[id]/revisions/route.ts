@@ -0,0 +1,24 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../constants/api'
+import { createContentService } from '../../../../../../../services/contentService'
+import { createAuditService } from '../../../../../../../services/auditService'
+import { authorizeRequest, errorResponse } from '../../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/sections/[id]/revisions]'
+
+// GET /api/content/[page]/sections/[id]/revisions - published versions of a section with their authors, newest first
+export async function GET(_request: NextRequest, { params }: { params: { page: string; id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_READ)
+
+    const revisions = await createContentService(supabase, createAuditService(supabase)).getRevisions(params.page, params.id)
+
+    return NextResponse.json({ revisions }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
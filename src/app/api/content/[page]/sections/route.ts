@@ -0,0 +1,27 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createContentService } from '../../../../../services/contentService'
+import { authorizeRequest, errorResponse } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/sections]'
+
+// GET /api/content/[page]/sections - the live sections of a site page, in display order, with their drafts
+export async function GET(_request: NextRequest, { params }: { params: { page: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_READ)
+
+    const contentService = createContentService(supabase)
+    const [sections, drafts] = await Promise.all([
+      contentService.getSections(params.page),
+      contentService.getDrafts(params.page),
+    ])
+
+    return NextResponse.json({ sections, drafts }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
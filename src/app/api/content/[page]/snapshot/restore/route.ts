@@ -0,0 +1,26 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../constants/api'
+import { createContentService } from '../../../../../../services/contentService'
+import { createAuditService } from '../../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/snapshot/restore]'
+
+// POST /api/content/[page]/snapshot/restore - roll a page back to how it looked at { at }
+export async function POST(request: NextRequest, { params }: { params: { page: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_PUBLISH)
+    const contentService = createContentService(supabase, createAuditService(supabase))
+
+    const { at } = contentService.validateSnapshotInput(await parseJsonBody(request))
+    const result = await contentService.rollbackPage(params.page, at, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,26 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createContentService } from '../../../../../services/contentService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, errorResponse } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/[page]/snapshot]'
+
+// GET /api/content/[page]/snapshot?at=ISO date - every section of a page as it was at that moment
+export async function GET(request: NextRequest, { params }: { params: { page: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_READ)
+    const contentService = createContentService(supabase, createAuditService(supabase))
+
+    const { at } = contentService.validateSnapshotInput({ at: request.nextUrl.searchParams.get('at') })
+    const snapshot = await contentService.getPageSnapshot(params.page, at)
+
+    return NextResponse.json({ snapshot }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
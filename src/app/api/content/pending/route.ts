@@ -0,0 +1,23 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createContentService } from '../../../../services/contentService'
+import { authorizeRequest, errorResponse } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API content/pending]'
+
+// GET /api/content/pending - the number of drafts in review per page
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CONTENT_READ)
+
+    const pending = await createContentService(supabase).getPendingCounts()
+
+    return NextResponse.json({ pending }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
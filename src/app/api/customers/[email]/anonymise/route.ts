@@ -0,0 +1,26 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createCustomerService } from '../../../../../services/customerService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+import { decodeCustomerKey } from '../../../../../utils/customers'
+
+const LOG_PREFIX = '[API customers/[email]/anonymise]'
+
+// POST /api/customers/[email]/anonymise - scrub the customer's personal data from all of their orders (GDPR erasure)
+export async function POST(_request: NextRequest, { params }: { params: { email: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CUSTOMER_WRITE)
+
+    const result = await createCustomerService(supabase, createAuditService(supabase))
+      .anonymiseCustomer(decodeCustomerKey(params.email), toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
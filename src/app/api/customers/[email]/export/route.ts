@@ -0,0 +1,35 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { format } from 'date-fns'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createCustomerService } from '../../../../../services/customerService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+import { decodeCustomerKey } from '../../../../../utils/customers'
+
+const LOG_PREFIX = '[API customers/[email]/export]'
+
+// GET /api/customers/[email]/export - download everything stored about a customer (GDPR access request)
+export async function GET(_request: NextRequest, { params }: { params: { email: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CUSTOMER_WRITE)
+
+    const data = await createCustomerService(supabase, createAuditService(supabase))
+      .exportCustomer(decodeCustomerKey(params.email), toAuditActor(caller))
+
+    const filename = `customer-data-${format(new Date(), 'yyyy-MM-dd')}.json`
+
+    return NextResponse.json(data, {
+      status: 200,
+      headers: {
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
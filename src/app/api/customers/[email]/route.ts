@@ -0,0 +1,24 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createCustomerService } from '../../../../services/customerService'
+import { authorizeRequest, errorResponse } from '../../../../utils/apiAuth'
+import { decodeCustomerKey } from '../../../../utils/customers'
+
+const LOG_PREFIX = '[API customers/[email]]'
+
+// GET /api/customers/[email] - customer profile with all of their orders
+export async function GET(_request: NextRequest, { params }: { params: { email: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CUSTOMER_READ)
+
+    const customer = await createCustomerService(supabase).getCustomer(decodeCustomerKey(params.email))
+
+    return NextResponse.json(customer, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
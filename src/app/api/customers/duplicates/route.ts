@@ -0,0 +1,23 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createCustomerService } from '../../../../services/customerService'
+import { authorizeRequest, errorResponse } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API customers/duplicates]'
+
+// GET /api/customers/duplicates - profiles that probably belong to the same person
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CUSTOMER_READ)
+
+    const groups = await createCustomerService(supabase).getDuplicates()
+
+    return NextResponse.json({ groups }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,47 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { MergeCustomersInput } from '../../../../types/customers'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createCustomerService } from '../../../../services/customerService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../utils/apiAuth'
+import { createApiError } from '../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API customers/merge]'
+
+// Valideer de payload: { targetEmail, sourceEmails }
+function validateMergeRequest(payload: unknown): MergeCustomersInput {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { targetEmail, sourceEmails } = payload as Record<string, unknown>
+
+  if (typeof targetEmail !== 'string' || !targetEmail.trim()) {
+    throw createApiError('invalid_payload', 'targetEmail is required', { field: 'targetEmail' })
+  }
+
+  if (!Array.isArray(sourceEmails) || sourceEmails.some(email => typeof email !== 'string')) {
+    throw createApiError('invalid_payload', 'sourceEmails must be a list of emails', { field: 'sourceEmails' })
+  }
+
+  return { targetEmail, sourceEmails: sourceEmails as string[] }
+}
+
+// POST /api/customers/merge - move the orders of duplicate profiles to one email
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.CUSTOMER_WRITE)
+    const input = validateMergeRequest(await parseJsonBody(request))
+
+    const result = await createCustomerService(supabase, createAuditService(supabase))
+      .mergeCustomers(input, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
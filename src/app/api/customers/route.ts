@@ -0,0 +1,24 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../constants/api'
+import { createCustomerService } from '../../../services/customerService'
+import { authorizeRequest, errorResponse } from '../../../utils/apiAuth'
+import { parseCustomerListParams } from '../../../utils/customers'
+
+const LOG_PREFIX = '[API customers]'
+
+// GET /api/customers - one page of customer profiles built from order history (?q, sort, dir, page)
+export async function GET(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.CUSTOMER_READ)
+
+    const page = await createCustomerService(supabase).listCustomers(parseCustomerListParams(request.nextUrl.searchParams))
+
+    return NextResponse.json(page, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
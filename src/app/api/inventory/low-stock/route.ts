@@ -0,0 +1,23 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createInventoryService } from '../../../../services/inventoryService'
+import { authorizeRequest, errorResponse } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API inventory/low-stock]'
+
+// GET /api/inventory/low-stock - active products and variants at or below their low-stock threshold
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_READ)
+
+    const alerts = await createInventoryService(supabase).getLowStockAlerts()
+
+    return NextResponse.json({ alerts }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
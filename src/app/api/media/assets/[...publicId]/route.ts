@@ -0,0 +1,64 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createMediaService } from '../../../../../services/mediaService'
+import { createMediaAdapter, getMediaConfig } from '../../../../../services/mediaAdapters'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API media/assets/[...publicId]]'
+
+type RouteContext = { params: { publicId: string[] } }
+
+// Public IDs contain folders, so they arrive as several path segments
+const toPublicId = (params: RouteContext['params']) => params.publicId.map(decodeURIComponent).join('/')
+
+// GET /api/media/assets/[...publicId] - one asset with where it is used
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.MEDIA_READ)
+
+    const asset = await createMediaService(supabase, createMediaAdapter(getMediaConfig())).getAsset(toPublicId(params))
+
+    return NextResponse.json({ asset }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// PATCH /api/media/assets/[...publicId] - replace the tags of an asset
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.MEDIA_WRITE)
+    const mediaService = createMediaService(supabase, createMediaAdapter(getMediaConfig()), createAuditService(supabase))
+
+    const tags = mediaService.validateTags(await parseJsonBody(request))
+    const asset = await mediaService.updateTags(toPublicId(params), tags, toAuditActor(caller))
+
+    return NextResponse.json({ asset }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// DELETE /api/media/assets/[...publicId] - delete an asset; 409 while it is still used, unless ?force=true
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.MEDIA_DELETE)
+    const force = request.nextUrl.searchParams.get('force') === 'true'
+
+    const result = await createMediaService(supabase, createMediaAdapter(getMediaConfig()), createAuditService(supabase))
+      .deleteAsset(toPublicId(params), force, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,33 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../constants/api'
+import { createMediaService } from '../../../services/mediaService'
+import { createMediaAdapter, getMediaConfig } from '../../../services/mediaAdapters'
+import { authorizeRequest, errorResponse } from '../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API media]'
+
+// GET /api/media - uploaded assets, newest first, with where they are used (?query, ?tag, ?cursor, ?limit)
+export async function GET(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.MEDIA_READ)
+    const mediaService = createMediaService(supabase, createMediaAdapter(getMediaConfig()))
+
+    const params = request.nextUrl.searchParams
+    const query = mediaService.validateSearchQuery({
+      query: params.get('query'),
+      tag: params.get('tag'),
+      cursor: params.get('cursor'),
+      limit: params.get('limit'),
+    })
+
+    const page = await mediaService.searchAssets(query)
+
+    return NextResponse.json(page, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,24 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createMediaService } from '../../../../services/mediaService'
+import { createMediaAdapter, getMediaConfig } from '../../../../services/mediaAdapters'
+import { authorizeRequest, errorResponse } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API media/tags]'
+
+// GET /api/media/tags - every tag used in the media library
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.MEDIA_READ)
+
+    const tags = await createMediaService(supabase, createMediaAdapter(getMediaConfig())).listTags()
+
+    return NextResponse.json({ tags }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
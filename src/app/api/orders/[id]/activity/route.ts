@@ -0,0 +1,31 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { OrderActivityResponse } from '../../../../../types/notes'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createOrderNoteService } from '../../../../../services/orderNoteService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, errorResponse } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API orders/[id]/activity]'
+
+// GET /api/orders/[id]/activity - notes, audited edits and mentionable users for the order activity feed
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const notes = createOrderNoteService(supabase)
+    const [orderNotes, audit, mentionable] = await Promise.all([
+      notes.getNotes(params.id),
+      createAuditService(supabase).getEntries('order', params.id),
+      notes.getMentionableUsers(),
+    ])
+
+    const body: OrderActivityResponse = { notes: orderNotes, audit, mentionable }
+    return NextResponse.json(body, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
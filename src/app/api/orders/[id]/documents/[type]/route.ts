@@ -0,0 +1,34 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import type { NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../constants/api'
+import { createOrderDocumentService } from '../../../../../../services/orderDocumentService'
+import { authorizeRequest, errorResponse, fileResponse } from '../../../../../../utils/apiAuth'
+import { createDocumentError, isOrderDocumentType } from '../../../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/[id]/documents]'
+
+// GET /api/orders/[id]/documents/[type] - download the invoice or packing slip PDF
+export async function GET(_request: NextRequest, { params }: { params: { id: string; type: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    if (!isOrderDocumentType(params.type)) {
+      throw createDocumentError('invalid_document_type', `Unknown document type: ${params.type}`, { type: params.type })
+    }
+
+    // Issuing an invoice assigns an invoice number, so it needs write access
+    const caller = await authorizeRequest(
+      supabase,
+      params.type === 'invoice' ? API_PERMISSIONS.ORDER_WRITE : API_PERMISSIONS.ORDER_READ
+    )
+
+    const document = await createOrderDocumentService(supabase).renderDocument(params.id, params.type, {
+      createdBy: caller.user.id,
+    })
+
+    return fileResponse(document)
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,23 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../constants/api'
+import { createOrderNoteService } from '../../../../../../services/orderNoteService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API orders/[id]/notes/[noteId]]'
+
+// DELETE /api/orders/[id]/notes/[noteId] - delete your own note while nobody replied to it
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string; noteId: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_NOTE_WRITE)
+
+    await createOrderNoteService(supabase).deleteNote(params.id, params.noteId, toAuditActor(caller))
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,45 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { CreateOrderNoteInput } from '../../../../../types/notes'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createOrderNoteService } from '../../../../../services/orderNoteService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+import { createApiError } from '../../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/[id]/notes]'
+
+// Valideer de payload: { content, parentId? }
+function validateNoteRequest(payload: unknown): CreateOrderNoteInput {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { content, parentId } = payload as Record<string, unknown>
+
+  if (typeof content !== 'string') {
+    throw createApiError('invalid_payload', 'content is required', { field: 'content' })
+  }
+
+  if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+    throw createApiError('invalid_payload', 'parentId must be a string', { field: 'parentId' })
+  }
+
+  return { content, parentId: (parentId as string | null | undefined) ?? null }
+}
+
+// POST /api/orders/[id]/notes - add an internal note or reply, with @mentions of dashboard users
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_NOTE_WRITE)
+    const input = validateNoteRequest(await parseJsonBody(request))
+
+    const note = await createOrderNoteService(supabase).createNote(params.id, input, toAuditActor(caller))
+
+    return NextResponse.json({ note }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
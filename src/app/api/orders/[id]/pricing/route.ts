@@ -0,0 +1,23 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createPricingService } from '../../../../../services/pricingService'
+import { authorizeRequest, errorResponse } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API orders/[id]/pricing]'
+
+// GET /api/orders/[id]/pricing - net, VAT and gross amounts of the order lines in the order's currency
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const pricing = await createPricingService(supabase).getOrderPricing(params.id)
+
+    return NextResponse.json({ pricing }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
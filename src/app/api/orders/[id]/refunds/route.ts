@@ -0,0 +1,99 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CreateRefundInput, RefundLineInput } from '../../../../../types/refunds'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { ORDER_TABLES } from '../../../../../constants/orders'
+import { createRefundService, summarizeRefunds } from '../../../../../services/refundService'
+import { createPaymentProvider, getPaymentConfig } from '../../../../../services/paymentProvider'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+import { createApiError, createOrderError } from '../../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/[id]/refunds]'
+
+// Valideer de payload: { lines?: [{ orderItemId, quantity }], reason, restock? }
+function validateRefundRequest(payload: unknown): CreateRefundInput {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { lines, reason, restock } = payload as Record<string, unknown>
+
+  if (typeof reason !== 'string') {
+    throw createApiError('invalid_payload', 'reason is required', { field: 'reason' })
+  }
+
+  if (restock !== undefined && typeof restock !== 'boolean') {
+    throw createApiError('invalid_payload', 'restock must be a boolean', { field: 'restock' })
+  }
+
+  if (lines !== undefined && lines !== null) {
+    const valid = Array.isArray(lines) && lines.every(line =>
+      typeof line === 'object' && line !== null &&
+      typeof (line as RefundLineInput).orderItemId === 'string' &&
+      typeof (line as RefundLineInput).quantity === 'number'
+    )
+
+    if (!valid) {
+      throw createApiError('invalid_payload', 'lines must be a list of { orderItemId, quantity }', { field: 'lines' })
+    }
+  }
+
+  return {
+    lines: (lines as RefundLineInput[] | null | undefined) ?? undefined,
+    reason,
+    restock: restock === true,
+  }
+}
+
+function createService(supabase: SupabaseClient) {
+  const config = getPaymentConfig()
+  return createRefundService(supabase, createPaymentProvider(config), createAuditService(supabase), config.currency)
+}
+
+// POST /api/orders/[id]/refunds - refund an order in full or per item
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_WRITE)
+    const input = validateRefundRequest(await parseJsonBody(request))
+
+    const result = await createService(supabase).createRefund(params.id, input, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// GET /api/orders/[id]/refunds - refunds of an order with the refunded and net totals
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const { data: order, error } = await supabase
+      .from(ORDER_TABLES.ORDERS)
+      .select('id, total_amount')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId: params.id })
+    }
+
+    if (!order) {
+      throw createOrderError('order_not_found', 'Order not found', { orderId: params.id })
+    }
+
+    const refunds = await createService(supabase).getRefunds(params.id)
+
+    return NextResponse.json({ refunds, summary: summarizeRefunds(order, refunds) }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
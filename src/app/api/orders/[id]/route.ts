@@ -0,0 +1,62 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { OrderStatus } from '../../../../types/orders'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { REFUND_ORDER_STATUSES } from '../../../../constants/orders'
+import { createOrderLifecycleService } from '../../../../services/orderLifecycleService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse } from '../../../../utils/apiAuth'
+import { createApiError, isOrderStatus } from '../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/[id]]'
+const NOTE_MAX_LENGTH = 1000
+
+// Valideer de status-update payload: { status, note? }
+function validateStatusUpdate(payload: unknown): { status: OrderStatus; note: string | null } {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { status, note } = payload as Record<string, unknown>
+
+  if (!isOrderStatus(status)) {
+    throw createApiError('invalid_payload', 'A valid status is required', { field: 'status' })
+  }
+
+  // Terugbetaald-statussen volgen uit een terugbetaling; met de hand zetten verplaatst geen geld
+  if (REFUND_ORDER_STATUSES.includes(status)) {
+    throw createApiError('invalid_payload', 'Refund statuses are set by issuing a refund', { field: 'status' })
+  }
+
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    throw createApiError('invalid_payload', 'note must be a string', { field: 'note' })
+  }
+
+  if (typeof note === 'string' && note.length > NOTE_MAX_LENGTH) {
+    throw createApiError('invalid_payload', `note cannot exceed ${NOTE_MAX_LENGTH} characters`, { field: 'note' })
+  }
+
+  return { status, note: (note as string | null | undefined) ?? null }
+}
+
+// PATCH /api/orders/[id] - change the order status through the lifecycle state machine
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_WRITE)
+    const { status, note } = validateStatusUpdate(await parseJsonBody(request))
+
+    const orderLifecycle = createOrderLifecycleService(supabase, createAuditService(supabase))
+    const result = await orderLifecycle.transition(params.id, status, {
+      userId: caller.user.id,
+      userEmail: caller.user.email,
+      note,
+    })
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
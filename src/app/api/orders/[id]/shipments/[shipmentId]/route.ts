@@ -0,0 +1,90 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { UpdateShipmentInput } from '../../../../../../types/shipments'
+import { API_PERMISSIONS } from '../../../../../../constants/api'
+import { createShipmentService } from '../../../../../../services/shipmentService'
+import { createCarrierAdapters, getCarrierConfig } from '../../../../../../services/carrierAdapters'
+import { createOrderEmailService } from '../../../../../../services/orderEmailService'
+import { createMailTransport, getMailConfig } from '../../../../../../services/mailTransport'
+import { createAuditService } from '../../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../../utils/apiAuth'
+import { createApiError } from '../../../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/[id]/shipments/[shipmentId]]'
+
+type ShipmentParams = { params: { id: string; shipmentId: string } }
+
+// Valideer de payload: { carrier?, trackingNumber?, weightKg?, notifyCustomer? }
+function validateShipmentUpdate(payload: unknown): UpdateShipmentInput {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { carrier, trackingNumber, weightKg, notifyCustomer } = payload as Record<string, unknown>
+
+  if (carrier !== undefined && typeof carrier !== 'string') {
+    throw createApiError('invalid_payload', 'carrier must be a string', { field: 'carrier' })
+  }
+
+  if (trackingNumber !== undefined && trackingNumber !== null && typeof trackingNumber !== 'string') {
+    throw createApiError('invalid_payload', 'trackingNumber must be a string', { field: 'trackingNumber' })
+  }
+
+  if (weightKg !== undefined && weightKg !== null && typeof weightKg !== 'number') {
+    throw createApiError('invalid_payload', 'weightKg must be a number', { field: 'weightKg' })
+  }
+
+  if (notifyCustomer !== undefined && typeof notifyCustomer !== 'boolean') {
+    throw createApiError('invalid_payload', 'notifyCustomer must be a boolean', { field: 'notifyCustomer' })
+  }
+
+  return {
+    carrier: carrier as UpdateShipmentInput['carrier'],
+    trackingNumber: trackingNumber as string | null | undefined,
+    weightKg: weightKg as number | null | undefined,
+    notifyCustomer: notifyCustomer === true,
+  }
+}
+
+function createService(supabase: SupabaseClient) {
+  const mailConfig = getMailConfig()
+  return createShipmentService(
+    supabase,
+    createCarrierAdapters(getCarrierConfig()),
+    createOrderEmailService(supabase, createMailTransport(mailConfig), mailConfig),
+    createAuditService(supabase)
+  )
+}
+
+// PATCH /api/orders/[id]/shipments/[shipmentId] - change a parcel, e.g. add its tracking number
+export async function PATCH(request: NextRequest, { params }: ShipmentParams) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_WRITE)
+    const input = validateShipmentUpdate(await parseJsonBody(request))
+
+    const result = await createService(supabase).updateShipment(params.id, params.shipmentId, input, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// DELETE /api/orders/[id]/shipments/[shipmentId] - remove a parcel registered by mistake
+export async function DELETE(_request: NextRequest, { params }: ShipmentParams) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_WRITE)
+
+    const result = await createService(supabase).deleteShipment(params.id, params.shipmentId, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
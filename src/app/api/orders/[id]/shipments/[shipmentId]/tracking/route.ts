@@ -0,0 +1,25 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../constants/api'
+import { createShipmentService } from '../../../../../../../services/shipmentService'
+import { createCarrierAdapters, getCarrierConfig } from '../../../../../../../services/carrierAdapters'
+import { authorizeRequest, errorResponse } from '../../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API orders/[id]/shipments/[shipmentId]/tracking]'
+
+// POST /api/orders/[id]/shipments/[shipmentId]/tracking - look up the latest tracking status with the carrier
+export async function POST(_request: NextRequest, { params }: { params: { id: string; shipmentId: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const shipment = await createShipmentService(supabase, createCarrierAdapters(getCarrierConfig()))
+      .refreshTracking(params.id, params.shipmentId)
+
+    return NextResponse.json({ shipment }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
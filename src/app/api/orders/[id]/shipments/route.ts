@@ -0,0 +1,96 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CreateShipmentInput, ShipmentParcelInput } from '../../../../../types/shipments'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createShipmentService } from '../../../../../services/shipmentService'
+import { createCarrierAdapters, getCarrierConfig } from '../../../../../services/carrierAdapters'
+import { createOrderEmailService } from '../../../../../services/orderEmailService'
+import { createMailTransport, getMailConfig } from '../../../../../services/mailTransport'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+import { createApiError } from '../../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/[id]/shipments]'
+
+function isParcelInput(parcel: unknown): parcel is ShipmentParcelInput {
+  if (typeof parcel !== 'object' || parcel === null) return false
+
+  const { trackingNumber, weightKg } = parcel as Record<string, unknown>
+  return (trackingNumber === undefined || trackingNumber === null || typeof trackingNumber === 'string') &&
+    (weightKg === undefined || weightKg === null || typeof weightKg === 'number')
+}
+
+// Valideer de payload: { carrier, shippedAt?, parcels: [{ trackingNumber?, weightKg? }], notifyCustomer? }
+function validateShipmentRequest(payload: unknown): CreateShipmentInput {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { carrier, shippedAt, parcels, notifyCustomer } = payload as Record<string, unknown>
+
+  if (typeof carrier !== 'string') {
+    throw createApiError('invalid_payload', 'carrier is required', { field: 'carrier' })
+  }
+
+  if (shippedAt !== undefined && shippedAt !== null && typeof shippedAt !== 'string') {
+    throw createApiError('invalid_payload', 'shippedAt must be a yyyy-MM-dd date', { field: 'shippedAt' })
+  }
+
+  if (!Array.isArray(parcels) || !parcels.every(isParcelInput)) {
+    throw createApiError('invalid_payload', 'parcels must be a list of { trackingNumber?, weightKg? }', { field: 'parcels' })
+  }
+
+  if (notifyCustomer !== undefined && typeof notifyCustomer !== 'boolean') {
+    throw createApiError('invalid_payload', 'notifyCustomer must be a boolean', { field: 'notifyCustomer' })
+  }
+
+  return {
+    carrier: carrier as CreateShipmentInput['carrier'],
+    shippedAt: (shippedAt as string | null | undefined) ?? undefined,
+    parcels: parcels as ShipmentParcelInput[],
+    notifyCustomer: notifyCustomer === true,
+  }
+}
+
+function createService(supabase: SupabaseClient) {
+  const mailConfig = getMailConfig()
+  return createShipmentService(
+    supabase,
+    createCarrierAdapters(getCarrierConfig()),
+    createOrderEmailService(supabase, createMailTransport(mailConfig), mailConfig),
+    createAuditService(supabase)
+  )
+}
+
+// POST /api/orders/[id]/shipments - register parcels, mark the order shipped and optionally email the customer
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_WRITE)
+    const input = validateShipmentRequest(await parseJsonBody(request))
+
+    const result = await createService(supabase).createShipment(params.id, input, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// GET /api/orders/[id]/shipments - parcels of an order in the order they were shipped
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const shipments = await createService(supabase).getShipments(params.id)
+
+    return NextResponse.json({ shipments }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
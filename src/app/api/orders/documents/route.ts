@@ -0,0 +1,54 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import type { NextRequest } from 'next/server'
+import type { OrderDocumentType } from '../../../../types/documents'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createOrderDocumentService } from '../../../../services/orderDocumentService'
+import { authorizeRequest, parseJsonBody, errorResponse, fileResponse } from '../../../../utils/apiAuth'
+import { createApiError, isOrderDocumentType } from '../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/documents]'
+
+// Valideer de payload: { orderIds, type }
+function validateExportRequest(payload: unknown): { orderIds: string[]; type: OrderDocumentType } {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { orderIds, type } = payload as Record<string, unknown>
+
+  if (!Array.isArray(orderIds) || orderIds.length === 0 || orderIds.some(id => typeof id !== 'string' || !id)) {
+    throw createApiError('invalid_payload', 'orderIds must be a non-empty list of order IDs', { field: 'orderIds' })
+  }
+
+  if (!isOrderDocumentType(type)) {
+    throw createApiError('invalid_payload', 'type must be invoice or packing_slip', { field: 'type' })
+  }
+
+  return { orderIds: orderIds as string[], type }
+}
+
+// POST /api/orders/documents - export the invoices or packing slips of many orders as one PDF
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+    const { orderIds, type } = validateExportRequest(await parseJsonBody(request))
+
+    if (type === 'invoice' && !(API_PERMISSIONS.ORDER_WRITE as readonly string[]).includes(caller.role)) {
+      throw createApiError('forbidden', 'You do not have permission to issue invoices', { role: caller.role })
+    }
+
+    const { document, exported, skipped } = await createOrderDocumentService(supabase).exportDocuments(orderIds, type, {
+      createdBy: caller.user.id,
+    })
+
+    return fileResponse(document, {
+      'X-Exported-Count': String(exported.length),
+      'X-Skipped-Count': String(skipped.length),
+    })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,88 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OrderEmailTemplate } from '../../../../types/email'
+import type { ApiErrorBody } from '../../../../types/api'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createOrderEmailService } from '../../../../services/orderEmailService'
+import { createMailTransport, getMailConfig } from '../../../../services/mailTransport'
+import { authorizeRequest, parseJsonBody, errorResponse } from '../../../../utils/apiAuth'
+import { createApiError } from '../../../../utils/typeGuards'
+
+const LOG_PREFIX = '[API orders/send-emails-wfc]'
+
+// Valideer de payload: { orderId, templates? }
+function validateSendRequest(payload: unknown): { orderId: string; templates?: OrderEmailTemplate[] } {
+  if (typeof payload !== 'object' || payload === null) {
+    throw createApiError('invalid_payload', 'Request body must be an object')
+  }
+
+  const { orderId, templates } = payload as Record<string, unknown>
+
+  if (typeof orderId !== 'string' || !orderId.trim()) {
+    throw createApiError('invalid_payload', 'orderId is required', { field: 'orderId' })
+  }
+
+  if (templates !== undefined && (!Array.isArray(templates) || templates.some(t => typeof t !== 'string'))) {
+    throw createApiError('invalid_payload', 'templates must be a list of template names', { field: 'templates' })
+  }
+
+  return { orderId, templates: templates as OrderEmailTemplate[] | undefined }
+}
+
+function createService(supabase: SupabaseClient) {
+  const config = getMailConfig()
+  return createOrderEmailService(supabase, createMailTransport(config), config)
+}
+
+// POST /api/orders/send-emails-wfc - (re)send the order confirmation and internal notification
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.ORDER_WRITE)
+    const { orderId, templates } = validateSendRequest(await parseJsonBody(request))
+
+    const result = await createService(supabase).sendOrderEmails(orderId, {
+      templates,
+      sentBy: caller.user.id,
+    })
+
+    if (!result.emailsSent) {
+      const failed = result.log.filter(entry => entry.status === 'failed').length
+      return NextResponse.json<ApiErrorBody>(
+        {
+          error: `Failed to send ${failed} of ${result.log.length} emails`,
+          type: 'send_failed',
+          details: { log: result.log },
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// GET /api/orders/send-emails-wfc?orderId=... - send log of an order, newest first
+export async function GET(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const orderId = request.nextUrl.searchParams.get('orderId')
+    if (!orderId) {
+      throw createApiError('invalid_payload', 'orderId is required', { field: 'orderId' })
+    }
+
+    const log = await createService(supabase).getSendLog(orderId)
+
+    return NextResponse.json({ log }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
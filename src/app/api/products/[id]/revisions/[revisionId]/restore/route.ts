@@ -0,0 +1,25 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../../constants/api'
+import { createProductService } from '../../../../../../../services/productService'
+import { createAuditService } from '../../../../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products/[id]/revisions/[revisionId]/restore]'
+
+// POST /api/products/[id]/revisions/[revisionId]/restore - put an earlier revision back as a new revision
+export async function POST(_request: NextRequest, { params }: { params: { id: string; revisionId: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const productService = createProductService(supabase, createAuditService(supabase))
+
+    const product = await productService.restoreRevision(params.id, params.revisionId, toAuditActor(caller))
+
+    return NextResponse.json({ product }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
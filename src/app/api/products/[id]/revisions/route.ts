@@ -0,0 +1,25 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createProductService } from '../../../../../services/productService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, errorResponse } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products/[id]/revisions]'
+
+// GET /api/products/[id]/revisions - saved revisions of a product with their author, newest first
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_READ)
+    const productService = createProductService(supabase, createAuditService(supabase))
+
+    const revisions = await productService.getRevisions(params.id)
+
+    return NextResponse.json({ revisions }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,28 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createProductService } from '../../../../services/productService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../utils/apiAuth'
+import { readExpectedVersion } from '../../../../utils/concurrency'
+
+const LOG_PREFIX = '[API products/[id]]'
+
+// PATCH /api/products/[id] - update one or more product fields; with expected_updated_at, only if nobody saved it since
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const productService = createProductService(supabase, createAuditService(supabase))
+
+    const { payload, expectedUpdatedAt } = readExpectedVersion(await parseJsonBody(request))
+    const changes = productService.validateInput(payload, true)
+    const product = await productService.updateProduct(params.id, changes, toAuditActor(caller), undefined, expectedUpdatedAt ?? undefined)
+
+    return NextResponse.json({ product }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,25 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../../constants/api'
+import { createInventoryService } from '../../../../../../services/inventoryService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products/[id]/stock/reconcile]'
+
+// POST /api/products/[id]/stock/reconcile - record correcting movements so the ledger matches the recorded stock
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const inventoryService = createInventoryService(supabase)
+
+    const movements = await inventoryService.reconcile(params.id, toAuditActor(caller))
+    const reconciliation = await inventoryService.getReconciliation(params.id)
+
+    return NextResponse.json({ movements, reconciliation }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
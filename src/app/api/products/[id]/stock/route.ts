@@ -0,0 +1,43 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../../constants/api'
+import { createInventoryService } from '../../../../../services/inventoryService'
+import { createAuditService } from '../../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products/[id]/stock]'
+
+// GET /api/products/[id]/stock - stock ledger of a product and how it compares with the recorded stock
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_READ)
+    const inventoryService = createInventoryService(supabase)
+
+    const reconciliation = await inventoryService.getReconciliation(params.id)
+    const movements = await inventoryService.getMovements(params.id)
+
+    return NextResponse.json({ movements, reconciliation }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// POST /api/products/[id]/stock - set a counted stock level, with the reason, as a manual adjustment
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const inventoryService = createInventoryService(supabase, createAuditService(supabase))
+
+    const input = inventoryService.validateAdjustment(await parseJsonBody(request))
+    const result = await inventoryService.adjustStock(params.id, input, toAuditActor(caller))
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
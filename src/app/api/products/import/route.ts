@@ -0,0 +1,32 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createProductImportService } from '../../../../services/productImportService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products/import]'
+
+// POST /api/products/import - dry run of a CSV/XLSX product import, or with dryRun: false apply it
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const importService = createProductImportService(supabase, createAuditService(supabase))
+
+    const input = importService.validateRequest(await parseJsonBody(request))
+
+    if (input.dryRun) {
+      const preview = await importService.preview(input)
+      return NextResponse.json({ preview }, { status: 200 })
+    }
+
+    const report = await importService.apply(input, toAuditActor(caller))
+
+    return NextResponse.json({ report }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,35 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createProductPublishingService } from '../../../../services/productPublishingService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeJobRequest, errorResponse } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products/publishing]'
+
+async function runPublishingJob(request: NextRequest) {
+  try {
+    const { supabase, actor } = await authorizeJobRequest(
+      request,
+      createRouteHandlerClient({ cookies }),
+      API_PERMISSIONS.PRODUCT_PUBLISHING_RUN
+    )
+
+    const run = await createProductPublishingService(supabase, createAuditService(supabase)).applyDueReleases(actor)
+
+    return NextResponse.json(run, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// GET /api/products/publishing - publishing job as called by the scheduler (cron jobs send a GET with Authorization: Bearer <CRON_SECRET>)
+export async function GET(request: NextRequest) {
+  return runPublishingJob(request)
+}
+
+// POST /api/products/publishing - run the publishing job now: publish and unpublish the products that are due
+export async function POST(request: NextRequest) {
+  return runPublishingJob(request)
+}
@@ -0,0 +1,27 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { ProductInput } from '../../../types/products'
+import { API_PERMISSIONS } from '../../../constants/api'
+import { createProductService } from '../../../services/productService'
+import { createAuditService } from '../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API products]'
+
+// POST /api/products - create a product
+export async function POST(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.PRODUCT_WRITE)
+    const productService = createProductService(supabase, createAuditService(supabase))
+
+    const input = productService.validateInput(await parseJsonBody(request)) as ProductInput
+    const product = await productService.createProduct(input, toAuditActor(caller))
+
+    return NextResponse.json({ product }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
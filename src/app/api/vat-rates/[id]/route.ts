@@ -0,0 +1,24 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../../constants/api'
+import { createPricingService } from '../../../../services/pricingService'
+import { createAuditService } from '../../../../services/auditService'
+import { authorizeRequest, errorResponse, toAuditActor } from '../../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API vat-rates/[id]]'
+
+// DELETE /api/vat-rates/[id] - remove a rate; orders fall back to the country's standard rate
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.VAT_RATE_WRITE)
+
+    await createPricingService(supabase, createAuditService(supabase)).deleteVatRate(params.id, toAuditActor(caller))
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -0,0 +1,41 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { API_PERMISSIONS } from '../../../constants/api'
+import { createPricingService } from '../../../services/pricingService'
+import { createAuditService } from '../../../services/auditService'
+import { authorizeRequest, parseJsonBody, errorResponse, toAuditActor } from '../../../utils/apiAuth'
+
+const LOG_PREFIX = '[API vat-rates]'
+
+// GET /api/vat-rates - the configured VAT rates per country and category
+export async function GET(_request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    await authorizeRequest(supabase, API_PERMISSIONS.ORDER_READ)
+
+    const vatRates = await createPricingService(supabase).getVatRates()
+
+    return NextResponse.json({ vatRates }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
+
+// PUT /api/vat-rates - set the rate of a country, or of a category in a country
+export async function PUT(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  try {
+    const caller = await authorizeRequest(supabase, API_PERMISSIONS.VAT_RATE_WRITE)
+    const pricingService = createPricingService(supabase, createAuditService(supabase))
+
+    const input = pricingService.validateVatRateInput(await parseJsonBody(request))
+    const vatRate = await pricingService.saveVatRate(input, toAuditActor(caller))
+
+    return NextResponse.json({ vatRate }, { status: 200 })
+  } catch (error) {
+    return errorResponse(error, LOG_PREFIX)
+  }
+}
@@ -11,6 +11,10 @@ import { dashboardAnimations } from '../../../utils/animations' // Adjusted path
 import Link from 'next/link'
 import { nl } from 'date-fns/locale'
 import { createClient } from '@supabase/supabase-js'
+import type { OrderStatus } from '../../../types/orders'
+import type { CurrencyCode } from '../../../types/pricing'
+import { ORDER_STATUS_LABELS, ORDER_STATUS_BADGE_CLASSES } from '../../../constants/orders'
+import { formatMoney, formatMoneyTotals, getCurrencySymbol, sumByCurrency } from '../../../utils/currency'
 import {
   ChartBarIcon, // Keep ChartBarIcon for potential use
   ArrowLeftOnRectangleIcon, // Needed for Sign Out
@@ -26,7 +30,9 @@ interface Order {
   customer_last_name: string
   customer_email: string
   total_amount: number
-  status: string
+  currency?: CurrencyCode | null
+  refunded_amount?: number | null
+  status: OrderStatus
   created_at: string
 }
 
@@ -136,12 +142,13 @@ export default function AnalyticsPage() {
           valueToAnimate = Number(dataValue);
         }
         if (isNaN(valueToAnimate)) return; 
-        const prefix = element.textContent?.includes('€') ? '€' : '';
+        const currency = element.getAttribute('data-currency');
+        const prefix = currency ? getCurrencySymbol(currency) : '';
         const suffix = totalValue !== undefined ? `/${totalValue}` : '';
         dashboardAnimations.statValue(element as HTMLElement, valueToAnimate, {
           prefix,
           suffix,
-          isCurrency: prefix === '€'
+          isCurrency: !!currency
         });
       });
     } 
@@ -173,7 +180,18 @@ export default function AnalyticsPage() {
   const totalOrdersCount = safeOrders.length // This is only the top 5, consider fetching all for accurate count or renaming
   const totalProductsCount = safeProducts.length
   const activeProductsCount = safeProducts.filter(isProductActive).length;
-  const totalRevenueAmount = safeOrders.reduce((sum, order) => sum + Number(order.total_amount || 0), 0) // Use safeOrders and default to 0
+  // Per currency, as amounts in different currencies can't be added up
+  const refundedByCurrency = sumByCurrency(safeOrders
+    .filter(order => Number(order.refunded_amount || 0) > 0)
+    .map(order => ({ amount: Number(order.refunded_amount), currency: order.currency })))
+  // Net revenue: order totals minus everything refunded on them
+  const revenueByCurrency = sumByCurrency(safeOrders.map(order => ({
+    amount: Number(order.total_amount || 0) - Number(order.refunded_amount || 0),
+    currency: order.currency,
+  })))
+  // Only a single currency can count up in the stat card
+  const revenueCurrencies = Object.keys(revenueByCurrency)
+  const singleRevenueCurrency = revenueCurrencies.length === 1 ? revenueCurrencies[0] : undefined
 
   return (
     <div className="section-spacing"> {/* Kept original spacing */}
@@ -216,8 +234,16 @@ export default function AnalyticsPage() {
             <div className="flex justify-between items-start space-x-4">
               <div>
                 <h2 className="text-subtitle mb-2">Recent Revenue</h2>
-                <p className="stat-value text-2xl sm:text-3xl font-bold text-amber-500" data-value={totalRevenueAmount}>€{totalRevenueAmount.toFixed(2)}</p>
-                <p className="text-info mt-2">from last 5 orders</p>
+                <p
+                  className="stat-value text-2xl sm:text-3xl font-bold text-amber-500"
+                  data-value={singleRevenueCurrency ? revenueByCurrency[singleRevenueCurrency] : undefined}
+                  data-currency={singleRevenueCurrency}
+                >
+                  {formatMoneyTotals(revenueByCurrency)}
+                </p>
+                <p className="text-info mt-2">
+                  net, from last 5 orders{Object.keys(refundedByCurrency).length > 0 && ` (${formatMoneyTotals(refundedByCurrency)} refunded)`}
+                </p>
               </div>
                <div className="p-3 bg-amber-500/10 rounded-lg">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -315,18 +341,17 @@ export default function AnalyticsPage() {
                       className="h-16 hover:bg-gray-800/50 cursor-pointer transition-colors"
                     >
                       <td className="px-6 whitespace-nowrap text-sm font-medium text-white">#{order.order_number}</td>
-                      <td className="px-6 text-right text-amber-500 font-medium text-sm">€{Number(order.total_amount).toFixed(2)}</td>
+                      <td className="px-6 text-right text-amber-500 font-medium text-sm">
+                        {formatMoney(Number(order.total_amount) - Number(order.refunded_amount || 0), order.currency)}
+                        {Number(order.refunded_amount || 0) > 0 && (
+                          <div className="text-[10px] text-gray-500 line-through">{formatMoney(order.total_amount, order.currency)}</div>
+                        )}
+                      </td>
                       <td className="px-6 whitespace-nowrap text-sm text-gray-300 hidden md:table-cell">{order.customer_first_name} {order.customer_last_name}</td>
                       <td className="px-6 text-center whitespace-nowrap text-xs text-gray-400 hidden lg:table-cell">{format(new Date(order.created_at), 'PP', { locale: nl })}</td>
                       <td className="px-6 text-center whitespace-nowrap">
-                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${ 
-                            order.status === 'paid' ? 'bg-green-500/20 text-green-400' : 
-                            order.status === 'shipped' ? 'bg-blue-500/20 text-blue-400' : 
-                            order.status === 'completed' ? 'bg-purple-500/20 text-purple-400' : 
-                            order.status === 'cancelled' ? 'bg-red-500/20 text-red-400' : 
-                            'bg-yellow-500/20 text-yellow-400' 
-                         }`}> 
-                           {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${ORDER_STATUS_BADGE_CLASSES[order.status] ?? ORDER_STATUS_BADGE_CLASSES.pending}`}> 
+                           {ORDER_STATUS_LABELS[order.status] ?? order.status}
                          </span>
                       </td>
                     </tr>
@@ -387,7 +412,7 @@ export default function AnalyticsPage() {
                       className="border-t border-gray-700/30 hover:bg-gray-700/20 transition-colors cursor-pointer h-16"
                     >
                       <td className="px-6 py-4 text-xs sm:text-sm font-medium text-white">{product.name}</td>
-                      <td className="px-6 py-4 text-xs sm:text-sm font-medium text-amber-500 text-right hidden sm:table-cell">€{Number(product.price).toFixed(2)}</td>
+                      <td className="px-6 py-4 text-xs sm:text-sm font-medium text-amber-500 text-right hidden sm:table-cell">{formatMoney(product.price)}</td>
                       <td className="px-6 py-4 text-xs sm:text-sm font-medium text-center hidden md:table-cell">{product.stock}</td>
                       <td className="px-6 py-4 text-center">
                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ 
@@ -0,0 +1,380 @@
+'use client'
+
+import React, { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '../../../../contexts/AuthContext'
+import LoadingSpinner from '../../../../components/ui/LoadingSpinner'
+import ErrorMessage from '../../../../components/ui/ErrorMessage'
+import ContentSectionEditor from '../../../../components/content/ContentSectionEditor'
+import ContentRevisionHistory from '../../../../components/content/ContentRevisionHistory'
+import EditConflictDialog from '../../../../components/ui/EditConflictDialog'
+import PresenceAvatars from '../../../../components/ui/PresenceAvatars'
+import { CONTENT_PAGE_VIEWS } from '../../../../components/content/contentPageViews'
+import type {
+  ContentDraft,
+  ContentPageSlug,
+  ContentPageSnapshot,
+  ContentPublishResult,
+  ContentRevision,
+  ContentRollbackResult,
+  ContentSection,
+  SectionStyleType
+} from '../../../../types/content'
+import { API_ROUTES } from '../../../../constants/api'
+import { CONTENT_PAGES, SECTION_FIELDS } from '../../../../constants/content'
+import { apiRequest } from '../../../../utils/apiClient'
+import { isConcurrentUpdate } from '../../../../utils/concurrency'
+import { useEditConflict } from '../../../../hooks/useEditConflict'
+import { useEditorPresence } from '../../../../hooks/useEditorPresence'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+
+// Editor for every page in CONTENT_PAGES; the homepage has its own
+export default function ContentPageManagement({ params }: { params: { page: string } }) {
+  const slug = params.page as ContentPageSlug
+  const page = Object.prototype.hasOwnProperty.call(CONTENT_PAGES, slug) ? CONTENT_PAGES[slug] : null
+  const Preview = page ? CONTENT_PAGE_VIEWS[slug].Preview : null
+
+  const [sections, setSections] = useState<ContentSection[]>([])
+  const [drafts, setDrafts] = useState<ContentDraft[]>([])
+  const [showDrafts, setShowDrafts] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const { user, isAdmin } = useAuth()
+  const { conflict, resolveConflict, onResolve } = useEditConflict()
+  const presence = useEditorPresence(page ? `content-${slug}` : null)
+
+  // Version history of one section at a time
+  const [historySectionId, setHistorySectionId] = useState<string | null>(null)
+  const [revisions, setRevisions] = useState<ContentRevision[]>([])
+  const [revisionsLoading, setRevisionsLoading] = useState(false)
+  const [restoringRevisionId, setRestoringRevisionId] = useState<string | null>(null)
+
+  // The page as it looked at an earlier moment
+  const [snapshotDate, setSnapshotDate] = useState('')
+  const [snapshot, setSnapshot] = useState<ContentPageSnapshot | null>(null)
+
+  const draftsBySection = useMemo(() => new Map(drafts.map(draft => [draft.section_id, draft])), [drafts])
+  const pendingCount = drafts.filter(draft => draft.status === 'in_review').length
+
+  // The preview can show the page as it will look once the drafts are published, or as it looked in a snapshot
+  const previewSections = useMemo(
+    () => snapshot
+      ? snapshot.sections.map(({ section, content }) => ({ ...section, content }))
+      : showDrafts
+        ? sections.map(section => draftsBySection.has(section.id) ? { ...section, content: draftsBySection.get(section.id)!.content } : section)
+        : sections,
+    [sections, draftsBySection, showDrafts, snapshot]
+  )
+  const snapshotChanges = snapshot ? snapshot.sections.filter(entry => entry.changed).length : 0
+
+  useEffect(() => {
+    if (page) {
+      fetchSections()
+    }
+  }, [slug])
+
+  async function fetchSections() {
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await apiRequest<{ sections: ContentSection[]; drafts: ContentDraft[] }>(API_ROUTES.CONTENT_SECTIONS(slug))
+      setSections(result.sections)
+      setDrafts(result.drafts)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : `Failed to fetch ${slug} sections`
+      setError(errorMessage)
+      console.error(`Error fetching ${slug} sections:`, err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const replaceDraft = (sectionId: string, draft: ContentDraft | null) => {
+    setDrafts(current => [...current.filter(existing => existing.section_id !== sectionId), ...(draft ? [draft] : [])])
+  }
+
+  // Runs a draft action, with a toast for the outcome; returns whether it succeeded
+  async function runAction(action: () => Promise<void>, successMessage: string, failureMessage: string): Promise<boolean> {
+    if (!user?.email) {
+      toast.error('You must be logged in to make changes')
+      return false
+    }
+
+    setIsSaving(true)
+    try {
+      await action()
+      toast.success(successMessage)
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : failureMessage)
+      console.error(`Error updating ${slug} content:`, err)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Saved against the draft the edit started from; when someone else saved it since, the editor merges or overwrites
+  const saveDraft = (sectionId: string, content: string) => runAction(async () => {
+    const live = sections.find(section => section.id === sectionId)?.content ?? ''
+    const startedFrom = draftsBySection.get(sectionId) || null
+    let body = { content, expected_updated_at: startedFrom?.updated_at ?? null }
+
+    for (;;) {
+      try {
+        const { draft } = await apiRequest<{ draft: ContentDraft }>(API_ROUTES.CONTENT_DRAFT(slug, sectionId), { method: 'PUT', body })
+        replaceDraft(sectionId, draft)
+        return
+      } catch (err) {
+        if (!isConcurrentUpdate(err)) throw err
+
+        // No current draft: it was published or discarded, so theirs is the live content
+        const current = err.details.current as ContentDraft | null
+        replaceDraft(sectionId, current)
+        const resolved = await resolveConflict({
+          title: 'This draft changed while you were editing',
+          fields: [{ key: 'content', label: 'Content' }],
+          base: { content: startedFrom?.content ?? live },
+          theirs: { content: current?.content ?? live },
+          yours: { content: body.content },
+          theirAuthor: current?.updated_by,
+          theirTime: current?.updated_at,
+        })
+
+        if (!resolved) throw new Error('Your changes were not saved')
+        body = { content: resolved.content ?? body.content, expected_updated_at: current?.updated_at ?? null }
+      }
+    }
+  }, 'Draft saved', 'Failed to save draft')
+
+  const discardDraft = (sectionId: string) => {
+    if (!confirm('Discard this draft? The live content stays as it is.')) return
+
+    runAction(async () => {
+      await apiRequest(API_ROUTES.CONTENT_DRAFT(slug, sectionId), { method: 'DELETE' })
+      replaceDraft(sectionId, null)
+    }, 'Draft discarded', 'Failed to discard draft')
+  }
+
+  const submitDraft = (sectionId: string) => runAction(async () => {
+    const { draft } = await apiRequest<{ draft: ContentDraft }>(API_ROUTES.CONTENT_DRAFT_ACTION(slug, sectionId, 'submit'), { method: 'POST' })
+    replaceDraft(sectionId, draft)
+  }, 'Submitted for review', 'Failed to submit draft')
+
+  const rejectDraft = (sectionId: string, note: string) => runAction(async () => {
+    const { draft } = await apiRequest<{ draft: ContentDraft }>(API_ROUTES.CONTENT_DRAFT_ACTION(slug, sectionId, 'reject'), {
+      method: 'POST',
+      body: { note },
+    })
+    replaceDraft(sectionId, draft)
+  }, 'Draft sent back to its author', 'Failed to reject draft')
+
+  const publishDraft = (sectionId: string) => runAction(async () => {
+    const { section } = await apiRequest<{ section: ContentSection }>(API_ROUTES.CONTENT_DRAFT_ACTION(slug, sectionId, 'publish'), { method: 'POST' })
+    setSections(current => current.map(existing => existing.id === sectionId ? section : existing))
+    replaceDraft(sectionId, null)
+    if (historySectionId === sectionId) {
+      fetchRevisions(sectionId)
+    }
+  }, `${page?.title} content published`, 'Failed to publish draft')
+
+  const publishAll = async () => {
+    if (!confirm(`Publish all ${pendingCount} changes in review on the ${page?.title} page?`)) return
+
+    await runAction(async () => {
+      await apiRequest<ContentPublishResult>(API_ROUTES.CONTENT_PUBLISH(slug), { method: 'POST' })
+    }, `${page?.title} changes published`, 'Failed to publish changes')
+
+    // Reloaded either way: when one draft fails, the drafts before it are already live
+    await fetchSections()
+  }
+
+  async function fetchRevisions(sectionId: string) {
+    setRevisionsLoading(true)
+    try {
+      const result = await apiRequest<{ revisions: ContentRevision[] }>(API_ROUTES.CONTENT_REVISIONS(slug, sectionId))
+      setRevisions(result.revisions)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load versions')
+      console.error(`Error fetching versions of ${slug} section:`, err)
+    } finally {
+      setRevisionsLoading(false)
+    }
+  }
+
+  const toggleHistory = (sectionId: string) => {
+    if (historySectionId === sectionId) {
+      setHistorySectionId(null)
+      return
+    }
+
+    setHistorySectionId(sectionId)
+    setRevisions([])
+    fetchRevisions(sectionId)
+  }
+
+  async function restoreRevision(sectionId: string, revision: ContentRevision) {
+    if (!confirm(`Put the version of ${format(new Date(revision.createdAt), 'MMM dd, yyyy HH:mm')} live again? It becomes a new version.`)) return
+
+    setRestoringRevisionId(revision.id)
+    const restored = await runAction(async () => {
+      const { section } = await apiRequest<{ section: ContentSection }>(API_ROUTES.CONTENT_REVISION_RESTORE(slug, sectionId, revision.id), { method: 'POST' })
+      setSections(current => current.map(existing => existing.id === sectionId ? section : existing))
+    }, 'Version restored', 'Failed to restore version')
+    setRestoringRevisionId(null)
+
+    if (restored) {
+      await fetchRevisions(sectionId)
+    }
+  }
+
+  async function showSnapshot() {
+    if (!snapshotDate) return
+
+    try {
+      const result = await apiRequest<{ snapshot: ContentPageSnapshot }>(API_ROUTES.CONTENT_SNAPSHOT(slug, new Date(snapshotDate).toISOString()))
+      setSnapshot(result.snapshot)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load the page at that moment')
+      console.error(`Error fetching ${slug} snapshot:`, err)
+    }
+  }
+
+  const rollbackPage = async () => {
+    if (!snapshot) return
+    if (!confirm(`Roll the ${page?.title} page back to ${format(new Date(snapshot.at), 'MMM dd, yyyy HH:mm')}? ${snapshotChanges} sections get their earlier content back as a new version.`)) return
+
+    await runAction(async () => {
+      await apiRequest<ContentRollbackResult>(API_ROUTES.CONTENT_SNAPSHOT_RESTORE(slug), {
+        method: 'POST',
+        body: { at: snapshot.at },
+      })
+    }, `${page?.title} rolled back`, 'Failed to roll back the page')
+
+    // Reloaded either way, like publishing all: sections before a failing one are already rolled back
+    setSnapshot(null)
+    setHistorySectionId(null)
+    await fetchSections()
+  }
+
+  const sectionLabel = (section: ContentSection) =>
+    SECTION_FIELDS[section.style_type as SectionStyleType]?.label || section.section_key.replace(/_/g, ' ')
+
+  if (!page || !Preview) return <ErrorMessage message={`Unknown content page: ${params.page}`} />
+  if (loading) return <LoadingSpinner size="large" message={`Loading ${page.title} content...`} centered />
+  if (error) return <ErrorMessage message={error} />
+
+  return (
+    <div className="space-y-6">
+      {conflict && <EditConflictDialog conflict={conflict} onResolve={onResolve} />}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold">{page.title} Content Management</h1>
+          <PresenceAvatars members={presence.members} />
+        </div>
+        {isAdmin && (
+          <button
+            onClick={publishAll}
+            disabled={isSaving || pendingCount === 0}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Publish All Pending Changes ({pendingCount})
+          </button>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-semibold">Live Voorbeeld {page.title}</h2>
+          {drafts.length > 0 && !snapshot && (
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={showDrafts} onChange={(e) => setShowDrafts(e.target.checked)} />
+              Preview with drafts ({drafts.length})
+            </label>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <label htmlFor="snapshot-date" className="text-gray-300">Page as it was on</label>
+          <input
+            id="snapshot-date"
+            type="datetime-local"
+            className="form-input w-auto"
+            value={snapshotDate}
+            max={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            onChange={(e) => setSnapshotDate(e.target.value)}
+          />
+          <button className="btn-secondary" onClick={showSnapshot} disabled={!snapshotDate}>
+            Show
+          </button>
+          {snapshot && (
+            <>
+              <span className="text-gray-400">
+                {snapshotChanges === 0 ? 'Same as the live page' : `${snapshotChanges} ${snapshotChanges === 1 ? 'section differs' : 'sections differ'} from the live page`}
+              </span>
+              {isAdmin && snapshotChanges > 0 && (
+                <button
+                  onClick={rollbackPage}
+                  disabled={isSaving}
+                  className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded text-white text-sm transition-colors disabled:opacity-50"
+                >
+                  Roll Back to This
+                </button>
+              )}
+              <button className="btn-secondary" onClick={() => setSnapshot(null)}>
+                Back to Live
+              </button>
+            </>
+          )}
+        </div>
+        <div className="border border-gray-700 rounded-lg p-0 bg-gray-800/50 shadow-inner overflow-hidden">
+          {previewSections.length > 0 ?
+            <Preview sections={previewSections} /> :
+            <div className="p-4 text-center text-gray-500">Preview not available.</div>
+          }
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Bewerk Secties</h2>
+        <div className="grid gap-6">
+          {sections.map((section) => (
+            <React.Fragment key={section.id}>
+              <ContentSectionEditor
+                section={section}
+                draft={draftsBySection.get(section.id) || null}
+                field={SECTION_FIELDS[section.style_type as SectionStyleType] || SECTION_FIELDS.paragraph}
+                canPublish={isAdmin}
+                disabled={isSaving}
+                onSaveDraft={(content) => saveDraft(section.id, content)}
+                onDiscard={() => discardDraft(section.id)}
+                onSubmit={() => submitDraft(section.id)}
+                onPublish={() => publishDraft(section.id)}
+                onReject={(note) => rejectDraft(section.id, note)}
+                historyOpen={historySectionId === section.id}
+                onToggleHistory={() => toggleHistory(section.id)}
+                lock={presence.locks.get(section.id) || null}
+                onEditingChange={(editing) => editing
+                  ? presence.startEditing(section.id, sectionLabel(section))
+                  : presence.stopEditing(section.id)}
+                onActivity={presence.reportActivity}
+              />
+              {historySectionId === section.id && (
+                <div className="container-card p-6">
+                  <h3 className="text-lg font-semibold text-gray-200 mb-4">Version History</h3>
+                  <ContentRevisionHistory
+                    revisions={revisions}
+                    isLoading={revisionsLoading}
+                    restoringId={restoringRevisionId}
+                    onRestore={isAdmin ? (revision) => restoreRevision(section.id, revision) : undefined}
+                  />
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,15 +4,32 @@ import React, { useState } from 'react'
 // import toast from 'react-hot-toast' // Removed unused import
 import { CircleSection } from '../page' // Import type from parent
 import { ThreeCirclesPreview } from '../../../../../components/preview/Home/ThreeCirclesPreview'
+import SectionLockNotice from '../../../../../components/ui/SectionLockNotice'
+import type { SectionLocks } from '../../../../../types/presence'
 
 interface CirclesTabContentProps {
   circleSections: CircleSection[];
   updateCircleSection: (id: string, updatedFields: Partial<CircleSection>) => Promise<void>;
+  locks: SectionLocks;
+  onStartEditing: (id: string, label: string) => void;
+  onStopEditing: (id: string) => void;
+  onActivity: () => void;
 }
 
-export function CirclesTabContent({ circleSections, updateCircleSection }: CirclesTabContentProps) {
+export function CirclesTabContent({ circleSections, updateCircleSection, locks, onStartEditing, onStopEditing, onActivity }: CirclesTabContentProps) {
   const [editingCircleSection, setEditingCircleSection] = useState<string | null>(null)
 
+  // Opening an editor also takes the circle over from whoever else is editing it
+  const startEditing = (section: CircleSection) => {
+    setEditingCircleSection(section.id)
+    onStartEditing(section.id, `circle ${section.text || section.id}`)
+  }
+
+  const stopEditing = (id: string) => {
+    setEditingCircleSection(null)
+    onStopEditing(id)
+  }
+
   // Helper function to render inputs for a circle section
   const renderCircleInputs = (section: CircleSection) => {
     const fields = [
@@ -111,7 +128,7 @@ export function CirclesTabContent({ circleSections, updateCircleSection }: Circl
     });
 
     updateCircleSection(sectionId, updatedFields).then(() => {
-        setEditingCircleSection(null); // Close edit mode on success
+        stopEditing(sectionId); // Close edit mode on success
     }).catch(err => {
         console.error("Update failed within tab:", err)
     })
@@ -149,8 +166,18 @@ export function CirclesTabContent({ circleSections, updateCircleSection }: Circl
                 </div>
               </div>
 
+              {locks.has(section.id) && (
+                <div className="mb-4">
+                  <SectionLockNotice
+                    holder={locks.get(section.id)!}
+                    isEditing={editingCircleSection === section.id}
+                    onTakeOver={() => startEditing(section)}
+                  />
+                </div>
+              )}
+
               {editingCircleSection === section.id ? (
-                <div className="space-y-4">
+                <div className="space-y-4" onInput={onActivity}>
                    {renderCircleInputs(section).inputs}
                    <div className="flex gap-2 mt-4">
                       <button 
@@ -159,7 +186,7 @@ export function CirclesTabContent({ circleSections, updateCircleSection }: Circl
                       >Save Circle</button>
                       <button 
                          className="btn-secondary" 
-                         onClick={() => setEditingCircleSection(null)}
+                         onClick={() => stopEditing(section.id)}
                        >Cancel</button>
                    </div>
                 </div>
@@ -172,7 +199,8 @@ export function CirclesTabContent({ circleSections, updateCircleSection }: Circl
                    <p className="text-sm text-gray-400">Active: <span className={`font-medium ${section.is_active ? 'text-green-400' : 'text-red-400'}`}>{section.is_active ? 'Yes' : 'No'}</span></p>
                    <button 
                      className="btn-secondary mt-2" 
-                     onClick={() => setEditingCircleSection(section.id)}
+                     onClick={() => startEditing(section)}
+                     disabled={locks.has(section.id)}
                    >Edit Circle</button>
                 </div>
               )}
@@ -4,6 +4,8 @@ import React, { useState } from 'react'
 import { CircleHeroItem } from '../page' // Import type from parent
 import { CircleHeroPreview } from '../../../../../components/preview/Home/CircleHeroPreview' // Import the preview component
 import LoadingSpinner from '../../../../../components/ui/LoadingSpinner' // Verified import path
+import MediaLibraryModal from '../../../../../components/media/MediaLibraryModal'
+import type { MediaAsset } from '../../../../../types/media'
 
 interface HeroCircleTabContentProps {
   heroItems: CircleHeroItem[];
@@ -26,6 +28,8 @@ export function HeroCircleTabContent({
   // Remove newItem state
   // const [newItem, setNewItem] = useState(initialNewItemState);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Id of the image_src input the media library fills in
+  const [libraryFieldId, setLibraryFieldId] = useState<string | null>(null);
 
   const keysToManage: (keyof Omit<CircleHeroItem, 'id' | 'created_at' | 'updated_at'>)[] = ['word', 'image_src', 'image_alt', 'url', 'order_number', 'is_active'];
 
@@ -83,12 +87,29 @@ export function HeroCircleTabContent({
             required={field.required}
             disabled={isSubmitting}
           />
+          {field.key === 'image_src' && (
+            <button
+              type="button"
+              className="btn-secondary btn-sm mt-2"
+              onClick={() => setLibraryFieldId(`${idPrefix}-${field.key}`)}
+              disabled={isSubmitting}
+            >
+              Choose from Media Library
+            </button>
+          )}
         </div>
       );
     });
   };
 
   // --- Event Handlers ---
+  const handleLibrarySelect = (asset: MediaAsset) => {
+    const element = libraryFieldId ? document.getElementById(libraryFieldId) as HTMLInputElement | null : null;
+    if (element) {
+      element.value = asset.url;
+    }
+  };
+
   const getValuesFromDOM = (idPrefix: string): Partial<Omit<CircleHeroItem, 'id' | 'created_at' | 'updated_at'>> => {
     const values: Partial<Omit<CircleHeroItem, 'id' | 'created_at' | 'updated_at'>> = {};
     keysToManage.forEach(key => {
@@ -254,6 +275,13 @@ export function HeroCircleTabContent({
            )}
         </div> 
       </div> 
+
+      <MediaLibraryModal
+        isOpen={libraryFieldId !== null}
+        onClose={() => setLibraryFieldId(null)}
+        onSelect={handleLibrarySelect}
+        title="Choose Hero Image"
+      />
     </div> 
   );
 } 
\ No newline at end of file
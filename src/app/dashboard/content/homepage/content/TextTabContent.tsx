@@ -4,15 +4,34 @@ import React, { useState } from 'react'
 // import toast from 'react-hot-toast' // Removed unused import
 import { HomeSection } from '../page' // Corrected type import path if needed, assuming page.tsx exports it
 import { TextSectionPreview } from '../../../../../components/preview/Home/TextSectionPreview' // Corrected path (one level up)
+import SectionLockNotice from '../../../../../components/ui/SectionLockNotice'
+import type { SectionLocks } from '../../../../../types/presence'
 
 interface TextTabContentProps {
   textSections: HomeSection[];
   updateTextSection: (id: string, newContent: string) => Promise<void>;
+  locks: SectionLocks;
+  onStartEditing: (id: string, label: string) => void;
+  onStopEditing: (id: string) => void;
+  onActivity: () => void;
 }
 
-export function TextTabContent({ textSections, updateTextSection }: TextTabContentProps) {
+const sectionLabel = (section: HomeSection) => section.section_key.replace(/_/g, ' ')
+
+export function TextTabContent({ textSections, updateTextSection, locks, onStartEditing, onStopEditing, onActivity }: TextTabContentProps) {
   const [editingTextSection, setEditingTextSection] = useState<string | null>(null)
 
+  // Opening an editor also takes the section over from whoever else is editing it
+  const startEditing = (section: HomeSection) => {
+    setEditingTextSection(section.id)
+    onStartEditing(section.id, sectionLabel(section))
+  }
+
+  const stopEditing = (id: string) => {
+    setEditingTextSection(null)
+    onStopEditing(id)
+  }
+
   return (
     <div className="space-y-8"> 
       {/* Text Preview Section */}
@@ -40,6 +59,15 @@ export function TextTabContent({ textSections, updateTextSection }: TextTabConte
                   v{section.version} 
                 </span>
               </div>
+              {locks.has(section.id) && (
+                <div className="mb-4">
+                  <SectionLockNotice
+                    holder={locks.get(section.id)!}
+                    isEditing={editingTextSection === section.id}
+                    onTakeOver={() => startEditing(section)}
+                  />
+                </div>
+              )}
               {editingTextSection === section.id ? (
                 <div className="space-y-4">
                   {section.style_type === 'image' ? (
@@ -49,25 +77,27 @@ export function TextTabContent({ textSections, updateTextSection }: TextTabConte
                         defaultValue={section.content} 
                         id={`edit-text-${section.id}`} 
                         placeholder="Enter image URL or ID"
+                        onInput={onActivity}
                       />
                    ) : (
                      <textarea 
                         className="form-input h-32" 
                         defaultValue={section.content} 
                         id={`edit-text-${section.id}`} 
+                        onInput={onActivity}
                       />
                    )}
                   <div className="flex gap-2">
                     <button className="btn-primary" onClick={() => {
                         const element = document.getElementById(`edit-text-${section.id}`) as HTMLInputElement | HTMLTextAreaElement
                         updateTextSection(section.id, element?.value ?? '').then(() => {
-                           setEditingTextSection(null); // Close edit mode on successful update
+                           stopEditing(section.id); // Close edit mode on successful update
                         }).catch(err => {
                            // Error is already handled/toasted in parent update function
                            console.error("Update failed within tab:", err)
                         })
                       }}>Save</button>
-                    <button className="btn-secondary" onClick={() => setEditingTextSection(null)}>Cancel</button>
+                    <button className="btn-secondary" onClick={() => stopEditing(section.id)}>Cancel</button>
                   </div>
                 </div>
               ) : (
@@ -78,7 +108,7 @@ export function TextTabContent({ textSections, updateTextSection }: TextTabConte
                   ) : (
                     <p className="text-gray-300 whitespace-pre-wrap">{section.content}</p>
                   )}
-                  <button className="btn-secondary" onClick={() => setEditingTextSection(section.id)}>Edit</button>
+                  <button className="btn-secondary" onClick={() => startEditing(section)} disabled={locks.has(section.id)}>Edit</button>
                 </div>
               )}
             </div>
@@ -5,6 +5,11 @@ import { useAuth } from '../../../../contexts/AuthContext'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import LoadingSpinner from '../../../../components/ui/LoadingSpinner'
 import ErrorMessage from '../../../../components/ui/ErrorMessage'
+import EditConflictDialog from '../../../../components/ui/EditConflictDialog'
+import PresenceAvatars from '../../../../components/ui/PresenceAvatars'
+import { useEditConflict } from '../../../../hooks/useEditConflict'
+import { useEditorPresence } from '../../../../hooks/useEditorPresence'
+import type { ConflictField } from '../../../../types/concurrency'
 import toast from 'react-hot-toast'
 import { TextTabContent } from './content/TextTabContent'
 import { CirclesTabContent } from './content/CirclesTabContent'
@@ -72,6 +77,10 @@ interface SupabaseError {
   hint?: string
 }
 
+// Dialog rows for the fields of a change, labelled after their column
+const toConflictFields = (changes: Record<string, unknown>): ConflictField[] =>
+  Object.keys(changes).map(key => ({ key, label: key.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase()) }))
+
 export default function HomeContentManagement() {
   const [textSections, setTextSections] = useState<HomeSection[]>([])
   const [circleSections, setCircleSections] = useState<CircleSection[]>([])
@@ -83,6 +92,8 @@ export default function HomeContentManagement() {
   const [loadingHeroItems, setLoadingHeroItems] = useState(true)
   const supabase = createClientComponentClient()
   const { user } = useAuth()
+  const { conflict, resolveConflict, onResolve } = useEditConflict()
+  const presence = useEditorPresence('content-homepage')
 
   const isLoading = loadingText || loadingCircles || loadingHeroItems
 
@@ -149,6 +160,56 @@ export default function HomeContentManagement() {
     }
   }
 
+  // Updates a row only while it is still at the version the edit started from. When someone else saved it since,
+  // the editor merges their change with this one or overwrites it; dropping this change reloads their version and rejects.
+  async function saveIfUnchanged<T extends { id: string }>(
+    table: string,
+    row: T,
+    changes: Partial<T>,
+    versionColumn: 'version' | 'updated_at',
+    label: string,
+    reload: () => Promise<void>,
+    fields: ConflictField[] = toConflictFields(changes)
+  ): Promise<void> {
+    let startedFrom: T = row
+    let pending: Partial<T> = changes
+
+    for (;;) {
+      const expected = (startedFrom as Record<string, any>)[versionColumn] ?? null
+      const versioned: Record<string, any> = { ...pending, updated_at: new Date().toISOString() }
+      if (versionColumn === 'version') {
+        versioned.version = (expected ?? 0) + 1
+      }
+
+      let query = supabase.from(table).update(versioned).eq('id', row.id)
+      query = expected === null ? query.is(versionColumn, null) : query.eq(versionColumn, expected)
+      const { data, error } = await query.select()
+      if (error) throw error
+      if (data && data.length > 0) return
+
+      const { data: current, error: readError } = await supabase.from(table).select('*').eq('id', row.id).maybeSingle()
+      if (readError) throw readError
+      if (!current) throw new Error(`This ${label} was deleted by someone else`)
+
+      const resolved = await resolveConflict<T>({
+        title: `This ${label} changed while you were editing`,
+        fields,
+        base: startedFrom,
+        theirs: current as T,
+        yours: pending,
+        theirAuthor: current.last_edited_by ?? null,
+        theirTime: current.updated_at ?? null,
+      })
+      if (!resolved) {
+        await reload()
+        throw new Error('Your changes were not saved')
+      }
+
+      startedFrom = current as T
+      pending = resolved
+    }
+  }
+
   async function updateTextSection(id: string, newContent: string): Promise<void> {
     if (!user?.email) {
        toast.error('Login required')
@@ -157,11 +218,15 @@ export default function HomeContentManagement() {
     try {
       const currentSection = textSections.find(s => s.id === id)
       if (!currentSection) throw new Error('Text section not found')
-      const { error } = await supabase
-        .from('text_sections')
-        .update({ content: newContent, updated_at: new Date().toISOString(), version: currentSection.version + 1 })
-        .eq('id', id)
-      if (error) throw error
+      await saveIfUnchanged<HomeSection>(
+        'text_sections',
+        currentSection,
+        { content: newContent, last_edited_by: user.email },
+        'version',
+        'text section',
+        fetchTextSections,
+        [{ key: 'content', label: 'Content' }]
+      )
       toast.success('Text content updated')
       await fetchTextSections()
       return Promise.resolve()
@@ -179,13 +244,9 @@ export default function HomeContentManagement() {
       return Promise.reject('Login required')
     }
     try {
-      updatedFields.updated_at = new Date().toISOString();
-      
-      const { error } = await supabase
-        .from('circle_sections')
-        .update(updatedFields)
-        .eq('id', id)
-      if (error) throw error
+      const currentSection = circleSections.find(s => s.id === id)
+      if (!currentSection) throw new Error('Circle section not found')
+      await saveIfUnchanged<CircleSection>('circle_sections', currentSection, updatedFields, 'updated_at', 'circle section', fetchCircleSections)
       toast.success('Circle section updated')
       await fetchCircleSections()
       return Promise.resolve()
@@ -224,12 +285,9 @@ export default function HomeContentManagement() {
       return Promise.reject('Login required');
     }
     try {
-      updatedFields.updated_at = new Date().toISOString();
-      const { error } = await supabase
-        .from('circle_hero_items')
-        .update(updatedFields)
-        .eq('id', id);
-      if (error) throw error;
+      const currentItem = circleHeroItems.find(item => item.id === id);
+      if (!currentItem) throw new Error('Hero item not found');
+      await saveIfUnchanged<CircleHeroItem>('circle_hero_items', currentItem, updatedFields, 'updated_at', 'hero item', fetchCircleHeroItems);
       toast.success('Hero item updated');
       await fetchCircleHeroItems();
       return Promise.resolve();
@@ -268,8 +326,11 @@ export default function HomeContentManagement() {
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between mb-6">
+      {conflict && <EditConflictDialog conflict={conflict} onResolve={onResolve} />}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
         <h1 className="text-2xl font-bold">Home Content Management</h1>
+        <PresenceAvatars members={presence.members} />
       </div>
 
       <div className="flex border-b border-gray-700 mb-6">
@@ -303,6 +364,10 @@ export default function HomeContentManagement() {
         <TextTabContent 
           textSections={textSections} 
           updateTextSection={updateTextSection} 
+          locks={presence.locks}
+          onStartEditing={presence.startEditing}
+          onStopEditing={presence.stopEditing}
+          onActivity={presence.reportActivity}
         />
       )}
 
@@ -310,6 +375,10 @@ export default function HomeContentManagement() {
         <CirclesTabContent 
           circleSections={circleSections} 
           updateCircleSection={updateCircleSection} 
+          locks={presence.locks}
+          onStartEditing={presence.startEditing}
+          onStopEditing={presence.stopEditing}
+          onActivity={presence.reportActivity}
         />
       )}
 
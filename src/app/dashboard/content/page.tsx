@@ -1,49 +1,53 @@
 'use client'
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import Link from 'next/link'
-import { 
-  HomeIcon, 
-  DocumentTextIcon, 
-  HeartIcon, 
-  PaintBrushIcon, 
-  BeakerIcon 
-} from '@heroicons/react/24/outline'
+import { HomeIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '../../../contexts/AuthContext'
+import type { ContentPageSlug } from '../../../types/content'
+import { API_ROUTES } from '../../../constants/api'
+import { CONTENT_PAGES } from '../../../constants/content'
+import { apiRequest } from '../../../utils/apiClient'
+import { CONTENT_PAGE_VIEWS } from '../../../components/content/contentPageViews'
 
+// The homepage has its own editor; the other pages come from the registry
 const contentPages = [
   {
+    slug: null,
     name: 'Home Page',
     description: 'Manage the main landing page content',
     href: '/dashboard/content/homepage',
     icon: HomeIcon
   },
-  {
-    name: 'About Page',
-    description: 'Manage the about page content',
-    href: '/dashboard/content/aboutpage',
-    icon: DocumentTextIcon
-  },
-  {
-    name: 'Charity Page',
-    description: 'Manage the charity page content',
-    href: '/dashboard/content/charitypage',
-    icon: HeartIcon
-  },
-  {
-    name: 'Art Page',
-    description: 'Manage the art page content',
-    href: '/dashboard/content/artpage',
-    icon: PaintBrushIcon
-  },
-  {
-    name: 'Whisky Page',
-    description: 'Manage the whisky page content',
-    href: '/dashboard/content/whiskypage',
-    icon: BeakerIcon
-  }
+  ...(Object.keys(CONTENT_PAGES) as ContentPageSlug[]).map(slug => ({
+    slug,
+    name: CONTENT_PAGES[slug].name,
+    description: CONTENT_PAGES[slug].description,
+    href: `/dashboard/content/${slug}`,
+    icon: CONTENT_PAGE_VIEWS[slug].icon
+  }))
 ]
 
 export default function ContentManagement() {
+  const { user } = useAuth()
+  const [pending, setPending] = useState<Partial<Record<ContentPageSlug, number>>>({})
+
+  useEffect(() => {
+    async function fetchPending() {
+      try {
+        const result = await apiRequest<{ pending: Partial<Record<ContentPageSlug, number>> }>(API_ROUTES.CONTENT_PENDING)
+        setPending(result.pending)
+      } catch (err) {
+        // The overview works without the badges
+        console.error('Error fetching pending content changes:', err)
+      }
+    }
+
+    if (user) {
+      fetchPending()
+    }
+  }, [user])
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between mb-6">
@@ -63,7 +67,14 @@ export default function ContentManagement() {
                 <page.icon className="h-6 w-6 text-blue-400" />
               </div>
               <div>
-                <h2 className="text-lg font-semibold text-gray-200">{page.name}</h2>
+                <h2 className="text-lg font-semibold text-gray-200">
+                  {page.name}
+                  {page.slug && pending[page.slug] ? (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-amber-500/20 text-amber-400 border border-amber-500/30 align-middle">
+                      {pending[page.slug]} pending
+                    </span>
+                  ) : null}
+                </h2>
                 <p className="text-sm text-gray-400 mt-1">{page.description}</p>
               </div>
             </div>
@@ -0,0 +1,263 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '../../../../contexts/AuthContext'
+import { format } from 'date-fns'
+import { toast } from 'react-hot-toast'
+import type { CustomerAnonymiseResult, CustomerDetail } from '../../../../types/customers'
+import { ORDER_STATUS_LABELS, ORDER_STATUS_BADGE_CLASSES } from '../../../../constants/orders'
+import { API_ROUTES } from '../../../../constants/api'
+import { OPEN_ORDER_STATUSES } from '../../../../constants/customers'
+import { apiRequest, downloadFile } from '../../../../utils/apiClient'
+import { decodeCustomerKey } from '../../../../utils/customers'
+import { formatMoney, formatMoneyTotals } from '../../../../utils/currency'
+
+export default function CustomerProfilePage({ params }: { params: { email: string } }) {
+  const { user, isAdmin, isLoading: authLoading } = useAuth()
+  const router = useRouter()
+  const email = decodeCustomerKey(params.email)
+
+  const [customer, setCustomer] = useState<CustomerDetail | null>(null)
+  const [dataLoading, setDataLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isAnonymising, setIsAnonymising] = useState(false)
+
+  // Fetch customer profile
+  useEffect(() => {
+    async function fetchCustomer() {
+      try {
+        setDataLoading(true)
+        setError(null)
+        setCustomer(await apiRequest<CustomerDetail>(API_ROUTES.CUSTOMER(email)))
+      } catch (err: any) {
+        console.error('Error fetching customer:', err)
+        setError(err.message || 'Failed to load customer')
+      } finally {
+        setDataLoading(false)
+      }
+    }
+
+    if (user && email) {
+      fetchCustomer()
+    }
+  }, [user, email])
+
+  async function exportData() {
+    try {
+      setIsExporting(true)
+      await downloadFile(API_ROUTES.CUSTOMER_EXPORT(email), 'customer-data.json')
+      toast.success('Customer data exported')
+    } catch (err: any) {
+      console.error('Error exporting customer data:', err)
+      toast.error('Failed to export customer data: ' + err.message)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  async function anonymise() {
+    if (!confirm(`Remove the name, email and address of ${email} from all of their orders? This cannot be undone.`)) return
+
+    try {
+      setIsAnonymising(true)
+
+      const { pseudonym, anonymisedOrderIds } = await apiRequest<CustomerAnonymiseResult>(API_ROUTES.CUSTOMER_ANONYMISE(email), {
+        method: 'POST'
+      })
+
+      toast.success(`Anonymised ${anonymisedOrderIds.length} ${anonymisedOrderIds.length === 1 ? 'order' : 'orders'}`)
+      router.replace(`/dashboard/customers/${encodeURIComponent(pseudonym)}`)
+    } catch (err: any) {
+      console.error('Error anonymising customer:', err)
+      toast.error('Failed to anonymise customer: ' + err.message)
+    } finally {
+      setIsAnonymising(false)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[80vh]">
+        <div className="w-12 h-12 border-4 border-t-blue-500 border-gray-700 rounded-full animate-spin mb-4"></div>
+        <p className="text-gray-300 text-lg">Checking authentication...</p>
+      </div>
+    )
+  }
+
+  if (!user) {
+    router.push('/login')
+    return null
+  }
+
+  if (dataLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-12 h-12 border-4 border-t-blue-500 border-gray-700 rounded-full animate-spin mb-4"></div>
+        <p className="ml-3 text-xl text-gray-300">Loading customer...</p>
+      </div>
+    )
+  }
+
+  if (!customer) {
+    return (
+      <div className="space-y-5">
+        <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg text-red-400">
+          {error || 'Customer not found'}
+        </div>
+        <button
+          onClick={() => router.push('/dashboard/customers')}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors"
+        >
+          Back to Customers
+        </button>
+      </div>
+    )
+  }
+
+  const { profile, orders } = customer
+  const openOrders = orders.filter(order => OPEN_ORDER_STATUSES.includes(order.status))
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+            {profile.firstName} {profile.lastName}
+          </h1>
+          <p className="text-gray-400 text-sm break-all">{profile.email}</p>
+          {profile.emailVariants.length > 1 && (
+            <p className="text-gray-500 text-xs">Also stored as {profile.emailVariants.filter(variant => variant !== profile.email).join(', ')}</p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isAdmin && !profile.anonymised && (
+            <>
+              <button
+                onClick={exportData}
+                disabled={isExporting}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isExporting ? 'Exporting...' : 'Export Data'}
+              </button>
+              <button
+                onClick={anonymise}
+                disabled={isAnonymising || openOrders.length > 0}
+                title={openOrders.length > 0 ? 'Complete or cancel the open orders first' : undefined}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-white text-sm transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAnonymising ? 'Anonymising...' : 'Anonymise'}
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => router.push('/dashboard/customers')}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
+          >
+            Back to Customers
+          </button>
+        </div>
+      </div>
+
+      {profile.anonymised && (
+        <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-gray-400 text-sm">
+          This customer has been anonymised. Their orders are kept for the accounts, without personal data.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+        <div className="md:col-span-2 space-y-5">
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50">
+            <h2 className="text-lg sm:text-xl font-bold mb-4 sm:mb-6 bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+              Overview
+            </h2>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-y-5 gap-x-3 sm:gap-x-4">
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Lifetime Donated</p>
+                <p className="text-lg sm:text-xl font-bold text-amber-500">{formatMoneyTotals(profile.lifetimeDonated)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Orders</p>
+                <p className="font-medium text-sm sm:text-base">{profile.orderCount}</p>
+                <p className="text-xs text-gray-400">{profile.paidOrderCount} paid</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">First Order</p>
+                <p className="font-medium text-sm sm:text-base">{format(new Date(profile.firstOrderAt), 'MMM dd, yyyy')}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Last Order</p>
+                <p className="font-medium text-sm sm:text-base">{format(new Date(profile.lastOrderAt), 'MMM dd, yyyy')}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50">
+            <h2 className="text-lg sm:text-xl font-bold mb-4 bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+              Orders
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left bg-gray-700/50">
+                    <th className="px-4 py-3 text-xs sm:text-sm">Order Number</th>
+                    <th className="px-4 py-3 text-xs sm:text-sm">Date</th>
+                    <th className="px-4 py-3 text-xs sm:text-sm">Amount</th>
+                    <th className="px-4 py-3 text-xs sm:text-sm">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map(order => (
+                    <tr
+                      key={order.id}
+                      onClick={() => router.push(`/dashboard/orders/${order.id}`)}
+                      className="border-t border-gray-700/30 hover:bg-gray-700/20 transition-colors cursor-pointer"
+                    >
+                      <td className="px-4 py-3 font-medium text-white text-xs sm:text-sm">#{order.order_number}</td>
+                      <td className="px-4 py-3 text-gray-300 text-xs sm:text-sm whitespace-nowrap">
+                        {format(new Date(order.created_at), 'MMM dd, yyyy')}
+                      </td>
+                      <td className="px-4 py-3 font-medium text-amber-500 text-xs sm:text-sm whitespace-nowrap">
+                        {formatMoney(order.total_amount, order.currency)}
+                        {Number(order.refunded_amount || 0) > 0 && (
+                          <div className="text-[10px] text-orange-400">−{formatMoney(order.refunded_amount, order.currency)} refunded</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs sm:text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${ORDER_STATUS_BADGE_CLASSES[order.status] ?? ORDER_STATUS_BADGE_CLASSES.pending}`}>
+                          {ORDER_STATUS_LABELS[order.status] ?? order.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50 h-fit">
+          <h2 className="text-lg sm:text-xl font-bold mb-4 bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+            Addresses
+          </h2>
+          {profile.addresses.length === 0 ? (
+            <p className="text-gray-400 text-sm">No addresses stored</p>
+          ) : (
+            <ul className="space-y-4">
+              {profile.addresses.map(address => (
+                <li key={`${address.address}|${address.postalCode}|${address.city}|${address.country}`} className="text-sm">
+                  <p className="font-medium">{address.address}</p>
+                  <p>{address.postalCode}, {address.city}</p>
+                  <p>{address.country}</p>
+                  <p className="text-xs text-gray-400 mt-1">Last used {format(new Date(address.lastUsedAt), 'MMM dd, yyyy')}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
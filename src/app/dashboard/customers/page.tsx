@@ -0,0 +1,306 @@
+'use client'
+
+import React, { useState, useEffect, useMemo, useCallback, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '../../../contexts/AuthContext'
+import { format } from 'date-fns'
+import { toast } from 'react-hot-toast'
+import type {
+  CustomerDuplicateGroup,
+  CustomerListPage,
+  CustomerListQuery,
+  CustomerMergeResult,
+  CustomerSortField
+} from '../../../types/customers'
+import { API_ROUTES } from '../../../constants/api'
+import { CUSTOMER_SORT_LABELS } from '../../../constants/customers'
+import { apiRequest } from '../../../utils/apiClient'
+import { formatMoneyTotals } from '../../../utils/currency'
+import { getDuplicateGroupKey, parseCustomerListParams, toCustomerListQuery } from '../../../utils/customers'
+import CustomerDuplicateList from '../../../components/customers/CustomerDuplicateList'
+
+const SORTABLE_COLUMNS: CustomerSortField[] = ['name', 'order_count', 'lifetime_donated', 'last_order']
+
+export default function CustomersPage() {
+  // useSearchParams needs a Suspense boundary in the app router
+  return (
+    <Suspense fallback={null}>
+      <CustomerDirectory />
+    </Suspense>
+  )
+}
+
+function CustomerDirectory() {
+  const { user, isAdmin, isLoading: authLoading } = useAuth()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  // Search, sorting and page live in the URL, like the order list
+  const query = useMemo(() => parseCustomerListParams(searchParams), [searchParams])
+
+  const [result, setResult] = useState<CustomerListPage | null>(null)
+  const [dataLoading, setDataLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchInput, setSearchInput] = useState(query.search)
+  const [duplicates, setDuplicates] = useState<CustomerDuplicateGroup[] | null>(null)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // Fetch customers
+  useEffect(() => {
+    async function fetchCustomers() {
+      try {
+        setDataLoading(true)
+        setError(null)
+
+        const listQuery = toCustomerListQuery(query)
+        setResult(await apiRequest<CustomerListPage>(listQuery ? `${API_ROUTES.CUSTOMERS}?${listQuery}` : API_ROUTES.CUSTOMERS))
+      } catch (err: any) {
+        console.error('Error fetching customers:', err)
+        setError(err.message || 'Failed to load customers')
+        toast.error('Failed to load customers')
+      } finally {
+        setDataLoading(false)
+      }
+    }
+
+    if (user) {
+      fetchCustomers()
+    }
+  }, [user, query, reloadKey])
+
+  // Fetch possible duplicates when the panel is opened
+  useEffect(() => {
+    if (user && showDuplicates) {
+      apiRequest<{ groups: CustomerDuplicateGroup[] }>(API_ROUTES.CUSTOMER_DUPLICATES)
+        .then(({ groups }) => setDuplicates(groups))
+        .catch(err => {
+          console.error('Error fetching duplicate customers:', err)
+          toast.error('Failed to load possible duplicates')
+        })
+    }
+  }, [user, showDuplicates, reloadKey])
+
+  // Keep the search box in sync when navigating back and forth
+  useEffect(() => {
+    setSearchInput(query.search)
+  }, [query.search])
+
+  const navigate = useCallback((nextQuery: CustomerListQuery) => {
+    const queryString = toCustomerListQuery(nextQuery)
+    router.replace(queryString ? `/dashboard/customers?${queryString}` : '/dashboard/customers')
+  }, [router])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    navigate({ ...query, search: searchInput.trim(), page: 1 })
+  }
+
+  const handleSort = (field: CustomerSortField) => {
+    if (field === query.sortField) {
+      navigate({ ...query, sortDirection: query.sortDirection === 'asc' ? 'desc' : 'asc', page: 1 })
+    } else {
+      // Names read best A-Z, numbers and dates highest first
+      navigate({ ...query, sortField: field, sortDirection: field === 'name' ? 'asc' : 'desc', page: 1 })
+    }
+  }
+
+  async function mergeCustomers(group: CustomerDuplicateGroup, targetEmail: string, sourceEmails: string[]) {
+    if (!confirm(`Move all orders of ${sourceEmails.join(', ')} to ${targetEmail}? This cannot be undone.`)) return
+
+    try {
+      setMergingKey(getDuplicateGroupKey(group))
+
+      const { mergedOrderIds } = await apiRequest<CustomerMergeResult>(API_ROUTES.CUSTOMER_MERGE, {
+        method: 'POST',
+        body: { targetEmail, sourceEmails }
+      })
+
+      toast.success(`Merged ${mergedOrderIds.length} ${mergedOrderIds.length === 1 ? 'order' : 'orders'} into ${targetEmail}`)
+      setReloadKey(key => key + 1)
+    } catch (err: any) {
+      console.error('Error merging customers:', err)
+      toast.error('Failed to merge customers: ' + err.message)
+    } finally {
+      setMergingKey(null)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[80vh]">
+        <div className="w-12 h-12 border-4 border-t-blue-500 border-gray-700 rounded-full animate-spin mb-4"></div>
+        <p className="text-gray-300 text-lg">Checking authentication...</p>
+      </div>
+    )
+  }
+
+  if (!user) {
+    router.push('/login')
+    return null
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+          Customers
+        </h1>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setShowDuplicates(show => !show)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm transition-colors shadow-md"
+          >
+            {showDuplicates ? 'Hide Duplicates' : 'Find Duplicates'}
+          </button>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg text-red-400 animate-pulse">
+          {error}
+        </div>
+      )}
+
+      {showDuplicates && (
+        <div className="bg-gray-800/80 p-5 rounded-xl shadow-lg border border-gray-700/50">
+          <h2 className="text-lg font-semibold mb-1">Possible Duplicates</h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Customers with nearly the same email address, or the same name and postal code.
+            {isAdmin ? ' Pick the email to keep and merge the others into it.' : ''}
+          </p>
+          {duplicates === null ? (
+            <p className="text-gray-400 text-sm">Looking for duplicates...</p>
+          ) : (
+            <CustomerDuplicateList
+              groups={duplicates}
+              canMerge={isAdmin}
+              busyKey={mergingKey}
+              onMerge={mergeCustomers}
+            />
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search by name, email or city"
+          className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+        <button type="submit" className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors">
+          Search
+        </button>
+      </form>
+
+      {dataLoading && !result ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 border-4 border-t-blue-500 border-gray-700 rounded-full animate-spin mb-4"></div>
+          <p className="ml-3 text-xl text-gray-300">Loading customers...</p>
+        </div>
+      ) : !result || result.customers.length === 0 ? (
+        <div className="bg-gray-800/80 p-8 rounded-xl shadow-lg text-center border border-gray-700/50">
+          <h3 className="text-xl font-medium text-gray-300 mb-2">No customers found</h3>
+          <p className="text-gray-400">
+            {query.search ? 'Try a different search.' : 'Customers appear here once they place an order.'}
+          </p>
+        </div>
+      ) : (
+        <div className={`bg-gray-800/80 rounded-xl shadow-lg overflow-hidden border border-gray-700/50 ${dataLoading ? 'opacity-60' : ''}`}>
+          <div className="overflow-x-auto -mx-4 sm:mx-0">
+            <div className="min-w-[720px] px-4 sm:px-0">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left bg-gray-700/50">
+                    {SORTABLE_COLUMNS.map(field => (
+                      <th
+                        key={field}
+                        className={`px-4 py-3 cursor-pointer hover:bg-gray-700/80 transition-colors text-xs sm:text-sm ${field === 'name' ? '' : 'text-right'}`}
+                        onClick={() => handleSort(field)}
+                      >
+                        <div className={`flex items-center ${field === 'name' ? '' : 'justify-end'}`}>
+                          {field === 'name' ? 'Customer' : CUSTOMER_SORT_LABELS[field]}
+                          {query.sortField === field && (
+                            <span className="ml-1">{query.sortDirection === 'asc' ? '↑' : '↓'}</span>
+                          )}
+                        </div>
+                      </th>
+                    ))}
+                    <th className="px-4 py-3 text-xs sm:text-sm">City</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.customers.map(customer => (
+                    <tr key={customer.email} className="border-t border-gray-700/30 hover:bg-gray-700/20 transition-colors">
+                      <td className="px-4 py-3 text-xs sm:text-sm">
+                        <Link
+                          href={`/dashboard/customers/${encodeURIComponent(customer.email)}`}
+                          className="font-medium text-white hover:text-blue-400 transition-colors"
+                        >
+                          {customer.firstName} {customer.lastName}
+                        </Link>
+                        <div className="text-[10px] sm:text-xs text-gray-400 mt-1 truncate max-w-[200px] sm:max-w-none">
+                          {customer.email}
+                          {customer.anonymised && <span className="ml-2 text-gray-500">(anonymised)</span>}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-300 text-xs sm:text-sm">
+                        {customer.orderCount}
+                        {customer.paidOrderCount !== customer.orderCount && (
+                          <div className="text-[10px] text-gray-500">{customer.paidOrderCount} paid</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium text-amber-500 text-xs sm:text-sm whitespace-nowrap">
+                        {formatMoneyTotals(customer.lifetimeDonated)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-300 text-xs sm:text-sm whitespace-nowrap">
+                        {format(new Date(customer.lastOrderAt), 'MMM dd, yyyy')}
+                      </td>
+                      <td className="px-4 py-3 text-gray-300 text-xs sm:text-sm">
+                        {customer.addresses[0]?.city || <span className="text-gray-500">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between border-t border-gray-700/50 px-4 py-3 text-xs sm:text-sm text-gray-400">
+            <span>
+              {(result.page - 1) * result.pageSize + 1}–{Math.min(result.page * result.pageSize, result.total)} of {result.total} customers
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => navigate({ ...query, page: result.page - 1 })}
+                disabled={result.page <= 1}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span>Page {result.page} of {result.pageCount}</span>
+              <button
+                onClick={() => navigate({ ...query, page: result.page + 1 })}
+                disabled={result.page >= result.pageCount}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
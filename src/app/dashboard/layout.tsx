@@ -9,11 +9,12 @@ import { Toaster, toast } from 'react-hot-toast'
 import { format } from 'date-fns'
 import { nl } from 'date-fns/locale'
 import { animate, animateStaggered, dashboardAnimations } from '../../utils/animations'
-import { HomeIcon, FolderIcon, CurrencyDollarIcon, ChartBarIcon, DocumentChartBarIcon, XMarkIcon, PaperAirplaneIcon, ShieldCheckIcon, ArrowLeftOnRectangleIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline'
+import { HomeIcon, FolderIcon, CurrencyDollarIcon, UserGroupIcon, ChartBarIcon, DocumentChartBarIcon, XMarkIcon, PaperAirplaneIcon, ShieldCheckIcon, ArrowLeftOnRectangleIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline'
 import DashboardChat, { DashboardChatHandle } from '../../components/dashboard/DashboardChat'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import LoadingSpinner from '../../components/ui/LoadingSpinner'
 import WelcomeModal from '../../components/dashboard/WelcomeModal'
+import LowStockNotifications from '../../components/dashboard/LowStockNotifications'
 
 // Admin styles
 import '../globals.css'
@@ -53,6 +54,11 @@ const navItems = [
     path: '/dashboard/orders', 
     icon: <CurrencyDollarIcon className="h-5 w-5" />
   },
+  { 
+    name: 'Customers', 
+    path: '/dashboard/customers', 
+    icon: <UserGroupIcon className="h-5 w-5" />
+  },
   { 
     name: 'Analytics', 
     path: '/dashboard/analytics', 
@@ -352,22 +358,26 @@ export default function DashboardLayout({
               </h1>
             </div>
             
-            {/* Desktop navigation */}
-            <nav className="hidden md:flex space-x-1">
-              {navItems.map((item) => (
-                <Link
-                  key={item.path}
-                  href={item.path}
-                  className={`nav-item px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ${
-                    isActive(item.path)
-                      ? 'bg-blue-600/80 text-white shadow-md'
-                      : 'text-gray-300 hover:bg-gray-700/50 hover:text-white'
-                  }`}
-                >
-                  {item.name}
-                </Link>
-              ))}
-            </nav>
+            <div className="flex items-center space-x-2">
+              {/* Desktop navigation */}
+              <nav className="hidden md:flex space-x-1">
+                {navItems.map((item) => (
+                  <Link
+                    key={item.path}
+                    href={item.path}
+                    className={`nav-item px-4 py-2 rounded-md text-sm font-medium transition-all duration-200 ${
+                      isActive(item.path)
+                        ? 'bg-blue-600/80 text-white shadow-md'
+                        : 'text-gray-300 hover:bg-gray-700/50 hover:text-white'
+                    }`}
+                  >
+                    {item.name}
+                  </Link>
+                ))}
+              </nav>
+              
+              <LowStockNotifications userId={user?.id ?? null} />
+            </div>
           </div>
         </header>
         
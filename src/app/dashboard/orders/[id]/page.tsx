@@ -1,49 +1,63 @@
 'use client'
 
-import React, { useState, useEffect, useMemo } from 'react'
-import { useRouter } from 'next/navigation'
+import React, { useState, useEffect, useMemo, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '../../../../contexts/AuthContext'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import { format } from 'date-fns'
 import { CldImage } from 'next-cloudinary'
 import { toast } from 'react-hot-toast'
+import type { Order, OrderItem, OrderStatus, OrderStatusHistoryRecord, OrderTransitionResult } from '../../../../types/orders'
+import type { OrderEmailLogRecord, SendOrderEmailsResult } from '../../../../types/email'
+import type { OrderDocumentType } from '../../../../types/documents'
+import type { CreateRefundInput, OrderRefundSummary, OrderRefundsResponse, RefundRecord, RefundResult } from '../../../../types/refunds'
+import type { CreateShipmentInput, ShipmentRecord, ShipmentResult } from '../../../../types/shipments'
+import type { MentionableUser, OrderActivityResponse, OrderNoteRecord } from '../../../../types/notes'
+import type { AuditLogRecord } from '../../../../types/audit'
+import type { OrderPricing } from '../../../../types/pricing'
+import { ORDER_STATUS_LABELS, ORDER_STATUS_BADGE_CLASSES, ORDER_TABLES, PAID_ORDER_STATUSES } from '../../../../constants/orders'
+import { API_ROUTES, AUDIT_TABLES } from '../../../../constants/api'
+import { EMAIL_TABLES } from '../../../../constants/email'
+import { ORDER_DOCUMENT_TYPES, ORDER_DOCUMENT_LABELS, INVOICEABLE_ORDER_STATUSES } from '../../../../constants/documents'
+import { REFUNDABLE_ORDER_STATUSES } from '../../../../constants/refunds'
+import { SHIPPABLE_ORDER_STATUSES } from '../../../../constants/shipments'
+import { NOTE_TABLES, ORDER_ACTIVITY_CHANNEL } from '../../../../constants/notes'
+import { createOrderLifecycleService } from '../../../../services/orderLifecycleService'
+import { createOrderQueryService } from '../../../../services/orderQueryService'
+import { apiRequest, downloadFile } from '../../../../utils/apiClient'
+import { parseOrderListParams, toOrderListQuery } from '../../../../utils/orderFilters'
+import { buildOrderActivityFeed, upsertById } from '../../../../utils/orderActivity'
+import { formatVariantLabel } from '../../../../utils/productVariants'
+import { formatMoney, getOrderCurrency } from '../../../../utils/currency'
+import OrderRefundList from '../../../../components/orders/OrderRefundList'
+import OrderRefundForm from '../../../../components/orders/OrderRefundForm'
+import OrderShipmentList from '../../../../components/orders/OrderShipmentList'
+import OrderShipmentForm from '../../../../components/orders/OrderShipmentForm'
+import OrderActivityFeed from '../../../../components/orders/OrderActivityFeed'
+import OrderNoteComposer from '../../../../components/orders/OrderNoteComposer'
+import OrderVatBreakdown from '../../../../components/orders/OrderVatBreakdown'
 
-interface OrderItem {
-  id: string
-  order_id: string
-  product_id: string
-  quantity: number
-  price: number
-  created_at: string
-  product?: {
-    name: string
-    image: string
-  }
-}
-
-interface Order {
-  id: string
-  order_number: string
-  customer_first_name: string
-  customer_last_name: string
-  customer_email: string
-  customer_address: string
-  customer_city: string
-  customer_postal_code: string
-  customer_country: string
-  total_amount: number
-  status: string
-  payment_reference: string | null
-  created_at: string
-  updated_at: string
-  emails_sent: boolean
-  items?: OrderItem[]
+export default function OrderDetails({ params }: { params: { id: string } }) {
+  // useSearchParams needs a Suspense boundary in the app router
+  return (
+    <Suspense fallback={null}>
+      <OrderDetailsContent params={params} />
+    </Suspense>
+  )
 }
 
-export default function OrderDetails({ params }: { params: { id: string } }) {
-  const { user, isLoading: authLoading } = useAuth()
+function OrderDetailsContent({ params }: { params: { id: string } }) {
+  const { user, isAdmin, isLoading: authLoading } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const supabase = createClientComponentClient()
+  const orderLifecycle = useMemo(() => createOrderLifecycleService(supabase), [supabase])
+  const orderQuery = useMemo(() => createOrderQueryService(supabase), [supabase])
+  
+  // The list filters travel along in the URL so prev/next follows the list the user came from
+  const { filters } = useMemo(() => parseOrderListParams(searchParams), [searchParams])
+  const listQuery = useMemo(() => toOrderListQuery(filters), [filters])
+  const withListQuery = (path: string) => (listQuery ? `${path}?${listQuery}` : path)
   
   const [order, setOrder] = useState<Order | null>(null)
   const [orderItems, setOrderItems] = useState<OrderItem[]>([])
@@ -52,6 +66,31 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [prevOrder, setPrevOrder] = useState<string | null>(null)
   const [nextOrder, setNextOrder] = useState<string | null>(null)
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryRecord[]>([])
+  const [historyLoading, setHistoryLoading] = useState(true)
+  const [statusNote, setStatusNote] = useState('')
+  const [emailLog, setEmailLog] = useState<OrderEmailLogRecord[]>([])
+  const [emailLogLoading, setEmailLogLoading] = useState(true)
+  const [downloading, setDownloading] = useState<OrderDocumentType | null>(null)
+  const [refunds, setRefunds] = useState<RefundRecord[]>([])
+  const [refundSummary, setRefundSummary] = useState<OrderRefundSummary | null>(null)
+  const [refundsLoading, setRefundsLoading] = useState(true)
+  const [showRefundForm, setShowRefundForm] = useState(false)
+  const [isRefunding, setIsRefunding] = useState(false)
+  const [shipments, setShipments] = useState<ShipmentRecord[]>([])
+  const [shipmentsLoading, setShipmentsLoading] = useState(true)
+  const [showShipmentForm, setShowShipmentForm] = useState(false)
+  const [isShipping, setIsShipping] = useState(false)
+  const [busyShipmentId, setBusyShipmentId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<OrderNoteRecord[]>([])
+  const [auditEntries, setAuditEntries] = useState<AuditLogRecord[]>([])
+  const [mentionable, setMentionable] = useState<MentionableUser[]>([])
+  const [activityLoading, setActivityLoading] = useState(true)
+  const [isSavingNote, setIsSavingNote] = useState(false)
+  const [busyNoteId, setBusyNoteId] = useState<string | null>(null)
+  const [pricing, setPricing] = useState<OrderPricing | null>(null)
+  const [pricingLoading, setPricingLoading] = useState(true)
+  const userId = user?.id ?? null
   
   // Fetch order details
   useEffect(() => {
@@ -69,10 +108,10 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
         
         if (orderError) throw orderError
         
-        // Fetch order items
+        // Fetch order items, with the ordered variant where there is one
         const { data: itemsData, error: itemsError } = await supabase
           .from('order_items')
-          .select('*')
+          .select('*, variant:product_variants(sku, bottle_size_ml, vintage, cask, image)')
           .eq('order_id', params.id)
         
         if (itemsError) throw itemsError
@@ -95,30 +134,6 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
           })
         )
         
-        // Fetch adjacent orders for navigation
-        const { data: allOrders, error: allOrdersError } = await supabase
-          .from('orders')
-          .select('id, order_number')
-          .order('created_at', { ascending: false })
-        
-        if (allOrdersError) throw allOrdersError
-        
-        if (allOrders && allOrders.length > 0) {
-          const currentIndex = allOrders.findIndex(o => o.id === params.id);
-          
-          if (currentIndex > 0) {
-            setPrevOrder(allOrders[currentIndex - 1].id);
-          } else {
-            setPrevOrder(null);
-          }
-          
-          if (currentIndex < allOrders.length - 1) {
-            setNextOrder(allOrders[currentIndex + 1].id);
-          } else {
-            setNextOrder(null);
-          }
-        }
-        
         setOrder(orderData)
         setOrderItems(itemsWithProducts)
       } catch (err: any) {
@@ -135,23 +150,232 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
     }
   }, [user, params.id, supabase])
   
-  async function updateOrderStatus(newStatus: string) {
+  // Fetch adjacent orders for navigation
+  useEffect(() => {
+    async function fetchAdjacentOrders() {
+      try {
+        const { prevId, nextId } = await orderQuery.getAdjacentOrders(params.id, filters)
+        setPrevOrder(prevId)
+        setNextOrder(nextId)
+      } catch (err: any) {
+        console.error('Error fetching adjacent orders:', err)
+        setPrevOrder(null)
+        setNextOrder(null)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchAdjacentOrders()
+    }
+  }, [user, params.id, orderQuery, filters])
+  
+  // Fetch status history
+  useEffect(() => {
+    async function fetchStatusHistory() {
+      try {
+        setHistoryLoading(true)
+        setStatusHistory(await orderLifecycle.getHistory(params.id))
+      } catch (err: any) {
+        console.error('Error fetching status history:', err)
+        setStatusHistory([])
+      } finally {
+        setHistoryLoading(false)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchStatusHistory()
+    }
+  }, [user, params.id, orderLifecycle])
+  
+  // Fetch email send log
+  useEffect(() => {
+    async function fetchEmailLog() {
+      try {
+        setEmailLogLoading(true)
+        const { log } = await apiRequest<{ log: OrderEmailLogRecord[] }>(
+          `${API_ROUTES.ORDER_EMAILS}?orderId=${encodeURIComponent(params.id)}`
+        )
+        setEmailLog(log)
+      } catch (err: any) {
+        console.error('Error fetching email log:', err)
+        setEmailLog([])
+      } finally {
+        setEmailLogLoading(false)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchEmailLog()
+    }
+  }, [user, params.id])
+  
+  // Fetch refunds
+  useEffect(() => {
+    async function fetchRefunds() {
+      try {
+        setRefundsLoading(true)
+        const result = await apiRequest<OrderRefundsResponse>(API_ROUTES.ORDER_REFUNDS(params.id))
+        setRefunds(result.refunds)
+        setRefundSummary(result.summary)
+      } catch (err: any) {
+        console.error('Error fetching refunds:', err)
+        setRefunds([])
+      } finally {
+        setRefundsLoading(false)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchRefunds()
+    }
+  }, [user, params.id])
+  
+  // Fetch the net/VAT/gross breakdown
+  useEffect(() => {
+    async function fetchPricing() {
+      try {
+        setPricingLoading(true)
+        const result = await apiRequest<{ pricing: OrderPricing }>(API_ROUTES.ORDER_PRICING(params.id))
+        setPricing(result.pricing)
+      } catch (err: any) {
+        console.error('Error fetching VAT breakdown:', err)
+        setPricing(null)
+      } finally {
+        setPricingLoading(false)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchPricing()
+    }
+  }, [user, params.id])
+  
+  // Fetch shipments
+  useEffect(() => {
+    async function fetchShipments() {
+      try {
+        setShipmentsLoading(true)
+        const result = await apiRequest<{ shipments: ShipmentRecord[] }>(API_ROUTES.ORDER_SHIPMENTS(params.id))
+        setShipments(result.shipments)
+      } catch (err: any) {
+        console.error('Error fetching shipments:', err)
+        setShipments([])
+      } finally {
+        setShipmentsLoading(false)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchShipments()
+    }
+  }, [user, params.id])
+  
+  // Fetch notes, audited edits and mentionable users for the activity feed
+  useEffect(() => {
+    async function fetchActivity() {
+      try {
+        setActivityLoading(true)
+        const result = await apiRequest<OrderActivityResponse>(API_ROUTES.ORDER_ACTIVITY(params.id))
+        setNotes(result.notes)
+        setAuditEntries(result.audit)
+        setMentionable(result.mentionable)
+      } catch (err: any) {
+        console.error('Error fetching order activity:', err)
+        setNotes([])
+        setAuditEntries([])
+      } finally {
+        setActivityLoading(false)
+      }
+    }
+    
+    if (user && params.id) {
+      fetchActivity()
+    }
+  }, [user, params.id])
+  
+  // Real-time activity: notes, status changes, emails and edits made by colleagues show up without a refresh.
+  // Records this page added itself are merged by id.
+  useEffect(() => {
+    if (!userId || !params.id) return
+    
+    const orderFilter = `order_id=eq.${params.id}`
+    const channel = supabase
+      .channel(ORDER_ACTIVITY_CHANNEL(params.id))
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: NOTE_TABLES.ORDER_NOTES, filter: orderFilter },
+        (payload) => {
+          const note = payload.new as OrderNoteRecord
+          setNotes(prev => upsertById(prev, note))
+          
+          if (note.author_id !== userId && note.mentions?.includes(userId)) {
+            toast(`${note.author_email || 'A colleague'} mentioned you in a note`)
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        // Delete events can't be filtered, so match on the note id
+        { event: 'DELETE', schema: 'public', table: NOTE_TABLES.ORDER_NOTES },
+        (payload) => {
+          setNotes(prev => prev.filter(note => note.id !== (payload.old as Partial<OrderNoteRecord>).id))
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: ORDER_TABLES.ORDER_STATUS_HISTORY, filter: orderFilter },
+        (payload) => {
+          const entry = payload.new as OrderStatusHistoryRecord
+          setStatusHistory(prev => upsertById(prev, entry))
+          setOrder(prev => (prev ? { ...prev, status: entry.to_status } : prev))
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: EMAIL_TABLES.ORDER_EMAIL_LOG, filter: orderFilter },
+        (payload) => {
+          setEmailLog(prev => upsertById(prev, payload.new as OrderEmailLogRecord, 'start'))
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: AUDIT_TABLES.AUDIT_LOG, filter: `entity_id=eq.${params.id}` },
+        (payload) => {
+          const entry = payload.new as AuditLogRecord
+          if (entry.entity_type === 'order') {
+            setAuditEntries(prev => upsertById(prev, entry, 'start'))
+          }
+        }
+      )
+      .subscribe((status, err) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Order activity realtime subscription error:', err)
+        }
+      })
+    
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, params.id, supabase])
+  
+  async function updateOrderStatus(newStatus: OrderStatus) {
     try {
       setIsSubmitting(true)
       
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', params.id)
-      
-      if (error) throw error
+      const { order: updated, history } = await apiRequest<OrderTransitionResult>(API_ROUTES.ORDER(params.id), {
+        method: 'PATCH',
+        body: { status: newStatus, note: statusNote }
+      })
       
       // Update local state
       if (order) {
-        setOrder({ ...order, status: newStatus, updated_at: new Date().toISOString() })
+        setOrder({ ...order, status: updated.status, updated_at: updated.updated_at })
       }
+      setStatusHistory(prev => [...prev, history])
+      setStatusNote('')
       
-      toast.success(`Order status updated to ${newStatus}`)
+      toast.success(`Order status updated to ${ORDER_STATUS_LABELS[newStatus]}`)
     } catch (err: any) {
       console.error('Error updating order status:', err)
       toast.error('Failed to update order status: ' + err.message)
@@ -164,51 +388,215 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
     try {
       setIsSubmitting(true)
       
-      const response = await fetch('/api/orders/send-emails-wfc', {
+      const result = await apiRequest<SendOrderEmailsResult>(API_ROUTES.ORDER_EMAILS, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          orderId: params.id,
-          customer: {
-            name: `${order?.customer_first_name} ${order?.customer_last_name}`,
-            email: order?.customer_email,
-            address: order?.customer_address,
-            city: order?.customer_city,
-            postalCode: order?.customer_postal_code,
-            country: order?.customer_country
-          }
-        }),
+        body: { orderId: params.id }
       })
       
-      if (!response.ok) {
-        const data = await response.json()
-        throw new Error(data.message || 'Failed to send emails')
-      }
-      
-      // Update order to mark emails as sent
-      const { error } = await supabase
-        .from('orders')
-        .update({ emails_sent: true })
-        .eq('id', params.id)
-      
-      if (error) throw error
-      
       // Update local state
       if (order) {
         setOrder({ ...order, emails_sent: true })
       }
+      setEmailLog(prev => [...result.log, ...prev])
       
       toast.success('Confirmation emails sent successfully')
     } catch (err: any) {
       console.error('Error sending emails:', err)
+      if (Array.isArray(err.details?.log)) {
+        setEmailLog(prev => [...err.details.log, ...prev])
+      }
       toast.error('Failed to send emails: ' + err.message)
     } finally {
       setIsSubmitting(false)
     }
   }
   
+  async function refundOrder(input: CreateRefundInput) {
+    try {
+      setIsRefunding(true)
+      
+      const result = await apiRequest<RefundResult>(API_ROUTES.ORDER_REFUNDS(params.id), {
+        method: 'POST',
+        body: input
+      })
+      
+      // Update local state
+      if (order) {
+        setOrder({ ...order, status: result.order.status, refunded_amount: result.order.refunded_amount })
+      }
+      setRefunds(prev => [result.refund, ...prev])
+      setRefundSummary(result.summary)
+      setShowRefundForm(false)
+      // The refund may have moved the order to (partially) refunded
+      setStatusHistory(await orderLifecycle.getHistory(params.id))
+      
+      toast.success(`Refunded ${formatMoney(result.refund.amount, order?.currency)}`)
+    } catch (err: any) {
+      console.error('Error refunding order:', err)
+      toast.error('Failed to refund order: ' + err.message)
+    } finally {
+      setIsRefunding(false)
+    }
+  }
+  
+  // Applies a shipment change and reloads what it may have touched: status history and email log
+  async function applyShipmentResult(result: ShipmentResult) {
+    if (order) {
+      setOrder({ ...order, ...result.order })
+    }
+    setShipments(result.shipments)
+    setStatusHistory(await orderLifecycle.getHistory(params.id))
+    
+    if (result.emailSent !== null) {
+      const { log } = await apiRequest<{ log: OrderEmailLogRecord[] }>(
+        `${API_ROUTES.ORDER_EMAILS}?orderId=${encodeURIComponent(params.id)}`
+      )
+      setEmailLog(log)
+      
+      if (!result.emailSent) {
+        toast.error('The shipping confirmation email could not be sent')
+      }
+    }
+  }
+  
+  async function createShipment(input: CreateShipmentInput) {
+    try {
+      setIsShipping(true)
+      
+      const result = await apiRequest<ShipmentResult>(API_ROUTES.ORDER_SHIPMENTS(params.id), {
+        method: 'POST',
+        body: input
+      })
+      
+      setShowShipmentForm(false)
+      await applyShipmentResult(result)
+      
+      toast.success(`Registered ${input.parcels.length} parcel${input.parcels.length === 1 ? '' : 's'}`)
+    } catch (err: any) {
+      console.error('Error registering shipment:', err)
+      toast.error('Failed to register shipment: ' + err.message)
+    } finally {
+      setIsShipping(false)
+    }
+  }
+  
+  async function addTracking(shipment: ShipmentRecord, trackingNumber: string, notifyCustomer: boolean) {
+    if (!shipment.id) return
+    
+    try {
+      setBusyShipmentId(shipment.id)
+      
+      const result = await apiRequest<ShipmentResult>(API_ROUTES.ORDER_SHIPMENT(params.id, shipment.id), {
+        method: 'PATCH',
+        body: { trackingNumber, notifyCustomer }
+      })
+      
+      await applyShipmentResult(result)
+      toast.success('Tracking number saved')
+    } catch (err: any) {
+      console.error('Error saving tracking number:', err)
+      toast.error('Failed to save tracking number: ' + err.message)
+    } finally {
+      setBusyShipmentId(null)
+    }
+  }
+  
+  async function removeShipment(shipment: ShipmentRecord) {
+    if (!shipment.id || !window.confirm('Remove this parcel? The order status is not changed.')) return
+    
+    try {
+      setBusyShipmentId(shipment.id)
+      
+      const result = await apiRequest<ShipmentResult>(API_ROUTES.ORDER_SHIPMENT(params.id, shipment.id), {
+        method: 'DELETE'
+      })
+      
+      await applyShipmentResult(result)
+      toast.success('Parcel removed')
+    } catch (err: any) {
+      console.error('Error removing parcel:', err)
+      toast.error('Failed to remove parcel: ' + err.message)
+    } finally {
+      setBusyShipmentId(null)
+    }
+  }
+  
+  async function refreshTracking(shipment: ShipmentRecord) {
+    if (!shipment.id) return
+    
+    try {
+      setBusyShipmentId(shipment.id)
+      
+      const result = await apiRequest<{ shipment: ShipmentRecord }>(API_ROUTES.ORDER_SHIPMENT_TRACKING(params.id, shipment.id), {
+        method: 'POST'
+      })
+      
+      setShipments(prev => prev.map(s => (s.id === result.shipment.id ? result.shipment : s)))
+    } catch (err: any) {
+      console.error('Error checking tracking status:', err)
+      toast.error('Failed to check tracking status: ' + err.message)
+    } finally {
+      setBusyShipmentId(null)
+    }
+  }
+  
+  async function addNote(content: string, parentId: string | null = null): Promise<boolean> {
+    try {
+      if (parentId) {
+        setBusyNoteId(parentId)
+      } else {
+        setIsSavingNote(true)
+      }
+      
+      const { note } = await apiRequest<{ note: OrderNoteRecord }>(API_ROUTES.ORDER_NOTES(params.id), {
+        method: 'POST',
+        body: { content, parentId }
+      })
+      
+      setNotes(prev => upsertById(prev, note))
+      return true
+    } catch (err: any) {
+      console.error('Error adding note:', err)
+      toast.error('Failed to add note: ' + err.message)
+      return false
+    } finally {
+      setIsSavingNote(false)
+      setBusyNoteId(null)
+    }
+  }
+  
+  async function deleteNote(note: OrderNoteRecord) {
+    if (!note.id || !window.confirm('Delete this note?')) return
+    
+    try {
+      setBusyNoteId(note.id)
+      
+      await apiRequest(API_ROUTES.ORDER_NOTE(params.id, note.id), { method: 'DELETE' })
+      
+      setNotes(prev => prev.filter(n => n.id !== note.id))
+    } catch (err: any) {
+      console.error('Error deleting note:', err)
+      toast.error('Failed to delete note: ' + err.message)
+    } finally {
+      setBusyNoteId(null)
+    }
+  }
+  
+  async function downloadDocument(type: OrderDocumentType) {
+    try {
+      setDownloading(type)
+      await downloadFile(
+        API_ROUTES.ORDER_DOCUMENT(params.id, type),
+        `${type.replace('_', '-')}-${order?.order_number ?? params.id}.pdf`
+      )
+    } catch (err: any) {
+      console.error(`Error downloading ${type}:`, err)
+      toast.error(`Failed to generate ${ORDER_DOCUMENT_LABELS[type].toLowerCase()}: ` + err.message)
+    } finally {
+      setDownloading(null)
+    }
+  }
+  
   // Calculate total items and total quantity
   const orderSummary = useMemo(() => {
     if (!orderItems.length) return { totalItems: 0, totalQuantity: 0 };
@@ -219,6 +607,17 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
     return { totalItems, totalQuantity };
   }, [orderItems]);
   
+  const refundedAmount = refundSummary?.refundedAmount ?? Number(order?.refunded_amount || 0)
+  const netAmount = Number(order?.total_amount || 0) - refundedAmount
+  const canRefund = !!order && !!order.payment_reference &&
+    REFUNDABLE_ORDER_STATUSES.includes(order.status) && netAmount > 0
+  const canShip = !!order && isAdmin && SHIPPABLE_ORDER_STATUSES.includes(order.status)
+  
+  const activity = useMemo(
+    () => buildOrderActivityFeed({ notes, history: statusHistory, emails: emailLog, audit: auditEntries }),
+    [notes, statusHistory, emailLog, auditEntries]
+  )
+  
   if (authLoading || dataLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[80vh]">
@@ -243,7 +642,7 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
             Order Not Found
           </h1>
           <button
-            onClick={() => router.push('/dashboard/orders')}
+            onClick={() => router.push(withListQuery('/dashboard/orders'))}
             className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
           >
             Back to Orders
@@ -262,18 +661,31 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
         <h1 className="text-xl sm:text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
           Order #{order.order_number}
         </h1>
-        <button
-          onClick={() => router.push('/dashboard/orders')}
-          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
-        >
-          Back to Orders
-        </button>
+        <div className="flex flex-wrap gap-2">
+          {ORDER_DOCUMENT_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => downloadDocument(type)}
+              disabled={downloading !== null || (type === 'invoice' && !INVOICEABLE_ORDER_STATUSES.includes(order.status))}
+              title={type === 'invoice' && !INVOICEABLE_ORDER_STATUSES.includes(order.status) ? 'Only paid orders can be invoiced' : undefined}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {downloading === type ? 'Generating...' : `${ORDER_DOCUMENT_LABELS[type]} PDF`}
+            </button>
+          ))}
+          <button
+            onClick={() => router.push(withListQuery('/dashboard/orders'))}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
+          >
+            Back to Orders
+          </button>
+        </div>
       </div>
       
       {/* Order Navigation */}
       <div className="flex justify-between items-center">
         <button
-          onClick={() => prevOrder && router.push(`/dashboard/orders/${prevOrder}`)}
+          onClick={() => prevOrder && router.push(withListQuery(`/dashboard/orders/${prevOrder}`))}
           disabled={!prevOrder}
           className={`px-3 py-2 rounded text-sm transition-colors ${
             prevOrder 
@@ -296,7 +708,7 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
         </span>
         
         <button
-          onClick={() => nextOrder && router.push(`/dashboard/orders/${nextOrder}`)}
+          onClick={() => nextOrder && router.push(withListQuery(`/dashboard/orders/${nextOrder}`))}
           disabled={!nextOrder}
           className={`px-3 py-2 rounded text-sm transition-colors ${
             nextOrder 
@@ -320,139 +732,173 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
       )}
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
-        <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg md:col-span-2 border border-gray-700/50">
-          <h2 className="text-lg sm:text-xl font-bold mb-4 sm:mb-6 bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
-            Order Details
-          </h2>
+        <div className="md:col-span-2 space-y-5">
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50">
+            <h2 className="text-lg sm:text-xl font-bold mb-4 sm:mb-6 bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+              Order Details
+            </h2>
           
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-y-5 gap-x-3 sm:gap-x-4 mb-6 sm:mb-8">
-            <div>
-              <p className="text-gray-400 text-xs sm:text-sm mb-1">Date</p>
-              <p className="font-medium text-sm sm:text-base">{format(new Date(order.created_at), 'MMMM dd, yyyy')}</p>
-              <p className="text-xs text-gray-400">{format(new Date(order.created_at), 'HH:mm:ss')}</p>
-            </div>
-            <div>
-              <p className="text-gray-400 text-xs sm:text-sm mb-1">Status</p>
-              <div className="flex items-center gap-2 mt-1">
-                <span className={`px-2 py-1 rounded-full text-xs ${
-                  order.status === 'paid' 
-                    ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
-                    : order.status === 'shipped'
-                    ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
-                    : order.status === 'completed'
-                    ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
-                    : order.status === 'cancelled'
-                    ? 'bg-red-500/20 text-red-400 border border-red-500/30'
-                    : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
-                }`}>
-                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                </span>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-y-5 gap-x-3 sm:gap-x-4 mb-6 sm:mb-8">
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Date</p>
+                <p className="font-medium text-sm sm:text-base">{format(new Date(order.created_at), 'MMMM dd, yyyy')}</p>
+                <p className="text-xs text-gray-400">{format(new Date(order.created_at), 'HH:mm:ss')}</p>
               </div>
-            </div>
-            <div>
-              <p className="text-gray-400 text-xs sm:text-sm mb-1">Total Amount</p>
-              <p className="text-lg sm:text-xl font-bold text-amber-500">€{Number(order.total_amount).toFixed(2)}</p>
-            </div>
-            <div>
-              <p className="text-gray-400 text-xs sm:text-sm mb-1">Emails</p>
-              <div className="flex items-center gap-2 mt-1">
-                <span className={`px-2 py-1 rounded-full text-xs ${
-                  order.emails_sent
-                    ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
-                    : 'bg-red-500/20 text-red-400 border border-red-500/30'
-                }`}>
-                  {order.emails_sent ? 'Sent' : 'Not Sent'}
-                </span>
-                {!order.emails_sent && (
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Status</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className={`px-2 py-1 rounded-full text-xs ${ORDER_STATUS_BADGE_CLASSES[order.status] ?? ORDER_STATUS_BADGE_CLASSES.pending}`}>
+                    {ORDER_STATUS_LABELS[order.status] ?? order.status}
+                  </span>
+                </div>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Total Amount</p>
+                <p className="text-lg sm:text-xl font-bold text-amber-500">{formatMoney(order.total_amount, order.currency)}</p>
+                {refundedAmount > 0 && (
+                  <p className="text-xs text-gray-400">Net {formatMoney(netAmount, order.currency)} after refunds</p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs sm:text-sm mb-1">Emails</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className={`px-2 py-1 rounded-full text-xs ${
+                    order.emails_sent
+                      ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
+                      : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                  }`}>
+                    {order.emails_sent ? 'Sent' : 'Not Sent'}
+                  </span>
                   <button
                     onClick={resendOrderEmails}
                     disabled={isSubmitting}
                     className="px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {isSubmitting ? 'Sending...' : 'Send Now'}
+                    {isSubmitting ? 'Sending...' : order.emails_sent ? 'Resend' : 'Send Now'}
                   </button>
-                )}
+                </div>
               </div>
             </div>
-          </div>
           
-          <div className="border-t border-gray-700 my-4 sm:my-6 pt-4 sm:pt-6">
-            <h3 className="text-base sm:text-lg font-medium mb-3 sm:mb-4">Order Items ({orderSummary.totalItems} items, {orderSummary.totalQuantity} total quantities)</h3>
+            <div className="border-t border-gray-700 my-4 sm:my-6 pt-4 sm:pt-6">
+              <h3 className="text-base sm:text-lg font-medium mb-3 sm:mb-4">Order Items ({orderSummary.totalItems} items, {orderSummary.totalQuantity} total quantities)</h3>
             
-            {orderItems.length === 0 ? (
-              <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
-                <p className="text-gray-400">No items found for this order</p>
-              </div>
-            ) : (
-              <div className="space-y-3 sm:space-y-4">
-                {orderItems.map((item) => (
-                  <div key={item.id} className="bg-gray-800/50 p-3 sm:p-4 rounded-lg border border-gray-700/50 flex flex-col sm:flex-row items-center gap-3 sm:gap-4">
-                    <div className="w-20 h-20 sm:w-24 sm:h-24 relative bg-gray-900/50 rounded-lg overflow-hidden flex-shrink-0">
-                      {item.product?.image ? (
-                        <CldImage
-                          src={item.product.image}
-                          alt={item.product?.name || 'Product'}
-                          fill
-                          sizes="(max-width: 768px) 80px, 100px"
-                          className="object-contain p-2"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 sm:h-10 sm:w-10 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                          </svg>
-                        </div>
-                      )}
-                    </div>
+              {orderItems.length === 0 ? (
+                <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+                  <p className="text-gray-400">No items found for this order</p>
+                </div>
+              ) : (
+                <div className="space-y-3 sm:space-y-4">
+                  {orderItems.map((item) => (
+                    <div key={item.id} className="bg-gray-800/50 p-3 sm:p-4 rounded-lg border border-gray-700/50 flex flex-col sm:flex-row items-center gap-3 sm:gap-4">
+                      <div className="w-20 h-20 sm:w-24 sm:h-24 relative bg-gray-900/50 rounded-lg overflow-hidden flex-shrink-0">
+                        {item.variant?.image || item.product?.image ? (
+                          <CldImage
+                            src={item.variant?.image || item.product!.image}
+                            alt={item.product?.name || 'Product'}
+                            fill
+                            sizes="(max-width: 768px) 80px, 100px"
+                            className="object-contain p-2"
+                          />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 sm:h-10 sm:w-10 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                          </div>
+                        )}
+                      </div>
                     
-                    <div className="flex-grow text-center sm:text-left">
-                      <h4 className="font-medium text-sm sm:text-base line-clamp-2">{item.product?.name || 'Unknown Product'}</h4>
-                      <div className="flex flex-wrap justify-center sm:justify-start gap-2 sm:gap-4 mt-2">
-                        <p className="text-xs sm:text-sm text-gray-400">Quantity: <span className="text-white font-medium">{item.quantity}</span></p>
-                        <p className="text-xs sm:text-sm text-gray-400">Price: <span className="text-amber-500 font-medium">€{Number(item.price).toFixed(2)}</span></p>
-                        <p className="text-xs sm:text-sm text-gray-400">Subtotal: <span className="text-amber-500 font-medium">€{(item.quantity * item.price).toFixed(2)}</span></p>
+                      <div className="flex-grow text-center sm:text-left">
+                        <h4 className="font-medium text-sm sm:text-base line-clamp-2">{item.product?.name || 'Unknown Product'}</h4>
+                        {item.variant && (
+                          <p className="text-xs text-gray-400">
+                            {formatVariantLabel(item.variant)} <span className="font-mono text-gray-500">· {item.variant.sku}</span>
+                          </p>
+                        )}
+                        <div className="flex flex-wrap justify-center sm:justify-start gap-2 sm:gap-4 mt-2">
+                          <p className="text-xs sm:text-sm text-gray-400">Quantity: <span className="text-white font-medium">{item.quantity}</span></p>
+                          <p className="text-xs sm:text-sm text-gray-400">Price: <span className="text-amber-500 font-medium">{formatMoney(item.price, order.currency)}</span></p>
+                          <p className="text-xs sm:text-sm text-gray-400">Subtotal: <span className="text-amber-500 font-medium">{formatMoney(item.quantity * item.price, order.currency)}</span></p>
+                        </div>
                       </div>
-                    </div>
                     
-                    {item.product_id && (
-                      <button
-                        onClick={() => router.push(`/dashboard/products/${item.product_id}`)}
-                        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors shadow-sm hover:shadow-md flex-shrink-0"
-                      >
-                        View Product
-                      </button>
-                    )}
-                  </div>
-                ))}
+                      {item.product_id && (
+                        <button
+                          onClick={() => router.push(`/dashboard/products/${item.product_id}`)}
+                          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors shadow-sm hover:shadow-md flex-shrink-0"
+                        >
+                          View Product
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          
+            <div className="border-t border-gray-700 my-4 sm:my-6 pt-4 sm:pt-6">
+              <h3 className="text-base sm:text-lg font-medium mb-3 sm:mb-4">VAT Breakdown</h3>
+              <OrderVatBreakdown pricing={pricing} totalAmount={Number(order.total_amount)} isLoading={pricingLoading} />
+            </div>
+          
+            <div className="mt-6 border-t border-gray-700 pt-6">
+              <div className="flex flex-col sm:flex-row items-center sm:justify-end gap-3">
+                <div className="w-full sm:w-auto order-2 sm:order-1">
+                  <button
+                    onClick={() => router.push(withListQuery('/dashboard/orders'))}
+                    className="w-full sm:w-auto px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors shadow-md"
+                  >
+                    Back to Orders
+                  </button>
+                </div>
+                <div className="w-full sm:w-auto order-1 sm:order-2 flex flex-col sm:flex-row gap-3">
+                  <input
+                    type="text"
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    disabled={isSubmitting || orderLifecycle.getManualTransitions(order.status).length === 0}
+                    placeholder="Note for status change (optional)"
+                    className="w-full sm:w-64 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50"
+                  />
+                  <select
+                    value={order.status}
+                    onChange={(e) => updateOrderStatus(e.target.value as OrderStatus)}
+                    disabled={isSubmitting || orderLifecycle.getManualTransitions(order.status).length === 0}
+                    className="w-full sm:w-auto px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <option value={order.status}>{ORDER_STATUS_LABELS[order.status] ?? order.status}</option>
+                    {orderLifecycle.getManualTransitions(order.status).map(status => (
+                      <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
-            )}
+            </div>
           </div>
           
-          <div className="mt-6 border-t border-gray-700 pt-6">
-            <div className="flex flex-col sm:flex-row items-center sm:justify-end gap-3">
-              <div className="w-full sm:w-auto order-2 sm:order-1">
-                <button
-                  onClick={() => router.push('/dashboard/orders')}
-                  className="w-full sm:w-auto px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors shadow-md"
-                >
-                  Back to Orders
-                </button>
-              </div>
-              <div className="w-full sm:w-auto order-1 sm:order-2">
-                <select
-                  value={order.status}
-                  onChange={(e) => updateOrderStatus(e.target.value)}
-                  disabled={isSubmitting}
-                  className="w-full sm:w-auto px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  <option value="pending">Pending</option>
-                  <option value="paid">Paid</option>
-                  <option value="shipped">Shipped</option>
-                  <option value="completed">Completed</option>
-                  <option value="cancelled">Cancelled</option>
-                </select>
-              </div>
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50">
+            <h3 className="text-base sm:text-lg font-medium mb-3 sm:mb-4 bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+              Activity
+            </h3>
+            <div className="mb-4">
+              <OrderNoteComposer
+                mentionable={mentionable}
+                currentUserId={userId}
+                isSubmitting={isSavingNote}
+                onSubmit={(content) => addNote(content)}
+              />
             </div>
+            <OrderActivityFeed
+              items={activity}
+              mentionable={mentionable}
+              currentUserId={userId}
+              isLoading={activityLoading || historyLoading || emailLogLoading}
+              canWrite
+              busyNoteId={busyNoteId}
+              onReply={(parentId, content) => addNote(content, parentId)}
+              onDelete={deleteNote}
+            />
           </div>
         </div>
         
@@ -490,24 +936,50 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
                 <p className="text-gray-400 text-xs sm:text-sm mb-1">Status</p>
                 <p className="font-medium">
                   <span className={`px-2 py-1 rounded-full text-xs ${
-                    order.status === 'paid' || order.status === 'completed' || order.status === 'shipped'
+                    order.status === 'partially_refunded'
+                      ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                      : PAID_ORDER_STATUSES.includes(order.status)
                       ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
                       : order.status === 'cancelled'
                       ? 'bg-red-500/20 text-red-400 border border-red-500/30'
+                      : order.status === 'refunded'
+                      ? 'bg-orange-500/20 text-orange-400 border border-orange-500/30'
                       : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
                   }`}>
-                    {order.status === 'paid' || order.status === 'completed' || order.status === 'shipped'
+                    {order.status === 'partially_refunded'
+                      ? 'Partially Refunded'
+                      : PAID_ORDER_STATUSES.includes(order.status)
                       ? 'Payment Completed'
                       : order.status === 'cancelled'
                       ? 'Payment Cancelled'
+                      : order.status === 'refunded'
+                      ? 'Payment Refunded'
                       : 'Payment Pending'}
                   </span>
                 </p>
               </div>
-              <div>
-                <p className="text-gray-400 text-xs sm:text-sm mb-1">Total Amount</p>
-                <p className="text-lg sm:text-xl font-bold text-amber-500">€{Number(order.total_amount).toFixed(2)}</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-gray-400 text-xs sm:text-sm mb-1">Total Amount</p>
+                  <p className="text-lg sm:text-xl font-bold text-amber-500">{formatMoney(order.total_amount, order.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-400 text-xs sm:text-sm mb-1">Currency</p>
+                  <p className="font-medium">{getOrderCurrency(order)}</p>
+                </div>
               </div>
+              {refundedAmount > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <p className="text-gray-400 text-xs sm:text-sm mb-1">Refunded</p>
+                    <p className="font-medium text-orange-400">−{formatMoney(refundedAmount, order.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400 text-xs sm:text-sm mb-1">Net Amount</p>
+                    <p className="font-bold text-amber-500">{formatMoney(netAmount, order.currency)}</p>
+                  </div>
+                </div>
+              )}
               {order.payment_reference && (
                 <div>
                   <p className="text-gray-400 text-xs sm:text-sm mb-1">Payment Reference</p>
@@ -518,6 +990,81 @@ export default function OrderDetails({ params }: { params: { id: string } }) {
               )}
             </div>
           </div>
+          
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50">
+            <div className="flex items-center justify-between mb-3 sm:mb-4">
+              <h3 className="text-base sm:text-lg font-medium bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+                Shipments
+              </h3>
+              {canShip && !showShipmentForm && (
+                <button
+                  onClick={() => setShowShipmentForm(true)}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs transition-colors"
+                >
+                  {shipments.length > 0 ? 'Add parcels' : 'Ship order'}
+                </button>
+              )}
+            </div>
+            {showShipmentForm && (
+              <div className="mb-4 bg-gray-800/50 p-3 rounded-lg border border-blue-500/30">
+                <OrderShipmentForm
+                  isSubmitting={isShipping}
+                  onSubmit={createShipment}
+                  onCancel={() => setShowShipmentForm(false)}
+                />
+              </div>
+            )}
+            <OrderShipmentList
+              shipments={shipments}
+              destination={order}
+              isLoading={shipmentsLoading}
+              canEdit={isAdmin}
+              busyId={busyShipmentId}
+              onAddTracking={addTracking}
+              onRefreshTracking={refreshTracking}
+              onRemove={removeShipment}
+            />
+          </div>
+          
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-4 sm:p-6 rounded-xl shadow-lg border border-gray-700/50">
+            <div className="flex items-center justify-between mb-3 sm:mb-4">
+              <h3 className="text-base sm:text-lg font-medium bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+                Refunds
+              </h3>
+              {canRefund && !showRefundForm && (
+                <button
+                  onClick={() => setShowRefundForm(true)}
+                  className="px-3 py-1 bg-orange-600 hover:bg-orange-700 rounded text-white text-xs transition-colors"
+                >
+                  Refund
+                </button>
+              )}
+            </div>
+            {showRefundForm && (
+              <div className="mb-4 bg-gray-800/50 p-3 rounded-lg border border-orange-500/30">
+                <OrderRefundForm
+                  items={orderItems.map(item => ({
+                    id: item.id,
+                    name: item.product?.name || 'Unknown Product',
+                    quantity: item.quantity,
+                    price: Number(item.price),
+                    refundedQuantity: refundSummary?.refundedQuantities[item.id] ?? 0,
+                  }))}
+                  remainingAmount={netAmount}
+                  currency={order.currency}
+                  isSubmitting={isRefunding}
+                  onSubmit={refundOrder}
+                  onCancel={() => setShowRefundForm(false)}
+                />
+              </div>
+            )}
+            <OrderRefundList
+              refunds={refunds}
+              itemNames={Object.fromEntries(orderItems.map(item => [item.id, item.product?.name || 'Unknown Product']))}
+              currency={order.currency}
+              isLoading={refundsLoading}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -1,45 +1,79 @@
 'use client'
 
-import React, { useState, useEffect, useMemo } from 'react'
-import { useRouter } from 'next/navigation'
+import React, { useState, useEffect, useMemo, useCallback, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '../../../contexts/AuthContext'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import { format } from 'date-fns'
 import { toast } from 'react-hot-toast'
+import type {
+  BulkOrderProgress,
+  Order,
+  OrderFilterPresetRecord,
+  OrderListFilters,
+  OrderSortField,
+  OrderStatus,
+  OrderTransitionResult
+} from '../../../types/orders'
+import type { OrderDocumentType } from '../../../types/documents'
+import { ORDER_STATUS_LABELS, ORDER_STATUS_BADGE_CLASSES, DEFAULT_ORDER_LIST_FILTERS, ORDER_LIST_PAGE_SIZE } from '../../../constants/orders'
+import { API_ROUTES } from '../../../constants/api'
+import { ORDER_DOCUMENT_TYPES, ORDER_DOCUMENT_LABELS, MAX_BATCH_EXPORT_ORDERS } from '../../../constants/documents'
+import { CARRIER_LABELS } from '../../../constants/shipments'
+import { createOrderLifecycleService } from '../../../services/orderLifecycleService'
+import { createOrderQueryService } from '../../../services/orderQueryService'
+import {
+  runBulkOrderAction,
+  runBatchOrderAction,
+  changeOrderStatusTask,
+  sendOrderEmailsTask,
+  exportOrdersCsvTask,
+  printPackingSlipsTask
+} from '../../../services/bulkOrderActions'
+import { apiRequest, downloadFile } from '../../../utils/apiClient'
+import { parseOrderListParams, toOrderListQuery, hasActiveOrderFilters } from '../../../utils/orderFilters'
+import { getTrackingUrl } from '../../../utils/tracking'
+import { formatMoney } from '../../../utils/currency'
+import { normalizeCustomerEmail } from '../../../utils/customers'
+import OrderListFilterBar from '../../../components/orders/OrderListFilterBar'
+import BulkOrderToolbar from '../../../components/orders/BulkOrderToolbar'
+import BulkActionProgressPanel from '../../../components/orders/BulkActionProgressPanel'
 
-interface Order {
-  id: string
-  order_number: string
-  customer_first_name: string
-  customer_last_name: string
-  customer_email: string
-  customer_address: string
-  customer_city: string
-  customer_postal_code: string
-  customer_country: string
-  total_amount: number
-  status: string
-  payment_reference: string | null
-  created_at: string
-  updated_at: string
-  emails_sent: boolean
+export default function OrdersPage() {
+  // useSearchParams needs a Suspense boundary in the app router
+  return (
+    <Suspense fallback={null}>
+      <OrdersList />
+    </Suspense>
+  )
 }
 
-export default function OrdersPage() {
-  const { user, isLoading: authLoading } = useAuth()
+function OrdersList() {
+  const { user, isAdmin, isLoading: authLoading } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const supabase = createClientComponentClient()
+  const orderLifecycle = useMemo(() => createOrderLifecycleService(supabase), [supabase])
+  const orderQuery = useMemo(() => createOrderQueryService(supabase), [supabase])
+  
+  // Filters, sorting and page live in the URL so views can be shared and survive reloads
+  const { filters, page } = useMemo(() => parseOrderListParams(searchParams), [searchParams])
+  const listQuery = useMemo(() => toOrderListQuery(filters), [filters])
   
   const [orders, setOrders] = useState<Order[]>([])
+  const [totalOrders, setTotalOrders] = useState(0)
+  const [pageCount, setPageCount] = useState(1)
   const [dataLoading, setDataLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [statusFilter, setStatusFilter] = useState<string>('all')
-  const [sortField, setSortField] = useState<string>('created_at')
-  const [sortDirection, setSortDirection] = useState<string>('desc')
-  const [searchTerm, setSearchTerm] = useState<string>('')
   const [isUpdating, setIsUpdating] = useState<string | null>(null)
   const [selectedCustomer, setSelectedCustomer] = useState<Order | null>(null)
   const [showCustomerModal, setShowCustomerModal] = useState(false)
+  const [exporting, setExporting] = useState<OrderDocumentType | null>(null)
+  const [presets, setPresets] = useState<OrderFilterPresetRecord[]>([])
+  // Selected orders by ID; kept across pages so a shipping run can span several pages
+  const [selectedOrders, setSelectedOrders] = useState<Map<string, Order>>(new Map())
+  const [bulkProgress, setBulkProgress] = useState<BulkOrderProgress | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
   
   // Fetch orders
   useEffect(() => {
@@ -48,22 +82,17 @@ export default function OrdersPage() {
         setDataLoading(true)
         setError(null)
         
-        let query = supabase
-          .from('orders')
-          .select('*')
-        
-        // Apply status filter
-        if (statusFilter !== 'all') {
-          query = query.eq('status', statusFilter)
-        }
-        
-        // Apply sorting
-        query = query.order(sortField, { ascending: sortDirection === 'asc' })
+        const result = await orderQuery.listOrders(filters, page)
         
-        const { data, error: fetchError } = await query
-        
-        if (fetchError) throw fetchError
-        setOrders(data || [])
+        setOrders(result.orders)
+        // Keep selected orders in sync with their latest status
+        setSelectedOrders(prev => {
+          const next = new Map(prev)
+          result.orders.forEach(order => next.has(order.id) && next.set(order.id, order))
+          return next
+        })
+        setTotalOrders(result.total)
+        setPageCount(result.pageCount)
       } catch (err: any) {
         console.error('Error fetching orders:', err)
         setError(err.message || 'Failed to load orders')
@@ -76,36 +105,82 @@ export default function OrdersPage() {
     if (user) {
       fetchOrders()
     }
-  }, [user, supabase, statusFilter, sortField, sortDirection])
+  }, [user, orderQuery, filters, page, reloadKey])
+  
+  // Fetch saved filter presets
+  useEffect(() => {
+    if (user && isAdmin) {
+      orderQuery.listPresets(user.id)
+        .then(setPresets)
+        .catch(err => console.error('Error fetching filter presets:', err))
+    }
+  }, [user, isAdmin, orderQuery])
+  
+  const navigate = useCallback((nextFilters: OrderListFilters, nextPage: number = 1) => {
+    const query = toOrderListQuery(nextFilters, nextPage)
+    router.replace(query ? `/dashboard/orders?${query}` : '/dashboard/orders')
+  }, [router])
+  
+  // Changing a filter always goes back to the first page
+  const updateFilters = useCallback((changes: Partial<OrderListFilters>) => {
+    navigate({ ...filters, ...changes })
+  }, [navigate, filters])
   
-  const handleSort = (field: string) => {
-    if (field === sortField) {
+  const handleSort = (field: OrderSortField) => {
+    if (field === filters.sortField) {
       // Toggle sort direction if clicking the same field
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
+      updateFilters({ sortDirection: filters.sortDirection === 'asc' ? 'desc' : 'asc' })
     } else {
       // Default to descending for new sort field
-      setSortField(field)
-      setSortDirection('desc')
+      updateFilters({ sortField: field, sortDirection: 'desc' })
     }
   }
   
-  async function updateOrderStatus(orderId: string, newStatus: string) {
+  const clearFilters = () => {
+    navigate({ ...DEFAULT_ORDER_LIST_FILTERS, sortField: filters.sortField, sortDirection: filters.sortDirection })
+  }
+  
+  async function savePreset(name: string) {
+    if (!user) return
+    
+    try {
+      const saved = await orderQuery.savePreset(user.id, name, filters)
+      setPresets(prev => [...prev.filter(preset => preset.name !== saved.name), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)))
+      toast.success(`Saved filter preset "${saved.name}"`)
+    } catch (err: any) {
+      console.error('Error saving filter preset:', err)
+      toast.error('Failed to save filter preset: ' + err.message)
+    }
+  }
+  
+  async function deletePreset(preset: OrderFilterPresetRecord) {
+    if (!preset.id) return
+    
+    try {
+      await orderQuery.deletePreset(preset.id)
+      setPresets(prev => prev.filter(p => p.id !== preset.id))
+    } catch (err: any) {
+      console.error('Error deleting filter preset:', err)
+      toast.error('Failed to delete filter preset: ' + err.message)
+    }
+  }
+  
+  async function updateOrderStatus(orderId: string, newStatus: OrderStatus) {
     try {
       setIsUpdating(orderId)
       
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', orderId)
-      
-      if (error) throw error
+      const { order: updated } = await apiRequest<OrderTransitionResult>(API_ROUTES.ORDER(orderId), {
+        method: 'PATCH',
+        body: { status: newStatus }
+      })
       
       // Update local state to reflect the change
       setOrders(orders.map(order => 
-        order.id === orderId ? { ...order, status: newStatus, updated_at: new Date().toISOString() } : order
+        order.id === orderId ? { ...order, status: updated.status, updated_at: updated.updated_at } : order
       ))
       
-      toast.success(`Order status updated to ${newStatus}`)
+      toast.success(`Order status updated to ${ORDER_STATUS_LABELS[newStatus]}`)
     } catch (err: any) {
       console.error('Error updating order status:', err)
       toast.error('Failed to update order status: ' + err.message)
@@ -114,6 +189,99 @@ export default function OrdersPage() {
     }
   }
   
+  // Export the documents of all orders matching the current filters as one PDF
+  async function exportDocuments(type: OrderDocumentType) {
+    try {
+      setExporting(type)
+      
+      const orderIds = await orderQuery.listOrderIds(filters, MAX_BATCH_EXPORT_ORDERS)
+      const headers = await downloadFile(API_ROUTES.ORDER_DOCUMENTS_EXPORT, `${type.replace('_', '-')}s.pdf`, {
+        method: 'POST',
+        body: { orderIds, type }
+      })
+      
+      const exported = Number(headers.get('X-Exported-Count') || 0)
+      const skipped = Number(headers.get('X-Skipped-Count') || 0)
+      toast.success(
+        `Exported ${exported} ${ORDER_DOCUMENT_LABELS[type].toLowerCase()}${exported === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${skipped} unpaid order${skipped === 1 ? '' : 's'} skipped)` : '')
+      )
+    } catch (err: any) {
+      console.error(`Error exporting ${type}s:`, err)
+      toast.error('Failed to export documents: ' + err.message)
+    } finally {
+      setExporting(null)
+    }
+  }
+  
+  const isBulkRunning = bulkProgress !== null && !bulkProgress.done
+  const allOnPageSelected = orders.length > 0 && orders.every(order => selectedOrders.has(order.id))
+  
+  // Statuses that at least one selected order may move to; the server rejects the rest per order
+  const bulkStatusOptions = useMemo(() => {
+    const options = new Set<OrderStatus>()
+    selectedOrders.forEach(order => orderLifecycle.getManualTransitions(order.status).forEach(status => options.add(status)))
+    return (Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).filter(status => options.has(status))
+  }, [selectedOrders, orderLifecycle])
+  
+  const toggleOrderSelection = (order: Order) => {
+    setSelectedOrders(prev => {
+      const next = new Map(prev)
+      if (next.has(order.id)) {
+        next.delete(order.id)
+      } else {
+        next.set(order.id, order)
+      }
+      return next
+    })
+  }
+  
+  const togglePageSelection = () => {
+    setSelectedOrders(prev => {
+      const next = new Map(prev)
+      orders.forEach(order => (allOnPageSelected ? next.delete(order.id) : next.set(order.id, order)))
+      return next
+    })
+  }
+  
+  const selectOnly = (orderIds: string[]) => {
+    setSelectedOrders(prev => new Map(Array.from(prev).filter(([id]) => orderIds.includes(id))))
+  }
+  
+  // Runs a bulk action over the selection and refreshes the list when orders may have changed
+  async function runBulkAction(run: () => Promise<BulkOrderProgress>, refresh: boolean) {
+    try {
+      const result = await run()
+      
+      if (result.failed === 0) {
+        toast.success(`${result.succeeded} order${result.succeeded === 1 ? '' : 's'} processed`)
+      } else {
+        toast.error(`${result.failed} of ${result.total} orders failed`)
+      }
+      
+      if (refresh && result.succeeded > 0) {
+        setReloadKey(key => key + 1)
+      }
+    } catch (err: any) {
+      console.error('Error running bulk action:', err)
+      toast.error('Bulk action failed: ' + err.message)
+    }
+  }
+  
+  const selection = () => Array.from(selectedOrders.values())
+  
+  const bulkChangeStatus = (status: OrderStatus) =>
+    runBulkAction(() => runBulkOrderAction('change_status', selection(), changeOrderStatusTask(status), setBulkProgress), true)
+  
+  const bulkSendEmails = () =>
+    runBulkAction(() => runBulkOrderAction('send_emails', selection(), sendOrderEmailsTask, setBulkProgress), true)
+  
+  const bulkExportCsv = () =>
+    runBulkAction(() => runBatchOrderAction('export_csv', selection(), exportOrdersCsvTask, setBulkProgress), false)
+  
+  const bulkPrintPackingSlips = () =>
+    runBulkAction(() => runBatchOrderAction('print_packing_slips', selection(), printPackingSlipsTask, setBulkProgress), false)
+  
   const showCustomerDetails = (order: Order) => {
     setSelectedCustomer(order)
     setShowCustomerModal(true)
@@ -124,18 +292,6 @@ export default function OrdersPage() {
     setTimeout(() => setSelectedCustomer(null), 300) // Clear data after animation completes
   }
   
-  // Filtered orders based on search term
-  const filteredOrders = useMemo(() => {
-    if (!searchTerm.trim()) return orders;
-    
-    const searchLower = searchTerm.toLowerCase();
-    return orders.filter(order => 
-      order.order_number.toLowerCase().includes(searchLower) || 
-      `${order.customer_first_name} ${order.customer_last_name}`.toLowerCase().includes(searchLower) ||
-      order.customer_email.toLowerCase().includes(searchLower)
-    );
-  }, [orders, searchTerm]);
-  
   if (authLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[80vh]">
@@ -156,12 +312,25 @@ export default function OrdersPage() {
         <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
           Orders Management
         </h1>
-        <button
-          onClick={() => router.push('/dashboard')}
-          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
-        >
-          Back to Dashboard
-        </button>
+        <div className="flex flex-wrap gap-2">
+          {ORDER_DOCUMENT_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => exportDocuments(type)}
+              disabled={exporting !== null || totalOrders === 0 || totalOrders > MAX_BATCH_EXPORT_ORDERS}
+              title={totalOrders > MAX_BATCH_EXPORT_ORDERS ? `Narrow the filter to at most ${MAX_BATCH_EXPORT_ORDERS} orders` : undefined}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exporting === type ? 'Exporting...' : `Export ${ORDER_DOCUMENT_LABELS[type]}s (${totalOrders})`}
+            </button>
+          ))}
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
+          >
+            Back to Dashboard
+          </button>
+        </div>
       </div>
       
       {error && (
@@ -170,62 +339,53 @@ export default function OrdersPage() {
         </div>
       )}
       
-      <div className="grid sm:grid-cols-[1fr_auto] gap-4 bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 shadow-md">
-        <div className="relative">
-          <input
-            type="text"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            placeholder="Search by order #, customer name or email..."
-            className="w-full px-4 py-2 pl-10 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-          />
-          <svg 
-            xmlns="http://www.w3.org/2000/svg" 
-            className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" 
-            fill="none" 
-            viewBox="0 0 24 24" 
-            stroke="currentColor"
-          >
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-          </svg>
-        </div>
-        
-        <div className="w-full sm:w-auto">
-          <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
-            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-          >
-            <option value="all">All Statuses</option>
-            <option value="pending">Pending</option>
-            <option value="paid">Paid</option>
-            <option value="shipped">Shipped</option>
-            <option value="completed">Completed</option>
-            <option value="cancelled">Cancelled</option>
-          </select>
-        </div>
-      </div>
+      <OrderListFilterBar
+        filters={filters}
+        onChange={updateFilters}
+        onClear={clearFilters}
+        presets={presets}
+        canManagePresets={isAdmin}
+        onSavePreset={savePreset}
+        onDeletePreset={deletePreset}
+      />
+      
+      <BulkOrderToolbar
+        selectedCount={selectedOrders.size}
+        statusOptions={bulkStatusOptions}
+        isRunning={isBulkRunning}
+        maxPackingSlips={MAX_BATCH_EXPORT_ORDERS}
+        onChangeStatus={bulkChangeStatus}
+        onSendEmails={bulkSendEmails}
+        onExportCsv={bulkExportCsv}
+        onPrintPackingSlips={bulkPrintPackingSlips}
+        onClearSelection={() => setSelectedOrders(new Map())}
+      />
+      
+      {bulkProgress && (
+        <BulkActionProgressPanel
+          progress={bulkProgress}
+          onClose={() => setBulkProgress(null)}
+          onSelectFailed={selectOnly}
+        />
+      )}
       
       {dataLoading ? (
         <div className="flex items-center justify-center py-12">
           <div className="w-12 h-12 border-4 border-t-blue-500 border-gray-700 rounded-full animate-spin mb-4"></div>
           <p className="ml-3 text-xl text-gray-300">Loading orders...</p>
         </div>
-      ) : filteredOrders.length === 0 ? (
+      ) : orders.length === 0 ? (
         <div className="bg-gray-800/80 p-8 rounded-xl shadow-lg text-center border border-gray-700/50">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-gray-600 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z" />
           </svg>
           <h3 className="text-xl font-medium text-gray-300 mb-2">No orders found</h3>
           <p className="text-gray-400">
-            {searchTerm || statusFilter !== 'all' ? 'Try adjusting your search or filter criteria.' : 'New orders will appear here.'}
+            {hasActiveOrderFilters(filters) ? 'Try adjusting your search or filter criteria.' : 'New orders will appear here.'}
           </p>
-          {(searchTerm || statusFilter !== 'all') && (
+          {hasActiveOrderFilters(filters) && (
             <button 
-              onClick={() => {
-                setSearchTerm('');
-                setStatusFilter('all');
-              }}
+              onClick={clearFilters}
               className="mt-4 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors"
             >
               Clear Filters
@@ -235,50 +395,71 @@ export default function OrdersPage() {
       ) : (
         <div className="bg-gray-800/80 rounded-xl shadow-lg overflow-hidden border border-gray-700/50">
           <div className="overflow-x-auto -mx-4 sm:mx-0">
-            <div className="min-w-[768px] px-4 sm:px-0">
+            <div className="min-w-[880px] px-4 sm:px-0">
               <table className="w-full">
                 <thead>
                   <tr className="text-left bg-gray-700/50">
+                    <th className="pl-4 py-3 w-8">
+                      <input
+                        type="checkbox"
+                        checked={allOnPageSelected}
+                        onChange={togglePageSelection}
+                        disabled={isBulkRunning}
+                        aria-label="Select all orders on this page"
+                        className="h-4 w-4 rounded border-gray-600 bg-gray-700 cursor-pointer"
+                      />
+                    </th>
                     <th className="px-4 py-3 cursor-pointer hover:bg-gray-700/80 transition-colors text-xs sm:text-sm" onClick={() => handleSort('order_number')}>
                       <div className="flex items-center">
                         Order Number
-                        {sortField === 'order_number' && (
-                          <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                        {filters.sortField === 'order_number' && (
+                          <span className="ml-1">{filters.sortDirection === 'asc' ? '↑' : '↓'}</span>
                         )}
                       </div>
                     </th>
                     <th className="px-4 py-3 cursor-pointer hover:bg-gray-700/80 transition-colors text-xs sm:text-sm" onClick={() => handleSort('customer_last_name')}>
                       <div className="flex items-center">
                         Customer
-                        {sortField === 'customer_last_name' && (
-                          <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                        {filters.sortField === 'customer_last_name' && (
+                          <span className="ml-1">{filters.sortDirection === 'asc' ? '↑' : '↓'}</span>
                         )}
                       </div>
                     </th>
                     <th className="px-4 py-3 cursor-pointer hover:bg-gray-700/80 transition-colors text-xs sm:text-sm" onClick={() => handleSort('created_at')}>
                       <div className="flex items-center">
                         Date
-                        {sortField === 'created_at' && (
-                          <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                        {filters.sortField === 'created_at' && (
+                          <span className="ml-1">{filters.sortDirection === 'asc' ? '↑' : '↓'}</span>
                         )}
                       </div>
                     </th>
                     <th className="px-4 py-3 cursor-pointer hover:bg-gray-700/80 transition-colors text-xs sm:text-sm" onClick={() => handleSort('total_amount')}>
                       <div className="flex items-center">
                         Amount
-                        {sortField === 'total_amount' && (
-                          <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                        {filters.sortField === 'total_amount' && (
+                          <span className="ml-1">{filters.sortDirection === 'asc' ? '↑' : '↓'}</span>
                         )}
                       </div>
                     </th>
                     <th className="px-4 py-3 text-xs sm:text-sm">Status</th>
+                    <th className="px-4 py-3 text-xs sm:text-sm">Tracking</th>
                     <th className="px-4 py-3 text-xs sm:text-sm">Email</th>
                     <th className="px-4 py-3 text-right text-xs sm:text-sm">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredOrders.map(order => (
-                    <tr key={order.id} className="border-t border-gray-700/30 hover:bg-gray-700/20 transition-colors">
+                  {orders.map(order => (
+                    <tr key={order.id} className={`border-t border-gray-700/30 hover:bg-gray-700/20 transition-colors ${selectedOrders.has(order.id) ? 'bg-blue-900/10' : ''}`}>
+                      <td className="pl-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedOrders.has(order.id)}
+                          onChange={() => toggleOrderSelection(order)}
+                          disabled={isBulkRunning}
+                          aria-label={`Select order ${order.order_number}`}
+                          className="h-4 w-4 rounded border-gray-600 bg-gray-700 cursor-pointer"
+                        />
+                      </td>
                       <td className="px-4 py-3 font-medium text-white text-xs sm:text-sm">#{order.order_number}</td>
                       <td className="px-4 py-3 text-xs sm:text-sm">
                         <div 
@@ -300,22 +481,40 @@ export default function OrdersPage() {
                           {format(new Date(order.created_at), 'HH:mm')}
                         </div>
                       </td>
-                      <td className="px-4 py-3 font-medium text-amber-500 text-xs sm:text-sm whitespace-nowrap">€{Number(order.total_amount).toFixed(2)}</td>
+                      <td className="px-4 py-3 font-medium text-amber-500 text-xs sm:text-sm whitespace-nowrap">
+                        {formatMoney(order.total_amount, order.currency)}
+                        {Number(order.refunded_amount || 0) > 0 && (
+                          <div className="text-[10px] text-orange-400">−{formatMoney(order.refunded_amount, order.currency)} refunded</div>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-xs sm:text-sm">
-                        <span className={`px-1.5 py-0.5 sm:px-2 sm:py-1 rounded-full text-[10px] sm:text-xs font-medium ${
-                          order.status === 'paid' 
-                            ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
-                            : order.status === 'shipped'
-                            ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
-                            : order.status === 'completed'
-                            ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
-                            : order.status === 'cancelled'
-                            ? 'bg-red-500/20 text-red-400 border border-red-500/30'
-                            : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
-                        }`}>
-                          {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                        <span className={`px-1.5 py-0.5 sm:px-2 sm:py-1 rounded-full text-[10px] sm:text-xs font-medium ${ORDER_STATUS_BADGE_CLASSES[order.status] ?? ORDER_STATUS_BADGE_CLASSES.pending}`}>
+                          {ORDER_STATUS_LABELS[order.status] ?? order.status}
                         </span>
                       </td>
+                      <td className="px-4 py-3 text-xs sm:text-sm">
+                        {order.tracking_number ? (
+                          <>
+                            <a
+                              href={getTrackingUrl(order.carrier, order.tracking_number, order) ?? undefined}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-[10px] sm:text-xs text-blue-400 hover:text-blue-300 break-all"
+                            >
+                              {order.tracking_number}
+                            </a>
+                            {order.carrier && (
+                              <div className="text-[10px] text-gray-400">{CARRIER_LABELS[order.carrier]}</div>
+                            )}
+                          </>
+                        ) : order.status === 'shipped' ? (
+                          <span className="px-1.5 py-0.5 sm:px-2 sm:py-1 rounded-full text-[10px] sm:text-xs font-medium bg-amber-500/20 text-amber-400 border border-amber-500/30">
+                            No tracking
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">—</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-xs sm:text-sm">
                         <span className={`px-1.5 py-0.5 sm:px-2 sm:py-1 rounded-full text-[10px] sm:text-xs font-medium ${
                           order.emails_sent
@@ -328,22 +527,21 @@ export default function OrdersPage() {
                       <td className="px-4 py-3 text-right whitespace-nowrap">
                         <div className="flex flex-col sm:flex-row justify-end gap-2">
                           <button
-                            onClick={() => router.push(`/dashboard/orders/${order.id}`)}
+                            onClick={() => router.push(`/dashboard/orders/${order.id}${listQuery ? `?${listQuery}` : ''}`)}
                             className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-[10px] sm:text-xs transition-colors shadow-sm hover:shadow-md"
                           >
                             View
                           </button>
                           <select
                             value={order.status}
-                            onChange={(e) => updateOrderStatus(order.id, e.target.value)}
-                            disabled={isUpdating === order.id}
-                            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-[10px] sm:text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer"
+                            onChange={(e) => updateOrderStatus(order.id, e.target.value as OrderStatus)}
+                            disabled={isUpdating === order.id || orderLifecycle.getManualTransitions(order.status).length === 0}
+                            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-[10px] sm:text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                            <option value="pending">Pending</option>
-                            <option value="paid">Paid</option>
-                            <option value="shipped">Shipped</option>
-                            <option value="completed">Completed</option>
-                            <option value="cancelled">Cancelled</option>
+                            <option value={order.status}>{ORDER_STATUS_LABELS[order.status] ?? order.status}</option>
+                            {orderLifecycle.getManualTransitions(order.status).map(status => (
+                              <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                            ))}
                           </select>
                         </div>
                       </td>
@@ -360,6 +558,30 @@ export default function OrdersPage() {
             </div>
             <span className="sr-only">Scroll horizontally to see more</span>
           </div>
+          
+          {/* Pagination */}
+          <div className="flex items-center justify-between border-t border-gray-700/50 px-4 py-3 text-xs sm:text-sm text-gray-400">
+            <span>
+              {(page - 1) * ORDER_LIST_PAGE_SIZE + 1}–{Math.min(page * ORDER_LIST_PAGE_SIZE, totalOrders)} of {totalOrders} orders
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => navigate(filters, page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span>Page {page} of {pageCount}</span>
+              <button
+                onClick={() => navigate(filters, page + 1)}
+                disabled={page >= pageCount}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
         </div>
       )}
       
@@ -409,18 +631,8 @@ export default function OrdersPage() {
               
               <div>
                 <p className="text-gray-400 text-sm mb-1">Order Status</p>
-                <span className={`px-2 py-1 rounded-full text-xs font-medium inline-block ${
-                  selectedCustomer.status === 'paid' 
-                    ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
-                    : selectedCustomer.status === 'shipped'
-                    ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
-                    : selectedCustomer.status === 'completed'
-                    ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
-                    : selectedCustomer.status === 'cancelled'
-                    ? 'bg-red-500/20 text-red-400 border border-red-500/30'
-                    : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
-                }`}>
-                  {selectedCustomer.status.charAt(0).toUpperCase() + selectedCustomer.status.slice(1)}
+                <span className={`px-2 py-1 rounded-full text-xs font-medium inline-block ${ORDER_STATUS_BADGE_CLASSES[selectedCustomer.status] ?? ORDER_STATUS_BADGE_CLASSES.pending}`}>
+                  {ORDER_STATUS_LABELS[selectedCustomer.status] ?? selectedCustomer.status}
                 </span>
               </div>
             </div>
@@ -435,7 +647,16 @@ export default function OrdersPage() {
               <button 
                 onClick={() => {
                   closeCustomerModal();
-                  router.push(`/dashboard/orders/${selectedCustomer.id}`);
+                  router.push(`/dashboard/customers/${encodeURIComponent(normalizeCustomerEmail(selectedCustomer.customer_email))}`);
+                }}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white transition-colors"
+              >
+                Customer Profile
+              </button>
+              <button 
+                onClick={() => {
+                  closeCustomerModal();
+                  router.push(`/dashboard/orders/${selectedCustomer.id}${listQuery ? `?${listQuery}` : ''}`);
                 }}
                 className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white transition-colors"
               >
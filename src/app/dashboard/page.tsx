@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { useAuth } from '../../contexts/AuthContext'
 import LoadingSpinner from '../../components/ui/LoadingSpinner'
 import ErrorMessage from '../../components/ui/ErrorMessage'
+import CategoryRevenueBreakdown from '../../components/dashboard/CategoryRevenueBreakdown'
 import Link from 'next/link'
 import { animate } from '../../utils/animations'
 
@@ -86,6 +87,8 @@ export default function DashboardPage() {
             ></iframe>
           </div>
         </div>
+
+        <CategoryRevenueBreakdown />
         
         {/* Informational sections (kept from Looker Studio page) */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -4,26 +4,56 @@ import React, { useState, useEffect, FormEvent, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '../../../../contexts/AuthContext'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
-import { CldImage, CldUploadWidget } from 'next-cloudinary'
 import { toast } from 'react-hot-toast'
+import { format } from 'date-fns'
+import type { Product, ProductImageDraft, ProductPublishingDraft, ProductRevision, ProductVariantDraft } from '../../../../types/products'
+import type { StockAdjustmentInput, StockAdjustmentResult, StockHistoryResponse } from '../../../../types/inventory'
+import type { ConflictField } from '../../../../types/concurrency'
+import { API_ROUTES } from '../../../../constants/api'
+import { PRODUCT_TABLES } from '../../../../constants/products'
+import { CATALOG_TABLES } from '../../../../constants/catalog'
+import { DEFAULT_LOW_STOCK_THRESHOLD } from '../../../../constants/inventory'
+import { apiRequest } from '../../../../utils/apiClient'
+import { isConcurrentUpdate } from '../../../../utils/concurrency'
+import { formatVariantLabel, fromVariantDraft, summarizeVariants, toVariantDraft } from '../../../../utils/productVariants'
+import { fromImageDrafts, toImageDrafts } from '../../../../utils/productImages'
+import { fromPublishingDraft, toPublishingDraft } from '../../../../utils/productPublishing'
+import { buildStockSeries } from '../../../../utils/inventory'
+import { useCatalog } from '../../../../hooks/useCatalog'
+import { useEditConflict } from '../../../../hooks/useEditConflict'
+import { useEditorPresence } from '../../../../hooks/useEditorPresence'
+import ProductVariantEditor from '../../../../components/products/ProductVariantEditor'
+import ProductCatalogFields from '../../../../components/products/ProductCatalogFields'
+import ProductImageGallery from '../../../../components/products/ProductImageGallery'
+import ProductPublishingFields from '../../../../components/products/ProductPublishingFields'
+import ProductDescriptionEditor from '../../../../components/products/ProductDescriptionEditor'
+import StockHistoryChart from '../../../../components/products/StockHistoryChart'
+import StockMovementList from '../../../../components/products/StockMovementList'
+import StockAdjustmentForm from '../../../../components/products/StockAdjustmentForm'
+import ProductRevisionHistory from '../../../../components/products/ProductRevisionHistory'
+import EditConflictDialog from '../../../../components/ui/EditConflictDialog'
+import PresenceAvatars from '../../../../components/ui/PresenceAvatars'
+import SectionLockNotice from '../../../../components/ui/SectionLockNotice'
 
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  images: string[]
-  cloudinary_id: string
-  stock: number
-  is_active: boolean
-  created_at: string
-  updated_at: string
-}
+// The product form as one section for presence: whoever types in it holds the soft lock until they save
+const DETAILS_SECTION = 'details'
+
+// A saved product as the form would send it, to compare with the form when someone else saved the product first
+function toProductPayload(source: Product): Record<string, any> {
+  const sourceVariants = source.variants || []
 
-interface UploadResult {
-  public_id: string;
-  secure_url: string;
+  return {
+    name: source.name,
+    description: source.description,
+    ...(sourceVariants.length > 0 ? {} : { price: source.price, stock: source.stock }),
+    ...fromPublishingDraft(toPublishingDraft(source)),
+    ...fromImageDrafts(toImageDrafts(source)),
+    low_stock_threshold: source.low_stock_threshold ?? null,
+    category_id: source.category_id ?? null,
+    tags: source.tags || [],
+    collection_ids: source.collection_ids || [],
+    variants: sourceVariants.map(variant => fromVariantDraft(toVariantDraft(variant))),
+  }
 }
 
 export default function ProductEdit({ params }: { params: { id: string } }) {
@@ -42,9 +72,31 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
   const [description, setDescription] = useState('')
   const [price, setPrice] = useState('')
   const [stock, setStock] = useState('')
-  const [isActive, setIsActive] = useState(true)
-  const [image, setImage] = useState('')
-  const [additionalImages, setAdditionalImages] = useState<string[]>([])
+  const [publishing, setPublishing] = useState<ProductPublishingDraft>(() => toPublishingDraft())
+  const [images, setImages] = useState<ProductImageDraft[]>([])
+  const [lowStockThreshold, setLowStockThreshold] = useState('')
+  const [variants, setVariants] = useState<ProductVariantDraft[]>([])
+  const [categoryId, setCategoryId] = useState<string | null>(null)
+  const [tags, setTags] = useState<string[]>([])
+  const [collectionIds, setCollectionIds] = useState<string[]>([])
+  
+  const catalog = useCatalog(!!user)
+  const { conflict, resolveConflict, onResolve } = useEditConflict()
+  const presence = useEditorPresence(`product-${params.id}`)
+  const detailsLock = presence.locks.get(DETAILS_SECTION) || null
+  const isEditingDetails = presence.editingSectionId === DETAILS_SECTION
+  const isLocked = !!detailsLock && !isEditingDetails
+  
+  // Stock ledger
+  const [stockHistory, setStockHistory] = useState<StockHistoryResponse | null>(null)
+  const [historyVariantId, setHistoryVariantId] = useState('')
+  const [isAdjustingStock, setIsAdjustingStock] = useState(false)
+  const [isReconciling, setIsReconciling] = useState(false)
+  
+  // Revisions
+  const [revisions, setRevisions] = useState<ProductRevision[]>([])
+  const [revisionsLoading, setRevisionsLoading] = useState(true)
+  const [restoringRevisionId, setRestoringRevisionId] = useState<string | null>(null)
   
   const [prevProduct, setPrevProduct] = useState<string | null>(null);
   const [nextProduct, setNextProduct] = useState<string | null>(null);
@@ -77,10 +129,30 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
         setDescription(data.description || '')
         setPrice(data.price ? data.price.toString() : '')
         setStock(data.stock ? data.stock.toString() : '')
-        setIsActive(!!data.is_active)
-        setImage(data.image || '')
-        setAdditionalImages(Array.isArray(data.images) ? 
-          data.images.filter((img: string) => img !== data.image && img) : [])
+        setPublishing(toPublishingDraft(data))
+        setLowStockThreshold(data.low_stock_threshold === null || data.low_stock_threshold === undefined ? '' : String(data.low_stock_threshold))
+        setImages(toImageDrafts(data))
+        setCategoryId(data.category_id ?? null)
+        setTags(Array.isArray(data.tags) ? data.tags : [])
+        
+        const { data: variantRows, error: variantsError } = await supabase
+          .from(PRODUCT_TABLES.PRODUCT_VARIANTS)
+          .select('*')
+          .eq('product_id', params.id)
+          .order('position')
+        
+        if (variantsError) throw variantsError
+        setVariants((variantRows || []).map(toVariantDraft))
+        
+        const { data: collectionItems, error: collectionsError } = await supabase
+          .from(CATALOG_TABLES.COLLECTION_ITEMS)
+          .select('collection_id')
+          .eq('product_id', params.id)
+        
+        if (collectionsError) throw collectionsError
+        setCollectionIds((collectionItems || []).map(item => item.collection_id))
+        // Kept with the product, as the version a save compares against
+        setProduct({ ...data, variants: variantRows || [], collection_ids: (collectionItems || []).map(item => item.collection_id) })
         
         // Fetch adjacent products for navigation
         const { data: allProducts } = await supabase
@@ -116,6 +188,103 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
     }
   }, [user, params.id, supabase])
   
+  const fetchStockHistory = useCallback(async () => {
+    try {
+      setStockHistory(await apiRequest<StockHistoryResponse>(API_ROUTES.PRODUCT_STOCK(params.id)))
+    } catch (err: any) {
+      console.error('Error fetching stock history:', err)
+    }
+  }, [params.id])
+  
+  useEffect(() => {
+    if (user && params.id) {
+      fetchStockHistory()
+    }
+  }, [user, params.id, fetchStockHistory])
+  
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const { revisions } = await apiRequest<{ revisions: ProductRevision[] }>(API_ROUTES.PRODUCT_REVISIONS(params.id))
+      setRevisions(revisions)
+    } catch (err: any) {
+      console.error('Error fetching revisions:', err)
+    } finally {
+      setRevisionsLoading(false)
+    }
+  }, [params.id])
+  
+  useEffect(() => {
+    if (user && params.id) {
+      fetchRevisions()
+    }
+  }, [user, params.id, fetchRevisions])
+  
+  // Restoring replaces the content fields in the form; unsaved edits to them are lost
+  async function restoreRevision(revision: ProductRevision) {
+    if (!window.confirm(`Restore the revision of ${format(new Date(revision.createdAt), 'MMM dd, yyyy HH:mm')}? Unsaved changes are lost.`)) return
+    
+    try {
+      setRestoringRevisionId(revision.id)
+      
+      const { product: restored } = await apiRequest<{ product: Product }>(API_ROUTES.PRODUCT_REVISION_RESTORE(params.id, revision.id), {
+        method: 'POST'
+      })
+      
+      setProduct({ ...product!, ...restored })
+      setName(restored.name || '')
+      setDescription(restored.description || '')
+      setPrice(String(restored.price))
+      setImages(toImageDrafts(restored))
+      setCategoryId(restored.category_id ?? null)
+      setTags(restored.tags || [])
+      toast.success('Revision restored')
+      await fetchRevisions()
+    } catch (err: any) {
+      console.error('Error restoring revision:', err)
+      toast.error('Failed to restore revision: ' + err.message)
+    } finally {
+      setRestoringRevisionId(null)
+    }
+  }
+  
+  async function adjustStock(input: StockAdjustmentInput) {
+    try {
+      setIsAdjustingStock(true)
+      
+      const { productStock } = await apiRequest<StockAdjustmentResult>(API_ROUTES.PRODUCT_STOCK(params.id), {
+        method: 'POST',
+        body: input
+      })
+      
+      setStock(String(productStock))
+      if (input.variantId) {
+        setVariants(prev => prev.map(variant => (variant.id === input.variantId ? { ...variant, stock: String(input.stock) } : variant)))
+      }
+      toast.success('Stock adjusted')
+      await fetchStockHistory()
+    } catch (err: any) {
+      console.error('Error adjusting stock:', err)
+      toast.error('Failed to adjust stock: ' + err.message)
+    } finally {
+      setIsAdjustingStock(false)
+    }
+  }
+  
+  async function reconcileStock() {
+    try {
+      setIsReconciling(true)
+      setStockHistory(await apiRequest<StockHistoryResponse>(API_ROUTES.PRODUCT_STOCK_RECONCILE(params.id), {
+        method: 'POST'
+      }))
+      toast.success('Stock ledger reconciled')
+    } catch (err: any) {
+      console.error('Error reconciling stock:', err)
+      toast.error('Failed to reconcile stock: ' + err.message)
+    } finally {
+      setIsReconciling(false)
+    }
+  }
+  
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
     
@@ -127,27 +296,31 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
       // Validate inputs
       if (!name.trim()) throw new Error('Product name is required')
       if (!description.trim()) throw new Error('Description is required')
-      if (!price || parseFloat(price) <= 0) throw new Error('Price must be greater than zero')
-      if (!stock || parseInt(stock) < 0) throw new Error('Stock cannot be negative')
-      if (!image.trim()) throw new Error('Main image is required')
+      if (!hasVariants) {
+        if (!price || parseFloat(price) <= 0) throw new Error('Price must be greater than zero')
+        if (!stock || parseInt(stock) < 0) throw new Error('Stock cannot be negative')
+      }
+      if (variants.some(variant => !variant.sku.trim())) throw new Error('Every variant needs a SKU')
+      if (images.length === 0) throw new Error('Main image is required')
+      if (images.some(img => !img.alt.trim())) throw new Error('Every image needs alt text')
+      if (publishing.status === 'scheduled' && !publishing.publishAt) throw new Error('Choose when the product goes live')
       
+      // With variants the server derives price and stock from them
       const updatedProduct = {
         name,
         description,
-        price: parseFloat(price),
-        stock: parseInt(stock),
-        is_active: isActive,
-        image,
-        images: [image, ...additionalImages.filter(img => img)],
-        updated_at: new Date().toISOString()
+        ...(hasVariants ? {} : { price: parseFloat(price), stock: parseInt(stock) }),
+        ...fromPublishingDraft(publishing),
+        ...fromImageDrafts(images),
+        low_stock_threshold: lowStockThreshold.trim() ? parseInt(lowStockThreshold) : null,
+        category_id: categoryId,
+        tags,
+        collection_ids: collectionIds,
+        variants: variants.map(fromVariantDraft)
       }
       
-      const { error: updateError } = await supabase
-        .from('products')
-        .update(updatedProduct)
-        .eq('id', params.id)
-      
-      if (updateError) throw updateError
+      const saved = await saveProduct(updatedProduct)
+      presence.stopEditing(DETAILS_SECTION)
       
       toast.success('Product updated successfully')
       setSuccessMessage('Product updated successfully')
@@ -155,8 +328,14 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
       // Update local state
       setProduct({
         ...product!,
-        ...updatedProduct
+        ...saved
       })
+      setPrice(String(saved.price))
+      setStock(String(saved.stock))
+      setVariants((saved.variants || []).map(toVariantDraft))
+      setTags(saved.tags || [])
+      await fetchStockHistory()
+      await fetchRevisions()
       
       // Short delay before allowing another submission
       setTimeout(() => {
@@ -170,37 +349,111 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
     }
   }
   
-  const removeImage = (imageToRemove: string) => {
-    setAdditionalImages(additionalImages.filter(img => img !== imageToRemove))
-    toast.success('Image removed')
+  // Puts a saved product in the form, e.g. their version after dropping your changes in a conflict
+  function resetForm(source: Product) {
+    setProduct(source)
+    setName(source.name || '')
+    setDescription(source.description || '')
+    setPrice(String(source.price))
+    setStock(String(source.stock))
+    setPublishing(toPublishingDraft(source))
+    setLowStockThreshold(source.low_stock_threshold === null || source.low_stock_threshold === undefined ? '' : String(source.low_stock_threshold))
+    setImages(toImageDrafts(source))
+    setCategoryId(source.category_id ?? null)
+    setTags(source.tags || [])
+    setCollectionIds(source.collection_ids || [])
+    setVariants((source.variants || []).map(toVariantDraft))
   }
   
-  const handleImageUpload = useCallback((result: UploadResult) => {
-    const publicId = result.public_id;
-    setImage(publicId);
-    toast.success('Main image uploaded successfully');
-  }, []);
+  // Saves against the version the form started from; when someone else saved the product since, the
+  // editor merges the two versions or overwrites theirs
+  async function saveProduct(changes: Record<string, any>): Promise<Product> {
+    let startedFrom = product!
+    let pending = changes
+    const categoryNames = Object.fromEntries(catalog.categories.map(category => [category.id, category.name]))
+    const collectionNames = Object.fromEntries(catalog.collections.map(collection => [collection.id, collection.name]))
+    const fields: ConflictField[] = [
+      { key: 'name', label: 'Name' },
+      { key: 'description', label: 'Description' },
+      { key: 'price', label: 'Price' },
+      { key: 'stock', label: 'Stock' },
+      { key: 'status', label: 'Status' },
+      { key: 'publish_at', label: 'Publish at' },
+      { key: 'unpublish_at', label: 'Unpublish at' },
+      { key: 'image', label: 'Main image' },
+      { key: 'images', label: 'Images' },
+      { key: 'image_meta', label: 'Alt text & focal points' },
+      { key: 'low_stock_threshold', label: 'Low-stock threshold' },
+      { key: 'category_id', label: 'Category', format: (id: string | null) => (id ? categoryNames[id] || id : '—') },
+      { key: 'tags', label: 'Tags' },
+      { key: 'collection_ids', label: 'Collections', format: (ids: string[]) => ids.map(id => collectionNames[id] || id).join(', ') || '—' },
+      {
+        key: 'variants',
+        label: 'Variants',
+        format: (list: any[]) => list.map(variant => `${formatVariantLabel(variant)}: ${variant.price} (${variant.stock} in stock)`).join('\n') || '—',
+      },
+    ]
+    
+    for (;;) {
+      try {
+        const { product: saved } = await apiRequest<{ product: Product }>(API_ROUTES.PRODUCT(params.id), {
+          method: 'PATCH',
+          body: { ...pending, expected_updated_at: startedFrom.updated_at }
+        })
+        return saved
+      } catch (err) {
+        if (!isConcurrentUpdate(err)) throw err
+        
+        const current = err.details.current as Product
+        const resolved = await resolveConflict({
+          title: 'This product was saved by someone else',
+          fields,
+          base: toProductPayload(startedFrom),
+          theirs: toProductPayload(current),
+          yours: pending,
+          theirTime: current.updated_at,
+        })
+        
+        if (!resolved) {
+          resetForm(current)
+          presence.stopEditing(DETAILS_SECTION)
+          throw new Error('Your changes were not saved; the form now shows their version')
+        }
+        
+        startedFrom = current
+        pending = resolved
+      }
+    }
+  }
   
-  const handleAdditionalImageUpload = useCallback((result: UploadResult) => {
-    const publicId = result.public_id;
-    setAdditionalImages(prev => [...prev, publicId]);
-    toast.success('Additional image uploaded successfully');
-  }, []);
+  // Typing in the form claims it, or tells the others this editor is still at it
+  const markEditing = () => isEditingDetails
+    ? presence.reportActivity()
+    : presence.startEditing(DETAILS_SECTION, 'Product details')
+
+  // The gallery, variants and other field groups also change without a change event (dragging, remove buttons)
+  const edited = <T,>(setValue: (value: T) => void) => (value: T) => {
+    markEditing()
+    setValue(value)
+  }
   
-  const setMainImage = (newMainImage: string) => {
-    // If current main image exists, add it to additional images
-    if (image && image !== newMainImage) {
-      setAdditionalImages(prev => [...prev.filter(img => img !== newMainImage), image]);
-    }
-    
-    // Set new main image
-    setImage(newMainImage);
-    
-    // Remove from additional images
-    setAdditionalImages(prev => prev.filter(img => img !== newMainImage));
-    
-    toast.success('Main image updated');
-  };
+  const hasVariants = variants.length > 0
+  const variantSummary = summarizeVariants(
+    variants.map(variant => ({ price: Number(variant.price) || 0, stock: Number(variant.stock) || 0 }))
+  )
+  
+  const savedVariants = variants
+    .filter(variant => variant.id)
+    .map(variant => ({ id: variant.id as string, label: formatVariantLabel(fromVariantDraft(variant)), stock: Number(variant.stock) }))
+  const variantLabels = Object.fromEntries(savedVariants.map(variant => [variant.id, variant.label]))
+  const stockSeries = stockHistory
+    ? buildStockSeries(
+        stockHistory.movements,
+        historyVariantId ? Number(savedVariants.find(variant => variant.id === historyVariantId)?.stock ?? 0) : Number(stock || 0),
+        historyVariantId || null
+      )
+    : []
+  const ledgerDifferences = stockHistory?.reconciliation.filter(row => row.difference !== 0) ?? []
   
   if (authLoading || dataLoading) {
     return (
@@ -239,10 +492,15 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
 
   return (
     <div className="space-y-6">
+      {conflict && <EditConflictDialog conflict={conflict} onResolve={onResolve} />}
+      
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-        <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
-          Edit Product: {name}
-        </h1>
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+            Edit Product: {name}
+          </h1>
+          <PresenceAvatars members={presence.members} />
+        </div>
         <div className="flex gap-2">
           <button
             onClick={() => router.push('/dashboard/products')}
@@ -309,207 +567,112 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
       )}
       
       <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50">
+        {detailsLock && (
+          <div className="mb-6">
+            <SectionLockNotice
+              holder={detailsLock}
+              isEditing={isEditingDetails}
+              onTakeOver={() => presence.startEditing(DETAILS_SECTION, 'Product details')}
+            />
+          </div>
+        )}
+        
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium mb-1">Product Name</label>
-                <input
-                  type="text"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                  placeholder="Enter product name"
-                  required
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium mb-1">Description</label>
-                <textarea
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 min-h-[150px]"
-                  placeholder="Describe your product"
-                  required
-                />
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
+          <fieldset
+            disabled={isLocked}
+            onChange={markEditing}
+            className="space-y-6 min-w-0 disabled:opacity-60"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-6">
                 <div>
-                  <label className="block text-sm font-medium mb-1">Price (€)</label>
+                  <label className="block text-sm font-medium mb-1">Product Name</label>
                   <input
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={price}
-                    onChange={(e) => setPrice(e.target.value)}
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
                     className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                    placeholder="0.00"
+                    placeholder="Enter product name"
                     required
                   />
                 </div>
+              
+                <ProductDescriptionEditor value={description} disabled={isSubmitting || isLocked} onChange={edited(setDescription)} />
+              
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Price (€)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={hasVariants ? String(variantSummary.minPrice ?? '') : price}
+                      onChange={(e) => setPrice(e.target.value)}
+                      disabled={hasVariants}
+                      title={hasVariants ? 'Lowest variant price' : undefined}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-60"
+                      placeholder="0.00"
+                      required={!hasVariants}
+                    />
+                  </div>
                 
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Stock</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={hasVariants ? String(variantSummary.stock) : stock}
+                      onChange={(e) => setStock(e.target.value)}
+                      disabled={hasVariants}
+                      title={hasVariants ? 'Total stock of all variants' : undefined}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-60"
+                      placeholder="0"
+                      required={!hasVariants}
+                    />
+                  </div>
+                </div>
+                {hasVariants && (
+                  <p className="text-xs text-gray-400 -mt-4">Price and stock are set per variant below</p>
+                )}
+              
                 <div>
-                  <label className="block text-sm font-medium mb-1">Stock</label>
+                  <label className="block text-sm font-medium mb-1">Low-stock alert at</label>
                   <input
                     type="number"
                     min="0"
-                    value={stock}
-                    onChange={(e) => setStock(e.target.value)}
+                    value={lowStockThreshold}
+                    onChange={(e) => setLowStockThreshold(e.target.value)}
                     className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                    placeholder="0"
-                    required
+                    placeholder={`${DEFAULT_LOW_STOCK_THRESHOLD} (default)`}
                   />
+                  <p className="text-xs text-gray-400 mt-1">Notify when the stock{hasVariants ? ' of a variant' : ''} drops to this level</p>
                 </div>
-              </div>
               
-              <div>
-                <label className="flex items-center space-x-2 cursor-pointer select-none">
-                  <input
-                    type="checkbox"
-                    checked={isActive}
-                    onChange={(e) => setIsActive(e.target.checked)}
-                    className="w-4 h-4 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 text-blue-600 focus:ring-offset-gray-800"
-                  />
-                  <span>Active (visible in shop)</span>
-                </label>
+                <ProductPublishingFields value={publishing} disabled={isSubmitting || isLocked} onChange={edited(setPublishing)} />
               </div>
-            </div>
             
-            <div className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium mb-3">Main Product Image</label>
-                
-                {image ? (
-                  <div className="relative rounded-lg overflow-hidden border-2 border-gray-700 h-64 group bg-gray-900/50">
-                    <CldImage
-                      src={image}
-                      alt="Main product image"
-                      fill
-                      sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                      className="object-contain transition-transform duration-300 group-hover:scale-105 p-2"
-                    />
-                    <div className="absolute inset-0 bg-black bg-opacity-0 flex items-center justify-center group-hover:bg-opacity-50 transition-all duration-300">
-                      <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-2">
-                        <CldUploadWidget
-                          uploadPreset="product_images"
-                          onSuccess={(result: any) => {
-                            if (result.info) {
-                              handleImageUpload(result.info);
-                            }
-                          }}
-                        >
-                          {({ open }) => (
-                            <button 
-                              type="button" 
-                              onClick={() => open()}
-                              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-sm"
-                            >
-                              Replace
-                            </button>
-                          )}
-                        </CldUploadWidget>
-                        <button
-                          type="button"
-                          onClick={() => setImage('')}
-                          className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-white text-sm"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                ) : (
-                  <CldUploadWidget
-                    uploadPreset="product_images"
-                    onSuccess={(result: any) => {
-                      if (result.info) {
-                        handleImageUpload(result.info);
-                      }
-                    }}
-                  >
-                    {({ open }) => (
-                      <button 
-                        type="button" 
-                        onClick={() => open()}
-                        className="w-full h-64 border-2 border-dashed border-gray-600 rounded-lg flex flex-col items-center justify-center bg-gray-700/30 hover:bg-gray-700/50 transition-colors duration-200"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 text-gray-400 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                        </svg>
-                        <p className="text-gray-400 text-sm mb-1">Upload main product image</p>
-                        <p className="text-gray-500 text-xs">Click to browse</p>
-                      </button>
-                    )}
-                  </CldUploadWidget>
-                )}
-                
-                <div className="mt-4">
-                  <div className="flex justify-between items-center mb-3">
-                    <label className="block text-sm font-medium">Additional Images</label>
-                    
-                    <CldUploadWidget
-                      uploadPreset="product_images"
-                      onSuccess={(result: any) => {
-                        if (result.info) {
-                          handleAdditionalImageUpload(result.info);
-                        }
-                      }}
-                    >
-                      {({ open }) => (
-                        <button 
-                          type="button" 
-                          onClick={() => open()}
-                          className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white"
-                        >
-                          Add Image
-                        </button>
-                      )}
-                    </CldUploadWidget>
-                  </div>
-                  
-                  {additionalImages.length > 0 ? (
-                    <div className="grid grid-cols-3 gap-3">
-                      {additionalImages.map((img, index) => (
-                        <div key={index} className="relative group rounded-lg overflow-hidden border border-gray-700 h-24 bg-gray-900/50">
-                          <CldImage
-                            src={img}
-                            alt={`Additional image ${index + 1}`}
-                            fill
-                            sizes="(max-width: 768px) 33vw, 100px"
-                            className="object-contain transition-all duration-200 group-hover:opacity-80 p-1"
-                          />
-                          <div className="absolute inset-0 bg-black bg-opacity-0 flex items-center justify-center group-hover:bg-opacity-50 transition-all duration-300">
-                            <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-1">
-                              <button
-                                type="button"
-                                onClick={() => setMainImage(img)}
-                                className="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-white text-xs"
-                              >
-                                Set Main
-                              </button>
-                              <button
-                                type="button"
-                                onClick={() => removeImage(img)}
-                                className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-white text-xs"
-                              >
-                                Remove
-                              </button>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-center bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
-                      <p className="text-gray-500 text-sm">No additional images</p>
-                    </div>
-                  )}
-                </div>
+              <div className="space-y-6">
+                <ProductImageGallery images={images} disabled={isSubmitting || isLocked} onChange={edited(setImages)} />
+              
+                <ProductCatalogFields
+                  categories={catalog.categories}
+                  collections={catalog.collections}
+                  tagSuggestions={catalog.tags}
+                  categoryId={categoryId}
+                  tags={tags}
+                  collectionIds={collectionIds}
+                  disabled={isSubmitting || isLocked}
+                  onCategoryChange={edited(setCategoryId)}
+                  onTagsChange={edited(setTags)}
+                  onCollectionsChange={edited(setCollectionIds)}
+                />
               </div>
             </div>
-          </div>
+          
+            <div className="pt-6 border-t border-gray-700">
+              <ProductVariantEditor variants={variants} disabled={isSubmitting || isLocked} onChange={edited(setVariants)} />
+            </div>
+          </fieldset>
           
           <div className="flex justify-end gap-3 pt-6 border-t border-gray-700 mt-6">
             <button
@@ -521,7 +684,7 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || (!!detailsLock && !isEditingDetails)}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSubmitting ? (
@@ -537,6 +700,74 @@ export default function ProductEdit({ params }: { params: { id: string } }) {
           </div>
         </form>
       </div>
+      
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-5">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+          <h2 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+            Stock History
+          </h2>
+          {savedVariants.length > 0 && (
+            <select
+              value={historyVariantId}
+              onChange={(e) => setHistoryVariantId(e.target.value)}
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              <option value="">All variants</option>
+              {savedVariants.map(variant => (
+                <option key={variant.id} value={variant.id}>{variant.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        
+        {ledgerDifferences.length > 0 && (
+          <div className="bg-orange-500/10 border border-orange-500/30 p-3 rounded-lg text-orange-300 text-sm flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+            <span>
+              The ledger doesn&apos;t add up to the recorded stock
+              {ledgerDifferences.map(row => ` · ${row.variantId ? variantLabels[row.variantId] ?? 'Variant' : 'Product'}: ${row.difference > 0 ? '+' : ''}${row.difference}`).join('')}
+            </span>
+            <button
+              type="button"
+              onClick={reconcileStock}
+              disabled={isReconciling}
+              className="px-3 py-1 bg-orange-600 hover:bg-orange-700 rounded text-white text-xs transition-colors disabled:opacity-50"
+            >
+              {isReconciling ? 'Reconciling...' : 'Reconcile'}
+            </button>
+          </div>
+        )}
+        
+        <StockHistoryChart
+          points={stockSeries}
+          threshold={lowStockThreshold.trim() ? parseInt(lowStockThreshold) : DEFAULT_LOW_STOCK_THRESHOLD}
+        />
+        
+        <StockAdjustmentForm
+          variants={savedVariants}
+          currentStock={Number(stock || 0)}
+          isSubmitting={isAdjustingStock}
+          onSubmit={adjustStock}
+        />
+        
+        <StockMovementList
+          movements={[...(stockHistory?.movements ?? [])].reverse()}
+          variantLabels={variantLabels}
+        />
+      </div>
+      
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-5">
+        <h2 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+          Revision History
+        </h2>
+        
+        <ProductRevisionHistory
+          revisions={revisions}
+          categoryNames={Object.fromEntries(catalog.categories.map(category => [category.id, category.name]))}
+          isLoading={revisionsLoading}
+          restoringId={restoringRevisionId}
+          onRestore={restoreRevision}
+        />
+      </div>
     </div>
   )
 } 
\ No newline at end of file
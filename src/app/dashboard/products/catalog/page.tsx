@@ -0,0 +1,375 @@
+'use client'
+
+import React, { useState, useEffect, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '../../../../contexts/AuthContext'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { toast } from 'react-hot-toast'
+import type { Product } from '../../../../types/products'
+import type { CategoryDeleteResult, CategoryInput, ProductCategory, ProductCollection } from '../../../../types/catalog'
+import type { VatRateInput, VatRateRecord } from '../../../../types/pricing'
+import { API_ROUTES } from '../../../../constants/api'
+import { PRODUCT_TABLES } from '../../../../constants/products'
+import { CATALOG_VALIDATION } from '../../../../constants/catalog'
+import { apiRequest } from '../../../../utils/apiClient'
+import { useCatalog } from '../../../../hooks/useCatalog'
+import CategoryTreeEditor from '../../../../components/products/CategoryTreeEditor'
+import CollectionProductOrder from '../../../../components/products/CollectionProductOrder'
+import VatRateEditor from '../../../../components/products/VatRateEditor'
+
+type CatalogProduct = Pick<Product, 'id' | 'name' | 'is_active' | 'category_id'>
+
+export default function ProductCatalog() {
+  const { user, isAdmin, isLoading: authLoading } = useAuth()
+  const router = useRouter()
+  const supabase = createClientComponentClient()
+  const catalog = useCatalog(!!user)
+
+  const [products, setProducts] = useState<CatalogProduct[]>([])
+  const [vatRates, setVatRates] = useState<VatRateRecord[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Collection being curated, with its unsaved product order
+  const [selectedCollectionId, setSelectedCollectionId] = useState('')
+  const [productOrder, setProductOrder] = useState<string[]>([])
+  const [collectionName, setCollectionName] = useState('')
+  const [collectionDescription, setCollectionDescription] = useState('')
+
+  const selectedCollection = catalog.collections.find(collection => collection.id === selectedCollectionId) || null
+  const orderChanged = !!selectedCollection && JSON.stringify(selectedCollection.product_ids || []) !== JSON.stringify(productOrder)
+
+  useEffect(() => {
+    async function fetchProducts() {
+      const { data, error } = await supabase
+        .from(PRODUCT_TABLES.PRODUCTS)
+        .select('id, name, is_active, category_id')
+        .order('name')
+
+      if (error) {
+        console.error('Error fetching products:', error)
+        toast.error('Failed to load products')
+        return
+      }
+      setProducts(data || [])
+    }
+
+    if (user) {
+      fetchProducts()
+    }
+  }, [user, supabase])
+
+  useEffect(() => {
+    setProductOrder(selectedCollection?.product_ids || [])
+  }, [selectedCollection])
+
+  useEffect(() => {
+    if (user) {
+      fetchVatRates()
+    }
+  }, [user])
+
+  async function fetchVatRates() {
+    try {
+      const { vatRates } = await apiRequest<{ vatRates: VatRateRecord[] }>(API_ROUTES.VAT_RATES)
+      setVatRates(vatRates)
+    } catch (err: any) {
+      console.error('Error fetching VAT rates:', err)
+      toast.error('Failed to load VAT rates')
+    }
+  }
+
+  const productCounts: Record<string, number> = {}
+  products.forEach(product => {
+    if (product.category_id) productCounts[product.category_id] = (productCounts[product.category_id] || 0) + 1
+  })
+
+  // Runs a catalog change and reloads the catalog afterwards
+  async function save(action: () => Promise<void>, failureMessage: string) {
+    try {
+      setIsSaving(true)
+      await action()
+      await catalog.refetch()
+    } catch (err: any) {
+      console.error(`${failureMessage}:`, err)
+      toast.error(`${failureMessage}: ${err.message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const createCategory = (input: CategoryInput) => save(async () => {
+    await apiRequest(API_ROUTES.CATEGORIES, { method: 'POST', body: input })
+    toast.success(`Category ${input.name} added`)
+  }, 'Failed to add category')
+
+  const updateCategory = (category: ProductCategory, changes: Partial<CategoryInput>) => save(async () => {
+    await apiRequest(API_ROUTES.CATEGORY(category.id), { method: 'PATCH', body: changes })
+    toast.success(`Category ${changes.name ?? category.name} saved`)
+  }, 'Failed to save category')
+
+  const deleteCategory = (category: ProductCategory) => {
+    const count = productCounts[category.id] || 0
+    const parent = catalog.categories.find(candidate => candidate.id === category.parent_id)
+    const message = count > 0
+      ? `Delete ${category.name}? Its ${count} ${count === 1 ? 'product moves' : 'products move'} to ${parent ? parent.name : 'no category'}.`
+      : `Delete ${category.name}?`
+    if (!window.confirm(message)) return
+
+    return save(async () => {
+      const result = await apiRequest<CategoryDeleteResult>(API_ROUTES.CATEGORY(category.id), { method: 'DELETE' })
+      setProducts(current => current.map(product =>
+        product.category_id === category.id ? { ...product, category_id: result.parentId } : product
+      ))
+      toast.success(`Category ${category.name} deleted`)
+    }, 'Failed to delete category')
+  }
+
+  const saveVatRate = (input: VatRateInput) => save(async () => {
+    await apiRequest(API_ROUTES.VAT_RATES, { method: 'PUT', body: input })
+    await fetchVatRates()
+    toast.success(`VAT rate for ${input.country_code} saved`)
+  }, 'Failed to save VAT rate')
+
+  const deleteVatRate = (vatRate: VatRateRecord) => {
+    if (!window.confirm(`Delete this ${vatRate.country_code} VAT rate? Orders fall back to the country's standard rate.`)) return
+
+    return save(async () => {
+      await apiRequest(API_ROUTES.VAT_RATE(vatRate.id), { method: 'DELETE' })
+      setVatRates(current => current.filter(rate => rate.id !== vatRate.id))
+      toast.success('VAT rate deleted')
+    }, 'Failed to delete VAT rate')
+  }
+
+  const createCollection = (e: FormEvent) => {
+    e.preventDefault()
+    if (!collectionName.trim()) return
+
+    return save(async () => {
+      const { collection } = await apiRequest<{ collection: ProductCollection }>(API_ROUTES.COLLECTIONS, {
+        method: 'POST',
+        body: { name: collectionName, description: collectionDescription || null }
+      })
+      setCollectionName('')
+      setCollectionDescription('')
+      setSelectedCollectionId(collection.id)
+      toast.success(`Collection ${collection.name} created`)
+    }, 'Failed to create collection')
+  }
+
+  const renameCollection = (collection: ProductCollection) => {
+    const name = window.prompt('New name:', collection.name)
+    if (!name?.trim() || name.trim() === collection.name) return
+
+    return save(async () => {
+      await apiRequest(API_ROUTES.COLLECTION(collection.id), { method: 'PATCH', body: { name } })
+      toast.success('Collection renamed')
+    }, 'Failed to rename collection')
+  }
+
+  const deleteCollection = (collection: ProductCollection) => {
+    if (!window.confirm(`Delete the collection ${collection.name}? The products themselves stay.`)) return
+
+    return save(async () => {
+      await apiRequest(API_ROUTES.COLLECTION(collection.id), { method: 'DELETE' })
+      setSelectedCollectionId('')
+      toast.success(`Collection ${collection.name} deleted`)
+    }, 'Failed to delete collection')
+  }
+
+  const saveProductOrder = () => {
+    if (!selectedCollection) return
+
+    return save(async () => {
+      await apiRequest(API_ROUTES.COLLECTION_PRODUCTS(selectedCollection.id), {
+        method: 'PUT',
+        body: { productIds: productOrder }
+      })
+      toast.success('Collection saved')
+    }, 'Failed to save collection')
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[80vh]">
+        <div className="w-12 h-12 border-t-4 border-blue-500 border-solid rounded-full animate-spin mb-4"></div>
+        <p className="text-xl text-gray-300">Checking authentication...</p>
+      </div>
+    )
+  }
+
+  if (!user) {
+    router.push('/login')
+    return null
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+          Categories & Collections
+        </h1>
+        <button
+          onClick={() => router.push('/dashboard/products')}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md"
+        >
+          Back to Products
+        </button>
+      </div>
+
+      {catalog.error && (
+        <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg text-red-400">
+          {catalog.error.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Categories</h2>
+            <p className="text-sm text-gray-400">
+              Nest categories up to {CATALOG_VALIDATION.MAX_CATEGORY_DEPTH} levels below the top level. Revenue per category includes its subcategories.
+            </p>
+          </div>
+          <CategoryTreeEditor
+            categories={catalog.categories}
+            productCounts={productCounts}
+            disabled={isSaving || catalog.isLoading}
+            onCreate={createCategory}
+            onUpdate={updateCategory}
+            onDelete={deleteCategory}
+          />
+        </div>
+
+        <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Collections</h2>
+            <p className="text-sm text-gray-400">Curated selections, shown in the order you give them.</p>
+          </div>
+
+          <form onSubmit={createCollection} className="flex flex-wrap items-end gap-2">
+            <input
+              type="text"
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              maxLength={CATALOG_VALIDATION.NAME_MAX_LENGTH}
+              placeholder="Name, e.g. Gift ideas"
+              className="flex-1 min-w-[10rem] px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+            <input
+              type="text"
+              value={collectionDescription}
+              onChange={(e) => setCollectionDescription(e.target.value)}
+              maxLength={CATALOG_VALIDATION.DESCRIPTION_MAX_LENGTH}
+              placeholder="Description (optional)"
+              className="flex-1 min-w-[10rem] px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !collectionName.trim()}
+              className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Create Collection
+            </button>
+          </form>
+
+          {catalog.collections.length === 0 ? (
+            <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+              <p className="text-gray-400 text-sm">No collections yet</p>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {catalog.collections.map(collection => (
+                <button
+                  key={collection.id}
+                  onClick={() => {
+                    if (orderChanged && !window.confirm('Discard the unsaved order of this collection?')) return
+                    setSelectedCollectionId(collection.id)
+                  }}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    collection.id === selectedCollectionId
+                      ? 'bg-blue-600 border-blue-500 text-white'
+                      : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {collection.name}
+                  <span className="ml-1.5 text-xs opacity-70">{(collection.product_ids || []).length}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selectedCollection && (
+            <div className="pt-4 border-t border-gray-700 space-y-3">
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                  <h3 className="font-semibold">{selectedCollection.name}</h3>
+                  <p className="text-xs text-gray-500">/{selectedCollection.slug}</p>
+                  {selectedCollection.description && (
+                    <p className="text-sm text-gray-400 mt-1">{selectedCollection.description}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => renameCollection(selectedCollection)}
+                    disabled={isSaving}
+                    className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => deleteCollection(selectedCollection)}
+                    disabled={isSaving}
+                    className="text-xs px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-white disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <CollectionProductOrder
+                productIds={productOrder}
+                products={products}
+                disabled={isSaving}
+                onChange={setProductOrder}
+              />
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setProductOrder(selectedCollection.product_ids || [])}
+                  disabled={isSaving || !orderChanged}
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors disabled:opacity-50"
+                >
+                  Undo Changes
+                </button>
+                <button
+                  onClick={saveProductOrder}
+                  disabled={isSaving || !orderChanged}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : 'Save Order'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">VAT Rates</h2>
+          <p className="text-sm text-gray-400">
+            Prices include VAT. The rate of an order line depends on the customer&apos;s country and the product&apos;s category; a category rate also applies to its subcategories.
+          </p>
+        </div>
+        <VatRateEditor
+          rates={vatRates}
+          categories={catalog.categories}
+          canEdit={isAdmin}
+          disabled={isSaving}
+          onSave={saveVatRate}
+          onDelete={deleteVatRate}
+        />
+      </div>
+    </div>
+  )
+}
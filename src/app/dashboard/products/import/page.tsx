@@ -0,0 +1,278 @@
+'use client'
+
+import React, { useState, ChangeEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '../../../../contexts/AuthContext'
+import { toast } from 'react-hot-toast'
+import type {
+  ProductImportField,
+  ProductImportFile,
+  ProductImportMapping,
+  ProductImportPreview,
+  ProductImportReport
+} from '../../../../types/productImport'
+import { API_ROUTES } from '../../../../constants/api'
+import { PRODUCT_IMPORT_COLUMNS, PRODUCT_IMPORT_LIMITS } from '../../../../constants/productImport'
+import { apiRequest, saveFile } from '../../../../utils/apiClient'
+import { productsToCsv } from '../../../../utils/productImport'
+import ProductImportPreviewTable from '../../../../components/products/ProductImportPreviewTable'
+
+// XLSX files go to the server as base64; CSV as text
+async function readImportFile(file: File): Promise<ProductImportFile> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+    }
+    return { format: 'xlsx', filename: file.name, content: btoa(binary) }
+  }
+
+  return { format: 'csv', filename: file.name, content: await file.text() }
+}
+
+export default function ImportProducts() {
+  const { user, isLoading: authLoading } = useAuth()
+  const router = useRouter()
+
+  const [file, setFile] = useState<ProductImportFile | null>(null)
+  const [preview, setPreview] = useState<ProductImportPreview | null>(null)
+  const [report, setReport] = useState<ProductImportReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  async function runPreview(importFile: ProductImportFile, mapping?: ProductImportMapping) {
+    try {
+      setIsPreviewing(true)
+      setError(null)
+      setReport(null)
+
+      const { preview } = await apiRequest<{ preview: ProductImportPreview }>(API_ROUTES.PRODUCT_IMPORT, {
+        method: 'POST',
+        body: { ...importFile, mapping, dryRun: true }
+      })
+
+      setPreview(preview)
+      setErrorsOnly(preview.summary.error > 0)
+    } catch (err: any) {
+      console.error('Error previewing import:', err)
+      setPreview(null)
+      setError(err.message)
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  async function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    if (selected.size > PRODUCT_IMPORT_LIMITS.MAX_FILE_BYTES) {
+      toast.error(`The file is larger than ${PRODUCT_IMPORT_LIMITS.MAX_FILE_BYTES / 1024 / 1024} MB`)
+      return
+    }
+
+    const importFile = await readImportFile(selected)
+    setFile(importFile)
+    await runPreview(importFile)
+  }
+
+  function changeMapping(column: number, field: ProductImportField | null) {
+    if (!file || !preview) return
+
+    // A field can only come from one column
+    const mapping = preview.mapping.map((current, index) => {
+      if (index === column) return field
+      return current === field ? null : current
+    })
+    runPreview(file, mapping)
+  }
+
+  async function applyImport() {
+    if (!file || !preview) return
+
+    const { create, update } = preview.summary
+    if (!window.confirm(`Create ${create} and update ${update} ${create + update === 1 ? 'product' : 'products'}?`)) return
+
+    try {
+      setIsApplying(true)
+
+      const { report } = await apiRequest<{ report: ProductImportReport }>(API_ROUTES.PRODUCT_IMPORT, {
+        method: 'POST',
+        body: { ...file, mapping: preview.mapping, dryRun: false }
+      })
+
+      setReport(report)
+      if (report.status === 'applied') {
+        toast.success(`Imported: ${report.created} created, ${report.updated} updated`)
+        setPreview(null)
+        setFile(null)
+      } else {
+        toast.error(`Import failed at row ${report.failedRow}; the earlier rows were rolled back`)
+      }
+    } catch (err: any) {
+      console.error('Error applying import:', err)
+      toast.error('Failed to import products: ' + err.message)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  function downloadTemplate() {
+    saveFile(new Blob(['\uFEFF' + productsToCsv([])], { type: 'text/csv;charset=utf-8' }), 'products-template.csv')
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[80vh]">
+        <div className="w-12 h-12 border-t-4 border-blue-500 border-solid rounded-full animate-spin mb-4"></div>
+        <p className="text-xl text-gray-300">Checking authentication...</p>
+      </div>
+    )
+  }
+
+  if (!user) {
+    router.push('/login')
+    return null
+  }
+
+  const canApply = !!preview && preview.summary.error === 0 && preview.summary.create + preview.summary.update > 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+          Import Products
+        </h1>
+        <div className="flex gap-2">
+          <button
+            onClick={downloadTemplate}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md"
+          >
+            Download Template
+          </button>
+          <button
+            onClick={() => router.push('/dashboard/products')}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md"
+          >
+            Back to Products
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-3">
+        <label className="block text-sm font-medium">CSV or XLSX file</label>
+        <input
+          type="file"
+          accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={handleFileChange}
+          disabled={isPreviewing || isApplying}
+          className="block w-full text-sm text-gray-300 file:mr-4 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+        />
+        <p className="text-xs text-gray-400">
+          The first row holds the column headers. Rows are matched to products by ID, or else by name; other rows create new, inactive products.
+          Separate image IDs with |. Up to {PRODUCT_IMPORT_LIMITS.MAX_ROWS} rows.
+        </p>
+        {file && <p className="text-xs text-gray-500">{file.filename}</p>}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg text-red-400">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className={`p-4 rounded-lg border ${report.status === 'applied' ? 'bg-green-500/10 border-green-500/30 text-green-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+          {report.status === 'applied' ? (
+            <p>{report.created} {report.created === 1 ? 'product' : 'products'} created and {report.updated} updated.</p>
+          ) : (
+            <div className="space-y-2">
+              <p>Row {report.failedRow} failed: {report.error}</p>
+              <p className="text-sm">
+                {report.rollback.length === 0
+                  ? 'No earlier rows had been written.'
+                  : `The ${report.rollback.length} rows written before it were rolled back:`}
+              </p>
+              {report.rollback.length > 0 && (
+                <ul className="text-sm list-disc list-inside">
+                  {report.rollback.map(entry => (
+                    <li key={entry.rowNumber} className={entry.restored ? '' : 'text-red-400 font-medium'}>
+                      Row {entry.rowNumber} ({entry.action === 'create' ? 'removed again' : 'restored'})
+                      {!entry.restored && ` — could not be undone: ${entry.error}; check product ${entry.productId}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <>
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-4">
+            <h2 className="text-lg font-semibold">Columns</h2>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {preview.headers.map((header, column) => (
+                <div key={column}>
+                  <label className="block text-xs text-gray-400 mb-1">{header || `Column ${column + 1}`}</label>
+                  <select
+                    value={preview.mapping[column] ?? ''}
+                    onChange={(e) => changeMapping(column, (e.target.value || null) as ProductImportField | null)}
+                    disabled={isPreviewing || isApplying}
+                    className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                  >
+                    <option value="">— Skip —</option>
+                    {PRODUCT_IMPORT_COLUMNS.map(option => (
+                      <option key={option.field} value={option.field}>{option.header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg border border-gray-700/50 space-y-4">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+              <div>
+                <h2 className="text-lg font-semibold">Dry run</h2>
+                <p className="text-sm text-gray-400">
+                  {preview.summary.create} new · {preview.summary.update} to update · {preview.summary.unchanged} unchanged
+                  {preview.summary.error > 0 && <span className="text-red-400"> · {preview.summary.error} with errors</span>}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center space-x-2 text-sm cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={errorsOnly}
+                    onChange={(e) => setErrorsOnly(e.target.checked)}
+                    className="w-4 h-4 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 text-blue-600 focus:ring-offset-gray-800"
+                  />
+                  <span>Errors only</span>
+                </label>
+                <button
+                  onClick={applyImport}
+                  disabled={!canApply || isPreviewing || isApplying}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-md text-white text-sm transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isApplying ? 'Importing...' : 'Apply Import'}
+                </button>
+              </div>
+            </div>
+
+            {isPreviewing ? (
+              <p className="text-sm text-gray-400">Checking the file...</p>
+            ) : (
+              <ProductImportPreviewTable rows={preview.rows} errorsOnly={errorsOnly} />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
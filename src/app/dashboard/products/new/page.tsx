@@ -1,22 +1,26 @@
 'use client'
 
-import React, { useState, FormEvent, useCallback } from 'react'
+import React, { useState, FormEvent } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '../../../../contexts/AuthContext'
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
-import { CldImage, CldUploadWidget } from 'next-cloudinary'
-import { v4 as uuidv4 } from 'uuid'
 import { toast } from 'react-hot-toast'
-
-interface UploadResult {
-  public_id: string;
-  secure_url: string;
-}
+import type { ProductImageDraft, ProductPublishingDraft, ProductVariantDraft } from '../../../../types/products'
+import { API_ROUTES } from '../../../../constants/api'
+import { DEFAULT_LOW_STOCK_THRESHOLD } from '../../../../constants/inventory'
+import { apiRequest } from '../../../../utils/apiClient'
+import { fromVariantDraft, summarizeVariants } from '../../../../utils/productVariants'
+import { fromImageDrafts } from '../../../../utils/productImages'
+import { fromPublishingDraft, toPublishingDraft } from '../../../../utils/productPublishing'
+import { useCatalog } from '../../../../hooks/useCatalog'
+import ProductVariantEditor from '../../../../components/products/ProductVariantEditor'
+import ProductCatalogFields from '../../../../components/products/ProductCatalogFields'
+import ProductImageGallery from '../../../../components/products/ProductImageGallery'
+import ProductPublishingFields from '../../../../components/products/ProductPublishingFields'
+import ProductDescriptionEditor from '../../../../components/products/ProductDescriptionEditor'
 
 export default function NewProduct() {
   const { user, isLoading: authLoading } = useAuth()
   const router = useRouter()
-  const supabase = createClientComponentClient()
   
   const [error, setError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -26,9 +30,20 @@ export default function NewProduct() {
   const [description, setDescription] = useState('')
   const [price, setPrice] = useState('')
   const [stock, setStock] = useState('1')
-  const [isActive, setIsActive] = useState(true)
-  const [image, setImage] = useState('')
-  const [additionalImages, setAdditionalImages] = useState<string[]>([])
+  const [publishing, setPublishing] = useState<ProductPublishingDraft>(() => toPublishingDraft())
+  const [lowStockThreshold, setLowStockThreshold] = useState('')
+  const [images, setImages] = useState<ProductImageDraft[]>([])
+  const [variants, setVariants] = useState<ProductVariantDraft[]>([])
+  const [categoryId, setCategoryId] = useState<string | null>(null)
+  const [tags, setTags] = useState<string[]>([])
+  const [collectionIds, setCollectionIds] = useState<string[]>([])
+  
+  const catalog = useCatalog(!!user)
+  
+  const hasVariants = variants.length > 0
+  const variantSummary = summarizeVariants(
+    variants.map(variant => ({ price: Number(variant.price) || 0, stock: Number(variant.stock) || 0 }))
+  )
   
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
@@ -40,29 +55,33 @@ export default function NewProduct() {
       // Validate inputs
       if (!name.trim()) throw new Error('Product name is required')
       if (!description.trim()) throw new Error('Description is required')
-      if (!price || parseFloat(price) <= 0) throw new Error('Price must be greater than zero')
-      if (!stock || parseInt(stock) < 0) throw new Error('Stock cannot be negative')
-      if (!image.trim()) throw new Error('Main image is required')
+      if (!hasVariants) {
+        if (!price || parseFloat(price) <= 0) throw new Error('Price must be greater than zero')
+        if (!stock || parseInt(stock) < 0) throw new Error('Stock cannot be negative')
+      }
+      if (variants.some(variant => !variant.sku.trim())) throw new Error('Every variant needs a SKU')
+      if (images.length === 0) throw new Error('Main image is required')
+      if (images.some(img => !img.alt.trim())) throw new Error('Every image needs alt text')
+      if (publishing.status === 'scheduled' && !publishing.publishAt) throw new Error('Choose when the product goes live')
       
+      // With variants the server derives price and stock from them
       const newProduct = {
-        id: uuidv4(),
         name,
         description,
-        price: parseFloat(price),
-        stock: parseInt(stock),
-        is_active: isActive,
-        image,
-        cloudinary_id: image, // Using main image as cloudinary_id
-        images: [image, ...additionalImages.filter(img => img)],
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        ...(hasVariants ? {} : { price: parseFloat(price), stock: parseInt(stock) }),
+        ...fromPublishingDraft(publishing),
+        low_stock_threshold: lowStockThreshold.trim() ? parseInt(lowStockThreshold) : null,
+        ...fromImageDrafts(images),
+        category_id: categoryId,
+        tags,
+        collection_ids: collectionIds,
+        ...(hasVariants ? { variants: variants.map(fromVariantDraft) } : {})
       }
       
-      const { error: insertError } = await supabase
-        .from('products')
-        .insert([newProduct])
-      
-      if (insertError) throw insertError
+      await apiRequest(API_ROUTES.PRODUCTS, {
+        method: 'POST',
+        body: newProduct
+      })
       
       toast.success('Product created successfully')
       
@@ -76,38 +95,6 @@ export default function NewProduct() {
     }
   }
   
-  const removeImage = (imageToRemove: string) => {
-    setAdditionalImages(additionalImages.filter(img => img !== imageToRemove))
-    toast.success('Image removed')
-  }
-  
-  const handleImageUpload = useCallback((result: UploadResult) => {
-    const publicId = result.public_id;
-    setImage(publicId);
-    toast.success('Main image uploaded successfully');
-  }, []);
-  
-  const handleAdditionalImageUpload = useCallback((result: UploadResult) => {
-    const publicId = result.public_id;
-    setAdditionalImages(prev => [...prev, publicId]);
-    toast.success('Additional image uploaded successfully');
-  }, []);
-  
-  const setMainImage = (newMainImage: string) => {
-    // If current main image exists, add it to additional images
-    if (image && image !== newMainImage) {
-      setAdditionalImages(prev => [...prev.filter(img => img !== newMainImage), image]);
-    }
-    
-    // Set new main image
-    setImage(newMainImage);
-    
-    // Remove from additional images
-    setAdditionalImages(prev => prev.filter(img => img !== newMainImage));
-    
-    toast.success('Main image updated');
-  };
-  
   if (authLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[80vh]">
@@ -158,16 +145,7 @@ export default function NewProduct() {
                 />
               </div>
               
-              <div>
-                <label className="block text-sm font-medium mb-1">Description</label>
-                <textarea
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 min-h-[150px]"
-                  placeholder="Describe your product"
-                  required
-                />
-              </div>
+              <ProductDescriptionEditor value={description} disabled={isSubmitting} onChange={setDescription} />
               
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -176,11 +154,13 @@ export default function NewProduct() {
                     type="number"
                     min="0.01"
                     step="0.01"
-                    value={price}
+                    value={hasVariants ? String(variantSummary.minPrice ?? '') : price}
                     onChange={(e) => setPrice(e.target.value)}
-                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                    disabled={hasVariants}
+                    title={hasVariants ? 'Lowest variant price' : undefined}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-60"
                     placeholder="0.00"
-                    required
+                    required={!hasVariants}
                   />
                 </div>
                 
@@ -189,162 +169,58 @@ export default function NewProduct() {
                   <input
                     type="number"
                     min="0"
-                    value={stock}
+                    value={hasVariants ? String(variantSummary.stock) : stock}
                     onChange={(e) => setStock(e.target.value)}
-                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                    disabled={hasVariants}
+                    title={hasVariants ? 'Total stock of all variants' : undefined}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-60"
                     placeholder="1"
-                    required
+                    required={!hasVariants}
                   />
                 </div>
               </div>
+              {hasVariants && (
+                <p className="text-xs text-gray-400 -mt-4">Price and stock are set per variant below</p>
+              )}
               
               <div>
-                <label className="flex items-center space-x-2 cursor-pointer select-none">
-                  <input
-                    type="checkbox"
-                    checked={isActive}
-                    onChange={(e) => setIsActive(e.target.checked)}
-                    className="w-4 h-4 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 text-blue-600 focus:ring-offset-gray-800"
-                  />
-                  <span>Active (visible in shop)</span>
-                </label>
+                <label className="block text-sm font-medium mb-1">Low-stock alert at</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={lowStockThreshold}
+                  onChange={(e) => setLowStockThreshold(e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                  placeholder={`${DEFAULT_LOW_STOCK_THRESHOLD} (default)`}
+                />
+                <p className="text-xs text-gray-400 mt-1">Notify when the stock{hasVariants ? ' of a variant' : ''} drops to this level</p>
               </div>
+              
+              <ProductPublishingFields value={publishing} disabled={isSubmitting} onChange={setPublishing} />
             </div>
             
             <div className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium mb-3">Main Product Image</label>
-                
-                {image ? (
-                  <div className="relative rounded-lg overflow-hidden border-2 border-gray-700 h-64 group bg-gray-900/50">
-                    <CldImage
-                      src={image}
-                      alt="Main product image"
-                      fill
-                      sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                      className="object-contain transition-transform duration-300 group-hover:scale-105 p-2"
-                    />
-                    <div className="absolute inset-0 bg-black bg-opacity-0 flex items-center justify-center group-hover:bg-opacity-50 transition-all duration-300">
-                      <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-2">
-                        <CldUploadWidget
-                          uploadPreset="product_images"
-                          onSuccess={(result: any) => {
-                            if (result.info) {
-                              handleImageUpload(result.info);
-                            }
-                          }}
-                        >
-                          {({ open }) => (
-                            <button 
-                              type="button" 
-                              onClick={() => open()}
-                              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-sm"
-                            >
-                              Replace
-                            </button>
-                          )}
-                        </CldUploadWidget>
-                        <button
-                          type="button"
-                          onClick={() => setImage('')}
-                          className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-white text-sm"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                ) : (
-                  <CldUploadWidget
-                    uploadPreset="product_images"
-                    onSuccess={(result: any) => {
-                      if (result.info) {
-                        handleImageUpload(result.info);
-                      }
-                    }}
-                  >
-                    {({ open }) => (
-                      <button 
-                        type="button" 
-                        onClick={() => open()}
-                        className="w-full h-64 border-2 border-dashed border-gray-600 rounded-lg flex flex-col items-center justify-center bg-gray-700/30 hover:bg-gray-700/50 transition-colors duration-200"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 text-gray-400 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                        </svg>
-                        <p className="text-gray-400 text-sm mb-1">Upload main product image</p>
-                        <p className="text-gray-500 text-xs">Click to browse</p>
-                      </button>
-                    )}
-                  </CldUploadWidget>
-                )}
-                
-                <div className="mt-4">
-                  <div className="flex justify-between items-center mb-3">
-                    <label className="block text-sm font-medium">Additional Images</label>
-                    
-                    <CldUploadWidget
-                      uploadPreset="product_images"
-                      onSuccess={(result: any) => {
-                        if (result.info) {
-                          handleAdditionalImageUpload(result.info);
-                        }
-                      }}
-                    >
-                      {({ open }) => (
-                        <button 
-                          type="button" 
-                          onClick={() => open()}
-                          className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white"
-                        >
-                          Add Image
-                        </button>
-                      )}
-                    </CldUploadWidget>
-                  </div>
-                  
-                  {additionalImages.length > 0 ? (
-                    <div className="grid grid-cols-3 gap-3">
-                      {additionalImages.map((img, index) => (
-                        <div key={index} className="relative group rounded-lg overflow-hidden border border-gray-700 h-24 bg-gray-900/50">
-                          <CldImage
-                            src={img}
-                            alt={`Additional image ${index + 1}`}
-                            fill
-                            sizes="(max-width: 768px) 33vw, 100px"
-                            className="object-contain transition-all duration-200 group-hover:opacity-80 p-1"
-                          />
-                          <div className="absolute inset-0 bg-black bg-opacity-0 flex items-center justify-center group-hover:bg-opacity-50 transition-all duration-300">
-                            <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-1">
-                              <button
-                                type="button"
-                                onClick={() => setMainImage(img)}
-                                className="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-white text-xs"
-                              >
-                                Set Main
-                              </button>
-                              <button
-                                type="button"
-                                onClick={() => removeImage(img)}
-                                className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-white text-xs"
-                              >
-                                Remove
-                              </button>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-center bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
-                      <p className="text-gray-500 text-sm">No additional images</p>
-                    </div>
-                  )}
-                </div>
-              </div>
+              <ProductImageGallery images={images} disabled={isSubmitting} onChange={setImages} />
+              
+              <ProductCatalogFields
+                categories={catalog.categories}
+                collections={catalog.collections}
+                tagSuggestions={catalog.tags}
+                categoryId={categoryId}
+                tags={tags}
+                collectionIds={collectionIds}
+                disabled={isSubmitting}
+                onCategoryChange={setCategoryId}
+                onTagsChange={setTags}
+                onCollectionsChange={setCollectionIds}
+              />
             </div>
           </div>
           
+          <div className="pt-6 border-t border-gray-700">
+            <ProductVariantEditor variants={variants} disabled={isSubmitting} onChange={setVariants} />
+          </div>
+          
           <div className="flex justify-end gap-3 pt-6 border-t border-gray-700 mt-6">
             <button
               type="button"
@@ -6,21 +6,23 @@ import { useAuth } from '../../../contexts/AuthContext'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import { CldImage } from 'next-cloudinary'
 import { toast } from 'react-hot-toast'
-
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  stock: number
-  is_active: boolean
-  created_at: string
-  updated_at: string
-}
+import { format } from 'date-fns'
+import type { Product, ProductPublishingRun, ProductStatus, ProductVariantSummary } from '../../../types/products'
+import type { StockAdjustmentResult } from '../../../types/inventory'
+import { API_ROUTES } from '../../../constants/api'
+import { PRODUCT_STATUSES, PRODUCT_STATUS_LABELS } from '../../../constants/products'
+import { apiRequest, saveFile } from '../../../utils/apiClient'
+import { summarizeVariants } from '../../../utils/productVariants'
+import { productsToCsv, productsToXlsx } from '../../../utils/productImport'
+import { buildCategoryTree, flattenCategoryTree, getCategoryWithDescendants } from '../../../utils/catalog'
+import { getUpcomingReleases } from '../../../utils/productPublishing'
+import { markdownToText } from '../../../utils/markdown'
+import { formatMoney } from '../../../utils/currency'
+import { useCatalog } from '../../../hooks/useCatalog'
+import ProductReleaseCalendar from '../../../components/products/ProductReleaseCalendar'
 
 export default function ProductsPage() {
-  const { user, isLoading: authLoading } = useAuth()
+  const { user, isAdmin, isLoading: authLoading } = useAuth()
   const router = useRouter()
   const supabase = createClientComponentClient()
   
@@ -29,7 +31,15 @@ export default function ProductsPage() {
   const [error, setError] = useState<string | null>(null)
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [searchTerm, setSearchTerm] = useState<string>('')
+  const [categoryFilter, setCategoryFilter] = useState<string>('')
+  const [tagFilter, setTagFilter] = useState<string>('')
+  const [collectionFilter, setCollectionFilter] = useState<string>('')
   const [isUpdating, setIsUpdating] = useState<string | null>(null)
+  const [view, setView] = useState<'list' | 'calendar'>('list')
+  const [isRunningJob, setIsRunningJob] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  
+  const catalog = useCatalog(!!user)
   
   // Fetch products
   useEffect(() => {
@@ -40,20 +50,21 @@ export default function ProductsPage() {
         
         let query = supabase
           .from('products')
-          .select('*')
+          .select('*, variants:product_variants(id, sku, price, stock), collections:product_collection_items(collection_id)')
           .order('name')
         
         // Apply status filter
-        if (statusFilter === 'active') {
-          query = query.eq('is_active', true)
-        } else if (statusFilter === 'inactive') {
-          query = query.eq('is_active', false)
+        if (statusFilter !== 'all') {
+          query = query.eq('status', statusFilter)
         }
         
         const { data, error: fetchError } = await query
         
         if (fetchError) throw fetchError
-        setProducts(data || [])
+        setProducts((data || []).map(({ collections, ...product }) => ({
+          ...product,
+          collection_ids: (collections || []).map((item: { collection_id: string }) => item.collection_id)
+        })))
       } catch (err: any) {
         console.error('Error fetching products:', err)
         setError(err.message || 'Failed to load products')
@@ -65,25 +76,24 @@ export default function ProductsPage() {
     if (user) {
       fetchProducts()
     }
-  }, [user, supabase, statusFilter])
+  }, [user, supabase, statusFilter, reloadKey])
   
-  async function updateProductStatus(productId: string, isActive: boolean) {
+  // Publishing now or unpublishing drops any schedule the product had
+  async function updateProductStatus(productId: string, status: ProductStatus) {
     try {
       setIsUpdating(productId)
       
-      const { error } = await supabase
-        .from('products')
-        .update({ is_active: isActive, updated_at: new Date().toISOString() })
-        .eq('id', productId)
-      
-      if (error) throw error
+      const { product: updated } = await apiRequest<{ product: Product }>(API_ROUTES.PRODUCT(productId), {
+        method: 'PATCH',
+        body: { status, publish_at: null, unpublish_at: null }
+      })
       
       // Update local state
       setProducts(products.map(product => 
-        product.id === productId ? { ...product, is_active: isActive, updated_at: new Date().toISOString() } : product
+        product.id === productId ? { ...product, ...updated } : product
       ))
       
-      toast.success(`Product ${isActive ? 'activated' : 'deactivated'} successfully`)
+      toast.success(`Product ${status === 'live' ? 'published' : 'unpublished'} successfully`)
     } catch (err: any) {
       console.error('Error updating product status:', err)
       toast.error('Failed to update product status: ' + err.message)
@@ -92,41 +102,117 @@ export default function ProductsPage() {
     }
   }
   
-  async function updateProductStock(productId: string, stock: number) {
+  // Applies the scheduled changes that are due without waiting for the scheduler
+  async function runPublishingJob() {
     try {
-      setIsUpdating(productId)
+      setIsRunningJob(true)
+      
+      const { applied } = await apiRequest<ProductPublishingRun>(API_ROUTES.PRODUCT_PUBLISHING, { method: 'POST' })
       
-      const { error } = await supabase
-        .from('products')
-        .update({ stock, updated_at: new Date().toISOString() })
-        .eq('id', productId)
+      toast.success(applied.length > 0
+        ? `${applied.length} scheduled ${applied.length === 1 ? 'change' : 'changes'} applied`
+        : 'No scheduled changes were due')
+      if (applied.length > 0) setReloadKey(key => key + 1)
+    } catch (err: any) {
+      console.error('Error running publishing job:', err)
+      toast.error('Failed to run the publishing job: ' + err.message)
+    } finally {
+      setIsRunningJob(false)
+    }
+  }
+  
+  // Stock changes go through the inventory ledger, which needs a reason for every adjustment.
+  // Resolves to false when the stock was left unchanged.
+  async function updateProductStock(productId: string, stock: number): Promise<boolean> {
+    const current = products.find(product => product.id === productId)
+    if (!current || isNaN(stock) || stock === current.stock) return false
+    
+    const reason = window.prompt(`Reason for changing the stock from ${current.stock} to ${stock}:`, 'Stock count')
+    if (!reason?.trim()) return false
+    
+    try {
+      setIsUpdating(productId)
       
-      if (error) throw error
+      const { productStock } = await apiRequest<StockAdjustmentResult>(API_ROUTES.PRODUCT_STOCK(productId), {
+        method: 'POST',
+        body: { stock, reason }
+      })
       
       // Update local state
       setProducts(products.map(product => 
-        product.id === productId ? { ...product, stock, updated_at: new Date().toISOString() } : product
+        product.id === productId ? { ...product, stock: productStock } : product
       ))
       
       toast.success('Stock updated successfully')
+      return true
     } catch (err: any) {
       console.error('Error updating product stock:', err)
       toast.error('Failed to update product stock: ' + err.message)
+      return false
     } finally {
       setIsUpdating(null)
     }
   }
 
-  // Filtered products based on search term
+  // Exports the filtered list in the format the import reads back
+  function exportProducts(fileFormat: 'csv' | 'xlsx') {
+    const filename = `products-${format(new Date(), 'yyyyMMdd-HHmm')}.${fileFormat}`
+    
+    if (fileFormat === 'xlsx') {
+      saveFile(new Blob([productsToXlsx(filteredProducts)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), filename)
+    } else {
+      // With BOM, so Excel reads it as UTF-8
+      saveFile(new Blob(['\uFEFF' + productsToCsv(filteredProducts)], { type: 'text/csv;charset=utf-8' }), filename)
+    }
+  }
+  
+  // Aggregated stock and price range of products with variants
+  const variantSummaries = useMemo(() => {
+    const summaries: Record<string, ProductVariantSummary> = {}
+    products.forEach(product => {
+      summaries[product.id] = summarizeVariants(product.variants || [])
+    })
+    return summaries
+  }, [products])
+  
+  // Category options in taxonomy order, with their full path for the product cards
+  const categoryOptions = useMemo(() => flattenCategoryTree(buildCategoryTree(catalog.categories)), [catalog.categories])
+  const categoryPaths = useMemo(
+    () => Object.fromEntries(categoryOptions.map(category => [category.id, category.path])),
+    [categoryOptions]
+  )
+  
+  // Filtered products based on search term, category (including subcategories), tag and collection.
+  // A collection shows its products in the curated order.
   const filteredProducts = useMemo(() => {
-    if (!searchTerm.trim()) return products;
+    const searchLower = searchTerm.trim().toLowerCase();
+    const categoryIds = categoryFilter ? getCategoryWithDescendants(catalog.categories, categoryFilter) : null;
+    const collectionOrder = catalog.collections.find(collection => collection.id === collectionFilter)?.product_ids || [];
     
-    const searchLower = searchTerm.toLowerCase();
-    return products.filter(product => 
-      product.name.toLowerCase().includes(searchLower) || 
-      product.description.toLowerCase().includes(searchLower)
+    const matches = products.filter(product => 
+      (!searchLower ||
+        product.name.toLowerCase().includes(searchLower) || 
+        product.description.toLowerCase().includes(searchLower)) &&
+      (!categoryIds || (!!product.category_id && categoryIds.has(product.category_id))) &&
+      (!tagFilter || (product.tags || []).includes(tagFilter)) &&
+      (!collectionFilter || (product.collection_ids || []).includes(collectionFilter))
     );
-  }, [products, searchTerm]);
+    
+    return collectionFilter
+      ? matches.sort((a, b) => collectionOrder.indexOf(a.id) - collectionOrder.indexOf(b.id))
+      : matches;
+  }, [products, searchTerm, categoryFilter, tagFilter, collectionFilter, catalog.categories, catalog.collections]);
+  
+  const upcomingReleases = useMemo(() => getUpcomingReleases(filteredProducts, new Date()), [filteredProducts])
+  
+  const hasFilters = !!(searchTerm || categoryFilter || tagFilter || collectionFilter)
+  
+  function clearFilters() {
+    setSearchTerm('')
+    setCategoryFilter('')
+    setTagFilter('')
+    setCollectionFilter('')
+  }
   
   if (authLoading) {
     return (
@@ -148,13 +234,39 @@ export default function ProductsPage() {
         <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
           Products Management
         </h1>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           <button
             onClick={() => router.push('/dashboard/products/new')}
             className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
           >
             Add New Product
           </button>
+          <button
+            onClick={() => router.push('/dashboard/products/catalog')}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
+          >
+            Categories & Collections
+          </button>
+          <button
+            onClick={() => router.push('/dashboard/products/import')}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => exportProducts('csv')}
+            disabled={filteredProducts.length === 0}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportProducts('xlsx')}
+            disabled={filteredProducts.length === 0}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200 disabled:opacity-50"
+          >
+            Export XLSX
+          </button>
           <button
             onClick={() => router.push('/dashboard')}
             className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white text-sm transition-colors shadow-md hover:shadow-lg hover:-translate-y-0.5 transform duration-200"
@@ -170,7 +282,7 @@ export default function ProductsPage() {
         </div>
       )}
       
-      <div className="grid sm:grid-cols-[1fr_auto] gap-4 bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 shadow-md">
+      <div className="grid sm:grid-cols-2 lg:grid-cols-[1fr_auto_auto_auto_auto] gap-4 bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 shadow-md">
         <div className="relative">
           <input
             type="text"
@@ -197,17 +309,89 @@ export default function ProductsPage() {
             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
           >
             <option value="all">All Products</option>
-            <option value="active">Active Only</option>
-            <option value="inactive">Inactive Only</option>
+            {PRODUCT_STATUSES.map(status => (
+              <option key={status} value={status}>{PRODUCT_STATUS_LABELS[status]} Only</option>
+            ))}
+          </select>
+        </div>
+        
+        <div className="w-full sm:w-auto">
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="">All Categories</option>
+            {categoryOptions.map(category => (
+              <option key={category.id} value={category.id}>
+                {'\u00A0\u00A0\u00A0'.repeat(category.depth)}{category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        
+        <div className="w-full sm:w-auto">
+          <select
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="">All Tags</option>
+            {catalog.tags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+        </div>
+        
+        <div className="w-full sm:w-auto">
+          <select
+            value={collectionFilter}
+            onChange={(e) => setCollectionFilter(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="">All Collections</option>
+            {catalog.collections.map(collection => (
+              <option key={collection.id} value={collection.id}>{collection.name}</option>
+            ))}
           </select>
         </div>
       </div>
       
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex gap-1 bg-gray-800/50 p-1 rounded-lg border border-gray-700/50">
+          {(['list', 'calendar'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded text-sm transition-colors ${
+                view === option ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option === 'list' ? 'List' : `Calendar (${upcomingReleases.length})`}
+            </button>
+          ))}
+        </div>
+        {isAdmin && (
+          <button
+            onClick={runPublishingJob}
+            disabled={isRunningJob}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors disabled:opacity-50"
+          >
+            {isRunningJob ? 'Running...' : 'Run Publishing Job'}
+          </button>
+        )}
+      </div>
+      
       {dataLoading ? (
         <div className="flex items-center justify-center py-12">
           <div className="w-12 h-12 border-4 border-t-blue-500 border-gray-700 rounded-full animate-spin mb-4"></div>
           <p className="ml-3 text-xl text-gray-300">Loading products...</p>
         </div>
+      ) : view === 'calendar' ? (
+        <ProductReleaseCalendar
+          events={upcomingReleases}
+          onSelectProduct={(productId) => router.push(`/dashboard/products/${productId}`)}
+        />
       ) : filteredProducts.length === 0 ? (
         <div className="bg-gray-800/80 p-8 rounded-xl shadow-lg text-center border border-gray-700/50">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-gray-600 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -215,103 +399,148 @@ export default function ProductsPage() {
           </svg>
           <h3 className="text-xl font-medium text-gray-300 mb-2">No products found</h3>
           <p className="text-gray-400">
-            {searchTerm ? 'Try adjusting your search or filter criteria.' : 'Add some products to get started.'}
+            {hasFilters ? 'Try adjusting your search or filter criteria.' : 'Add some products to get started.'}
           </p>
-          {searchTerm && (
+          {hasFilters && (
             <button 
-              onClick={() => setSearchTerm('')}
+              onClick={clearFilters}
               className="mt-4 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors"
             >
-              Clear Search
+              Clear Filters
             </button>
           )}
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredProducts.map(product => (
-            <div key={product.id} className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg flex flex-col border border-gray-700/50 hover:border-gray-500/50 transition-all duration-300 group">
-              <div className="relative mb-4 pt-[100%] bg-gray-900/50 rounded overflow-hidden group-hover:shadow-lg transition-all duration-300">
-                {product.image ? (
-                  <CldImage
-                    src={product.image}
-                    alt={product.name}
-                    fill
-                    sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                    className="absolute top-0 left-0 w-full h-full object-contain rounded p-2 transition-transform duration-300 group-hover:scale-105"
-                  />
-                ) : (
-                  <div className="absolute top-0 left-0 w-full h-full bg-gray-700 flex items-center justify-center rounded">
-                    <span className="text-gray-400">No image</span>
-                  </div>
-                )}
-                
-                <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs ${
-                  product.is_active 
-                    ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
-                    : 'bg-red-500/20 text-red-400 border border-red-500/30'
-                }`}>
-                  {product.is_active ? 'Active' : 'Inactive'}
-                </div>
-              </div>
-              
-              <h2 className="text-xl font-bold mb-2 text-gray-100 group-hover:text-white transition-colors duration-200">
-                {product.name}
-              </h2>
-              
-              <p className="text-gray-400 text-sm mb-3 line-clamp-2 flex-grow">{product.description}</p>
-              
-              <div className="border-t border-gray-700 pt-3 mt-auto">
-                <div className="flex justify-between items-center mb-3">
-                  <p className="font-bold text-lg bg-clip-text text-transparent bg-gradient-to-r from-amber-500 to-orange-600">
-                    €{Number(product.price).toFixed(2)}
-                  </p>
-                  
-                  <div className="flex items-center">
-                    <span className="text-sm text-gray-400 mr-2">Stock:</span>
-                    <input
-                      type="number"
-                      min="0"
-                      value={product.stock}
-                      onChange={(e) => updateProductStock(product.id, parseInt(e.target.value))}
-                      className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-center text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                      disabled={isUpdating === product.id}
+          {filteredProducts.map(product => {
+            const summary = variantSummaries[product.id]
+            
+            return (
+              <div key={product.id} className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-xl shadow-lg flex flex-col border border-gray-700/50 hover:border-gray-500/50 transition-all duration-300 group">
+                <div className="relative mb-4 pt-[100%] bg-gray-900/50 rounded overflow-hidden group-hover:shadow-lg transition-all duration-300">
+                  {product.image ? (
+                    <CldImage
+                      src={product.image}
+                      alt={product.image_meta?.[product.image]?.alt || product.name}
+                      fill
+                      sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+                      className="absolute top-0 left-0 w-full h-full object-contain rounded p-2 transition-transform duration-300 group-hover:scale-105"
                     />
+                  ) : (
+                    <div className="absolute top-0 left-0 w-full h-full bg-gray-700 flex items-center justify-center rounded">
+                      <span className="text-gray-400">No image</span>
+                    </div>
+                  )}
+                  
+                  <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs ${
+                    product.status === 'live'
+                      ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
+                      : product.status === 'scheduled'
+                        ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                  }`}>
+                    {PRODUCT_STATUS_LABELS[product.status] || product.status}
+                    {product.status === 'scheduled' && product.publish_at && ` \u00B7 ${format(new Date(product.publish_at), 'd MMM HH:mm')}`}
                   </div>
                 </div>
                 
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => router.push(`/dashboard/products/${product.id}`)}
-                    className="flex-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors hover:shadow-md"
-                    disabled={isUpdating === product.id}
-                  >
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => updateProductStatus(product.id, !product.is_active)}
-                    className={`flex-1 px-3 py-2 rounded text-white text-sm transition-colors hover:shadow-md ${
-                      product.is_active 
-                        ? 'bg-red-600 hover:bg-red-700' 
-                        : 'bg-green-600 hover:bg-green-700'
-                    }`}
-                    disabled={isUpdating === product.id}
-                  >
-                    {isUpdating === product.id ? (
-                      <span className="flex items-center justify-center">
-                        <svg className="animate-spin h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Updating...
-                      </span>
+                <h2 className="text-xl font-bold mb-2 text-gray-100 group-hover:text-white transition-colors duration-200">
+                  {product.name}
+                </h2>
+                
+                {(product.category_id || (product.tags || []).length > 0) && (
+                  <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                    {product.category_id && categoryPaths[product.category_id] && (
+                      <button
+                        onClick={() => setCategoryFilter(product.category_id as string)}
+                        className="text-xs text-gray-300 hover:text-white"
+                      >
+                        {categoryPaths[product.category_id]}
+                      </button>
+                    )}
+                    {(product.tags || []).map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => setTagFilter(tag)}
+                        className="px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300 border border-blue-500/30 text-xs hover:bg-blue-500/30"
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                
+                <p className="text-gray-400 text-sm mb-3 line-clamp-2 flex-grow">{markdownToText(product.description)}</p>
+                
+                <div className="border-t border-gray-700 pt-3 mt-auto">
+                  <div className="flex justify-between items-center mb-3">
+                    <p className="font-bold text-lg bg-clip-text text-transparent bg-gradient-to-r from-amber-500 to-orange-600">
+                      {summary.count > 0 && summary.minPrice !== summary.maxPrice ? 'from ' : ''}
+                      {formatMoney(summary.minPrice ?? product.price)}
+                    </p>
+                    
+                    {summary.count > 0 ? (
+                      <div className="text-right">
+                        <span className="text-sm text-gray-400 mr-2">Stock:</span>
+                        <span className="text-sm font-medium">{summary.stock}</span>
+                        <p className="text-xs text-gray-500">across {summary.count} {summary.count === 1 ? 'variant' : 'variants'}</p>
+                      </div>
                     ) : (
-                      product.is_active ? 'Deactivate' : 'Activate'
+                      <div className="flex items-center">
+                        <span className="text-sm text-gray-400 mr-2">Stock:</span>
+                        <input
+                          type="number"
+                          min="0"
+                          key={product.stock}
+                          defaultValue={product.stock}
+                          onBlur={async (e) => {
+                            const input = e.currentTarget
+                            if (!(await updateProductStock(product.id, parseInt(input.value)))) {
+                              input.value = String(product.stock)
+                            }
+                          }}
+                          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                          className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-center text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                          disabled={isUpdating === product.id}
+                        />
+                      </div>
                     )}
-                  </button>
+                  </div>
+                  
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => router.push(`/dashboard/products/${product.id}`)}
+                      className="flex-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors hover:shadow-md"
+                      disabled={isUpdating === product.id}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => updateProductStatus(product.id, product.status === 'live' ? 'draft' : 'live')}
+                      className={`flex-1 px-3 py-2 rounded text-white text-sm transition-colors hover:shadow-md ${
+                        product.status === 'live'
+                          ? 'bg-red-600 hover:bg-red-700' 
+                          : 'bg-green-600 hover:bg-green-700'
+                      }`}
+                      disabled={isUpdating === product.id}
+                    >
+                      {isUpdating === product.id ? (
+                        <span className="flex items-center justify-center">
+                          <svg className="animate-spin h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Updating...
+                        </span>
+                      ) : (
+                        product.status === 'live' ? 'Unpublish' : 'Publish Now'
+                      )}
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import type { ContentRevision } from '../../types/content'
+import type { AuditAction } from '../../types/audit'
+import { diffWords } from '../../utils/revisions'
+
+interface ContentRevisionHistoryProps {
+  /** Gepubliceerde versies van de sectie, nieuwste eerst; de eerste is live */
+  revisions: ContentRevision[]
+
+  /** Of de versies nog geladen worden */
+  isLoading?: boolean
+
+  /** ID van de versie die wordt teruggezet */
+  restoringId?: string | null
+
+  /** Zet een eerdere versie live als nieuwe versie; zonder deze functie (geen beheerder) is terugzetten niet mogelijk */
+  onRestore?: (revision: ContentRevision) => void
+}
+
+const ACTION_LABELS: Partial<Record<AuditAction, string>> = {
+  'content_section.published': 'Published',
+  'content_section.restored': 'Restored',
+}
+
+const DIFF_CLASSES = {
+  same: 'text-gray-300',
+  added: 'bg-green-500/20 text-green-200',
+  removed: 'bg-red-500/20 text-red-200 line-through',
+}
+
+const formatTime = (timestamp: string) => format(new Date(timestamp), 'MMM dd, yyyy HH:mm')
+
+/**
+ * Versiegeschiedenis van een sectie: per versie de auteur en de woorden die ten opzichte van de vorige versie veranderden
+ */
+export default function ContentRevisionHistory({
+  revisions,
+  isLoading = false,
+  restoringId = null,
+  onRestore,
+}: ContentRevisionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  // Standaard de live versie tegenover de vorige
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId))
+  const selected = revisions[selectedIndex] || null
+  const previous = revisions[selectedIndex + 1] || null
+
+  const parts = useMemo(
+    () => (selected && previous ? diffWords(previous.snapshot.content, selected.snapshot.content) : []),
+    [selected, previous]
+  )
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Loading versions...</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-400">No versions yet. Every publish from now on is kept here.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="divide-y divide-gray-700/50 border border-gray-700/50 rounded-lg">
+        {revisions.map((revision, index) => (
+          <li
+            key={revision.id}
+            className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2 text-sm ${selected?.id === revision.id ? 'bg-gray-700/40' : ''}`}
+          >
+            <button type="button" onClick={() => setSelectedId(revision.id)} className="min-w-0 text-left">
+              <p className="text-gray-200">
+                <span className="font-medium">{ACTION_LABELS[revision.action] || revision.action}</span>
+                {typeof revision.snapshot.version === 'number' && ` v${revision.snapshot.version}`}
+                {' · written by '}{revision.snapshot.author || 'unknown'}
+                {index === 0 && <span className="ml-2 px-1.5 rounded-full bg-green-600 text-[10px] text-white">Live</span>}
+              </p>
+              <p className="text-xs text-gray-400 truncate">
+                {formatTime(revision.createdAt)}
+                {revision.actorEmail && revision.actorEmail !== revision.snapshot.author && ` · published by ${revision.actorEmail}`}
+                {revision.restoredFrom && ` · restored ${formatTime(revisions.find(r => r.id === revision.restoredFrom)?.createdAt || revision.createdAt)}`}
+              </p>
+            </button>
+            {index > 0 && onRestore && (
+              <button
+                type="button"
+                onClick={() => onRestore(revision)}
+                disabled={!!restoringId}
+                className="px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs disabled:opacity-50 shrink-0"
+              >
+                {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {selected && (
+        <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
+          <p className="text-xs text-gray-400 mb-2">
+            {previous ? `Changes since ${formatTime(previous.createdAt)}` : 'The oldest version kept'}
+          </p>
+          <p className="whitespace-pre-wrap break-words text-sm">
+            {previous
+              ? parts.map((part, index) => <span key={index} className={DIFF_CLASSES[part.type]}>{part.text}</span>)
+              : <span className={DIFF_CLASSES.same}>{selected.snapshot.content}</span>}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
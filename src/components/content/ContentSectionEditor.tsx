@@ -0,0 +1,237 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import type { ContentDraft, ContentSection, SectionFieldConfig } from '../../types/content'
+import type { PresenceMember } from '../../types/presence'
+import { CONTENT_DRAFT_BADGE_CLASSES, CONTENT_DRAFT_STATUS_LABELS } from '../../constants/content'
+import SectionLockNotice from '../ui/SectionLockNotice'
+
+interface ContentSectionEditorProps {
+  /** De live sectie */
+  section: ContentSection
+
+  /** Het concept van de sectie, als er een is */
+  draft: ContentDraft | null
+
+  /** Hoe het veld van het style_type van de sectie eruitziet */
+  field: SectionFieldConfig
+
+  /** Of de gebruiker concepten mag goedkeuren en publiceren (admins) */
+  canPublish?: boolean
+
+  /** Of er een wijziging wordt opgeslagen */
+  disabled?: boolean
+
+  /** Of de versiegeschiedenis van de sectie open staat */
+  historyOpen?: boolean
+
+  /** Wie de sectie op dit moment bewerkt, als dat iemand anders is */
+  lock?: PresenceMember | null
+
+  /** Slaat de inhoud op als concept; geeft true terug als dat gelukt is */
+  onSaveDraft: (content: string) => Promise<boolean>
+  onDiscard: () => void
+  onSubmit: () => void
+  onPublish: () => void
+  onReject: (note: string) => Promise<boolean>
+  onToggleHistory: () => void
+
+  /** Het bewerken begint (of wordt overgenomen) of stopt */
+  onEditingChange?: (editing: boolean) => void
+
+  /** Er wordt getypt in het invoerveld */
+  onActivity?: () => void
+}
+
+/**
+ * Eén sectie van een contentpagina: de live inhoud, het concept met zijn reviewstatus en een invoerveld dat past bij het style_type
+ */
+export default function ContentSectionEditor({
+  section,
+  draft,
+  field,
+  canPublish = false,
+  disabled = false,
+  historyOpen = false,
+  lock = null,
+  onSaveDraft,
+  onDiscard,
+  onSubmit,
+  onPublish,
+  onReject,
+  onToggleHistory,
+  onEditingChange,
+  onActivity,
+}: ContentSectionEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [value, setValue] = useState(section.content)
+  const [rejectNote, setRejectNote] = useState<string | null>(null)
+
+  const setEditing = (editing: boolean) => {
+    setIsEditing(editing)
+    onEditingChange?.(editing)
+  }
+
+  const startEditing = () => {
+    setValue(draft ? draft.content : section.content)
+    setEditing(true)
+  }
+
+  const save = async () => {
+    if (await onSaveDraft(value)) {
+      setEditing(false)
+    }
+  }
+
+  const change = (content: string) => {
+    setValue(content)
+    onActivity?.()
+  }
+
+  const reject = async () => {
+    if (await onReject(rejectNote || '')) {
+      setRejectNote(null)
+    }
+  }
+
+  const renderContent = (content: string) => field.input === 'email' ? (
+    <a href={`mailto:${content}`} className="text-blue-400 hover:text-blue-300">
+      {content}
+    </a>
+  ) : (
+    <p className="text-gray-300 whitespace-pre-wrap break-words">{content}</p>
+  )
+
+  return (
+    <div className="container-card p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-200">
+            {field.label || section.section_key.replace(/_/g, ' ').toUpperCase()}
+          </h2>
+          <p className="text-sm text-gray-400">Type: {section.style_type}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {draft && (
+            <span className={`px-2 py-1 text-xs rounded ${CONTENT_DRAFT_BADGE_CLASSES[draft.status]}`}>
+              {CONTENT_DRAFT_STATUS_LABELS[draft.status]}
+            </span>
+          )}
+          {typeof section.version === 'number' && (
+            <span className="px-2 py-1 text-xs rounded bg-gray-700 text-gray-300">
+              v{section.version}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {lock && (
+        <div className="mb-4">
+          {/* Taking back a section that was taken over keeps what was typed so far */}
+          <SectionLockNotice holder={lock} isEditing={isEditing} onTakeOver={isEditing ? () => onEditingChange?.(true) : startEditing} />
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-4">
+          {field.input === 'textarea' ? (
+            <textarea
+              className="form-input h-32"
+              value={value}
+              onChange={(e) => change(e.target.value)}
+              placeholder={field.placeholder}
+            />
+          ) : (
+            <input
+              type={field.input === 'email' ? 'email' : 'text'}
+              className="form-input"
+              value={value}
+              onChange={(e) => change(e.target.value)}
+              placeholder={field.placeholder || `Enter ${section.style_type.replace(/_/g, ' ')}...`}
+            />
+          )}
+          <p className="text-xs text-gray-500">Saved as a draft; it goes live once an admin publishes it.</p>
+          <div className="flex gap-2">
+            <button className="btn-primary" onClick={save} disabled={disabled}>
+              Save Draft
+            </button>
+            <button className="btn-secondary" onClick={() => setEditing(false)} disabled={disabled}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            {draft && <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Live</p>}
+            {renderContent(section.content)}
+          </div>
+
+          {draft && (
+            <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50 space-y-2">
+              <p className="text-xs text-gray-500">
+                {draft.status === 'in_review' && draft.submitted_at
+                  ? `Submitted by ${draft.submitted_by || 'unknown'} on ${format(new Date(draft.submitted_at), 'MMM dd, yyyy HH:mm')}`
+                  : `Draft by ${draft.updated_by || draft.created_by || 'unknown'}, ${format(new Date(draft.updated_at), 'MMM dd, yyyy HH:mm')}`}
+              </p>
+              {renderContent(draft.content)}
+              {draft.review_note && draft.status === 'draft' && (
+                <p className="text-sm text-amber-400">Sent back: {draft.review_note}</p>
+              )}
+            </div>
+          )}
+
+          {rejectNote !== null && (
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                className="form-input flex-1 min-w-[12rem]"
+                value={rejectNote}
+                onChange={(e) => setRejectNote(e.target.value)}
+                placeholder="What should change? (optional)"
+              />
+              <button className="btn-primary" onClick={reject} disabled={disabled}>
+                Send Back
+              </button>
+              <button className="btn-secondary" onClick={() => setRejectNote(null)} disabled={disabled}>
+                Cancel
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button className="btn-secondary" onClick={startEditing} disabled={disabled || !!lock}>
+              {draft ? 'Edit Draft' : 'Edit'}
+            </button>
+            {draft?.status === 'draft' && (
+              <button className="btn-primary" onClick={onSubmit} disabled={disabled}>
+                Submit for Review
+              </button>
+            )}
+            {draft?.status === 'in_review' && canPublish && rejectNote === null && (
+              <>
+                <button className="btn-primary" onClick={onPublish} disabled={disabled}>
+                  Approve & Publish
+                </button>
+                <button className="btn-secondary" onClick={() => setRejectNote('')} disabled={disabled}>
+                  Reject
+                </button>
+              </>
+            )}
+            {draft && (
+              <button
+                className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded text-white text-sm transition-colors disabled:opacity-50"
+                onClick={onDiscard}
+                disabled={disabled}
+              >
+                Discard Draft
+              </button>
+            )}
+            <button className="btn-secondary ml-auto" onClick={onToggleHistory}>
+              {historyOpen ? 'Hide History' : 'History'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
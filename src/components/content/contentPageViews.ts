@@ -0,0 +1,20 @@
+import type { ComponentType } from 'react'
+import { DocumentTextIcon, HeartIcon, PaintBrushIcon, BeakerIcon } from '@heroicons/react/24/outline'
+import type { ContentPageSlug, ContentSection } from '../../types/content'
+import { AboutSectionPreview } from '../preview/AboutSectionPreview'
+import { CharitySectionPreview } from '../preview/CharitySectionPreview'
+import { ArtHeroSectionPreview } from '../preview/ArtHeroSectionPreview'
+import { WhiskySectionPreview } from '../preview/WhiskySectionPreview'
+
+// Weergave van een pagina uit CONTENT_PAGES: het icoon in het overzicht en de live preview
+export interface ContentPageView {
+  icon: typeof DocumentTextIcon
+  Preview: ComponentType<{ sections: ContentSection[] }>
+}
+
+export const CONTENT_PAGE_VIEWS: Record<ContentPageSlug, ContentPageView> = {
+  aboutpage: { icon: DocumentTextIcon, Preview: AboutSectionPreview },
+  charitypage: { icon: HeartIcon, Preview: CharitySectionPreview },
+  artpage: { icon: PaintBrushIcon, Preview: ArtHeroSectionPreview },
+  whiskypage: { icon: BeakerIcon, Preview: WhiskySectionPreview },
+}
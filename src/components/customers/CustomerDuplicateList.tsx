@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import type { CustomerDuplicateGroup, CustomerProfile } from '../../types/customers'
+import { CUSTOMER_DUPLICATE_REASON_LABELS } from '../../constants/customers'
+import { getDuplicateGroupKey } from '../../utils/customers'
+
+interface CustomerDuplicateListProps {
+  /** Groepen profielen die waarschijnlijk bij dezelfde persoon horen */
+  groups: CustomerDuplicateGroup[]
+
+  /** Of de gebruiker profielen mag samenvoegen (alleen admins) */
+  canMerge?: boolean
+
+  /** Sleutel van de groep die op dit moment wordt samengevoegd */
+  busyKey?: string | null
+
+  /** Verplaatst de orders van de overige profielen naar het gekozen e-mailadres */
+  onMerge?: (group: CustomerDuplicateGroup, targetEmail: string, sourceEmails: string[]) => void
+}
+
+// Het profiel met de meeste orders is de logische bestemming
+const defaultTarget = (customers: CustomerProfile[]) =>
+  [...customers].sort((a, b) => b.orderCount - a.orderCount || b.lastOrderAt.localeCompare(a.lastOrderAt))[0].email
+
+/**
+ * Mogelijke dubbele klanten met een samenvoegactie per groep
+ */
+export default function CustomerDuplicateList({
+  groups,
+  canMerge = false,
+  busyKey = null,
+  onMerge,
+}: CustomerDuplicateListProps) {
+  const [targets, setTargets] = useState<Record<string, string>>({})
+
+  if (groups.length === 0) {
+    return (
+      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+        <p className="text-gray-400 text-sm">No possible duplicates found</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map(group => {
+        const key = getDuplicateGroupKey(group)
+        const target = targets[key] ?? defaultTarget(group.customers)
+
+        return (
+          <div key={key} className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
+            <div className="flex justify-between items-center mb-3">
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-500/20 text-amber-400 border border-amber-500/30">
+                {CUSTOMER_DUPLICATE_REASON_LABELS[group.reason]}
+              </span>
+              {canMerge && onMerge && (
+                <button
+                  onClick={() => onMerge(group, target, group.customers.map(customer => customer.email).filter(email => email !== target))}
+                  disabled={busyKey !== null}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {busyKey === key ? 'Merging...' : 'Merge into selected'}
+                </button>
+              )}
+            </div>
+            <ul className="space-y-2">
+              {group.customers.map(customer => (
+                <li key={customer.email} className="flex items-center gap-3 text-sm">
+                  {canMerge && (
+                    <input
+                      type="radio"
+                      name={`merge-target-${key}`}
+                      checked={target === customer.email}
+                      onChange={() => setTargets(prev => ({ ...prev, [key]: customer.email }))}
+                      aria-label={`Keep ${customer.email}`}
+                      className="h-4 w-4 border-gray-600 bg-gray-700 cursor-pointer"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      href={`/dashboard/customers/${encodeURIComponent(customer.email)}`}
+                      className="font-medium text-white hover:text-blue-400 transition-colors"
+                    >
+                      {customer.firstName} {customer.lastName}
+                    </Link>
+                    <div className="text-xs text-gray-400 truncate">{customer.email}</div>
+                  </div>
+                  <div className="text-right text-xs text-gray-400 whitespace-nowrap">
+                    <div>{customer.orderCount} {customer.orderCount === 1 ? 'order' : 'orders'}</div>
+                    <div>Last {format(new Date(customer.lastOrderAt), 'MMM dd, yyyy')}</div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { CategoryRevenueReport } from '../../types/catalog'
+import { API_ROUTES } from '../../constants/api'
+import { CATEGORY_REVENUE_PERIODS } from '../../constants/catalog'
+import { apiRequest } from '../../utils/apiClient'
+import { formatMoneyTotals } from '../../utils/currency'
+
+/**
+ * Netto omzet per productcategorie over een gekozen periode.
+ * Elke categorie toont de eigen omzet en het totaal inclusief subcategorieën.
+ */
+export default function CategoryRevenueBreakdown() {
+  const [days, setDays] = useState<number | null>(CATEGORY_REVENUE_PERIODS[0].days)
+  const [report, setReport] = useState<CategoryRevenueReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const url = days ? `${API_ROUTES.CATEGORY_REVENUE}?days=${days}` : API_ROUTES.CATEGORY_REVENUE
+      const { report } = await apiRequest<{ report: CategoryRevenueReport }>(url)
+      setReport(report)
+    } catch (err: any) {
+      console.error('Error fetching category revenue:', err)
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  // Shares only add up within one currency
+  const currencies = report ? Object.keys(report.total) : []
+  const shareCurrency = currencies.length === 1 ? currencies[0] : null
+
+  return (
+    <div className="container-card">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-700 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-medium text-white">Sales per Product Category</h2>
+          <p className="text-info">
+            Net of refunds, by each product&apos;s current category.{' '}
+            <Link href="/dashboard/products/catalog" className="text-blue-400 hover:underline">Manage categories</Link>
+          </p>
+        </div>
+        <select
+          value={days ?? ''}
+          onChange={(e) => setDays(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          {CATEGORY_REVENUE_PERIODS.map(period => (
+            <option key={period.label} value={period.days ?? ''}>{period.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-t-2 border-blue-500 border-solid rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <div className="p-4 text-sm text-red-400">{error}</div>
+      ) : !report || report.orderCount === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-gray-300 text-lg mb-1">No sales in this period</p>
+          <p className="text-info">Revenue per category will appear here once orders are paid.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[480px]">
+            <thead>
+              <tr className="text-left bg-gray-700/40">
+                <th className="px-6 py-3 font-semibold text-gray-300">Category</th>
+                <th className="px-6 py-3 text-right text-gray-300">Units</th>
+                <th className="px-6 py-3 text-right text-gray-300 hidden sm:table-cell">Own</th>
+                <th className="px-6 py-3 text-right text-gray-300">Revenue</th>
+                <th className="px-6 py-3 text-right text-gray-300 hidden md:table-cell">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map(row => (
+                <tr key={row.categoryId ?? 'uncategorised'} className="border-t border-gray-700/30">
+                  <td
+                    className={`px-6 py-3 text-sm ${row.depth === 0 ? 'font-medium text-white' : 'text-gray-300'} ${row.categoryId ? '' : 'italic'}`}
+                    style={{ paddingLeft: `${1.5 + row.depth * 1.25}rem` }}
+                    title={row.path}
+                  >
+                    {row.name}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-300">{row.unitsSold}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-400 hidden sm:table-cell">{formatMoneyTotals(row.revenue)}</td>
+                  <td className="px-6 py-3 text-sm text-right font-medium text-amber-500">{formatMoneyTotals(row.totalRevenue)}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-400 hidden md:table-cell">
+                    {shareCurrency && report.total[shareCurrency] > 0
+                      ? `${Math.round(((row.totalRevenue[shareCurrency] || 0) / report.total[shareCurrency]) * 100)}%`
+                      : '–'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-gray-700">
+                <td className="px-6 py-3 text-sm font-semibold text-white">
+                  Total <span className="text-xs font-normal text-gray-500">({report.orderCount} orders)</span>
+                </td>
+                <td></td>
+                <td className="hidden sm:table-cell"></td>
+                <td className="px-6 py-3 text-sm text-right font-semibold text-amber-500">{formatMoneyTotals(report.total)}</td>
+                <td className="hidden md:table-cell"></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { BellIcon } from '@heroicons/react/24/outline'
+import type { LowStockAlert } from '../../types/inventory'
+import { API_ROUTES } from '../../constants/api'
+import { INVENTORY_TABLES, STOCK_MOVEMENTS_CHANNEL } from '../../constants/inventory'
+import { apiRequest } from '../../utils/apiClient'
+
+interface LowStockNotificationsProps {
+  /** Id van de ingelogde gebruiker; zonder gebruiker wordt niets opgehaald */
+  userId: string | null
+}
+
+/**
+ * Meldingenbel in de header met producten en varianten die onder hun voorraaddrempel zitten.
+ * Ververst bij elke nieuwe voorraadmutatie.
+ */
+export default function LowStockNotifications({ userId }: LowStockNotificationsProps) {
+  const supabase = createClientComponentClient()
+  const [alerts, setAlerts] = useState<LowStockAlert[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const { alerts } = await apiRequest<{ alerts: LowStockAlert[] }>(API_ROUTES.LOW_STOCK)
+      setAlerts(alerts)
+    } catch (err: any) {
+      // Roles without product access simply get no notifications
+      console.error('Error fetching low-stock alerts:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!userId) return
+    fetchAlerts()
+
+    const channel = supabase
+      .channel(STOCK_MOVEMENTS_CHANNEL)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: INVENTORY_TABLES.STOCK_MOVEMENTS },
+        () => fetchAlerts()
+      )
+      .subscribe((status, err) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Stock movements realtime subscription error:', err)
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, supabase, fetchAlerts])
+
+  // Close the dropdown when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  if (!userId) return null
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="relative p-2 rounded-md text-gray-300 hover:bg-gray-700/50 hover:text-white transition-colors"
+        aria-label={`${alerts.length} low-stock ${alerts.length === 1 ? 'notification' : 'notifications'}`}
+      >
+        <BellIcon className="w-5 h-5" />
+        {alerts.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-orange-600 rounded-full text-[10px] font-bold text-white flex items-center justify-center">
+            {alerts.length > 99 ? '99+' : alerts.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-30">
+          <div className="px-4 py-2 border-b border-gray-700 text-sm font-semibold">Low stock</div>
+          {alerts.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400">All products are above their threshold</p>
+          ) : (
+            <ul className="divide-y divide-gray-700/50">
+              {alerts.map(alert => (
+                <li key={`${alert.productId}-${alert.variantId ?? ''}`}>
+                  <Link
+                    href={`/dashboard/products/${alert.productId}`}
+                    onClick={() => setIsOpen(false)}
+                    className="block px-4 py-2 hover:bg-gray-700/50 transition-colors"
+                  >
+                    <p className="text-sm text-white truncate">{alert.productName}</p>
+                    {alert.variantLabel && <p className="text-xs text-gray-400 truncate">{alert.variantLabel}</p>}
+                    <p className={`text-xs ${alert.stock === 0 ? 'text-red-400' : 'text-orange-400'}`}>
+                      {alert.stock === 0 ? 'Out of stock' : `${alert.stock} left`} · alert at {alert.threshold}
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { CldImage, CldUploadWidget } from 'next-cloudinary'
+import { toast } from 'react-hot-toast'
+import type { MediaAsset, MediaAssetWithUsage, MediaDeleteResult } from '../../types/media'
+import { API_ROUTES } from '../../constants/api'
+import { MEDIA_UPLOAD_PRESET, MEDIA_USAGE_LABELS } from '../../constants/media'
+import { apiRequest } from '../../utils/apiClient'
+import { formatBytes } from '../../utils/media'
+import { normalizeTags } from '../../utils/catalog'
+import { useMediaLibrary } from '../../hooks/useMediaLibrary'
+import { useAuth } from '../../contexts/AuthContext'
+
+interface MediaLibraryModalProps {
+  isOpen: boolean
+  onClose: () => void
+
+  /** Gekozen of net geüploade afbeelding; de modal sluit daarna */
+  onSelect: (asset: MediaAsset) => void
+
+  title?: string
+
+  /** Afbeeldingen die het formulier al gebruikt, worden gemarkeerd */
+  selectedPublicIds?: string[]
+}
+
+// Upload result of CldUploadWidget as a library asset
+function toUploadedAsset(info: any): MediaAsset {
+  return {
+    publicId: info.public_id,
+    url: info.secure_url,
+    format: info.format,
+    width: info.width,
+    height: info.height,
+    bytes: info.bytes,
+    tags: info.tags || [],
+    createdAt: info.created_at,
+  }
+}
+
+/**
+ * Media library: eerder geüploade afbeeldingen zoeken, taggen en hergebruiken.
+ * Laat zien waar een afbeelding gebruikt wordt en waarschuwt voordat een gebruikte afbeelding verwijderd wordt.
+ */
+export default function MediaLibraryModal({
+  isOpen,
+  onClose,
+  onSelect,
+  title = 'Media Library',
+  selectedPublicIds = []
+}: MediaLibraryModalProps) {
+  const { isAdmin } = useAuth()
+  const [query, setQuery] = useState('')
+  const [tag, setTag] = useState<string | null>(null)
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [tagDraft, setTagDraft] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const library = useMediaLibrary(isOpen, query, tag)
+
+  const active = library.assets.find(asset => asset.publicId === activeId) || null
+
+  useEffect(() => {
+    setTagDraft(active ? active.tags.join(', ') : '')
+  }, [active])
+
+  if (!isOpen) return null
+
+  const choose = (asset: MediaAsset) => {
+    onSelect(asset)
+    onClose()
+  }
+
+  const saveTags = async (asset: MediaAssetWithUsage) => {
+    try {
+      setIsSaving(true)
+      const { asset: updated } = await apiRequest<{ asset: MediaAssetWithUsage }>(API_ROUTES.MEDIA_ASSET(asset.publicId), {
+        method: 'PATCH',
+        body: { tags: normalizeTags(tagDraft.split(',')) },
+      })
+      library.replaceAsset(updated)
+      toast.success('Tags saved')
+    } catch (err: any) {
+      console.error('Error saving tags:', err)
+      toast.error(`Failed to save tags: ${err.message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteAsset = async (asset: MediaAssetWithUsage) => {
+    const warning = asset.usage.length > 0
+      ? `This image is still used by:\n${asset.usage.map(usage => `- ${MEDIA_USAGE_LABELS[usage.kind]}: ${usage.label}`).join('\n')}\n\nThey will show a broken image. Delete it anyway?`
+      : `Delete ${asset.publicId}? This cannot be undone.`
+    if (!window.confirm(warning)) return
+
+    try {
+      setIsSaving(true)
+      const url = asset.usage.length > 0 ? `${API_ROUTES.MEDIA_ASSET(asset.publicId)}?force=true` : API_ROUTES.MEDIA_ASSET(asset.publicId)
+      await apiRequest<MediaDeleteResult>(url, { method: 'DELETE' })
+      library.removeAsset(asset.publicId)
+      setActiveId(null)
+      toast.success('Image deleted')
+    } catch (err: any) {
+      console.error('Error deleting image:', err)
+      // Someone started using the image since the library was loaded
+      if (err.type === 'asset_in_use') library.refetch()
+      toast.error(`Failed to delete image: ${err.message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-xl max-w-5xl w-full max-h-[90vh] flex flex-col shadow-2xl border border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center border-b border-gray-700 p-4 gap-4">
+          <h3 className="text-xl font-medium text-white">{title}</h3>
+          <div className="flex items-center gap-2">
+            <CldUploadWidget
+              uploadPreset={MEDIA_UPLOAD_PRESET}
+              onSuccess={(result: any) => {
+                if (result.info) {
+                  choose(toUploadedAsset(result.info))
+                }
+              }}
+            >
+              {({ open }) => (
+                <button
+                  type="button"
+                  onClick={() => open()}
+                  className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded text-white text-sm transition-colors"
+                >
+                  Upload New
+                </button>
+              )}
+            </CldUploadWidget>
+            <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 p-4 border-b border-gray-700">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or tag..."
+            className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <select
+            value={tag ?? ''}
+            onChange={(e) => setTag(e.target.value || null)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="">All tags</option>
+            {library.tags.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          <div className="flex-1 overflow-y-auto p-4">
+            {library.error ? (
+              <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-lg text-red-400 text-sm">{library.error.message}</div>
+            ) : library.isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="w-8 h-8 border-t-2 border-blue-500 border-solid rounded-full animate-spin"></div>
+              </div>
+            ) : library.assets.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-gray-300 mb-1">No images found</p>
+                <p className="text-gray-500 text-sm">Upload one or try another search</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-5 gap-3">
+                  {library.assets.map(asset => (
+                    <button
+                      key={asset.publicId}
+                      type="button"
+                      onClick={() => setActiveId(asset.publicId)}
+                      onDoubleClick={() => choose(asset)}
+                      className={`relative h-24 rounded-lg overflow-hidden border-2 bg-gray-900/50 transition-colors ${
+                        asset.publicId === activeId ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+                      }`}
+                      title={asset.publicId}
+                    >
+                      <CldImage src={asset.publicId} alt={asset.publicId} fill sizes="120px" className="object-contain p-1" />
+                      {asset.usage.length > 0 && (
+                        <span className="absolute top-1 right-1 px-1.5 rounded-full bg-gray-900/80 text-[10px] text-gray-200">
+                          {asset.usage.length}×
+                        </span>
+                      )}
+                      {selectedPublicIds.includes(asset.publicId) && (
+                        <span className="absolute bottom-1 left-1 px-1.5 rounded-full bg-blue-600 text-[10px] text-white">In use here</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+                {library.hasMore && (
+                  <div className="flex justify-center mt-4">
+                    <button
+                      type="button"
+                      onClick={library.loadMore}
+                      disabled={library.isLoadingMore}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm disabled:opacity-50"
+                    >
+                      {library.isLoadingMore ? 'Loading...' : 'Load More'}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {active && (
+            <div className="md:w-72 border-t md:border-t-0 md:border-l border-gray-700 p-4 overflow-y-auto space-y-4">
+              <div className="relative h-40 rounded-lg overflow-hidden bg-gray-900/50 border border-gray-700">
+                <CldImage src={active.publicId} alt={active.publicId} fill sizes="288px" className="object-contain p-2" />
+              </div>
+
+              <div className="text-xs text-gray-400 space-y-1">
+                <p className="text-sm text-white break-all">{active.publicId}</p>
+                <p>{active.width} × {active.height} · {active.format.toUpperCase()} · {formatBytes(active.bytes)}</p>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Tags</label>
+                <div className="flex gap-1">
+                  <input
+                    type="text"
+                    value={tagDraft}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    placeholder="e.g. bottle, label"
+                    className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => saveTags(active)}
+                    disabled={isSaving || tagDraft === active.tags.join(', ')}
+                    className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-400 mb-1">Used by</p>
+                {active.usage.length === 0 ? (
+                  <p className="text-xs text-gray-500">Not used anywhere</p>
+                ) : (
+                  <ul className="space-y-1 text-xs">
+                    {active.usage.map(usage => (
+                      <li key={`${usage.kind}-${usage.id}`} className="text-gray-300">
+                        <span className="text-gray-500">{MEDIA_USAGE_LABELS[usage.kind]}:</span>{' '}
+                        {usage.href ? (
+                          <Link href={usage.href} className="text-blue-400 hover:underline">{usage.label}</Link>
+                        ) : usage.label}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => choose(active)}
+                  className="flex-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-white text-sm transition-colors"
+                >
+                  Use This Image
+                </button>
+                {isAdmin && (
+                  <button
+                    type="button"
+                    onClick={() => deleteAsset(active)}
+                    disabled={isSaving}
+                    className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded text-white text-sm transition-colors disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
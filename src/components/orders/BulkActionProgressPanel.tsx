@@ -0,0 +1,76 @@
+import React from 'react'
+import type { BulkOrderProgress } from '../../types/orders'
+import { BULK_ORDER_ACTION_LABELS } from '../../constants/orders'
+
+interface BulkActionProgressPanelProps {
+  /** Voortgang van de lopende (of laatst afgeronde) bulkactie */
+  progress: BulkOrderProgress
+
+  /** Sluit het paneel; alleen mogelijk als de actie klaar is */
+  onClose: () => void
+
+  /** Selecteert alleen de mislukte orders, zodat de actie opnieuw kan */
+  onSelectFailed?: (orderIds: string[]) => void
+}
+
+/**
+ * Voortgangspaneel voor bulkacties: welke orders gelukt zijn en welke mislukt (en waarom)
+ */
+export default function BulkActionProgressPanel({ progress, onClose, onSelectFailed }: BulkActionProgressPanelProps) {
+  const percentage = progress.total === 0 ? 100 : Math.round((progress.completed / progress.total) * 100)
+  const failures = progress.results.filter(result => result.status === 'failed')
+
+  return (
+    <div className="bg-gray-800/80 p-4 rounded-xl shadow-lg border border-gray-700/50 space-y-3" role="status" aria-live="polite">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-sm sm:text-base font-semibold">
+          {BULK_ORDER_ACTION_LABELS[progress.action]}
+          <span className="ml-2 text-gray-400 font-normal">
+            {progress.done ? 'Finished' : 'In progress'} · {progress.completed} of {progress.total}
+          </span>
+        </h2>
+        {progress.done && (
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm transition-colors" aria-label="Close">
+            ×
+          </button>
+        )}
+      </div>
+
+      <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all ${progress.failed > 0 ? 'bg-amber-500' : 'bg-green-500'}`}
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs sm:text-sm">
+        <span className="text-green-400">{progress.succeeded} succeeded</span>
+        <span className={progress.failed > 0 ? 'text-red-400' : 'text-gray-400'}>{progress.failed} failed</span>
+        {!progress.done && (
+          <span className="text-gray-400">{progress.total - progress.completed} remaining</span>
+        )}
+      </div>
+
+      {failures.length > 0 && (
+        <div className="space-y-2">
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-700/50 bg-gray-900/40 rounded-lg border border-red-500/20">
+            {failures.map(result => (
+              <li key={result.orderId} className="px-3 py-2 text-xs sm:text-sm">
+                <span className="font-medium text-white">#{result.orderNumber}</span>
+                <span className="text-red-400 ml-2">{result.error}</span>
+              </li>
+            ))}
+          </ul>
+          {progress.done && onSelectFailed && (
+            <button
+              onClick={() => onSelectFailed(failures.map(result => result.orderId))}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors"
+            >
+              Select failed orders
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
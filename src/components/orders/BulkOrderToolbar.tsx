@@ -0,0 +1,106 @@
+import React, { useState } from 'react'
+import type { OrderStatus } from '../../types/orders'
+import { ORDER_STATUS_LABELS, BULK_ORDER_ACTION_LABELS } from '../../constants/orders'
+
+interface BulkOrderToolbarProps {
+  /** Aantal geselecteerde orders */
+  selectedCount: number
+
+  /** Statussen waar minstens één geselecteerde order naartoe mag */
+  statusOptions: OrderStatus[]
+
+  /** Of er al een bulkactie loopt */
+  isRunning?: boolean
+
+  /** Maximaal aantal orders per pakbon-export */
+  maxPackingSlips: number
+
+  onChangeStatus: (status: OrderStatus) => void
+  onSendEmails: () => void
+  onExportCsv: () => void
+  onPrintPackingSlips: () => void
+  onClearSelection: () => void
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs sm:text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+/**
+ * Actiebalk voor de geselecteerde orders in de orderlijst
+ */
+export default function BulkOrderToolbar({
+  selectedCount,
+  statusOptions,
+  isRunning = false,
+  maxPackingSlips,
+  onChangeStatus,
+  onSendEmails,
+  onExportCsv,
+  onPrintPackingSlips,
+  onClearSelection,
+}: BulkOrderToolbarProps) {
+  const [status, setStatus] = useState<OrderStatus | ''>('')
+
+  if (selectedCount === 0) {
+    return null
+  }
+
+  const handleChangeStatus = () => {
+    if (!status) return
+    if (window.confirm(`Change the status of ${selectedCount} order${selectedCount === 1 ? '' : 's'} to ${ORDER_STATUS_LABELS[status]}?`)) {
+      onChangeStatus(status)
+      setStatus('')
+    }
+  }
+
+  const handleSendEmails = () => {
+    if (window.confirm(`Resend the order emails for ${selectedCount} order${selectedCount === 1 ? '' : 's'}?`)) {
+      onSendEmails()
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-blue-900/20 p-3 rounded-lg border border-blue-500/30">
+      <span className="text-sm font-medium mr-2">
+        {selectedCount} selected
+      </span>
+
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value as OrderStatus | '')}
+        disabled={isRunning || statusOptions.length === 0}
+        className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50"
+      >
+        <option value="">{statusOptions.length === 0 ? 'No status change possible' : 'Set status...'}</option>
+        {statusOptions.map(option => (
+          <option key={option} value={option}>{ORDER_STATUS_LABELS[option]}</option>
+        ))}
+      </select>
+      <button onClick={handleChangeStatus} disabled={isRunning || !status} className={buttonClassName}>
+        Apply
+      </button>
+
+      <button onClick={handleSendEmails} disabled={isRunning} className={buttonClassName}>
+        {BULK_ORDER_ACTION_LABELS.send_emails}
+      </button>
+      <button onClick={onExportCsv} disabled={isRunning} className={buttonClassName}>
+        {BULK_ORDER_ACTION_LABELS.export_csv}
+      </button>
+      <button
+        onClick={onPrintPackingSlips}
+        disabled={isRunning || selectedCount > maxPackingSlips}
+        title={selectedCount > maxPackingSlips ? `Select at most ${maxPackingSlips} orders` : undefined}
+        className={buttonClassName}
+      >
+        {BULK_ORDER_ACTION_LABELS.print_packing_slips}
+      </button>
+
+      <button
+        onClick={onClearSelection}
+        disabled={isRunning}
+        className="ml-auto px-3 py-1.5 text-gray-400 hover:text-white text-xs sm:text-sm transition-colors disabled:opacity-50"
+      >
+        Clear selection
+      </button>
+    </div>
+  )
+}
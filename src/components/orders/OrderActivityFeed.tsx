@@ -0,0 +1,271 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import type { AuditChanges } from '../../types/audit'
+import type { MentionableUser, OrderActivityItem, OrderActivityKind, OrderNoteRecord } from '../../types/notes'
+import { ORDER_STATUS_LABELS, ORDER_STATUS_BADGE_CLASSES } from '../../constants/orders'
+import { ORDER_EMAIL_TEMPLATE_LABELS } from '../../constants/email'
+import { ORDER_ACTIVITY_AUDIT_LABELS, ORDER_ACTIVITY_KINDS, ORDER_ACTIVITY_KIND_LABELS } from '../../constants/notes'
+import { splitMentions } from '../../utils/mentions'
+import OrderNoteComposer from './OrderNoteComposer'
+
+interface OrderActivityFeedProps {
+  /** Samengevoegde activiteit van de order, nieuwste eerst */
+  items: OrderActivityItem[]
+
+  /** Gebruikers die met @handle genoemd kunnen worden */
+  mentionable: MentionableUser[]
+
+  /** ID van de ingelogde gebruiker, voor eigen notities en vermeldingen */
+  currentUserId?: string | null
+
+  /** Of de activiteit nog geladen wordt */
+  isLoading?: boolean
+
+  /** Of de gebruiker notities mag plaatsen */
+  canWrite?: boolean
+
+  /** ID van de notitie waarvoor een actie loopt */
+  busyNoteId?: string | null
+
+  /** Plaatst een reactie op een notitie; resolve true als die is opgeslagen */
+  onReply?: (parentId: string, content: string) => Promise<boolean>
+
+  /** Verwijdert een eigen notitie zonder reacties */
+  onDelete?: (note: OrderNoteRecord) => void
+}
+
+const formatTime = (timestamp?: string) =>
+  timestamp ? format(new Date(timestamp), 'MMM dd, yyyy HH:mm') : 'Just now'
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value)
+
+function ChangeList({ changes }: { changes: AuditChanges | null }) {
+  if (!changes || Object.keys(changes).length === 0) return null
+
+  return (
+    <ul className="text-xs text-gray-300 mt-1 space-y-0.5">
+      {Object.entries(changes).map(([field, change]) => (
+        <li key={field}>
+          <span className="text-gray-400">{field.replace(/_/g, ' ')}:</span>{' '}
+          {formatValue(change.from)} → {formatValue(change.to)}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Tijdlijn met interne notities, statuswijzigingen, e-mails en wijzigingen van een order
+ */
+export default function OrderActivityFeed({
+  items,
+  mentionable,
+  currentUserId = null,
+  isLoading = false,
+  canWrite = false,
+  busyNoteId = null,
+  onReply,
+  onDelete,
+}: OrderActivityFeedProps) {
+  const [kind, setKind] = useState<OrderActivityKind | 'all'>('all')
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+
+  const visibleItems = kind === 'all' ? items : items.filter(item => item.kind === kind)
+
+  const renderContent = (note: OrderNoteRecord) => (
+    <p className="text-sm text-gray-200 mt-1 whitespace-pre-wrap break-words">
+      {splitMentions(note.content, mentionable).map((segment, index) =>
+        segment.type === 'mention' ? (
+          <span
+            key={index}
+            title={segment.user.email}
+            className={`rounded px-0.5 ${
+              segment.user.id === currentUserId ? 'bg-amber-500/20 text-amber-300' : 'text-blue-300'
+            }`}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  )
+
+  const renderNoteHeader = (note: OrderNoteRecord, canDelete: boolean) => (
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <p className="text-xs text-gray-400">
+        <span className="text-gray-200 font-medium">{note.author_email || 'Unknown'}</span>
+        {' · '}
+        {formatTime(note.created_at)}
+      </p>
+      {canDelete && onDelete && (
+        <button
+          onClick={() => onDelete(note)}
+          disabled={busyNoteId === note.id}
+          className="text-gray-400 hover:text-red-400 text-xs transition-colors disabled:opacity-50"
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  )
+
+  const renderItem = (item: OrderActivityItem) => {
+    switch (item.kind) {
+      case 'note': {
+        const { note } = item
+        const isMentioned = !!currentUserId && [note, ...note.replies].some(n => n.mentions?.includes(currentUserId))
+
+        return (
+          <div className={`bg-gray-800/50 p-3 rounded-lg border ${isMentioned ? 'border-amber-500/40' : 'border-gray-700/50'}`}>
+            {renderNoteHeader(note, note.author_id === currentUserId && note.replies.length === 0)}
+            {renderContent(note)}
+
+            {note.replies.length > 0 && (
+              <ul className="mt-3 ml-3 pl-3 border-l border-gray-700 space-y-3">
+                {note.replies.map((reply, index) => (
+                  <li key={reply.id ?? index}>
+                    {renderNoteHeader(reply, reply.author_id === currentUserId)}
+                    {renderContent(reply)}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {canWrite && onReply && note.id && (
+              replyingTo === note.id ? (
+                <div className="mt-3">
+                  <OrderNoteComposer
+                    mentionable={mentionable}
+                    currentUserId={currentUserId}
+                    isSubmitting={busyNoteId === note.id}
+                    placeholder="Reply..."
+                    submitLabel="Reply"
+                    autoFocus
+                    onSubmit={async (content) => {
+                      const saved = await onReply(note.id as string, content)
+                      if (saved) setReplyingTo(null)
+                      return saved
+                    }}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              ) : (
+                <button
+                  onClick={() => setReplyingTo(note.id as string)}
+                  className="mt-2 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                >
+                  Reply
+                </button>
+              )
+            )}
+          </div>
+        )
+      }
+
+      case 'status': {
+        const { history } = item
+        return (
+          <div className="px-1">
+            <div className="flex flex-wrap items-center gap-2">
+              {history.from_status && (
+                <>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${ORDER_STATUS_BADGE_CLASSES[history.from_status] ?? ''}`}>
+                    {ORDER_STATUS_LABELS[history.from_status] ?? history.from_status}
+                  </span>
+                  <span className="text-gray-500 text-xs">→</span>
+                </>
+              )}
+              <span className={`px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${ORDER_STATUS_BADGE_CLASSES[history.to_status] ?? ''}`}>
+                {ORDER_STATUS_LABELS[history.to_status] ?? history.to_status}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              {formatTime(history.created_at)}
+              {' · '}
+              {history.changed_by_email || 'System'}
+            </p>
+            {history.note && (
+              <p className="text-sm text-gray-300 mt-1 whitespace-pre-wrap">{history.note}</p>
+            )}
+          </div>
+        )
+      }
+
+      case 'email': {
+        const { email } = item
+        return (
+          <div className="px-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm">{ORDER_EMAIL_TEMPLATE_LABELS[email.template] ?? email.template}</span>
+              <span className={`px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${
+                email.status === 'sent'
+                  ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                  : 'bg-red-500/20 text-red-400 border border-red-500/30'
+              }`}>
+                {email.status === 'sent' ? 'Sent' : 'Failed'}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400 mt-1 break-all">
+              {formatTime(email.created_at)}
+              {' · '}
+              {email.recipient}
+            </p>
+            {email.error && (
+              <p className="text-xs text-red-400 mt-1">{email.error}</p>
+            )}
+          </div>
+        )
+      }
+
+      case 'edit': {
+        const { entry } = item
+        return (
+          <div className="px-1">
+            <p className="text-sm">{ORDER_ACTIVITY_AUDIT_LABELS[entry.action] ?? entry.action}</p>
+            <p className="text-xs text-gray-400 mt-1">
+              {formatTime(entry.created_at)}
+              {' · '}
+              {entry.actor_email || 'System'}
+            </p>
+            <ChangeList changes={entry.changes} />
+          </div>
+        )
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1">
+        {(['all', ...ORDER_ACTIVITY_KINDS] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setKind(option)}
+            className={`px-2 py-1 rounded text-xs transition-colors ${
+              kind === option ? 'bg-blue-600/80 text-white' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {option === 'all' ? 'All' : ORDER_ACTIVITY_KIND_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading activity...</p>
+      ) : visibleItems.length === 0 ? (
+        <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+          <p className="text-gray-400 text-sm">No activity yet</p>
+        </div>
+      ) : (
+        <ol className="space-y-4">
+          {visibleItems.map(item => (
+            <li key={item.id}>{renderItem(item)}</li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
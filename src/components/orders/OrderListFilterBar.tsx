@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react'
+import type { OrderFilterPresetRecord, OrderListFilters, OrderStatus } from '../../types/orders'
+import { DEFAULT_ORDER_LIST_FILTERS, ORDER_STATUS_LABELS, ORDER_FILTER_PRESET_NAME_MAX_LENGTH } from '../../constants/orders'
+import { hasActiveOrderFilters } from '../../utils/orderFilters'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+interface OrderListFilterBarProps {
+  /** Actieve filters (uit de URL) */
+  filters: OrderListFilters
+
+  /** Wordt aangeroepen met de gewijzigde filtervelden */
+  onChange: (changes: Partial<OrderListFilters>) => void
+
+  /** Zet alle filters terug naar de standaardwaarden */
+  onClear: () => void
+
+  /** Opgeslagen filterpresets van de gebruiker */
+  presets?: OrderFilterPresetRecord[]
+
+  /** Of de gebruiker presets mag opslaan en verwijderen (alleen admins) */
+  canManagePresets?: boolean
+
+  /** Slaat de huidige filters op onder een naam */
+  onSavePreset?: (name: string) => Promise<void> | void
+
+  /** Verwijdert een preset */
+  onDeletePreset?: (preset: OrderFilterPresetRecord) => Promise<void> | void
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50 text-sm'
+
+/**
+ * Zoekbalk, filters en opgeslagen presets voor de orderlijst
+ */
+export default function OrderListFilterBar({
+  filters,
+  onChange,
+  onClear,
+  presets = [],
+  canManagePresets = false,
+  onSavePreset,
+  onDeletePreset,
+}: OrderListFilterBarProps) {
+  const [searchInput, setSearchInput] = useState(filters.search)
+  const [presetName, setPresetName] = useState('')
+
+  // Keep the input in sync when the URL changes (back button, presets)
+  useEffect(() => {
+    setSearchInput(filters.search)
+  }, [filters.search])
+
+  // Debounce typing before it hits the URL and the database
+  useEffect(() => {
+    if (searchInput.trim() === filters.search) return
+
+    const timeout = setTimeout(() => onChange({ search: searchInput.trim() }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput, filters.search, onChange])
+
+  const parseAmount = (value: string) => (value === '' ? null : Math.max(Number(value), 0))
+
+  const handleSavePreset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!presetName.trim() || !onSavePreset) return
+    await onSavePreset(presetName.trim())
+    setPresetName('')
+  }
+
+  return (
+    <div className="space-y-3 bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 shadow-md">
+      <div className="grid sm:grid-cols-[1fr_auto] gap-4">
+        <div className="relative">
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by order #, customer name, email or payment reference..."
+            className="w-full px-4 py-2 pl-10 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        </div>
+
+        <div className="w-full sm:w-auto">
+          <select
+            value={filters.status}
+            onChange={(e) => onChange({ status: e.target.value as OrderStatus | 'all' })}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="all">All Statuses</option>
+            {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(status => (
+              <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-xs text-gray-400">
+          From date
+          <input
+            type="date"
+            value={filters.dateFrom ?? ''}
+            max={filters.dateTo ?? undefined}
+            onChange={(e) => onChange({ dateFrom: e.target.value || null })}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          To date
+          <input
+            type="date"
+            value={filters.dateTo ?? ''}
+            min={filters.dateFrom ?? undefined}
+            onChange={(e) => onChange({ dateTo: e.target.value || null })}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Min amount
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.minAmount ?? ''}
+            onChange={(e) => onChange({ minAmount: parseAmount(e.target.value) })}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Max amount
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.maxAmount ?? ''}
+            onChange={(e) => onChange({ maxAmount: parseAmount(e.target.value) })}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="inline-flex items-center gap-2 mr-2 text-xs text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.missingTracking}
+            onChange={(e) => onChange({ missingTracking: e.target.checked })}
+          />
+          Shipped without tracking
+        </label>
+
+        {presets.map(preset => (
+          <span key={preset.id ?? preset.name} className="inline-flex items-center rounded-full bg-gray-700 text-xs">
+            <button
+              onClick={() => onChange({ ...DEFAULT_ORDER_LIST_FILTERS, ...preset.filters })}
+              className="px-3 py-1 hover:text-blue-400 transition-colors"
+            >
+              {preset.name}
+            </button>
+            {canManagePresets && onDeletePreset && (
+              <button
+                onClick={() => onDeletePreset(preset)}
+                className="pr-2 text-gray-400 hover:text-red-400 transition-colors"
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+
+        {canManagePresets && onSavePreset && hasActiveOrderFilters(filters) && (
+          <form onSubmit={handleSavePreset} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={presetName}
+              maxLength={ORDER_FILTER_PRESET_NAME_MAX_LENGTH}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+            <button
+              type="submit"
+              disabled={!presetName.trim()}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save filters
+            </button>
+          </form>
+        )}
+
+        {hasActiveOrderFilters(filters) && (
+          <button
+            onClick={onClear}
+            className="ml-auto px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors"
+          >
+            Clear Filters
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import React, { useMemo, useRef, useState } from 'react'
+import type { MentionableUser } from '../../types/notes'
+import { NOTE_MAX_LENGTH } from '../../constants/notes'
+import { getMentionQuery } from '../../utils/mentions'
+
+interface OrderNoteComposerProps {
+  /** Gebruikers die met @handle genoemd kunnen worden */
+  mentionable: MentionableUser[]
+
+  /** ID van de ingelogde gebruiker; die wordt niet voorgesteld */
+  currentUserId?: string | null
+
+  /** Of de notitie wordt opgeslagen */
+  isSubmitting?: boolean
+
+  placeholder?: string
+  submitLabel?: string
+  autoFocus?: boolean
+
+  /** Slaat de notitie op; resolve true om het veld te legen */
+  onSubmit: (content: string) => Promise<boolean>
+  onCancel?: () => void
+}
+
+const MAX_SUGGESTIONS = 5
+
+/**
+ * Tekstveld voor interne notities met @mention-suggesties (Ctrl/Cmd+Enter verstuurt)
+ */
+export default function OrderNoteComposer({
+  mentionable,
+  currentUserId = null,
+  isSubmitting = false,
+  placeholder = 'Write an internal note, use @ to mention a colleague',
+  submitLabel = 'Add note',
+  autoFocus = false,
+  onSubmit,
+  onCancel,
+}: OrderNoteComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [content, setContent] = useState('')
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null)
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+
+  const suggestions = useMemo(() => {
+    if (!mentionQuery) return []
+    return mentionable
+      .filter(user => user.id !== currentUserId && user.handle.startsWith(mentionQuery.query))
+      .slice(0, MAX_SUGGESTIONS)
+  }, [mentionable, currentUserId, mentionQuery])
+
+  const updateMentionQuery = (value: string, cursor: number) => {
+    setMentionQuery(getMentionQuery(value, cursor))
+    setActiveSuggestion(0)
+  }
+
+  const insertMention = (user: MentionableUser) => {
+    if (!mentionQuery) return
+
+    const cursor = mentionQuery.start + mentionQuery.query.length + 1
+    const next = `${content.slice(0, mentionQuery.start)}@${user.handle} ${content.slice(cursor)}`
+    const nextCursor = mentionQuery.start + user.handle.length + 2
+
+    setContent(next)
+    setMentionQuery(null)
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor)
+    })
+  }
+
+  const submit = async () => {
+    if (!content.trim() || isSubmitting) return
+    if (await onSubmit(content.trim())) {
+      setContent('')
+      setMentionQuery(null)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveSuggestion(prev => (prev + step + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        insertMention(suggestions[activeSuggestion])
+        return
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setMentionQuery(null)
+        return
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      submit()
+    }
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        submit()
+      }}
+      className="space-y-2"
+    >
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value)
+            updateMentionQuery(e.target.value, e.target.selectionStart)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          placeholder={placeholder}
+          maxLength={NOTE_MAX_LENGTH}
+          rows={2}
+          autoFocus={autoFocus}
+          disabled={isSubmitting}
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50 resize-y"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-0 mt-1 w-64 bg-gray-800 border border-gray-600 rounded shadow-lg overflow-hidden">
+            {suggestions.map((user, index) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  // onMouseDown so the textarea blur doesn't close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    insertMention(user)
+                  }}
+                  className={`w-full text-left px-3 py-1.5 text-xs ${
+                    index === activeSuggestion ? 'bg-blue-600/40 text-white' : 'text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="font-medium">@{user.handle}</span>
+                  <span className="text-gray-400 ml-2">{user.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || !content.trim()}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react'
+import type { CreateRefundInput } from '../../types/refunds'
+import { REFUND_REASON_MAX_LENGTH } from '../../constants/refunds'
+import { formatMoney } from '../../utils/currency'
+
+export interface RefundableItem {
+  id: string
+  name: string
+  quantity: number
+  price: number
+  refundedQuantity: number
+}
+
+interface OrderRefundFormProps {
+  /** Orderregels met de al terugbetaalde aantallen */
+  items: RefundableItem[]
+
+  /** Bedrag dat nog terugbetaald kan worden */
+  remainingAmount: number
+
+  /** Valuta van de order */
+  currency?: string | null
+
+  /** Of de terugbetaling wordt verwerkt */
+  isSubmitting?: boolean
+
+  onSubmit: (input: CreateRefundInput) => void
+  onCancel: () => void
+}
+
+/**
+ * Formulier voor een volledige of gedeeltelijke terugbetaling, met optie om voorraad terug te boeken
+ */
+export default function OrderRefundForm({ items, remainingAmount, currency = null, isSubmitting = false, onSubmit, onCancel }: OrderRefundFormProps) {
+  const [mode, setMode] = useState<'full' | 'partial'>('full')
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState('')
+  const [restock, setRestock] = useState(true)
+
+  const partialAmount = useMemo(
+    () => items.reduce((sum, item) => sum + (quantities[item.id] || 0) * Number(item.price), 0),
+    [items, quantities]
+  )
+  const amount = mode === 'full' ? remainingAmount : Math.min(partialAmount, remainingAmount)
+  const canSubmit = !isSubmitting && reason.trim().length > 0 && amount > 0
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+
+    const lines = mode === 'partial'
+      ? items
+        .filter(item => (quantities[item.id] || 0) > 0)
+        .map(item => ({ orderItemId: item.id, quantity: quantities[item.id] }))
+      : undefined
+
+    if (window.confirm(`Refund ${formatMoney(amount, currency)} to the customer? This cannot be undone.`)) {
+      onSubmit({ lines, reason: reason.trim(), restock })
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="radio" checked={mode === 'full'} onChange={() => setMode('full')} />
+          Full refund
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="radio" checked={mode === 'partial'} onChange={() => setMode('partial')} />
+          Per item
+        </label>
+      </div>
+
+      {mode === 'partial' && (
+        <ul className="space-y-2">
+          {items.map(item => {
+            const available = item.quantity - item.refundedQuantity
+            return (
+              <li key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="flex-grow truncate">
+                  {item.name}
+                  <span className="text-gray-400 text-xs ml-2">{formatMoney(item.price, currency)} · {available} of {item.quantity} refundable</span>
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  max={available}
+                  step="1"
+                  value={quantities[item.id] ?? 0}
+                  disabled={available === 0}
+                  onChange={(e) => setQuantities(prev => ({
+                    ...prev,
+                    [item.id]: Math.min(Math.max(Math.floor(Number(e.target.value) || 0), 0), available),
+                  }))}
+                  className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50"
+                  aria-label={`Quantity of ${item.name} to refund`}
+                />
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={REFUND_REASON_MAX_LENGTH}
+        rows={2}
+        placeholder="Reason for the refund (required)"
+        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      />
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+        Put refunded items back in stock
+      </label>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm">
+          Refund amount: <span className="font-bold text-amber-500">{formatMoney(amount, currency)}</span>
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="px-3 py-1.5 bg-orange-600 hover:bg-orange-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Refunding...' : 'Refund'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
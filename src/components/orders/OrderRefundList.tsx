@@ -0,0 +1,75 @@
+import React from 'react'
+import { format } from 'date-fns'
+import type { RefundRecord } from '../../types/refunds'
+import { REFUND_STATUS_LABELS } from '../../constants/refunds'
+import { formatMoney } from '../../utils/currency'
+
+interface OrderRefundListProps {
+  /** Terugbetalingen van de order, nieuwste eerst */
+  refunds: RefundRecord[]
+
+  /** Productnamen per orderregel, voor de regels van gedeeltelijke terugbetalingen */
+  itemNames?: Record<string, string>
+
+  /** Valuta van de order */
+  currency?: string | null
+
+  /** Of de terugbetalingen nog geladen worden */
+  isLoading?: boolean
+}
+
+/**
+ * Overzicht van alle terugbetalingen voor een order
+ */
+export default function OrderRefundList({ refunds, itemNames = {}, currency = null, isLoading = false }: OrderRefundListProps) {
+  if (isLoading) {
+    return <p className="text-gray-400 text-sm">Loading refunds...</p>
+  }
+
+  if (refunds.length === 0) {
+    return (
+      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+        <p className="text-gray-400 text-sm">No refunds</p>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      {refunds.map((refund, index) => (
+        <li key={refund.id ?? index} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className={`text-sm font-medium ${refund.status === 'failed' ? 'text-gray-500 line-through' : 'text-orange-400'}`}>
+              −{formatMoney(refund.amount, currency)}
+            </span>
+            <div className="flex flex-wrap gap-1">
+              {refund.status && refund.status !== 'succeeded' && (
+                <span className={`px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${refund.status === 'needs_attention' ? 'bg-red-900/60 text-red-300' : 'bg-gray-700 text-gray-300'}`}>
+                  {REFUND_STATUS_LABELS[refund.status]}
+                </span>
+              )}
+              <span className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs bg-gray-700 text-gray-300">
+                {refund.type === 'full' ? 'Full' : 'Partial'}{refund.restocked ? ' · restocked' : ''}
+              </span>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400 mt-1 break-all">
+            {refund.created_at ? format(new Date(refund.created_at), 'MMM dd, yyyy HH:mm') : 'Just now'}
+            {refund.created_by_email && ` · ${refund.created_by_email}`}
+          </p>
+          <p className="text-xs text-gray-300 mt-1">{refund.reason}</p>
+          {refund.failure_reason && <p className="text-xs text-red-400 mt-1">{refund.failure_reason}</p>}
+          {refund.type === 'partial' && refund.lines && refund.lines.length > 0 && (
+            <ul className="mt-1 text-xs text-gray-400">
+              {refund.lines.map(line => (
+                <li key={line.id ?? line.order_item_id}>
+                  {line.quantity} × {itemNames[line.order_item_id] ?? 'Item'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
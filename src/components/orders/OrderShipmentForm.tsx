@@ -0,0 +1,146 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import type { CarrierCode, CreateShipmentInput } from '../../types/shipments'
+import { CARRIER_CODES, CARRIER_LABELS, MAX_PARCELS_PER_SHIPMENT } from '../../constants/shipments'
+
+interface ParcelRow {
+  trackingNumber: string
+  weightKg: string
+}
+
+interface OrderShipmentFormProps {
+  /** Of de zending wordt opgeslagen */
+  isSubmitting?: boolean
+
+  onSubmit: (input: CreateShipmentInput) => void
+  onCancel: () => void
+}
+
+const inputClassName = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50'
+
+const emptyParcel = (): ParcelRow => ({ trackingNumber: '', weightKg: '' })
+
+/**
+ * Formulier om een zending met een of meer pakketten te registreren
+ */
+export default function OrderShipmentForm({ isSubmitting = false, onSubmit, onCancel }: OrderShipmentFormProps) {
+  const [carrier, setCarrier] = useState<CarrierCode>('postnl')
+  const [shippedAt, setShippedAt] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [parcels, setParcels] = useState<ParcelRow[]>([emptyParcel()])
+  const [notifyCustomer, setNotifyCustomer] = useState(true)
+
+  const updateParcel = (index: number, changes: Partial<ParcelRow>) => {
+    setParcels(prev => prev.map((parcel, i) => (i === index ? { ...parcel, ...changes } : parcel)))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting) return
+
+    onSubmit({
+      carrier,
+      shippedAt,
+      parcels: parcels.map(parcel => ({
+        trackingNumber: parcel.trackingNumber.trim() || null,
+        weightKg: parcel.weightKg === '' ? null : Number(parcel.weightKg),
+      })),
+      notifyCustomer,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-400">
+          Carrier
+          <select
+            value={carrier}
+            onChange={(e) => setCarrier(e.target.value as CarrierCode)}
+            className={`${inputClassName} w-full mt-1`}
+          >
+            {CARRIER_CODES.map(code => (
+              <option key={code} value={code}>{CARRIER_LABELS[code]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Ship date
+          <input
+            type="date"
+            value={shippedAt}
+            onChange={(e) => setShippedAt(e.target.value)}
+            required
+            className={`${inputClassName} w-full mt-1`}
+          />
+        </label>
+      </div>
+
+      <ul className="space-y-2">
+        {parcels.map((parcel, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={parcel.trackingNumber}
+              onChange={(e) => updateParcel(index, { trackingNumber: e.target.value })}
+              placeholder={parcels.length > 1 ? `Tracking number parcel ${index + 1}` : 'Tracking number (optional)'}
+              className={`${inputClassName} flex-grow min-w-0 font-mono`}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={parcel.weightKg}
+              onChange={(e) => updateParcel(index, { weightKg: e.target.value })}
+              placeholder="kg"
+              className={`${inputClassName} w-20`}
+              aria-label={`Weight of parcel ${index + 1} in kg`}
+            />
+            {parcels.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setParcels(prev => prev.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-400 transition-colors"
+                aria-label={`Remove parcel ${index + 1}`}
+              >
+                ×
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {parcels.length < MAX_PARCELS_PER_SHIPMENT && (
+        <button
+          type="button"
+          onClick={() => setParcels(prev => [...prev, emptyParcel()])}
+          className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          + Add parcel
+        </button>
+      )}
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input type="checkbox" checked={notifyCustomer} onChange={(e) => setNotifyCustomer(e.target.checked)} />
+        Email the customer that the order has shipped
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Saving...' : 'Save shipment'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import type { Order } from '../../types/orders'
+import type { ShipmentRecord } from '../../types/shipments'
+import { CARRIER_LABELS, TRACKING_STATUS_BADGE_CLASSES, TRACKING_STATUS_LABELS } from '../../constants/shipments'
+import { getTrackingUrl } from '../../utils/tracking'
+
+interface OrderShipmentListProps {
+  /** Pakketten van de order, in volgorde van verzending */
+  shipments: ShipmentRecord[]
+
+  /** Bestemming van de order, voor de track & trace links */
+  destination: Pick<Order, 'customer_postal_code' | 'customer_country'>
+
+  /** Of de pakketten nog geladen worden */
+  isLoading?: boolean
+
+  /** Of de gebruiker pakketten mag wijzigen en verwijderen (alleen admins) */
+  canEdit?: boolean
+
+  /** ID van het pakket waarvoor een actie loopt */
+  busyId?: string | null
+
+  /** Voegt een trackingnummer toe en mailt de klant optioneel opnieuw */
+  onAddTracking?: (shipment: ShipmentRecord, trackingNumber: string, notifyCustomer: boolean) => void
+
+  /** Haalt de actuele status op bij de vervoerder */
+  onRefreshTracking?: (shipment: ShipmentRecord) => void
+
+  /** Verwijdert een per ongeluk geregistreerd pakket */
+  onRemove?: (shipment: ShipmentRecord) => void
+}
+
+/**
+ * Overzicht van de pakketten van een order met track & trace en vervoerdersstatus
+ */
+export default function OrderShipmentList({
+  shipments,
+  destination,
+  isLoading = false,
+  canEdit = false,
+  busyId = null,
+  onAddTracking,
+  onRefreshTracking,
+  onRemove,
+}: OrderShipmentListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [trackingInput, setTrackingInput] = useState('')
+  const [notifyCustomer, setNotifyCustomer] = useState(true)
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-sm">Loading shipments...</p>
+  }
+
+  if (shipments.length === 0) {
+    return (
+      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+        <p className="text-gray-400 text-sm">No shipments registered</p>
+      </div>
+    )
+  }
+
+  const startEditing = (shipment: ShipmentRecord) => {
+    setEditingId(shipment.id ?? null)
+    setTrackingInput(shipment.tracking_number ?? '')
+    setNotifyCustomer(true)
+  }
+
+  const handleSaveTracking = (e: React.FormEvent, shipment: ShipmentRecord) => {
+    e.preventDefault()
+    if (!trackingInput.trim() || !onAddTracking) return
+    onAddTracking(shipment, trackingInput.trim(), notifyCustomer)
+    setEditingId(null)
+  }
+
+  return (
+    <ul className="space-y-3">
+      {shipments.map((shipment, index) => {
+        const trackingUrl = getTrackingUrl(shipment.carrier, shipment.tracking_number, destination)
+        const isBusy = !!shipment.id && busyId === shipment.id
+
+        return (
+          <li key={shipment.id ?? index} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm font-medium">
+                {shipments.length > 1 && <span className="text-gray-400 mr-1">#{index + 1}</span>}
+                {CARRIER_LABELS[shipment.carrier] ?? shipment.carrier}
+              </span>
+              {shipment.tracking_status && (
+                <span
+                  className={`px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${TRACKING_STATUS_BADGE_CLASSES[shipment.tracking_status]}`}
+                  title={shipment.tracking_description ?? undefined}
+                >
+                  {TRACKING_STATUS_LABELS[shipment.tracking_status]}
+                </span>
+              )}
+            </div>
+
+            {shipment.tracking_number ? (
+              <p className="text-xs font-mono mt-1 break-all">
+                {trackingUrl ? (
+                  <a href={trackingUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                    {shipment.tracking_number}
+                  </a>
+                ) : shipment.tracking_number}
+              </p>
+            ) : (
+              <p className="text-xs text-amber-400 mt-1">No tracking number</p>
+            )}
+
+            <p className="text-xs text-gray-400 mt-1">
+              Shipped {format(new Date(shipment.shipped_at), 'MMM dd, yyyy')}
+              {shipment.weight_kg !== null && ` · ${Number(shipment.weight_kg)} kg`}
+              {shipment.tracking_checked_at && ` · checked ${format(new Date(shipment.tracking_checked_at), 'MMM dd HH:mm')}`}
+            </p>
+
+            {editingId !== null && editingId === shipment.id ? (
+              <form onSubmit={(e) => handleSaveTracking(e, shipment)} className="mt-2 space-y-2">
+                <input
+                  type="text"
+                  value={trackingInput}
+                  onChange={(e) => setTrackingInput(e.target.value)}
+                  placeholder="Tracking number"
+                  autoFocus
+                  className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                  <input type="checkbox" checked={notifyCustomer} onChange={(e) => setNotifyCustomer(e.target.checked)} />
+                  Email the tracking link to the customer
+                </label>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!trackingInput.trim()}
+                    className="px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs transition-colors disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {shipment.tracking_number && onRefreshTracking && (
+                  <button
+                    onClick={() => onRefreshTracking(shipment)}
+                    disabled={isBusy}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors disabled:opacity-50"
+                  >
+                    {isBusy ? 'Checking...' : 'Check status'}
+                  </button>
+                )}
+                {canEdit && onAddTracking && (
+                  <button
+                    onClick={() => startEditing(shipment)}
+                    disabled={isBusy}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs transition-colors disabled:opacity-50"
+                  >
+                    {shipment.tracking_number ? 'Edit tracking' : 'Add tracking'}
+                  </button>
+                )}
+                {canEdit && onRemove && (
+                  <button
+                    onClick={() => onRemove(shipment)}
+                    disabled={isBusy}
+                    className="px-2 py-1 text-gray-400 hover:text-red-400 text-xs transition-colors disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
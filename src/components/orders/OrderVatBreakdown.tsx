@@ -0,0 +1,96 @@
+import React from 'react'
+import type { OrderPricing, VatRateSource } from '../../types/pricing'
+import { formatMoney } from '../../utils/currency'
+import { roundCurrency } from '../../utils/vat'
+
+interface OrderVatBreakdownProps {
+  /** Netto-, btw- en brutobedragen van de orderregels */
+  pricing: OrderPricing | null
+
+  /** Totaalbedrag van de order, inclusief wat niet per regel staat (zoals verzendkosten) */
+  totalAmount: number
+
+  /** Of de bedragen nog geladen worden */
+  isLoading?: boolean
+}
+
+const SOURCE_LABELS: Record<VatRateSource, string> = {
+  category: 'Rate for the product category in this country',
+  country: 'Standard rate of this country',
+  default: 'Default rate; no rate is configured for this country',
+}
+
+/**
+ * Uitsplitsing van een order in netto, btw en bruto, per regel en per tarief
+ */
+export default function OrderVatBreakdown({ pricing, totalAmount, isLoading = false }: OrderVatBreakdownProps) {
+  if (isLoading) {
+    return <p className="text-gray-400 text-sm">Loading VAT breakdown...</p>
+  }
+
+  if (!pricing || pricing.lines.length === 0) {
+    return <p className="text-gray-400 text-sm">No order lines to break down</p>
+  }
+
+  const money = (amount: number) => formatMoney(amount, pricing.currency)
+  const unitemised = roundCurrency(Number(totalAmount) - pricing.vat.totalInclVat)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs sm:text-sm">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-gray-700">
+            <th className="py-2 pr-2 font-medium">Product</th>
+            <th className="py-2 px-2 font-medium text-right">VAT</th>
+            <th className="py-2 px-2 font-medium text-right">Net</th>
+            <th className="py-2 px-2 font-medium text-right">VAT amount</th>
+            <th className="py-2 pl-2 font-medium text-right">Gross</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pricing.lines.map(line => (
+            <tr key={line.order_item_id} className="border-b border-gray-700/50">
+              <td className="py-2 pr-2">
+                {line.name}
+                <span className="text-gray-500"> × {line.quantity}</span>
+              </td>
+              <td className="py-2 px-2 text-right text-gray-300" title={SOURCE_LABELS[line.vat_source]}>
+                {line.vat_rate}%{line.vat_source === 'default' && <span className="text-gray-500">*</span>}
+              </td>
+              <td className="py-2 px-2 text-right text-gray-300">{money(line.net)}</td>
+              <td className="py-2 px-2 text-right text-gray-300">{money(line.vat)}</td>
+              <td className="py-2 pl-2 text-right">{money(line.gross)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={4} className="pt-3 pr-2 text-right text-gray-400">Subtotal excl. VAT</td>
+            <td className="pt-3 pl-2 text-right">{money(pricing.vat.subtotalExclVat)}</td>
+          </tr>
+          {pricing.vat.breakdown.map(line => (
+            <tr key={line.rate}>
+              <td colSpan={4} className="pr-2 text-right text-gray-400">VAT {line.rate}% over {money(line.net)}</td>
+              <td className="pl-2 text-right">{money(line.vat)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td colSpan={4} className="pr-2 text-right font-medium">Total incl. VAT</td>
+            <td className="pl-2 text-right font-bold text-amber-500">{money(pricing.vat.totalInclVat)}</td>
+          </tr>
+          {unitemised !== 0 && (
+            <tr>
+              <td colSpan={4} className="pr-2 text-right text-gray-400">Not itemised (e.g. shipping)</td>
+              <td className="pl-2 text-right text-gray-300">{money(unitemised)}</td>
+            </tr>
+          )}
+        </tfoot>
+      </table>
+      {pricing.lines.some(line => line.vat_source === 'default') && (
+        <p className="mt-2 text-[10px] sm:text-xs text-gray-500">
+          * No VAT rate is configured for {pricing.countryCode || 'this country'}; the default rate is used.
+        </p>
+      )}
+    </div>
+  )
+}
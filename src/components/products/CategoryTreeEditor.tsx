@@ -0,0 +1,165 @@
+import React, { useState } from 'react'
+import type { CategoryInput, CategoryTreeNode, ProductCategory } from '../../types/catalog'
+import { CATALOG_VALIDATION } from '../../constants/catalog'
+import { buildCategoryTree, flattenCategoryTree, getCategoryWithDescendants } from '../../utils/catalog'
+
+interface CategoryTreeEditorProps {
+  /** Alle categorieën */
+  categories: ProductCategory[]
+
+  /** Aantal producten direct in elke categorie, per categorie-ID */
+  productCounts: Record<string, number>
+
+  /** Of er een wijziging wordt opgeslagen */
+  disabled?: boolean
+
+  onCreate: (input: CategoryInput) => void
+  onUpdate: (category: ProductCategory, changes: Partial<CategoryInput>) => void
+  onDelete: (category: ProductCategory) => void
+}
+
+const inputClassName = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50'
+
+/**
+ * Categorieboom met toevoegen, hernoemen, verplaatsen en verwijderen
+ */
+export default function CategoryTreeEditor({
+  categories,
+  productCounts,
+  disabled = false,
+  onCreate,
+  onUpdate,
+  onDelete
+}: CategoryTreeEditorProps) {
+  const [name, setName] = useState('')
+  const [parentId, setParentId] = useState('')
+  const [movingId, setMovingId] = useState<string | null>(null)
+
+  const nodes = flattenCategoryTree(buildCategoryTree(categories))
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || disabled) return
+
+    onCreate({ name: name.trim(), parent_id: parentId || null })
+    setName('')
+  }
+
+  const rename = (category: CategoryTreeNode) => {
+    const newName = window.prompt('New name:', category.name)
+    if (newName?.trim() && newName.trim() !== category.name) {
+      onUpdate(category, { name: newName.trim() })
+    }
+  }
+
+  // A category can't move under itself or its own subcategories
+  const moveTargets = (category: CategoryTreeNode) => {
+    const excluded = getCategoryWithDescendants(categories, category.id)
+    return nodes.filter(node => !excluded.has(node.id))
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+        <label className="text-xs text-gray-400 flex-1 min-w-[10rem]">
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={CATALOG_VALIDATION.NAME_MAX_LENGTH}
+            placeholder="e.g. Islay"
+            className={`${inputClassName} w-full mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Parent
+          <select
+            value={parentId}
+            onChange={(e) => setParentId(e.target.value)}
+            className={`${inputClassName} w-full mt-1`}
+          >
+            <option value="">— Top level —</option>
+            {nodes.map(node => (
+              <option key={node.id} value={node.id}>{node.path}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={disabled || !name.trim()}
+          className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Category
+        </button>
+      </form>
+
+      {nodes.length === 0 ? (
+        <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+          <p className="text-gray-400 text-sm">No categories yet</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-700/50">
+          {nodes.map(node => (
+            <li key={node.id} className="py-2 flex flex-wrap items-center gap-2" style={{ paddingLeft: `${node.depth * 1.25}rem` }}>
+              <span className="text-sm text-white">{node.name}</span>
+              <span className="text-xs text-gray-500">
+                {productCounts[node.id] || 0} {(productCounts[node.id] || 0) === 1 ? 'product' : 'products'}
+              </span>
+
+              <div className="ml-auto flex items-center gap-1">
+                {movingId === node.id ? (
+                  <select
+                    autoFocus
+                    value={node.parent_id ?? ''}
+                    onChange={(e) => {
+                      setMovingId(null)
+                      if ((e.target.value || null) !== node.parent_id) {
+                        onUpdate(node, { parent_id: e.target.value || null })
+                      }
+                    }}
+                    onBlur={() => setMovingId(null)}
+                    className={inputClassName}
+                  >
+                    <option value="">— Top level —</option>
+                    {moveTargets(node).map(target => (
+                      <option key={target.id} value={target.id}>{target.path}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => rename(node)}
+                      disabled={disabled}
+                      className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMovingId(node.id)}
+                      disabled={disabled}
+                      className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                    >
+                      Move
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(node)}
+                      disabled={disabled || node.children.length > 0}
+                      title={node.children.length > 0 ? 'Move or delete the subcategories first' : undefined}
+                      className="text-xs px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
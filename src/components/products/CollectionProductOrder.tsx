@@ -0,0 +1,96 @@
+import React from 'react'
+import type { Product } from '../../types/products'
+
+interface CollectionProductOrderProps {
+  /** Producten van de collectie in de gekozen volgorde */
+  productIds: string[]
+
+  /** Alle producten, om namen te tonen en producten toe te voegen */
+  products: Pick<Product, 'id' | 'name' | 'is_active'>[]
+
+  /** Of de volgorde wordt opgeslagen */
+  disabled?: boolean
+
+  onChange: (productIds: string[]) => void
+}
+
+/**
+ * Volgorde van de producten in een collectie: verplaatsen, toevoegen en verwijderen
+ */
+export default function CollectionProductOrder({ productIds, products, disabled = false, onChange }: CollectionProductOrderProps) {
+  const byId = Object.fromEntries(products.map(product => [product.id, product]))
+  const available = products.filter(product => !productIds.includes(product.id))
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= productIds.length) return
+
+    const next = [...productIds]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {productIds.length === 0 ? (
+        <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+          <p className="text-gray-400 text-sm">No products in this collection yet</p>
+        </div>
+      ) : (
+        <ol className="divide-y divide-gray-700/50">
+          {productIds.map((productId, index) => (
+            <li key={productId} className="py-2 flex items-center gap-2">
+              <span className="w-6 text-right text-xs text-gray-500">{index + 1}</span>
+              <span className="flex-1 text-sm text-white">
+                {byId[productId]?.name ?? productId}
+                {byId[productId] && !byId[productId].is_active && (
+                  <span className="ml-2 text-xs text-red-400">inactive</span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-30"
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === productIds.length - 1}
+                className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-30"
+                aria-label="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(productIds.filter(id => id !== productId))}
+                disabled={disabled}
+                className="text-xs px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-white disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...productIds, e.target.value])}
+          disabled={disabled}
+          className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          <option value="">+ Add a product at the end...</option>
+          {available.map(product => (
+            <option key={product.id} value={product.id}>{product.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
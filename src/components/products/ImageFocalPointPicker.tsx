@@ -0,0 +1,71 @@
+import React from 'react'
+import { CldImage } from 'next-cloudinary'
+import type { ImageFocalPoint } from '../../types/products'
+import { clampFocalPoint, focalPointCrop } from '../../utils/productImages'
+
+interface ImageFocalPointPickerProps {
+  publicId: string
+  alt: string
+
+  /** null: de afbeelding wordt rond het midden bijgesneden */
+  focalPoint: ImageFocalPoint | null
+
+  disabled?: boolean
+
+  onChange: (focalPoint: ImageFocalPoint | null) => void
+}
+
+/**
+ * Focal point kiezen door op de afbeelding te klikken, met een voorbeeld van de uitsnede
+ */
+export default function ImageFocalPointPicker({ publicId, alt, focalPoint, disabled = false, onChange }: ImageFocalPointPickerProps) {
+  const pick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled) return
+
+    const bounds = e.currentTarget.getBoundingClientRect()
+    onChange(clampFocalPoint({
+      x: (e.clientX - bounds.left) / bounds.width,
+      y: (e.clientY - bounds.top) / bounds.height,
+    }))
+  }
+
+  return (
+    <div className="flex gap-3 items-start">
+      <div className="flex-1 min-w-0">
+        <div
+          onClick={pick}
+          className={`relative rounded overflow-hidden border border-gray-700 bg-gray-900/50 ${disabled ? '' : 'cursor-crosshair'}`}
+          title="Click to set the focal point"
+        >
+          <CldImage src={publicId} alt={alt} width={480} height={480} sizes="(max-width: 768px) 60vw, 240px" className="block w-full h-auto" />
+          {focalPoint && (
+            <span
+              className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-blue-500/60 shadow pointer-events-none"
+              style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="w-24 shrink-0 space-y-2">
+        <p className="text-xs text-gray-400">Crop preview</p>
+        <div className="relative w-24 h-24 rounded overflow-hidden border border-gray-700 bg-gray-900/50">
+          <CldImage src={publicId} alt={alt} fill sizes="96px" crop={focalPointCrop(focalPoint)} className="object-cover" />
+        </div>
+        <p className="text-xs text-gray-500">
+          {focalPoint ? `${Math.round(focalPoint.x * 100)}% × ${Math.round(focalPoint.y * 100)}%` : 'Centre'}
+        </p>
+        {focalPoint && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="text-xs text-blue-400 hover:underline disabled:opacity-50"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
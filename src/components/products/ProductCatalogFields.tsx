@@ -0,0 +1,150 @@
+import React, { useState } from 'react'
+import type { ProductCategory, ProductCollection } from '../../types/catalog'
+import { CATALOG_VALIDATION } from '../../constants/catalog'
+import { buildCategoryTree, flattenCategoryTree, normalizeTag, normalizeTags } from '../../utils/catalog'
+
+interface ProductCatalogFieldsProps {
+  /** Alle categorieën; de lijst wordt als boom getoond */
+  categories: ProductCategory[]
+
+  /** Alle collecties om het product aan toe te voegen */
+  collections: ProductCollection[]
+
+  /** Tags die al bij andere producten gebruikt worden, als suggesties */
+  tagSuggestions: string[]
+
+  categoryId: string | null
+  tags: string[]
+  collectionIds: string[]
+
+  /** Of het formulier wordt opgeslagen */
+  disabled?: boolean
+
+  onCategoryChange: (categoryId: string | null) => void
+  onTagsChange: (tags: string[]) => void
+  onCollectionsChange: (collectionIds: string[]) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500/50'
+
+/**
+ * Categorie, tags en collecties van een product
+ */
+export default function ProductCatalogFields({
+  categories,
+  collections,
+  tagSuggestions,
+  categoryId,
+  tags,
+  collectionIds,
+  disabled = false,
+  onCategoryChange,
+  onTagsChange,
+  onCollectionsChange
+}: ProductCatalogFieldsProps) {
+  const [tagDraft, setTagDraft] = useState('')
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories))
+
+  const addTags = (value: string) => {
+    const added = value.split(',').map(normalizeTag).filter(Boolean)
+    if (added.length === 0) return
+
+    onTagsChange(normalizeTags([...tags, ...added]).slice(0, CATALOG_VALIDATION.MAX_TAGS))
+    setTagDraft('')
+  }
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTags(tagDraft)
+    } else if (e.key === 'Backspace' && !tagDraft && tags.length > 0) {
+      onTagsChange(tags.slice(0, -1))
+    }
+  }
+
+  const toggleCollection = (collectionId: string, checked: boolean) => {
+    onCollectionsChange(checked
+      ? [...collectionIds, collectionId]
+      : collectionIds.filter(id => id !== collectionId))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium mb-1">Category</label>
+        <select
+          value={categoryId ?? ''}
+          onChange={(e) => onCategoryChange(e.target.value || null)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="">— No category —</option>
+          {categoryOptions.map(category => (
+            <option key={category.id} value={category.id}>
+              {'\u00A0\u00A0\u00A0'.repeat(category.depth)}{category.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Tags</label>
+        <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded focus-within:ring-2 focus-within:ring-blue-500/50">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300 border border-blue-500/30 text-xs">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onTagsChange(tags.filter(candidate => candidate !== tag))}
+                disabled={disabled}
+                className="text-blue-300 hover:text-white"
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={() => addTags(tagDraft)}
+            disabled={disabled || tags.length >= CATALOG_VALIDATION.MAX_TAGS}
+            maxLength={CATALOG_VALIDATION.TAG_MAX_LENGTH}
+            list="product-tag-suggestions"
+            placeholder={tags.length === 0 ? 'e.g. peated, gift, limited edition' : ''}
+            className="flex-1 min-w-[8rem] bg-transparent text-sm py-0.5 focus:outline-none"
+          />
+          <datalist id="product-tag-suggestions">
+            {tagSuggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">Press Enter or comma to add a tag</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Collections</label>
+        {collections.length === 0 ? (
+          <p className="text-xs text-gray-400">No collections yet</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {collections.map(collection => (
+              <label key={collection.id} className="flex items-center space-x-2 text-sm cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={collectionIds.includes(collection.id)}
+                  onChange={(e) => toggleCollection(collection.id, e.target.checked)}
+                  disabled={disabled}
+                  className="w-4 h-4 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 text-blue-600 focus:ring-offset-gray-800"
+                />
+                <span>{collection.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-400 mt-1">New products are added at the end of a collection</p>
+      </div>
+    </div>
+  )
+}
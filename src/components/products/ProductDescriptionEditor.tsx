@@ -0,0 +1,123 @@
+import React, { useMemo, useRef } from 'react'
+import { PRODUCT_VALIDATION } from '../../constants/products'
+import { renderMarkdown } from '../../utils/markdown'
+
+interface ProductDescriptionEditorProps {
+  /** De beschrijving in Markdown */
+  value: string
+
+  /** Of het formulier wordt opgeslagen */
+  disabled?: boolean
+
+  onChange: (value: string) => void
+}
+
+type ToolbarAction = {
+  label: string
+  title: string
+  apply: (selected: string) => { text: string; block?: boolean }
+}
+
+const TOOLBAR: ToolbarAction[] = [
+  { label: 'H', title: 'Heading', apply: selected => ({ text: `## ${selected || 'Heading'}`, block: true }) },
+  { label: 'B', title: 'Bold', apply: selected => ({ text: `**${selected || 'bold text'}**` }) },
+  { label: 'I', title: 'Italic', apply: selected => ({ text: `*${selected || 'italic text'}*` }) },
+  {
+    label: '•',
+    title: 'Bulleted list',
+    apply: selected => ({ text: (selected || 'List item').split('\n').map(line => `- ${line}`).join('\n'), block: true }),
+  },
+  {
+    label: '1.',
+    title: 'Numbered list',
+    apply: selected => ({ text: (selected || 'List item').split('\n').map((line, i) => `${i + 1}. ${line}`).join('\n'), block: true }),
+  },
+  { label: '❝', title: 'Quote', apply: selected => ({ text: `> ${selected || 'Quote'}`, block: true }) },
+  { label: 'Link', title: 'Link', apply: selected => ({ text: `[${selected || 'link text'}](https://)` }) },
+]
+
+// Opmaak voor de gerenderde HTML, zonder typography-plugin
+const PREVIEW_CLASSES = [
+  'text-sm text-gray-200 space-y-3',
+  '[&_h2]:text-lg [&_h2]:font-bold [&_h3]:font-bold [&_h4]:font-semibold [&_h4]:text-gray-300',
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5',
+  '[&_a]:text-blue-400 [&_a]:underline [&_code]:bg-gray-700 [&_code]:px-1 [&_code]:rounded',
+  '[&_blockquote]:border-l-2 [&_blockquote]:border-gray-500 [&_blockquote]:pl-3 [&_blockquote]:italic',
+].join(' ')
+
+/**
+ * Markdown-editor voor de productbeschrijving, met werkbalk en live voorbeeld zoals de shop het toont
+ */
+export default function ProductDescriptionEditor({ value, disabled = false, onChange }: ProductDescriptionEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  // Veilig: renderMarkdown escapet alle tekst en maakt alleen toegestane tags
+  const previewHtml = useMemo(() => renderMarkdown(value), [value])
+
+  const applyAction = (action: ToolbarAction) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    const { selectionStart: start, selectionEnd: end } = textarea
+    const { text, block } = action.apply(value.slice(start, end))
+    // Blokken (kop, lijst, citaat) beginnen op een eigen regel
+    const prefix = block && start > 0 && value[start - 1] !== '\n' ? '\n' : ''
+    const next = value.slice(0, start) + prefix + text + value.slice(end)
+
+    onChange(next)
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(start + prefix.length, start + prefix.length + text.length)
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium">Description</label>
+        <span className="text-xs text-gray-500">Markdown · {value.length}/{PRODUCT_VALIDATION.DESCRIPTION_MAX_LENGTH}</span>
+      </div>
+
+      <div className="grid 2xl:grid-cols-2 gap-3">
+        <div className="flex flex-col">
+          <div className="flex gap-1 mb-1">
+            {TOOLBAR.map(action => (
+              <button
+                key={action.title}
+                type="button"
+                title={action.title}
+                onClick={() => applyAction(action)}
+                disabled={disabled}
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-xs text-white disabled:opacity-50"
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            rows={12}
+            maxLength={PRODUCT_VALIDATION.DESCRIPTION_MAX_LENGTH}
+            className="flex-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            placeholder={'## Tasting notes\n\n- **Nose:** peat smoke, sea spray\n- **Palate:** ...'}
+            required
+          />
+        </div>
+
+        <div className="flex flex-col">
+          <p className="text-xs text-gray-400 mb-1 py-0.5">Preview</p>
+          <div className="flex-1 min-h-[8rem] px-3 py-2 bg-gray-900/50 border border-gray-700 rounded overflow-auto">
+            {value.trim() ? (
+              <div className={PREVIEW_CLASSES} dangerouslySetInnerHTML={{ __html: previewHtml }} />
+            ) : (
+              <p className="text-sm text-gray-500">Nothing to preview yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+import React, { useState } from 'react'
+import { CldImage, CldUploadWidget } from 'next-cloudinary'
+import type { ProductImageDraft } from '../../types/products'
+import { PRODUCT_VALIDATION } from '../../constants/products'
+import { MEDIA_UPLOAD_PRESET } from '../../constants/media'
+import { addImages, focalPointCrop, moveImage } from '../../utils/productImages'
+import MediaLibraryModal from '../media/MediaLibraryModal'
+import ImageFocalPointPicker from './ImageFocalPointPicker'
+
+interface ProductImageGalleryProps {
+  /** De galerij in weergavevolgorde; de eerste afbeelding is de hoofdafbeelding */
+  images: ProductImageDraft[]
+
+  /** Of het formulier wordt opgeslagen */
+  disabled?: boolean
+
+  onChange: (images: ProductImageDraft[]) => void
+}
+
+/**
+ * Productafbeeldingen: uploaden of uit de media library kiezen, volgorde slepen, hoofdafbeelding kiezen,
+ * en per afbeelding alt-tekst en focal point
+ */
+export default function ProductImageGallery({ images, disabled = false, onChange }: ProductImageGalleryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false)
+
+  const selected = images.find(image => image.publicId === selectedId) || images[0] || null
+  const missingAlt = images.filter(image => !image.alt.trim()).length
+
+  const add = (publicId: string) => {
+    onChange(addImages(images, [publicId]))
+    setSelectedId(publicId)
+  }
+
+  const update = (publicId: string, changes: Partial<ProductImageDraft>) => {
+    onChange(images.map(image => image.publicId === publicId ? { ...image, ...changes } : image))
+  }
+
+  const remove = (publicId: string) => {
+    onChange(images.filter(image => image.publicId !== publicId))
+    if (selectedId === publicId) setSelectedId(null)
+  }
+
+  const drop = (index: number) => {
+    if (dragIndex !== null) onChange(moveImage(images, dragIndex, index))
+    setDragIndex(null)
+  }
+
+  const uploadButton = (label: string, className: string) => (
+    <CldUploadWidget
+      uploadPreset={MEDIA_UPLOAD_PRESET}
+      onSuccess={(result: any) => {
+        if (result.info) {
+          add(result.info.public_id)
+        }
+      }}
+    >
+      {({ open }) => (
+        <button type="button" onClick={() => open()} disabled={disabled} className={className}>
+          {label}
+        </button>
+      )}
+    </CldUploadWidget>
+  )
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <label className="block text-sm font-medium">Product Images</label>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => setIsLibraryOpen(true)}
+            disabled={disabled || images.length >= PRODUCT_VALIDATION.MAX_IMAGES}
+            className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+          >
+            From Library
+          </button>
+          {images.length < PRODUCT_VALIDATION.MAX_IMAGES && uploadButton('Add Image', 'text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50')}
+        </div>
+      </div>
+
+      {images.length === 0 ? (
+        <CldUploadWidget
+          uploadPreset={MEDIA_UPLOAD_PRESET}
+          onSuccess={(result: any) => {
+            if (result.info) {
+              add(result.info.public_id)
+            }
+          }}
+        >
+          {({ open }) => (
+            <button
+              type="button"
+              onClick={() => open()}
+              disabled={disabled}
+              className="w-full h-64 border-2 border-dashed border-gray-600 rounded-lg flex flex-col items-center justify-center bg-gray-700/30 hover:bg-gray-700/50 transition-colors duration-200"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 text-gray-400 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+              <p className="text-gray-400 text-sm mb-1">Upload main product image</p>
+              <p className="text-gray-500 text-xs">Click to browse</p>
+            </button>
+          )}
+        </CldUploadWidget>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {images.map((image, index) => (
+              <div
+                key={image.publicId}
+                draggable={!disabled}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => drop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                onClick={() => setSelectedId(image.publicId)}
+                className={`relative group rounded-lg overflow-hidden border-2 h-24 bg-gray-900/50 cursor-move transition-all ${
+                  image.publicId === selected?.publicId ? 'border-blue-500' : 'border-gray-700'
+                } ${dragIndex === index ? 'opacity-40' : ''}`}
+              >
+                <CldImage
+                  src={image.publicId}
+                  alt={image.alt || `Product image ${index + 1}`}
+                  fill
+                  sizes="(max-width: 768px) 33vw, 100px"
+                  crop={focalPointCrop(image.focalPoint)}
+                  className="object-cover pointer-events-none"
+                />
+                {index === 0 && (
+                  <span className="absolute top-1 left-1 px-1.5 rounded-full bg-green-600 text-[10px] text-white">Main</span>
+                )}
+                {!image.alt.trim() && (
+                  <span className="absolute bottom-1 left-1 px-1.5 rounded-full bg-red-600 text-[10px] text-white">No alt text</span>
+                )}
+                <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-1">
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={(e) => { e.stopPropagation(); onChange(moveImage(images, index, 0)) }}
+                      disabled={disabled}
+                      className="px-1.5 py-0.5 bg-green-600 hover:bg-green-700 rounded text-white text-[10px]"
+                    >
+                      Set Main
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); remove(image.publicId) }}
+                    disabled={disabled}
+                    className="px-1.5 py-0.5 bg-red-600 hover:bg-red-700 rounded text-white text-[10px]"
+                    aria-label="Remove image"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Drag images to reorder them; the first one is the main image.
+            {missingAlt > 0 && <span className="text-red-400"> {missingAlt} {missingAlt === 1 ? 'image needs' : 'images need'} alt text.</span>}
+          </p>
+
+          {selected && (
+            <div className="mt-4 p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Alt text</label>
+                <input
+                  type="text"
+                  value={selected.alt}
+                  onChange={(e) => update(selected.publicId, { alt: e.target.value })}
+                  maxLength={PRODUCT_VALIDATION.ALT_TEXT_MAX_LENGTH}
+                  disabled={disabled}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                  placeholder="e.g. Port Ellen 1981 bottle with its wooden gift box"
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">Describes the image for screen readers and when it doesn&apos;t load</p>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Focal point</label>
+                <ImageFocalPointPicker
+                  publicId={selected.publicId}
+                  alt={selected.alt}
+                  focalPoint={selected.focalPoint}
+                  disabled={disabled}
+                  onChange={(focalPoint) => update(selected.publicId, { focalPoint })}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <MediaLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onSelect={(asset) => add(asset.publicId)}
+        title="Add Image from Library"
+        selectedPublicIds={images.map(image => image.publicId)}
+      />
+    </div>
+  )
+}
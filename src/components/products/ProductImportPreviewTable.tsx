@@ -0,0 +1,90 @@
+import React from 'react'
+import type { ProductImportRowResult } from '../../types/productImport'
+import {
+  PRODUCT_IMPORT_ACTION_BADGE_CLASSES,
+  PRODUCT_IMPORT_ACTION_LABELS,
+  PRODUCT_IMPORT_COLUMNS
+} from '../../constants/productImport'
+
+interface ProductImportPreviewTableProps {
+  /** Resultaat van de proefimport per rij */
+  rows: ProductImportRowResult[]
+
+  /** Alleen rijen met fouten tonen */
+  errorsOnly?: boolean
+}
+
+const FIELD_HEADERS = Object.fromEntries(PRODUCT_IMPORT_COLUMNS.map(column => [column.field, column.header]))
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.join(', ')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  const text = String(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+/**
+ * Verschillen van de proefimport: per rij nieuw, bijwerken, ongewijzigd of fout, met de gewijzigde velden
+ */
+export default function ProductImportPreviewTable({ rows, errorsOnly = false }: ProductImportPreviewTableProps) {
+  const visibleRows = errorsOnly ? rows.filter(row => row.action === 'error') : rows
+
+  if (visibleRows.length === 0) {
+    return (
+      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+        <p className="text-gray-400 text-sm">{errorsOnly ? 'No rows with errors' : 'The file has no product rows'}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left bg-gray-700/50">
+            <th className="px-3 py-2 text-xs">Row</th>
+            <th className="px-3 py-2 text-xs">Action</th>
+            <th className="px-3 py-2 text-xs">Product</th>
+            <th className="px-3 py-2 text-xs">Changes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map(row => (
+            <tr key={row.rowNumber} className="border-t border-gray-700/30 align-top">
+              <td className="px-3 py-2 text-xs text-gray-400">{row.rowNumber}</td>
+              <td className="px-3 py-2 text-xs">
+                <span className={`px-2 py-0.5 rounded-full whitespace-nowrap ${PRODUCT_IMPORT_ACTION_BADGE_CLASSES[row.action]}`}>
+                  {PRODUCT_IMPORT_ACTION_LABELS[row.action]}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-xs text-white">{row.productName || '—'}</td>
+              <td className="px-3 py-2 text-xs">
+                {row.errors.length > 0 ? (
+                  <ul className="text-red-400 space-y-0.5">
+                    {row.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {Object.keys(row.changes).map(field => (
+                      <li key={field}>
+                        <span className="text-gray-400">{FIELD_HEADERS[field] ?? field}: </span>
+                        {row.action === 'update' && (
+                          <>
+                            <span className="text-red-400 line-through">{formatValue(row.changes[field].from)}</span>
+                            <span className="text-gray-500"> → </span>
+                          </>
+                        )}
+                        <span className="text-green-400">{formatValue(row.changes[field].to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
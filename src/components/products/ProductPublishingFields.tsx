@@ -0,0 +1,82 @@
+import React from 'react'
+import type { ProductPublishingDraft, ProductStatus } from '../../types/products'
+import { PRODUCT_STATUSES, PRODUCT_STATUS_LABELS } from '../../constants/products'
+
+interface ProductPublishingFieldsProps {
+  /** Status en planning zoals in het formulier; datums in lokale tijd (datetime-local) */
+  value: ProductPublishingDraft
+
+  /** Of het formulier wordt opgeslagen */
+  disabled?: boolean
+
+  onChange: (value: ProductPublishingDraft) => void
+}
+
+const STATUS_HINTS: Record<ProductStatus, string> = {
+  draft: 'Not visible in the shop',
+  scheduled: 'Goes live automatically at the publish date',
+  live: 'Visible in the shop',
+}
+
+/**
+ * Publicatiestatus van een product: concept, ingepland of live, met een publicatie- en optionele einddatum
+ */
+export default function ProductPublishingFields({ value, disabled = false, onChange }: ProductPublishingFieldsProps) {
+  const setStatus = (status: ProductStatus) => {
+    // Live gaat direct online; een eerder ingeplande datum in de toekomst zou de server weigeren
+    const publishAt = status === 'live' && value.status !== 'live' ? '' : value.publishAt
+    onChange({ ...value, status, publishAt })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium mb-2">Status</label>
+        <div className="flex gap-2">
+          {PRODUCT_STATUSES.map(status => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => setStatus(status)}
+              disabled={disabled}
+              className={`px-3 py-1.5 rounded text-sm transition-colors duration-200 disabled:opacity-50 ${
+                value.status === status ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              {PRODUCT_STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-1">{STATUS_HINTS[value.status]}</p>
+      </div>
+
+      {value.status === 'scheduled' && (
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Publish at</label>
+          <input
+            type="datetime-local"
+            value={value.publishAt}
+            onChange={(e) => onChange({ ...value, publishAt: e.target.value })}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            required
+          />
+        </div>
+      )}
+
+      {value.status !== 'draft' && (
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Unpublish at (optional)</label>
+          <input
+            type="datetime-local"
+            value={value.unpublishAt}
+            onChange={(e) => onChange({ ...value, unpublishAt: e.target.value })}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <p className="text-xs text-gray-500 mt-1">The product goes back to draft at this time</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react'
+import { addMonths, format, startOfMonth } from 'date-fns'
+import type { ProductReleaseEvent } from '../../types/products'
+import { buildReleaseCalendar } from '../../utils/productPublishing'
+
+interface ProductReleaseCalendarProps {
+  /** Geplande publicaties en einddatums, vroegste eerst */
+  events: ProductReleaseEvent[]
+
+  onSelectProduct: (productId: string) => void
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/**
+ * Maandkalender met de komende publicaties (groen) en einddatums (rood) van producten
+ */
+export default function ProductReleaseCalendar({ events, onSelectProduct }: ProductReleaseCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+
+  const weeks = useMemo(() => buildReleaseCalendar(events, month), [events, month])
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <button
+          type="button"
+          onClick={() => setMonth(addMonths(month, -1))}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm"
+          aria-label="Previous month"
+        >
+          ‹
+        </button>
+        <h2 className="text-lg font-semibold">{format(month, 'MMMM yyyy')}</h2>
+        <button
+          type="button"
+          onClick={() => setMonth(addMonths(month, 1))}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm"
+          aria-label="Next month"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-xs text-gray-400 mb-1">
+        {WEEKDAYS.map(day => <div key={day} className="px-2">{day}</div>)}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {weeks.flat().map(day => (
+          <div
+            key={day.date}
+            className={`min-h-[6rem] p-1.5 rounded border ${
+              day.date === today ? 'border-blue-500/60' : 'border-gray-700/50'
+            } ${day.inMonth ? 'bg-gray-900/40' : 'bg-gray-900/10 text-gray-600'}`}
+          >
+            <p className="text-xs mb-1">{Number(day.date.slice(8))}</p>
+            <div className="space-y-1">
+              {day.events.map(event => (
+                <button
+                  key={`${event.productId}-${event.action}`}
+                  type="button"
+                  onClick={() => onSelectProduct(event.productId)}
+                  title={`${event.action === 'publish' ? 'Publishes' : 'Unpublishes'} at ${format(new Date(event.at), 'HH:mm')}`}
+                  className={`block w-full truncate text-left px-1.5 py-0.5 rounded text-[11px] ${
+                    event.action === 'publish'
+                      ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30'
+                      : 'bg-red-500/20 text-red-300 hover:bg-red-500/30'
+                  }`}
+                >
+                  {format(new Date(event.at), 'HH:mm')} {event.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {events.length === 0 && (
+        <p className="text-sm text-gray-400 text-center mt-4">No scheduled releases</p>
+      )}
+    </div>
+  )
+}
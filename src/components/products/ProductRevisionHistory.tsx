@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import type { ProductImageMeta, ProductRevision, ProductRevisionSnapshot } from '../../types/products'
+import type { AuditAction } from '../../types/audit'
+import { PRODUCT_REVISION_FIELDS, PRODUCT_REVISION_FIELD_LABELS } from '../../constants/products'
+import { diffSnapshots } from '../../utils/revisions'
+import { formatMoney } from '../../utils/currency'
+
+interface ProductRevisionHistoryProps {
+  /** Opgeslagen revisies, nieuwste eerst; de eerste is de huidige versie */
+  revisions: ProductRevision[]
+
+  /** Categorienamen per ID, om de categorie leesbaar te tonen */
+  categoryNames: Record<string, string>
+
+  /** Of de revisies nog geladen worden */
+  isLoading?: boolean
+
+  /** ID van de revisie die wordt teruggezet */
+  restoringId?: string | null
+
+  /** Zet een eerdere revisie terug als nieuwe revisie */
+  onRestore: (revision: ProductRevision) => void
+}
+
+const ACTION_LABELS: Partial<Record<AuditAction, string>> = {
+  'product.created': 'Created',
+  'product.updated': 'Saved',
+  'product.restored': 'Restored',
+}
+
+const formatTime = (timestamp: string) => format(new Date(timestamp), 'MMM dd, yyyy HH:mm')
+
+/**
+ * Revisiegeschiedenis van een product: twee revisies naast elkaar vergelijken en een eerdere terugzetten
+ */
+export default function ProductRevisionHistory({
+  revisions,
+  categoryNames,
+  isLoading = false,
+  restoringId = null,
+  onRestore,
+}: ProductRevisionHistoryProps) {
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+
+  // Standaard de huidige versie tegenover de vorige
+  const to = revisions.find(revision => revision.id === toId) || revisions[0] || null
+  const from = revisions.find(revision => revision.id === fromId) || revisions[1] || null
+
+  const rows = useMemo(
+    () => (from && to ? diffSnapshots<ProductRevisionSnapshot>(from.snapshot, to.snapshot, PRODUCT_REVISION_FIELDS) : []),
+    [from, to]
+  )
+  const changedCount = rows.filter(row => row.changed).length
+
+  const formatValue = (field: string, value: any): string => {
+    if (value === null || value === undefined || value === '') return '—'
+    switch (field) {
+      case 'price':
+        return formatMoney(value)
+      case 'category_id':
+        return categoryNames[value] || value
+      case 'tags':
+      case 'images':
+        return (value as string[]).length > 0 ? (value as string[]).join(field === 'tags' ? ', ' : '\n') : '—'
+      case 'image_meta':
+        return Object.entries(value as Record<string, ProductImageMeta>)
+          .map(([publicId, meta]) => `${publicId}: ${meta.alt || '(no alt text)'}${meta.focal_point ? ` @ ${Math.round(meta.focal_point.x * 100)}%, ${Math.round(meta.focal_point.y * 100)}%` : ''}`)
+          .join('\n') || '—'
+      default:
+        return String(value)
+    }
+  }
+
+  const revisionLabel = (revision: ProductRevision) =>
+    `${formatTime(revision.createdAt)} · ${revision.actorEmail || 'System'}`
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Loading revisions...</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-400">No revisions yet. Every save from now on is kept here.</p>
+  }
+
+  return (
+    <div className="space-y-5">
+      <ol className="divide-y divide-gray-700/50 border border-gray-700/50 rounded-lg">
+        {revisions.map((revision, index) => (
+          <li key={revision.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="text-gray-200">
+                <span className="font-medium">{ACTION_LABELS[revision.action] || revision.action}</span>
+                {' by '}{revision.actorEmail || 'System'}
+                {index === 0 && <span className="ml-2 px-1.5 rounded-full bg-green-600 text-[10px] text-white">Current</span>}
+              </p>
+              <p className="text-xs text-gray-400 truncate">
+                {formatTime(revision.createdAt)}
+                {revision.changedFields.length > 0 && ` · ${revision.changedFields.join(', ')}`}
+                {revision.restoredFrom && ` · restored ${formatTime(revisions.find(r => r.id === revision.restoredFrom)?.createdAt || revision.createdAt)}`}
+              </p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button
+                type="button"
+                onClick={() => setFromId(revision.id)}
+                className={`px-2 py-1 rounded text-xs ${from?.id === revision.id ? 'bg-red-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              >
+                A
+              </button>
+              <button
+                type="button"
+                onClick={() => setToId(revision.id)}
+                className={`px-2 py-1 rounded text-xs ${to?.id === revision.id ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              >
+                B
+              </button>
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onRestore(revision)}
+                  disabled={!!restoringId}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs disabled:opacity-50"
+                >
+                  {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {from && to ? (
+        <div className="overflow-x-auto">
+          <p className="text-xs text-gray-400 mb-2">
+            {changedCount === 0 ? 'These revisions are the same' : `${changedCount} ${changedCount === 1 ? 'field differs' : 'fields differ'}`}
+          </p>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-xs text-gray-400">
+                <th className="p-2 w-40">Field</th>
+                <th className="p-2">A · {revisionLabel(from)}</th>
+                <th className="p-2">B · {revisionLabel(to)}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.field} className="border-t border-gray-700/50 align-top">
+                  <td className="p-2 text-gray-400">{PRODUCT_REVISION_FIELD_LABELS[row.field as keyof typeof PRODUCT_REVISION_FIELD_LABELS]}</td>
+                  <td className={`p-2 whitespace-pre-wrap break-words ${row.changed ? 'bg-red-500/10 text-red-200' : 'text-gray-300'}`}>
+                    {formatValue(row.field, row.from)}
+                  </td>
+                  <td className={`p-2 whitespace-pre-wrap break-words ${row.changed ? 'bg-green-500/10 text-green-200' : 'text-gray-300'}`}>
+                    {formatValue(row.field, row.to)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Save the product again to have two revisions to compare.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import React from 'react'
+import { CldImage, CldUploadWidget } from 'next-cloudinary'
+import type { ProductVariantDraft } from '../../types/products'
+import { COMMON_BOTTLE_SIZES_ML, PRODUCT_VALIDATION } from '../../constants/products'
+import { formatBottleSize, summarizeVariants, toVariantDraft } from '../../utils/productVariants'
+
+interface ProductVariantEditorProps {
+  /** De varianten zoals ze in het formulier staan */
+  variants: ProductVariantDraft[]
+
+  /** Of het formulier wordt opgeslagen */
+  disabled?: boolean
+
+  onChange: (variants: ProductVariantDraft[]) => void
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50'
+
+/**
+ * Bewerkt de varianten van een product (flesinhoud, jaargang, vat) met elk een eigen SKU, prijs, voorraad en afbeelding
+ */
+export default function ProductVariantEditor({ variants, disabled = false, onChange }: ProductVariantEditorProps) {
+  const updateVariant = (key: string, changes: Partial<ProductVariantDraft>) => {
+    onChange(variants.map(variant => (variant.key === key ? { ...variant, ...changes } : variant)))
+  }
+
+  const summary = summarizeVariants(
+    variants
+      .filter(variant => variant.price !== '' && variant.stock !== '')
+      .map(variant => ({ price: Number(variant.price) || 0, stock: Number(variant.stock) || 0 }))
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <label className="block text-sm font-medium">Variants</label>
+          <p className="text-xs text-gray-400">
+            {variants.length === 0
+              ? 'One price and stock for the whole product'
+              : `${summary.stock} in stock across ${variants.length} ${variants.length === 1 ? 'variant' : 'variants'}`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...variants, toVariantDraft()])}
+          disabled={disabled || variants.length >= PRODUCT_VALIDATION.MAX_VARIANTS}
+          className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Variant
+        </button>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400">
+                <th className="px-1 py-2 font-medium">Image</th>
+                <th className="px-1 py-2 font-medium">SKU</th>
+                <th className="px-1 py-2 font-medium">Size (ml)</th>
+                <th className="px-1 py-2 font-medium">Vintage</th>
+                <th className="px-1 py-2 font-medium">Cask</th>
+                <th className="px-1 py-2 font-medium">Price (€)</th>
+                <th className="px-1 py-2 font-medium">Stock</th>
+                <th className="px-1 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map(variant => (
+                <tr key={variant.key} className="border-t border-gray-700/30 align-middle">
+                  <td className="px-1 py-2">
+                    <CldUploadWidget
+                      uploadPreset="product_images"
+                      onSuccess={(result: any) => {
+                        if (result.info) {
+                          updateVariant(variant.key, { image: result.info.public_id })
+                        }
+                      }}
+                    >
+                      {({ open }) => (
+                        <button
+                          type="button"
+                          onClick={() => open()}
+                          disabled={disabled}
+                          title={variant.image ? 'Replace image' : 'Upload image'}
+                          className="relative w-10 h-10 rounded border border-dashed border-gray-600 bg-gray-700/30 hover:bg-gray-700/50 overflow-hidden flex items-center justify-center text-gray-400"
+                        >
+                          {variant.image ? (
+                            <CldImage src={variant.image} alt={variant.sku || 'Variant image'} fill sizes="40px" className="object-contain" />
+                          ) : '+'}
+                        </button>
+                      )}
+                    </CldUploadWidget>
+                  </td>
+                  <td className="px-1 py-2 min-w-[120px]">
+                    <input
+                      type="text"
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(variant.key, { sku: e.target.value.toUpperCase() })}
+                      disabled={disabled}
+                      required
+                      className={`${inputClassName} font-mono`}
+                      placeholder="WFC-12-70"
+                    />
+                  </td>
+                  <td className="px-1 py-2 min-w-[90px]">
+                    <input
+                      type="number"
+                      list="variant-bottle-sizes"
+                      min={PRODUCT_VALIDATION.MIN_BOTTLE_SIZE_ML}
+                      max={PRODUCT_VALIDATION.MAX_BOTTLE_SIZE_ML}
+                      value={variant.bottleSizeMl}
+                      onChange={(e) => updateVariant(variant.key, { bottleSizeMl: e.target.value })}
+                      disabled={disabled}
+                      className={inputClassName}
+                      placeholder="700"
+                    />
+                  </td>
+                  <td className="px-1 py-2 min-w-[80px]">
+                    <input
+                      type="number"
+                      min={PRODUCT_VALIDATION.MIN_VINTAGE}
+                      max={new Date().getFullYear()}
+                      value={variant.vintage}
+                      onChange={(e) => updateVariant(variant.key, { vintage: e.target.value })}
+                      disabled={disabled}
+                      className={inputClassName}
+                      placeholder="2012"
+                    />
+                  </td>
+                  <td className="px-1 py-2 min-w-[120px]">
+                    <input
+                      type="text"
+                      maxLength={PRODUCT_VALIDATION.CASK_MAX_LENGTH}
+                      value={variant.cask}
+                      onChange={(e) => updateVariant(variant.key, { cask: e.target.value })}
+                      disabled={disabled}
+                      className={inputClassName}
+                      placeholder="Sherry cask"
+                    />
+                  </td>
+                  <td className="px-1 py-2 min-w-[80px]">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.price}
+                      onChange={(e) => updateVariant(variant.key, { price: e.target.value })}
+                      disabled={disabled}
+                      required
+                      className={inputClassName}
+                      placeholder="0.00"
+                    />
+                  </td>
+                  <td className="px-1 py-2 min-w-[70px]">
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(variant.key, { stock: e.target.value })}
+                      disabled={disabled}
+                      required
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-1 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onChange(variants.filter(candidate => candidate.key !== variant.key))}
+                      disabled={disabled}
+                      className="px-2 py-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="variant-bottle-sizes">
+            {COMMON_BOTTLE_SIZES_ML.map(size => (
+              <option key={size} value={size}>{formatBottleSize(size)}</option>
+            ))}
+          </datalist>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react'
+import type { StockAdjustmentInput } from '../../types/inventory'
+import { STOCK_REASON_MAX_LENGTH } from '../../constants/inventory'
+
+interface StockAdjustmentFormProps {
+  /** Varianten om uit te kiezen; leeg voor producten zonder varianten */
+  variants: { id: string; label: string; stock: number }[]
+
+  /** Huidige voorraad van een product zonder varianten */
+  currentStock: number
+
+  /** Of de aanpassing wordt opgeslagen */
+  isSubmitting?: boolean
+
+  onSubmit: (input: StockAdjustmentInput) => void
+}
+
+const inputClassName = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50'
+
+/**
+ * Formulier om een getelde voorraad met reden vast te leggen
+ */
+export default function StockAdjustmentForm({ variants, currentStock, isSubmitting = false, onSubmit }: StockAdjustmentFormProps) {
+  const [variantId, setVariantId] = useState(variants[0]?.id ?? '')
+  const [stock, setStock] = useState('')
+  const [reason, setReason] = useState('')
+
+  const selectedStock = variants.length > 0
+    ? variants.find(variant => variant.id === variantId)?.stock ?? 0
+    : currentStock
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting) return
+
+    onSubmit({ stock: Number(stock), variantId: variants.length > 0 ? variantId : null, reason: reason.trim() })
+    setStock('')
+    setReason('')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+      {variants.length > 0 && (
+        <label className="text-xs text-gray-400">
+          Variant
+          <select
+            value={variantId}
+            onChange={(e) => setVariantId(e.target.value)}
+            className={`${inputClassName} w-full mt-1`}
+          >
+            {variants.map(variant => (
+              <option key={variant.id} value={variant.id}>{variant.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="text-xs text-gray-400">
+        Counted stock
+        <input
+          type="number"
+          min="0"
+          value={stock}
+          onChange={(e) => setStock(e.target.value)}
+          required
+          placeholder={String(selectedStock)}
+          className={`${inputClassName} w-24 mt-1 block`}
+        />
+      </label>
+      <label className="text-xs text-gray-400 flex-grow">
+        Reason
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          required
+          maxLength={STOCK_REASON_MAX_LENGTH}
+          placeholder="e.g. Stock count, breakage"
+          className={`${inputClassName} w-full mt-1 block`}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isSubmitting || stock === '' || Number(stock) === selectedStock}
+        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? 'Saving...' : 'Adjust Stock'}
+      </button>
+    </form>
+  )
+}
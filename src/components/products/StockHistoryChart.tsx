@@ -0,0 +1,76 @@
+import React from 'react'
+import { format } from 'date-fns'
+import type { StockSeriesPoint } from '../../types/inventory'
+
+interface StockHistoryChartProps {
+  /** Voorraad na elke mutatie, oudste eerst */
+  points: StockSeriesPoint[]
+
+  /** Drempel voor de lage-voorraadmelding, als stippellijn getekend */
+  threshold?: number
+}
+
+const WIDTH = 600
+const HEIGHT = 160
+const PADDING = { top: 10, right: 10, bottom: 20, left: 36 }
+
+/**
+ * Trapgrafiek van het voorraadverloop van een product of variant
+ */
+export default function StockHistoryChart({ points, threshold }: StockHistoryChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="text-center bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
+        <p className="text-gray-500 text-sm">No stock movements yet</p>
+      </div>
+    )
+  }
+
+  const times = points.map(point => new Date(point.at).getTime())
+  const first = times[0]
+  const last = Math.max(times[times.length - 1], Date.now())
+  const maxStock = Math.max(...points.map(point => point.stock), threshold ?? 0, 1)
+  const minStock = Math.min(0, ...points.map(point => point.stock))
+
+  const x = (time: number) => PADDING.left + ((time - first) / Math.max(last - first, 1)) * (WIDTH - PADDING.left - PADDING.right)
+  const y = (stock: number) => PADDING.top + ((maxStock - stock) / (maxStock - minStock)) * (HEIGHT - PADDING.top - PADDING.bottom)
+
+  // Horizontal until the next movement, then straight up or down, ending today
+  const path = points
+    .map((point, index) => {
+      const nextTime = index + 1 < points.length ? times[index + 1] : last
+      const move = index === 0 ? `M${x(times[0]).toFixed(1)},${y(point.stock).toFixed(1)}` : `V${y(point.stock).toFixed(1)}`
+      return `${move} H${x(nextTime).toFixed(1)}`
+    })
+    .join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40" role="img" aria-label="Stock history">
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} className="stroke-gray-700" strokeWidth={1} />
+      <text x={PADDING.left - 6} y={y(maxStock) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">{maxStock}</text>
+      <text x={PADDING.left - 6} y={y(0) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">0</text>
+
+      {threshold !== undefined && (
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(threshold)}
+          y2={y(threshold)}
+          className="stroke-orange-500/60"
+          strokeWidth={1}
+          strokeDasharray="4 4"
+        />
+      )}
+
+      <path d={path} fill="none" className="stroke-amber-500" strokeWidth={2} strokeLinejoin="round" />
+      {points.map((point, index) => (
+        <circle key={index} cx={x(times[index])} cy={y(point.stock)} r={2.5} className="fill-amber-500">
+          <title>{`${format(new Date(point.at), 'MMM dd, yyyy HH:mm')}: ${point.stock}`}</title>
+        </circle>
+      ))}
+
+      <text x={PADDING.left} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">{format(new Date(first), 'MMM dd, yyyy')}</text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">Today</text>
+    </svg>
+  )
+}
@@ -0,0 +1,64 @@
+import React from 'react'
+import { format } from 'date-fns'
+import type { StockMovementRecord } from '../../types/inventory'
+import { STOCK_MOVEMENT_BADGE_CLASSES, STOCK_MOVEMENT_LABELS } from '../../constants/inventory'
+
+interface StockMovementListProps {
+  /** Voorraadmutaties, nieuwste eerst */
+  movements: StockMovementRecord[]
+
+  /** Variantnamen per variant-ID, voor producten met varianten */
+  variantLabels?: Record<string, string>
+}
+
+/**
+ * Grootboek van voorraadmutaties met type, aantal, reden en gebruiker
+ */
+export default function StockMovementList({ movements, variantLabels = {} }: StockMovementListProps) {
+  if (movements.length === 0) {
+    return (
+      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+        <p className="text-gray-400 text-sm">No stock movements</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left bg-gray-700/50">
+            <th className="px-3 py-2 text-xs">Date</th>
+            <th className="px-3 py-2 text-xs">Type</th>
+            <th className="px-3 py-2 text-xs text-right">Change</th>
+            <th className="px-3 py-2 text-xs text-right">Stock</th>
+            <th className="px-3 py-2 text-xs">Reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          {movements.map((movement, index) => (
+            <tr key={movement.id ?? index} className="border-t border-gray-700/30 align-top">
+              <td className="px-3 py-2 text-xs text-gray-300 whitespace-nowrap">
+                {movement.created_at ? format(new Date(movement.created_at), 'MMM dd, yyyy HH:mm') : 'Just now'}
+                {movement.created_by_email && <div className="text-gray-500 break-all">{movement.created_by_email}</div>}
+              </td>
+              <td className="px-3 py-2 text-xs">
+                <span className={`px-2 py-0.5 rounded-full ${STOCK_MOVEMENT_BADGE_CLASSES[movement.type]}`}>
+                  {STOCK_MOVEMENT_LABELS[movement.type]}
+                </span>
+                {movement.variant_id && (
+                  <div className="text-gray-400 mt-1">{variantLabels[movement.variant_id] ?? 'Removed variant'}</div>
+                )}
+              </td>
+              <td className={`px-3 py-2 text-xs text-right font-medium ${movement.quantity < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+              </td>
+              <td className="px-3 py-2 text-xs text-right">{movement.stock_after}</td>
+              <td className="px-3 py-2 text-xs text-gray-300">{movement.reason || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
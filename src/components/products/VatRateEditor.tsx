@@ -0,0 +1,162 @@
+import React, { FormEvent, useMemo, useState } from 'react'
+import type { ProductCategory } from '../../types/catalog'
+import type { VatRateInput, VatRateRecord } from '../../types/pricing'
+import { DEFAULT_VAT_RATE } from '../../constants/documents'
+import { VAT_RATE_LIMITS } from '../../constants/pricing'
+import { buildCategoryTree, flattenCategoryTree } from '../../utils/catalog'
+
+interface VatRateEditorProps {
+  /** Ingestelde btw-tarieven */
+  rates: VatRateRecord[]
+
+  /** Alle categorieën, voor de keuzelijst en de namen */
+  categories: ProductCategory[]
+
+  /** Of de gebruiker tarieven mag wijzigen */
+  canEdit?: boolean
+
+  /** Of er een wijziging wordt opgeslagen */
+  disabled?: boolean
+
+  onSave: (input: VatRateInput) => void
+  onDelete: (rate: VatRateRecord) => void
+}
+
+/**
+ * Btw-tarieven per land, met afwijkende tarieven per categorie (die ook voor de subcategorieën gelden)
+ */
+export default function VatRateEditor({ rates, categories, canEdit = false, disabled = false, onSave, onDelete }: VatRateEditorProps) {
+  const [countryCode, setCountryCode] = useState('')
+  const [categoryId, setCategoryId] = useState('')
+  const [rate, setRate] = useState('')
+
+  const categoryOptions = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories])
+  const categoryPaths = useMemo(
+    () => Object.fromEntries(categoryOptions.map(category => [category.id, category.path])),
+    [categoryOptions]
+  )
+
+  // Per land: eerst het standaardtarief, dan de categorieën
+  const countries = useMemo(() => {
+    const byCountry = new Map<string, VatRateRecord[]>()
+    rates.forEach(vatRate => {
+      byCountry.set(vatRate.country_code, [...(byCountry.get(vatRate.country_code) || []), vatRate])
+    })
+    return Array.from(byCountry.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([code, countryRates]) => ({
+        code,
+        rates: countryRates.sort((a, b) =>
+          a.category_id === null ? -1 : b.category_id === null ? 1 : (categoryPaths[a.category_id] || '').localeCompare(categoryPaths[b.category_id] || '')
+        ),
+      }))
+  }, [rates, categoryPaths])
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!/^[a-zA-Z]{2}$/.test(countryCode.trim()) || rate === '') return
+
+    onSave({ country_code: countryCode.trim().toUpperCase(), category_id: categoryId || null, rate: Number(rate) })
+    setCategoryId('')
+    setRate('')
+  }
+
+  // Een bestaand tarief in het formulier zetten om het te wijzigen
+  const edit = (vatRate: VatRateRecord) => {
+    setCountryCode(vatRate.country_code)
+    setCategoryId(vatRate.category_id || '')
+    setRate(String(vatRate.rate))
+  }
+
+  return (
+    <div className="space-y-4">
+      {countries.length === 0 ? (
+        <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 text-center">
+          <p className="text-gray-400 text-sm">No VAT rates yet; every order uses {DEFAULT_VAT_RATE}%</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-700/50 border border-gray-700/50 rounded-lg">
+          {countries.map(country => (
+            <li key={country.code} className="px-3 py-2">
+              <p className="font-mono font-semibold text-sm mb-1">{country.code}</p>
+              <ul className="space-y-1">
+                {country.rates.map(vatRate => (
+                  <li key={vatRate.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className={vatRate.category_id ? 'text-gray-300' : 'text-gray-200 font-medium'}>
+                      {vatRate.category_id ? categoryPaths[vatRate.category_id] || 'Deleted category' : 'Standard rate'}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium text-amber-500">{Number(vatRate.rate)}%</span>
+                      {canEdit && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => edit(vatRate)}
+                            disabled={disabled}
+                            className="text-xs px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onDelete(vatRate)}
+                            disabled={disabled}
+                            className="text-xs px-2 py-0.5 bg-red-600 hover:bg-red-700 rounded text-white disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+          <input
+            type="text"
+            value={countryCode}
+            onChange={(e) => setCountryCode(e.target.value)}
+            maxLength={2}
+            placeholder="Country, e.g. BE"
+            className="w-32 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm uppercase focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            className="flex-1 min-w-[10rem] px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="">Standard rate (all categories)</option>
+            {categoryOptions.map(category => (
+              <option key={category.id} value={category.id}>
+                {'\u00A0\u00A0\u00A0'.repeat(category.depth)}{category.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            min={VAT_RATE_LIMITS.MIN}
+            max={VAT_RATE_LIMITS.MAX}
+            step="0.1"
+            placeholder="Rate %"
+            className="w-24 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !/^[a-zA-Z]{2}$/.test(countryCode.trim()) || rate === ''}
+            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Rate
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
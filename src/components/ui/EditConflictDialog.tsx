@@ -0,0 +1,132 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import type { ConflictChoice, ConflictField, EditConflict } from '../../types/concurrency'
+import { compareEdits, mergeEdits } from '../../utils/concurrency'
+import { diffWords } from '../../utils/revisions'
+
+interface EditConflictDialogProps {
+  /** Het conflict: de versie waar de bewerking mee begon, die van de ander en die van de gebruiker */
+  conflict: EditConflict
+
+  /** Waarden om alsnog op te slaan, of null om de eigen wijziging te laten vallen */
+  onResolve: (values: Record<string, any> | null) => void
+}
+
+const DIFF_CLASSES = {
+  same: '',
+  added: 'bg-green-500/20 text-green-200',
+  removed: 'bg-red-500/20 text-red-200 line-through',
+}
+
+const formatValue = (field: ConflictField, value: any): string => {
+  if (field.format) return field.format(value)
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value) && value.every(entry => typeof entry !== 'object')) return value.length > 0 ? value.join(', ') : '—'
+  if (typeof value === 'object') return JSON.stringify(value, null, 2)
+  return String(value)
+}
+
+/**
+ * Dialoog voor een wijziging die iemand anders eerder opsloeg: hun versie naast de jouwe, met samenvoegen of overschrijven
+ */
+export default function EditConflictDialog({ conflict, onResolve }: EditConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({})
+
+  const comparisons = useMemo(() => compareEdits(conflict), [conflict])
+  // Only the fields where the two versions differ
+  const rows = comparisons.filter(row => JSON.stringify(row.theirs) !== JSON.stringify(row.yours))
+  const conflicting = rows.filter(row => row.conflicting)
+
+  const merge = () => onResolve(mergeEdits(comparisons, conflict.yours, choices))
+  const overwrite = () => onResolve({ ...conflict.yours })
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl border border-gray-700">
+        <div className="border-b border-gray-700 p-4">
+          <h3 className="text-xl font-medium text-white">{conflict.title}</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            {conflict.theirAuthor || 'Someone else'} saved a change
+            {conflict.theirTime && ` on ${format(new Date(conflict.theirTime), 'MMM dd, yyyy HH:mm')}`} while you were editing.
+            {conflicting.length > 0
+              ? ` You both changed ${conflicting.map(row => row.field.label).join(', ')}; choose which version to keep.`
+              : ' Your changes don\'t overlap, so they can be merged.'}
+          </p>
+        </div>
+
+        <div className="overflow-y-auto p-4">
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-400">Their version is the same as yours.</p>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left text-xs text-gray-400">
+                  <th className="p-2 w-40">Field</th>
+                  <th className="p-2">Theirs</th>
+                  <th className="p-2">Yours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const theirs = formatValue(row.field, row.theirs)
+                  const yours = formatValue(row.field, row.yours)
+                  const choice = choices[row.field.key] || 'yours'
+                  const pick = (side: ConflictChoice) => setChoices(current => ({ ...current, [row.field.key]: side }))
+
+                  return (
+                    <tr key={row.field.key} className="border-t border-gray-700/50 align-top">
+                      <td className="p-2 text-gray-400">
+                        {row.field.label}
+                        <p className="text-xs text-gray-500 mt-1">
+                          {row.conflicting ? 'Changed by both' : row.changedByYou ? 'Changed by you' : 'Changed by them'}
+                        </p>
+                      </td>
+                      <td className={`p-2 whitespace-pre-wrap break-words ${row.conflicting && choice === 'theirs' ? 'ring-1 ring-blue-500 rounded' : ''}`}>
+                        <span className="text-gray-300">{theirs}</span>
+                        {row.conflicting && (
+                          <label className="flex items-center gap-2 mt-2 text-xs text-gray-300">
+                            <input type="radio" checked={choice === 'theirs'} onChange={() => pick('theirs')} />
+                            Keep theirs
+                          </label>
+                        )}
+                      </td>
+                      <td className={`p-2 whitespace-pre-wrap break-words ${row.conflicting && choice === 'yours' ? 'ring-1 ring-blue-500 rounded' : ''}`}>
+                        {/* Text fields show what you changed relative to their version */}
+                        {typeof row.theirs === 'string' && typeof row.yours === 'string' && !row.field.format
+                          ? diffWords(theirs, yours).map((part, index) => <span key={index} className={DIFF_CLASSES[part.type]}>{part.text}</span>)
+                          : <span className="text-gray-300">{yours}</span>}
+                        {row.conflicting && (
+                          <label className="flex items-center gap-2 mt-2 text-xs text-gray-300">
+                            <input type="radio" checked={choice === 'yours'} onChange={() => pick('yours')} />
+                            Keep yours
+                          </label>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 border-t border-gray-700 p-4">
+          <button className="btn-secondary" onClick={() => onResolve(null)}>
+            Discard My Changes
+          </button>
+          <button
+            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded text-white text-sm transition-colors"
+            onClick={overwrite}
+          >
+            Overwrite with Mine
+          </button>
+          <button className="btn-primary" onClick={merge}>
+            {conflicting.length > 0 ? 'Merge with My Choices' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import React from 'react'
+import type { PresenceMember } from '../../types/presence'
+import { presenceInitials } from '../../utils/presence'
+
+interface PresenceAvatarsProps {
+  /** De andere gebruikers die de pagina open hebben */
+  members: PresenceMember[]
+}
+
+/**
+ * Wie de pagina nog meer open heeft, en welke sectie ze bewerken
+ */
+export default function PresenceAvatars({ members }: PresenceAvatarsProps) {
+  if (members.length === 0) return null
+
+  const editors = members.filter(member => member.isEditing)
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+      <ul className="flex -space-x-2">
+        {members.map(member => (
+          <li
+            key={member.userId}
+            title={`${member.email || 'Unknown user'} · ${member.isEditing ? `editing ${member.sectionLabel}` : 'viewing'}`}
+            className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold text-white ring-2 ring-gray-900 ${member.isEditing ? 'bg-amber-600' : 'bg-gray-600'}`}
+          >
+            {presenceInitials(member.email)}
+          </li>
+        ))}
+      </ul>
+      <span>
+        {editors.length > 0
+          ? editors.map(member => `${member.email || 'Someone'} is editing ${member.sectionLabel}`).join(' · ')
+          : `${members.length} ${members.length === 1 ? 'other person has' : 'others have'} this page open`}
+      </span>
+    </div>
+  )
+}
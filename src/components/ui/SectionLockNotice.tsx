@@ -0,0 +1,39 @@
+import React from 'react'
+import { format } from 'date-fns'
+import type { PresenceMember } from '../../types/presence'
+
+interface SectionLockNoticeProps {
+  /** Wie de sectie nu bewerkt */
+  holder: PresenceMember
+
+  /** Of de gebruiker de sectie zelf ook open heeft; dan heeft de ander hem overgenomen */
+  isEditing?: boolean
+
+  /** Neemt het bewerken van de sectie over */
+  onTakeOver: () => void
+}
+
+/**
+ * Zachte vergrendeling van een sectie die iemand anders bewerkt, met de optie om het over te nemen
+ */
+export default function SectionLockNotice({ holder, isEditing = false, onTakeOver }: SectionLockNoticeProps) {
+  const who = holder.email || 'Someone else'
+  const since = holder.editingSince ? format(new Date(holder.editingSince), 'HH:mm') : null
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-amber-500/10 border border-amber-500/30 p-3 rounded-lg text-amber-300 text-sm">
+      <span>
+        {isEditing
+          ? `${who} took this over${since ? ` at ${since}` : ''}. Saving checks for their changes first.`
+          : `${who} is editing this${since ? ` since ${since}` : ''}.`}
+      </span>
+      <button
+        type="button"
+        onClick={onTakeOver}
+        className="px-3 py-1 bg-amber-600 hover:bg-amber-700 rounded text-white text-xs transition-colors shrink-0"
+      >
+        {isEditing ? 'Take Back' : 'Take Over'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+// Server-side API Constants
+
+import type { AuditActor } from '../types/audit'
+
+// Roles allowed to perform each mutation through the API routes
+export const API_PERMISSIONS = {
+  ORDER_READ: ['admin', 'editor'],
+  ORDER_WRITE: ['admin'],
+  ORDER_NOTE_WRITE: ['admin', 'editor'],
+  PRODUCT_READ: ['admin', 'editor'],
+  PRODUCT_WRITE: ['admin', 'editor'], // Including stock adjustments and publishing
+  PRODUCT_PUBLISHING_RUN: ['admin'], // Running the publishing job by hand; the scheduler uses CRON_SECRET
+  CUSTOMER_READ: ['admin', 'editor'],
+  CUSTOMER_WRITE: ['admin'], // Merging, GDPR export and anonymising
+  MEDIA_READ: ['admin', 'editor'],
+  MEDIA_WRITE: ['admin', 'editor'], // Tagging assets
+  MEDIA_DELETE: ['admin'],
+  VAT_RATE_WRITE: ['admin'],
+  CONTENT_READ: ['admin', 'editor'],
+  CONTENT_WRITE: ['admin', 'editor'], // Saving and submitting drafts
+  CONTENT_PUBLISH: ['admin'], // Approving, rejecting and publishing drafts, restoring a version of a section, rolling back a page
+} as const
+
+// HTTP status per domain error type
+export const API_ERROR_STATUS: Record<string, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  invalid_payload: 400,
+  validation_error: 400,
+  invalid_status: 400,
+  invalid_preset: 400,
+  order_not_found: 404,
+  product_not_found: 404,
+  revision_not_found: 404,
+  invalid_transition: 409,
+  concurrent_update: 409, // Orders, products and content
+  invalid_template: 400,
+  send_failed: 502,
+  invalid_document_type: 400,
+  too_many_orders: 400,
+  invoice_not_allowed: 409,
+  invoice_number_conflict: 409,
+  invalid_refund: 400,
+  refund_not_allowed: 409,
+  refund_exceeds_total: 409,
+  provider_error: 502,
+  invalid_shipment: 400,
+  shipment_not_allowed: 409,
+  shipment_not_found: 404,
+  carrier_error: 502,
+  invalid_note: 400,
+  note_not_found: 404,
+  note_not_allowed: 403,
+  invalid_customer: 400,
+  customer_not_found: 404,
+  customer_not_allowed: 409,
+  invalid_stock_adjustment: 400,
+  stock_conflict: 409,
+  invalid_import_file: 400,
+  import_has_errors: 422,
+  invalid_category: 400,
+  category_not_found: 404,
+  category_not_allowed: 409,
+  invalid_collection: 400,
+  collection_not_found: 404,
+  invalid_media_request: 400,
+  asset_not_found: 404,
+  asset_in_use: 409,
+  invalid_vat_rate: 400,
+  vat_rate_not_found: 404,
+  invalid_content_section: 400,
+  content_page_not_found: 404,
+  content_section_not_found: 404,
+  content_draft_not_found: 404,
+  content_revision_not_found: 404,
+  content_not_allowed: 409,
+  configuration_error: 500,
+  database_error: 500,
+}
+
+// Audit trail
+export const AUDIT_TABLES = {
+  AUDIT_LOG: 'audit_log',
+} as const
+
+// Recorded as the actor of changes made by scheduled jobs
+export const JOB_ACTOR: AuditActor = { id: null, email: null, role: null }
+
+export const API_ROUTES = {
+  ORDER: (id: string) => `/api/orders/${id}`,
+  ORDER_EMAILS: '/api/orders/send-emails-wfc',
+  ORDER_DOCUMENT: (id: string, type: string) => `/api/orders/${id}/documents/${type}`,
+  ORDER_DOCUMENTS_EXPORT: '/api/orders/documents',
+  ORDER_REFUNDS: (id: string) => `/api/orders/${id}/refunds`,
+  ORDER_SHIPMENTS: (id: string) => `/api/orders/${id}/shipments`,
+  ORDER_SHIPMENT: (id: string, shipmentId: string) => `/api/orders/${id}/shipments/${shipmentId}`,
+  ORDER_SHIPMENT_TRACKING: (id: string, shipmentId: string) => `/api/orders/${id}/shipments/${shipmentId}/tracking`,
+  ORDER_ACTIVITY: (id: string) => `/api/orders/${id}/activity`,
+  ORDER_NOTES: (id: string) => `/api/orders/${id}/notes`,
+  ORDER_NOTE: (id: string, noteId: string) => `/api/orders/${id}/notes/${noteId}`,
+  ORDER_PRICING: (id: string) => `/api/orders/${id}/pricing`,
+  CUSTOMERS: '/api/customers',
+  CUSTOMER_DUPLICATES: '/api/customers/duplicates',
+  CUSTOMER_MERGE: '/api/customers/merge',
+  CUSTOMER: (email: string) => `/api/customers/${encodeURIComponent(email)}`,
+  CUSTOMER_EXPORT: (email: string) => `/api/customers/${encodeURIComponent(email)}/export`,
+  CUSTOMER_ANONYMISE: (email: string) => `/api/customers/${encodeURIComponent(email)}/anonymise`,
+  PRODUCTS: '/api/products',
+  PRODUCT: (id: string) => `/api/products/${id}`,
+  PRODUCT_IMPORT: '/api/products/import',
+  PRODUCT_PUBLISHING: '/api/products/publishing',
+  PRODUCT_STOCK: (id: string) => `/api/products/${id}/stock`,
+  PRODUCT_STOCK_RECONCILE: (id: string) => `/api/products/${id}/stock/reconcile`,
+  PRODUCT_REVISIONS: (id: string) => `/api/products/${id}/revisions`,
+  PRODUCT_REVISION_RESTORE: (id: string, revisionId: string) => `/api/products/${id}/revisions/${revisionId}/restore`,
+  LOW_STOCK: '/api/inventory/low-stock',
+  CATEGORIES: '/api/categories',
+  CATEGORY: (id: string) => `/api/categories/${id}`,
+  COLLECTIONS: '/api/collections',
+  COLLECTION: (id: string) => `/api/collections/${id}`,
+  COLLECTION_PRODUCTS: (id: string) => `/api/collections/${id}/products`,
+  CATEGORY_REVENUE: '/api/analytics/category-revenue',
+  VAT_RATES: '/api/vat-rates',
+  VAT_RATE: (id: string) => `/api/vat-rates/${id}`,
+  CONTENT_SECTIONS: (page: string) => `/api/content/${page}/sections`,
+  CONTENT_PENDING: '/api/content/pending',
+  CONTENT_PUBLISH: (page: string) => `/api/content/${page}/publish`,
+  CONTENT_DRAFT: (page: string, sectionId: string) => `/api/content/${page}/sections/${sectionId}/draft`,
+  CONTENT_DRAFT_ACTION: (page: string, sectionId: string, action: 'submit' | 'reject' | 'publish') =>
+    `/api/content/${page}/sections/${sectionId}/draft/${action}`,
+  CONTENT_REVISIONS: (page: string, sectionId: string) => `/api/content/${page}/sections/${sectionId}/revisions`,
+  CONTENT_REVISION_RESTORE: (page: string, sectionId: string, revisionId: string) =>
+    `/api/content/${page}/sections/${sectionId}/revisions/${revisionId}/restore`,
+  CONTENT_SNAPSHOT: (page: string, at: string) => `/api/content/${page}/snapshot?at=${encodeURIComponent(at)}`,
+  CONTENT_SNAPSHOT_RESTORE: (page: string) => `/api/content/${page}/snapshot/restore`,
+  MEDIA: '/api/media',
+  MEDIA_TAGS: '/api/media/tags',
+  MEDIA_ASSET: (publicId: string) => `/api/media/assets/${publicId.split('/').map(encodeURIComponent).join('/')}`,
+} as const
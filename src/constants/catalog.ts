@@ -0,0 +1,30 @@
+// Catalog constants: categories, tags and collections
+
+export const CATALOG_TABLES = {
+  CATEGORIES: 'product_categories',
+  COLLECTIONS: 'product_collections',
+  COLLECTION_ITEMS: 'product_collection_items',
+} as const
+
+export const CATALOG_VALIDATION = {
+  NAME_MAX_LENGTH: 100,
+  DESCRIPTION_MAX_LENGTH: 2000,
+  MAX_CATEGORY_DEPTH: 4, // Levels below the top level
+  TAG_MAX_LENGTH: 40,
+  MAX_TAGS: 20,
+  MAX_COLLECTION_PRODUCTS: 500,
+} as const
+
+// Separates the levels of a category path
+export const CATEGORY_PATH_SEPARATOR = ' › '
+
+// Shown for products without a category
+export const UNCATEGORISED_LABEL = 'Uncategorised'
+
+// Periods offered by the revenue per category breakdown; null is all time
+export const CATEGORY_REVENUE_PERIODS: readonly { days: number | null; label: string }[] = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+  { days: null, label: 'All time' },
+]
@@ -0,0 +1,75 @@
+// Website content constants: the registry of section-based pages and the draft workflow
+
+import type {
+  ContentDraftStatus,
+  ContentPageDefinition,
+  ContentPageSlug,
+  SectionFieldConfig,
+  SectionStyleType
+} from '../types/content'
+
+export const CONTENT_TABLES = {
+  DRAFTS: 'content_drafts',
+} as const
+
+// Adding a section-based site page is one entry here, plus its preview in components/content/contentPageViews
+export const CONTENT_PAGES: Record<ContentPageSlug, ContentPageDefinition> = {
+  aboutpage: {
+    name: 'About Page',
+    description: 'Manage the about page content',
+    title: 'About Us',
+    table: 'about_sections',
+    styleTypes: ['title', 'paragraph', 'email'],
+    tracksEditor: true,
+  },
+  charitypage: {
+    name: 'Charity Page',
+    description: 'Manage the charity page content',
+    title: 'Charity',
+    table: 'charity_sections',
+    styleTypes: ['title', 'paragraph', 'link'],
+    tracksEditor: false,
+  },
+  artpage: {
+    name: 'Art Page',
+    description: 'Manage the art page content',
+    title: 'Art Page',
+    table: 'art_hero_sections',
+    styleTypes: ['image', 'image_alt', 'title', 'subtitle', 'paragraph'],
+    tracksEditor: false,
+  },
+  whiskypage: {
+    name: 'Whisky Page',
+    description: 'Manage the whisky page content',
+    title: 'Whisky Page',
+    table: 'whisky_sections',
+    styleTypes: ['title', 'paragraph', 'link'],
+    tracksEditor: true,
+  },
+}
+
+export const SECTION_FIELDS: Record<SectionStyleType, SectionFieldConfig> = {
+  title: { label: null, input: 'text', required: true },
+  subtitle: { label: null, input: 'text', required: false },
+  paragraph: { label: null, input: 'textarea', required: false },
+  email: { label: null, input: 'email', placeholder: 'Enter email address', required: true },
+  link: { label: null, input: 'url', placeholder: 'Enter URL (e.g., example.com)', required: false },
+  image: { label: 'Background Image URL/ID', input: 'text', required: true },
+  image_alt: { label: 'Image Alt Text', input: 'text', required: false },
+}
+
+export const CONTENT_VALIDATION = {
+  CONTENT_MAX_LENGTH: 10000,
+  SINGLE_LINE_MAX_LENGTH: 500, // Everything but paragraphs
+  REVIEW_NOTE_MAX_LENGTH: 1000,
+} as const
+
+export const CONTENT_DRAFT_STATUS_LABELS: Record<ContentDraftStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+}
+
+export const CONTENT_DRAFT_BADGE_CLASSES: Record<ContentDraftStatus, string> = {
+  draft: 'bg-gray-500/20 text-gray-300 border border-gray-500/30',
+  in_review: 'bg-amber-500/20 text-amber-400 border border-amber-500/30',
+}
@@ -0,0 +1,57 @@
+// Customer directory constants
+
+import type { OrderStatus } from '../types/orders'
+import type { CustomerDuplicateReason, CustomerListQuery, CustomerSortField } from '../types/customers'
+
+export const CUSTOMER_LIST_PAGE_SIZE = 25
+
+export const CUSTOMER_SORT_FIELDS: readonly CustomerSortField[] = ['last_order', 'lifetime_donated', 'order_count', 'name']
+
+export const CUSTOMER_SORT_LABELS: Record<CustomerSortField, string> = {
+  last_order: 'Last order',
+  lifetime_donated: 'Lifetime donated',
+  order_count: 'Orders',
+  name: 'Name',
+}
+
+export const DEFAULT_CUSTOMER_LIST_QUERY: CustomerListQuery = {
+  search: '',
+  sortField: 'last_order',
+  sortDirection: 'desc',
+  page: 1,
+}
+
+export const CUSTOMER_DUPLICATE_REASON_LABELS: Record<CustomerDuplicateReason, string> = {
+  similar_email: 'Similar email address',
+  same_name_and_postal_code: 'Same name and postal code',
+}
+
+// Order columns loaded to build profiles
+export const CUSTOMER_ORDER_COLUMNS = [
+  'id',
+  'order_number',
+  'customer_first_name',
+  'customer_last_name',
+  'customer_email',
+  'customer_address',
+  'customer_city',
+  'customer_postal_code',
+  'customer_country',
+  'total_amount',
+  'refunded_amount',
+  'currency',
+  'status',
+  'created_at',
+].join(', ')
+
+// Orders still being fulfilled; customers with these can't be anonymised yet
+export const OPEN_ORDER_STATUSES: readonly OrderStatus[] = ['pending', 'paid']
+
+export const MAX_MERGE_SOURCES = 10
+
+// Replacement values for anonymised orders; the country is kept for VAT reporting
+export const ANONYMISED_CUSTOMER = {
+  FIRST_NAME: 'Anonymised',
+  LAST_NAME: 'Customer',
+  EMAIL_DOMAIN: 'anonymised.invalid',
+} as const
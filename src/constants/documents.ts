@@ -0,0 +1,34 @@
+// Order document constants
+
+import type { OrderStatus } from '../types/orders'
+import type { OrderDocumentType } from '../types/documents'
+
+export const DOCUMENT_TABLES = {
+  INVOICES: 'invoices',
+} as const
+
+export const ORDER_DOCUMENT_TYPES: readonly OrderDocumentType[] = ['invoice', 'packing_slip']
+
+export const ORDER_DOCUMENT_LABELS: Record<OrderDocumentType, string> = {
+  invoice: 'Invoice',
+  packing_slip: 'Packing Slip',
+}
+
+// Only orders that have been paid get an invoice
+export const INVOICEABLE_ORDER_STATUSES: readonly OrderStatus[] = ['paid', 'shipped', 'completed', 'partially_refunded', 'refunded']
+
+export const INVOICE_NUMBER_PREFIX = 'W4C'
+export const INVOICE_NUMBER_DIGITS = 6
+export const INVOICE_NUMBER_MAX_RETRIES = 3
+
+// Shop prices include Dutch standard-rate VAT
+export const DEFAULT_VAT_RATE = 21
+
+// Limit for a single batch export request
+export const MAX_BATCH_EXPORT_ORDERS = 200
+
+export const SELLER_DETAILS = {
+  name: 'Whisky for Charity',
+  website: 'www.whiskyforcharity.com',
+  email: 'info@whiskyforcharity.com',
+} as const
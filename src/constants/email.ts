@@ -0,0 +1,44 @@
+// Order email constants
+
+import type { MailConfig, OrderEmailRecipient, OrderEmailTemplate } from '../types/email'
+
+export const EMAIL_TABLES = {
+  ORDER_EMAIL_LOG: 'order_email_log',
+} as const
+
+export const ORDER_EMAIL_TEMPLATES: readonly OrderEmailTemplate[] = [
+  'order_confirmation',
+  'order_notification',
+  'order_shipped',
+]
+
+// Sent when no templates are requested; these mark the order's emails as sent
+export const DEFAULT_ORDER_EMAIL_TEMPLATES: readonly OrderEmailTemplate[] = [
+  'order_confirmation',
+  'order_notification',
+]
+
+export const ORDER_EMAIL_TEMPLATE_LABELS: Record<OrderEmailTemplate, string> = {
+  order_confirmation: 'Customer confirmation',
+  order_notification: 'Internal notification',
+  order_shipped: 'Shipping confirmation',
+}
+
+export const ORDER_EMAIL_RECIPIENTS: Record<OrderEmailTemplate, OrderEmailRecipient> = {
+  order_confirmation: 'customer',
+  order_notification: 'team',
+  order_shipped: 'customer',
+}
+
+// Used when the MAIL_* / SMTP_* environment variables are not set
+export const DEFAULT_MAIL_CONFIG: MailConfig = {
+  transport: 'smtp',
+  from: 'Whisky for Charity <noreply@whiskyforcharity.com>',
+  notificationTo: 'info@whiskyforcharity.com',
+  smtp: {
+    host: 'localhost',
+    port: 1025, // Local SMTP stand-in (Mailpit / MailHog)
+    secure: false,
+  },
+  fileDirectory: '.mail',
+}
@@ -0,0 +1,41 @@
+// Inventory constants
+
+import type { StockMovementType } from '../types/inventory'
+
+export const INVENTORY_TABLES = {
+  STOCK_MOVEMENTS: 'stock_movements',
+} as const
+
+export const STOCK_MOVEMENT_TYPES: readonly StockMovementType[] = ['adjustment', 'sale', 'refund_restock', 'import']
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  adjustment: 'Adjustment',
+  sale: 'Sale',
+  refund_restock: 'Refund restock',
+  import: 'Import',
+}
+
+export const STOCK_MOVEMENT_BADGE_CLASSES: Record<StockMovementType, string> = {
+  adjustment: 'bg-blue-500/20 text-blue-400 border border-blue-500/30',
+  sale: 'bg-amber-500/20 text-amber-400 border border-amber-500/30',
+  refund_restock: 'bg-green-500/20 text-green-400 border border-green-500/30',
+  import: 'bg-purple-500/20 text-purple-400 border border-purple-500/30',
+}
+
+export const STOCK_REASON_MAX_LENGTH = 500
+
+// Used for products without their own low_stock_threshold
+export const DEFAULT_LOW_STOCK_THRESHOLD = 3
+
+// Retries of the compare-and-set stock update when the stock changed concurrently
+export const STOCK_UPDATE_MAX_RETRIES = 3
+
+// Reasons recorded for stock changes that don't come from a manual adjustment
+export const STOCK_MOVEMENT_REASONS = {
+  INITIAL_STOCK: 'Initial stock',
+  PRODUCT_EDIT: 'Edited on the product page',
+  RECONCILIATION: 'Ledger reconciled with recorded stock',
+} as const
+
+// Supabase realtime channel the dashboard listens on to refresh the low-stock notifications
+export const STOCK_MOVEMENTS_CHANNEL = 'stock-movements-realtime'
@@ -0,0 +1,30 @@
+// Media library constants: Cloudinary configuration, paging and usage labels
+
+import type { MediaConfig, MediaUsageKind } from '../types/media'
+
+export const DEFAULT_MEDIA_CONFIG: MediaConfig = {
+  mode: 'live',
+  cloudinary: {
+    apiUrl: 'https://api.cloudinary.com/v1_1',
+  },
+}
+
+// Upload preset of the CldUploadWidget for product and content images
+export const MEDIA_UPLOAD_PRESET = 'product_images'
+
+export const MEDIA_LIBRARY = {
+  PAGE_SIZE: 30,
+  MAX_PAGE_SIZE: 100,
+  QUERY_MAX_LENGTH: 100,
+} as const
+
+// Content tables that refer to assets besides the products
+export const MEDIA_SOURCE_TABLES = {
+  HERO_ITEMS: 'circle_hero_items',
+} as const
+
+export const MEDIA_USAGE_LABELS: Record<MediaUsageKind, string> = {
+  product: 'Product',
+  product_variant: 'Product variant',
+  hero_item: 'Homepage hero',
+}
@@ -0,0 +1,34 @@
+// Order note and activity feed constants
+
+import type { AuditAction } from '../types/audit'
+import type { OrderActivityKind } from '../types/notes'
+
+export const NOTE_TABLES = {
+  ORDER_NOTES: 'order_notes',
+} as const
+
+export const NOTE_MAX_LENGTH = 2000
+
+// @handle where the handle is the local part of a dashboard user's email
+export const MENTION_PATTERN = /(^|[^\w@.])@([a-z0-9](?:[a-z0-9._-]*[a-z0-9_-])?)/gi
+
+// Supabase realtime channel carrying the notes, status changes, emails and edits of one order
+export const ORDER_ACTIVITY_CHANNEL = (orderId: string) => `order-activity-${orderId}`
+
+export const ORDER_ACTIVITY_KINDS: readonly OrderActivityKind[] = ['note', 'status', 'email', 'edit']
+
+export const ORDER_ACTIVITY_KIND_LABELS: Record<OrderActivityKind, string> = {
+  note: 'Notes',
+  status: 'Status',
+  email: 'Emails',
+  edit: 'Edits',
+}
+
+// Audit entries shown as edits; status changes already come from the status history
+export const ORDER_ACTIVITY_AUDIT_LABELS: Partial<Record<AuditAction, string>> = {
+  'order.refunded': 'Refund issued',
+  'order.refund_incomplete': 'Refund needs attention',
+  'order.shipment_added': 'Parcels registered',
+  'order.shipment_updated': 'Parcel changed',
+  'order.shipment_removed': 'Parcel removed',
+}
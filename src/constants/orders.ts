@@ -0,0 +1,125 @@
+// Order Management Constants
+
+import type { BulkOrderAction, Order, OrderListFilters, OrderSortField, OrderStatus } from '../types/orders'
+
+// Order Statuses
+export const ORDER_STATUSES = {
+  PENDING: 'pending',
+  PAID: 'paid',
+  SHIPPED: 'shipped',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+  PARTIALLY_REFUNDED: 'partially_refunded',
+  REFUNDED: 'refunded',
+} as const
+
+// Allowed lifecycle transitions: pending → paid → shipped → completed,
+// with cancel (before shipping) and refund (after payment) branches.
+// A partially refunded order can still be completed or refunded in full; it
+// can't move back to shipped, since it may already have been completed.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['shipped', 'cancelled', 'partially_refunded', 'refunded'],
+  shipped: ['completed', 'partially_refunded', 'refunded'],
+  completed: ['partially_refunded', 'refunded'],
+  cancelled: [],
+  partially_refunded: ['completed', 'refunded'],
+  refunded: [],
+}
+
+// Statuses only the refund service sets, once the money has been paid back;
+// they are never offered or accepted as a manual status change
+export const REFUND_ORDER_STATUSES: readonly OrderStatus[] = ['partially_refunded', 'refunded']
+
+// Display labels
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  shipped: 'Shipped',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  partially_refunded: 'Partially Refunded',
+  refunded: 'Refunded',
+}
+
+// Badge classes used by the order list, detail page and customer modal
+export const ORDER_STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30',
+  paid: 'bg-green-500/20 text-green-400 border border-green-500/30',
+  shipped: 'bg-blue-500/20 text-blue-400 border border-blue-500/30',
+  completed: 'bg-purple-500/20 text-purple-400 border border-purple-500/30',
+  cancelled: 'bg-red-500/20 text-red-400 border border-red-500/30',
+  partially_refunded: 'bg-amber-500/20 text-amber-400 border border-amber-500/30',
+  refunded: 'bg-orange-500/20 text-orange-400 border border-orange-500/30',
+}
+
+// Statuses in which payment has been received
+export const PAID_ORDER_STATUSES: readonly OrderStatus[] = ['paid', 'shipped', 'completed', 'partially_refunded']
+
+// Database tables
+export const ORDER_TABLES = {
+  ORDERS: 'orders',
+  ORDER_ITEMS: 'order_items',
+  ORDER_STATUS_HISTORY: 'order_status_history',
+  ORDER_FILTER_PRESETS: 'order_filter_presets',
+} as const
+
+// Order list
+export const ORDER_LIST_PAGE_SIZE = 25
+
+export const ORDER_SORT_FIELDS: readonly OrderSortField[] = ['order_number', 'customer_last_name', 'created_at', 'total_amount']
+
+export const DEFAULT_ORDER_LIST_FILTERS: OrderListFilters = {
+  search: '',
+  status: 'all',
+  dateFrom: null,
+  dateTo: null,
+  minAmount: null,
+  maxAmount: null,
+  missingTracking: false,
+  sortField: 'created_at',
+  sortDirection: 'desc',
+}
+
+// Columns searched by the order list search box
+export const ORDER_SEARCH_COLUMNS = [
+  'order_number',
+  'customer_first_name',
+  'customer_last_name',
+  'customer_email',
+  'payment_reference',
+] as const
+
+export const ORDER_FILTER_PRESET_NAME_MAX_LENGTH = 60
+
+// Bulk actions
+export const BULK_ORDER_ACTION_LABELS: Record<BulkOrderAction, string> = {
+  change_status: 'Change status',
+  send_emails: 'Resend emails',
+  export_csv: 'Export to CSV',
+  print_packing_slips: 'Print packing slips',
+}
+
+// Orders processed in parallel by a bulk action; kept low so the mail server isn't flooded
+export const BULK_ORDER_CONCURRENCY = 3
+
+// Columns of the order CSV export
+export const ORDER_CSV_COLUMNS: readonly { key: keyof Order; header: string }[] = [
+  { key: 'order_number', header: 'Order number' },
+  { key: 'created_at', header: 'Date' },
+  { key: 'status', header: 'Status' },
+  { key: 'customer_first_name', header: 'First name' },
+  { key: 'customer_last_name', header: 'Last name' },
+  { key: 'customer_email', header: 'Email' },
+  { key: 'customer_address', header: 'Address' },
+  { key: 'customer_postal_code', header: 'Postal code' },
+  { key: 'customer_city', header: 'City' },
+  { key: 'customer_country', header: 'Country' },
+  { key: 'total_amount', header: 'Total amount' },
+  { key: 'currency', header: 'Currency' },
+  { key: 'refunded_amount', header: 'Refunded amount' },
+  { key: 'payment_reference', header: 'Payment reference' },
+  { key: 'carrier', header: 'Carrier' },
+  { key: 'tracking_number', header: 'Tracking number' },
+  { key: 'emails_sent', header: 'Emails sent' },
+]
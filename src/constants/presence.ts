@@ -0,0 +1,10 @@
+// Editor presence constants
+
+// Supabase realtime channel sharing who has an editor page open, e.g. content-aboutpage or product-<id>
+export const EDITOR_PRESENCE_CHANNEL = (page: string) => `editor-presence-${page}`
+
+// A section lock lapses when its editor hasn't typed for this long
+export const PRESENCE_IDLE_MS = 5 * 60 * 1000
+
+// How often an editor announces it is still typing, and how often lapsed locks are re-checked
+export const PRESENCE_ACTIVITY_INTERVAL_MS = 30 * 1000
@@ -0,0 +1,48 @@
+// Pricing constants: currencies and VAT rates
+
+import type { CurrencyCode } from '../types/pricing'
+
+export const PRICING_TABLES = {
+  VAT_RATES: 'vat_rates',
+} as const
+
+export const SUPPORTED_CURRENCIES: readonly CurrencyCode[] = ['EUR', 'GBP', 'USD', 'CHF']
+
+// Orders without a currency were placed before multi-currency, in euros
+export const DEFAULT_CURRENCY: CurrencyCode = 'EUR'
+
+// Amounts read "€1,234.50", "£80.00" and "$120.00" whatever the browser's language
+export const CURRENCY_LOCALE = 'en-IE'
+
+export const VAT_RATE_LIMITS = {
+  MIN: 0,
+  MAX: 30,
+} as const
+
+// Country names customers type at checkout, to their ISO code; two-letter codes are used as they are
+export const COUNTRY_CODES: Record<string, string> = {
+  netherlands: 'NL',
+  'the netherlands': 'NL',
+  nederland: 'NL',
+  belgium: 'BE',
+  'belgië': 'BE',
+  belgie: 'BE',
+  germany: 'DE',
+  deutschland: 'DE',
+  duitsland: 'DE',
+  france: 'FR',
+  frankrijk: 'FR',
+  luxembourg: 'LU',
+  austria: 'AT',
+  ireland: 'IE',
+  spain: 'ES',
+  italy: 'IT',
+  denmark: 'DK',
+  sweden: 'SE',
+  switzerland: 'CH',
+  'united kingdom': 'GB',
+  'great britain': 'GB',
+  uk: 'GB',
+  'united states': 'US',
+  usa: 'US',
+}
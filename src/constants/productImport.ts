@@ -0,0 +1,50 @@
+// Product import/export constants
+
+import type { ProductImportAction, ProductImportField, ProductImportFormat } from '../types/productImport'
+
+// Columns of the export, in this order; the import also recognises the aliases (case-insensitive)
+export const PRODUCT_IMPORT_COLUMNS: readonly { field: ProductImportField; header: string; aliases: readonly string[] }[] = [
+  { field: 'id', header: 'ID', aliases: ['product id', 'product_id'] },
+  { field: 'name', header: 'Name', aliases: ['product', 'product name', 'title'] },
+  { field: 'description', header: 'Description', aliases: ['omschrijving'] },
+  { field: 'price', header: 'Price', aliases: ['price (eur)', 'prijs'] },
+  { field: 'stock', header: 'Stock', aliases: ['quantity', 'qty', 'voorraad'] },
+  { field: 'is_active', header: 'Active', aliases: ['is_active', 'visible', 'actief'] },
+  { field: 'low_stock_threshold', header: 'Low-stock alert at', aliases: ['low_stock_threshold', 'low stock threshold', 'threshold'] },
+  { field: 'image', header: 'Main image', aliases: ['image', 'cloudinary id'] },
+  { field: 'images', header: 'Images', aliases: ['gallery', 'additional images'] },
+]
+
+// Separates the image IDs within the Images cell
+export const IMPORT_IMAGE_SEPARATOR = '|'
+
+// Cell values read as true/false in the Active column
+export const IMPORT_TRUE_VALUES = ['true', 'yes', 'y', '1', 'ja', 'active']
+export const IMPORT_FALSE_VALUES = ['false', 'no', 'n', '0', 'nee', 'inactive']
+
+export const PRODUCT_IMPORT_LIMITS = {
+  MAX_FILE_BYTES: 2 * 1024 * 1024,
+  MAX_ROWS: 1000,
+} as const
+
+export const PRODUCT_IMPORT_FORMATS: readonly ProductImportFormat[] = ['csv', 'xlsx']
+
+export const PRODUCT_IMPORT_ACTION_LABELS: Record<ProductImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  error: 'Error',
+}
+
+export const PRODUCT_IMPORT_ACTION_BADGE_CLASSES: Record<ProductImportAction, string> = {
+  create: 'bg-green-500/20 text-green-400 border border-green-500/30',
+  update: 'bg-blue-500/20 text-blue-400 border border-blue-500/30',
+  unchanged: 'bg-gray-500/20 text-gray-400 border border-gray-500/30',
+  error: 'bg-red-500/20 text-red-400 border border-red-500/30',
+}
+
+// Reasons of the stock movements written by an import
+export const PRODUCT_IMPORT_REASONS = {
+  IMPORT: 'Product import',
+  ROLLBACK: 'Product import rolled back',
+} as const
@@ -0,0 +1,91 @@
+// Product Management Constants
+
+// Database tables
+export const PRODUCT_TABLES = {
+  PRODUCTS: 'products',
+  PRODUCT_VARIANTS: 'product_variants',
+} as const
+
+// Input validation limits
+export const PRODUCT_VALIDATION = {
+  NAME_MAX_LENGTH: 200,
+  DESCRIPTION_MAX_LENGTH: 10000,
+  MAX_PRICE: 100000,
+  MAX_STOCK: 100000,
+  MAX_IMAGES: 20,
+  ALT_TEXT_MAX_LENGTH: 250,
+  MAX_VARIANTS: 30,
+  CASK_MAX_LENGTH: 100,
+  MIN_BOTTLE_SIZE_ML: 10,
+  MAX_BOTTLE_SIZE_ML: 5000,
+  MIN_VINTAGE: 1800,
+} as const
+
+// Format new and edited descriptions are saved in; see utils/markdown.ts
+export const PRODUCT_DESCRIPTION_FORMAT = 'markdown-v1' as const
+
+// Upper case letters, digits, dots, dashes and underscores
+export const VARIANT_SKU_PATTERN = /^[A-Z0-9][A-Z0-9._-]{0,39}$/
+
+// Share of the width and height kept when an image is cropped around its focal point
+export const FOCAL_POINT_CROP_SIZE = 0.6
+
+// Offered in the variant editor; other sizes can be typed
+export const COMMON_BOTTLE_SIZES_ML = [50, 200, 350, 500, 700, 1000, 1500] as const
+
+// Fields that may be set through the product API routes
+export const PRODUCT_EDITABLE_FIELDS = [
+  'name',
+  'description',
+  'price',
+  'stock',
+  'is_active',
+  'status',
+  'publish_at',
+  'unpublish_at',
+  'image',
+  'images',
+  'image_meta',
+  'low_stock_threshold',
+  'category_id',
+  'tags',
+  'variants',
+  'collection_ids',
+] as const
+
+export const PRODUCT_STATUSES = ['draft', 'scheduled', 'live'] as const
+
+export const PRODUCT_STATUS_LABELS = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  live: 'Live',
+} as const
+
+// Fields kept in a revision snapshot and put back on restore; stock goes through the inventory ledger instead
+export const PRODUCT_REVISION_FIELDS = [
+  'name',
+  'description',
+  'price',
+  'image',
+  'images',
+  'image_meta',
+  'category_id',
+  'tags',
+] as const
+
+export const PRODUCT_REVISION_FIELD_LABELS: Record<(typeof PRODUCT_REVISION_FIELDS)[number], string> = {
+  name: 'Name',
+  description: 'Description',
+  price: 'Price',
+  image: 'Main image',
+  images: 'Images',
+  image_meta: 'Alt text & focal points',
+  category_id: 'Category',
+  tags: 'Tags',
+}
+
+// Transitions the publishing job applies per run; the rest follow on the next run
+export const PRODUCT_PUBLISHING_BATCH_SIZE = 200
+
+// Product fields derived from the variants when a product has them
+export const VARIANT_DERIVED_FIELDS = ['price', 'stock'] as const
@@ -0,0 +1,33 @@
+// Refund constants
+
+import type { OrderStatus } from '../types/orders'
+import type { PaymentConfig, RefundStatus } from '../types/refunds'
+
+export const REFUND_TABLES = {
+  REFUNDS: 'refunds',
+  REFUND_LINES: 'refund_lines',
+} as const
+
+// Money can only go back for orders that have been paid
+export const REFUNDABLE_ORDER_STATUSES: readonly OrderStatus[] = ['paid', 'shipped', 'completed', 'partially_refunded']
+
+export const REFUND_REASON_MAX_LENGTH = 500
+
+// Attempts at reserving a refund on orders.refunded_amount while other refunds change it
+export const REFUND_RESERVE_MAX_RETRIES = 3
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Pending',
+  succeeded: 'Refunded',
+  failed: 'Failed',
+  needs_attention: 'Needs attention',
+}
+
+// Used when the PAYMENT_* / MOLLIE_* environment variables are not set
+export const DEFAULT_PAYMENT_CONFIG: PaymentConfig = {
+  provider: 'mollie',
+  currency: 'EUR',
+  mollie: {
+    apiUrl: 'https://api.mollie.com/v2',
+  },
+}
@@ -0,0 +1,70 @@
+// Shipment constants
+
+import type { OrderStatus } from '../types/orders'
+import type { CarrierCode, CarrierConfig, TrackingLookup, TrackingStatus } from '../types/shipments'
+
+export const SHIPMENT_TABLES = {
+  SHIPMENTS: 'shipments',
+} as const
+
+export const CARRIER_CODES: readonly CarrierCode[] = ['postnl', 'dhl', 'other']
+
+export const CARRIER_LABELS: Record<CarrierCode, string> = {
+  postnl: 'PostNL',
+  dhl: 'DHL',
+  other: 'Other carrier',
+}
+
+// Public track & trace pages; PostNL needs the destination country and postal code for its full page
+export const CARRIER_TRACKING_URLS: Record<CarrierCode, ((lookup: TrackingLookup) => string) | null> = {
+  postnl: ({ trackingNumber, postalCode, country }) => {
+    const code = encodeURIComponent(trackingNumber)
+    const countryCode = (country || '').trim().toUpperCase()
+    const postal = (postalCode || '').replace(/\s+/g, '').toUpperCase()
+    return /^[A-Z]{2}$/.test(countryCode) && postal
+      ? `https://jouw.postnl.nl/track-and-trace/${code}-${countryCode}-${encodeURIComponent(postal)}`
+      : `https://jouw.postnl.nl/track-and-trace/${code}`
+  },
+  dhl: ({ trackingNumber }) =>
+    `https://www.dhl.com/nl-en/home/tracking/tracking-parcel.html?submit=1&tracking-id=${encodeURIComponent(trackingNumber)}`,
+  other: null,
+}
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  pre_transit: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery problem',
+  unknown: 'Unknown',
+}
+
+export const TRACKING_STATUS_BADGE_CLASSES: Record<TrackingStatus, string> = {
+  pre_transit: 'bg-gray-500/20 text-gray-300 border border-gray-500/30',
+  in_transit: 'bg-blue-500/20 text-blue-400 border border-blue-500/30',
+  out_for_delivery: 'bg-indigo-500/20 text-indigo-400 border border-indigo-500/30',
+  delivered: 'bg-green-500/20 text-green-400 border border-green-500/30',
+  exception: 'bg-red-500/20 text-red-400 border border-red-500/30',
+  unknown: 'bg-gray-500/20 text-gray-400 border border-gray-500/30',
+}
+
+// Statuses in which parcels can be registered; adding a parcel to a paid order marks it shipped
+export const SHIPPABLE_ORDER_STATUSES: readonly OrderStatus[] = ['paid', 'partially_refunded', 'shipped', 'completed']
+
+export const MAX_PARCELS_PER_SHIPMENT = 20
+
+export const MAX_PARCEL_WEIGHT_KG = 1000
+
+// Carrier tracking numbers: letters, digits and dashes
+export const TRACKING_NUMBER_PATTERN = /^[A-Za-z0-9-]{4,40}$/
+
+// Used when the CARRIER_* / POSTNL_* / DHL_* environment variables are not set
+export const DEFAULT_CARRIER_CONFIG: CarrierConfig = {
+  mode: 'live',
+  postnl: {
+    apiUrl: 'https://api.postnl.nl/shipment/v2/status',
+  },
+  dhl: {
+    apiUrl: 'https://api-eu.dhl.com/track/shipments',
+  },
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import type { ProductCategory, ProductCollection } from '../types/catalog'
+import { API_ROUTES } from '../constants/api'
+import { PRODUCT_TABLES } from '../constants/products'
+import { apiRequest } from '../utils/apiClient'
+import { collectTags } from '../utils/catalog'
+
+/**
+ * Laadt de categorieën, collecties en alle gebruikte tags voor de productpagina's
+ *
+ * @param enabled Pas laden wanneer de gebruiker is ingelogd
+ * @returns Object met de catalogus, loading state, error en een functie om opnieuw te laden
+ */
+export function useCatalog(enabled: boolean = true) {
+  const [categories, setCategories] = useState<ProductCategory[]>([])
+  const [collections, setCollections] = useState<ProductCollection[]>([])
+  const [tags, setTags] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const supabase = createClientComponentClient()
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const [{ categories }, { collections }, { data: products, error: tagsError }] = await Promise.all([
+        apiRequest<{ categories: ProductCategory[] }>(API_ROUTES.CATEGORIES),
+        apiRequest<{ collections: ProductCollection[] }>(API_ROUTES.COLLECTIONS),
+        supabase.from(PRODUCT_TABLES.PRODUCTS).select('tags'),
+      ])
+
+      if (tagsError) {
+        throw new Error(tagsError.message)
+      }
+
+      setCategories(categories)
+      setCollections(collections)
+      setTags(collectTags(products || []))
+    } catch (err) {
+      console.error('Error fetching catalog:', err)
+      setError(err instanceof Error ? err : new Error('Fout bij het ophalen van de catalogus'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [supabase])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchCatalog()
+    }
+  }, [enabled, fetchCatalog])
+
+  return {
+    categories,
+    collections,
+    tags,
+    isLoading,
+    error,
+    refetch: fetchCatalog
+  }
+}
@@ -0,0 +1,30 @@
+import { useState, useRef, useCallback } from 'react'
+import type { EditConflict } from '../types/concurrency'
+
+/**
+ * Laat de gebruiker een bewerkingsconflict oplossen in de EditConflictDialog
+ *
+ * @returns Het open conflict, resolveConflict om er een te tonen en op de keuze te wachten, en onResolve voor de dialoog
+ */
+export function useEditConflict() {
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const pending = useRef<((values: Record<string, any> | null) => void) | null>(null)
+
+  // Resolves with the values to save against their version, or null when the user drops their change
+  const resolveConflict = useCallback(<T extends Record<string, any>>(next: EditConflict<T>): Promise<Partial<T> | null> => {
+    pending.current?.(null)
+
+    return new Promise(resolve => {
+      pending.current = resolve as (values: Record<string, any> | null) => void
+      setConflict(next as EditConflict)
+    })
+  }, [])
+
+  const onResolve = useCallback((values: Record<string, any> | null) => {
+    pending.current?.(values)
+    pending.current = null
+    setConflict(null)
+  }, [])
+
+  return { conflict, resolveConflict, onResolve }
+}
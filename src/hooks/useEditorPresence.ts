@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import toast from 'react-hot-toast'
+import type { EditorPresence } from '../types/presence'
+import { EDITOR_PRESENCE_CHANNEL, PRESENCE_ACTIVITY_INTERVAL_MS } from '../constants/presence'
+import { useAuth } from '../contexts/AuthContext'
+import { presenceMembers, sectionLocks } from '../utils/presence'
+
+/**
+ * Deelt via Supabase realtime presence wie een editorpagina open heeft en welke sectie ze bewerken
+ *
+ * @param page De pagina, bijvoorbeeld content-aboutpage of product-<id>; null om niet mee te doen
+ * @returns De anderen op de pagina, de vergrendelde secties en functies om een sectie te bewerken (of over te nemen),
+ * ermee te stoppen en te melden dat er nog getypt wordt
+ */
+export function useEditorPresence(page: string | null) {
+  const supabase = createClientComponentClient()
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const email = user?.email ?? null
+
+  const [state, setState] = useState<Record<string, EditorPresence[]>>({})
+  const [own, setOwn] = useState<EditorPresence | null>(null)
+  const [isSubscribed, setIsSubscribed] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const lastActivity = useRef(0)
+
+  useEffect(() => {
+    if (!page || !userId) return
+
+    const openedAt = new Date().toISOString()
+    setOwn({ userId, email, openedAt, sectionId: null, sectionLabel: null, editingSince: null, activeAt: openedAt })
+
+    // One presence entry per user; several tabs of the same user end up under the same key
+    const channel = supabase
+      .channel(EDITOR_PRESENCE_CHANNEL(page), { config: { presence: { key: userId } } })
+      .on('presence', { event: 'sync' }, () => {
+        setState(channel.presenceState() as unknown as Record<string, EditorPresence[]>)
+      })
+      .subscribe((status, err) => {
+        if (status === 'SUBSCRIBED') {
+          setIsSubscribed(true)
+        }
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Editor presence realtime subscription error:', err)
+        }
+      })
+    channelRef.current = channel
+
+    return () => {
+      channelRef.current = null
+      setIsSubscribed(false)
+      setState({})
+      supabase.removeChannel(channel)
+    }
+  }, [page, userId, email, supabase])
+
+  // Every change to what this user is doing is shared right away
+  useEffect(() => {
+    if (isSubscribed && own) {
+      channelRef.current?.track({ ...own })
+    }
+  }, [isSubscribed, own])
+
+  // Locks of editors who stopped typing lapse without a presence event, so re-check them now and then
+  useEffect(() => {
+    if (!page) return
+
+    const timer = setInterval(() => setNow(Date.now()), PRESENCE_ACTIVITY_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [page])
+
+  const members = useMemo(() => presenceMembers(state, userId, now), [state, userId, now])
+  const locks = useMemo(() => sectionLocks(members, own), [members, own])
+
+  // Someone holding the section this user is editing took it over from them; every presence
+  // sync brings a new lock object, so each take-over is only announced once
+  const takenOverBy = own?.sectionId ? locks.get(own.sectionId) ?? null : null
+  const sectionLabel = own?.sectionLabel ?? null
+  const announcedTakeOver = useRef<string | null>(null)
+
+  useEffect(() => {
+    const takeOver = takenOverBy ? `${takenOverBy.userId}:${takenOverBy.editingSince}` : null
+    if (!takenOverBy || takeOver === announcedTakeOver.current) return
+
+    announcedTakeOver.current = takeOver
+    toast(`${takenOverBy.email || 'Someone else'} took over ${sectionLabel || 'the section you were editing'}`)
+  }, [takenOverBy, sectionLabel])
+
+  // Also takes the section over when someone else is editing it
+  const startEditing = useCallback((sectionId: string, sectionLabel: string) => {
+    const at = new Date().toISOString()
+    lastActivity.current = Date.now()
+    setOwn(current => current && { ...current, sectionId, sectionLabel, editingSince: at, activeAt: at })
+  }, [])
+
+  // Only stops when the section is still the one being edited; another editor may have been opened since
+  const stopEditing = useCallback((sectionId: string) => {
+    setOwn(current => (current?.sectionId === sectionId
+      ? { ...current, sectionId: null, sectionLabel: null, editingSince: null }
+      : current))
+  }, [])
+
+  const reportActivity = useCallback(() => {
+    if (Date.now() - lastActivity.current < PRESENCE_ACTIVITY_INTERVAL_MS) return
+
+    lastActivity.current = Date.now()
+    setOwn(current => (current?.sectionId ? { ...current, activeAt: new Date().toISOString() } : current))
+  }, [])
+
+  return {
+    members,
+    locks,
+    editingSectionId: own?.sectionId ?? null,
+    startEditing,
+    stopEditing,
+    reportActivity,
+  }
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { MediaAssetWithUsage, MediaLibraryPage } from '../types/media'
+import { API_ROUTES } from '../constants/api'
+import { apiRequest } from '../utils/apiClient'
+
+function libraryUrl(query: string, tag: string | null, cursor: string | null): string {
+  const params = new URLSearchParams()
+  if (query.trim()) params.set('query', query.trim())
+  if (tag) params.set('tag', tag)
+  if (cursor) params.set('cursor', cursor)
+
+  const search = params.toString()
+  return search ? `${API_ROUTES.MEDIA}?${search}` : API_ROUTES.MEDIA
+}
+
+/**
+ * Laadt de media library: geüploade afbeeldingen met hun gebruik, en alle tags
+ *
+ * @param enabled Alleen laden zolang de library open is
+ * @param query Zoekterm op public ID, bestandsnaam en tags
+ * @param tag Alleen afbeeldingen met deze tag
+ * @returns Object met de afbeeldingen, tags, loading state, error en functies om meer te laden of bij te werken
+ */
+export function useMediaLibrary(enabled: boolean, query: string, tag: string | null) {
+  const [assets, setAssets] = useState<MediaAssetWithUsage[]>([])
+  const [tags, setTags] = useState<string[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchLibrary = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const [page, { tags }] = await Promise.all([
+        apiRequest<MediaLibraryPage>(libraryUrl(query, tag, null)),
+        apiRequest<{ tags: string[] }>(API_ROUTES.MEDIA_TAGS),
+      ])
+
+      setAssets(page.assets)
+      setNextCursor(page.nextCursor)
+      setTags(tags)
+    } catch (err) {
+      console.error('Error fetching media library:', err)
+      setError(err instanceof Error ? err : new Error('Fout bij het ophalen van de media library'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [query, tag])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+
+    try {
+      setIsLoadingMore(true)
+      const page = await apiRequest<MediaLibraryPage>(libraryUrl(query, tag, nextCursor))
+      setAssets(current => [...current, ...page.assets])
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      console.error('Error fetching more media:', err)
+      setError(err instanceof Error ? err : new Error('Fout bij het ophalen van de media library'))
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [query, tag, nextCursor])
+
+  // Debounce zodat niet bij elke toetsaanslag gezocht wordt
+  useEffect(() => {
+    if (!enabled) return
+
+    const timeout = setTimeout(fetchLibrary, 300)
+    return () => clearTimeout(timeout)
+  }, [enabled, fetchLibrary])
+
+  const replaceAsset = useCallback((asset: MediaAssetWithUsage) => {
+    setAssets(current => current.map(candidate => candidate.publicId === asset.publicId ? asset : candidate))
+    setTags(current => Array.from(new Set([...current, ...asset.tags])).sort())
+  }, [])
+
+  const removeAsset = useCallback((publicId: string) => {
+    setAssets(current => current.filter(asset => asset.publicId !== publicId))
+  }, [])
+
+  return {
+    assets,
+    tags,
+    hasMore: !!nextCursor,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    refetch: fetchLibrary,
+    replaceAsset,
+    removeAsset
+  }
+}
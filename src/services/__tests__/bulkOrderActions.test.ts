@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  runBulkOrderAction,
+  runBatchOrderAction,
+  changeOrderStatusTask,
+  sendOrderEmailsTask,
+  ordersToCsv
+} from '../bulkOrderActions'
+import { escapeCsvValue, toCsv } from '../../utils/csv'
+import { API_ROUTES } from '../../constants/api'
+import type { BulkOrderProgress, Order } from '../../types/orders'
+
+const makeOrder = (id: string, overrides: Partial<Order> = {}): Order => ({
+  id,
+  order_number: `W4C-${id}`,
+  customer_first_name: 'Sam',
+  customer_last_name: 'Jansen',
+  customer_email: 'sam@example.com',
+  customer_address: 'Dorpsstraat 1',
+  customer_city: 'Utrecht',
+  customer_postal_code: '3511 AA',
+  customer_country: 'Netherlands',
+  total_amount: 121,
+  status: 'paid',
+  payment_reference: 'tr_123',
+  created_at: '2024-03-01T10:00:00Z',
+  updated_at: '2024-03-01T10:00:00Z',
+  emails_sent: true,
+  ...overrides,
+})
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+describe('bulkOrderActions', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('runBulkOrderAction', () => {
+    it('should report per-order failures without stopping the batch', async () => {
+      const orders = ['1', '2', '3'].map(id => makeOrder(id))
+      const task = vi.fn(async (order: Order) => {
+        if (order.id === '2') throw new Error('Cannot change status from paid to completed')
+      })
+      const updates: BulkOrderProgress[] = []
+
+      const result = await runBulkOrderAction('change_status', orders, task, progress => updates.push(progress), 2)
+
+      expect(task).toHaveBeenCalledTimes(3)
+      expect(result).toMatchObject({ total: 3, completed: 3, succeeded: 2, failed: 1, done: true })
+      expect(result.results.find(item => item.orderId === '2')).toEqual({
+        orderId: '2',
+        orderNumber: 'W4C-2',
+        status: 'failed',
+        error: 'Cannot change status from paid to completed',
+      })
+      expect(updates[0]).toMatchObject({ completed: 0, done: false })
+      expect(updates.map(update => update.completed)).toEqual([0, 1, 2, 3, 3])
+    })
+
+    it('should not run more tasks at once than the concurrency limit', async () => {
+      let running = 0
+      let maxRunning = 0
+      const task = async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 1))
+        running--
+      }
+
+      await runBulkOrderAction('send_emails', ['1', '2', '3', '4', '5'].map(id => makeOrder(id)), task, undefined, 2)
+
+      expect(maxRunning).toBe(2)
+    })
+
+    it('should go through the single-order status route with its validation errors', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ order: { id: '1', status: 'shipped' } }))
+        .mockResolvedValueOnce(jsonResponse({ error: 'Cannot change status from pending to shipped', type: 'invalid_transition' }, 409))
+
+      const result = await runBulkOrderAction(
+        'change_status',
+        [makeOrder('1'), makeOrder('2', { status: 'pending' })],
+        changeOrderStatusTask('shipped'),
+        undefined,
+        1
+      )
+
+      expect(fetchMock).toHaveBeenCalledWith(API_ROUTES.ORDER('1'), expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'shipped' }),
+      }))
+      expect(result.results.map(item => item.status)).toEqual(['succeeded', 'failed'])
+      expect(result.results[1].error).toBe('Cannot change status from pending to shipped')
+    })
+
+    it('should resend emails through the send-emails route', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ success: true }))
+
+      await runBulkOrderAction('send_emails', [makeOrder('1')], sendOrderEmailsTask)
+
+      expect(fetchMock).toHaveBeenCalledWith(API_ROUTES.ORDER_EMAILS, expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ orderId: '1' }),
+      }))
+    })
+  })
+
+  describe('runBatchOrderAction', () => {
+    it('should fail every order with the same reason when the request fails', async () => {
+      const result = await runBatchOrderAction('print_packing_slips', [makeOrder('1'), makeOrder('2')], async () => {
+        throw new Error('Forbidden')
+      })
+
+      expect(result).toMatchObject({ succeeded: 0, failed: 2, done: true })
+      expect(result.results.every(item => item.error === 'Forbidden')).toBe(true)
+    })
+  })
+
+  describe('CSV export', () => {
+    it('should quote cells and neutralize formulas', () => {
+      expect(escapeCsvValue('Jansen, Sam')).toBe('"Jansen, Sam"')
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""')
+      expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"')
+      expect(escapeCsvValue(-5)).toBe('-5')
+      expect(escapeCsvValue(null)).toBe('')
+      expect(toCsv(['a', 'b'], [[1, 'x\ny']])).toBe('a,b\r\n1,"x\ny"')
+    })
+
+    it('should export one row per order', () => {
+      const lines = ordersToCsv([
+        makeOrder('1'),
+        makeOrder('2', { emails_sent: false, total_amount: 9.5, currency: 'GBP', status: 'partially_refunded', refunded_amount: 4 }),
+      ]).split('\r\n')
+
+      expect(lines).toHaveLength(3)
+      expect(lines[0]).toMatch(/^Order number,Date,Status/)
+      expect(lines[0]).toContain(',Total amount,Currency,Refunded amount,')
+      expect(lines[1]).toContain(',121.00,EUR,0.00,')
+      expect(lines[2]).toContain('W4C-2')
+      expect(lines[2]).toContain(',9.50,GBP,4.00,')
+      expect(lines[2]).toMatch(/,no$/)
+    })
+  })
+})
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { CatalogServiceImpl } from '../catalogService'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { ORDER_TABLES } from '../../constants/orders'
+import { CATALOG_TABLES, UNCATEGORISED_LABEL } from '../../constants/catalog'
+import { isCatalogError } from '../../utils/typeGuards'
+import { buildCategoryTree, flattenCategoryTree, normalizeTags, slugify, uniqueSlug } from '../../utils/catalog'
+import type { AuditService } from '../../types/services'
+import type { ProductCategory } from '../../types/catalog'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'admin@example.com', role: 'admin' as const }
+
+const category = (id: string, name: string, parent_id: string | null = null): ProductCategory => ({
+  id,
+  name,
+  slug: slugify(name),
+  parent_id,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+})
+
+// Scotch › Islay › Port Ellen, plus Bourbon at the top level
+const taxonomy = [
+  category('scotch', 'Scotch'),
+  category('islay', 'Islay', 'scotch'),
+  category('port-ellen', 'Port Ellen', 'islay'),
+  category('bourbon', 'Bourbon'),
+]
+
+describe('CatalogService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: CatalogServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new CatalogServiceImpl(mock.client, audit)
+  })
+
+  describe('catalog utils', () => {
+    it('should slugify names and keep slugs unique', () => {
+      expect(slugify('  Crème de la Crème! ')).toBe('creme-de-la-creme')
+      expect(uniqueSlug('Islay', ['islay', 'islay-2'])).toBe('islay-3')
+      expect(uniqueSlug('!!!', [])).toBe('untitled')
+    })
+
+    it('should normalise and dedupe tags', () => {
+      expect(normalizeTags([' Peated ', 'peated', 'Limited   Edition', ''])).toEqual(['peated', 'limited edition'])
+    })
+
+    it('should order the tree alphabetically per level with full paths', () => {
+      const nodes = flattenCategoryTree(buildCategoryTree(taxonomy))
+
+      expect(nodes.map(node => [node.path, node.depth])).toEqual([
+        ['Bourbon', 0],
+        ['Scotch', 0],
+        ['Scotch › Islay', 1],
+        ['Scotch › Islay › Port Ellen', 2],
+      ])
+    })
+  })
+
+  describe('createCategory', () => {
+    it('should refuse a name its siblings already use', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy })
+
+      await expect(service.createCategory({ name: 'islay', parent_id: 'scotch' }, actor))
+        .rejects.toThrow('There already is a category named Islay here')
+    })
+
+    it('should refuse a parent that does not exist or is nested too deep', async () => {
+      const deep = [...taxonomy, category('distillery', 'Distillery', 'port-ellen'), category('cask', 'Cask', 'distillery')]
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy }, { data: deep })
+
+      await expect(service.createCategory({ name: 'Rye', parent_id: 'missing' }, actor))
+        .rejects.toThrow('Parent category not found')
+      await expect(service.createCategory({ name: 'Sherry', parent_id: 'cask' }, actor))
+        .rejects.toThrow('at most 4 levels deep')
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES, 'insert')).toHaveLength(0)
+    })
+
+    it('should give a sibling name in another branch its own slug', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES,
+        { data: taxonomy },
+        { data: { ...category('kentucky-islay', 'Islay', 'bourbon'), slug: 'islay-2' } }
+      )
+
+      await service.createCategory({ name: 'Islay', parent_id: 'bourbon' }, actor)
+
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES, 'insert')[0].args[0])
+        .toEqual({ name: 'Islay', slug: 'islay-2', parent_id: 'bourbon' })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'category.created', entityId: 'kentucky-islay' }))
+    })
+  })
+
+  describe('updateCategory', () => {
+    it('should refuse moving a category under its own subcategory', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy })
+
+      const error = await service.updateCategory('scotch', { parent_id: 'port-ellen' }, actor).catch(err => err)
+
+      expect(isCatalogError(error) && error.type).toBe('category_not_allowed')
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES, 'update')).toHaveLength(0)
+    })
+
+    it('should count the levels that move along with the category', async () => {
+      const deep = [
+        ...taxonomy,
+        category('kentucky', 'Kentucky', 'bourbon'),
+        category('bardstown', 'Bardstown', 'kentucky'),
+        category('wheated', 'Wheated', 'bardstown'),
+      ]
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: deep })
+
+      // Port Ellen would end up five levels below Bourbon
+      await expect(service.updateCategory('islay', { parent_id: 'wheated' }, actor)).rejects.toThrow('at most 4 levels deep')
+    })
+
+    it('should move a category and audit only what changed', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES,
+        { data: taxonomy },
+        { data: { ...category('islay', 'Islay', 'bourbon') } }
+      )
+
+      await service.updateCategory('islay', { name: 'Islay', parent_id: 'bourbon' }, actor)
+
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES, 'update')[0].args[0]).toMatchObject({ name: 'Islay', parent_id: 'bourbon' })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'category.updated',
+        changes: { parent_id: { from: 'scotch', to: 'bourbon' } },
+      }))
+    })
+  })
+
+  describe('deleteCategory', () => {
+    it('should refuse a category with subcategories', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy })
+
+      await expect(service.deleteCategory('islay', actor)).rejects.toThrow('Move or delete the subcategories of Islay first')
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES, 'delete')).toHaveLength(0)
+    })
+
+    it('should move its products to the parent category before deleting it', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy }, { data: null })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'product-1' }, { id: 'product-2' }] })
+
+      const result = await service.deleteCategory('port-ellen', actor)
+
+      expect(result).toEqual({ categoryId: 'port-ellen', movedProducts: 2, parentId: 'islay' })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args[0]).toMatchObject({ category_id: 'islay' })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'eq')[0].args).toEqual(['category_id', 'port-ellen'])
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES, 'eq')[0].args).toEqual(['id', 'port-ellen'])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'category.deleted',
+        metadata: { name: 'Port Ellen', movedProducts: 2, movedTo: 'islay' },
+      }))
+    })
+  })
+
+  describe('collections', () => {
+    const collectionRow = {
+      id: 'gifts',
+      name: 'Gifts',
+      slug: 'gifts',
+      description: null,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      items: [{ product_id: 'product-2', position: 1 }, { product_id: 'product-1', position: 0 }],
+    }
+
+    it('should return the products of a collection in curated order', async () => {
+      mock.respond(CATALOG_TABLES.COLLECTIONS, { data: [collectionRow] })
+
+      const [collection] = await service.getCollections()
+
+      expect(collection.product_ids).toEqual(['product-1', 'product-2'])
+      expect(collection).not.toHaveProperty('items')
+    })
+
+    it('should refuse unknown products in the curated order', async () => {
+      mock.respond(CATALOG_TABLES.COLLECTIONS, { data: [collectionRow] })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'product-1' }] })
+
+      await expect(service.setCollectionProducts('gifts', ['product-1', 'product-9'], actor))
+        .rejects.toThrow('Unknown products: product-9')
+      expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS, 'upsert')).toHaveLength(0)
+    })
+
+    it('should store the new order and drop the removed products', async () => {
+      mock.respond(CATALOG_TABLES.COLLECTIONS, { data: [collectionRow] })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'product-2' }, { id: 'product-3' }] })
+
+      const collection = await service.setCollectionProducts('gifts', ['product-3', 'product-2'], actor)
+
+      expect(collection.product_ids).toEqual(['product-3', 'product-2'])
+      expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS, 'upsert')[0].args).toEqual([
+        [
+          { collection_id: 'gifts', product_id: 'product-3', position: 0 },
+          { collection_id: 'gifts', product_id: 'product-2', position: 1 },
+        ],
+        { onConflict: 'collection_id,product_id' },
+      ])
+      expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS, 'in')[0].args).toEqual(['product_id', ['product-1']])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'collection.updated',
+        changes: { product_ids: { from: ['product-1', 'product-2'], to: ['product-3', 'product-2'] } },
+      }))
+    })
+
+    it('should add a product at the end of the collections it joins', async () => {
+      mock.respond(CATALOG_TABLES.COLLECTION_ITEMS,
+        { data: [{ collection_id: 'gifts' }, { collection_id: 'old' }] },
+        { data: null },
+        { data: [{ collection_id: 'new', position: 0 }, { collection_id: 'new', position: 4 }] },
+        { data: null }
+      )
+
+      const result = await service.setProductCollections('product-1', ['gifts', 'new', 'empty'])
+
+      expect(result).toEqual(['gifts', 'new', 'empty'])
+      expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS, 'delete')).toHaveLength(1)
+      expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS, 'insert')[0].args[0]).toEqual([
+        { collection_id: 'new', product_id: 'product-1', position: 5 },
+        { collection_id: 'empty', product_id: 'product-1', position: 0 },
+      ])
+    })
+  })
+
+  describe('getCategoryRevenue', () => {
+    it('should roll revenue up through the taxonomy, net of refunds', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, {
+        data: [
+          {
+            id: 'order-1',
+            items: [
+              { product_id: 'port-ellen-1981', quantity: 1, price: 500 },
+              { product_id: 'laphroaig-10', quantity: 2, price: 45.5 },
+            ],
+            refunds: [{ status: 'succeeded', lines: [{ product_id: 'laphroaig-10', quantity: 1, amount: 45.5 }] }],
+          },
+          {
+            id: 'order-2',
+            items: [
+              { product_id: 'buffalo-trace', quantity: 3, price: 30 },
+              { product_id: 'gift-card', quantity: 1, price: 25 },
+            ],
+            refunds: [],
+          },
+        ],
+      })
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, {
+        data: [
+          { id: 'port-ellen-1981', category_id: 'port-ellen' },
+          { id: 'laphroaig-10', category_id: 'islay' },
+          { id: 'buffalo-trace', category_id: 'bourbon' },
+          { id: 'gift-card', category_id: null },
+        ],
+      })
+
+      const report = await service.getCategoryRevenue('2024-01-01T00:00:00Z')
+
+      expect(report.orderCount).toBe(2)
+      expect(report.total).toEqual({ EUR: 660.5 })
+      expect(report.rows.map(row => [row.name, row.revenue, row.totalRevenue, row.unitsSold])).toEqual([
+        ['Bourbon', { EUR: 90 }, { EUR: 90 }, 3],
+        ['Scotch', {}, { EUR: 545.5 }, 2],
+        ['Islay', { EUR: 45.5 }, { EUR: 545.5 }, 2],
+        ['Port Ellen', { EUR: 500 }, { EUR: 500 }, 1],
+        [UNCATEGORISED_LABEL, { EUR: 25 }, { EUR: 25 }, 1],
+      ])
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'gte')[0].args).toEqual(['created_at', '2024-01-01T00:00:00Z'])
+    })
+
+    it('should not subtract the lines of failed refunds', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, {
+        data: [{
+          id: 'order-1',
+          currency: 'EUR',
+          items: [{ product_id: 'laphroaig-10', quantity: 2, price: 45.5 }],
+          refunds: [
+            { status: 'failed', lines: [{ product_id: 'laphroaig-10', quantity: 2, amount: 91 }] },
+            { status: 'pending', lines: [{ product_id: 'laphroaig-10', quantity: 1, amount: 45.5 }] },
+          ],
+        }],
+      })
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'laphroaig-10', category_id: 'islay' }] })
+
+      const report = await service.getCategoryRevenue(null)
+
+      expect(report.total).toEqual({ EUR: 45.5 })
+      expect(report.rows.find(row => row.name === 'Islay')?.unitsSold).toBe(1)
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'select')[0].args[0]).toContain('refunds(status,')
+    })
+
+    it('should keep revenue in different currencies apart', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, {
+        data: [
+          { id: 'order-1', currency: 'EUR', items: [{ product_id: 'laphroaig-10', quantity: 1, price: 45.5 }], refunds: [] },
+          { id: 'order-2', currency: 'GBP', items: [{ product_id: 'laphroaig-10', quantity: 2, price: 40 }], refunds: [] },
+        ],
+      })
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: taxonomy })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'laphroaig-10', category_id: 'islay' }] })
+
+      const report = await service.getCategoryRevenue(null)
+
+      expect(report.total).toEqual({ EUR: 45.5, GBP: 80 })
+      expect(report.rows.find(row => row.name === 'Scotch')?.totalRevenue).toEqual({ EUR: 45.5, GBP: 80 })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'select')[0].args[0]).toContain('currency')
+    })
+  })
+})
@@ -0,0 +1,369 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ContentServiceImpl } from '../contentService'
+import { CONTENT_PAGES, CONTENT_TABLES } from '../../constants/content'
+import { isContentError } from '../../utils/typeGuards'
+import type { AuditService } from '../../types/services'
+import type { AuditLogRecord } from '../../types/audit'
+import type { ContentDraft, ContentDraftStatus, ContentSection } from '../../types/content'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'editor@example.com', role: 'editor' as const }
+const admin = { id: 'user-2', email: 'admin@example.com', role: 'admin' as const }
+
+const section = (id: string, style_type: string, content: string, extra: Partial<ContentSection> = {}): ContentSection => ({
+  id,
+  section_key: `${style_type}_1`,
+  content,
+  order_number: 1,
+  style_type,
+  ...extra,
+})
+
+const version = (id: string, content: string, created_at: string, from?: string): AuditLogRecord => ({
+  id,
+  entity_type: 'content_section',
+  entity_id: 's-1',
+  action: 'content_section.published',
+  actor_id: 'user-2',
+  actor_email: 'admin@example.com',
+  changes: from !== undefined ? { content: { from, to: content } } : null,
+  metadata: { page: 'whiskypage', author: 'editor@example.com' },
+  snapshot: { content, version: null, author: 'editor@example.com' },
+  created_at,
+})
+
+const draft = (section_id: string, content: string, status: ContentDraftStatus = 'draft'): ContentDraft => ({
+  id: `draft-${section_id}`,
+  page: 'charitypage',
+  section_id,
+  content,
+  status,
+  created_by: 'editor@example.com',
+  updated_by: 'editor@example.com',
+  submitted_by: status === 'in_review' ? 'editor@example.com' : null,
+  submitted_at: status === 'in_review' ? '2024-05-01T10:00:00Z' : null,
+  review_note: null,
+  created_at: '2024-05-01T09:00:00Z',
+  updated_at: '2024-05-01T09:00:00Z',
+})
+
+describe('ContentService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: ContentServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new ContentServiceImpl(mock.client, audit)
+  })
+
+  it('should read the sections of a page from the table in the registry', async () => {
+    mock.respond(CONTENT_PAGES.charitypage.table, { data: [section('s-1', 'title', 'Charity')] })
+
+    const sections = await service.getSections('charitypage')
+
+    expect(sections).toHaveLength(1)
+    expect(mock.callsFor(CONTENT_PAGES.charitypage.table, 'order')[0].args).toEqual(['order_number'])
+  })
+
+  it('should reject pages that are not in the registry', async () => {
+    const error = await service.getSections('constructor').catch(err => err)
+
+    expect(isContentError(error) && error.type).toBe('content_page_not_found')
+    expect(mock.client.from).not.toHaveBeenCalled()
+  })
+
+  describe('saveDraft', () => {
+    it('should save the draft without touching the live section', async () => {
+      const table = CONTENT_PAGES.aboutpage.table
+      mock.respond(table, { data: section('s-1', 'email', 'old@example.com', { version: 3 }) })
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: null }, { data: draft('s-1', 'new@example.com') })
+
+      await service.saveDraft('aboutpage', 's-1', ' new@example.com ', actor)
+
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'insert')[0].args[0]).toMatchObject({
+        page: 'aboutpage',
+        section_id: 's-1',
+        content: 'new@example.com',
+        status: 'draft',
+        created_by: 'editor@example.com',
+      })
+      expect(mock.callsFor(table, 'update')).toHaveLength(0)
+    })
+
+    it('should take a changed draft out of review', async () => {
+      mock.respond(CONTENT_PAGES.whiskypage.table, { data: section('s-1', 'paragraph', 'Live') })
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'Draft', 'in_review') }, { data: draft('s-1', 'Better draft') })
+
+      await service.saveDraft('whiskypage', 's-1', 'Better draft', actor)
+
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'update')[0].args[0]).toMatchObject({
+        content: 'Better draft',
+        status: 'draft',
+        submitted_at: null,
+      })
+    })
+
+    it.each([
+      ['aboutpage', section('s-1', 'email', 'info@example.com'), 'not an email'],
+      ['artpage', section('s-1', 'image', 'hero.jpg'), '   '],
+      ['charitypage', section('s-1', 'link', 'example.com'), 'example .com'],
+      ['charitypage', section('s-1', 'image', 'hero.jpg'), 'other.jpg'], // Not a style type of the charity page
+    ])('should refuse content that does not suit a %s section', async (page, existing, content) => {
+      mock.respond(CONTENT_PAGES[page as keyof typeof CONTENT_PAGES].table, { data: existing })
+
+      const error = await service.saveDraft(page, 's-1', content, actor).catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('invalid_content_section')
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS)).toHaveLength(0)
+    })
+
+    it('should refuse to overwrite a draft someone else saved since the edit started', async () => {
+      mock.respond(CONTENT_PAGES.whiskypage.table, { data: section('s-1', 'paragraph', 'Live') })
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: { ...draft('s-1', 'Their draft'), updated_at: '2024-05-01T11:00:00Z' } })
+
+      const error = await service.saveDraft('whiskypage', 's-1', 'My draft', actor, '2024-05-01T09:00:00Z').catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('concurrent_update')
+      expect(error.details.current).toMatchObject({ content: 'Their draft' })
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'update')).toHaveLength(0)
+    })
+
+    it('should treat a draft published since the edit started as a conflict', async () => {
+      mock.respond(CONTENT_PAGES.whiskypage.table, { data: section('s-1', 'paragraph', 'Live') })
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: null })
+
+      const error = await service.saveDraft('whiskypage', 's-1', 'My draft', actor, '2024-05-01T09:00:00Z').catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('concurrent_update')
+      expect(error.details.current).toBeNull()
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'insert')).toHaveLength(0)
+    })
+
+    it('should report sections that do not exist', async () => {
+      const error = await service.saveDraft('whiskypage', 's-9', 'Text', actor).catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('content_section_not_found')
+    })
+  })
+
+  describe('review', () => {
+    it('should submit a draft for review', async () => {
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'Draft') }, { data: draft('s-1', 'Draft', 'in_review') })
+
+      await service.submitDraft('charitypage', 's-1', actor)
+
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'update')[0].args[0]).toMatchObject({
+        status: 'in_review',
+        submitted_by: 'editor@example.com',
+        review_note: null,
+      })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'content_section.submitted' }))
+    })
+
+    it('should send a rejected draft back to draft with the note', async () => {
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'Draft', 'in_review') }, { data: draft('s-1', 'Draft') })
+
+      await service.rejectDraft('charitypage', 's-1', ' Too long ', admin)
+
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'update')[0].args[0]).toMatchObject({ status: 'draft', review_note: 'Too long' })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'content_section.rejected',
+        metadata: { page: 'charitypage', note: 'Too long', author: 'editor@example.com' },
+      }))
+    })
+
+    it('should only publish drafts that are in review', async () => {
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'Draft') })
+
+      const error = await service.publishDraft('charitypage', 's-1', admin).catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('content_not_allowed')
+      expect(mock.callsFor(CONTENT_PAGES.charitypage.table)).toHaveLength(0)
+    })
+
+    it('should put an approved draft live, credit its author and remove it', async () => {
+      const table = CONTENT_PAGES.aboutpage.table
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'New text', 'in_review') }, { data: [{ id: 'draft-s-1' }] })
+      mock.respond(table,
+        { data: section('s-1', 'paragraph', 'Old text', { version: 3 }) },
+        { data: section('s-1', 'paragraph', 'New text', { version: 4 }) }
+      )
+
+      const published = await service.publishDraft('aboutpage', 's-1', admin)
+
+      expect(published.version).toBe(4)
+      expect(mock.callsFor(table, 'update')[0].args[0]).toMatchObject({
+        content: 'New text',
+        version: 4,
+        last_edited_by: 'editor@example.com',
+      })
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'delete')).toHaveLength(1)
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'eq').map(call => call.args)).toContainEqual(['updated_at', '2024-05-01T09:00:00Z'])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'content_section',
+        action: 'content_section.published',
+        actor: admin,
+        changes: { content: { from: 'Old text', to: 'New text' } },
+        metadata: { page: 'aboutpage', sectionKey: 'paragraph_1', author: 'editor@example.com' },
+        snapshot: { content: 'New text', version: 4, author: 'editor@example.com' },
+      }))
+    })
+
+    it('should not publish over a version of the section published in the meantime', async () => {
+      const table = CONTENT_PAGES.aboutpage.table
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'New text', 'in_review') }, { data: [{ id: 'draft-s-1' }] })
+      mock.respond(table,
+        { data: section('s-1', 'paragraph', 'Old text', { version: 3 }) },
+        { data: null },
+        { data: section('s-1', 'paragraph', 'Other text', { version: 4 }) }
+      )
+
+      const error = await service.publishDraft('aboutpage', 's-1', admin).catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('concurrent_update')
+      expect(mock.callsFor(table, 'eq').map(call => call.args)).toContainEqual(['version', 3])
+      expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'insert')[0].args[0]).toMatchObject({ id: 'draft-s-1', content: 'New text' })
+    })
+
+    it('should not publish or remove a draft saved again since it was read', async () => {
+      const table = CONTENT_PAGES.aboutpage.table
+      mock.respond(CONTENT_TABLES.DRAFTS,
+        { data: draft('s-1', 'New text', 'in_review') },
+        { data: [] },
+        { data: { ...draft('s-1', 'Newer text', 'in_review'), updated_at: '2024-05-01T11:00:00Z' } }
+      )
+      mock.respond(table, { data: section('s-1', 'paragraph', 'Old text', { version: 3 }) })
+
+      const error = await service.publishDraft('aboutpage', 's-1', admin).catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('concurrent_update')
+      expect(error.details.current).toMatchObject({ content: 'Newer text' })
+      expect(mock.callsFor(table, 'update')).toHaveLength(0)
+    })
+
+    it('should leave out the columns a table does not have', async () => {
+      const table = CONTENT_PAGES.artpage.table
+      mock.respond(CONTENT_TABLES.DRAFTS, { data: draft('s-1', 'New', 'in_review') }, { data: [{ id: 'draft-s-1' }] })
+      mock.respond(table, { data: section('s-1', 'paragraph', 'Old') }, { data: section('s-1', 'paragraph', 'New') })
+
+      await service.publishDraft('artpage', 's-1', admin)
+
+      const changes = mock.callsFor(table, 'update')[0].args[0]
+      expect(changes).not.toHaveProperty('version')
+      expect(changes).not.toHaveProperty('last_edited_by')
+    })
+
+    it('should publish every draft in review on a page, but not the drafts still being written', async () => {
+      const table = CONTENT_PAGES.charitypage.table
+      mock.respond(CONTENT_TABLES.DRAFTS, {
+        data: [draft('s-1', 'One', 'in_review'), draft('s-2', 'Two'), { ...draft('s-3', 'Three', 'in_review'), id: 'draft-s-3' }],
+      }, { data: [{ id: 'draft-s-1' }] }, { data: [{ id: 'draft-s-3' }] })
+      mock.respond(table,
+        { data: section('s-1', 'paragraph', 'Old one') },
+        { data: section('s-1', 'paragraph', 'One') },
+        { data: section('s-3', 'paragraph', 'Old three') },
+        { data: section('s-3', 'paragraph', 'Three') }
+      )
+
+      const result = await service.publishPage('charitypage', admin)
+
+      expect(result).toEqual({ page: 'charitypage', published: 2 })
+      expect(mock.callsFor(table, 'update').map(call => call.args[0].content)).toEqual(['One', 'Three'])
+    })
+  })
+
+  describe('versions', () => {
+    it('should put an earlier version live as a new version, credited to whoever restored it', async () => {
+      const table = CONTENT_PAGES.whiskypage.table
+      vi.mocked(audit.getEntries).mockResolvedValue([
+        version('rev-2', 'Current text', '2024-05-02T10:00:00Z'),
+        version('rev-1', 'First text', '2024-05-01T10:00:00Z'),
+      ])
+      mock.respond(table,
+        { data: section('s-1', 'paragraph', 'Current text', { version: 2 }) },
+        { data: section('s-1', 'paragraph', 'First text', { version: 3 }) }
+      )
+
+      await service.restoreRevision('whiskypage', 's-1', 'rev-1', actor)
+
+      expect(audit.getEntries).toHaveBeenCalledWith('content_section', 's-1', { revisionsOnly: true })
+      expect(mock.callsFor(table, 'update')[0].args[0]).toMatchObject({ content: 'First text', version: 3, last_edited_by: 'editor@example.com' })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'content_section.restored',
+        metadata: expect.objectContaining({ restoredFrom: 'rev-1' }),
+        snapshot: { content: 'First text', version: 3, author: 'editor@example.com' },
+      }))
+    })
+
+    it('should report versions that do not exist', async () => {
+      vi.mocked(audit.getEntries).mockResolvedValue([version('rev-1', 'Text', '2024-05-01T10:00:00Z')])
+
+      const error = await service.restoreRevision('whiskypage', 's-1', 'rev-9', actor).catch(err => err)
+
+      expect(isContentError(error) && error.type).toBe('content_revision_not_found')
+      expect(mock.callsFor(CONTENT_PAGES.whiskypage.table)).toHaveLength(0)
+    })
+
+    it('should show each section of a page as it was at a moment', async () => {
+      mock.respond(CONTENT_PAGES.whiskypage.table, {
+        data: [
+          section('s-1', 'paragraph', 'Third'),
+          section('s-2', 'paragraph', 'Newer'),
+          section('s-3', 'paragraph', 'Untouched'),
+        ],
+      })
+      vi.mocked(audit.getEntries)
+        .mockResolvedValueOnce([
+          version('rev-3', 'Third', '2024-05-03T10:00:00Z', 'Second'),
+          version('rev-2', 'Second', '2024-05-02T10:00:00Z', 'First'),
+        ])
+        .mockResolvedValueOnce([version('rev-4', 'Newer', '2024-05-04T10:00:00Z', 'Before versions were kept')])
+        .mockResolvedValueOnce([])
+
+      const snapshot = await service.getPageSnapshot('whiskypage', '2024-05-02T12:00:00.000Z')
+
+      expect(snapshot.sections.map(({ content, changed }) => ({ content, changed }))).toEqual([
+        { content: 'Second', changed: true },
+        { content: 'Before versions were kept', changed: true },
+        { content: 'Untouched', changed: false },
+      ])
+    })
+
+    it('should roll a page back by restoring only the sections that differ', async () => {
+      const table = CONTENT_PAGES.charitypage.table
+      mock.respond(table,
+        { data: [section('s-1', 'paragraph', 'Now'), section('s-2', 'paragraph', 'Same')] },
+        { data: section('s-1', 'paragraph', 'Then') }
+      )
+      vi.mocked(audit.getEntries)
+        .mockResolvedValueOnce([version('rev-2', 'Now', '2024-05-03T10:00:00Z', 'Then')])
+        .mockResolvedValueOnce([version('rev-1', 'Same', '2024-05-01T10:00:00Z')])
+
+      const result = await service.rollbackPage('charitypage', '2024-05-02T00:00:00.000Z', admin)
+
+      expect(result).toEqual({ page: 'charitypage', at: '2024-05-02T00:00:00.000Z', restored: 1 })
+      expect(mock.callsFor(table, 'update').map(call => call.args[0].content)).toEqual(['Then'])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'content_section.restored',
+        metadata: expect.objectContaining({ rolledBackTo: '2024-05-02T00:00:00.000Z' }),
+      }))
+    })
+
+    it.each([
+      [{}],
+      [{ at: 'yesterday' }],
+      [{ at: '2999-01-01T00:00:00Z' }],
+    ])('should refuse %j as the moment of a snapshot', (payload) => {
+      expect(() => service.validateSnapshotInput(payload)).toThrow()
+    })
+  })
+
+  it('should count the drafts in review per page', async () => {
+    mock.respond(CONTENT_TABLES.DRAFTS, { data: [{ page: 'aboutpage' }, { page: 'aboutpage' }, { page: 'artpage' }] })
+
+    expect(await service.getPendingCounts()).toEqual({ aboutpage: 2, artpage: 1 })
+    expect(mock.callsFor(CONTENT_TABLES.DRAFTS, 'eq')[0].args).toEqual(['status', 'in_review'])
+  })
+})
@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { CustomerServiceImpl } from '../customerService'
+import { AuditServiceImpl } from '../auditService'
+import { ORDER_TABLES } from '../../constants/orders'
+import { EMAIL_TABLES } from '../../constants/email'
+import { SHIPMENT_TABLES } from '../../constants/shipments'
+import { AUDIT_TABLES } from '../../constants/api'
+import { DEFAULT_CUSTOMER_LIST_QUERY } from '../../constants/customers'
+import { isCustomerError } from '../../utils/typeGuards'
+import {
+  buildCustomerProfiles,
+  canonicalEmail,
+  findDuplicateCustomers,
+  parseCustomerListParams,
+  queryCustomers,
+  toCustomerListQuery
+} from '../../utils/customers'
+import type { Order } from '../../types/orders'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'anna@whiskyforcharity.com', role: 'admin' as const }
+
+let sequence = 0
+
+const makeOrder = (overrides: Partial<Order> = {}): Order => {
+  sequence += 1
+  return {
+    id: `order-${sequence}`,
+    order_number: `WFC-${1000 + sequence}`,
+    customer_first_name: 'Jan',
+    customer_last_name: 'Jansen',
+    customer_email: 'jan@example.com',
+    customer_address: 'Dorpsstraat 1',
+    customer_city: 'Utrecht',
+    customer_postal_code: '1234 AB',
+    customer_country: 'Netherlands',
+    total_amount: 100,
+    status: 'completed',
+    payment_reference: null,
+    created_at: '2024-03-01T10:00:00Z',
+    updated_at: '2024-03-01T10:00:00Z',
+    emails_sent: true,
+    refunded_amount: 0,
+    ...overrides,
+  }
+}
+
+describe('buildCustomerProfiles', () => {
+  it('should group orders by email regardless of case and spacing', () => {
+    const profiles = buildCustomerProfiles([
+      makeOrder({ customer_email: 'Jan@Example.com ', created_at: '2024-01-01T10:00:00Z' }),
+      makeOrder({ customer_email: 'jan@example.com', customer_first_name: 'Johannes', created_at: '2024-05-01T10:00:00Z' }),
+      makeOrder({ customer_email: 'piet@example.com' }),
+    ])
+
+    expect(profiles).toHaveLength(2)
+    expect(profiles[0]).toMatchObject({
+      email: 'jan@example.com',
+      emailVariants: ['jan@example.com', 'Jan@Example.com '],
+      firstName: 'Johannes',
+      orderCount: 2,
+      firstOrderAt: '2024-01-01T10:00:00Z',
+      lastOrderAt: '2024-05-01T10:00:00Z',
+    })
+  })
+
+  it('should only count paid orders, minus refunds, as donated', () => {
+    const [profile] = buildCustomerProfiles([
+      makeOrder({ total_amount: 100, status: 'completed' }),
+      makeOrder({ total_amount: 50.5, status: 'partially_refunded', refunded_amount: 20.25 }),
+      makeOrder({ total_amount: 75, status: 'pending' }),
+      makeOrder({ total_amount: 80, status: 'refunded', refunded_amount: 80 }),
+    ])
+
+    expect(profile.lifetimeDonated).toEqual({ EUR: 130.25 })
+    expect(profile.paidOrderCount).toBe(2)
+    expect(profile.orderCount).toBe(4)
+  })
+
+  it('should keep donations in different currencies apart', () => {
+    const [profile] = buildCustomerProfiles([
+      makeOrder({ total_amount: 100, currency: 'EUR' }),
+      makeOrder({ total_amount: 40, currency: 'GBP' }),
+      makeOrder({ total_amount: 60, currency: 'GBP', status: 'partially_refunded', refunded_amount: 10 }),
+      makeOrder({ total_amount: 25, currency: null }),
+    ])
+
+    expect(profile.lifetimeDonated).toEqual({ EUR: 125, GBP: 90 })
+  })
+
+  it('should list each address once, most recently used first', () => {
+    const [profile] = buildCustomerProfiles([
+      makeOrder({ created_at: '2024-01-01T10:00:00Z' }),
+      makeOrder({ customer_postal_code: '1234AB', created_at: '2024-02-01T10:00:00Z' }),
+      makeOrder({ customer_address: 'Kerkplein 5', customer_city: 'Amsterdam', created_at: '2024-03-01T10:00:00Z' }),
+    ])
+
+    expect(profile.addresses.map(address => [address.address, address.lastUsedAt])).toEqual([
+      ['Kerkplein 5', '2024-03-01T10:00:00Z'],
+      ['Dorpsstraat 1', '2024-02-01T10:00:00Z'],
+    ])
+  })
+})
+
+describe('findDuplicateCustomers', () => {
+  it('should group emails that only differ in +tags or Gmail dots', () => {
+    expect(canonicalEmail('Jan.Jansen+wfc@googlemail.com')).toBe('janjansen@gmail.com')
+
+    const groups = findDuplicateCustomers(buildCustomerProfiles([
+      makeOrder({ customer_email: 'jan.jansen@gmail.com' }),
+      makeOrder({ customer_email: 'janjansen+whisky@gmail.com', customer_postal_code: '9999 ZZ' }),
+      makeOrder({ customer_email: 'jan.jansen@example.com', customer_postal_code: '5555 XX' }),
+    ]))
+
+    expect(groups).toEqual([
+      {
+        reason: 'similar_email',
+        customers: [expect.objectContaining({ email: 'jan.jansen@gmail.com' }), expect.objectContaining({ email: 'janjansen+whisky@gmail.com' })],
+      },
+    ])
+  })
+
+  it('should group the same name at the same postal code, but not anonymised customers', () => {
+    const groups = findDuplicateCustomers(buildCustomerProfiles([
+      makeOrder({ customer_email: 'jan@example.com' }),
+      makeOrder({ customer_email: 'jan@work.example', customer_first_name: 'jan', customer_postal_code: '1234ab' }),
+      makeOrder({ customer_email: 'customer-1@anonymised.invalid', customer_first_name: 'Anonymised', customer_last_name: 'Customer', customer_postal_code: '' }),
+      makeOrder({ customer_email: 'customer-2@anonymised.invalid', customer_first_name: 'Anonymised', customer_last_name: 'Customer', customer_postal_code: '' }),
+    ]))
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].reason).toBe('same_name_and_postal_code')
+    expect(groups[0].customers.map(customer => customer.email)).toEqual(['jan@example.com', 'jan@work.example'])
+  })
+})
+
+describe('queryCustomers', () => {
+  const profiles = buildCustomerProfiles([
+    makeOrder({ customer_email: 'jan@example.com', total_amount: 50 }),
+    makeOrder({ customer_email: 'piet@example.com', customer_first_name: 'Piet', customer_last_name: 'Bakker', customer_city: 'Delft', total_amount: 300 }),
+    makeOrder({ customer_email: 'klaas@example.com', customer_first_name: 'Klaas', customer_last_name: 'Visser', total_amount: 120 }),
+  ])
+
+  it('should search by name, email and city', () => {
+    expect(queryCustomers(profiles, { ...DEFAULT_CUSTOMER_LIST_QUERY, search: 'delft' }).customers.map(c => c.email)).toEqual(['piet@example.com'])
+    expect(queryCustomers(profiles, { ...DEFAULT_CUSTOMER_LIST_QUERY, search: 'KLAAS@' }).total).toBe(1)
+  })
+
+  it('should sort and paginate', () => {
+    const page = queryCustomers(profiles, { ...DEFAULT_CUSTOMER_LIST_QUERY, sortField: 'lifetime_donated', page: 2 }, 2)
+
+    expect(page).toMatchObject({ total: 3, page: 2, pageCount: 2 })
+    expect(page.customers.map(c => c.email)).toEqual(['jan@example.com'])
+    expect(queryCustomers(profiles, { ...DEFAULT_CUSTOMER_LIST_QUERY, sortField: 'name', sortDirection: 'asc' }).customers.map(c => c.lastName))
+      .toEqual(['Bakker', 'Jansen', 'Visser'])
+  })
+
+  it('should round-trip the list query through URL params, leaving out defaults', () => {
+    const query = { search: 'jan', sortField: 'name' as const, sortDirection: 'asc' as const, page: 3 }
+
+    expect(toCustomerListQuery(query)).toBe('q=jan&sort=name&dir=asc&page=3')
+    expect(parseCustomerListParams(new URLSearchParams(toCustomerListQuery(query)))).toEqual(query)
+    expect(toCustomerListQuery(parseCustomerListParams(new URLSearchParams('sort=bogus&page=-1')))).toBe('')
+  })
+})
+
+describe('CustomerService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let service: CustomerServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    service = new CustomerServiceImpl(mock.client, new AuditServiceImpl(mock.client))
+  })
+
+  describe('listCustomers', () => {
+    it('should load all orders in chunks of the maximum query size', async () => {
+      const fullChunk = Array.from({ length: 1000 }, (_, index) => makeOrder({ customer_email: `c${index}@example.com` }))
+      mock.respond(ORDER_TABLES.ORDERS, { data: fullChunk }, { data: [makeOrder({ customer_email: 'last@example.com' })] })
+
+      const page = await service.listCustomers(DEFAULT_CUSTOMER_LIST_QUERY)
+
+      expect(page.total).toBe(1001)
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'range').map(call => call.args)).toEqual([[0, 999], [1000, 1999]])
+    })
+  })
+
+  describe('getCustomer', () => {
+    it('should match the email literally and ignore longer emails containing it', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, {
+        data: [makeOrder({ customer_email: 'JAN_1@example.com' }), makeOrder({ customer_email: 'bojan_1@example.com' })],
+      })
+
+      const { profile, orders } = await service.getCustomer('jan_1@example.com')
+
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'ilike')[0].args).toEqual(['customer_email', '%jan\\_1@example.com%'])
+      expect(orders).toHaveLength(1)
+      expect(profile.email).toBe('jan_1@example.com')
+    })
+
+    it('should throw customer_not_found when no order has the email', async () => {
+      const error = await service.getCustomer('nobody@example.com').catch(e => e)
+
+      expect(isCustomerError(error) && error.type).toBe('customer_not_found')
+    })
+  })
+
+  describe('mergeCustomers', () => {
+    it('should move the source orders to the target email and audit the merge', async () => {
+      mock.respond(
+        ORDER_TABLES.ORDERS,
+        { data: [makeOrder({ id: 'order-a', customer_email: 'jan@example.com' })] },
+        { data: [makeOrder({ id: 'order-b', customer_email: 'Jan.Jansen@example.com' })] },
+        { data: null }
+      )
+
+      const result = await service.mergeCustomers({
+        targetEmail: ' JAN@example.com',
+        sourceEmails: ['jan.jansen@example.com', 'jan@example.com'],
+      }, actor)
+
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')[0].args[0]).toMatchObject({ customer_email: 'jan@example.com' })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'in')[0].args).toEqual(['id', ['order-b']])
+      expect(result.mergedOrderIds).toEqual(['order-b'])
+      expect(result.customer).toMatchObject({ email: 'jan@example.com', orderCount: 2 })
+      expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toMatchObject({
+        entity_type: 'customer',
+        entity_id: 'jan@example.com',
+        action: 'customer.merged',
+        metadata: { sourceEmails: ['jan.jansen@example.com'], orderIds: ['order-b'] },
+      })
+    })
+
+    it('should not update anything when a source customer doesn\'t exist', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: [makeOrder()] }, { data: [] })
+
+      await expect(service.mergeCustomers({ targetEmail: 'jan@example.com', sourceEmails: ['typo@example.com'] }, actor))
+        .rejects.toMatchObject({ type: 'customer_not_found' })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')).toHaveLength(0)
+    })
+
+    it('should reject merging with no other customer or with anonymised customers', async () => {
+      await expect(service.mergeCustomers({ targetEmail: 'jan@example.com', sourceEmails: ['Jan@example.com'] }, actor))
+        .rejects.toMatchObject({ type: 'invalid_customer' })
+      await expect(service.mergeCustomers({ targetEmail: 'jan@example.com', sourceEmails: ['customer-1@anonymised.invalid'] }, actor))
+        .rejects.toMatchObject({ type: 'customer_not_allowed' })
+      expect(mock.calls).toHaveLength(0)
+    })
+  })
+
+  describe('exportCustomer', () => {
+    it('should collect orders with their items, emails and shipments', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: [makeOrder({ id: 'order-a' }), makeOrder({ id: 'order-b' })] })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [{ id: 'item-1', order_id: 'order-b' }] })
+      mock.respond(EMAIL_TABLES.ORDER_EMAIL_LOG, { data: [{ id: 'email-1', order_id: 'order-a' }] })
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: [{ id: 'shipment-1', order_id: 'order-a' }] })
+
+      const data = await service.exportCustomer('jan@example.com', actor)
+
+      expect(data.orders.map(order => [order.id, order.items.map(item => item.id)])).toEqual([['order-a', []], ['order-b', ['item-1']]])
+      expect(data.emails).toHaveLength(1)
+      expect(data.shipments).toHaveLength(1)
+      expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toMatchObject({ action: 'customer.exported' })
+    })
+  })
+
+  describe('anonymiseCustomer', () => {
+    it('should scrub the orders, the email log and earlier customer audit entries', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: [makeOrder({ id: 'order-a' }), makeOrder({ id: 'order-b', status: 'refunded' })] })
+
+      const result = await service.anonymiseCustomer('jan@example.com', actor)
+
+      expect(result.pseudonym).toMatch(/^customer-[0-9a-f]{8}@anonymised\.invalid$/)
+      expect(result.anonymisedOrderIds).toEqual(['order-a', 'order-b'])
+
+      const [orderUpdate] = mock.callsFor(ORDER_TABLES.ORDERS, 'update')[0].args
+      expect(orderUpdate).toMatchObject({
+        customer_first_name: 'Anonymised',
+        customer_last_name: 'Customer',
+        customer_email: result.pseudonym,
+        customer_address: '',
+        customer_city: '',
+        customer_postal_code: '',
+      })
+      expect(orderUpdate).not.toHaveProperty('customer_country')
+
+      expect(mock.callsFor(EMAIL_TABLES.ORDER_EMAIL_LOG, 'update')[0].args[0]).toEqual({ recipient: result.pseudonym })
+      expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'update')[0].args[0]).toEqual({ entity_id: result.pseudonym, metadata: null })
+      expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toMatchObject({
+        entity_id: result.pseudonym,
+        action: 'customer.anonymised',
+      })
+    })
+
+    it('should replace the email in merges into other customers', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: [makeOrder({ id: 'order-a' })] })
+      mock.respond(AUDIT_TABLES.AUDIT_LOG,
+        { data: null }, // earlier entries of the customer
+        { data: [{ id: 'audit-1', metadata: { sourceEmails: ['jan@example.com', 'j.jansen@example.com'], orderIds: ['order-a'] } }] },
+        { data: null }
+      )
+
+      const result = await service.anonymiseCustomer('jan@example.com', actor)
+
+      expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'contains')[0].args).toEqual(['metadata', { sourceEmails: ['jan@example.com'] }])
+      const [, scrub] = mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'update')
+      expect(scrub.args[0]).toEqual({ metadata: { sourceEmails: [result.pseudonym, 'j.jansen@example.com'], orderIds: ['order-a'] } })
+      expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'eq').map(call => call.args)).toContainEqual(['id', 'audit-1'])
+    })
+
+    it('should refuse customers with open orders', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: [makeOrder(), makeOrder({ order_number: 'WFC-9', status: 'paid' })] })
+
+      await expect(service.anonymiseCustomer('jan@example.com', actor)).rejects.toMatchObject({
+        type: 'customer_not_allowed',
+        details: { orderNumbers: ['WFC-9'] },
+      })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { InventoryServiceImpl } from '../inventoryService'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { INVENTORY_TABLES, STOCK_MOVEMENT_REASONS } from '../../constants/inventory'
+import { DATABASE } from '../../constants/auth'
+import { isInventoryError } from '../../utils/typeGuards'
+import { buildStockSeries, findLowStock } from '../../utils/inventory'
+import type { AuditService } from '../../types/services'
+import type { StockMovementRecord } from '../../types/inventory'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'admin@example.com', role: 'admin' as const }
+
+const movement = (overrides: Partial<StockMovementRecord>): StockMovementRecord => ({
+  product_id: 'product-1',
+  variant_id: null,
+  type: 'adjustment',
+  quantity: 0,
+  stock_after: 0,
+  reason: null,
+  reference_id: null,
+  created_by: null,
+  created_by_email: null,
+  ...overrides,
+})
+
+describe('InventoryService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: InventoryServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new InventoryServiceImpl(mock.client, audit)
+  })
+
+  describe('validateAdjustment', () => {
+    it('should accept a counted stock with a reason', () => {
+      expect(service.validateAdjustment({ stock: '4', reason: ' Stock count ' }))
+        .toEqual({ stock: 4, variantId: null, reason: 'Stock count' })
+    })
+
+    it('should require a reason and a whole stock number', () => {
+      expect(() => service.validateAdjustment({ stock: 4 })).toThrow('A reason is required')
+      expect(() => service.validateAdjustment({ stock: -1, reason: 'Breakage' })).toThrow('Stock must be a whole number')
+      expect(() => service.validateAdjustment({ stock: 1.5, reason: 'Breakage' })).toThrow('Stock must be a whole number')
+      expect(() => service.validateAdjustment(null)).toThrow('Request body must be an object')
+    })
+  })
+
+  describe('adjustStock', () => {
+    it('should set the stock, record the movement and audit the adjustment', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', stock: 10, variants: [] } },
+        { data: { id: 'product-1', stock: 10 } },
+        { data: [{ id: 'product-1' }] }
+      )
+      mock.respond(INVENTORY_TABLES.STOCK_MOVEMENTS, { data: { id: 'movement-1' } })
+
+      const result = await service.adjustStock('product-1', { stock: 7, reason: 'Broken bottles' }, actor)
+
+      expect(result.productStock).toBe(7)
+      expect(result.movement).toMatchObject({ id: 'movement-1', quantity: -3, stock_after: 7, reason: 'Broken bottles' })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args[0]).toEqual({ stock: 7 })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'eq').map(call => call.args)).toContainEqual(['stock', 10])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'product.stock_adjusted',
+        changes: { stock: { from: 10, to: 7 } },
+        metadata: { variantId: null, reason: 'Broken bottles' },
+      }))
+    })
+
+    it('should adjust a variant and move the product total along', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', stock: 8, variants: [{ id: 'variant-1' }] } },
+        { data: { id: 'product-1', stock: 8 } },
+        { data: [{ id: 'product-1' }] }
+      )
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS,
+        { data: { id: 'variant-1', stock: 2 } },
+        { data: [{ id: 'variant-1' }] }
+      )
+
+      const result = await service.adjustStock('product-1', { stock: 5, variantId: 'variant-1', reason: 'Delivery' }, actor)
+
+      expect(result.productStock).toBe(11)
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'update')[0].args[0]).toEqual({ stock: 5 })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args[0]).toEqual({ stock: 11 })
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')[0].args[0])
+        .toMatchObject({ variant_id: 'variant-1', quantity: 3, stock_after: 5 })
+    })
+
+    it('should require the variant for products with variants', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', stock: 8, variants: [{ id: 'variant-1' }] } })
+
+      await expect(service.adjustStock('product-1', { stock: 5, reason: 'Delivery' }, actor))
+        .rejects.toThrow('Choose the variant')
+    })
+
+    it('should refuse an adjustment that changes nothing', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', stock: 4, variants: [] } },
+        { data: { id: 'product-1', stock: 4 } }
+      )
+
+      await expect(service.adjustStock('product-1', { stock: 4, reason: 'Count' }, actor))
+        .rejects.toThrow('Stock is already 4')
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')).toHaveLength(0)
+    })
+
+    it('should give up with a conflict when the stock keeps changing', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', stock: 4, variants: [] } },
+        { data: { id: 'product-1', stock: 4 } }, { data: [] },
+        { data: { id: 'product-1', stock: 3 } }, { data: [] },
+        { data: { id: 'product-1', stock: 2 } }, { data: [] }
+      )
+
+      try {
+        await service.adjustStock('product-1', { stock: 10, reason: 'Delivery' }, actor)
+        expect.unreachable()
+      } catch (error) {
+        expect(isInventoryError(error) && error.type).toBe('stock_conflict')
+      }
+      expect(audit.record).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reconcile', () => {
+    it('should record the difference between the recorded stock and the ledger', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', stock: 12, variants: [] } })
+      mock.respond(INVENTORY_TABLES.STOCK_MOVEMENTS,
+        { data: [movement({ quantity: 5 }), movement({ quantity: -1 })] }
+      )
+
+      const movements = await service.reconcile('product-1', actor)
+
+      expect(movements).toHaveLength(1)
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')[0].args[0]).toMatchObject({
+        variant_id: null,
+        quantity: 8,
+        stock_after: 12,
+        reason: STOCK_MOVEMENT_REASONS.RECONCILIATION,
+      })
+    })
+
+    it('should compare each variant with its own movements', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, {
+        data: { id: 'product-1', stock: 5, variants: [{ id: 'variant-1', stock: 2 }, { id: 'variant-2', stock: 3 }] },
+      })
+      mock.respond(INVENTORY_TABLES.STOCK_MOVEMENTS, {
+        data: [movement({ variant_id: 'variant-1', quantity: 2 }), movement({ variant_id: 'variant-2', quantity: 4 })],
+      })
+
+      const reconciliation = await service.getReconciliation('product-1')
+
+      expect(reconciliation.map(row => row.difference)).toEqual([0, -1])
+    })
+
+    it('should sum the movements of every page of the ledger', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', stock: DATABASE.MAX_QUERY_LIMIT + 2, variants: [] } })
+      mock.respond(INVENTORY_TABLES.STOCK_MOVEMENTS,
+        { data: Array.from({ length: DATABASE.MAX_QUERY_LIMIT }, () => movement({ quantity: 1 })) },
+        { data: [movement({ quantity: 2 })] }
+      )
+
+      const [row] = await service.getReconciliation('product-1')
+
+      expect(row.ledgerStock).toBe(DATABASE.MAX_QUERY_LIMIT + 2)
+      expect(row.difference).toBe(0)
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'range').map(call => call.args)).toEqual([
+        [0, DATABASE.MAX_QUERY_LIMIT - 1],
+        [DATABASE.MAX_QUERY_LIMIT, 2 * DATABASE.MAX_QUERY_LIMIT - 1],
+      ])
+    })
+  })
+
+  describe('getLowStockAlerts', () => {
+    it('should alert on active products and variants at or below their threshold', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, {
+        data: [
+          { id: 'product-1', name: 'Islay 10y', stock: 5, low_stock_threshold: null, variants: [] },
+          { id: 'product-2', name: 'Speyside 12y', stock: 2, low_stock_threshold: 1, variants: [] },
+          {
+            id: 'product-3',
+            name: 'Highland 18y',
+            stock: 10,
+            low_stock_threshold: 5,
+            variants: [
+              { id: 'variant-1', sku: 'HL-18-70', bottle_size_ml: 700, vintage: null, cask: null, stock: 10 },
+              { id: 'variant-2', sku: 'HL-18-20', bottle_size_ml: 200, vintage: null, cask: null, stock: 0 },
+            ],
+          },
+        ],
+      })
+
+      const alerts = await service.getLowStockAlerts()
+
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'eq')[0].args).toEqual(['is_active', true])
+      expect(alerts).toEqual([
+        expect.objectContaining({ productId: 'product-3', variantId: 'variant-2', stock: 0, threshold: 5 }),
+      ])
+    })
+
+    it('should use the default threshold when the product has none', () => {
+      const alerts = findLowStock([{ id: 'product-1', name: 'Islay 10y', stock: 3, low_stock_threshold: null }])
+
+      expect(alerts).toEqual([expect.objectContaining({ productId: 'product-1', stock: 3, threshold: 3 })])
+    })
+  })
+
+  describe('buildStockSeries', () => {
+    it('should walk back from the current stock', () => {
+      const series = buildStockSeries([
+        movement({ quantity: -2, created_at: '2024-01-02T00:00:00Z' }),
+        movement({ quantity: 6, created_at: '2024-01-01T00:00:00Z' }),
+      ], 10)
+
+      expect(series).toEqual([
+        { at: '2024-01-01T00:00:00Z', stock: 12 },
+        { at: '2024-01-02T00:00:00Z', stock: 10 },
+      ])
+    })
+
+    it('should only include the movements of the chosen variant', () => {
+      const series = buildStockSeries([
+        movement({ variant_id: 'variant-1', quantity: 2, created_at: '2024-01-01T00:00:00Z' }),
+        movement({ variant_id: 'variant-2', quantity: 5, created_at: '2024-01-02T00:00:00Z' }),
+      ], 2, 'variant-1')
+
+      expect(series).toEqual([{ at: '2024-01-01T00:00:00Z', stock: 2 }])
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MediaServiceImpl } from '../mediaService'
+import { createMockMediaAdapter, getMediaConfig, type MockMediaAdapter } from '../mediaAdapters'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { MEDIA_SOURCE_TABLES } from '../../constants/media'
+import { isMediaError } from '../../utils/typeGuards'
+import { buildUsageIndex, toPublicId } from '../../utils/media'
+import type { AuditService } from '../../types/services'
+import type { MediaAsset } from '../../types/media'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'admin@example.com', role: 'admin' as const }
+
+const asset = (publicId: string, tags: string[] = []): MediaAsset => ({
+  publicId,
+  url: `https://res.cloudinary.com/demo/image/upload/v1700000000/${publicId}.jpg`,
+  format: 'jpg',
+  width: 800,
+  height: 1200,
+  bytes: 120000,
+  tags,
+  createdAt: '2024-01-01T00:00:00Z',
+})
+
+const products = [
+  {
+    id: 'product-1',
+    name: 'Port Ellen 1981',
+    image: 'products/port-ellen',
+    images: ['products/port-ellen', 'products/port-ellen-box'],
+    variants: [{ id: 'variant-1', sku: 'PE-81-70', image: 'products/port-ellen-70cl' }],
+  },
+]
+
+const heroItems = [
+  { id: 'hero-1', word: 'Give', image_src: 'https://res.cloudinary.com/demo/image/upload/c_fill,w_600/v1700000000/products/port-ellen-box.png' },
+]
+
+describe('MediaService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let adapter: MockMediaAdapter
+  let service: MediaServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    adapter = createMockMediaAdapter([
+      asset('products/port-ellen', ['bottle']),
+      asset('products/port-ellen-box', ['packaging']),
+      asset('products/unused', ['bottle']),
+    ])
+    service = new MediaServiceImpl(mock.client, adapter, audit)
+  })
+
+  describe('media utils', () => {
+    it('should resolve public IDs and Cloudinary delivery URLs', () => {
+      expect(toPublicId('products/bottle')).toBe('products/bottle')
+      expect(toPublicId('https://res.cloudinary.com/demo/image/upload/v1712345678/products/bottle.jpg')).toBe('products/bottle')
+      expect(toPublicId('https://res.cloudinary.com/demo/image/upload/c_fill,w_400/products/bottle.webp')).toBe('products/bottle')
+      expect(toPublicId('https://example.com/images/bottle.jpg')).toBeNull()
+      expect(toPublicId('  ')).toBeNull()
+    })
+
+    it('should index products, variants and hero items once per usage', () => {
+      const index = buildUsageIndex(products, heroItems)
+
+      expect(index.get('products/port-ellen')).toEqual([
+        { kind: 'product', id: 'product-1', label: 'Port Ellen 1981', href: '/dashboard/products/product-1' },
+      ])
+      expect(index.get('products/port-ellen-box')!.map(usage => usage.kind)).toEqual(['product', 'hero_item'])
+      expect(index.get('products/port-ellen-70cl')![0]).toMatchObject({ kind: 'product_variant', label: 'Port Ellen 1981 (PE-81-70)' })
+    })
+  })
+
+  describe('validateSearchQuery', () => {
+    it('should default the page size and reject out of range limits', () => {
+      expect(service.validateSearchQuery({ query: ' bottle ', tag: '' })).toEqual({ query: 'bottle', tag: null, cursor: null, limit: 30 })
+      expect(() => service.validateSearchQuery({ limit: '500' })).toThrow('limit must be between 1 and 100')
+    })
+  })
+
+  describe('searchAssets', () => {
+    it('should list the assets with where they are used', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: products })
+      mock.respond(MEDIA_SOURCE_TABLES.HERO_ITEMS, { data: heroItems })
+
+      const page = await service.searchAssets({ query: null, tag: 'bottle', cursor: null, limit: 1 })
+
+      expect(page.assets.map(item => [item.publicId, item.usage.length])).toEqual([['products/port-ellen', 1]])
+      expect(page.nextCursor).toBe('1')
+    })
+  })
+
+  describe('updateTags', () => {
+    it('should replace the tags and audit the change', async () => {
+      const updated = await service.updateTags('products/unused', ['bottle', 'archive'], actor)
+
+      expect(updated.tags).toEqual(['bottle', 'archive'])
+      expect(updated.usage).toEqual([])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'media_asset',
+        entityId: 'products/unused',
+        action: 'media.tags_updated',
+        changes: { tags: { from: ['bottle'], to: ['bottle', 'archive'] } },
+      }))
+    })
+
+    it('should normalise the tags payload', () => {
+      expect(service.validateTags({ tags: [' Bottle', 'bottle', 'Gift Box'] })).toEqual(['bottle', 'gift box'])
+      expect(() => service.validateTags({ tags: 'bottle' })).toThrow('tags must be a list of text')
+    })
+  })
+
+  describe('deleteAsset', () => {
+    it('should refuse to delete an asset that is still in use', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: products })
+      mock.respond(MEDIA_SOURCE_TABLES.HERO_ITEMS, { data: heroItems })
+
+      const error = await service.deleteAsset('products/port-ellen-box', false, actor).catch(err => err)
+
+      expect(isMediaError(error) && error.type).toBe('asset_in_use')
+      expect(error.details.usage).toHaveLength(2)
+      expect(adapter.destroyed).toEqual([])
+      expect(audit.record).not.toHaveBeenCalled()
+    })
+
+    it('should delete an asset in use when forced and keep the usages in the audit trail', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: products })
+      mock.respond(MEDIA_SOURCE_TABLES.HERO_ITEMS, { data: heroItems })
+
+      const result = await service.deleteAsset('products/port-ellen-box', true, actor)
+
+      expect(result.usage.map(usage => usage.id)).toEqual(['product-1', 'hero-1'])
+      expect(adapter.destroyed).toEqual(['products/port-ellen-box'])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'media.deleted',
+        metadata: expect.objectContaining({ usage: result.usage }),
+      }))
+    })
+
+    it('should report an unknown asset', async () => {
+      await expect(service.deleteAsset('products/missing', false, actor)).rejects.toMatchObject({ type: 'asset_not_found' })
+    })
+
+    it('should pass provider failures on', async () => {
+      adapter.failNext('Rate limit exceeded')
+
+      await expect(service.deleteAsset('products/unused', false, actor)).rejects.toMatchObject({ type: 'provider_error' })
+    })
+  })
+
+  describe('getMediaConfig', () => {
+    it('should never read the API secret from a public variable', () => {
+      const config = getMediaConfig({
+        NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME: 'demo',
+        NEXT_PUBLIC_CLOUDINARY_API_KEY: 'key',
+        NEXT_PUBLIC_CLOUDINARY_API_SECRET: 'leaked',
+      })
+
+      expect(config.cloudinary).toMatchObject({ cloudName: 'demo', apiKey: 'key', apiSecret: undefined })
+      expect(() => getMediaConfig({ MEDIA_ADAPTER: 'ftp' })).toThrow('Unknown MEDIA_ADAPTER: ftp')
+    })
+  })
+})
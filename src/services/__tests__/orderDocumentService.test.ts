@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { OrderDocumentServiceImpl, formatInvoiceNumber, toInvoiceDocumentData } from '../orderDocumentService'
+import { toPdfText } from '../orderDocumentRenderer'
+import { ORDER_TABLES } from '../../constants/orders'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { DOCUMENT_TABLES } from '../../constants/documents'
+import { PRICING_TABLES } from '../../constants/pricing'
+import { calculateVatTotals, splitVat } from '../../utils/vat'
+import { isDocumentError } from '../../utils/typeGuards'
+import type { Order, OrderStatus } from '../../types/orders'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const makeOrder = (id: string, status: OrderStatus = 'paid'): Order => ({
+  id,
+  order_number: `W4C-${id}`,
+  customer_first_name: 'Sam',
+  customer_last_name: 'Jansen',
+  customer_email: 'sam@example.com',
+  customer_address: 'Dorpsstraat 1',
+  customer_city: 'Utrecht',
+  customer_postal_code: '3511 AA',
+  customer_country: 'Netherlands',
+  total_amount: 121,
+  status,
+  payment_reference: 'tr_123',
+  created_at: '2024-03-01T10:00:00Z',
+  updated_at: '2024-03-01T10:00:00Z',
+  emails_sent: true,
+})
+
+describe('OrderDocumentService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let service: OrderDocumentServiceImpl
+
+  const respondWithOrder = (order: Order) => {
+    mock.respond(ORDER_TABLES.ORDERS, { data: order })
+    mock.respond(ORDER_TABLES.ORDER_ITEMS, {
+      data: [{ id: 'item-1', order_id: order.id, product_id: 'product-1', quantity: 2, price: 60.5 }],
+    })
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'product-1', name: 'Islay 10y – Cask Strength' }] })
+  }
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    service = new OrderDocumentServiceImpl(mock.client)
+  })
+
+  describe('VAT', () => {
+    it('should split VAT-inclusive amounts', () => {
+      expect(splitVat(121, 21)).toEqual({ rate: 21, net: 100, vat: 21, gross: 121 })
+    })
+
+    it('should group lines per rate', () => {
+      const totals = calculateVatTotals([
+        { line_total: 60.5, vat_rate: 21 },
+        { line_total: 60.5, vat_rate: 21 },
+        { line_total: 10.9, vat_rate: 9 },
+      ])
+
+      expect(totals.breakdown).toEqual([
+        { rate: 21, net: 100, vat: 21, gross: 121 },
+        { rate: 9, net: 10, vat: 0.9, gross: 10.9 },
+      ])
+      expect(totals).toMatchObject({ subtotalExclVat: 110, vatAmount: 21.9, totalInclVat: 131.9 })
+    })
+  })
+
+  describe('getOrCreateInvoice', () => {
+    it('should reuse the existing invoice of an order', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(DOCUMENT_TABLES.INVOICES, { data: { order_id: 'order-1', sequence: 7, invoice_number: 'W4C-000007' } })
+
+      const invoice = await service.getOrCreateInvoice(await service.loadDocumentData('order-1'))
+
+      expect(invoice.invoice_number).toBe('W4C-000007')
+      expect(mock.callsFor(DOCUMENT_TABLES.INVOICES, 'insert')).toHaveLength(0)
+    })
+
+    it('should issue the next sequential number with the VAT totals', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(DOCUMENT_TABLES.INVOICES,
+        { data: null }, // no invoice yet
+        { data: { sequence: 41 } }, // last issued
+        { data: null } // insert
+      )
+
+      const invoice = await service.getOrCreateInvoice(await service.loadDocumentData('order-1'), { createdBy: 'user-1' })
+
+      expect(invoice).toMatchObject({
+        order_id: 'order-1',
+        sequence: 42,
+        invoice_number: 'W4C-000042',
+        subtotal_excl_vat: 100,
+        vat_amount: 21,
+        total_incl_vat: 121,
+        lines: [expect.objectContaining({ product_id: 'product-1', line_total: 121, vat_rate: 21 })],
+        created_by: 'user-1',
+      })
+    })
+
+    it('should use the VAT rate configured for the customer\'s country', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(PRICING_TABLES.VAT_RATES, { data: [{ id: 'rate-1', country_code: 'NL', category_id: null, rate: 10 }] })
+      mock.respond(DOCUMENT_TABLES.INVOICES, { data: null }, { data: null }, { data: null })
+
+      const data = await service.loadDocumentData('order-1')
+      const invoice = await service.getOrCreateInvoice(data)
+
+      expect(data.lines[0].vat_rate).toBe(10)
+      expect(invoice).toMatchObject({ subtotal_excl_vat: 110, vat_amount: 11, total_incl_vat: 121 })
+    })
+
+    it('should retry with a new number when another invoice took it', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(DOCUMENT_TABLES.INVOICES,
+        { data: null },
+        { data: { sequence: 41 } },
+        { error: { message: 'duplicate key', code: '23505' } },
+        { data: null }, // still no invoice for this order
+        { data: { sequence: 42 } },
+        { data: { order_id: 'order-1', sequence: 43, invoice_number: 'W4C-000043' } }
+      )
+
+      const invoice = await service.getOrCreateInvoice(await service.loadDocumentData('order-1'))
+
+      expect(invoice.invoice_number).toBe('W4C-000043')
+      expect(mock.callsFor(DOCUMENT_TABLES.INVOICES, 'insert')).toHaveLength(2)
+    })
+
+    it('should refuse to invoice unpaid orders', async () => {
+      respondWithOrder(makeOrder('order-1', 'pending'))
+
+      try {
+        await service.getOrCreateInvoice(await service.loadDocumentData('order-1'))
+        expect.fail('should have thrown')
+      } catch (error) {
+        expect(isDocumentError(error) && error.type).toBe('invoice_not_allowed')
+      }
+    })
+  })
+
+  describe('renderDocument', () => {
+    it('should render a packing slip PDF without touching invoices', async () => {
+      respondWithOrder(makeOrder('order-1', 'pending'))
+
+      const document = await service.renderDocument('order-1', 'packing_slip')
+
+      expect(document.filename).toBe('packing-slip-W4C-order-1.pdf')
+      expect(new TextDecoder().decode(document.bytes.slice(0, 5))).toBe('%PDF-')
+      expect(mock.callsFor(DOCUMENT_TABLES.INVOICES)).toHaveLength(0)
+    })
+
+    it('should name invoice PDFs after the invoice number', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(DOCUMENT_TABLES.INVOICES, {
+        data: {
+          order_id: 'order-1',
+          sequence: 7,
+          invoice_number: 'W4C-000007',
+          issued_at: '2024-03-02T10:00:00Z',
+          subtotal_excl_vat: 100,
+          vat_amount: 21,
+          total_incl_vat: 121,
+        },
+      })
+
+      const document = await service.renderDocument('order-1', 'invoice')
+
+      expect(document.filename).toBe('invoice-W4C-000007.pdf')
+      expect((await PDFDocument.load(document.bytes)).getPageCount()).toBe(1)
+    })
+
+    it('should re-render an invoice with the totals it was issued with after the VAT rate changed', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(DOCUMENT_TABLES.INVOICES, { data: null }, { data: { sequence: 6 } }, { data: null })
+      const invoice = await service.getOrCreateInvoice(await service.loadDocumentData('order-1'))
+
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(PRICING_TABLES.VAT_RATES, { data: [{ id: 'rate-1', country_code: 'NL', category_id: null, rate: 10 }] })
+      const data = toInvoiceDocumentData(await service.loadDocumentData('order-1'), invoice)
+
+      expect(data.invoice.invoice_number).toBe('W4C-000007')
+      expect(data.lines[0].vat_rate).toBe(21)
+      expect(data.vat).toEqual({
+        subtotalExclVat: 100,
+        vatAmount: 21,
+        totalInclVat: 121,
+        breakdown: [{ rate: 21, net: 100, vat: 21, gross: 121 }],
+      })
+    })
+
+    it('should keep the stored totals of invoices issued before their lines were stored', async () => {
+      respondWithOrder(makeOrder('order-1'))
+      mock.respond(PRICING_TABLES.VAT_RATES, { data: [{ id: 'rate-1', country_code: 'NL', category_id: null, rate: 10 }] })
+      const invoice = { order_id: 'order-1', sequence: 7, invoice_number: 'W4C-000007', issued_at: '2024-03-02T10:00:00Z',
+        subtotal_excl_vat: 100, vat_amount: 21, total_incl_vat: 121, created_by: null }
+
+      const data = toInvoiceDocumentData(await service.loadDocumentData('order-1'), invoice)
+
+      expect(data.vat).toMatchObject({ subtotalExclVat: 100, vatAmount: 21, totalInclVat: 121 })
+    })
+
+    it('should reject unknown document types', async () => {
+      await expect(service.renderDocument('order-1', 'receipt' as any)).rejects.toMatchObject({ type: 'invalid_document_type' })
+    })
+  })
+
+  describe('exportDocuments', () => {
+    it('should combine orders into one PDF and skip unpaid orders', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('order-1') }, { data: makeOrder('order-2', 'pending') })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [] }, { data: [] })
+      mock.respond(DOCUMENT_TABLES.INVOICES, { data: { order_id: 'order-1', sequence: 1, invoice_number: 'W4C-000001', issued_at: '2024-03-02T10:00:00Z' } }, { data: null })
+
+      const result = await service.exportDocuments(['order-1', 'order-2', 'order-1'], 'invoice')
+
+      expect(result.exported).toEqual(['order-1'])
+      expect(result.skipped).toEqual(['order-2'])
+      expect(result.document.filename).toMatch(/^invoices-\d{8}-\d{4}\.pdf$/)
+    })
+
+    it('should put every packing slip in the same PDF', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('order-1') }, { data: makeOrder('order-2') })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [] }, { data: [] })
+
+      const result = await service.exportDocuments(['order-1', 'order-2'], 'packing_slip')
+
+      expect((await PDFDocument.load(result.document.bytes)).getPageCount()).toBe(2)
+    })
+
+    it('should limit the batch size', async () => {
+      const ids = Array.from({ length: 201 }, (_, i) => `order-${i}`)
+
+      await expect(service.exportDocuments(ids, 'packing_slip')).rejects.toMatchObject({ type: 'too_many_orders' })
+    })
+  })
+
+  it('formatInvoiceNumber should pad the sequence', () => {
+    expect(formatInvoiceNumber(123)).toBe('W4C-000123')
+  })
+
+  it('toPdfText should replace characters the standard fonts cannot draw', () => {
+    expect(toPdfText('Café – €5\n✓')).toBe('Café – €5 ?')
+  })
+})
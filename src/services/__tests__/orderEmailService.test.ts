@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { OrderEmailServiceImpl } from '../orderEmailService'
+import { createMemoryMailTransport, getMailConfig, type MemoryMailTransport } from '../mailTransport'
+import { escapeHtml, orderConfirmationTemplate } from '../orderEmailTemplates'
+import { ORDER_TABLES } from '../../constants/orders'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { EMAIL_TABLES } from '../../constants/email'
+import { SHIPMENT_TABLES } from '../../constants/shipments'
+import { isEmailError } from '../../utils/typeGuards'
+import type { Order } from '../../types/orders'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const order: Order = {
+  id: 'order-1',
+  order_number: 'W4C-1001',
+  customer_first_name: 'Sam',
+  customer_last_name: '<Jansen>',
+  customer_email: 'sam@example.com',
+  customer_address: 'Dorpsstraat 1',
+  customer_city: 'Utrecht',
+  customer_postal_code: '3511 AA',
+  customer_country: 'Netherlands',
+  total_amount: 95,
+  status: 'paid',
+  payment_reference: 'tr_123',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  emails_sent: false,
+}
+
+const config = { from: 'shop@example.com', notificationTo: 'team@example.com' }
+
+describe('OrderEmailService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let transport: MemoryMailTransport
+  let service: OrderEmailServiceImpl
+
+  const respondWithOrder = () => {
+    mock.respond(ORDER_TABLES.ORDERS, { data: order })
+    mock.respond(ORDER_TABLES.ORDER_ITEMS, {
+      data: [
+        { id: 'item-1', order_id: 'order-1', product_id: 'product-1', quantity: 2, price: 30 },
+        { id: 'item-2', order_id: 'order-1', product_id: 'product-2', quantity: 1, price: 35 },
+      ],
+    })
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'product-1', name: 'Highland 12y' }] })
+  }
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    transport = createMemoryMailTransport()
+    service = new OrderEmailServiceImpl(mock.client, transport, config)
+  })
+
+  describe('loadOrderEmailData', () => {
+    it('should combine order items with product names', async () => {
+      respondWithOrder()
+
+      const data = await service.loadOrderEmailData('order-1')
+
+      expect(data.items).toEqual([
+        { product_id: 'product-1', name: 'Highland 12y', quantity: 2, unit_price: 30, line_total: 60 },
+        { product_id: 'product-2', name: 'Unknown Product', quantity: 1, unit_price: 35, line_total: 35 },
+      ])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'in')[0].args).toEqual(['id', ['product-1', 'product-2']])
+    })
+
+    it('should throw order_not_found for an unknown order', async () => {
+      await expect(service.loadOrderEmailData('missing')).rejects.toMatchObject({ type: 'order_not_found' })
+    })
+  })
+
+  describe('templates', () => {
+    it('should escape customer data in the HTML body', async () => {
+      respondWithOrder()
+      const rendered = orderConfirmationTemplate(await service.loadOrderEmailData('order-1'))
+
+      expect(rendered.subject).toBe('Your order W4C-1001 - Whisky for Charity')
+      expect(rendered.html).toContain('Sam &lt;Jansen&gt;')
+      expect(rendered.html).not.toContain('<Jansen>')
+      expect(rendered.text).toContain('- Highland 12y x 2 à €30.00 = €60.00')
+      expect(rendered.text).toContain('Total: €95.00')
+    })
+
+    it('escapeHtml should handle quotes and empty values', () => {
+      expect(escapeHtml(`"a" & 'b'`)).toBe('&quot;a&quot; &amp; &#39;b&#39;')
+      expect(escapeHtml(null)).toBe('')
+    })
+  })
+
+  describe('sendOrderEmails', () => {
+    it('should send both templates, log them and mark the order', async () => {
+      respondWithOrder()
+
+      const result = await service.sendOrderEmails('order-1', { sentBy: 'user-1' })
+
+      expect(result.emailsSent).toBe(true)
+      expect(transport.sent.map(message => message.to)).toEqual(['sam@example.com', 'team@example.com'])
+      expect(transport.sent[1].replyTo).toBe('sam@example.com')
+
+      const [logged] = mock.callsFor(EMAIL_TABLES.ORDER_EMAIL_LOG, 'insert')[0].args
+      expect(logged).toHaveLength(2)
+      expect(logged[0]).toMatchObject({
+        order_id: 'order-1',
+        template: 'order_confirmation',
+        status: 'sent',
+        transport: 'memory',
+        message_id: 'memory-1',
+        sent_by: 'user-1',
+      })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')[0].args[0]).toEqual({ emails_sent: true })
+    })
+
+    it('should only send the requested templates', async () => {
+      respondWithOrder()
+
+      await service.sendOrderEmails('order-1', { templates: ['order_notification'] })
+
+      expect(transport.sent).toHaveLength(1)
+      expect(transport.sent[0].to).toBe('team@example.com')
+    })
+
+    it('should log failures, keep sending and leave emails_sent untouched', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      respondWithOrder()
+      const send = vi.spyOn(transport, 'send').mockRejectedValueOnce(new Error('Connection refused'))
+
+      const result = await service.sendOrderEmails('order-1')
+
+      expect(send).toHaveBeenCalledTimes(2)
+      expect(result.emailsSent).toBe(false)
+      expect(result.log.map(entry => entry.status)).toEqual(['failed', 'sent'])
+      expect(result.log[0].error).toBe('Connection refused')
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')).toHaveLength(0)
+      consoleSpy.mockRestore()
+    })
+
+    it('should send the shipped email with a tracking link per parcel, leaving emails_sent alone', async () => {
+      respondWithOrder()
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, {
+        data: [
+          { carrier: 'postnl', tracking_number: '3SABCD123', shipped_at: '2024-03-01' },
+          { carrier: 'other', tracking_number: null, shipped_at: '2024-03-01' },
+        ],
+      })
+
+      const result = await service.sendOrderEmails('order-1', { templates: ['order_shipped'] })
+
+      expect(result.emailsSent).toBe(true)
+      expect(transport.sent).toHaveLength(1)
+      expect(transport.sent[0].to).toBe('sam@example.com')
+      expect(transport.sent[0].subject).toBe('Your order W4C-1001 has shipped - Whisky for Charity')
+      expect(transport.sent[0].html).toContain('href="https://jouw.postnl.nl/track-and-trace/3SABCD123"')
+      expect(transport.sent[0].text).toContain('- Parcel 2: Other carrier: tracking code follows')
+      expect(mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'eq')[0].args).toEqual(['order_id', 'order-1'])
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')).toHaveLength(0)
+    })
+
+    it('should reject unknown templates before sending anything', async () => {
+      try {
+        await service.sendOrderEmails('order-1', { templates: ['invoice' as any] })
+        expect.fail('should have thrown')
+      } catch (error) {
+        expect(isEmailError(error) && error.type).toBe('invalid_template')
+      }
+      expect(transport.sent).toHaveLength(0)
+    })
+  })
+})
+
+describe('getMailConfig', () => {
+  it('should default to a local SMTP stand-in', () => {
+    const config = getMailConfig({})
+
+    expect(config.transport).toBe('smtp')
+    expect(config.smtp).toMatchObject({ host: 'localhost', port: 1025, secure: false })
+  })
+
+  it('should read transport and SMTP settings from the environment', () => {
+    const config = getMailConfig({
+      MAIL_TRANSPORT: 'file',
+      MAIL_FILE_DIR: '/tmp/mail',
+      SMTP_PORT: '465',
+      MAIL_FROM: 'shop@example.com',
+    })
+
+    expect(config).toMatchObject({ transport: 'file', fileDirectory: '/tmp/mail', from: 'shop@example.com' })
+    expect(config.smtp.secure).toBe(true)
+  })
+
+  it('should reject unknown transports', () => {
+    expect(() => getMailConfig({ MAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown MAIL_TRANSPORT: pigeon')
+  })
+})
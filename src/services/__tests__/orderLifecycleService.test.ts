@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { OrderLifecycleServiceImpl } from '../orderLifecycleService'
+import { ORDER_STATUS_TRANSITIONS, ORDER_TABLES } from '../../constants/orders'
+import { isOrderError } from '../../utils/typeGuards'
+import type { OrderStatus } from '../../types/orders'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+describe('OrderLifecycleService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let service: OrderLifecycleServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    service = new OrderLifecycleServiceImpl(mock.client)
+  })
+
+  describe('canTransition', () => {
+    it('should allow the happy path pending → paid → shipped → completed', () => {
+      expect(service.canTransition('pending', 'paid')).toBe(true)
+      expect(service.canTransition('paid', 'shipped')).toBe(true)
+      expect(service.canTransition('shipped', 'completed')).toBe(true)
+    })
+
+    it('should allow cancel and refund branches', () => {
+      expect(service.canTransition('pending', 'cancelled')).toBe(true)
+      expect(service.canTransition('paid', 'cancelled')).toBe(true)
+      expect(service.canTransition('paid', 'refunded')).toBe(true)
+      expect(service.canTransition('completed', 'refunded')).toBe(true)
+    })
+
+    it('should let a partially refunded order be completed or refunded in full', () => {
+      expect(service.canTransition('shipped', 'partially_refunded')).toBe(true)
+      expect(service.canTransition('partially_refunded', 'completed')).toBe(true)
+      expect(service.canTransition('partially_refunded', 'shipped')).toBe(false)
+      expect(service.canTransition('partially_refunded', 'refunded')).toBe(true)
+      expect(service.canTransition('partially_refunded', 'pending')).toBe(false)
+    })
+
+    it('should reject moving a cancelled order back to paid', () => {
+      expect(service.canTransition('cancelled', 'paid')).toBe(false)
+    })
+
+    it('should reject skipping and reversing steps', () => {
+      expect(service.canTransition('pending', 'shipped')).toBe(false)
+      expect(service.canTransition('shipped', 'paid')).toBe(false)
+      expect(service.canTransition('completed', 'pending')).toBe(false)
+    })
+
+    it('should treat cancelled and refunded as terminal', () => {
+      expect(service.getAllowedTransitions('cancelled')).toEqual([])
+      expect(service.getAllowedTransitions('refunded')).toEqual([])
+    })
+  })
+
+  describe('getAllowedTransitions', () => {
+    it('should return a copy of the configured transitions', () => {
+      const allowed = service.getAllowedTransitions('paid')
+      allowed.push('pending')
+
+      expect(service.getAllowedTransitions('paid')).toEqual([...ORDER_STATUS_TRANSITIONS.paid])
+    })
+  })
+
+  describe('getManualTransitions', () => {
+    it('should leave out the refund statuses', () => {
+      expect(service.getManualTransitions('paid')).toEqual(['shipped', 'cancelled'])
+      expect(service.getManualTransitions('completed')).toEqual([])
+      expect(service.getManualTransitions('partially_refunded')).toEqual(['completed'])
+    })
+  })
+
+  describe('transition', () => {
+    it('should update the order and record history with author and note', async () => {
+      mock.respond(ORDER_TABLES.ORDERS,
+        { data: { id: 'order-1', status: 'paid' } },
+        { data: [{ id: 'order-1', status: 'shipped', updated_at: '2024-01-01T00:00:00Z' }] }
+      )
+      mock.respond(ORDER_TABLES.ORDER_STATUS_HISTORY, {
+        data: { id: 'history-1', order_id: 'order-1', from_status: 'paid', to_status: 'shipped' }
+      })
+
+      const result = await service.transition('order-1', 'shipped', {
+        userId: 'user-1',
+        userEmail: 'admin@example.com',
+        note: '  Sent with PostNL  '
+      })
+
+      expect(result.order.status).toBe('shipped')
+      expect(result.history.id).toBe('history-1')
+
+      const [update] = mock.callsFor(ORDER_TABLES.ORDERS, 'update')
+      expect(update.args[0]).toEqual(expect.objectContaining({ status: 'shipped' }))
+
+      // Update is guarded on the status that was read
+      const eqCalls = mock.callsFor(ORDER_TABLES.ORDERS, 'eq').map(call => call.args)
+      expect(eqCalls).toContainEqual(['status', 'paid'])
+
+      const [insert] = mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY, 'insert')
+      expect(insert.args[0]).toEqual({
+        order_id: 'order-1',
+        from_status: 'paid',
+        to_status: 'shipped',
+        changed_by: 'user-1',
+        changed_by_email: 'admin@example.com',
+        note: 'Sent with PostNL'
+      })
+    })
+
+    it('should reject illegal transitions without writing', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: { id: 'order-1', status: 'cancelled' } })
+
+      const error = await service.transition('order-1', 'paid').catch(err => err)
+
+      expect(isOrderError(error)).toBe(true)
+      expect(error.type).toBe('invalid_transition')
+      expect(error.details).toEqual(expect.objectContaining({ from: 'cancelled', to: 'paid', allowed: [] }))
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')).toHaveLength(0)
+      expect(mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY)).toHaveLength(0)
+    })
+
+    it('should reject unknown statuses', async () => {
+      const error = await service.transition('order-1', 'lost' as OrderStatus).catch(err => err)
+
+      expect(error.type).toBe('invalid_status')
+      expect(mock.client.from).not.toHaveBeenCalled()
+    })
+
+    it('should report missing orders', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: null })
+
+      const error = await service.transition('missing', 'paid').catch(err => err)
+
+      expect(error.type).toBe('order_not_found')
+    })
+
+    it('should detect concurrent status changes', async () => {
+      mock.respond(ORDER_TABLES.ORDERS,
+        { data: { id: 'order-1', status: 'pending' } },
+        { data: [] }
+      )
+
+      const error = await service.transition('order-1', 'paid').catch(err => err)
+
+      expect(error.type).toBe('concurrent_update')
+      expect(mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY)).toHaveLength(0)
+    })
+
+    it('should not fail the transition when history cannot be written', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      mock.respond(ORDER_TABLES.ORDERS,
+        { data: { id: 'order-1', status: 'pending' } },
+        { data: [{ id: 'order-1', status: 'paid', updated_at: '2024-01-01T00:00:00Z' }] }
+      )
+      mock.respond(ORDER_TABLES.ORDER_STATUS_HISTORY, { error: { message: 'insert failed' } })
+
+      const result = await service.transition('order-1', 'paid')
+
+      expect(result.order.status).toBe('paid')
+      expect(result.history.to_status).toBe('paid')
+      expect(consoleSpy).toHaveBeenCalled()
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('getHistory', () => {
+    it('should return history oldest first', async () => {
+      mock.respond(ORDER_TABLES.ORDER_STATUS_HISTORY, {
+        data: [{ order_id: 'order-1', from_status: null, to_status: 'pending' }]
+      })
+
+      const history = await service.getHistory('order-1')
+
+      expect(history).toHaveLength(1)
+      expect(mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY, 'order')[0].args)
+        .toEqual(['created_at', { ascending: true }])
+    })
+
+    it('should throw a database error when the query fails', async () => {
+      mock.respond(ORDER_TABLES.ORDER_STATUS_HISTORY, { error: { message: 'boom' } })
+
+      await expect(service.getHistory('order-1')).rejects.toMatchObject({ type: 'database_error' })
+    })
+  })
+})
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { OrderNoteServiceImpl } from '../orderNoteService'
+import { DATABASE } from '../../constants/auth'
+import { NOTE_TABLES } from '../../constants/notes'
+import { isNoteError } from '../../utils/typeGuards'
+import { extractMentionHandles, getMentionQuery, splitMentions } from '../../utils/mentions'
+import { buildOrderActivityFeed, threadOrderNotes, upsertById } from '../../utils/orderActivity'
+import type { MentionableUser, OrderNoteRecord } from '../../types/notes'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'anna@whiskyforcharity.com', role: 'admin' as const }
+
+const users = [
+  { id: 'user-1', email: 'anna@whiskyforcharity.com', role: 'admin' },
+  { id: 'user-2', email: 'bram.de.vries@whiskyforcharity.com', role: 'admin' },
+  { id: 'user-3', email: 'chris@whiskyforcharity.com', role: 'editor' },
+  { id: 'user-4', email: 'customer@example.com', role: 'customer' },
+]
+
+const mentionable: MentionableUser[] = [
+  { id: 'user-1', email: 'anna@whiskyforcharity.com', handle: 'anna', role: 'admin' },
+  { id: 'user-2', email: 'bram.de.vries@whiskyforcharity.com', handle: 'bram.de.vries', role: 'admin' },
+]
+
+const makeNote = (overrides: Partial<OrderNoteRecord> = {}): OrderNoteRecord => ({
+  id: 'note-1',
+  order_id: 'order-1',
+  parent_id: null,
+  author_id: 'user-1',
+  author_email: 'anna@whiskyforcharity.com',
+  content: 'Customer called about the engraving',
+  mentions: [],
+  created_at: '2024-03-01T10:00:00Z',
+  ...overrides,
+})
+
+describe('OrderNoteService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let service: OrderNoteServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    service = new OrderNoteServiceImpl(mock.client)
+  })
+
+  describe('getMentionableUsers', () => {
+    it('should only offer dashboard users, by the local part of their email', async () => {
+      mock.respond(DATABASE.TABLES.USERS, { data: users })
+
+      const result = await service.getMentionableUsers()
+
+      expect(result.map(user => user.handle)).toEqual(['anna', 'bram.de.vries', 'chris'])
+    })
+  })
+
+  describe('createNote', () => {
+    it('should store the mentioned colleagues, ignoring unknown handles and the author', async () => {
+      mock.respond(DATABASE.TABLES.USERS, { data: users })
+      mock.respond(NOTE_TABLES.ORDER_NOTES, { data: makeNote({ mentions: ['user-2'] }) })
+
+      await service.createNote('order-1', {
+        content: '  @Bram.de.Vries can you check stock? cc @anna @nobody, mail info@example.com  ',
+      }, actor)
+
+      const [inserted] = mock.callsFor(NOTE_TABLES.ORDER_NOTES, 'insert')[0].args
+      expect(inserted).toEqual({
+        order_id: 'order-1',
+        parent_id: null,
+        author_id: 'user-1',
+        author_email: 'anna@whiskyforcharity.com',
+        content: '@Bram.de.Vries can you check stock? cc @anna @nobody, mail info@example.com',
+        mentions: ['user-2'],
+      })
+    })
+
+    it('should not look up users when nobody is mentioned', async () => {
+      mock.respond(NOTE_TABLES.ORDER_NOTES, { data: makeNote() })
+
+      await service.createNote('order-1', { content: 'Packed and ready' }, actor)
+
+      expect(mock.callsFor(DATABASE.TABLES.USERS)).toHaveLength(0)
+    })
+
+    it('should attach a reply to a reply to the root of the thread', async () => {
+      mock.respond(
+        NOTE_TABLES.ORDER_NOTES,
+        { data: makeNote({ id: 'note-2', parent_id: 'note-1' }) },
+        { data: makeNote({ id: 'note-3', parent_id: 'note-1' }) }
+      )
+
+      await service.createNote('order-1', { content: 'Done', parentId: 'note-2' }, actor)
+
+      expect(mock.callsFor(NOTE_TABLES.ORDER_NOTES, 'insert')[0].args[0]).toMatchObject({ parent_id: 'note-1' })
+    })
+
+    it('should reject replies to notes of another order', async () => {
+      await expect(service.createNote('order-1', { content: 'Done', parentId: 'note-9' }, actor))
+        .rejects.toMatchObject({ type: 'note_not_found' })
+      expect(mock.callsFor(NOTE_TABLES.ORDER_NOTES, 'insert')).toHaveLength(0)
+    })
+
+    it('should reject empty and overly long notes', async () => {
+      for (const content of ['   ', 'x'.repeat(2001)]) {
+        const error = await service.createNote('order-1', { content }, actor).catch(e => e)
+        expect(isNoteError(error) && error.type).toBe('invalid_note')
+      }
+      expect(mock.calls).toHaveLength(0)
+    })
+  })
+
+  describe('deleteNote', () => {
+    it('should delete the author\'s own note', async () => {
+      mock.respond(NOTE_TABLES.ORDER_NOTES, { data: makeNote() }, { data: [] }, { data: null })
+
+      await service.deleteNote('order-1', 'note-1', actor)
+
+      expect(mock.callsFor(NOTE_TABLES.ORDER_NOTES, 'delete')).toHaveLength(1)
+    })
+
+    it('should not let others delete a note', async () => {
+      mock.respond(NOTE_TABLES.ORDER_NOTES, { data: makeNote({ author_id: 'user-2' }) })
+
+      await expect(service.deleteNote('order-1', 'note-1', actor)).rejects.toMatchObject({ type: 'note_not_allowed' })
+      expect(mock.callsFor(NOTE_TABLES.ORDER_NOTES, 'delete')).toHaveLength(0)
+    })
+
+    it('should keep notes that have replies', async () => {
+      mock.respond(NOTE_TABLES.ORDER_NOTES, { data: makeNote() }, { data: [{ id: 'note-2' }] })
+
+      await expect(service.deleteNote('order-1', 'note-1', actor)).rejects.toMatchObject({
+        type: 'note_not_allowed',
+        message: 'Notes with replies cannot be deleted',
+      })
+    })
+  })
+})
+
+describe('mentions', () => {
+  it('should extract unique handles, but not email addresses', () => {
+    expect(extractMentionHandles('@anna and @Anna, see @bram.de.vries. Mail bram@example.com')).toEqual(['anna', 'bram.de.vries'])
+  })
+
+  it('should split a note into text and known mentions', () => {
+    expect(splitMentions('Thanks @anna, ask @nobody', mentionable)).toEqual([
+      { type: 'text', text: 'Thanks ' },
+      { type: 'mention', text: '@anna', user: mentionable[0] },
+      { type: 'text', text: ', ask @nobody' },
+    ])
+  })
+
+  it('should find the handle being typed at the cursor', () => {
+    expect(getMentionQuery('Hi @br', 6)).toEqual({ query: 'br', start: 3 })
+    expect(getMentionQuery('mail info@ex', 12)).toBeNull()
+  })
+})
+
+describe('buildOrderActivityFeed', () => {
+  it('should merge all sources newest first, placing threads by their latest reply', () => {
+    const feed = buildOrderActivityFeed({
+      notes: [
+        makeNote({ id: 'note-1', created_at: '2024-03-01T09:00:00Z' }),
+        makeNote({ id: 'note-2', parent_id: 'note-1', created_at: '2024-03-04T09:00:00Z' }),
+      ],
+      history: [
+        { id: 'h-1', order_id: 'order-1', from_status: null, to_status: 'pending', changed_by: null, changed_by_email: null, note: null, created_at: '2024-03-01T08:00:00Z' },
+        { id: 'h-2', order_id: 'order-1', from_status: 'pending', to_status: 'paid', changed_by: null, changed_by_email: null, note: null, created_at: '2024-03-02T08:00:00Z' },
+      ],
+      emails: [
+        { id: 'e-1', order_id: 'order-1', template: 'order_confirmation', recipient: 'jan@example.com', subject: 'Thanks', status: 'sent', transport: 'memory', message_id: null, error: null, sent_by: null, created_at: '2024-03-02T08:01:00Z' },
+      ],
+      audit: [
+        { id: 'a-1', entity_type: 'order', entity_id: 'order-1', action: 'order.status_changed', actor_id: null, actor_email: null, changes: null, metadata: null, created_at: '2024-03-02T08:00:00Z' },
+        { id: 'a-2', entity_type: 'order', entity_id: 'order-1', action: 'order.shipment_added', actor_id: 'user-1', actor_email: 'anna@whiskyforcharity.com', changes: null, metadata: null, created_at: '2024-03-03T08:00:00Z' },
+      ],
+    })
+
+    expect(feed.map(item => item.id)).toEqual(['note-note-1', 'edit-a-2', 'email-e-1', 'status-h-2', 'status-h-1'])
+    expect(feed[0]).toMatchObject({ kind: 'note', note: { replies: [{ id: 'note-2' }] } })
+  })
+
+  it('should show replies whose root note is gone as their own thread', () => {
+    expect(threadOrderNotes([makeNote({ id: 'note-2', parent_id: 'note-1' })])).toEqual([
+      expect.objectContaining({ id: 'note-2', replies: [] }),
+    ])
+  })
+
+  it('should merge realtime records with the ones already on the page', () => {
+    const notes = [makeNote()]
+    expect(upsertById(notes, makeNote({ content: 'Edited' }))).toEqual([makeNote({ content: 'Edited' })])
+    expect(upsertById(notes, makeNote({ id: 'note-2' }), 'start').map(note => note.id)).toEqual(['note-2', 'note-1'])
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { OrderQueryServiceImpl } from '../orderQueryService'
+import { ORDER_TABLES, DEFAULT_ORDER_LIST_FILTERS } from '../../constants/orders'
+import { parseOrderListParams, toOrderListQuery, toSearchTokens, hasActiveOrderFilters } from '../../utils/orderFilters'
+import { isOrderError } from '../../utils/typeGuards'
+import type { OrderListFilters } from '../../types/orders'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const filtersWith = (changes: Partial<OrderListFilters>): OrderListFilters => ({
+  ...DEFAULT_ORDER_LIST_FILTERS,
+  ...changes,
+})
+
+describe('orderFilters', () => {
+  it('should fall back to defaults for missing or invalid params', () => {
+    const { filters, page } = parseOrderListParams(new URLSearchParams('status=bogus&sort=hack&dir=up&page=-2&min=abc&from=not-a-date'))
+
+    expect(filters).toEqual(DEFAULT_ORDER_LIST_FILTERS)
+    expect(page).toBe(1)
+  })
+
+  it('should round-trip filters through the query string', () => {
+    const filters = filtersWith({
+      search: 'jansen tr_1',
+      status: 'paid',
+      dateFrom: '2024-03-01',
+      dateTo: '2024-03-31',
+      minAmount: 10,
+      maxAmount: 250.5,
+      sortField: 'total_amount',
+      sortDirection: 'asc',
+    })
+
+    const query = toOrderListQuery(filters, 3)
+
+    expect(parseOrderListParams(new URLSearchParams(query))).toEqual({ filters, page: 3 })
+  })
+
+  it('should leave defaults out of the query string', () => {
+    expect(toOrderListQuery(DEFAULT_ORDER_LIST_FILTERS)).toBe('')
+    expect(hasActiveOrderFilters(filtersWith({ sortDirection: 'asc' }))).toBe(false)
+    expect(hasActiveOrderFilters(filtersWith({ minAmount: 0 }))).toBe(true)
+  })
+
+  it('should strip characters that would break a PostgREST filter', () => {
+    expect(toSearchTokens('  a,b (c)  "d"*  ')).toEqual(['ab', 'c', 'd'])
+  })
+})
+
+describe('OrderQueryService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let service: OrderQueryServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    service = new OrderQueryServiceImpl(mock.client)
+  })
+
+  describe('listOrders', () => {
+    it('should request one page with an exact count', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: [{ id: 'order-26' }], count: 51 })
+
+      const result = await service.listOrders(DEFAULT_ORDER_LIST_FILTERS, 2, 25)
+
+      expect(result).toMatchObject({ total: 51, page: 2, pageSize: 25, pageCount: 3 })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'select')[0].args).toEqual(['*', { count: 'exact' }])
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'range')[0].args).toEqual([25, 49])
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'order').map(call => call.args)).toEqual([
+        ['created_at', { ascending: false }],
+        ['id', { ascending: false }],
+      ])
+    })
+
+    it('should apply status, date and amount filters in the query', async () => {
+      await service.listOrders(filtersWith({
+        status: 'shipped',
+        dateFrom: '2024-03-01',
+        dateTo: '2024-03-31',
+        minAmount: 10,
+        maxAmount: 100,
+      }))
+
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'eq')[0].args).toEqual(['status', 'shipped'])
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'gte').map(call => call.args[0])).toEqual(['created_at', 'total_amount'])
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'lt')[0].args[0]).toBe('created_at')
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'lte')[0].args).toEqual(['total_amount', 100])
+    })
+
+    it('should require every search token to match one of the search columns', async () => {
+      await service.listOrders(filtersWith({ search: 'sam tr_123' }))
+
+      const orCalls = mock.callsFor(ORDER_TABLES.ORDERS, 'or')
+      expect(orCalls).toHaveLength(2)
+      expect(orCalls[0].args[0]).toContain('customer_first_name.ilike.*sam*')
+      expect(orCalls[0].args[0]).toContain('order_number.ilike.*sam*')
+      expect(orCalls[1].args[0]).toContain('payment_reference.ilike.*tr_123*')
+    })
+
+    it('should throw a database error when the query fails', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { error: { message: 'boom' } })
+
+      await expect(service.listOrders(DEFAULT_ORDER_LIST_FILTERS)).rejects.toMatchObject({ type: 'database_error' })
+    })
+  })
+
+  describe('getAdjacentOrders', () => {
+    it('should use keyset conditions on the sort field for a descending list', async () => {
+      mock.respond(
+        ORDER_TABLES.ORDERS,
+        { data: { id: 'order-2', created_at: '2024-03-02T10:00:00Z' } },
+        { data: [{ id: 'order-3' }] },
+        { data: [{ id: 'order-1' }] }
+      )
+
+      const result = await service.getAdjacentOrders('order-2', DEFAULT_ORDER_LIST_FILTERS)
+
+      expect(result).toEqual({ prevId: 'order-3', nextId: 'order-1' })
+
+      const [prev, next] = mock.callsFor(ORDER_TABLES.ORDERS, 'or').map(call => call.args[0])
+      expect(prev).toBe('created_at.gt."2024-03-02T10:00:00Z",and(created_at.eq."2024-03-02T10:00:00Z",id.gt."order-2")')
+      expect(next).toBe('created_at.lt."2024-03-02T10:00:00Z",and(created_at.eq."2024-03-02T10:00:00Z",id.lt."order-2")')
+    })
+
+    it('should swap directions for an ascending list and keep the filters', async () => {
+      mock.respond(
+        ORDER_TABLES.ORDERS,
+        { data: { id: 'order-2', total_amount: 50 } },
+        { data: [] },
+        { data: [{ id: 'order-9' }] }
+      )
+
+      const result = await service.getAdjacentOrders('order-2', filtersWith({
+        status: 'paid',
+        sortField: 'total_amount',
+        sortDirection: 'asc',
+      }))
+
+      expect(result).toEqual({ prevId: null, nextId: 'order-9' })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'or')[0].args[0]).toContain('total_amount.lt."50"')
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'eq').filter(call => call.args[0] === 'status')).toHaveLength(2)
+    })
+
+    it('should throw when the order does not exist', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: null })
+
+      await expect(service.getAdjacentOrders('missing', DEFAULT_ORDER_LIST_FILTERS)).rejects.toMatchObject({
+        type: 'order_not_found',
+      })
+    })
+  })
+
+  describe('presets', () => {
+    it('should upsert a preset by user and name', async () => {
+      const filters = filtersWith({ status: 'paid' })
+      mock.respond(ORDER_TABLES.ORDER_FILTER_PRESETS, { data: { id: 'preset-1', user_id: 'user-1', name: 'Paid', filters } })
+
+      const preset = await service.savePreset('user-1', '  Paid ', filters)
+
+      expect(preset.id).toBe('preset-1')
+      const [record, options] = mock.callsFor(ORDER_TABLES.ORDER_FILTER_PRESETS, 'upsert')[0].args
+      expect(record).toMatchObject({ user_id: 'user-1', name: 'Paid', filters })
+      expect(options).toEqual({ onConflict: 'user_id,name' })
+    })
+
+    it('should reject empty or overlong names', async () => {
+      const error = await service.savePreset('user-1', '   ', DEFAULT_ORDER_LIST_FILTERS).catch(e => e)
+
+      expect(isOrderError(error)).toBe(true)
+      expect(error.type).toBe('invalid_preset')
+      await expect(service.savePreset('user-1', 'x'.repeat(61), DEFAULT_ORDER_LIST_FILTERS)).rejects.toMatchObject({
+        type: 'invalid_preset',
+      })
+      expect(mock.callsFor(ORDER_TABLES.ORDER_FILTER_PRESETS)).toHaveLength(0)
+    })
+
+    it('should list presets of one user', async () => {
+      mock.respond(ORDER_TABLES.ORDER_FILTER_PRESETS, { data: [{ id: 'preset-1', name: 'Paid' }] })
+
+      const presets = await service.listPresets('user-1')
+
+      expect(presets).toHaveLength(1)
+      expect(mock.callsFor(ORDER_TABLES.ORDER_FILTER_PRESETS, 'eq')[0].args).toEqual(['user_id', 'user-1'])
+    })
+  })
+})
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PricingServiceImpl } from '../pricingService'
+import { ORDER_TABLES } from '../../constants/orders'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { CATALOG_TABLES } from '../../constants/catalog'
+import { PRICING_TABLES } from '../../constants/pricing'
+import { normalizeCountryCode, resolveVatRate } from '../../utils/vat'
+import { formatMoney, formatMoneyTotals, sumByCurrency } from '../../utils/currency'
+import { isPricingError } from '../../utils/typeGuards'
+import type { AuditService } from '../../types/services'
+import type { VatRateRecord } from '../../types/pricing'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'admin@example.com', role: 'admin' as const }
+
+const vatRate = (id: string, country_code: string, category_id: string | null, rate: number): VatRateRecord => ({
+  id,
+  country_code,
+  category_id,
+  rate,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+})
+
+const belgianOrder = {
+  id: 'order-1',
+  order_number: 'W4C-1001',
+  customer_country: 'Belgium',
+  total_amount: 131.9,
+  currency: 'GBP',
+  refunded_amount: 10,
+  status: 'paid',
+}
+
+describe('PricingService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: PricingServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new PricingServiceImpl(mock.client, audit)
+  })
+
+  describe('VAT rates', () => {
+    const rates = [
+      vatRate('rate-1', 'BE', null, 21),
+      vatRate('rate-2', 'BE', 'books', 6),
+      vatRate('rate-3', 'DE', null, 19),
+    ]
+
+    it('should prefer the rate of the category, then of a parent category, then of the country', () => {
+      expect(resolveVatRate(rates, 'BE', ['books'])).toEqual({ rate: 6, source: 'category' })
+      expect(resolveVatRate(rates, 'BE', ['cookbooks', 'books'])).toEqual({ rate: 6, source: 'category' })
+      expect(resolveVatRate(rates, 'BE', ['whisky'])).toEqual({ rate: 21, source: 'country' })
+      expect(resolveVatRate(rates, 'DE', ['books'])).toEqual({ rate: 19, source: 'country' })
+    })
+
+    it('should fall back to the default rate for countries without a rate', () => {
+      expect(resolveVatRate(rates, 'FR', ['books'])).toEqual({ rate: 21, source: 'default' })
+      expect(resolveVatRate(rates, null)).toEqual({ rate: 21, source: 'default' })
+    })
+
+    it('should recognise country names and codes as customers enter them', () => {
+      expect(normalizeCountryCode('Netherlands')).toBe('NL')
+      expect(normalizeCountryCode(' united kingdom ')).toBe('GB')
+      expect(normalizeCountryCode('be')).toBe('BE')
+      expect(normalizeCountryCode('Narnia')).toBeNull()
+      expect(normalizeCountryCode(null)).toBeNull()
+    })
+  })
+
+  describe('currency formatting', () => {
+    it('should format amounts in their currency, in euros when there is none', () => {
+      expect(formatMoney(1234.5, 'EUR')).toBe('€1,234.50')
+      expect(formatMoney('80', 'GBP')).toBe('£80.00')
+      expect(formatMoney(120, 'USD')).toBe('$120.00')
+      expect(formatMoney(12, null)).toBe('€12.00')
+    })
+
+    it('should add up amounts per currency, the default currency first', () => {
+      const totals = sumByCurrency([
+        { amount: 50, currency: 'GBP' },
+        { amount: 100.1, currency: null },
+        { amount: 20.2, currency: 'EUR' },
+      ])
+
+      expect(totals).toEqual({ GBP: 50, EUR: 120.3 })
+      expect(formatMoneyTotals(totals)).toBe('€120.30 · £50.00')
+      expect(formatMoneyTotals({})).toBe('€0.00')
+    })
+  })
+
+  describe('validateVatRateInput', () => {
+    it('should accept a country code in any case and a category', () => {
+      expect(service.validateVatRateInput({ country_code: ' be ', category_id: 'books', rate: '6' }))
+        .toEqual({ country_code: 'BE', category_id: 'books', rate: 6 })
+      expect(service.validateVatRateInput({ country_code: 'DE', rate: 19 }))
+        .toEqual({ country_code: 'DE', category_id: null, rate: 19 })
+    })
+
+    it.each([
+      [{ country_code: 'Belgium', rate: 21 }, 'country_code'],
+      [{ country_code: 'BE', category_id: 42, rate: 21 }, 'category_id'],
+      [{ country_code: 'BE', rate: -1 }, 'rate'],
+      [{ country_code: 'BE', rate: 'abc' }, 'rate'],
+      [{ country_code: 'BE' }, 'rate'],
+    ])('should reject %j', (payload, field) => {
+      const error = (() => {
+        try {
+          service.validateVatRateInput(payload)
+        } catch (err) {
+          return err
+        }
+      })()
+
+      expect(isPricingError(error) && error.type).toBe('invalid_vat_rate')
+      expect(isPricingError(error) && error.details?.field).toBe(field)
+    })
+  })
+
+  describe('saveVatRate', () => {
+    it('should replace the rate a country already has and record the change', async () => {
+      mock.respond(PRICING_TABLES.VAT_RATES, { data: vatRate('rate-1', 'BE', null, 21) }, { data: vatRate('rate-1', 'BE', null, 20) })
+
+      const saved = await service.saveVatRate({ country_code: 'BE', category_id: null, rate: 20 }, actor)
+
+      expect(saved.rate).toBe(20)
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES, 'is').map(call => call.args)).toEqual([['category_id', null]])
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES, 'update')[0].args[0]).toMatchObject({ rate: 20 })
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES, 'insert')).toHaveLength(0)
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'vat_rate',
+        action: 'vat_rate.saved',
+        changes: { rate: { from: 21, to: 20 } },
+        metadata: { countryCode: 'BE', categoryId: null },
+      }))
+    })
+
+    it('should add a category rate after checking the category exists', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: { id: 'books' } })
+      mock.respond(PRICING_TABLES.VAT_RATES, { data: null }, { data: vatRate('rate-2', 'BE', 'books', 6) })
+
+      await service.saveVatRate({ country_code: 'BE', category_id: 'books', rate: 6 }, actor)
+
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES, 'insert')[0].args[0]).toEqual({ country_code: 'BE', category_id: 'books', rate: 6 })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ changes: { rate: { from: null, to: 6 } } }))
+    })
+
+    it('should reject unknown categories', async () => {
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: null })
+
+      const error = await service.saveVatRate({ country_code: 'BE', category_id: 'gone', rate: 6 }, actor).catch(err => err)
+
+      expect(isPricingError(error) && error.type).toBe('invalid_vat_rate')
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES)).toHaveLength(0)
+    })
+  })
+
+  it('should report deleting a VAT rate that does not exist', async () => {
+    mock.respond(PRICING_TABLES.VAT_RATES, { data: [] })
+
+    const error = await service.deleteVatRate('rate-9', actor).catch(err => err)
+
+    expect(isPricingError(error) && error.type).toBe('vat_rate_not_found')
+    expect(audit.record).not.toHaveBeenCalled()
+  })
+
+  describe('getOrderPricing', () => {
+    it('should split each line at the rate for its category in the customer\'s country', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: belgianOrder })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, {
+        data: [
+          { id: 'item-1', order_id: 'order-1', product_id: 'whisky-1', quantity: 2, price: 60.5 },
+          { id: 'item-2', order_id: 'order-1', product_id: 'book-1', quantity: 1, price: 10.6 },
+        ],
+      })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, {
+        data: [
+          { id: 'whisky-1', name: 'Islay 10y', category_id: 'islay' },
+          { id: 'book-1', name: 'Whisky Atlas', category_id: 'cookbooks' },
+        ],
+      })
+      mock.respond(PRICING_TABLES.VAT_RATES, { data: [vatRate('rate-1', 'BE', null, 21), vatRate('rate-2', 'BE', 'books', 6)] })
+      mock.respond(CATALOG_TABLES.CATEGORIES, {
+        data: [
+          { id: 'islay', parent_id: 'scotch' },
+          { id: 'scotch', parent_id: null },
+          { id: 'cookbooks', parent_id: 'books' },
+          { id: 'books', parent_id: null },
+        ],
+      })
+
+      const pricing = await service.getOrderPricing('order-1')
+
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES, 'eq').map(call => call.args)).toEqual([['country_code', 'BE']])
+      expect(pricing).toMatchObject({ orderId: 'order-1', currency: 'GBP', countryCode: 'BE', refundedAmount: 10 })
+      expect(pricing.lines).toMatchObject([
+        { order_item_id: 'item-1', vat_rate: 21, vat_source: 'country', net: 100, vat: 21, gross: 121 },
+        { order_item_id: 'item-2', vat_rate: 6, vat_source: 'category', net: 10, vat: 0.6, gross: 10.6 },
+      ])
+      expect(pricing.vat).toMatchObject({ subtotalExclVat: 110, vatAmount: 21.6, totalInclVat: 131.6 })
+    })
+
+    it('should use the default rate and currency when the order has neither', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: { ...belgianOrder, customer_country: 'Atlantis', currency: null } })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [{ id: 'item-1', order_id: 'order-1', product_id: 'whisky-1', quantity: 1, price: 121 }] })
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'whisky-1', name: 'Islay 10y', category_id: null }] })
+
+      const pricing = await service.getOrderPricing('order-1')
+
+      expect(pricing).toMatchObject({ currency: 'EUR', countryCode: null })
+      expect(pricing.lines[0]).toMatchObject({ vat_rate: 21, vat_source: 'default', net: 100 })
+      expect(mock.callsFor(PRICING_TABLES.VAT_RATES)).toHaveLength(0)
+      expect(mock.callsFor(CATALOG_TABLES.CATEGORIES)).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ProductImportServiceImpl } from '../productImportService'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { INVENTORY_TABLES } from '../../constants/inventory'
+import { PRODUCT_IMPORT_REASONS } from '../../constants/productImport'
+import { isProductImportError } from '../../utils/typeGuards'
+import { parseCsv } from '../../utils/csv'
+import { productsToCsv, productsToXlsx, suggestImportMapping } from '../../utils/productImport'
+import type { AuditService } from '../../types/services'
+import type { Product } from '../../types/products'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'admin@example.com', role: 'admin' as const }
+
+const existing: Product = {
+  id: 'product-1',
+  name: 'Islay 10y',
+  description: 'Peated single malt',
+  price: 49.5,
+  stock: 6,
+  is_active: true,
+  image: 'products/islay',
+  images: ['products/islay'],
+  low_stock_threshold: null,
+  variants: [],
+} as Product
+
+const HEADER = 'ID,Name,Description,Price,Stock,Active,Main image'
+
+const csvFile = (...lines: string[]) => ({ format: 'csv' as const, filename: 'batch.csv', content: [HEADER, ...lines].join('\r\n') })
+
+describe('ProductImportService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: ProductImportServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new ProductImportServiceImpl(mock.client, audit)
+  })
+
+  describe('parsing', () => {
+    it('should parse quoted cells, escaped quotes, line breaks and semicolons', () => {
+      expect(parseCsv('Name,Description\r\n"Islay, 10y","Say ""slàinte""\nand enjoy"\r\n')).toEqual([
+        ['Name', 'Description'],
+        ['Islay, 10y', 'Say "slàinte"\nand enjoy'],
+      ])
+      expect(parseCsv('\uFEFFName;Price\nIslay;49,50')).toEqual([['Name', 'Price'], ['Islay', '49,50']])
+    })
+
+    it('should suggest the mapping from headers and aliases', () => {
+      expect(suggestImportMapping(['Product name', 'Prijs', 'Qty', 'Notes', 'Name'])).toEqual(['name', 'price', 'stock', null, null])
+    })
+
+    it('should read its own CSV and XLSX exports back without changes', async () => {
+      const products = [{ ...existing, description: '=cmd|calc, "quoted"' }]
+
+      for (const file of [
+        { format: 'csv' as const, content: productsToCsv(products) },
+        { format: 'xlsx' as const, content: Buffer.from(productsToXlsx(products)).toString('base64') },
+      ]) {
+        mock.respond(PRODUCT_TABLES.PRODUCTS, { data: products })
+
+        const preview = await service.preview(file)
+
+        expect(preview.rows).toEqual([expect.objectContaining({ rowNumber: 2, action: 'unchanged', productId: 'product-1' })])
+      }
+    })
+  })
+
+  describe('validateRequest', () => {
+    it('should default to a dry run', () => {
+      expect(service.validateRequest({ format: 'csv', content: HEADER })).toMatchObject({ format: 'csv', dryRun: true })
+    })
+
+    it('should reject unknown formats and a field mapped twice', () => {
+      expect(() => service.validateRequest({ format: 'xls', content: HEADER })).toThrow('Format must be one of')
+      expect(() => service.validateRequest({ format: 'csv', content: HEADER, mapping: ['name', 'name'] }))
+        .toThrow('Name is mapped to more than one column')
+      expect(() => service.validateRequest({ format: 'csv', content: HEADER, mapping: ['sku'] }))
+        .toThrow('mapping must list a product field')
+    })
+
+    it('should reject a file that is not a workbook', () => {
+      try {
+        service.readFile({ format: 'xlsx', content: Buffer.from('not a zip').toString('base64') })
+        expect.unreachable()
+      } catch (error) {
+        expect(isProductImportError(error) && error.type).toBe('invalid_import_file')
+      }
+    })
+  })
+
+  describe('preview', () => {
+    it('should show creates, updates, unchanged rows and errors', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [existing] })
+
+      const preview = await service.preview(csvFile(
+        ',Islay 10y,,"52,00",,,',
+        ',Speyside 12y,Sherried,65,12,,products/speyside',
+        'product-1,,,,,,',
+        '',
+        'missing,,,,,,',
+        ',Highland 18y,Old,abc,1,,products/highland',
+        ',Speyside 12y,Again,65,1,,products/speyside'
+      ))
+
+      expect(preview.summary).toEqual({ create: 1, update: 1, unchanged: 0, error: 4 })
+      expect(preview.rows[0]).toMatchObject({ rowNumber: 2, action: 'update', input: { price: 52 }, changes: { price: { from: 49.5, to: 52 } } })
+      expect(preview.rows[1]).toMatchObject({ rowNumber: 3, action: 'create', input: expect.objectContaining({ is_active: false, stock: 12 }) })
+      expect(preview.rows[2]).toMatchObject({ rowNumber: 4, action: 'error', errors: ['Row 2 already imports this product'] })
+      expect(preview.rows[3]).toMatchObject({ rowNumber: 6, errors: ['No product with ID missing'] })
+      expect(preview.rows[4]).toMatchObject({ rowNumber: 7, errors: ['Price "abc" is not a number'] })
+      expect(preview.rows[5]).toMatchObject({ rowNumber: 8, errors: ['Row 3 already imports this product'] })
+    })
+
+    it('should report validation errors of new products', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [] })
+
+      const preview = await service.preview(csvFile(',Speyside 12y,Sherried,65,12,,'))
+
+      expect(preview.rows[0]).toMatchObject({ action: 'error', errors: ['image is required'] })
+    })
+
+    it('should describe imported images by the product name and keep the alt text of known images', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, {
+        data: [{ ...existing, image_meta: { 'products/islay': { alt: 'Islay bottle', focal_point: { x: 0.5, y: 0.2 } } } }],
+      })
+
+      const preview = await service.preview(csvFile(
+        'product-1,,,,,,products/islay-box',
+        ',Speyside 12y,Sherried,65,12,,products/speyside'
+      ))
+
+      expect(preview.rows[0]).toMatchObject({ action: 'update', changes: { image: { from: 'products/islay', to: 'products/islay-box' } } })
+      expect(preview.rows[0].input?.image_meta).toEqual({
+        'products/islay': { alt: 'Islay bottle', focal_point: { x: 0.5, y: 0.2 } },
+        'products/islay-box': { alt: 'Islay 10y', focal_point: null },
+      })
+      expect(preview.rows[1].input?.image_meta).toEqual({ 'products/speyside': { alt: 'Speyside 12y', focal_point: null } })
+    })
+
+    it('should refuse price and stock changes of products with variants', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ ...existing, variants: [{ id: 'variant-1' }] }] })
+
+      const preview = await service.preview(csvFile('product-1,,,,8,,'))
+
+      expect(preview.rows[0].errors[0]).toContain('Price and stock are set per variant')
+    })
+
+    it('should require a column to match products on', async () => {
+      await expect(service.preview({ format: 'csv', content: 'Price,Stock\r\n10,1' }))
+        .rejects.toThrow('Map a column to ID or Name')
+    })
+  })
+
+  describe('apply', () => {
+    it('should refuse to apply a file with errors', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [] })
+
+      await expect(service.apply(csvFile('missing,,,,,,'), actor)).rejects.toThrow('1 row has errors')
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'insert')).toHaveLength(0)
+    })
+
+    it('should write the rows and record stock changes as import movements', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: [existing] },
+        { data: existing },
+        { data: { ...existing, stock: 10 } }
+      )
+
+      const report = await service.apply(csvFile('product-1,,,,10,,'), actor)
+
+      expect(report).toMatchObject({ status: 'applied', created: 0, updated: 1, rollback: [] })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args[0]).toMatchObject({ stock: 10 })
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')[0].args[0]).toMatchObject({
+        type: 'import',
+        quantity: 4,
+        reason: `${PRODUCT_IMPORT_REASONS.IMPORT}: batch.csv`,
+        reference_id: report.importId,
+      })
+    })
+
+    it('should undo the written rows when a later row fails', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: [existing] },
+        // Row 2 updates the existing product
+        { data: existing },
+        { data: { ...existing, price: 52 } },
+        // Row 3 creates a product
+        { data: { ...existing, id: 'product-2', name: 'Speyside 12y' } },
+        // Row 4 fails
+        { error: { message: 'connection lost' } },
+        // Rollback of row 3, then row 2
+        { data: null },
+        { data: { ...existing, price: 52 } },
+        { data: existing }
+      )
+
+      const report = await service.apply(csvFile(
+        'product-1,,,52,,,',
+        ',Speyside 12y,Sherried,65,12,,products/speyside',
+        ',Highland 18y,Old,80,1,,products/highland'
+      ), actor)
+
+      expect(report).toMatchObject({ status: 'rolled_back', failedRow: 4, error: 'connection lost', created: 0, updated: 0 })
+      expect(report.rollback).toEqual([
+        { rowNumber: 3, productId: 'product-2', action: 'create', restored: true },
+        { rowNumber: 2, productId: 'product-1', action: 'update', restored: true },
+      ])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'delete')).toHaveLength(1)
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[1].args[0]).toMatchObject({ price: 49.5 })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'product.deleted',
+        entityId: 'product-2',
+        metadata: { reason: PRODUCT_IMPORT_REASONS.ROLLBACK, importId: report.importId },
+      }))
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ProductPublishingServiceImpl } from '../productPublishingService'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { JOB_ACTOR } from '../../constants/api'
+import { isProductError } from '../../utils/typeGuards'
+import type { AuditService } from '../../types/services'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const now = new Date('2024-03-10T12:00:00Z')
+
+const scheduled = {
+  id: 'product-1',
+  name: 'Port Ellen 1981',
+  status: 'scheduled',
+  is_active: false,
+  publish_at: '2024-03-10T09:00:00Z',
+  unpublish_at: null,
+}
+
+const expiring = {
+  id: 'product-2',
+  name: 'Brora 1972',
+  status: 'live',
+  is_active: true,
+  publish_at: '2024-02-01T09:00:00Z',
+  unpublish_at: '2024-03-10T08:00:00Z',
+}
+
+describe('ProductPublishingService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: ProductPublishingServiceImpl
+
+  // The due publications, then the due unpublications
+  const respondWithDue = (publishing: unknown[], unpublishing: unknown[]) => {
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: publishing }, { data: unpublishing })
+  }
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new ProductPublishingServiceImpl(mock.client, audit)
+  })
+
+  it('should list the due changes oldest first, once per product', async () => {
+    respondWithDue([scheduled], [expiring])
+
+    expect(await service.getDueReleases(now)).toEqual([
+      { productId: 'product-2', name: 'Brora 1972', action: 'unpublish', at: '2024-03-10T08:00:00Z' },
+      { productId: 'product-1', name: 'Port Ellen 1981', action: 'publish', at: '2024-03-10T09:00:00Z' },
+    ])
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'lte').map(call => call.args))
+      .toEqual([['publish_at', now.toISOString()], ['unpublish_at', now.toISOString()]])
+  })
+
+  it('should publish and unpublish the due products and record them in the audit trail', async () => {
+    respondWithDue([scheduled], [expiring])
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [{ id: 'product-2' }] }, { data: [{ id: 'product-1' }] })
+
+    const run = await service.applyDueReleases(JOB_ACTOR, now)
+
+    expect(run).toMatchObject({ ranAt: now.toISOString(), applied: [{ action: 'unpublish' }, { action: 'publish' }] })
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update').map(call => call.args[0])).toMatchObject([
+      { status: 'draft', is_active: false, publish_at: null, unpublish_at: null },
+      { status: 'live', is_active: true },
+    ])
+    expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+      entityId: 'product-1',
+      action: 'product.published',
+      actor: JOB_ACTOR,
+      changes: { status: { from: 'scheduled', to: 'live' }, is_active: { from: false, to: true } },
+      metadata: { scheduledAt: '2024-03-10T09:00:00Z' },
+    }))
+    expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ entityId: 'product-2', action: 'product.unpublished' }))
+  })
+
+  it('should skip products whose status changed since they were loaded', async () => {
+    respondWithDue([scheduled], [])
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: [] })
+
+    const run = await service.applyDueReleases(JOB_ACTOR, now)
+
+    expect(run.applied).toEqual([])
+    expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'eq').map(call => call.args)).toContainEqual(['status', 'scheduled'])
+    expect(audit.record).not.toHaveBeenCalled()
+  })
+
+  it('should surface database errors', async () => {
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: null, error: { message: 'connection lost' } })
+
+    const error = await service.applyDueReleases(JOB_ACTOR, now).catch(err => err)
+
+    expect(isProductError(error) && error.type).toBe('database_error')
+  })
+})
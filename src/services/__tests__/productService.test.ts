@@ -0,0 +1,578 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ProductServiceImpl } from '../productService'
+import { AuditServiceImpl, diffFields } from '../auditService'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { ORDER_TABLES } from '../../constants/orders'
+import { AUDIT_TABLES } from '../../constants/api'
+import { INVENTORY_TABLES, STOCK_MOVEMENT_REASONS } from '../../constants/inventory'
+import { CATALOG_TABLES } from '../../constants/catalog'
+import { isProductError } from '../../utils/typeGuards'
+import type { AuditService } from '../../types/services'
+import type { ProductInput, ProductVariant, ProductVariantInput } from '../../types/products'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'user-1', email: 'admin@example.com', role: 'admin' as const }
+
+const validInput: ProductInput = {
+  name: 'Water bottle',
+  description: 'Reusable bottle',
+  price: 12.5,
+  stock: 10,
+  is_active: true,
+  image: 'products/bottle',
+  images: ['products/bottle'],
+  image_meta: { 'products/bottle': { alt: 'Water bottle', focal_point: null } },
+}
+
+const variantInput: ProductVariantInput = {
+  sku: 'WFC-12-70',
+  bottle_size_ml: 700,
+  vintage: 2012,
+  cask: 'Sherry cask',
+  price: 89,
+  stock: 6,
+  image: null,
+}
+
+const savedVariant: ProductVariant = {
+  ...variantInput,
+  id: 'variant-1',
+  product_id: 'product-1',
+  position: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+}
+
+describe('ProductService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let audit: AuditService
+  let service: ProductServiceImpl
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+    service = new ProductServiceImpl(mock.client, audit)
+  })
+
+  describe('validateInput', () => {
+    it('should accept a complete create payload and default images to the main image', () => {
+      const { images, ...withoutImages } = validInput
+
+      expect(service.validateInput(withoutImages)).toEqual({
+        ...withoutImages,
+        description_format: 'markdown-v1',
+        description_html: '<p>Reusable bottle</p>',
+        status: 'live',
+        images: ['products/bottle'],
+      })
+    })
+
+    it('should require all fields when creating', () => {
+      expect(() => service.validateInput({ name: 'Only a name' })).toThrow('description is required')
+    })
+
+    it('should accept a partial update payload', () => {
+      expect(service.validateInput({ stock: 3 }, true)).toEqual({ stock: 3 })
+    })
+
+    it('should reject unknown fields', () => {
+      try {
+        service.validateInput({ stock: 3, id: 'other' }, true)
+        expect.fail('should have thrown')
+      } catch (error) {
+        expect(isProductError(error) && error.type).toBe('validation_error')
+        expect(isProductError(error) && error.details).toEqual({ fields: ['id'] })
+      }
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => service.validateInput({ price: 0 }, true)).toThrow('Price must be greater than zero')
+      expect(() => service.validateInput({ stock: 1.5 }, true)).toThrow('Stock must be a whole number')
+      expect(() => service.validateInput({ is_active: 'yes' }, true)).toThrow('is_active must be true or false')
+      expect(() => service.validateInput({ name: '   ' }, true)).toThrow('Product name is required')
+    })
+
+    it('should accept a low-stock threshold or null for the default', () => {
+      expect(service.validateInput({ low_stock_threshold: 5 }, true)).toEqual({ low_stock_threshold: 5 })
+      expect(service.validateInput({ low_stock_threshold: null }, true)).toEqual({ low_stock_threshold: null })
+      expect(() => service.validateInput({ low_stock_threshold: -1 }, true)).toThrow('Low-stock threshold must be a whole number')
+    })
+
+    it('should reject an empty update and non-object bodies', () => {
+      expect(() => service.validateInput({}, true)).toThrow('No fields to update')
+      expect(() => service.validateInput(null)).toThrow('Request body must be an object')
+      expect(() => service.validateInput([validInput])).toThrow('Request body must be an object')
+    })
+
+    it('should round prices to cents', () => {
+      expect(service.validateInput({ price: '9.999' }, true)).toEqual({ price: 10 })
+    })
+
+    it('should derive price and stock from the variants', () => {
+      const { price, stock, ...withoutPriceAndStock } = validInput
+      const variants = [
+        { ...variantInput, sku: ' wfc-12-70 ' },
+        { ...variantInput, sku: 'WFC-12-20', bottle_size_ml: '200', price: 29.5, stock: 3, cask: '' },
+      ]
+
+      expect(service.validateInput({ ...withoutPriceAndStock, variants })).toMatchObject({
+        price: 29.5,
+        stock: 9,
+        variants: [
+          { sku: 'WFC-12-70', bottle_size_ml: 700 },
+          { sku: 'WFC-12-20', bottle_size_ml: 200, cask: null },
+        ],
+      })
+    })
+
+    it('should reject invalid or duplicate variants', () => {
+      expect(() => service.validateInput({ variants: [{ ...variantInput, sku: 'has space' }] }, true)).toThrow('SKU may only contain')
+      expect(() => service.validateInput({ variants: [{ ...variantInput, bottle_size_ml: 5 }] }, true)).toThrow('Bottle size must be between')
+      expect(() => service.validateInput({ variants: [{ ...variantInput, vintage: 3000 }] }, true)).toThrow('Vintage must be a year')
+      expect(() => service.validateInput({ variants: [{ ...variantInput, stock: -1 }] }, true)).toThrow('Variant stock must be a whole number')
+      expect(() => service.validateInput({ variants: [variantInput, { ...variantInput, sku: 'wfc-12-70' }] }, true))
+        .toThrow('SKU WFC-12-70 is used twice')
+      expect(() => service.validateInput({ variants: [variantInput, { ...variantInput, sku: 'OTHER', cask: 'sherry CASK' }] }, true))
+        .toThrow('Two variants are both 70 cl · 2012 · sherry CASK')
+    })
+    it('should normalise tags and dedupe collections', () => {
+      expect(service.validateInput({ tags: [' Peated', 'peated ', 'Gift  Idea'], collection_ids: ['gifts', 'gifts'] }, true))
+        .toEqual({ tags: ['peated', 'gift idea'], collection_ids: ['gifts'] })
+      expect(() => service.validateInput({ tags: 'peated' }, true)).toThrow()
+      expect(() => service.validateInput({ category_id: 42 }, true)).toThrow()
+    })
+
+    it('should require alt text for every gallery image and drop entries of other images', () => {
+      const gallery = { image: 'products/bottle', images: ['products/box', 'products/bottle'] }
+
+      expect(service.validateInput({
+        ...gallery,
+        image_meta: {
+          'products/bottle': { alt: ' Bottle ', focal_point: { x: 0.4, y: 0.25 } },
+          'products/box': { alt: 'Gift box' },
+          'products/removed': { alt: 'Old label' },
+        },
+      }, true)).toEqual({
+        ...gallery,
+        image_meta: {
+          'products/bottle': { alt: 'Bottle', focal_point: { x: 0.4, y: 0.25 } },
+          'products/box': { alt: 'Gift box', focal_point: null },
+        },
+      })
+      expect(() => service.validateInput({ ...gallery, image_meta: { 'products/bottle': { alt: 'Bottle' } } }, true))
+        .toThrow('Alt text is required for products/box')
+    })
+
+    it('should require alt text for the gallery when the payload leaves image_meta out', () => {
+      const { image_meta, ...withoutImageMeta } = validInput
+
+      expect(() => service.validateInput(withoutImageMeta)).toThrow('Alt text is required for products/bottle')
+      expect(() => service.validateInput({ images: ['products/box'] }, true)).toThrow('Alt text is required for products/box')
+      expect(service.validateInput({ name: 'Glass bottle' }, true)).toEqual({ name: 'Glass bottle' })
+    })
+
+    it('should keep the schedule consistent with the status', () => {
+      expect(service.validateInput({ status: 'draft', publish_at: '2099-01-01T10:00:00Z' }, true))
+        .toEqual({ status: 'draft', is_active: false, publish_at: null, unpublish_at: null })
+      expect(service.validateInput({ status: 'scheduled', publish_at: '2099-01-01T10:00:00Z', unpublish_at: '2099-02-01T10:00:00Z' }, true))
+        .toEqual({ status: 'scheduled', is_active: false, publish_at: '2099-01-01T10:00:00.000Z', unpublish_at: '2099-02-01T10:00:00.000Z' })
+      expect(service.validateInput({ status: 'live' }, true)).toMatchObject({ status: 'live', is_active: true, unpublish_at: null })
+      expect(service.validateInput({ is_active: false }, true)).toEqual({ is_active: false, status: 'draft' })
+    })
+
+    it('should reject schedules that cannot happen', () => {
+      expect(() => service.validateInput({ status: 'scheduled', publish_at: '2020-01-01T10:00:00Z' }, true))
+        .toThrow('A scheduled product needs a publish date in the future')
+      expect(() => service.validateInput({ status: 'live', publish_at: '2099-01-01T10:00:00Z' }, true))
+        .toThrow('Schedule the product to publish it later')
+      expect(() => service.validateInput({ status: 'scheduled', publish_at: '2099-01-01T10:00:00Z', unpublish_at: '2098-12-31T10:00:00Z' }, true))
+        .toThrow('The unpublish date must be in the future and after the publish date')
+      expect(() => service.validateInput({ status: 'live', is_active: true }, true)).toThrow('Set either status or is_active, not both')
+      expect(() => service.validateInput({ status: 'hidden' }, true)).toThrow('status must be one of draft, scheduled, live')
+    })
+
+    it('should reject focal points outside the image', () => {
+      expect(() => service.validateInput({ image_meta: { 'products/bottle': { alt: 'Bottle', focal_point: { x: 1.2, y: 0.5 } } } }, true))
+        .toThrow('Focal point must have an x and y between 0 and 1')
+      expect(() => service.validateInput({ image_meta: ['products/bottle'] }, true)).toThrow('image_meta must be an object')
+    })
+  })
+
+  describe('createProduct', () => {
+    it('should insert the product and record an audit entry', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', ...validInput } })
+
+      const product = await service.createProduct(validInput, actor)
+
+      expect(product.id).toBe('product-1')
+      const [inserted] = mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'insert')[0].args[0]
+      expect(inserted).toMatchObject({ ...validInput, cloudinary_id: 'products/bottle' })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: 'product',
+        entityId: 'product-1',
+        action: 'product.created',
+        actor,
+      }))
+    })
+
+    it('should insert the variants with their position', async () => {
+      const input = { ...validInput, price: 89, stock: 6, variants: [variantInput] }
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', ...validInput, price: 89, stock: 6 } })
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS, { data: [savedVariant] })
+
+      const product = await service.createProduct(input, actor)
+
+      expect(product.variants).toEqual([savedVariant])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'insert')[0].args[0][0]).not.toHaveProperty('variants')
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'insert')[0].args[0]).toEqual([
+        expect.objectContaining({ ...variantInput, product_id: 'product-1', position: 0 }),
+      ])
+    })
+
+    it('should throw a database_error when the insert fails', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { error: { message: 'insert failed' } })
+
+      await expect(service.createProduct(validInput, actor)).rejects.toMatchObject({ type: 'database_error' })
+      expect(audit.record).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateProduct', () => {
+    it('should update the product and audit only the changed fields', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput, stock: 4 } }
+      )
+
+      const product = await service.updateProduct('product-1', { stock: 4, is_active: true }, actor)
+
+      expect(product.stock).toBe(4)
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'product.updated',
+        changes: { stock: { from: 10, to: 4 } },
+      }))
+    })
+
+    it('should record a stock change in the inventory ledger', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput, stock: 4 } }
+      )
+
+      await service.updateProduct('product-1', { stock: 4 }, actor)
+
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')[0].args[0]).toEqual({
+        product_id: 'product-1',
+        variant_id: null,
+        type: 'adjustment',
+        quantity: -6,
+        stock_after: 4,
+        reason: STOCK_MOVEMENT_REASONS.PRODUCT_EDIT,
+        reference_id: null,
+        created_by: 'user-1',
+        created_by_email: 'admin@example.com',
+      })
+    })
+
+    it('should not write an audit entry when nothing changed', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput } }
+      )
+
+      await service.updateProduct('product-1', { stock: 10 }, actor)
+
+      expect(audit.record).not.toHaveBeenCalled()
+      expect(mock.callsFor(INVENTORY_TABLES.STOCK_MOVEMENTS, 'insert')).toHaveLength(0)
+    })
+
+    it('should only update the product while it is at the version the edit started from', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput, updated_at: '2024-05-01T10:00:00Z' } },
+        { data: { id: 'product-1', ...validInput, name: 'Bottle', updated_at: '2024-05-01T11:00:00Z' } }
+      )
+
+      await service.updateProduct('product-1', { name: 'Bottle' }, actor, undefined, '2024-05-01T10:00:00Z')
+
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'eq').map(call => call.args)).toContainEqual(['updated_at', '2024-05-01T10:00:00Z'])
+    })
+
+    it('should report a product saved by someone else since, with its current version', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput, updated_at: '2024-05-01T11:00:00Z' } },
+        { data: null },
+        { data: { id: 'product-1', ...validInput, name: 'Their name', updated_at: '2024-05-01T11:00:00Z' } }
+      )
+
+      const error = await service.updateProduct('product-1', { name: 'Bottle' }, actor, undefined, '2024-05-01T10:00:00Z').catch(err => err)
+
+      expect(isProductError(error) && error.type).toBe('concurrent_update')
+      expect(error.details.current).toMatchObject({ name: 'Their name' })
+      expect(audit.record).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a direct stock change on a product with variants', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', ...validInput } })
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS, { data: [savedVariant] })
+
+      await expect(service.updateProduct('product-1', { stock: 4 }, actor))
+        .rejects.toThrow('Price and stock are set per variant')
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')).toHaveLength(0)
+    })
+
+    it('should update existing variants, add new ones and audit the difference', async () => {
+      const variants = [{ ...variantInput, id: 'variant-1', stock: 2 }, { ...variantInput, sku: 'WFC-12-20', bottle_size_ml: 200, price: 29 }]
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput, price: 89, stock: 6 } },
+        { data: { id: 'product-1', ...validInput, price: 29, stock: 8 } }
+      )
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS,
+        { data: [savedVariant] },
+        { data: [{ ...savedVariant, stock: 2 }] },
+        { data: [{ ...savedVariant, id: 'variant-2', sku: 'WFC-12-20', bottle_size_ml: 200, price: 29, position: 1 }] }
+      )
+
+      const product = await service.updateProduct('product-1', { price: 29, stock: 8, variants }, actor)
+
+      expect(product.variants!.map(variant => variant.id)).toEqual(['variant-1', 'variant-2'])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'upsert')[0].args[0]).toEqual([
+        expect.objectContaining({ id: 'variant-1', stock: 2, position: 0 }),
+      ])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'insert')[0].args[0]).toEqual([
+        expect.objectContaining({ sku: 'WFC-12-20', position: 1, product_id: 'product-1' }),
+      ])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'delete')).toHaveLength(0)
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        changes: expect.objectContaining({
+          price: { from: 89, to: 29 },
+          stock: { from: 6, to: 8 },
+          variants: expect.objectContaining({ to: [expect.objectContaining({ stock: 2 }), expect.objectContaining({ sku: 'WFC-12-20' })] }),
+        }),
+      }))
+    })
+
+    it('should refuse to remove a variant that has been ordered', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', ...validInput } })
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS, { data: [savedVariant] })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [{ variant_id: 'variant-1' }] })
+
+      await expect(service.updateProduct('product-1', { variants: [{ ...variantInput, sku: 'WFC-NEW' }] }, actor))
+        .rejects.toThrow('WFC-12-70 has been ordered and cannot be removed')
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'delete')).toHaveLength(0)
+    })
+
+    it('should reject variant ids of other products', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', ...validInput } })
+
+      await expect(service.updateProduct('product-1', { variants: [{ ...variantInput, id: 'variant-9' }] }, actor))
+        .rejects.toMatchObject({ type: 'validation_error', details: { variantId: 'variant-9' } })
+    })
+
+    it('should report a SKU taken by another product as a validation error', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput } }
+      )
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS, { data: [] }, { error: { code: '23505', message: 'duplicate key' } })
+
+      await expect(service.updateProduct('product-1', { variants: [variantInput] }, actor))
+        .rejects.toMatchObject({ type: 'validation_error', message: 'One of the SKUs is already used by another product' })
+    })
+
+    it('should refuse a category that does not exist', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: { id: 'product-1', ...validInput } })
+      mock.respond(CATALOG_TABLES.CATEGORIES, { data: null })
+
+      await expect(service.updateProduct('product-1', { category_id: 'missing' }, actor))
+        .rejects.toMatchObject({ type: 'validation_error', message: 'Category not found' })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')).toHaveLength(0)
+    })
+
+    it('should add the product to the collections it joins and audit the membership', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput } }
+      )
+      mock.respond(CATALOG_TABLES.COLLECTIONS, { data: [{ id: 'gifts' }] })
+      mock.respond(CATALOG_TABLES.COLLECTION_ITEMS,
+        { data: [] },
+        { data: [] },
+        { data: [{ collection_id: 'gifts', position: 2 }] },
+        { data: null }
+      )
+
+      const product = await service.updateProduct('product-1', { collection_ids: ['gifts'] }, actor)
+
+      expect(product.collection_ids).toEqual(['gifts'])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args[0]).not.toHaveProperty('collection_ids')
+      expect(mock.callsFor(CATALOG_TABLES.COLLECTION_ITEMS, 'insert')[0].args[0])
+        .toEqual([{ collection_id: 'gifts', product_id: 'product-1', position: 3 }])
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        changes: { collection_ids: { from: [], to: ['gifts'] } },
+      }))
+    })
+
+    it('should throw product_not_found for an unknown product', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS, { data: null })
+
+      await expect(service.updateProduct('missing', { stock: 1 }, actor))
+        .rejects.toMatchObject({ type: 'product_not_found' })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')).toHaveLength(0)
+    })
+  })
+
+  describe('revisions', () => {
+    const revisionEntry = (id: string, snapshot: Partial<ProductInput>) => ({
+      id,
+      entity_type: 'product' as const,
+      entity_id: 'product-1',
+      action: 'product.updated' as const,
+      actor_id: 'user-1',
+      actor_email: 'editor@example.com',
+      changes: { name: { from: 'Old', to: snapshot.name } },
+      metadata: null,
+      snapshot,
+      created_at: '2024-03-01T10:00:00Z',
+    })
+
+    it('should keep a snapshot of the content fields with every save', async () => {
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput, name: 'Glass bottle', tags: ['gift'] } }
+      )
+
+      await service.updateProduct('product-1', { name: 'Glass bottle' }, actor)
+
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'product.updated',
+        snapshot: {
+          name: 'Glass bottle',
+          description: 'Reusable bottle',
+          price: 12.5,
+          image: 'products/bottle',
+          images: ['products/bottle'],
+          image_meta: { 'products/bottle': { alt: 'Water bottle', focal_point: null } },
+          category_id: null,
+          tags: ['gift'],
+        },
+      }))
+    })
+
+    it('should read the revisions from the audit trail', async () => {
+      vi.mocked(audit.getEntries).mockResolvedValue([revisionEntry('audit-2', { name: 'Glass bottle' })])
+
+      expect(await service.getRevisions('product-1')).toEqual([{
+        id: 'audit-2',
+        action: 'product.updated',
+        actorEmail: 'editor@example.com',
+        createdAt: '2024-03-01T10:00:00Z',
+        changedFields: ['name'],
+        snapshot: { name: 'Glass bottle' },
+        restoredFrom: null,
+      }])
+      expect(audit.getEntries).toHaveBeenCalledWith('product', 'product-1', { revisionsOnly: true })
+    })
+
+    it('should restore an earlier revision as a new revision', async () => {
+      const saved = { ...validInput, category_id: null, tags: [] }
+      vi.mocked(audit.getEntries).mockResolvedValue([
+        revisionEntry('audit-2', { ...saved, name: 'Glass bottle' }),
+        revisionEntry('audit-1', { ...saved, name: 'Water bottle', price: 10, image_meta: {} }),
+      ])
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...saved, name: 'Glass bottle' } },
+        { data: { id: 'product-1', ...saved, name: 'Glass bottle' } },
+        { data: { id: 'product-1', ...saved, price: 10 } }
+      )
+
+      await service.restoreRevision('product-1', 'audit-1', actor)
+
+      const [update] = mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args
+      expect(update).toMatchObject({ name: 'Water bottle', price: 10 })
+      // The revision has no alt text, so the images keep the alt text they have now
+      expect(update.image_meta).toEqual(validInput.image_meta)
+      expect(update).not.toHaveProperty('stock')
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'product.restored',
+        changes: { name: { from: 'Glass bottle', to: 'Water bottle' }, price: { from: 12.5, to: 10 } },
+        metadata: { restoredFrom: 'audit-1' },
+      }))
+    })
+
+    it('should leave the price of a product with variants to its variants', async () => {
+      vi.mocked(audit.getEntries).mockResolvedValue([revisionEntry('audit-1', { ...validInput, price: 10 })])
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput } },
+        { data: { id: 'product-1', ...validInput } }
+      )
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS, { data: [savedVariant] }, { data: [savedVariant] })
+
+      await service.restoreRevision('product-1', 'audit-1', actor)
+
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')[0].args[0]).not.toHaveProperty('price')
+    })
+
+    it('should not restore a revision of another product', async () => {
+      vi.mocked(audit.getEntries).mockResolvedValue([])
+
+      await expect(service.restoreRevision('product-1', 'audit-9', actor)).rejects.toMatchObject({ type: 'revision_not_found' })
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')).toHaveLength(0)
+    })
+  })
+})
+
+describe('AuditService', () => {
+  it('should insert an audit_log row for the entry', async () => {
+    const mock = createMockSupabase()
+    const audit = new AuditServiceImpl(mock.client)
+
+    await audit.record({
+      entityType: 'order',
+      entityId: 'order-1',
+      action: 'order.status_changed',
+      actor,
+      changes: { status: { from: 'paid', to: 'shipped' } },
+    })
+
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toEqual({
+      entity_type: 'order',
+      entity_id: 'order-1',
+      action: 'order.status_changed',
+      actor_id: 'user-1',
+      actor_email: 'admin@example.com',
+      changes: { status: { from: 'paid', to: 'shipped' } },
+      metadata: null,
+    })
+  })
+
+  it('should store the snapshot of a revision and read back only the revisions', async () => {
+    const mock = createMockSupabase()
+    const audit = new AuditServiceImpl(mock.client)
+
+    await audit.record({ entityType: 'product', entityId: 'p', action: 'product.updated', actor, snapshot: { name: 'Bottle' } })
+    await audit.getEntries('product', 'p', { revisionsOnly: true })
+
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args[0]).toMatchObject({ snapshot: { name: 'Bottle' } })
+    expect(mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'not')[0].args).toEqual(['snapshot', 'is', null])
+  })
+
+  it('should not throw when the audit write fails', async () => {
+    const mock = createMockSupabase()
+    const audit = new AuditServiceImpl(mock.client)
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    mock.respond(AUDIT_TABLES.AUDIT_LOG, { error: { message: 'denied' } })
+
+    await expect(audit.record({ entityType: 'product', entityId: 'p', action: 'product.updated', actor }))
+      .resolves.toBeUndefined()
+    consoleSpy.mockRestore()
+  })
+
+  it('diffFields should only include changed fields present in the update', () => {
+    const before = { a: 1, b: [1], c: 'x' }
+
+    expect(diffFields<typeof before>(before, { a: 2, b: [1] }, ['a', 'b', 'c'])).toEqual({
+      a: { from: 1, to: 2 },
+    })
+  })
+})
@@ -0,0 +1,356 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RefundServiceImpl, summarizeRefunds } from '../refundService'
+import { createFakePaymentProvider, getPaymentConfig, type FakePaymentProvider } from '../paymentProvider'
+import { ORDER_TABLES } from '../../constants/orders'
+import { PRODUCT_TABLES } from '../../constants/products'
+import { REFUND_TABLES } from '../../constants/refunds'
+import { isRefundError } from '../../utils/typeGuards'
+import type { OrderStatus } from '../../types/orders'
+import type { RefundRecord } from '../../types/refunds'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'admin-1', email: 'admin@example.com', role: 'admin' as const }
+
+const makeOrder = (status: OrderStatus = 'paid', overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  order_number: 'W4C-1001',
+  total_amount: 125,
+  status,
+  payment_reference: 'tr_123',
+  refunded_amount: 0,
+  ...overrides,
+})
+
+// Two bottles at €50 and one at €20, plus €5 shipping
+const items = [
+  { id: 'item-1', order_id: 'order-1', product_id: 'product-1', quantity: 2, price: 50 },
+  { id: 'item-2', order_id: 'order-1', product_id: 'product-2', quantity: 1, price: 20 },
+]
+
+const products = [
+  { id: 'product-1', name: 'Islay 10y' },
+  { id: 'product-2', name: 'Speyside 12y' },
+]
+
+describe('RefundService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let provider: FakePaymentProvider
+  let service: RefundServiceImpl
+
+  const respondWithOrder = (status: OrderStatus = 'paid', earlierRefunds: RefundRecord[] = []) => {
+    const refundedAmount = earlierRefunds.reduce((sum, refund) => sum + refund.amount, 0)
+    mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder(status, { refunded_amount: refundedAmount }) })
+    mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: items })
+    mock.respond(PRODUCT_TABLES.PRODUCTS, { data: products })
+    mock.respond(REFUND_TABLES.REFUNDS, { data: earlierRefunds })
+    if (earlierRefunds.length > 0) {
+      mock.respond(REFUND_TABLES.REFUND_LINES, { data: earlierRefunds.flatMap(refund => refund.lines || []) })
+    }
+  }
+
+  // Reserving the amount, then the lifecycle transition: read current status, then the conditional update
+  const respondWithTransition = (from: OrderStatus, to: OrderStatus) => {
+    mock.respond(
+      ORDER_TABLES.ORDERS,
+      { data: [{ id: 'order-1' }] }, // refunded_amount reservation
+      { data: { id: 'order-1', status: from } },
+      { data: [{ id: 'order-1', status: to, updated_at: '2024-03-02T10:00:00Z' }] }
+    )
+  }
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    provider = createFakePaymentProvider()
+    service = new RefundServiceImpl(mock.client, provider)
+  })
+
+  describe('summarizeRefunds', () => {
+    it('should add up refunded amounts and quantities per item', () => {
+      const summary = summarizeRefunds({ total_amount: 125 }, [
+        { amount: 50, lines: [{ order_item_id: 'item-1', product_id: 'product-1', quantity: 1, amount: 50 }] } as RefundRecord,
+        { amount: 20.1, lines: [{ order_item_id: 'item-2', product_id: 'product-2', quantity: 1, amount: 20.1 }] } as RefundRecord,
+      ])
+
+      expect(summary).toEqual({
+        orderTotal: 125,
+        refundedAmount: 70.1,
+        netAmount: 54.9,
+        refundedQuantities: { 'item-1': 1, 'item-2': 1 },
+      })
+    })
+  })
+
+  describe('summarizeRefunds failures', () => {
+    it('should leave out refunds the payment provider refused', () => {
+      const summary = summarizeRefunds({ total_amount: 125 }, [
+        { amount: 50, status: 'failed', lines: [{ order_item_id: 'item-1', product_id: 'product-1', quantity: 1, amount: 50 }] } as RefundRecord,
+      ])
+
+      expect(summary).toMatchObject({ refundedAmount: 0, refundedQuantities: {} })
+    })
+  })
+
+  describe('createRefund', () => {
+    it('should refund part of an order per item and mark it partially refunded', async () => {
+      respondWithOrder('shipped')
+      mock.respond(REFUND_TABLES.REFUNDS, { data: { id: 'refund-1' } })
+      respondWithTransition('shipped', 'partially_refunded')
+
+      const result = await service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-1', quantity: 1 }],
+        reason: 'Bottle arrived broken',
+        restock: false,
+      }, actor)
+
+      expect(provider.refunds).toHaveLength(1)
+      expect(provider.refunds[0]).toMatchObject({ paymentReference: 'tr_123', amount: 50, currency: 'EUR' })
+      expect(result.refund).toMatchObject({ id: 'refund-1', type: 'partial', amount: 50, restocked: false, provider: 'fake' })
+      expect(result.order).toEqual({ id: 'order-1', status: 'partially_refunded', refunded_amount: 50 })
+      expect(result.summary).toMatchObject({ refundedAmount: 50, netAmount: 75, refundedQuantities: { 'item-1': 1 } })
+
+      const [lines] = mock.callsFor(REFUND_TABLES.REFUND_LINES, 'insert')[0].args
+      expect(lines).toEqual([{ order_item_id: 'item-1', product_id: 'product-1', quantity: 1, amount: 50, refund_id: 'refund-1' }])
+
+      const [orderUpdate] = mock.callsFor(ORDER_TABLES.ORDERS, 'update')[0].args
+      expect(orderUpdate.refunded_amount).toBe(50)
+
+      const [history] = mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY, 'insert')[0].args
+      expect(history).toMatchObject({ from_status: 'shipped', to_status: 'partially_refunded', changed_by: 'admin-1' })
+      expect(history.note).toContain('Bottle arrived broken')
+    })
+
+    it('should refund everything that is left, including shipping, and restock the items', async () => {
+      respondWithOrder('partially_refunded', [{
+        id: 'refund-0',
+        amount: 50,
+        lines: [{ refund_id: 'refund-0', order_item_id: 'item-1', product_id: 'product-1', quantity: 1, amount: 50 }],
+      } as RefundRecord])
+      mock.respond(
+        PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-1', stock: 4 } },
+        { data: [{ id: 'product-1' }] },
+        { data: { id: 'product-2', stock: 0 } },
+        { data: [{ id: 'product-2' }] }
+      )
+      mock.respond(REFUND_TABLES.REFUNDS, { data: { id: 'refund-1' } })
+      respondWithTransition('partially_refunded', 'refunded')
+
+      const result = await service.createRefund('order-1', { reason: 'Donation cancelled', restock: true }, actor)
+
+      expect(provider.refunds[0].amount).toBe(75)
+      expect(result.refund).toMatchObject({ type: 'full', amount: 75, restocked: true })
+      expect(result.order.status).toBe('refunded')
+      expect(result.summary.netAmount).toBe(0)
+
+      const [lines] = mock.callsFor(REFUND_TABLES.REFUND_LINES, 'insert')[0].args
+      expect(lines.map((line: { order_item_id: string; quantity: number }) => [line.order_item_id, line.quantity])).toEqual([
+        ['item-1', 1],
+        ['item-2', 1],
+      ])
+
+      const stockUpdates = mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update').map(call => call.args[0])
+      expect(stockUpdates).toEqual([{ stock: 5 }, { stock: 1 }])
+    })
+
+    it('should retry the stock increment when the stock changed concurrently', async () => {
+      respondWithOrder('paid')
+      mock.respond(
+        PRODUCT_TABLES.PRODUCTS,
+        { data: { id: 'product-2', stock: 3 } },
+        { data: [] }, // Someone else changed the stock
+        { data: { id: 'product-2', stock: 2 } },
+        { data: [{ id: 'product-2' }] }
+      )
+      mock.respond(REFUND_TABLES.REFUNDS, { data: { id: 'refund-1' } })
+      respondWithTransition('paid', 'partially_refunded')
+
+      const result = await service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-2', quantity: 1 }],
+        reason: 'Out of stock',
+        restock: true,
+      }, actor)
+
+      expect(result.refund.restocked).toBe(true)
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update').map(call => call.args[0])).toEqual([{ stock: 4 }, { stock: 3 }])
+    })
+
+    it('should restock the ordered variant as well as the product', async () => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('paid') })
+      mock.respond(ORDER_TABLES.ORDER_ITEMS, { data: [{ ...items[1], variant_id: 'variant-1' }] })
+      mock.respond(PRODUCT_TABLES.PRODUCTS,
+        { data: products },
+        { data: { id: 'product-2', stock: 7 } },
+        { data: [{ id: 'product-2' }] }
+      )
+      mock.respond(PRODUCT_TABLES.PRODUCT_VARIANTS,
+        { data: [{ id: 'variant-1', sku: 'SPEY-12-20', bottle_size_ml: 200, vintage: null, cask: null, image: null }] },
+        { data: { id: 'variant-1', stock: 2 } },
+        { data: [{ id: 'variant-1' }] }
+      )
+      mock.respond(REFUND_TABLES.REFUNDS, { data: [] }, { data: { id: 'refund-1' } })
+      respondWithTransition('paid', 'partially_refunded')
+
+      const result = await service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-2', quantity: 1 }],
+        reason: 'Wrong size',
+        restock: true,
+      }, actor)
+
+      expect(result.refund.restocked).toBe(true)
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCT_VARIANTS, 'update').map(call => call.args[0])).toEqual([{ stock: 3 }])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update').map(call => call.args[0])).toEqual([{ stock: 8 }])
+    })
+
+    it('should reject refunding more items than are left', async () => {
+      respondWithOrder('partially_refunded', [{
+        id: 'refund-0',
+        amount: 50,
+        lines: [{ refund_id: 'refund-0', order_item_id: 'item-1', product_id: 'product-1', quantity: 1, amount: 50 }],
+      } as RefundRecord])
+
+      const error = await service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-1', quantity: 2 }],
+        reason: 'Broken',
+        restock: false,
+      }, actor).catch(e => e)
+
+      expect(isRefundError(error)).toBe(true)
+      expect(error.type).toBe('refund_exceeds_total')
+      expect(error.details).toMatchObject({ requested: 2, available: 1 })
+      expect(provider.refunds).toHaveLength(0)
+    })
+
+    it('should reject unknown items and invalid quantities', async () => {
+      respondWithOrder('paid')
+      await expect(service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-9', quantity: 1 }],
+        reason: 'Broken',
+        restock: false,
+      }, actor)).rejects.toMatchObject({ type: 'invalid_refund' })
+
+      respondWithOrder('paid')
+      await expect(service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-1', quantity: 0.5 }],
+        reason: 'Broken',
+        restock: false,
+      }, actor)).rejects.toMatchObject({ type: 'invalid_refund' })
+    })
+
+    it('should require a reason', async () => {
+      await expect(service.createRefund('order-1', { reason: '  ', restock: false }, actor)).rejects.toMatchObject({
+        type: 'invalid_refund',
+      })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS)).toHaveLength(0)
+    })
+
+    it.each<OrderStatus>(['pending', 'cancelled', 'refunded'])('should not refund %s orders', async status => {
+      respondWithOrder(status)
+
+      await expect(service.createRefund('order-1', { reason: 'Test', restock: false }, actor)).rejects.toMatchObject({
+        type: 'refund_not_allowed',
+      })
+      expect(provider.refunds).toHaveLength(0)
+    })
+
+    it('should reserve the amount before paying out and record the refund as pending', async () => {
+      respondWithOrder('paid')
+      mock.respond(REFUND_TABLES.REFUNDS, { data: { id: 'refund-1' } })
+      respondWithTransition('paid', 'refunded')
+
+      const result = await service.createRefund('order-1', { reason: 'Cancelled', restock: false }, actor)
+
+      const orderCalls = mock.callsFor(ORDER_TABLES.ORDERS)
+      const updateAt = orderCalls.findIndex(call => call.method === 'update')
+      const reservation = orderCalls.slice(updateAt, updateAt + 3)
+      expect(reservation.map(call => call.args)).toEqual([
+        [expect.objectContaining({ refunded_amount: 125 })],
+        ['id', 'order-1'],
+        ['refunded_amount', 0],
+      ])
+      expect(mock.callsFor(REFUND_TABLES.REFUNDS, 'insert')[0].args[0]).toMatchObject({ status: 'pending', provider_refund_id: null })
+      expect(mock.callsFor(REFUND_TABLES.REFUNDS, 'update')[0].args[0]).toMatchObject({
+        status: 'succeeded',
+        provider_refund_id: provider.refunds[0].providerRefundId,
+      })
+      expect(result.refund.status).toBe('succeeded')
+    })
+
+    it('should not pay out more than is left when another refund got in first', async () => {
+      respondWithOrder('paid')
+      mock.respond(
+        ORDER_TABLES.ORDERS,
+        { data: [] }, // Another refund changed refunded_amount
+        { data: { id: 'order-1', refunded_amount: 100 } }
+      )
+
+      const error = await service.createRefund('order-1', {
+        lines: [{ orderItemId: 'item-1', quantity: 1 }],
+        reason: 'Broken',
+        restock: false,
+      }, actor).catch(e => e)
+
+      expect(error).toMatchObject({ type: 'refund_exceeds_total', details: { requested: 50, available: 25 } })
+      expect(provider.refunds).toHaveLength(0)
+      expect(mock.callsFor(REFUND_TABLES.REFUNDS, 'insert')).toHaveLength(0)
+    })
+
+    it('should mark the refund as failed and release the amount when the payment provider fails', async () => {
+      respondWithOrder('paid')
+      mock.respond(REFUND_TABLES.REFUNDS, { data: { id: 'refund-1' } })
+      mock.respond(
+        ORDER_TABLES.ORDERS,
+        { data: [{ id: 'order-1' }] }, // Reservation
+        { data: { id: 'order-1', refunded_amount: 125 } },
+        { data: [{ id: 'order-1' }] } // Release
+      )
+      provider.failNext('Payment is not refundable')
+
+      await expect(service.createRefund('order-1', { reason: 'Test', restock: true }, actor)).rejects.toMatchObject({
+        type: 'provider_error',
+        message: 'Payment is not refundable',
+      })
+      expect(mock.callsFor(REFUND_TABLES.REFUNDS, 'update')[0].args[0]).toMatchObject({
+        status: 'failed',
+        failure_reason: 'Payment is not refundable',
+      })
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update').map(call => call.args[0].refunded_amount)).toEqual([125, 0])
+      expect(mock.callsFor(PRODUCT_TABLES.PRODUCTS, 'update')).toHaveLength(0)
+    })
+
+    it('should record a paid-out refund that could not be finished', async () => {
+      const audit = { record: vi.fn().mockResolvedValue(undefined), getEntries: vi.fn() }
+      service = new RefundServiceImpl(mock.client, provider, audit)
+      respondWithOrder('paid')
+      mock.respond(ORDER_TABLES.ORDERS, { data: [{ id: 'order-1' }] })
+      mock.respond(REFUND_TABLES.REFUNDS, { data: { id: 'refund-1' } }, { error: { message: 'connection lost' } })
+
+      const error = await service.createRefund('order-1', { reason: 'Test', restock: false }, actor).catch(e => e)
+
+      const providerRefundId = provider.refunds[0].providerRefundId
+      expect(error).toMatchObject({ type: 'database_error', details: { refundId: 'refund-1', providerRefundId } })
+      expect(mock.callsFor(REFUND_TABLES.REFUNDS, 'update')[1].args[0]).toMatchObject({
+        status: 'needs_attention',
+        provider_refund_id: providerRefundId,
+        failure_reason: 'connection lost',
+      })
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'order.refund_incomplete',
+        metadata: expect.objectContaining({ refundId: 'refund-1', providerRefundId }),
+      }))
+    })
+  })
+
+  describe('getPaymentConfig', () => {
+    it('should default to Mollie and read the API key', () => {
+      expect(getPaymentConfig({ MOLLIE_API_KEY: 'test_abc' })).toMatchObject({
+        provider: 'mollie',
+        currency: 'EUR',
+        mollie: { apiKey: 'test_abc', apiUrl: 'https://api.mollie.com/v2' },
+      })
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() => getPaymentConfig({ PAYMENT_PROVIDER: 'paypal' })).toThrow('Unknown PAYMENT_PROVIDER: paypal')
+    })
+  })
+})
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ShipmentServiceImpl, normalizeTrackingNumber } from '../shipmentService'
+import { createMockCarrierAdapter, createUntrackedCarrierAdapter, getCarrierConfig, type MockCarrierAdapter } from '../carrierAdapters'
+import { createAuditService } from '../auditService'
+import { ORDER_TABLES } from '../../constants/orders'
+import { SHIPMENT_TABLES } from '../../constants/shipments'
+import { AUDIT_TABLES } from '../../constants/api'
+import { isShipmentError } from '../../utils/typeGuards'
+import { getTrackingUrl } from '../../utils/tracking'
+import type { OrderStatus } from '../../types/orders'
+import type { OrderEmailService } from '../../types/services'
+import type { ShipmentRecord } from '../../types/shipments'
+import { createMockSupabase } from '../../test/mockSupabase'
+
+const actor = { id: 'admin-1', email: 'admin@example.com', role: 'admin' as const }
+
+const makeOrder = (status: OrderStatus = 'paid') => ({
+  id: 'order-1',
+  status,
+  customer_postal_code: '3511 AA',
+  customer_country: 'NL',
+})
+
+const makeShipment = (overrides: Partial<ShipmentRecord> = {}): ShipmentRecord => ({
+  id: 'shipment-1',
+  order_id: 'order-1',
+  carrier: 'postnl',
+  tracking_number: null,
+  shipped_at: '2024-03-01',
+  weight_kg: 1.2,
+  tracking_status: null,
+  tracking_description: null,
+  tracking_checked_at: null,
+  created_by: 'admin-1',
+  ...overrides,
+})
+
+describe('ShipmentService', () => {
+  let mock: ReturnType<typeof createMockSupabase>
+  let postnl: MockCarrierAdapter
+  let sendOrderEmails: ReturnType<typeof vi.fn>
+  let service: ShipmentServiceImpl
+
+  // Re-read of the shipments, then the orders.tracking_number update
+  const respondWithSync = (shipments: ShipmentRecord[], status: OrderStatus = 'paid') => {
+    const latest = [...shipments].reverse().find(shipment => shipment.tracking_number)
+    mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: shipments })
+    mock.respond(ORDER_TABLES.ORDERS, {
+      data: { id: 'order-1', status, tracking_number: latest?.tracking_number ?? null, carrier: latest?.carrier ?? null },
+    })
+  }
+
+  beforeEach(() => {
+    mock = createMockSupabase()
+    postnl = createMockCarrierAdapter('postnl')
+    sendOrderEmails = vi.fn().mockResolvedValue({ orderId: 'order-1', emailsSent: true, log: [] })
+    service = new ShipmentServiceImpl(
+      mock.client,
+      { postnl, dhl: createMockCarrierAdapter('dhl'), other: createUntrackedCarrierAdapter('other') },
+      { sendOrderEmails } as unknown as OrderEmailService
+    )
+  })
+
+  describe('createShipment', () => {
+    it('should register every parcel, mark the order shipped and email the customer', async () => {
+      const parcels = [
+        makeShipment({ id: 'shipment-1', tracking_number: '3SABCD123' }),
+        makeShipment({ id: 'shipment-2', tracking_number: '3SABCD456', weight_kg: 0.8 }),
+      ]
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('paid') })
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: parcels })
+      respondWithSync(parcels)
+      mock.respond(
+        ORDER_TABLES.ORDERS,
+        { data: { id: 'order-1', status: 'paid' } },
+        { data: [{ id: 'order-1', status: 'shipped', updated_at: '2024-03-01T10:00:00Z' }] }
+      )
+
+      const result = await service.createShipment('order-1', {
+        carrier: 'postnl',
+        shippedAt: '2024-03-01',
+        parcels: [{ trackingNumber: ' 3sabcd 123 ', weightKg: 1.2 }, { trackingNumber: '3SABCD456', weightKg: 0.8 }],
+        notifyCustomer: true,
+      }, actor)
+
+      const [inserted] = mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'insert')[0].args
+      expect(inserted).toEqual([
+        expect.objectContaining({ carrier: 'postnl', tracking_number: '3SABCD123', weight_kg: 1.2, shipped_at: '2024-03-01' }),
+        expect.objectContaining({ carrier: 'postnl', tracking_number: '3SABCD456', weight_kg: 0.8, created_by: 'admin-1' }),
+      ])
+
+      const [orderUpdate] = mock.callsFor(ORDER_TABLES.ORDERS, 'update')[0].args
+      expect(orderUpdate).toMatchObject({ tracking_number: '3SABCD456', carrier: 'postnl' })
+
+      const [history] = mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY, 'insert')[0].args
+      expect(history).toMatchObject({ from_status: 'paid', to_status: 'shipped', note: 'Shipped 2 parcels with PostNL' })
+
+      expect(result.order).toEqual({ id: 'order-1', status: 'shipped', tracking_number: '3SABCD456', carrier: 'postnl' })
+      expect(result.shipments).toHaveLength(2)
+      expect(result.emailSent).toBe(true)
+      expect(sendOrderEmails).toHaveBeenCalledWith('order-1', { templates: ['order_shipped'], sentBy: 'admin-1' })
+    })
+
+    it('should add parcels to a shipped order without changing its status or emailing', async () => {
+      const parcels = [makeShipment()]
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('shipped') })
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: parcels })
+      respondWithSync(parcels, 'shipped')
+
+      const result = await service.createShipment('order-1', {
+        carrier: 'postnl',
+        parcels: [{ weightKg: 1.2 }],
+        notifyCustomer: false,
+      }, actor)
+
+      expect(mock.callsFor(ORDER_TABLES.ORDER_STATUS_HISTORY)).toHaveLength(0)
+      expect(result.order).toMatchObject({ status: 'shipped', tracking_number: null })
+      expect(result.emailSent).toBeNull()
+      expect(sendOrderEmails).not.toHaveBeenCalled()
+    })
+
+    it('should keep the parcels when the shipped email fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const parcels = [makeShipment({ tracking_number: '3SABCD123' })]
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('shipped') })
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: parcels })
+      respondWithSync(parcels, 'shipped')
+      sendOrderEmails.mockRejectedValueOnce(new Error('Connection refused'))
+
+      const result = await service.createShipment('order-1', {
+        carrier: 'postnl',
+        parcels: [{ trackingNumber: '3SABCD123' }],
+        notifyCustomer: true,
+      }, actor)
+
+      expect(result.emailSent).toBe(false)
+      expect(result.shipments).toHaveLength(1)
+      consoleSpy.mockRestore()
+    })
+
+    it.each<OrderStatus>(['pending', 'cancelled', 'refunded'])('should not ship %s orders', async status => {
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder(status) })
+
+      await expect(service.createShipment('order-1', {
+        carrier: 'dhl',
+        parcels: [{ trackingNumber: 'JVGL0123456789' }],
+        notifyCustomer: true,
+      }, actor)).rejects.toMatchObject({ type: 'shipment_not_allowed' })
+      expect(mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'insert')).toHaveLength(0)
+    })
+
+    it('should validate carrier, parcels, tracking numbers and weights before touching the database', async () => {
+      const attempts = [
+        { carrier: 'ups', parcels: [{}] },
+        { carrier: 'postnl', parcels: [] },
+        { carrier: 'postnl', parcels: [{ trackingNumber: 'not valid!' }] },
+        { carrier: 'postnl', parcels: [{ trackingNumber: 'ABC123' }, { trackingNumber: 'abc123' }] },
+        { carrier: 'postnl', parcels: [{ weightKg: -1 }] },
+        { carrier: 'postnl', parcels: [{}], shippedAt: 'yesterday' },
+      ]
+
+      for (const attempt of attempts) {
+        const error = await service.createShipment('order-1', { notifyCustomer: false, ...attempt } as any, actor).catch(e => e)
+        expect(isShipmentError(error) && error.type).toBe('invalid_shipment')
+      }
+      expect(mock.calls).toHaveLength(0)
+    })
+  })
+
+  describe('updateShipment', () => {
+    it('should add a tracking number, reset the cached status and audit the change', async () => {
+      service = new ShipmentServiceImpl(
+        mock.client,
+        { postnl, dhl: postnl, other: postnl },
+        { sendOrderEmails } as unknown as OrderEmailService,
+        createAuditService(mock.client)
+      )
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: makeShipment({ tracking_status: 'unknown' }) }, { data: null })
+      respondWithSync([makeShipment({ tracking_number: '3SABCD123' })], 'shipped')
+
+      const result = await service.updateShipment('order-1', 'shipment-1', { trackingNumber: '3sabcd123', notifyCustomer: true }, actor)
+
+      const [update] = mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'update')[0].args
+      expect(update).toMatchObject({ tracking_number: '3SABCD123', tracking_status: null, tracking_checked_at: null })
+      expect(result.order.tracking_number).toBe('3SABCD123')
+      expect(result.emailSent).toBe(true)
+
+      const [audit] = mock.callsFor(AUDIT_TABLES.AUDIT_LOG, 'insert')[0].args
+      expect(audit).toMatchObject({
+        action: 'order.shipment_updated',
+        changes: { tracking_number: { from: null, to: '3SABCD123' } },
+        metadata: { shipmentId: 'shipment-1' },
+      })
+    })
+
+    it('should throw shipment_not_found for a parcel of another order', async () => {
+      await expect(service.updateShipment('order-1', 'shipment-9', { trackingNumber: '3SABCD123' }, actor))
+        .rejects.toMatchObject({ type: 'shipment_not_found' })
+    })
+  })
+
+  describe('deleteShipment', () => {
+    it('should remove the parcel and clear the order tracking number', async () => {
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: makeShipment({ tracking_number: '3SABCD123' }) }, { data: null })
+      respondWithSync([], 'shipped')
+
+      const result = await service.deleteShipment('order-1', 'shipment-1', actor)
+
+      expect(mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'delete')).toHaveLength(1)
+      expect(mock.callsFor(ORDER_TABLES.ORDERS, 'update')[0].args[0]).toMatchObject({ tracking_number: null, carrier: null })
+      expect(result.order.status).toBe('shipped')
+    })
+  })
+
+  describe('refreshTracking', () => {
+    it('should look up the parcel with the carrier and store the status', async () => {
+      postnl.setTracking('3SABCD123', { status: 'delivered', description: 'Delivered at neighbour', updatedAt: '2024-03-02T12:00:00Z' })
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: makeShipment({ tracking_number: '3SABCD123' }) })
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('shipped') })
+
+      const shipment = await service.refreshTracking('order-1', 'shipment-1')
+
+      expect(postnl.lookups).toEqual([{ trackingNumber: '3SABCD123', postalCode: '3511 AA', country: 'NL' }])
+      expect(shipment).toMatchObject({ tracking_status: 'delivered', tracking_description: 'Delivered at neighbour' })
+      expect(mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'update')[0].args[0]).toMatchObject({ tracking_status: 'delivered' })
+    })
+
+    it('should not look up parcels without a tracking number', async () => {
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: makeShipment() })
+
+      await expect(service.refreshTracking('order-1', 'shipment-1')).rejects.toMatchObject({ type: 'shipment_not_allowed' })
+      expect(postnl.lookups).toHaveLength(0)
+    })
+
+    it('should report carrier failures without storing anything', async () => {
+      postnl.failNext('Service unavailable')
+      mock.respond(SHIPMENT_TABLES.SHIPMENTS, { data: makeShipment({ tracking_number: '3SABCD123' }) })
+      mock.respond(ORDER_TABLES.ORDERS, { data: makeOrder('shipped') })
+
+      await expect(service.refreshTracking('order-1', 'shipment-1')).rejects.toMatchObject({ type: 'carrier_error' })
+      expect(mock.callsFor(SHIPMENT_TABLES.SHIPMENTS, 'update')).toHaveLength(0)
+    })
+  })
+
+  describe('normalizeTrackingNumber', () => {
+    it('should strip spaces, upper-case and treat empty values as no tracking', () => {
+      expect(normalizeTrackingNumber(' 3s abc 123 ')).toBe('3SABC123')
+      expect(normalizeTrackingNumber('   ')).toBeNull()
+      expect(normalizeTrackingNumber(null)).toBeNull()
+    })
+  })
+})
+
+describe('getTrackingUrl', () => {
+  it('should build the full PostNL page when the destination is known', () => {
+    expect(getTrackingUrl('postnl', '3SABCD123', { customer_postal_code: '3511 aa', customer_country: 'nl' }))
+      .toBe('https://jouw.postnl.nl/track-and-trace/3SABCD123-NL-3511AA')
+    expect(getTrackingUrl('postnl', '3SABCD123', { customer_postal_code: '3511 AA', customer_country: 'Netherlands' }))
+      .toBe('https://jouw.postnl.nl/track-and-trace/3SABCD123')
+  })
+
+  it('should return null without a tracking page or number', () => {
+    expect(getTrackingUrl('other', 'ABC123')).toBeNull()
+    expect(getTrackingUrl('dhl', null)).toBeNull()
+    expect(getTrackingUrl('dhl', 'JVGL0123')).toContain('tracking-id=JVGL0123')
+  })
+})
+
+describe('getCarrierConfig', () => {
+  it('should default to the live carrier APIs and read the API keys', () => {
+    expect(getCarrierConfig({ POSTNL_API_KEY: 'pn-key' })).toMatchObject({
+      mode: 'live',
+      postnl: { apiKey: 'pn-key', apiUrl: 'https://api.postnl.nl/shipment/v2/status' },
+      dhl: { apiKey: undefined },
+    })
+  })
+
+  it('should reject unknown adapter modes', () => {
+    expect(() => getCarrierConfig({ CARRIER_ADAPTER: 'pigeon' })).toThrow('Unknown CARRIER_ADAPTER: pigeon')
+  })
+})
@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService } from '../types/services'
+import type {
+  AuditChanges,
+  AuditEntityType,
+  AuditEntriesOptions,
+  AuditEntryInput,
+  AuditLogRecord,
+  AuditRevision,
+  AuditSnapshot
+} from '../types/audit'
+import { AUDIT_TABLES } from '../constants/api'
+
+/**
+ * Audit Service Implementation
+ * Records who changed what on orders and products in the audit_log table
+ */
+export class AuditServiceImpl implements AuditService {
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  /**
+   * Records an audit entry for a mutation
+   */
+  async record(entry: AuditEntryInput): Promise<void> {
+    const record: AuditLogRecord = {
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      action: entry.action,
+      actor_id: entry.actor.id,
+      actor_email: entry.actor.email,
+      changes: entry.changes || null,
+      metadata: entry.metadata || null,
+      // Left out otherwise, so entries of entities without revisions don't need the column
+      ...(entry.snapshot ? { snapshot: entry.snapshot } : {}),
+    }
+
+    const { error } = await this.supabase
+      .from(AUDIT_TABLES.AUDIT_LOG)
+      .insert(record)
+
+    if (error) {
+      // Don't throw - a failed audit write shouldn't undo a completed mutation
+      console.error('[AuditService] Failed to record audit entry:', error)
+    }
+  }
+
+  /**
+   * Gets the audit entries for an entity, newest first
+   */
+  async getEntries(entityType: AuditEntityType, entityId: string, options: AuditEntriesOptions = {}): Promise<AuditLogRecord[]> {
+    let query = this.supabase
+      .from(AUDIT_TABLES.AUDIT_LOG)
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+
+    if (options.revisionsOnly) {
+      query = query.not('snapshot', 'is', null)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[AuditService] Failed to fetch audit entries:', error)
+      return []
+    }
+
+    return (data || []) as AuditLogRecord[]
+  }
+}
+
+/**
+ * Builds a field-level diff between two records, limited to the given fields
+ */
+export function diffFields<T extends Record<string, any>>(
+  before: Partial<T>,
+  after: Partial<T>,
+  fields: (keyof T)[]
+): AuditChanges {
+  const changes: AuditChanges = {}
+
+  fields.forEach(field => {
+    if (!(field in after)) return
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field as string] = { from: before[field] ?? null, to: after[field] ?? null }
+    }
+  })
+
+  return changes
+}
+
+/**
+ * Reads an audit entry with a snapshot as a revision
+ */
+export function toRevision<T extends AuditSnapshot>(entry: AuditLogRecord): AuditRevision<T> {
+  return {
+    id: entry.id!,
+    action: entry.action,
+    actorEmail: entry.actor_email,
+    createdAt: entry.created_at!,
+    changedFields: Object.keys(entry.changes || {}),
+    snapshot: (entry.snapshot || {}) as T,
+    restoredFrom: entry.metadata?.restoredFrom ?? null,
+  }
+}
+
+/**
+ * Factory function to create AuditService instance
+ */
+export function createAuditService(supabase: SupabaseClient): AuditService {
+  return new AuditServiceImpl(supabase)
+}
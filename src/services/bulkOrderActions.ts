@@ -0,0 +1,165 @@
+import { format } from 'date-fns'
+import type { BulkOrderAction, BulkOrderItemResult, BulkOrderProgress, Order, OrderStatus } from '../types/orders'
+import { API_ROUTES } from '../constants/api'
+import { BULK_ORDER_CONCURRENCY, ORDER_CSV_COLUMNS } from '../constants/orders'
+import { apiRequest, downloadFile, saveFile } from '../utils/apiClient'
+import { toCsv } from '../utils/csv'
+import { getOrderCurrency } from '../utils/currency'
+
+/**
+ * Bulk order actions (client-side)
+ *
+ * Runs an action over the selected orders through the same API routes as the
+ * single-order controls, so every order goes through the server's validation,
+ * permission checks and audit trail. A failing order is reported with the
+ * API's reason and doesn't stop the rest of the batch.
+ */
+
+export type BulkOrderTask = (order: Order) => Promise<void>
+
+export type BatchOrderTask = (orders: Order[]) => Promise<void>
+
+type ProgressListener = (progress: BulkOrderProgress) => void
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function summarize(action: BulkOrderAction, results: BulkOrderItemResult[], done: boolean): BulkOrderProgress {
+  const succeeded = results.filter(result => result.status === 'succeeded').length
+  const failed = results.filter(result => result.status === 'failed').length
+
+  return {
+    action,
+    total: results.length,
+    completed: succeeded + failed,
+    succeeded,
+    failed,
+    results: [...results],
+    done,
+  }
+}
+
+function pendingResults(orders: Order[]): BulkOrderItemResult[] {
+  return orders.map(order => ({ orderId: order.id, orderNumber: order.order_number, status: 'pending' }))
+}
+
+/**
+ * Runs a task for every order, a few at a time, and reports progress after each order
+ */
+export async function runBulkOrderAction(
+  action: BulkOrderAction,
+  orders: Order[],
+  task: BulkOrderTask,
+  onProgress?: ProgressListener,
+  concurrency: number = BULK_ORDER_CONCURRENCY
+): Promise<BulkOrderProgress> {
+  const results = pendingResults(orders)
+  let cursor = 0
+
+  onProgress?.(summarize(action, results, false))
+
+  const worker = async () => {
+    while (cursor < orders.length) {
+      const index = cursor++
+      const order = orders[index]
+
+      try {
+        await task(order)
+        results[index] = { ...results[index], status: 'succeeded' }
+      } catch (error) {
+        results[index] = { ...results[index], status: 'failed', error: toErrorMessage(error) }
+      }
+
+      onProgress?.(summarize(action, results, false))
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), orders.length) }, worker))
+
+  const progress = summarize(action, results, true)
+  onProgress?.(progress)
+  return progress
+}
+
+/**
+ * Runs a task that handles all orders in one request; they succeed or fail together
+ */
+export async function runBatchOrderAction(
+  action: BulkOrderAction,
+  orders: Order[],
+  task: BatchOrderTask,
+  onProgress?: ProgressListener
+): Promise<BulkOrderProgress> {
+  let results = pendingResults(orders)
+
+  onProgress?.(summarize(action, results, false))
+
+  try {
+    await task(orders)
+    results = results.map(result => ({ ...result, status: 'succeeded' }))
+  } catch (error) {
+    const message = toErrorMessage(error)
+    results = results.map(result => ({ ...result, status: 'failed', error: message }))
+  }
+
+  const progress = summarize(action, results, true)
+  onProgress?.(progress)
+  return progress
+}
+
+/**
+ * Moves an order to a new status via PATCH /api/orders/[id]
+ */
+export function changeOrderStatusTask(status: OrderStatus, note?: string): BulkOrderTask {
+  return async order => {
+    await apiRequest(API_ROUTES.ORDER(order.id), {
+      method: 'PATCH',
+      body: note ? { status, note } : { status },
+    })
+  }
+}
+
+/**
+ * Sends the order emails again via the send-emails route
+ */
+export const sendOrderEmailsTask: BulkOrderTask = async order => {
+  await apiRequest(API_ROUTES.ORDER_EMAILS, {
+    method: 'POST',
+    body: { orderId: order.id },
+  })
+}
+
+/**
+ * Builds the order CSV export
+ */
+export function ordersToCsv(orders: Order[]): string {
+  return toCsv(
+    ORDER_CSV_COLUMNS.map(column => column.header),
+    orders.map(order => ORDER_CSV_COLUMNS.map(column => {
+      const value = order[column.key]
+      if (column.key === 'total_amount' || column.key === 'refunded_amount') return Number(value || 0).toFixed(2)
+      if (column.key === 'currency') return getOrderCurrency(order)
+      if (column.key === 'emails_sent') return value ? 'yes' : 'no'
+      return value
+    }))
+  )
+}
+
+/**
+ * Saves the orders as a CSV file (with BOM, so Excel reads it as UTF-8)
+ */
+export const exportOrdersCsvTask: BatchOrderTask = async orders => {
+  const blob = new Blob(['\uFEFF' + ordersToCsv(orders)], { type: 'text/csv;charset=utf-8' })
+  saveFile(blob, `orders-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`)
+}
+
+/**
+ * Downloads the packing slips of the orders as one PDF
+ */
+export const printPackingSlipsTask: BatchOrderTask = async orders => {
+  await downloadFile(API_ROUTES.ORDER_DOCUMENTS_EXPORT, 'packing-slips.pdf', {
+    method: 'POST',
+    body: { orderIds: orders.map(order => order.id), type: 'packing_slip' },
+  })
+}
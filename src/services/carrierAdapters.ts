@@ -0,0 +1,209 @@
+import type {
+  CarrierAdapter,
+  CarrierAdapterMode,
+  CarrierAdapters,
+  CarrierCode,
+  CarrierConfig,
+  TrackingInfo,
+  TrackingLookup,
+  TrackingStatus
+} from '../types/shipments'
+import { DEFAULT_CARRIER_CONFIG } from '../constants/shipments'
+import { createShipmentError } from '../utils/typeGuards'
+
+/**
+ * Carrier adapters (server-side only)
+ *
+ * - postnl: PostNL Shipping Status API (barcode lookup)
+ * - dhl: DHL Shipment Tracking - Unified API
+ * - mock: answers from memory without calling a carrier (tests, local development)
+ */
+
+async function fetchCarrierJson(carrier: CarrierCode, url: string, headers: Record<string, string>): Promise<any> {
+  const response = await fetch(url, { headers: { Accept: 'application/json', ...headers } })
+  const body = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw createShipmentError('carrier_error', body?.detail || body?.title || `${carrier} tracking failed with status ${response.status}`, {
+      carrier,
+      status: response.status,
+    })
+  }
+
+  return body
+}
+
+// PostNL phases: 1 collection, 2 sorting, 3 distribution, 4 delivered
+const POSTNL_PHASES: Record<string, TrackingStatus> = {
+  '1': 'pre_transit',
+  '2': 'in_transit',
+  '3': 'out_for_delivery',
+  '4': 'delivered',
+}
+
+/**
+ * Tracks parcels through the PostNL Shipping Status API
+ */
+export function createPostNLCarrierAdapter(postnl: CarrierConfig['postnl']): CarrierAdapter {
+  return {
+    code: 'postnl',
+    async track(lookup: TrackingLookup): Promise<TrackingInfo> {
+      if (!postnl.apiKey) {
+        throw createShipmentError('configuration_error', 'POSTNL_API_KEY is not set')
+      }
+
+      const body = await fetchCarrierJson('postnl', `${postnl.apiUrl}/barcode/${encodeURIComponent(lookup.trackingNumber)}`, {
+        apikey: postnl.apiKey,
+      })
+
+      const shipment = [].concat(body?.CurrentStatus?.Shipment ?? [])[0] as any
+      const status = shipment?.Status
+
+      if (!status) {
+        return { status: 'unknown', description: null, updatedAt: null }
+      }
+
+      return {
+        status: POSTNL_PHASES[String(status.PhaseCode)] ?? 'unknown',
+        description: status.StatusDescription || status.PhaseDescription || null,
+        updatedAt: status.TimeStamp || null,
+      }
+    },
+  }
+}
+
+const DHL_STATUSES: Record<string, TrackingStatus> = {
+  'pre-transit': 'pre_transit',
+  transit: 'in_transit',
+  delivered: 'delivered',
+  failure: 'exception',
+}
+
+/**
+ * Tracks parcels through the DHL Shipment Tracking - Unified API
+ */
+export function createDHLCarrierAdapter(dhl: CarrierConfig['dhl']): CarrierAdapter {
+  return {
+    code: 'dhl',
+    async track(lookup: TrackingLookup): Promise<TrackingInfo> {
+      if (!dhl.apiKey) {
+        throw createShipmentError('configuration_error', 'DHL_API_KEY is not set')
+      }
+
+      const params = new URLSearchParams({ trackingNumber: lookup.trackingNumber })
+      if (lookup.postalCode) params.set('recipientPostalCode', lookup.postalCode.replace(/\s+/g, ''))
+
+      const body = await fetchCarrierJson('dhl', `${dhl.apiUrl}?${params.toString()}`, { 'DHL-API-Key': dhl.apiKey })
+      const status = body?.shipments?.[0]?.status
+
+      if (!status) {
+        return { status: 'unknown', description: null, updatedAt: null }
+      }
+
+      return {
+        status: DHL_STATUSES[status.statusCode] ?? 'unknown',
+        description: status.description || status.status || null,
+        updatedAt: status.timestamp || null,
+      }
+    },
+  }
+}
+
+/**
+ * Parcels of carriers without an integration can't be tracked automatically
+ */
+export function createUntrackedCarrierAdapter(code: CarrierCode): CarrierAdapter {
+  return {
+    code,
+    async track(): Promise<TrackingInfo> {
+      return { status: 'unknown', description: null, updatedAt: null }
+    },
+  }
+}
+
+export interface MockCarrierAdapter extends CarrierAdapter {
+  readonly lookups: TrackingLookup[]
+  /** Sets the answer for a tracking number; unknown numbers report in_transit */
+  setTracking(trackingNumber: string, info: TrackingInfo): void
+  /** Makes the next lookup fail with the given message */
+  failNext(message: string): void
+}
+
+/**
+ * Answers tracking lookups from memory; useful for asserting on lookups in tests
+ */
+export function createMockCarrierAdapter(code: CarrierCode): MockCarrierAdapter {
+  const lookups: TrackingLookup[] = []
+  const answers = new Map<string, TrackingInfo>()
+  let nextFailure: string | null = null
+
+  return {
+    code,
+    lookups,
+    setTracking(trackingNumber: string, info: TrackingInfo) {
+      answers.set(trackingNumber, info)
+    },
+    failNext(message: string) {
+      nextFailure = message
+    },
+    async track(lookup: TrackingLookup): Promise<TrackingInfo> {
+      lookups.push(lookup)
+
+      if (nextFailure) {
+        const message = nextFailure
+        nextFailure = null
+        throw createShipmentError('carrier_error', message, { carrier: code })
+      }
+
+      return answers.get(lookup.trackingNumber) ?? {
+        status: 'in_transit',
+        description: 'Parcel is on its way (mock)',
+        updatedAt: new Date().toISOString(),
+      }
+    },
+  }
+}
+
+const ADAPTER_MODES: CarrierAdapterMode[] = ['live', 'mock']
+
+/**
+ * Reads the carrier configuration from CARRIER_ADAPTER, POSTNL_* and DHL_* environment variables
+ */
+export function getCarrierConfig(env: Record<string, string | undefined> = process.env): CarrierConfig {
+  const mode = (env.CARRIER_ADAPTER || DEFAULT_CARRIER_CONFIG.mode) as CarrierAdapterMode
+
+  if (!ADAPTER_MODES.includes(mode)) {
+    throw createShipmentError('configuration_error', `Unknown CARRIER_ADAPTER: ${mode}`, { mode })
+  }
+
+  return {
+    mode,
+    postnl: {
+      apiKey: env.POSTNL_API_KEY,
+      apiUrl: env.POSTNL_API_URL || DEFAULT_CARRIER_CONFIG.postnl.apiUrl,
+    },
+    dhl: {
+      apiKey: env.DHL_API_KEY,
+      apiUrl: env.DHL_API_URL || DEFAULT_CARRIER_CONFIG.dhl.apiUrl,
+    },
+  }
+}
+
+/**
+ * Creates an adapter per carrier for the configured mode
+ */
+export function createCarrierAdapters(config: CarrierConfig): CarrierAdapters {
+  if (config.mode === 'mock') {
+    return {
+      postnl: createMockCarrierAdapter('postnl'),
+      dhl: createMockCarrierAdapter('dhl'),
+      other: createUntrackedCarrierAdapter('other'),
+    }
+  }
+
+  return {
+    postnl: createPostNLCarrierAdapter(config.postnl),
+    dhl: createDHLCarrierAdapter(config.dhl),
+    other: createUntrackedCarrierAdapter('other'),
+  }
+}
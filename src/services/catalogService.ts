@@ -0,0 +1,709 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, CatalogService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type {
+  CategoryDeleteResult,
+  CategoryInput,
+  CategoryRevenueReport,
+  CollectionInput,
+  ProductCategory,
+  ProductCollection,
+  ProductCollectionItem
+} from '../types/catalog'
+import type { Order, OrderItem } from '../types/orders'
+import type { RefundLineRecord, RefundRecord } from '../types/refunds'
+import { DATABASE } from '../constants/auth'
+import { ORDER_TABLES, PAID_ORDER_STATUSES } from '../constants/orders'
+import { PRODUCT_TABLES } from '../constants/products'
+import { REFUND_TABLES } from '../constants/refunds'
+import { CATALOG_TABLES, CATALOG_VALIDATION } from '../constants/catalog'
+import { createCatalogError, createOrderError, createProductError } from '../utils/typeGuards'
+import { getOrderCurrency, sumByCurrency } from '../utils/currency'
+import {
+  getCategoryDepth,
+  getCategoryWithDescendants,
+  summarizeCategoryRevenue,
+  uniqueSlug,
+  type ProductSale
+} from '../utils/catalog'
+import { diffFields } from './auditService'
+
+// Order columns needed for the revenue per category, with the refunded lines
+const REVENUE_ORDER_COLUMNS =
+  `id, currency, items:${ORDER_TABLES.ORDER_ITEMS}(product_id, quantity, price), ` +
+  `refunds:${REFUND_TABLES.REFUNDS}(status, lines:${REFUND_TABLES.REFUND_LINES}(product_id, quantity, amount))`
+
+interface RevenueOrder {
+  id: string
+  currency: Order['currency']
+  items: Pick<OrderItem, 'product_id' | 'quantity' | 'price'>[] | null
+  refunds: (Pick<RefundRecord, 'status'> & { lines: Pick<RefundLineRecord, 'product_id' | 'quantity' | 'amount'>[] | null })[] | null
+}
+
+type CollectionRow = ProductCollection & { items?: Pick<ProductCollectionItem, 'product_id' | 'position'>[] | null }
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Collection with its product IDs in curated order instead of the joined item rows
+function toCollection({ items, ...collection }: CollectionRow): ProductCollection {
+  return {
+    ...collection,
+    product_ids: [...(items || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(item => item.product_id),
+  }
+}
+
+/**
+ * Catalog Service Implementation
+ *
+ * Categorisation of the products:
+ * - A category taxonomy; categories nest under a parent, without cycles and up to a maximum depth
+ * - Curated collections whose products keep the order an editor gave them
+ * - Revenue per category, net of refunds and rolled up through the taxonomy
+ *
+ * Tags are free-form and stored on the product itself, so they go through the product service.
+ */
+export class CatalogServiceImpl implements CatalogService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Validates a create or update category payload
+   */
+  validateCategoryInput(payload: unknown, partial: boolean = false): Partial<CategoryInput> {
+    if (!isObject(payload)) {
+      throw createCatalogError('invalid_category', 'Request body must be an object')
+    }
+
+    const input: Partial<CategoryInput> = {}
+
+    if (payload.name !== undefined || !partial) {
+      const name = typeof payload.name === 'string' ? payload.name.trim() : ''
+      if (!name) throw createCatalogError('invalid_category', 'Category name is required', { field: 'name' })
+      if (name.length > CATALOG_VALIDATION.NAME_MAX_LENGTH) throw createCatalogError('invalid_category', 'Category name is too long', { field: 'name' })
+      input.name = name
+    }
+
+    if (payload.parent_id !== undefined) {
+      if (payload.parent_id !== null && (typeof payload.parent_id !== 'string' || !payload.parent_id)) {
+        throw createCatalogError('invalid_category', 'parent_id must be a category ID or null', { field: 'parent_id' })
+      }
+      input.parent_id = payload.parent_id as string | null
+    } else if (!partial) {
+      input.parent_id = null
+    }
+
+    if (partial && Object.keys(input).length === 0) {
+      throw createCatalogError('invalid_category', 'No fields to update')
+    }
+
+    return input
+  }
+
+  /**
+   * Validates a create or update collection payload
+   */
+  validateCollectionInput(payload: unknown, partial: boolean = false): Partial<CollectionInput> {
+    if (!isObject(payload)) {
+      throw createCatalogError('invalid_collection', 'Request body must be an object')
+    }
+
+    const input: Partial<CollectionInput> = {}
+
+    if (payload.name !== undefined || !partial) {
+      const name = typeof payload.name === 'string' ? payload.name.trim() : ''
+      if (!name) throw createCatalogError('invalid_collection', 'Collection name is required', { field: 'name' })
+      if (name.length > CATALOG_VALIDATION.NAME_MAX_LENGTH) throw createCatalogError('invalid_collection', 'Collection name is too long', { field: 'name' })
+      input.name = name
+    }
+
+    if (payload.description !== undefined && payload.description !== null) {
+      if (typeof payload.description !== 'string') {
+        throw createCatalogError('invalid_collection', 'Description must be text', { field: 'description' })
+      }
+      if (payload.description.length > CATALOG_VALIDATION.DESCRIPTION_MAX_LENGTH) {
+        throw createCatalogError('invalid_collection', 'Description is too long', { field: 'description' })
+      }
+      input.description = payload.description.trim() || null
+    } else if (payload.description === null || !partial) {
+      input.description = null
+    }
+
+    if (partial && Object.keys(input).length === 0) {
+      throw createCatalogError('invalid_collection', 'No fields to update')
+    }
+
+    return input
+  }
+
+  /**
+   * Validates the curated product order of a collection: { productIds: [...] }
+   */
+  validateProductOrder(payload: unknown): string[] {
+    const productIds = isObject(payload) ? payload.productIds : undefined
+
+    if (!Array.isArray(productIds) || productIds.some(id => typeof id !== 'string' || !id)) {
+      throw createCatalogError('invalid_collection', 'productIds must be a list of product IDs', { field: 'productIds' })
+    }
+    if (productIds.length > CATALOG_VALIDATION.MAX_COLLECTION_PRODUCTS) {
+      throw createCatalogError('invalid_collection', 'Too many products in the collection', { field: 'productIds' })
+    }
+    if (new Set(productIds).size !== productIds.length) {
+      throw createCatalogError('invalid_collection', 'A product is listed twice', { field: 'productIds' })
+    }
+
+    return productIds as string[]
+  }
+
+  /**
+   * Gets all categories; buildCategoryTree() nests them
+   */
+  async getCategories(): Promise<ProductCategory[]> {
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.CATEGORIES)
+      .select('*')
+      .order('name', { ascending: true })
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    return (data || []) as ProductCategory[]
+  }
+
+  /**
+   * Creates a category under an existing parent, or at the top level
+   */
+  async createCategory(input: CategoryInput, actor: AuditActor): Promise<ProductCategory> {
+    const categories = await this.getCategories()
+    this.checkCategoryPlacement(categories, null, input.name, input.parent_id)
+
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.CATEGORIES)
+      .insert({
+        name: input.name,
+        slug: uniqueSlug(input.name, categories.map(category => category.slug)),
+        parent_id: input.parent_id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    const created = data as ProductCategory
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'category',
+        entityId: created.id,
+        action: 'category.created',
+        actor,
+        changes: diffFields<CategoryInput>({}, input, ['name', 'parent_id']),
+      })
+    }
+
+    return created
+  }
+
+  /**
+   * Renames a category or moves it (with its subcategories) under another parent. The slug
+   * stays the same, so links to the category keep working.
+   */
+  async updateCategory(categoryId: string, changes: Partial<CategoryInput>, actor: AuditActor): Promise<ProductCategory> {
+    const categories = await this.getCategories()
+    const existing = categories.find(category => category.id === categoryId)
+
+    if (!existing) {
+      throw createCatalogError('category_not_found', 'Category not found', { categoryId })
+    }
+
+    const name = changes.name ?? existing.name
+    const parentId = changes.parent_id !== undefined ? changes.parent_id : existing.parent_id
+    this.checkCategoryPlacement(categories, categoryId, name, parentId)
+
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.CATEGORIES)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', categoryId)
+      .select()
+      .single()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { categoryId })
+    }
+
+    const fieldChanges = diffFields<CategoryInput>(existing, changes, ['name', 'parent_id'])
+
+    if (this.audit && Object.keys(fieldChanges).length > 0) {
+      await this.audit.record({
+        entityType: 'category',
+        entityId: categoryId,
+        action: 'category.updated',
+        actor,
+        changes: fieldChanges,
+      })
+    }
+
+    return data as ProductCategory
+  }
+
+  /**
+   * Deletes a category without subcategories; its products move to the parent category
+   * @throws CatalogError 'category_not_allowed' while the category has subcategories
+   */
+  async deleteCategory(categoryId: string, actor: AuditActor): Promise<CategoryDeleteResult> {
+    const categories = await this.getCategories()
+    const existing = categories.find(category => category.id === categoryId)
+
+    if (!existing) {
+      throw createCatalogError('category_not_found', 'Category not found', { categoryId })
+    }
+
+    if (categories.some(category => category.parent_id === categoryId)) {
+      throw createCatalogError('category_not_allowed', `Move or delete the subcategories of ${existing.name} first`, { categoryId })
+    }
+
+    const { data: moved, error: moveError } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .update({ category_id: existing.parent_id, updated_at: new Date().toISOString() })
+      .eq('category_id', categoryId)
+      .select('id')
+
+    if (moveError) {
+      throw createProductError('database_error', moveError.message, { categoryId })
+    }
+
+    const { error } = await this.supabase
+      .from(CATALOG_TABLES.CATEGORIES)
+      .delete()
+      .eq('id', categoryId)
+
+    if (error) {
+      throw createProductError('database_error', error.message, { categoryId })
+    }
+
+    const result: CategoryDeleteResult = {
+      categoryId,
+      movedProducts: (moved || []).length,
+      parentId: existing.parent_id,
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'category',
+        entityId: categoryId,
+        action: 'category.deleted',
+        actor,
+        metadata: { name: existing.name, movedProducts: result.movedProducts, movedTo: result.parentId },
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Gets all collections with their products in curated order
+   */
+  async getCollections(): Promise<ProductCollection[]> {
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.COLLECTIONS)
+      .select(`*, items:${CATALOG_TABLES.COLLECTION_ITEMS}(product_id, position)`)
+      .order('name', { ascending: true })
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    return ((data || []) as CollectionRow[]).map(toCollection)
+  }
+
+  /**
+   * Creates an empty collection
+   */
+  async createCollection(input: CollectionInput, actor: AuditActor): Promise<ProductCollection> {
+    const collections = await this.getCollections()
+    this.checkCollectionName(collections, null, input.name)
+
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.COLLECTIONS)
+      .insert({
+        name: input.name,
+        slug: uniqueSlug(input.name, collections.map(collection => collection.slug)),
+        description: input.description,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    const created = data as ProductCollection
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'collection',
+        entityId: created.id,
+        action: 'collection.created',
+        actor,
+        changes: diffFields<CollectionInput>({}, input, ['name', 'description']),
+      })
+    }
+
+    return { ...created, product_ids: [] }
+  }
+
+  /**
+   * Renames a collection or changes its description; the slug stays the same
+   */
+  async updateCollection(collectionId: string, changes: Partial<CollectionInput>, actor: AuditActor): Promise<ProductCollection> {
+    const collections = await this.getCollections()
+    const existing = this.findCollection(collections, collectionId)
+
+    if (changes.name !== undefined) {
+      this.checkCollectionName(collections, collectionId, changes.name)
+    }
+
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.COLLECTIONS)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', collectionId)
+      .select()
+      .single()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { collectionId })
+    }
+
+    const fieldChanges = diffFields<CollectionInput>(existing, changes, ['name', 'description'])
+
+    if (this.audit && Object.keys(fieldChanges).length > 0) {
+      await this.audit.record({
+        entityType: 'collection',
+        entityId: collectionId,
+        action: 'collection.updated',
+        actor,
+        changes: fieldChanges,
+      })
+    }
+
+    return { ...(data as ProductCollection), product_ids: existing.product_ids }
+  }
+
+  /**
+   * Deletes a collection; the products themselves stay
+   */
+  async deleteCollection(collectionId: string, actor: AuditActor): Promise<void> {
+    const existing = this.findCollection(await this.getCollections(), collectionId)
+
+    const { error: itemsError } = await this.supabase
+      .from(CATALOG_TABLES.COLLECTION_ITEMS)
+      .delete()
+      .eq('collection_id', collectionId)
+
+    if (itemsError) {
+      throw createProductError('database_error', itemsError.message, { collectionId })
+    }
+
+    const { error } = await this.supabase
+      .from(CATALOG_TABLES.COLLECTIONS)
+      .delete()
+      .eq('id', collectionId)
+
+    if (error) {
+      throw createProductError('database_error', error.message, { collectionId })
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'collection',
+        entityId: collectionId,
+        action: 'collection.deleted',
+        actor,
+        metadata: { name: existing.name, productIds: existing.product_ids },
+      })
+    }
+  }
+
+  /**
+   * Replaces the products of a collection with the given list, in that order
+   * @throws CatalogError 'collection_not_found', or 'invalid_collection' for unknown products
+   */
+  async setCollectionProducts(collectionId: string, productIds: string[], actor: AuditActor): Promise<ProductCollection> {
+    const existing = this.findCollection(await this.getCollections(), collectionId)
+
+    if (productIds.length > 0) {
+      const { data: products, error } = await this.supabase
+        .from(PRODUCT_TABLES.PRODUCTS)
+        .select('id')
+        .in('id', productIds)
+
+      if (error) {
+        throw createProductError('database_error', error.message, { collectionId })
+      }
+
+      const found = new Set(((products || []) as { id: string }[]).map(product => product.id))
+      const missing = productIds.filter(id => !found.has(id))
+      if (missing.length > 0) {
+        throw createCatalogError('invalid_collection', `Unknown products: ${missing.join(', ')}`, { field: 'productIds', productIds: missing })
+      }
+
+      const { error: upsertError } = await this.supabase
+        .from(CATALOG_TABLES.COLLECTION_ITEMS)
+        .upsert(
+          productIds.map((productId, position): ProductCollectionItem => ({ collection_id: collectionId, product_id: productId, position })),
+          { onConflict: 'collection_id,product_id' }
+        )
+
+      if (upsertError) {
+        throw createProductError('database_error', upsertError.message, { collectionId })
+      }
+    }
+
+    const removed = (existing.product_ids || []).filter(id => !productIds.includes(id))
+
+    if (removed.length > 0) {
+      const { error } = await this.supabase
+        .from(CATALOG_TABLES.COLLECTION_ITEMS)
+        .delete()
+        .eq('collection_id', collectionId)
+        .in('product_id', removed)
+
+      if (error) {
+        throw createProductError('database_error', error.message, { collectionId })
+      }
+    }
+
+    const changes = diffFields<{ product_ids: string[] }>({ product_ids: existing.product_ids || [] }, { product_ids: productIds }, ['product_ids'])
+
+    if (this.audit && Object.keys(changes).length > 0) {
+      await this.audit.record({
+        entityType: 'collection',
+        entityId: collectionId,
+        action: 'collection.updated',
+        actor,
+        changes,
+      })
+    }
+
+    return { ...existing, product_ids: productIds }
+  }
+
+  /**
+   * Gets the IDs of the collections a product is curated in
+   */
+  async getProductCollectionIds(productId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.COLLECTION_ITEMS)
+      .select('collection_id')
+      .eq('product_id', productId)
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    return ((data || []) as Pick<ProductCollectionItem, 'collection_id'>[]).map(item => item.collection_id)
+  }
+
+  /**
+   * Puts a product in exactly these collections. Collections it joins get it at the end;
+   * its place in the collections it stays in doesn't change.
+   */
+  async setProductCollections(productId: string, collectionIds: string[]): Promise<string[]> {
+    const current = await this.getProductCollectionIds(productId)
+    const added = collectionIds.filter(id => !current.includes(id))
+    const removed = current.filter(id => !collectionIds.includes(id))
+
+    if (removed.length > 0) {
+      const { error } = await this.supabase
+        .from(CATALOG_TABLES.COLLECTION_ITEMS)
+        .delete()
+        .eq('product_id', productId)
+        .in('collection_id', removed)
+
+      if (error) {
+        throw createProductError('database_error', error.message, { productId })
+      }
+    }
+
+    if (added.length > 0) {
+      const { data: items, error: itemsError } = await this.supabase
+        .from(CATALOG_TABLES.COLLECTION_ITEMS)
+        .select('collection_id, position')
+        .in('collection_id', added)
+
+      if (itemsError) {
+        throw createProductError('database_error', itemsError.message, { productId })
+      }
+
+      const nextPosition = (collectionId: string) => ((items || []) as Omit<ProductCollectionItem, 'product_id'>[])
+        .filter(item => item.collection_id === collectionId)
+        .reduce((max, item) => Math.max(max, item.position + 1), 0)
+
+      const { error } = await this.supabase
+        .from(CATALOG_TABLES.COLLECTION_ITEMS)
+        .insert(added.map((collectionId): ProductCollectionItem => ({
+          collection_id: collectionId,
+          product_id: productId,
+          position: nextPosition(collectionId),
+        })))
+
+      if (error) {
+        throw createProductError('database_error', error.message, { productId })
+      }
+    }
+
+    return [...current.filter(id => collectionIds.includes(id)), ...added]
+  }
+
+  /**
+   * Revenue of paid orders per category, net of refunds and per currency. Products count
+   * towards the category they are in now.
+   * @param since - Only orders placed from this moment; null for all time
+   */
+  async getCategoryRevenue(since: string | null): Promise<CategoryRevenueReport> {
+    const orders = await this.fetchRevenueOrders(since)
+    const categories = await this.getCategories()
+
+    const { data: products, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('id, category_id')
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    const productCategories = new Map(
+      ((products || []) as { id: string; category_id: string | null }[]).map(product => [product.id, product.category_id])
+    )
+
+    const sales: ProductSale[] = orders.flatMap(order => {
+      const currency = getOrderCurrency(order)
+
+      return [
+        ...(order.items || []).map(item => ({
+          productId: item.product_id,
+          amount: Number(item.price) * Number(item.quantity),
+          currency,
+          quantity: Number(item.quantity),
+        })),
+        // A failed refund keeps its lines, but no money went back
+        ...(order.refunds || []).filter(refund => refund.status !== 'failed').flatMap(refund => (refund.lines || []).map(line => ({
+          productId: line.product_id,
+          amount: -Number(line.amount),
+          currency,
+          quantity: -Number(line.quantity),
+        }))),
+      ]
+    })
+
+    const rows = summarizeCategoryRevenue(categories, productCategories, sales)
+
+    return {
+      since,
+      orderCount: orders.length,
+      total: sumByCurrency(sales),
+      rows,
+    }
+  }
+
+  // A parent must exist and may not be the category itself or one of its subcategories;
+  // names are unique among siblings
+  private checkCategoryPlacement(categories: ProductCategory[], categoryId: string | null, name: string, parentId: string | null): void {
+    if (parentId) {
+      if (!categories.some(category => category.id === parentId)) {
+        throw createCatalogError('invalid_category', 'Parent category not found', { field: 'parent_id' })
+      }
+
+      if (categoryId && getCategoryWithDescendants(categories, categoryId).has(parentId)) {
+        throw createCatalogError('category_not_allowed', 'A category cannot be moved under itself or one of its subcategories', { field: 'parent_id' })
+      }
+
+      // Levels below the moved category come along
+      const subtreeDepth = categoryId
+        ? Math.max(...Array.from(getCategoryWithDescendants(categories, categoryId)).map(id => getCategoryDepth(categories, id))) - getCategoryDepth(categories, categoryId)
+        : 0
+
+      if (getCategoryDepth(categories, parentId) + 1 + subtreeDepth > CATALOG_VALIDATION.MAX_CATEGORY_DEPTH) {
+        throw createCatalogError('category_not_allowed', `Categories can be nested at most ${CATALOG_VALIDATION.MAX_CATEGORY_DEPTH} levels deep`, { field: 'parent_id' })
+      }
+    }
+
+    const sibling = categories.find(category =>
+      category.id !== categoryId && (category.parent_id ?? null) === parentId && sameName(category.name, name)
+    )
+    if (sibling) {
+      throw createCatalogError('invalid_category', `There already is a category named ${sibling.name} here`, { field: 'name' })
+    }
+  }
+
+  private checkCollectionName(collections: ProductCollection[], collectionId: string | null, name: string): void {
+    const duplicate = collections.find(collection => collection.id !== collectionId && sameName(collection.name, name))
+
+    if (duplicate) {
+      throw createCatalogError('invalid_collection', `There already is a collection named ${duplicate.name}`, { field: 'name' })
+    }
+  }
+
+  private findCollection(collections: ProductCollection[], collectionId: string): ProductCollection {
+    const collection = collections.find(candidate => candidate.id === collectionId)
+
+    if (!collection) {
+      throw createCatalogError('collection_not_found', 'Collection not found', { collectionId })
+    }
+
+    return collection
+  }
+
+  // Paid orders with their items and refunded lines, in chunks of the maximum query size
+  private async fetchRevenueOrders(since: string | null): Promise<RevenueOrder[]> {
+    const orders: RevenueOrder[] = []
+    const chunkSize = DATABASE.MAX_QUERY_LIMIT
+
+    for (let from = 0; ; from += chunkSize) {
+      let query = this.supabase
+        .from(ORDER_TABLES.ORDERS)
+        .select(REVENUE_ORDER_COLUMNS)
+        .in('status', [...PAID_ORDER_STATUSES])
+
+      if (since) {
+        query = query.gte('created_at', since)
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, from + chunkSize - 1)
+
+      if (error) {
+        throw createOrderError('database_error', error.message)
+      }
+
+      const chunk = (data || []) as unknown as RevenueOrder[]
+      orders.push(...chunk)
+
+      if (chunk.length < chunkSize) return orders
+    }
+  }
+}
+
+/**
+ * Factory function to create CatalogService instance
+ */
+export function createCatalogService(supabase: SupabaseClient, audit?: AuditService): CatalogService {
+  return new CatalogServiceImpl(supabase, audit)
+}
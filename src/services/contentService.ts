@@ -0,0 +1,596 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, ContentService } from '../types/services'
+import type { AuditActor, AuditLogRecord } from '../types/audit'
+import type {
+  ContentDraft,
+  ContentDraftStatus,
+  ContentPageDefinition,
+  ContentPageSlug,
+  ContentPageSnapshot,
+  ContentPublishResult,
+  ContentRevision,
+  ContentRevisionSnapshot,
+  ContentRollbackResult,
+  ContentSection,
+  SectionStyleType
+} from '../types/content'
+import { DATABASE } from '../constants/auth'
+import { CONTENT_PAGES, CONTENT_TABLES, CONTENT_VALIDATION, SECTION_FIELDS } from '../constants/content'
+import { createContentError, createOrderError, validateEmail } from '../utils/typeGuards'
+import { toRevision } from './auditService'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Content Service Implementation
+ *
+ * One editor for the section-based pages of the public site:
+ * - Which table and style types a page has comes from the CONTENT_PAGES registry
+ * - Edits are saved as drafts, submitted for review and published by an admin
+ * - Section content is validated for its style type when saved and again when it goes live
+ * - Every version that goes live is kept as an audit snapshot, so a section or a whole page can be put back
+ */
+export class ContentServiceImpl implements ContentService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Looks up a page in the registry
+   */
+  getPage(slug: string): ContentPageDefinition {
+    if (!Object.prototype.hasOwnProperty.call(CONTENT_PAGES, slug)) {
+      throw createContentError('content_page_not_found', 'Content page not found', { page: slug })
+    }
+
+    return CONTENT_PAGES[slug as ContentPageSlug]
+  }
+
+  /**
+   * Validates a draft payload: { content }
+   */
+  validateSectionInput(payload: unknown): { content: string } {
+    if (!isObject(payload) || typeof payload.content !== 'string') {
+      throw createContentError('invalid_content_section', 'content must be a string', { field: 'content' })
+    }
+
+    if (payload.content.length > CONTENT_VALIDATION.CONTENT_MAX_LENGTH) {
+      throw createContentError(
+        'invalid_content_section',
+        `Content must be at most ${CONTENT_VALIDATION.CONTENT_MAX_LENGTH} characters`,
+        { field: 'content' }
+      )
+    }
+
+    return { content: payload.content }
+  }
+
+  /**
+   * Validates a rejection payload: { note }, where the note is optional
+   */
+  validateReviewInput(payload: unknown): { note: string } {
+    const note = isObject(payload) ? payload.note ?? '' : undefined
+    if (typeof note !== 'string') {
+      throw createContentError('invalid_content_section', 'note must be a string', { field: 'note' })
+    }
+
+    if (note.trim().length > CONTENT_VALIDATION.REVIEW_NOTE_MAX_LENGTH) {
+      throw createContentError(
+        'invalid_content_section',
+        `The note must be at most ${CONTENT_VALIDATION.REVIEW_NOTE_MAX_LENGTH} characters`,
+        { field: 'note' }
+      )
+    }
+
+    return { note: note.trim() }
+  }
+
+  /**
+   * Validates the moment of a page snapshot: { at }, an ISO date that isn't in the future
+   */
+  validateSnapshotInput(payload: unknown): { at: string } {
+    const at = isObject(payload) && typeof payload.at === 'string' && payload.at ? new Date(payload.at) : null
+
+    if (!at || isNaN(at.getTime())) {
+      throw createContentError('invalid_content_section', 'at must be a date', { field: 'at' })
+    }
+    if (at.getTime() > Date.now()) {
+      throw createContentError('invalid_content_section', 'A page can only be rolled back to a moment in the past', { field: 'at' })
+    }
+
+    return { at: at.toISOString() }
+  }
+
+  /**
+   * Gets the sections of a page in the order the site shows them
+   */
+  async getSections(slug: string): Promise<ContentSection[]> {
+    const page = this.getPage(slug)
+
+    const { data, error } = await this.supabase
+      .from(page.table)
+      .select('*')
+      .order('order_number')
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug })
+    }
+
+    return (data || []) as ContentSection[]
+  }
+
+  /**
+   * Gets the unpublished drafts of a page's sections
+   */
+  async getDrafts(slug: string): Promise<ContentDraft[]> {
+    this.getPage(slug)
+
+    const { data, error } = await this.supabase
+      .from(CONTENT_TABLES.DRAFTS)
+      .select('*')
+      .eq('page', slug)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug })
+    }
+
+    return (data || []) as ContentDraft[]
+  }
+
+  /**
+   * Counts the drafts in review per page, for the badges in the content overview
+   */
+  async getPendingCounts(): Promise<Partial<Record<ContentPageSlug, number>>> {
+    const { data, error } = await this.supabase
+      .from(CONTENT_TABLES.DRAFTS)
+      .select('page')
+      .eq('status', 'in_review')
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    const counts: Partial<Record<ContentPageSlug, number>> = {}
+    ;((data || []) as Pick<ContentDraft, 'page'>[]).forEach(({ page }) => {
+      counts[page] = (counts[page] || 0) + 1
+    })
+    return counts
+  }
+
+  /**
+   * Saves the draft of a section, after checking it suits the section's style type; the live site is unchanged.
+   * With expectedUpdatedAt (null for a section without a draft), only while nobody else saved the draft since.
+   */
+  async saveDraft(
+    slug: string,
+    sectionId: string,
+    content: string,
+    actor: AuditActor,
+    expectedUpdatedAt?: string | null
+  ): Promise<ContentDraft> {
+    const page = this.getPage(slug)
+    const section = await this.getSection(page, slug, sectionId)
+    const value = this.checkContent(page, section, content)
+    const existing = await this.findDraft(slug, sectionId)
+    const now = new Date().toISOString()
+
+    if (expectedUpdatedAt !== undefined && (existing?.updated_at ?? null) !== expectedUpdatedAt) {
+      throw this.draftConflict(slug, sectionId, existing)
+    }
+
+    // Changing a draft in review takes it out of review
+    const changes = {
+      content: value,
+      status: 'draft' as ContentDraftStatus,
+      updated_by: actor.email,
+      submitted_by: null,
+      submitted_at: null,
+      updated_at: now,
+    }
+
+    // Only update if nobody saved the draft since it was read
+    const { data, error } = existing
+      ? await this.supabase
+        .from(CONTENT_TABLES.DRAFTS)
+        .update(changes)
+        .eq('id', existing.id)
+        .eq('updated_at', existing.updated_at)
+        .select()
+        .maybeSingle()
+      : await this.supabase
+        .from(CONTENT_TABLES.DRAFTS)
+        .insert({ ...changes, page: slug, section_id: sectionId, created_by: actor.email, review_note: null })
+        .select()
+        .single()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug, sectionId })
+    }
+    if (!data) {
+      throw this.draftConflict(slug, sectionId, await this.findDraft(slug, sectionId))
+    }
+
+    return data as ContentDraft
+  }
+
+  /**
+   * Throws away the draft of a section
+   */
+  async discardDraft(slug: string, sectionId: string): Promise<void> {
+    const draft = await this.getDraft(slug, sectionId)
+
+    const { error } = await this.supabase
+      .from(CONTENT_TABLES.DRAFTS)
+      .delete()
+      .eq('id', draft.id)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug, sectionId })
+    }
+  }
+
+  /**
+   * Submits the draft of a section for review by an admin
+   */
+  async submitDraft(slug: string, sectionId: string, actor: AuditActor): Promise<ContentDraft> {
+    const draft = await this.getDraft(slug, sectionId)
+
+    if (draft.status !== 'draft') {
+      throw createContentError('content_not_allowed', 'This draft is already in review', { page: slug, sectionId })
+    }
+
+    const now = new Date().toISOString()
+    const updated = await this.updateDraft(draft, {
+      status: 'in_review',
+      submitted_by: actor.email,
+      submitted_at: now,
+      review_note: null,
+      updated_at: now,
+    })
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'content_section',
+        entityId: sectionId,
+        action: 'content_section.submitted',
+        actor,
+        metadata: { page: slug },
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Sends a draft in review back to its author, with the reason
+   */
+  async rejectDraft(slug: string, sectionId: string, note: string, actor: AuditActor): Promise<ContentDraft> {
+    const draft = await this.getDraft(slug, sectionId)
+    const reviewNote = note.trim()
+
+    if (draft.status !== 'in_review') {
+      throw createContentError('content_not_allowed', 'Only drafts in review can be rejected', { page: slug, sectionId })
+    }
+
+    const updated = await this.updateDraft(draft, {
+      status: 'draft',
+      review_note: reviewNote || null,
+      updated_at: new Date().toISOString(),
+    })
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'content_section',
+        entityId: sectionId,
+        action: 'content_section.rejected',
+        actor,
+        metadata: { page: slug, note: reviewNote || null, author: draft.updated_by },
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Approves a draft in review: its content goes live and the draft is removed
+   */
+  async publishDraft(slug: string, sectionId: string, actor: AuditActor): Promise<ContentSection> {
+    const page = this.getPage(slug)
+    const draft = await this.getDraft(slug, sectionId)
+
+    if (draft.status !== 'in_review') {
+      throw createContentError('content_not_allowed', 'Submit the draft for review before publishing it', { page: slug, sectionId })
+    }
+
+    return this.publish(page, slug, draft, actor)
+  }
+
+  /**
+   * Publishes every draft in review on a page
+   */
+  async publishPage(slug: string, actor: AuditActor): Promise<ContentPublishResult> {
+    const page = this.getPage(slug)
+    const drafts = (await this.getDrafts(slug)).filter(draft => draft.status === 'in_review')
+
+    // One by one, so a draft that fails validation leaves the ones before it published
+    for (const draft of drafts) {
+      await this.publish(page, slug, draft, actor)
+    }
+
+    return { page: slug as ContentPageSlug, published: drafts.length }
+  }
+
+  /**
+   * Gets the published versions of a section, newest first
+   */
+  async getRevisions(slug: string, sectionId: string): Promise<ContentRevision[]> {
+    this.getPage(slug)
+    if (!this.audit) return []
+
+    const entries = await this.audit.getEntries('content_section', sectionId, { revisionsOnly: true })
+    return entries.map(entry => toRevision<ContentRevisionSnapshot>(entry))
+  }
+
+  /**
+   * Puts the content of an earlier version live again, as a new version
+   */
+  async restoreRevision(slug: string, sectionId: string, revisionId: string, actor: AuditActor): Promise<ContentSection> {
+    const page = this.getPage(slug)
+    const revision = (await this.getRevisions(slug, sectionId)).find(candidate => candidate.id === revisionId)
+
+    if (!revision) {
+      throw createContentError('content_revision_not_found', 'Version not found', { page: slug, sectionId, revisionId })
+    }
+
+    const existing = await this.getSection(page, slug, sectionId)
+    const value = this.checkContent(page, existing, revision.snapshot.content)
+
+    return this.goLive(page, slug, existing, value, actor, 'content_section.restored', actor.email, { restoredFrom: revision.id })
+  }
+
+  /**
+   * Shows every section of a page as it was at the given moment
+   */
+  async getPageSnapshot(slug: string, at: string): Promise<ContentPageSnapshot> {
+    const sections = await this.getSections(slug)
+    const time = new Date(at).getTime()
+
+    const snapshotSections = await Promise.all(sections.map(async section => {
+      const entries = this.audit ? await this.audit.getEntries('content_section', section.id, { revisionsOnly: true }) : []
+      const content = contentAt(entries, time) ?? section.content
+      return { section, content, changed: content !== section.content }
+    }))
+
+    return { page: slug as ContentPageSlug, at, sections: snapshotSections }
+  }
+
+  /**
+   * Rolls a page back to how it looked at the given moment; each section that differs gets a new version
+   */
+  async rollbackPage(slug: string, at: string, actor: AuditActor): Promise<ContentRollbackResult> {
+    const page = this.getPage(slug)
+    const snapshot = await this.getPageSnapshot(slug, at)
+    const changed = snapshot.sections.filter(entry => entry.changed)
+
+    // One by one, like publishing a page; drafts of the sections are left alone
+    for (const { section, content } of changed) {
+      const value = this.checkContent(page, section, content)
+      await this.goLive(page, slug, section, value, actor, 'content_section.restored', actor.email, { rolledBackTo: at })
+    }
+
+    return { page: slug as ContentPageSlug, at, restored: changed.length }
+  }
+
+  // Puts the content of a draft live and removes the draft
+  private async publish(page: ContentPageDefinition, slug: string, draft: ContentDraft, actor: AuditActor): Promise<ContentSection> {
+    const existing = await this.getSection(page, slug, draft.section_id)
+    const value = this.checkContent(page, existing, draft.content)
+
+    // Remove the draft before it goes live, and only if nobody saved it since it was read
+    const { data: removed, error } = await this.supabase
+      .from(CONTENT_TABLES.DRAFTS)
+      .delete()
+      .eq('id', draft.id)
+      .eq('updated_at', draft.updated_at)
+      .select('id')
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug, sectionId: draft.section_id })
+    }
+    if (!removed || removed.length === 0) {
+      throw this.draftConflict(slug, draft.section_id, await this.findDraft(slug, draft.section_id))
+    }
+
+    try {
+      return await this.goLive(page, slug, existing, value, actor, 'content_section.published', draft.updated_by || draft.created_by)
+    } catch (goLiveError) {
+      // Nothing went live, so put the draft back
+      const { error: restoreError } = await this.supabase.from(CONTENT_TABLES.DRAFTS).insert(draft)
+      if (restoreError) {
+        console.error('[ContentService] Failed to restore draft after a failed publish:', { draftId: draft.id, restoreError })
+      }
+      throw goLiveError
+    }
+  }
+
+  // Writes checked content to a section, bumping its version, and keeps the new version in the audit trail
+  private async goLive(
+    page: ContentPageDefinition,
+    slug: string,
+    existing: ContentSection,
+    value: string,
+    actor: AuditActor,
+    action: 'content_section.published' | 'content_section.restored',
+    author: string | null,
+    metadata: Record<string, any> = {}
+  ): Promise<ContentSection> {
+    const changes: Partial<ContentSection> = { content: value, updated_at: new Date().toISOString() }
+    if (typeof existing.version === 'number') {
+      changes.version = existing.version + 1
+    }
+    if (page.tracksEditor && author) {
+      changes.last_edited_by = author
+    }
+
+    let query = this.supabase
+      .from(page.table)
+      .update(changes)
+      .eq('id', existing.id)
+
+    // Only update if nobody published the section since it was read
+    if (typeof existing.version === 'number') {
+      query = query.eq('version', existing.version)
+    }
+
+    const { data, error } = await query.select().maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug, sectionId: existing.id })
+    }
+    if (!data) {
+      throw createContentError(
+        'concurrent_update',
+        'This section was changed by someone else; reload it and try again',
+        { page: slug, sectionId: existing.id, current: await this.getSection(page, slug, existing.id) }
+      )
+    }
+
+    if (this.audit) {
+      const snapshot: ContentRevisionSnapshot = { content: value, version: changes.version ?? null, author }
+      await this.audit.record({
+        entityType: 'content_section',
+        entityId: existing.id,
+        action,
+        actor,
+        changes: existing.content !== value ? { content: { from: existing.content, to: value } } : undefined,
+        metadata: { page: slug, sectionKey: existing.section_key, author, ...metadata },
+        snapshot,
+      })
+    }
+
+    return data as ContentSection
+  }
+
+  private draftConflict(slug: string, sectionId: string, current: ContentDraft | null) {
+    return createContentError(
+      'concurrent_update',
+      current ? 'This draft was saved by someone else since you started editing' : 'This draft was published or discarded since you started editing',
+      { page: slug, sectionId, current }
+    )
+  }
+
+  private async findDraft(slug: string, sectionId: string): Promise<ContentDraft | null> {
+    const { data, error } = await this.supabase
+      .from(CONTENT_TABLES.DRAFTS)
+      .select('*')
+      .eq('page', slug)
+      .eq('section_id', sectionId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug, sectionId })
+    }
+
+    return data as ContentDraft | null
+  }
+
+  private async getDraft(slug: string, sectionId: string): Promise<ContentDraft> {
+    this.getPage(slug)
+    const draft = await this.findDraft(slug, sectionId)
+
+    if (!draft) {
+      throw createContentError('content_draft_not_found', 'This section has no draft', { page: slug, sectionId })
+    }
+
+    return draft
+  }
+
+  private async updateDraft(draft: ContentDraft, changes: Partial<ContentDraft>): Promise<ContentDraft> {
+    const { data, error } = await this.supabase
+      .from(CONTENT_TABLES.DRAFTS)
+      .update(changes)
+      .eq('id', draft.id)
+      .select()
+      .single()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: draft.page, sectionId: draft.section_id })
+    }
+
+    return data as ContentDraft
+  }
+
+  private async getSection(page: ContentPageDefinition, slug: string, sectionId: string): Promise<ContentSection> {
+    const { data, error } = await this.supabase
+      .from(page.table)
+      .select('*')
+      .eq('id', sectionId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { page: slug, sectionId })
+    }
+    if (!data) {
+      throw createContentError('content_section_not_found', 'Section not found', { page: slug, sectionId })
+    }
+
+    return data as ContentSection
+  }
+
+  // Trims single-line content and checks it against the field of the section's style type
+  private checkContent(page: ContentPageDefinition, section: ContentSection, content: string): string {
+    if (!page.styleTypes.includes(section.style_type as SectionStyleType)) {
+      throw createContentError(
+        'invalid_content_section',
+        `Sections of type ${section.style_type} can't be edited on this page`,
+        { field: 'style_type', styleType: section.style_type }
+      )
+    }
+
+    const field = SECTION_FIELDS[section.style_type as SectionStyleType]
+    const value = field.input === 'textarea' ? content : content.trim()
+
+    if (field.required && !value.trim()) {
+      throw createContentError('invalid_content_section', 'This section can\'t be empty', { field: 'content' })
+    }
+    if (field.input !== 'textarea' && value.length > CONTENT_VALIDATION.SINGLE_LINE_MAX_LENGTH) {
+      throw createContentError(
+        'invalid_content_section',
+        `Content must be at most ${CONTENT_VALIDATION.SINGLE_LINE_MAX_LENGTH} characters`,
+        { field: 'content' }
+      )
+    }
+    if (field.input === 'email' && !validateEmail(value)) {
+      throw createContentError('invalid_content_section', 'Enter a valid email address', { field: 'content' })
+    }
+    if (field.input === 'url' && value && /\s/.test(value)) {
+      throw createContentError('invalid_content_section', 'A link can\'t contain spaces', { field: 'content' })
+    }
+
+    return value
+  }
+}
+
+// Content of a section at a moment, from its versions newest first: the latest version by then, or else what the
+// oldest version replaced; null when nothing is known, for sections last changed before versions were kept
+function contentAt(entries: AuditLogRecord[], time: number): string | null {
+  const live = entries.find(entry => new Date(entry.created_at!).getTime() <= time)
+  if (live) return (live.snapshot as ContentRevisionSnapshot).content
+
+  const first = entries[entries.length - 1]
+  if (!first) return null
+  return first.changes?.content ? first.changes.content.from : (first.snapshot as ContentRevisionSnapshot).content
+}
+
+/**
+ * Factory function to create ContentService instance
+ */
+export function createContentService(supabase: SupabaseClient, audit?: AuditService): ContentService {
+  return new ContentServiceImpl(supabase, audit)
+}
@@ -0,0 +1,358 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { randomUUID } from 'crypto'
+import type { AuditService, CustomerService } from '../types/services'
+import type { AuditActor, AuditLogRecord } from '../types/audit'
+import type { Order, OrderItem } from '../types/orders'
+import type { OrderEmailLogRecord } from '../types/email'
+import type { ShipmentRecord } from '../types/shipments'
+import type {
+  CustomerAnonymiseResult,
+  CustomerDetail,
+  CustomerDuplicateGroup,
+  CustomerExport,
+  CustomerListPage,
+  CustomerListQuery,
+  CustomerMergeResult,
+  CustomerOrder,
+  MergeCustomersInput
+} from '../types/customers'
+import { DATABASE } from '../constants/auth'
+import { ORDER_TABLES } from '../constants/orders'
+import { EMAIL_TABLES } from '../constants/email'
+import { SHIPMENT_TABLES } from '../constants/shipments'
+import { AUDIT_TABLES } from '../constants/api'
+import {
+  ANONYMISED_CUSTOMER,
+  CUSTOMER_ORDER_COLUMNS,
+  MAX_MERGE_SOURCES,
+  OPEN_ORDER_STATUSES
+} from '../constants/customers'
+import { createCustomerError, createOrderError, validateEmail } from '../utils/typeGuards'
+import {
+  buildCustomerProfiles,
+  findDuplicateCustomers,
+  isAnonymisedEmail,
+  normalizeCustomerEmail,
+  queryCustomers
+} from '../utils/customers'
+
+// Escapes LIKE wildcards so an email is matched literally
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`)
+
+/**
+ * Customer Service Implementation (server-side)
+ *
+ * There is no customers table: profiles are built from the customer columns on orders,
+ * grouped by their trimmed, lower-cased email.
+ * - Merging moves the orders of duplicate profiles to one email
+ * - Anonymising scrubs name, email and address from every order of the customer, from the
+ *   email log and from customer audit entries; the country is kept for VAT reporting
+ */
+export class CustomerServiceImpl implements CustomerService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Gets one page of customer profiles
+   */
+  async listCustomers(query: CustomerListQuery): Promise<CustomerListPage> {
+    const orders = await this.fetchAllOrders()
+    return queryCustomers(buildCustomerProfiles(orders), query)
+  }
+
+  /**
+   * Gets a customer profile with all of their orders
+   */
+  async getCustomer(email: string): Promise<CustomerDetail> {
+    const orders = await this.fetchCustomerOrders(email)
+    const [profile] = buildCustomerProfiles(orders)
+
+    return { profile, orders }
+  }
+
+  /**
+   * Gets groups of profiles that probably belong to the same person
+   */
+  async getDuplicates(): Promise<CustomerDuplicateGroup[]> {
+    const orders = await this.fetchAllOrders()
+    return findDuplicateCustomers(buildCustomerProfiles(orders))
+  }
+
+  /**
+   * Moves the orders of the source profiles to the target email
+   */
+  async mergeCustomers(input: MergeCustomersInput, actor: AuditActor): Promise<CustomerMergeResult> {
+    const targetEmail = normalizeCustomerEmail(input.targetEmail)
+    const sourceEmails = Array.from(new Set((input.sourceEmails || []).map(normalizeCustomerEmail)))
+      .filter(email => email !== targetEmail)
+
+    if (!validateEmail(targetEmail)) {
+      throw createCustomerError('invalid_customer', 'Target email is not a valid email address', { field: 'targetEmail' })
+    }
+
+    if (sourceEmails.length === 0 || sourceEmails.length > MAX_MERGE_SOURCES) {
+      throw createCustomerError('invalid_customer', `Select between 1 and ${MAX_MERGE_SOURCES} customers to merge`, {
+        field: 'sourceEmails',
+        maxSources: MAX_MERGE_SOURCES,
+      })
+    }
+
+    if ([targetEmail, ...sourceEmails].some(isAnonymisedEmail)) {
+      throw createCustomerError('customer_not_allowed', 'Anonymised customers cannot be merged')
+    }
+
+    const targetOrders = await this.fetchCustomerOrders(targetEmail)
+    const sourceOrders: Order[] = []
+
+    // Sequential: each lookup throws customer_not_found for its own email
+    for (const email of sourceEmails) {
+      sourceOrders.push(...(await this.fetchCustomerOrders(email)))
+    }
+
+    const mergedOrderIds = sourceOrders.map(order => order.id)
+
+    const { error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .update({ customer_email: targetEmail, updated_at: new Date().toISOString() })
+      .in('id', mergedOrderIds)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { targetEmail })
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'customer',
+        entityId: targetEmail,
+        action: 'customer.merged',
+        actor,
+        metadata: { sourceEmails, orderIds: mergedOrderIds },
+      })
+    }
+
+    const [customer] = buildCustomerProfiles([
+      ...targetOrders,
+      ...sourceOrders.map(order => ({ ...order, customer_email: targetEmail })),
+    ])
+
+    return { customer, mergedOrderIds }
+  }
+
+  /**
+   * Collects everything stored about a customer for a GDPR access request
+   */
+  async exportCustomer(email: string, actor: AuditActor): Promise<CustomerExport> {
+    const { profile, orders } = await this.getCustomer(email)
+    const orderIds = orders.map(order => order.id)
+
+    const [items, emails, shipments] = await Promise.all([
+      this.fetchByOrderIds<OrderItem>(ORDER_TABLES.ORDER_ITEMS, orderIds),
+      this.fetchByOrderIds<OrderEmailLogRecord>(EMAIL_TABLES.ORDER_EMAIL_LOG, orderIds),
+      this.fetchByOrderIds<ShipmentRecord>(SHIPMENT_TABLES.SHIPMENTS, orderIds),
+    ])
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'customer',
+        entityId: profile.email,
+        action: 'customer.exported',
+        actor,
+        metadata: { orderCount: orders.length },
+      })
+    }
+
+    return {
+      exportedAt: new Date().toISOString(),
+      customer: profile,
+      orders: orders.map(order => ({ ...order, items: items.filter(item => item.order_id === order.id) })),
+      emails,
+      shipments,
+    }
+  }
+
+  /**
+   * Replaces the customer's personal data on all of their orders with a pseudonym, also in
+   * the email log and the audit log, including merges of the customer into someone else
+   */
+  async anonymiseCustomer(email: string, actor: AuditActor): Promise<CustomerAnonymiseResult> {
+    const customerEmail = normalizeCustomerEmail(email)
+
+    if (isAnonymisedEmail(customerEmail)) {
+      throw createCustomerError('customer_not_allowed', 'Customer is already anonymised', { email: customerEmail })
+    }
+
+    const orders = await this.fetchCustomerOrders(customerEmail)
+    const openOrders = orders.filter(order => OPEN_ORDER_STATUSES.includes(order.status))
+
+    if (openOrders.length > 0) {
+      throw createCustomerError('customer_not_allowed', 'Customers with open orders cannot be anonymised', {
+        orderNumbers: openOrders.map(order => order.order_number),
+      })
+    }
+
+    const pseudonym = `customer-${randomUUID().slice(0, 8)}@${ANONYMISED_CUSTOMER.EMAIL_DOMAIN}`
+    const anonymisedOrderIds = orders.map(order => order.id)
+
+    const { error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .update({
+        customer_first_name: ANONYMISED_CUSTOMER.FIRST_NAME,
+        customer_last_name: ANONYMISED_CUSTOMER.LAST_NAME,
+        customer_email: pseudonym,
+        customer_address: '',
+        customer_city: '',
+        customer_postal_code: '',
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', anonymisedOrderIds)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { email: customerEmail })
+    }
+
+    const { error: emailLogError } = await this.supabase
+      .from(EMAIL_TABLES.ORDER_EMAIL_LOG)
+      .update({ recipient: pseudonym })
+      .in('order_id', anonymisedOrderIds)
+      .ilike('recipient', `%${escapeLikePattern(customerEmail)}%`)
+
+    if (emailLogError) {
+      throw createOrderError('database_error', emailLogError.message, { email: customerEmail })
+    }
+
+    // Earlier merges and exports were recorded under the email; their metadata lists more emails
+    const { error: auditError } = await this.supabase
+      .from(AUDIT_TABLES.AUDIT_LOG)
+      .update({ entity_id: pseudonym, metadata: null })
+      .eq('entity_type', 'customer')
+      .eq('entity_id', customerEmail)
+
+    if (auditError) {
+      throw createOrderError('database_error', auditError.message, { email: customerEmail })
+    }
+
+    await this.scrubMergedEmail(customerEmail, pseudonym)
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'customer',
+        entityId: pseudonym,
+        action: 'customer.anonymised',
+        actor,
+        metadata: { orderCount: anonymisedOrderIds.length },
+      })
+    }
+
+    return { pseudonym, anonymisedOrderIds }
+  }
+
+  // Merges into other customers list the merged-away emails in their audit metadata
+  private async scrubMergedEmail(customerEmail: string, pseudonym: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from(AUDIT_TABLES.AUDIT_LOG)
+      .select('id, metadata')
+      .eq('entity_type', 'customer')
+      .eq('action', 'customer.merged')
+      .contains('metadata', { sourceEmails: [customerEmail] })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { email: customerEmail })
+    }
+
+    for (const entry of (data || []) as Pick<AuditLogRecord, 'id' | 'metadata'>[]) {
+      const sourceEmails: string[] = entry.metadata?.sourceEmails || []
+
+      const { error: updateError } = await this.supabase
+        .from(AUDIT_TABLES.AUDIT_LOG)
+        .update({
+          metadata: {
+            ...entry.metadata,
+            sourceEmails: sourceEmails.map(sourceEmail => (sourceEmail === customerEmail ? pseudonym : sourceEmail)),
+          },
+        })
+        .eq('id', entry.id)
+
+      if (updateError) {
+        throw createOrderError('database_error', updateError.message, { email: customerEmail })
+      }
+    }
+  }
+
+  // Loads the customer columns of all orders, in chunks of the maximum query size
+  private async fetchAllOrders(): Promise<CustomerOrder[]> {
+    const orders: CustomerOrder[] = []
+    const chunkSize = DATABASE.MAX_QUERY_LIMIT
+
+    for (let from = 0; ; from += chunkSize) {
+      const { data, error } = await this.supabase
+        .from(ORDER_TABLES.ORDERS)
+        .select(CUSTOMER_ORDER_COLUMNS)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, from + chunkSize - 1)
+
+      if (error) {
+        throw createOrderError('database_error', error.message)
+      }
+
+      const chunk = (data || []) as unknown as CustomerOrder[]
+      orders.push(...chunk)
+
+      if (chunk.length < chunkSize) return orders
+    }
+  }
+
+  // Orders of one customer, newest first; emails are stored as typed, so matching ignores case and whitespace
+  private async fetchCustomerOrders(email: string): Promise<Order[]> {
+    const customerEmail = normalizeCustomerEmail(email)
+
+    if (!customerEmail) {
+      throw createCustomerError('invalid_customer', 'Customer email is required', { field: 'email' })
+    }
+
+    const { data, error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .select('*')
+      .ilike('customer_email', `%${escapeLikePattern(customerEmail)}%`)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { email: customerEmail })
+    }
+
+    const orders = ((data || []) as Order[])
+      .filter(order => normalizeCustomerEmail(order.customer_email) === customerEmail)
+
+    if (orders.length === 0) {
+      throw createCustomerError('customer_not_found', 'Customer not found', { email: customerEmail })
+    }
+
+    return orders
+  }
+
+  private async fetchByOrderIds<T>(table: string, orderIds: string[]): Promise<T[]> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('*')
+      .in('order_id', orderIds)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { table })
+    }
+
+    return (data || []) as T[]
+  }
+}
+
+/**
+ * Factory function to create CustomerService instance
+ */
+export function createCustomerService(supabase: SupabaseClient, audit?: AuditService): CustomerService {
+  return new CustomerServiceImpl(supabase, audit)
+}
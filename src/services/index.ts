@@ -5,11 +5,45 @@ export type {
   TokenRefreshService,
   RateLimitService,
   ErrorHandlerService,
-  LoggerService
+  LoggerService,
+  OrderLifecycleService,
+  AuditService,
+  ProductService,
+  ProductPublishingService,
+  OrderEmailService,
+  OrderDocumentService,
+  OrderQueryService,
+  RefundService,
+  ShipmentService,
+  OrderNoteService,
+  CustomerService,
+  InventoryService,
+  ProductImportService,
+  CatalogService,
+  MediaService,
+  PricingService,
+  ContentService
 } from '../types/services'
 
 // Service implementations will be exported here as they are created:
 export { TokenRefreshServiceImpl, createTokenRefreshService, defaultTokenRefreshService } from './tokenRefreshService'
 export { RateLimitServiceImpl, rateLimitService } from './rateLimitService'
 export { ErrorHandlerServiceImpl, createErrorHandlerService, defaultErrorHandlerService } from './errorHandlerService'
-export { LoggerServiceImpl, createLoggerService, defaultLoggerService } from './loggerService'
\ No newline at end of file
+export { LoggerServiceImpl, createLoggerService, defaultLoggerService } from './loggerService'
+export { OrderLifecycleServiceImpl, createOrderLifecycleService } from './orderLifecycleService'
+export { AuditServiceImpl, createAuditService, diffFields } from './auditService'
+export { ProductServiceImpl, createProductService } from './productService'
+export { ProductPublishingServiceImpl, createProductPublishingService } from './productPublishingService'
+export { OrderEmailServiceImpl, createOrderEmailService } from './orderEmailService'
+export { OrderDocumentServiceImpl, createOrderDocumentService, formatInvoiceNumber } from './orderDocumentService'
+export { OrderQueryServiceImpl, createOrderQueryService } from './orderQueryService'
+export { RefundServiceImpl, createRefundService, summarizeRefunds } from './refundService'
+export { ShipmentServiceImpl, createShipmentService, normalizeTrackingNumber } from './shipmentService'
+export { OrderNoteServiceImpl, createOrderNoteService } from './orderNoteService'
+export { CustomerServiceImpl, createCustomerService } from './customerService'
+export { InventoryServiceImpl, createInventoryService } from './inventoryService'
+export { ProductImportServiceImpl, createProductImportService } from './productImportService'
+export { CatalogServiceImpl, createCatalogService } from './catalogService'
+export { MediaServiceImpl, createMediaService } from './mediaService'
+export { PricingServiceImpl, createPricingService } from './pricingService'
+export { ContentServiceImpl, createContentService } from './contentService'
@@ -0,0 +1,369 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, InventoryService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { Product, ProductVariant } from '../types/products'
+import type {
+  LowStockAlert,
+  StockAdjustmentInput,
+  StockAdjustmentResult,
+  StockChangeOptions,
+  StockMovementInput,
+  StockMovementRecord,
+  StockReconciliation
+} from '../types/inventory'
+import { DATABASE } from '../constants/auth'
+import { PRODUCT_TABLES, PRODUCT_VALIDATION } from '../constants/products'
+import {
+  INVENTORY_TABLES,
+  STOCK_MOVEMENT_REASONS,
+  STOCK_REASON_MAX_LENGTH,
+  STOCK_UPDATE_MAX_RETRIES
+} from '../constants/inventory'
+import { createInventoryError, createProductError } from '../utils/typeGuards'
+import { findLowStock, sumStockMovements } from '../utils/inventory'
+
+type StockTable = typeof PRODUCT_TABLES.PRODUCTS | typeof PRODUCT_TABLES.PRODUCT_VARIANTS
+
+/**
+ * Inventory Service Implementation
+ *
+ * Keeps a ledger of stock movements next to the stock columns:
+ * - Every change of products.stock or product_variants.stock is written as a movement
+ * - Compare-and-set updates, so concurrent orders and edits aren't overwritten
+ * - The recorded stock can be reconciled against the ledger total
+ * - Low-stock alerts against the per-product threshold
+ */
+export class InventoryServiceImpl implements InventoryService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Validates a manual stock adjustment payload
+   */
+  validateAdjustment(payload: unknown): StockAdjustmentInput {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw createInventoryError('invalid_stock_adjustment', 'Request body must be an object')
+    }
+
+    const body = payload as Record<string, unknown>
+    const stock = Number(body.stock)
+
+    if (typeof body.stock === 'boolean' || body.stock === null || body.stock === '' || !Number.isInteger(stock) || stock < 0) {
+      throw createInventoryError('invalid_stock_adjustment', 'Stock must be a whole number of zero or more', { field: 'stock' })
+    }
+    if (stock > PRODUCT_VALIDATION.MAX_STOCK) {
+      throw createInventoryError('invalid_stock_adjustment', 'Stock is too high', { field: 'stock' })
+    }
+
+    if (body.variantId !== undefined && body.variantId !== null && (typeof body.variantId !== 'string' || !body.variantId)) {
+      throw createInventoryError('invalid_stock_adjustment', 'variantId must be a variant ID', { field: 'variantId' })
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+    if (!reason) {
+      throw createInventoryError('invalid_stock_adjustment', 'A reason is required', { field: 'reason' })
+    }
+    if (reason.length > STOCK_REASON_MAX_LENGTH) {
+      throw createInventoryError('invalid_stock_adjustment', 'Reason is too long', { field: 'reason' })
+    }
+
+    return { stock, variantId: (body.variantId as string | undefined) ?? null, reason }
+  }
+
+  /**
+   * Writes a movement to the ledger. The stock has already changed by then, so a failed
+   * write is logged rather than thrown; reconciling the product fills the gap.
+   */
+  async recordMovement(input: StockMovementInput, actor: AuditActor | null): Promise<StockMovementRecord> {
+    const record: StockMovementRecord = {
+      product_id: input.productId,
+      variant_id: input.variantId ?? null,
+      type: input.type,
+      quantity: input.quantity,
+      stock_after: input.stockAfter,
+      reason: input.reason ?? null,
+      reference_id: input.referenceId ?? null,
+      created_by: actor?.id ?? null,
+      created_by_email: actor?.email ?? null,
+    }
+
+    const { data, error } = await this.supabase
+      .from(INVENTORY_TABLES.STOCK_MOVEMENTS)
+      .insert(record)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('[InventoryService] Failed to record stock movement:', record, error)
+      return record
+    }
+
+    return { ...record, ...(data as StockMovementRecord) }
+  }
+
+  /**
+   * Adds (or with a negative quantity removes) stock and records the movement. The product's
+   * stock moves along with a variant's, so it stays the total of its variants.
+   * @returns The movement, or null when the stock could not be updated (logged)
+   */
+  async changeStock(
+    productId: string,
+    variantId: string | null,
+    quantity: number,
+    options: StockChangeOptions,
+    actor: AuditActor | null
+  ): Promise<StockMovementRecord | null> {
+    const variantStock = variantId ? await this.incrementStock(PRODUCT_TABLES.PRODUCT_VARIANTS, variantId, quantity) : null
+    if (variantId && variantStock === null) return null
+
+    const productStock = await this.incrementStock(PRODUCT_TABLES.PRODUCTS, productId, quantity)
+    if (!variantId && productStock === null) return null
+
+    const movement = await this.recordMovement({
+      productId,
+      variantId,
+      type: options.type,
+      quantity,
+      stockAfter: (variantId ? variantStock : productStock) as number,
+      reason: options.reason,
+      referenceId: options.referenceId,
+    }, actor)
+
+    // The variant changed but the product total didn't; reconciling will show the difference
+    return productStock === null ? null : movement
+  }
+
+  /**
+   * Sets a counted stock level as a manual adjustment
+   * @throws InventoryError 'invalid_stock_adjustment' or 'stock_conflict', ProductError 'product_not_found'
+   */
+  async adjustStock(productId: string, input: StockAdjustmentInput, actor: AuditActor): Promise<StockAdjustmentResult> {
+    const { data: product, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('id, stock, variants:product_variants(id)')
+      .eq('id', productId)
+      .maybeSingle()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    if (!product) {
+      throw createProductError('product_not_found', 'Product not found', { productId })
+    }
+
+    const variantIds = ((product.variants || []) as Pick<ProductVariant, 'id'>[]).map(variant => variant.id)
+
+    if (variantIds.length > 0 && !input.variantId) {
+      throw createInventoryError('invalid_stock_adjustment', 'Choose the variant whose stock to adjust', { field: 'variantId' })
+    }
+    if (input.variantId && !variantIds.includes(input.variantId)) {
+      throw createInventoryError('invalid_stock_adjustment', 'Variant does not belong to this product', { field: 'variantId' })
+    }
+
+    const table: StockTable = input.variantId ? PRODUCT_TABLES.PRODUCT_VARIANTS : PRODUCT_TABLES.PRODUCTS
+    const rowId = input.variantId || productId
+
+    for (let attempt = 0; attempt < STOCK_UPDATE_MAX_RETRIES; attempt++) {
+      const current = await this.readStock(table, rowId)
+      const quantity = input.stock - current
+
+      if (quantity === 0) {
+        throw createInventoryError('invalid_stock_adjustment', `Stock is already ${input.stock}`, { field: 'stock' })
+      }
+
+      if (!(await this.compareAndSetStock(table, rowId, current, input.stock))) continue
+
+      const productStock = input.variantId
+        ? await this.incrementStock(PRODUCT_TABLES.PRODUCTS, productId, quantity)
+        : input.stock
+
+      const movement = await this.recordMovement({
+        productId,
+        variantId: input.variantId,
+        type: 'adjustment',
+        quantity,
+        stockAfter: input.stock,
+        reason: input.reason,
+      }, actor)
+
+      if (this.audit) {
+        await this.audit.record({
+          entityType: 'product',
+          entityId: productId,
+          action: 'product.stock_adjusted',
+          actor,
+          changes: { stock: { from: current, to: input.stock } },
+          metadata: { variantId: input.variantId ?? null, reason: input.reason },
+        })
+      }
+
+      return { movement, productStock: productStock ?? Number(product.stock) + quantity }
+    }
+
+    throw createInventoryError('stock_conflict', 'The stock changed while saving; reload and try again', { productId })
+  }
+
+  /**
+   * Gets the ledger of a product, oldest first
+   */
+  async getMovements(productId: string): Promise<StockMovementRecord[]> {
+    const movements: StockMovementRecord[] = []
+    const chunkSize = DATABASE.MAX_QUERY_LIMIT
+
+    // Read every page: the reconciliation sums the whole ledger
+    for (let from = 0; ; from += chunkSize) {
+      const { data, error } = await this.supabase
+        .from(INVENTORY_TABLES.STOCK_MOVEMENTS)
+        .select('*')
+        .eq('product_id', productId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + chunkSize - 1)
+
+      if (error) {
+        throw createProductError('database_error', error.message, { productId })
+      }
+
+      const chunk = (data || []) as StockMovementRecord[]
+      movements.push(...chunk)
+
+      if (chunk.length < chunkSize) return movements
+    }
+  }
+
+  /**
+   * Compares the recorded stock of the product (or each of its variants) with the ledger total
+   */
+  async getReconciliation(productId: string): Promise<StockReconciliation[]> {
+    const { data: product, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('id, stock, variants:product_variants(id, stock)')
+      .eq('id', productId)
+      .maybeSingle()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    if (!product) {
+      throw createProductError('product_not_found', 'Product not found', { productId })
+    }
+
+    const totals = sumStockMovements(await this.getMovements(productId))
+    const variants = (product.variants || []) as Pick<ProductVariant, 'id' | 'stock'>[]
+    const rows = variants.length > 0
+      ? variants.map(variant => ({ variantId: variant.id as string | null, recordedStock: Number(variant.stock) }))
+      : [{ variantId: null, recordedStock: Number(product.stock) }]
+
+    return rows.map(({ variantId, recordedStock }) => {
+      const ledgerStock = totals.get(variantId ?? '') || 0
+      return { productId, variantId, recordedStock, ledgerStock, difference: recordedStock - ledgerStock }
+    })
+  }
+
+  /**
+   * Records a correcting movement wherever the ledger doesn't add up to the recorded stock,
+   * e.g. the opening balance of products that had stock before the ledger existed.
+   * The recorded stock is taken as the truth; it doesn't change.
+   */
+  async reconcile(productId: string, actor: AuditActor): Promise<StockMovementRecord[]> {
+    const differences = (await this.getReconciliation(productId)).filter(row => row.difference !== 0)
+    const movements: StockMovementRecord[] = []
+
+    for (const row of differences) {
+      movements.push(await this.recordMovement({
+        productId,
+        variantId: row.variantId,
+        type: 'adjustment',
+        quantity: row.difference,
+        stockAfter: row.recordedStock,
+        reason: STOCK_MOVEMENT_REASONS.RECONCILIATION,
+      }, actor))
+    }
+
+    return movements
+  }
+
+  /**
+   * Active products and variants at or below their low-stock threshold
+   */
+  async getLowStockAlerts(): Promise<LowStockAlert[]> {
+    const { data, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('id, name, stock, low_stock_threshold, variants:product_variants(id, sku, bottle_size_ml, vintage, cask, stock)')
+      .eq('is_active', true)
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    return findLowStock((data || []) as (Pick<Product, 'id' | 'name' | 'stock' | 'low_stock_threshold'> & { variants: ProductVariant[] })[])
+  }
+
+  private async readStock(table: StockTable, id: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('id, stock')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { id })
+    }
+
+    if (!data) {
+      throw createProductError('product_not_found', 'Product not found', { id })
+    }
+
+    return Number(data.stock)
+  }
+
+  // Only writes when the stock is still what was read
+  private async compareAndSetStock(table: StockTable, id: string, expected: number, stock: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .update({ stock })
+      .eq('id', id)
+      .eq('stock', expected)
+      .select('id')
+
+    if (error) {
+      throw createProductError('database_error', error.message, { id })
+    }
+
+    return !!data && data.length > 0
+  }
+
+  // Compare-and-set with retries; returns the new stock, or null after logging why it failed
+  private async incrementStock(table: StockTable, id: string, quantity: number): Promise<number | null> {
+    for (let attempt = 0; attempt < STOCK_UPDATE_MAX_RETRIES; attempt++) {
+      try {
+        const current = await this.readStock(table, id)
+
+        if (await this.compareAndSetStock(table, id, current, current + quantity)) {
+          return current + quantity
+        }
+      } catch (error) {
+        console.error('[InventoryService] Cannot update stock:', table, id, error)
+        return null
+      }
+    }
+
+    console.error('[InventoryService] Gave up updating stock after concurrent updates:', table, id)
+    return null
+  }
+}
+
+/**
+ * Factory function to create InventoryService instance
+ */
+export function createInventoryService(supabase: SupabaseClient, audit?: AuditService): InventoryService {
+  return new InventoryServiceImpl(supabase, audit)
+}
@@ -0,0 +1,118 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import nodemailer from 'nodemailer'
+import type { MailConfig, MailMessage, MailSendResult, MailTransport, MailTransportType } from '../types/email'
+import { DEFAULT_MAIL_CONFIG } from '../constants/email'
+import { createEmailError } from '../utils/typeGuards'
+
+/**
+ * Mail transports (server-side only)
+ *
+ * - smtp: any SMTP server, including a local stand-in such as Mailpit on port 1025
+ * - file: writes each message as JSON to a directory (tests, local development)
+ * - memory: keeps messages in memory (unit tests)
+ */
+
+/**
+ * Sends messages through an SMTP server
+ */
+export function createSmtpMailTransport(smtp: MailConfig['smtp']): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message: MailMessage): Promise<MailSendResult> {
+      const info = await transporter.sendMail(message)
+      return { messageId: info.messageId || null }
+    },
+  }
+}
+
+/**
+ * Writes every message to `<directory>/<timestamp>-<id>.json` instead of sending it
+ */
+export function createFileMailTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message: MailMessage): Promise<MailSendResult> {
+      const messageId = randomUUID()
+      await mkdir(directory, { recursive: true })
+      await writeFile(
+        join(directory, `${Date.now()}-${messageId}.json`),
+        JSON.stringify({ messageId, ...message }, null, 2),
+        'utf8'
+      )
+      return { messageId }
+    },
+  }
+}
+
+export interface MemoryMailTransport extends MailTransport {
+  readonly sent: MailMessage[]
+}
+
+/**
+ * Collects messages in memory; useful for asserting on sent emails in tests
+ */
+export function createMemoryMailTransport(): MemoryMailTransport {
+  const sent: MailMessage[] = []
+
+  return {
+    name: 'memory',
+    sent,
+    async send(message: MailMessage): Promise<MailSendResult> {
+      sent.push(message)
+      return { messageId: `memory-${sent.length}` }
+    },
+  }
+}
+
+const TRANSPORT_TYPES: MailTransportType[] = ['smtp', 'file', 'memory']
+
+/**
+ * Reads the mail configuration from MAIL_* and SMTP_* environment variables
+ */
+export function getMailConfig(env: Record<string, string | undefined> = process.env): MailConfig {
+  const transport = (env.MAIL_TRANSPORT || DEFAULT_MAIL_CONFIG.transport) as MailTransportType
+
+  if (!TRANSPORT_TYPES.includes(transport)) {
+    throw createEmailError('configuration_error', `Unknown MAIL_TRANSPORT: ${transport}`, { transport })
+  }
+
+  const port = env.SMTP_PORT ? Number(env.SMTP_PORT) : DEFAULT_MAIL_CONFIG.smtp.port
+
+  return {
+    transport,
+    from: env.MAIL_FROM || DEFAULT_MAIL_CONFIG.from,
+    notificationTo: env.MAIL_NOTIFICATION_TO || DEFAULT_MAIL_CONFIG.notificationTo,
+    replyTo: env.MAIL_REPLY_TO || DEFAULT_MAIL_CONFIG.replyTo,
+    smtp: {
+      host: env.SMTP_HOST || DEFAULT_MAIL_CONFIG.smtp.host,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    },
+    fileDirectory: env.MAIL_FILE_DIR || DEFAULT_MAIL_CONFIG.fileDirectory,
+  }
+}
+
+/**
+ * Creates the transport selected in the mail configuration
+ */
+export function createMailTransport(config: MailConfig): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return createSmtpMailTransport(config.smtp)
+    case 'file':
+      return createFileMailTransport(config.fileDirectory)
+    case 'memory':
+      return createMemoryMailTransport()
+  }
+}
@@ -0,0 +1,257 @@
+import type {
+  MediaAdapter,
+  MediaAdapterMode,
+  MediaAsset,
+  MediaConfig,
+  MediaSearchQuery,
+  MediaSearchResult
+} from '../types/media'
+import { DEFAULT_MEDIA_CONFIG } from '../constants/media'
+import { createMediaError } from '../utils/typeGuards'
+
+/**
+ * Media adapters (server-side only)
+ *
+ * - live: Cloudinary Admin and Search APIs of the configured cloud
+ * - mock: keeps assets in memory without calling Cloudinary (tests, local development)
+ */
+
+interface CloudinaryResource {
+  public_id: string
+  secure_url: string
+  format: string
+  width: number
+  height: number
+  bytes: number
+  tags?: string[]
+  created_at: string
+}
+
+function toMediaAsset(resource: CloudinaryResource): MediaAsset {
+  return {
+    publicId: resource.public_id,
+    url: resource.secure_url,
+    format: resource.format,
+    width: resource.width,
+    height: resource.height,
+    bytes: resource.bytes,
+    tags: resource.tags || [],
+    createdAt: resource.created_at,
+  }
+}
+
+// Search expression terms may only contain word characters; each word matches as a prefix
+function toSearchExpression(query: MediaSearchQuery): string {
+  const terms = ['resource_type:image']
+
+  if (query.tag) {
+    terms.push(`tags="${query.tag.replace(/["\\]/g, '')}"`)
+  }
+
+  ;(query.query || '')
+    .split(/[^A-Za-z0-9_\u00C0-\u024F-]+/)
+    .filter(Boolean)
+    .forEach(word => terms.push(`${word}*`))
+
+  return terms.join(' AND ')
+}
+
+/**
+ * Lists and manages images through the Cloudinary Admin and Search REST APIs
+ */
+export function createCloudinaryMediaAdapter(cloudinary: MediaConfig['cloudinary']): MediaAdapter {
+  async function request(path: string, init: RequestInit = {}, notFound: 'null' | 'throw' = 'throw'): Promise<any> {
+    if (!cloudinary.cloudName || !cloudinary.apiKey || !cloudinary.apiSecret) {
+      throw createMediaError('configuration_error', 'CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET must be set')
+    }
+
+    const credentials = Buffer.from(`${cloudinary.apiKey}:${cloudinary.apiSecret}`).toString('base64')
+    const response = await fetch(`${cloudinary.apiUrl}/${cloudinary.cloudName}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+    })
+
+    const body = await response.json().catch(() => null)
+
+    if (response.status === 404 && notFound === 'null') {
+      return null
+    }
+
+    if (!response.ok) {
+      throw createMediaError('provider_error', body?.error?.message || `Cloudinary request failed with status ${response.status}`, {
+        status: response.status,
+      })
+    }
+
+    return body
+  }
+
+  const resourcePath = (publicId: string) =>
+    `/resources/image/upload/${publicId.split('/').map(encodeURIComponent).join('/')}`
+
+  return {
+    mode: 'live',
+
+    async search(query: MediaSearchQuery): Promise<MediaSearchResult> {
+      const body = await request('/resources/search', {
+        method: 'POST',
+        body: JSON.stringify({
+          expression: toSearchExpression(query),
+          sort_by: [{ created_at: 'desc' }],
+          max_results: query.limit,
+          next_cursor: query.cursor || undefined,
+          with_field: ['tags'],
+        }),
+      })
+
+      return {
+        assets: ((body.resources || []) as CloudinaryResource[]).map(toMediaAsset),
+        nextCursor: body.next_cursor || null,
+      }
+    },
+
+    async getAsset(publicId: string): Promise<MediaAsset | null> {
+      const body = await request(resourcePath(publicId), {}, 'null')
+      return body ? toMediaAsset(body) : null
+    },
+
+    async listTags(): Promise<string[]> {
+      const body = await request('/tags/image?max_results=500')
+      return body.tags || []
+    },
+
+    async setTags(publicId: string, tags: string[]): Promise<MediaAsset> {
+      const body = await request(resourcePath(publicId), {
+        method: 'POST',
+        body: JSON.stringify({ tags: tags.join(',') }),
+      })
+      return toMediaAsset(body)
+    },
+
+    async destroy(publicId: string): Promise<void> {
+      const body = await request(`/resources/image/upload?public_ids[]=${encodeURIComponent(publicId)}`, { method: 'DELETE' })
+
+      if (body.deleted?.[publicId] === 'not_found') {
+        throw createMediaError('asset_not_found', 'Asset not found', { publicId })
+      }
+    },
+  }
+}
+
+export interface MockMediaAdapter extends MediaAdapter {
+  readonly assets: MediaAsset[]
+  readonly destroyed: string[]
+  /** Makes the next call fail with the given message */
+  failNext(message: string): void
+}
+
+/**
+ * Keeps assets in memory, newest first; useful for asserting on library changes in tests
+ */
+export function createMockMediaAdapter(initialAssets: MediaAsset[] = []): MockMediaAdapter {
+  const assets = [...initialAssets]
+  const destroyed: string[] = []
+  let nextFailure: string | null = null
+
+  const checkFailure = () => {
+    if (nextFailure) {
+      const message = nextFailure
+      nextFailure = null
+      throw createMediaError('provider_error', message)
+    }
+  }
+
+  return {
+    mode: 'mock',
+    assets,
+    destroyed,
+    failNext(message: string) {
+      nextFailure = message
+    },
+
+    async search(query: MediaSearchQuery): Promise<MediaSearchResult> {
+      checkFailure()
+      const words = (query.query || '').toLowerCase().split(/\s+/).filter(Boolean)
+      const matches = assets.filter(asset =>
+        (!query.tag || asset.tags.includes(query.tag)) &&
+        words.every(word => asset.publicId.toLowerCase().includes(word) || asset.tags.some(tag => tag.startsWith(word)))
+      )
+
+      const offset = Number(query.cursor) || 0
+      const page = matches.slice(offset, offset + query.limit)
+      return { assets: page.map(asset => ({ ...asset })), nextCursor: offset + query.limit < matches.length ? String(offset + query.limit) : null }
+    },
+
+    async getAsset(publicId: string): Promise<MediaAsset | null> {
+      checkFailure()
+      const asset = assets.find(candidate => candidate.publicId === publicId)
+      return asset ? { ...asset } : null
+    },
+
+    async listTags(): Promise<string[]> {
+      checkFailure()
+      return Array.from(new Set(assets.flatMap(asset => asset.tags))).sort()
+    },
+
+    async setTags(publicId: string, tags: string[]): Promise<MediaAsset> {
+      checkFailure()
+      const asset = assets.find(candidate => candidate.publicId === publicId)
+      if (!asset) {
+        throw createMediaError('asset_not_found', 'Asset not found', { publicId })
+      }
+      asset.tags = [...tags]
+      return { ...asset }
+    },
+
+    async destroy(publicId: string): Promise<void> {
+      checkFailure()
+      const index = assets.findIndex(asset => asset.publicId === publicId)
+      if (index < 0) {
+        throw createMediaError('asset_not_found', 'Asset not found', { publicId })
+      }
+      assets.splice(index, 1)
+      destroyed.push(publicId)
+    },
+  }
+}
+
+const ADAPTER_MODES: MediaAdapterMode[] = ['live', 'mock']
+
+/**
+ * Reads the media configuration from MEDIA_ADAPTER and CLOUDINARY_* environment variables.
+ * The cloud name and API key fall back to the public variables the upload widget uses; the
+ * API secret never does.
+ */
+export function getMediaConfig(env: Record<string, string | undefined> = process.env): MediaConfig {
+  const mode = (env.MEDIA_ADAPTER || DEFAULT_MEDIA_CONFIG.mode) as MediaAdapterMode
+
+  if (!ADAPTER_MODES.includes(mode)) {
+    throw createMediaError('configuration_error', `Unknown MEDIA_ADAPTER: ${mode}`, { mode })
+  }
+
+  return {
+    mode,
+    cloudinary: {
+      cloudName: env.CLOUDINARY_CLOUD_NAME || env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
+      apiKey: env.CLOUDINARY_API_KEY || env.NEXT_PUBLIC_CLOUDINARY_API_KEY,
+      apiSecret: env.CLOUDINARY_API_SECRET,
+      apiUrl: env.CLOUDINARY_API_URL || DEFAULT_MEDIA_CONFIG.cloudinary.apiUrl,
+    },
+  }
+}
+
+/**
+ * Creates the adapter for the configured mode
+ */
+export function createMediaAdapter(config: MediaConfig): MediaAdapter {
+  switch (config.mode) {
+    case 'mock':
+      return createMockMediaAdapter()
+    case 'live':
+      return createCloudinaryMediaAdapter(config.cloudinary)
+  }
+}
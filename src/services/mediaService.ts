@@ -0,0 +1,218 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, MediaService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type {
+  MediaAdapter,
+  MediaAsset,
+  MediaAssetWithUsage,
+  MediaDeleteResult,
+  MediaLibraryPage,
+  MediaSearchQuery,
+  MediaUsage
+} from '../types/media'
+import { DATABASE } from '../constants/auth'
+import { PRODUCT_TABLES } from '../constants/products'
+import { CATALOG_VALIDATION } from '../constants/catalog'
+import { MEDIA_LIBRARY, MEDIA_SOURCE_TABLES } from '../constants/media'
+import { createMediaError, createProductError } from '../utils/typeGuards'
+import { normalizeTags } from '../utils/catalog'
+import { buildUsageIndex, type MediaHeroItemSource, type MediaProductSource } from '../utils/media'
+import { diffFields } from './auditService'
+
+// Product columns with every image reference, including the variant images
+const USAGE_PRODUCT_COLUMNS = `id, name, image, images, variants:${PRODUCT_TABLES.PRODUCT_VARIANTS}(id, sku, image)`
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Media Service Implementation
+ *
+ * The media library on top of Cloudinary:
+ * - Lists, searches and tags uploaded assets through a media adapter
+ * - Tracks which products, variants and homepage sections show an asset
+ * - Refuses to delete an asset that is still in use, unless the caller insists
+ *
+ * Uploading stays with CldUploadWidget; the library only reuses what is already there.
+ */
+export class MediaServiceImpl implements MediaService {
+  private supabase: SupabaseClient
+  private adapter: MediaAdapter
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, adapter: MediaAdapter, audit?: AuditService) {
+    this.supabase = supabase
+    this.adapter = adapter
+    this.audit = audit
+  }
+
+  /**
+   * Validates the search parameters of the media library
+   */
+  validateSearchQuery(params: Record<string, string | null | undefined>): MediaSearchQuery {
+    const query = params.query?.trim() || null
+    const tag = params.tag?.trim() || null
+    const limit = params.limit ? Number(params.limit) : MEDIA_LIBRARY.PAGE_SIZE
+
+    if (query && query.length > MEDIA_LIBRARY.QUERY_MAX_LENGTH) {
+      throw createMediaError('invalid_media_request', 'Search query is too long', { field: 'query' })
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MEDIA_LIBRARY.MAX_PAGE_SIZE) {
+      throw createMediaError('invalid_media_request', `limit must be between 1 and ${MEDIA_LIBRARY.MAX_PAGE_SIZE}`, { field: 'limit' })
+    }
+
+    return { query, tag, cursor: params.cursor || null, limit }
+  }
+
+  /**
+   * Validates a tags payload: { tags: [...] }
+   */
+  validateTags(payload: unknown): string[] {
+    const tags = isObject(payload) ? payload.tags : undefined
+
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      throw createMediaError('invalid_media_request', 'tags must be a list of text', { field: 'tags' })
+    }
+
+    const normalized = normalizeTags(tags as string[])
+
+    if (normalized.length > CATALOG_VALIDATION.MAX_TAGS) {
+      throw createMediaError('invalid_media_request', `At most ${CATALOG_VALIDATION.MAX_TAGS} tags are allowed`, { field: 'tags' })
+    }
+    if (normalized.some(tag => tag.length > CATALOG_VALIDATION.TAG_MAX_LENGTH)) {
+      throw createMediaError('invalid_media_request', `Tags can be at most ${CATALOG_VALIDATION.TAG_MAX_LENGTH} characters`, { field: 'tags' })
+    }
+
+    return normalized
+  }
+
+  /**
+   * Lists uploaded assets, newest first, with where each one is used
+   */
+  async searchAssets(query: MediaSearchQuery): Promise<MediaLibraryPage> {
+    const [{ assets, nextCursor }, usageIndex] = await Promise.all([
+      this.adapter.search(query),
+      this.getUsageIndex(),
+    ])
+
+    return {
+      assets: assets.map(asset => ({ ...asset, usage: usageIndex.get(asset.publicId) || [] })),
+      nextCursor,
+    }
+  }
+
+  /**
+   * Gets one asset with where it is used
+   */
+  async getAsset(publicId: string): Promise<MediaAssetWithUsage> {
+    const asset = await this.findAsset(publicId)
+    return { ...asset, usage: await this.getUsage(publicId) }
+  }
+
+  /**
+   * Gets the products, variants and homepage sections that show an asset
+   */
+  async getUsage(publicId: string): Promise<MediaUsage[]> {
+    return (await this.getUsageIndex()).get(publicId) || []
+  }
+
+  /**
+   * Lists every tag used in the library
+   */
+  async listTags(): Promise<string[]> {
+    return (await this.adapter.listTags()).sort((a, b) => a.localeCompare(b))
+  }
+
+  /**
+   * Replaces the tags of an asset
+   */
+  async updateTags(publicId: string, tags: string[], actor: AuditActor): Promise<MediaAssetWithUsage> {
+    const existing = await this.findAsset(publicId)
+    const updated = await this.adapter.setTags(publicId, tags)
+    const changes = diffFields<{ tags: string[] }>({ tags: existing.tags }, { tags }, ['tags'])
+
+    if (this.audit && Object.keys(changes).length > 0) {
+      await this.audit.record({
+        entityType: 'media_asset',
+        entityId: publicId,
+        action: 'media.tags_updated',
+        actor,
+        changes,
+      })
+    }
+
+    return { ...updated, usage: await this.getUsage(publicId) }
+  }
+
+  /**
+   * Deletes an asset; while products or sections still show it, only when forced
+   */
+  async deleteAsset(publicId: string, force: boolean, actor: AuditActor): Promise<MediaDeleteResult> {
+    const asset = await this.findAsset(publicId)
+    const usage = await this.getUsage(publicId)
+
+    if (usage.length > 0 && !force) {
+      throw createMediaError('asset_in_use', `This image is still used in ${usage.length} ${usage.length === 1 ? 'place' : 'places'}`, {
+        publicId,
+        usage,
+      })
+    }
+
+    await this.adapter.destroy(publicId)
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'media_asset',
+        entityId: publicId,
+        action: 'media.deleted',
+        actor,
+        metadata: { url: asset.url, tags: asset.tags, usage },
+      })
+    }
+
+    return { publicId, usage }
+  }
+
+  private async findAsset(publicId: string): Promise<MediaAsset> {
+    const asset = await this.adapter.getAsset(publicId)
+
+    if (!asset) {
+      throw createMediaError('asset_not_found', 'Asset not found', { publicId })
+    }
+
+    return asset
+  }
+
+  // Every image reference of the products and homepage hero items, by public ID
+  private async getUsageIndex(): Promise<Map<string, MediaUsage[]>> {
+    const [products, heroItems] = await Promise.all([
+      this.supabase
+        .from(PRODUCT_TABLES.PRODUCTS)
+        .select(USAGE_PRODUCT_COLUMNS)
+        .limit(DATABASE.MAX_QUERY_LIMIT),
+      this.supabase
+        .from(MEDIA_SOURCE_TABLES.HERO_ITEMS)
+        .select('id, word, image_src')
+        .limit(DATABASE.MAX_QUERY_LIMIT),
+    ])
+
+    if (products.error) {
+      throw createProductError('database_error', products.error.message)
+    }
+    if (heroItems.error) {
+      throw createProductError('database_error', heroItems.error.message)
+    }
+
+    return buildUsageIndex(
+      (products.data || []) as unknown as MediaProductSource[],
+      (heroItems.data || []) as MediaHeroItemSource[]
+    )
+  }
+}
+
+/**
+ * Factory function to create MediaService instance
+ */
+export function createMediaService(supabase: SupabaseClient, adapter: MediaAdapter, audit?: AuditService): MediaService {
+  return new MediaServiceImpl(supabase, adapter, audit)
+}
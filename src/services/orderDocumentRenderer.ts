@@ -0,0 +1,266 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { format } from 'date-fns'
+import type { InvoiceDocumentData, OrderDocumentData } from '../types/documents'
+import { SELLER_DETAILS } from '../constants/documents'
+import { formatMoney, getOrderCurrency } from '../utils/currency'
+
+/**
+ * Order document renderer (server-side)
+ *
+ * Draws invoices and packing slips onto A4 pages with pdf-lib's standard
+ * Helvetica fonts, so no external service or font files are needed.
+ */
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89] // A4 in points
+const MARGIN = 50
+const LINE_HEIGHT = 16
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13)
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45)
+const RULE_COLOR = rgb(0.8, 0.8, 0.8)
+
+// Characters outside WinAnsi can't be drawn with the standard fonts
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ'
+
+export function toPdfText(value: unknown): string {
+  return Array.from(String(value ?? ''))
+    .map(char => {
+      const code = char.charCodeAt(0)
+      if (char === '\n' || char === '\t') return ' '
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char)) {
+        return char
+      }
+      return '?'
+    })
+    .join('')
+}
+
+interface Column {
+  label: string
+  x: number
+  align?: 'left' | 'right'
+}
+
+/**
+ * Keeps track of the cursor and adds pages when the content runs past the bottom margin
+ */
+class PageWriter {
+  private doc: PDFDocument
+  private regular: PDFFont
+  private bold: PDFFont
+  private footer: string
+  page!: PDFPage
+  y = 0
+
+  constructor(doc: PDFDocument, regular: PDFFont, bold: PDFFont, footer: string) {
+    this.doc = doc
+    this.regular = regular
+    this.bold = bold
+    this.footer = footer
+    this.addPage()
+  }
+
+  addPage() {
+    this.page = this.doc.addPage(PAGE_SIZE)
+    this.y = PAGE_SIZE[1] - MARGIN
+    this.page.drawText(toPdfText(this.footer), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font: this.regular,
+      color: MUTED_COLOR,
+    })
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.addPage()
+    }
+  }
+
+  text(value: string, x: number, options: { size?: number; bold?: boolean; muted?: boolean; align?: 'left' | 'right' } = {}) {
+    const size = options.size ?? 10
+    const font = options.bold ? this.bold : this.regular
+    const text = toPdfText(value)
+    const width = font.widthOfTextAtSize(text, size)
+
+    this.page.drawText(text, {
+      x: options.align === 'right' ? x - width : x,
+      y: this.y,
+      size,
+      font,
+      color: options.muted ? MUTED_COLOR : TEXT_COLOR,
+    })
+  }
+
+  // Truncates text so it fits within maxWidth
+  fit(value: string, maxWidth: number, size = 10): string {
+    let text = toPdfText(value)
+    while (text.length > 1 && this.regular.widthOfTextAtSize(text, size) > maxWidth) {
+      text = text.slice(0, -2) + '…'
+    }
+    return text
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y + LINE_HEIGHT - 4 },
+      end: { x: PAGE_SIZE[0] - MARGIN, y: this.y + LINE_HEIGHT - 4 },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    })
+  }
+
+  newLine(lines = 1) {
+    this.y -= LINE_HEIGHT * lines
+  }
+
+  tableHeader(columns: Column[]) {
+    this.ensureSpace(LINE_HEIGHT * 2)
+    columns.forEach(column => this.text(column.label, column.x, { bold: true, align: column.align }))
+    this.newLine()
+    this.rule()
+  }
+}
+
+async function createWriter(doc: PDFDocument, footer: string): Promise<PageWriter> {
+  const [regular, bold] = await Promise.all([
+    doc.embedFont(StandardFonts.Helvetica),
+    doc.embedFont(StandardFonts.HelveticaBold),
+  ])
+  return new PageWriter(doc, regular, bold, footer)
+}
+
+function drawHeader(writer: PageWriter, title: string, meta: [string, string][]) {
+  const right = PAGE_SIZE[0] - MARGIN
+
+  writer.text(SELLER_DETAILS.name, MARGIN, { size: 16, bold: true })
+  writer.text(title, right, { size: 16, bold: true, align: 'right' })
+  writer.newLine(1.5)
+  writer.text(SELLER_DETAILS.website, MARGIN, { muted: true })
+  writer.newLine()
+  writer.text(SELLER_DETAILS.email, MARGIN, { muted: true })
+  writer.newLine(2)
+
+  meta.forEach(([label, value]) => {
+    writer.text(label, MARGIN, { muted: true })
+    writer.text(value, MARGIN + 110)
+    writer.newLine()
+  })
+  writer.newLine()
+}
+
+function drawAddress(writer: PageWriter, heading: string, data: OrderDocumentData) {
+  const { order } = data
+
+  writer.text(heading, MARGIN, { bold: true })
+  writer.newLine()
+  ;[
+    `${order.customer_first_name} ${order.customer_last_name}`.trim(),
+    order.customer_address,
+    `${order.customer_postal_code} ${order.customer_city}`.trim(),
+    order.customer_country,
+    order.customer_email,
+  ].filter(Boolean).forEach(line => {
+    writer.text(line, MARGIN)
+    writer.newLine()
+  })
+  writer.newLine()
+}
+
+/**
+ * Adds the invoice pages for one order to the document
+ */
+export async function renderInvoice(doc: PDFDocument, data: InvoiceDocumentData): Promise<void> {
+  const { invoice, order, lines, vat } = data
+  const writer = await createWriter(doc, `${SELLER_DETAILS.name} · Invoice ${invoice.invoice_number}`)
+  const right = PAGE_SIZE[0] - MARGIN
+  const formatAmount = (amount: number) => formatMoney(amount, getOrderCurrency(order))
+
+  drawHeader(writer, 'INVOICE', [
+    ['Invoice number', invoice.invoice_number],
+    ['Invoice date', format(new Date(invoice.issued_at), 'dd-MM-yyyy')],
+    ['Order number', order.order_number],
+    ['Order date', format(new Date(order.created_at), 'dd-MM-yyyy')],
+    ...(order.payment_reference ? [['Payment reference', order.payment_reference] as [string, string]] : []),
+  ])
+  drawAddress(writer, 'Bill to', data)
+
+  const columns: Column[] = [
+    { label: 'Product', x: MARGIN },
+    { label: 'Qty', x: 330, align: 'right' },
+    { label: 'VAT', x: 375, align: 'right' },
+    { label: 'Unit price', x: 460, align: 'right' },
+    { label: 'Total', x: right, align: 'right' },
+  ]
+  writer.tableHeader(columns)
+
+  lines.forEach(line => {
+    writer.ensureSpace(LINE_HEIGHT)
+    writer.text(writer.fit(line.name, 250), MARGIN)
+    writer.text(String(line.quantity), 330, { align: 'right' })
+    writer.text(`${line.vat_rate}%`, 375, { align: 'right' })
+    writer.text(formatAmount(line.unit_price), 460, { align: 'right' })
+    writer.text(formatAmount(line.line_total), right, { align: 'right' })
+    writer.newLine()
+  })
+
+  writer.newLine()
+  writer.ensureSpace(LINE_HEIGHT * (vat.breakdown.length + 4))
+  writer.rule()
+
+  writer.text('Subtotal excl. VAT', 460, { align: 'right' })
+  writer.text(formatAmount(vat.subtotalExclVat), right, { align: 'right' })
+  writer.newLine()
+
+  vat.breakdown.forEach(line => {
+    writer.text(`VAT ${line.rate}% over ${formatAmount(line.net)}`, 460, { align: 'right' })
+    writer.text(formatAmount(line.vat), right, { align: 'right' })
+    writer.newLine()
+  })
+
+  writer.text('Total incl. VAT', 460, { bold: true, align: 'right' })
+  writer.text(formatAmount(vat.totalInclVat), right, { bold: true, align: 'right' })
+  writer.newLine(2)
+
+  if (order.status === 'refunded') {
+    writer.text('This order has been refunded.', MARGIN, { muted: true })
+    writer.newLine()
+  } else if (Number(order.refunded_amount || 0) > 0) {
+    writer.text(`${formatAmount(Number(order.refunded_amount))} of this order has been refunded.`, MARGIN, { muted: true })
+    writer.newLine()
+  }
+}
+
+/**
+ * Adds the packing slip pages for one order to the document (no prices)
+ */
+export async function renderPackingSlip(doc: PDFDocument, data: OrderDocumentData): Promise<void> {
+  const { order, lines } = data
+  const writer = await createWriter(doc, `${SELLER_DETAILS.name} · Packing slip ${order.order_number}`)
+  const right = PAGE_SIZE[0] - MARGIN
+
+  drawHeader(writer, 'PACKING SLIP', [
+    ['Order number', order.order_number],
+    ['Order date', format(new Date(order.created_at), 'dd-MM-yyyy')],
+  ])
+  drawAddress(writer, 'Ship to', data)
+
+  writer.tableHeader([
+    { label: 'Product', x: MARGIN },
+    { label: 'Qty', x: 430, align: 'right' },
+    { label: 'Packed', x: right, align: 'right' },
+  ])
+
+  lines.forEach(line => {
+    writer.ensureSpace(LINE_HEIGHT)
+    writer.text(writer.fit(line.name, 350), MARGIN)
+    writer.text(String(line.quantity), 430, { align: 'right' })
+    writer.text('[   ]', right, { align: 'right' })
+    writer.newLine()
+  })
+
+  writer.newLine()
+  writer.rule()
+  writer.text('Total items', 380, { bold: true, align: 'right' })
+  writer.text(String(lines.reduce((sum, line) => sum + line.quantity, 0)), 430, { bold: true, align: 'right' })
+}
@@ -0,0 +1,275 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PDFDocument } from 'pdf-lib'
+import { format } from 'date-fns'
+import type { OrderDocumentService } from '../types/services'
+import type {
+  DocumentExportResult,
+  InvoiceDocumentData,
+  InvoiceRecord,
+  OrderDocumentData,
+  OrderDocumentOptions,
+  OrderDocumentType,
+  RenderedDocument
+} from '../types/documents'
+import {
+  DOCUMENT_TABLES,
+  INVOICEABLE_ORDER_STATUSES,
+  INVOICE_NUMBER_DIGITS,
+  INVOICE_NUMBER_MAX_RETRIES,
+  INVOICE_NUMBER_PREFIX,
+  MAX_BATCH_EXPORT_ORDERS
+} from '../constants/documents'
+import { createDocumentError, createOrderError, isDocumentError, isOrderDocumentType } from '../utils/typeGuards'
+import { calculateVatTotals } from '../utils/vat'
+import { fetchOrderWithItems } from './orderQueries'
+import { PricingServiceImpl } from './pricingService'
+import { renderInvoice, renderPackingSlip } from './orderDocumentRenderer'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Formats an invoice sequence as W4C-000123
+ */
+export function formatInvoiceNumber(sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIX}-${String(sequence).padStart(INVOICE_NUMBER_DIGITS, '0')}`
+}
+
+/**
+ * The data an invoice is rendered from. An issued invoice keeps the lines and totals it was
+ * issued with, even when prices or VAT rates change afterwards
+ */
+export function toInvoiceDocumentData(data: OrderDocumentData, invoice: InvoiceRecord): InvoiceDocumentData {
+  // Invoices from before the lines were stored only have their totals; the breakdown uses today's lines
+  const lines = invoice.lines?.length ? invoice.lines : data.lines
+
+  return {
+    ...data,
+    lines,
+    invoice,
+    vat: {
+      subtotalExclVat: Number(invoice.subtotal_excl_vat),
+      vatAmount: Number(invoice.vat_amount),
+      totalInclVat: Number(invoice.total_incl_vat),
+      breakdown: calculateVatTotals(lines).breakdown,
+    },
+  }
+}
+
+/**
+ * Order Document Service Implementation
+ *
+ * Produces invoice and packing slip PDFs for orders:
+ * - One invoice per order, numbered from a gapless sequence in the invoices table; re-rendering
+ *   an invoice shows the lines and totals it was issued with
+ * - VAT breakdown per rate (shop prices include VAT), at the rates for the customer's country
+ * - Batch export of many orders into a single PDF
+ */
+export class OrderDocumentServiceImpl implements OrderDocumentService {
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  /**
+   * Loads the order and its lines in document form
+   */
+  async loadDocumentData(orderId: string): Promise<OrderDocumentData> {
+    const { order, items } = await fetchOrderWithItems(this.supabase, orderId)
+    const pricing = await new PricingServiceImpl(this.supabase).priceOrder(order, items)
+
+    return {
+      order,
+      lines: pricing.lines.map(line => ({
+        product_id: line.product_id,
+        name: line.name,
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+        line_total: line.gross,
+        vat_rate: line.vat_rate,
+      })),
+    }
+  }
+
+  /**
+   * Gets the invoice of an order, issuing the next invoice number on first use
+   */
+  async getOrCreateInvoice(data: OrderDocumentData, options: OrderDocumentOptions = {}): Promise<InvoiceRecord> {
+    const { order } = data
+    const existing = await this.findInvoice(order.id)
+
+    if (existing) {
+      return existing
+    }
+
+    if (!INVOICEABLE_ORDER_STATUSES.includes(order.status)) {
+      throw createDocumentError('invoice_not_allowed', `Order ${order.order_number} has not been paid and cannot be invoiced`, {
+        orderId: order.id,
+        status: order.status,
+      })
+    }
+
+    const vat = calculateVatTotals(data.lines)
+
+    for (let attempt = 0; attempt < INVOICE_NUMBER_MAX_RETRIES; attempt++) {
+      const { data: last, error: lastError } = await this.supabase
+        .from(DOCUMENT_TABLES.INVOICES)
+        .select('sequence')
+        .order('sequence', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (lastError) {
+        throw createOrderError('database_error', lastError.message, { orderId: order.id })
+      }
+
+      const sequence = (last?.sequence || 0) + 1
+      const record: InvoiceRecord = {
+        order_id: order.id,
+        sequence,
+        invoice_number: formatInvoiceNumber(sequence),
+        issued_at: new Date().toISOString(),
+        subtotal_excl_vat: vat.subtotalExclVat,
+        vat_amount: vat.vatAmount,
+        total_incl_vat: vat.totalInclVat,
+        lines: data.lines,
+        created_by: options.createdBy || null,
+      }
+
+      const { data: created, error: insertError } = await this.supabase
+        .from(DOCUMENT_TABLES.INVOICES)
+        .insert(record)
+        .select()
+        .single()
+
+      if (!insertError) {
+        return (created as InvoiceRecord) || record
+      }
+
+      if (insertError.code !== UNIQUE_VIOLATION) {
+        throw createOrderError('database_error', insertError.message, { orderId: order.id })
+      }
+
+      // Someone else took this number, or invoiced this order at the same time
+      const concurrent = await this.findInvoice(order.id)
+      if (concurrent) {
+        return concurrent
+      }
+    }
+
+    throw createDocumentError('invoice_number_conflict', 'Could not reserve an invoice number. Please try again.', {
+      orderId: order.id,
+    })
+  }
+
+  /**
+   * Renders the invoice or packing slip of one order
+   */
+  async renderDocument(orderId: string, type: OrderDocumentType, options: OrderDocumentOptions = {}): Promise<RenderedDocument> {
+    this.assertDocumentType(type)
+
+    const doc = await PDFDocument.create()
+    const data = await this.loadDocumentData(orderId)
+    const filename = await this.addDocument(doc, type, data, options)
+
+    return {
+      filename,
+      contentType: 'application/pdf',
+      bytes: await doc.save(),
+    }
+  }
+
+  /**
+   * Renders the documents of many orders into one PDF, skipping orders that can't be invoiced
+   */
+  async exportDocuments(orderIds: string[], type: OrderDocumentType, options: OrderDocumentOptions = {}): Promise<DocumentExportResult> {
+    this.assertDocumentType(type)
+
+    const uniqueIds = Array.from(new Set(orderIds))
+    if (uniqueIds.length > MAX_BATCH_EXPORT_ORDERS) {
+      throw createDocumentError('too_many_orders', `You can export at most ${MAX_BATCH_EXPORT_ORDERS} orders at once`, {
+        count: uniqueIds.length,
+      })
+    }
+
+    const doc = await PDFDocument.create()
+    const exported: string[] = []
+    const skipped: string[] = []
+
+    // Sequential on purpose: invoice numbers must follow the export order
+    for (const orderId of uniqueIds) {
+      const data = await this.loadDocumentData(orderId)
+
+      try {
+        await this.addDocument(doc, type, data, options)
+        exported.push(orderId)
+      } catch (error) {
+        if (isDocumentError(error) && error.type === 'invoice_not_allowed') {
+          skipped.push(orderId)
+          continue
+        }
+        throw error
+      }
+    }
+
+    if (exported.length === 0) {
+      throw createDocumentError('invoice_not_allowed', 'None of the selected orders can be invoiced', { skipped })
+    }
+
+    const prefix = type === 'invoice' ? 'invoices' : 'packing-slips'
+
+    return {
+      document: {
+        filename: `${prefix}-${format(new Date(), 'yyyyMMdd-HHmm')}.pdf`,
+        contentType: 'application/pdf',
+        bytes: await doc.save(),
+      },
+      exported,
+      skipped,
+    }
+  }
+
+  private async findInvoice(orderId: string): Promise<InvoiceRecord | null> {
+    const { data, error } = await this.supabase
+      .from(DOCUMENT_TABLES.INVOICES)
+      .select('*')
+      .eq('order_id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return (data as InvoiceRecord) || null
+  }
+
+  private async addDocument(
+    doc: PDFDocument,
+    type: OrderDocumentType,
+    data: OrderDocumentData,
+    options: OrderDocumentOptions
+  ): Promise<string> {
+    if (type === 'packing_slip') {
+      await renderPackingSlip(doc, data)
+      return `packing-slip-${data.order.order_number}.pdf`
+    }
+
+    const invoice = await this.getOrCreateInvoice(data, options)
+    await renderInvoice(doc, toInvoiceDocumentData(data, invoice))
+    return `invoice-${invoice.invoice_number}.pdf`
+  }
+
+  private assertDocumentType(type: unknown): asserts type is OrderDocumentType {
+    if (!isOrderDocumentType(type)) {
+      throw createDocumentError('invalid_document_type', `Unknown document type: ${type}`, { type })
+    }
+  }
+}
+
+/**
+ * Factory function to create OrderDocumentService instance
+ */
+export function createOrderDocumentService(supabase: SupabaseClient): OrderDocumentService {
+  return new OrderDocumentServiceImpl(supabase)
+}
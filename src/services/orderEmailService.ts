@@ -0,0 +1,206 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OrderEmailService } from '../types/services'
+import type { ShipmentRecord } from '../types/shipments'
+import type {
+  MailConfig,
+  MailTransport,
+  OrderEmailData,
+  OrderEmailLogRecord,
+  OrderEmailTemplate,
+  RenderedEmail,
+  SendOrderEmailsOptions,
+  SendOrderEmailsResult
+} from '../types/email'
+import { ORDER_TABLES } from '../constants/orders'
+import {
+  DEFAULT_ORDER_EMAIL_TEMPLATES,
+  EMAIL_TABLES,
+  ORDER_EMAIL_RECIPIENTS
+} from '../constants/email'
+import { CARRIER_LABELS, SHIPMENT_TABLES } from '../constants/shipments'
+import { createEmailError, createOrderError, isOrderEmailTemplate } from '../utils/typeGuards'
+import { ORDER_EMAIL_RENDERERS } from './orderEmailTemplates'
+import { fetchOrderWithItems } from './orderQueries'
+import { roundCurrency } from '../utils/vat'
+import { getTrackingUrl } from '../utils/tracking'
+
+export type OrderEmailSenderConfig = Pick<MailConfig, 'from' | 'notificationTo' | 'replyTo'>
+
+/**
+ * Order Email Service Implementation
+ *
+ * Renders the order templates, sends them through the injected MailTransport
+ * and records every attempt (sent or failed) in the order_email_log table.
+ */
+export class OrderEmailServiceImpl implements OrderEmailService {
+  private supabase: SupabaseClient
+  private transport: MailTransport
+  private config: OrderEmailSenderConfig
+
+  constructor(supabase: SupabaseClient, transport: MailTransport, config: OrderEmailSenderConfig) {
+    this.supabase = supabase
+    this.transport = transport
+    this.config = config
+  }
+
+  /**
+   * Loads the order with its items and product names, and optionally its parcels
+   */
+  async loadOrderEmailData(orderId: string, options: { withShipments?: boolean } = {}): Promise<OrderEmailData> {
+    const { order, items } = await fetchOrderWithItems(this.supabase, orderId)
+    let shipments: OrderEmailData['shipments']
+
+    if (options.withShipments) {
+      const { data, error } = await this.supabase
+        .from(SHIPMENT_TABLES.SHIPMENTS)
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw createOrderError('database_error', error.message, { orderId })
+      }
+
+      shipments = ((data || []) as ShipmentRecord[]).map(shipment => ({
+        carrier: CARRIER_LABELS[shipment.carrier] ?? shipment.carrier,
+        tracking_number: shipment.tracking_number,
+        tracking_url: getTrackingUrl(shipment.carrier, shipment.tracking_number, order),
+      }))
+    }
+
+    return {
+      order,
+      items: items.map(item => ({
+        product_id: item.product_id,
+        name: item.product_name,
+        quantity: item.quantity,
+        unit_price: Number(item.price),
+        line_total: roundCurrency(item.quantity * Number(item.price)),
+      })),
+      shipments,
+    }
+  }
+
+  /**
+   * Renders a template without sending it
+   */
+  render(template: OrderEmailTemplate, data: OrderEmailData): RenderedEmail {
+    const renderer = ORDER_EMAIL_RENDERERS[template]
+
+    if (!renderer) {
+      throw createEmailError('invalid_template', `Unknown email template: ${template}`, { template })
+    }
+
+    return renderer(data)
+  }
+
+  /**
+   * Sends the order emails and records every attempt in the send log
+   */
+  async sendOrderEmails(orderId: string, options: SendOrderEmailsOptions = {}): Promise<SendOrderEmailsResult> {
+    const templates = options.templates && options.templates.length > 0
+      ? options.templates
+      : [...DEFAULT_ORDER_EMAIL_TEMPLATES]
+
+    const unknownTemplates = templates.filter(template => !isOrderEmailTemplate(template))
+    if (unknownTemplates.length > 0) {
+      throw createEmailError('invalid_template', `Unknown email templates: ${unknownTemplates.join(', ')}`, {
+        templates: unknownTemplates,
+      })
+    }
+
+    const data = await this.loadOrderEmailData(orderId, { withShipments: templates.includes('order_shipped') })
+    const log: OrderEmailLogRecord[] = []
+
+    // Send one at a time so a failing template doesn't stop the others
+    for (const template of templates) {
+      const recipient = ORDER_EMAIL_RECIPIENTS[template] === 'customer' ? data.order.customer_email : this.config.notificationTo
+      const rendered = this.render(template, data)
+      const entry: OrderEmailLogRecord = {
+        order_id: orderId,
+        template,
+        recipient,
+        subject: rendered.subject,
+        status: 'sent',
+        transport: this.transport.name,
+        message_id: null,
+        error: null,
+        sent_by: options.sentBy || null,
+      }
+
+      try {
+        const result = await this.transport.send({
+          from: this.config.from,
+          to: recipient,
+          replyTo: template === 'order_notification' ? data.order.customer_email : this.config.replyTo,
+          ...rendered,
+        })
+        entry.message_id = result.messageId
+      } catch (error) {
+        console.error(`[OrderEmailService] Failed to send ${template} for order ${orderId}:`, error)
+        entry.status = 'failed'
+        entry.error = error instanceof Error ? error.message : String(error)
+      }
+
+      log.push(entry)
+    }
+
+    const { data: savedLog, error: logError } = await this.supabase
+      .from(EMAIL_TABLES.ORDER_EMAIL_LOG)
+      .insert(log)
+      .select()
+
+    if (logError) {
+      // The emails went out (or failed) regardless; don't hide that result over the log write
+      console.error('[OrderEmailService] Failed to record send log:', logError)
+    }
+
+    const emailsSent = log.every(entry => entry.status === 'sent')
+
+    // The shipped email alone doesn't count as the order's emails being sent
+    if (emailsSent && templates.some(template => DEFAULT_ORDER_EMAIL_TEMPLATES.includes(template))) {
+      const { error: updateError } = await this.supabase
+        .from(ORDER_TABLES.ORDERS)
+        .update({ emails_sent: true })
+        .eq('id', orderId)
+
+      if (updateError) {
+        console.error('[OrderEmailService] Failed to mark order emails as sent:', updateError)
+      }
+    }
+
+    return {
+      orderId,
+      emailsSent,
+      log: (savedLog as OrderEmailLogRecord[] | null) || log,
+    }
+  }
+
+  /**
+   * Gets the send log of an order, newest first
+   */
+  async getSendLog(orderId: string): Promise<OrderEmailLogRecord[]> {
+    const { data, error } = await this.supabase
+      .from(EMAIL_TABLES.ORDER_EMAIL_LOG)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return (data || []) as OrderEmailLogRecord[]
+  }
+}
+
+/**
+ * Factory function to create OrderEmailService instance
+ */
+export function createOrderEmailService(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  config: OrderEmailSenderConfig
+): OrderEmailService {
+  return new OrderEmailServiceImpl(supabase, transport, config)
+}
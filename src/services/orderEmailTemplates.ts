@@ -0,0 +1,222 @@
+import type {
+  EmailTemplateRenderer,
+  OrderEmailData,
+  OrderEmailItem,
+  OrderEmailShipment,
+  OrderEmailTemplate
+} from '../types/email'
+import type { Order } from '../types/orders'
+import { formatMoney } from '../utils/currency'
+
+/**
+ * Order email templates
+ *
+ * Each template renders a subject plus HTML and plain-text bodies from the
+ * order, its items and the product names loaded by OrderEmailService.
+ */
+
+/**
+ * Escapes customer-provided values before they are placed in HTML
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function customerName(order: Order): string {
+  return `${order.customer_first_name} ${order.customer_last_name}`.trim()
+}
+
+function addressLines(order: Order): string[] {
+  return [
+    customerName(order),
+    order.customer_address,
+    `${order.customer_postal_code} ${order.customer_city}`.trim(),
+    order.customer_country,
+  ].filter(Boolean)
+}
+
+function itemsTableHtml(items: OrderEmailItem[], order: Order): string {
+  const formatAmount = (amount: number) => formatMoney(amount, order.currency)
+  const rows = items.map(item => `
+        <tr>
+          <td style="padding:6px 8px;border-bottom:1px solid #eee">${escapeHtml(item.name)}</td>
+          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:center">${item.quantity}</td>
+          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatAmount(item.unit_price)}</td>
+          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatAmount(item.line_total)}</td>
+        </tr>`).join('')
+
+  return `
+      <table style="width:100%;border-collapse:collapse;font-size:14px">
+        <thead>
+          <tr>
+            <th style="padding:6px 8px;text-align:left;border-bottom:2px solid #ddd">Product</th>
+            <th style="padding:6px 8px;text-align:center;border-bottom:2px solid #ddd">Qty</th>
+            <th style="padding:6px 8px;text-align:right;border-bottom:2px solid #ddd">Price</th>
+            <th style="padding:6px 8px;text-align:right;border-bottom:2px solid #ddd">Subtotal</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colspan="3" style="padding:8px;text-align:right;font-weight:bold">Total</td>
+            <td style="padding:8px;text-align:right;font-weight:bold">${formatAmount(order.total_amount)}</td>
+          </tr>
+        </tfoot>
+      </table>`
+}
+
+function itemsText(items: OrderEmailItem[], order: Order): string {
+  const formatAmount = (amount: number) => formatMoney(amount, order.currency)
+  const lines = items.map(item =>
+    `- ${item.name} x ${item.quantity} à ${formatAmount(item.unit_price)} = ${formatAmount(item.line_total)}`
+  )
+  return [...lines, '', `Total: ${formatAmount(order.total_amount)}`].join('\n')
+}
+
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,sans-serif;color:#222">
+    <div style="max-width:600px;margin:0 auto;background:#fff;padding:24px;border-radius:8px">
+      <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(title)}</h1>${body}
+    </div>
+  </body>
+</html>`
+}
+
+/**
+ * Confirmation sent to the customer
+ */
+export const orderConfirmationTemplate: EmailTemplateRenderer<OrderEmailData> = ({ order, items }) => {
+  const subject = `Your order ${order.order_number} - Whisky for Charity`
+  const address = addressLines(order)
+
+  const html = layout(`Thank you for your order, ${order.customer_first_name}!`, `
+      <p>We have received your order <strong>${escapeHtml(order.order_number)}</strong>. An overview is below.</p>
+      ${itemsTableHtml(items, order)}
+      <h2 style="font-size:16px;margin:24px 0 8px">Shipping address</h2>
+      <p style="margin:0">${address.map(escapeHtml).join('<br>')}</p>
+      <p style="margin-top:24px">Kind regards,<br>Whisky for Charity</p>`)
+
+  const text = [
+    `Thank you for your order, ${order.customer_first_name}!`,
+    '',
+    `We have received your order ${order.order_number}.`,
+    '',
+    itemsText(items, order),
+    '',
+    'Shipping address:',
+    ...address,
+    '',
+    'Kind regards,',
+    'Whisky for Charity',
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+/**
+ * Notification sent to the shop team
+ */
+export const orderNotificationTemplate: EmailTemplateRenderer<OrderEmailData> = ({ order, items }) => {
+  const subject = `New order ${order.order_number} (${formatMoney(order.total_amount, order.currency)})`
+  const address = addressLines(order)
+
+  const html = layout(`New order ${order.order_number}`, `
+      <p>
+        Customer: <strong>${escapeHtml(customerName(order))}</strong>
+        (<a href="mailto:${escapeHtml(order.customer_email)}">${escapeHtml(order.customer_email)}</a>)<br>
+        Status: ${escapeHtml(order.status)}<br>
+        Payment reference: ${escapeHtml(order.payment_reference || '-')}
+      </p>
+      ${itemsTableHtml(items, order)}
+      <h2 style="font-size:16px;margin:24px 0 8px">Shipping address</h2>
+      <p style="margin:0">${address.map(escapeHtml).join('<br>')}</p>`)
+
+  const text = [
+    `New order ${order.order_number}`,
+    '',
+    `Customer: ${customerName(order)} <${order.customer_email}>`,
+    `Status: ${order.status}`,
+    `Payment reference: ${order.payment_reference || '-'}`,
+    '',
+    itemsText(items, order),
+    '',
+    'Shipping address:',
+    ...address,
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+function shipmentsHtml(shipments: OrderEmailShipment[]): string {
+  const rows = shipments.map((shipment, index) => {
+    const tracking = shipment.tracking_url
+      ? `<a href="${escapeHtml(shipment.tracking_url)}">${escapeHtml(shipment.tracking_number)}</a>`
+      : escapeHtml(shipment.tracking_number || 'Tracking code follows')
+
+    return `
+        <li style="margin-bottom:4px">${shipments.length > 1 ? `Parcel ${index + 1}: ` : ''}${escapeHtml(shipment.carrier)} - ${tracking}</li>`
+  }).join('')
+
+  return `
+      <ul style="padding-left:20px">${rows}
+      </ul>`
+}
+
+function shipmentsText(shipments: OrderEmailShipment[]): string {
+  return shipments.map((shipment, index) => {
+    const prefix = shipments.length > 1 ? `Parcel ${index + 1}: ` : ''
+    const tracking = shipment.tracking_url || shipment.tracking_number || 'tracking code follows'
+    return `- ${prefix}${shipment.carrier}: ${tracking}`
+  }).join('\n')
+}
+
+/**
+ * Shipping confirmation sent to the customer, with a tracking link per parcel
+ */
+export const orderShippedTemplate: EmailTemplateRenderer<OrderEmailData> = ({ order, items, shipments = [] }) => {
+  const subject = `Your order ${order.order_number} has shipped - Whisky for Charity`
+  const address = addressLines(order)
+  const tracked = shipments.some(shipment => shipment.tracking_number)
+  const intro = tracked
+    ? 'Good news: your order is on its way. You can follow your parcel with the link below.'
+    : 'Good news: your order is on its way.'
+
+  const html = layout(`Your order has shipped, ${order.customer_first_name}!`, `
+      <p>${escapeHtml(intro)} Order <strong>${escapeHtml(order.order_number)}</strong>.</p>
+      ${shipments.length > 0 ? shipmentsHtml(shipments) : ''}
+      ${itemsTableHtml(items, order)}
+      <h2 style="font-size:16px;margin:24px 0 8px">Shipping address</h2>
+      <p style="margin:0">${address.map(escapeHtml).join('<br>')}</p>
+      <p style="margin-top:24px">Kind regards,<br>Whisky for Charity</p>`)
+
+  const text = [
+    `Your order has shipped, ${order.customer_first_name}!`,
+    '',
+    `${intro} Order ${order.order_number}.`,
+    ...(shipments.length > 0 ? ['', shipmentsText(shipments)] : []),
+    '',
+    itemsText(items, order),
+    '',
+    'Shipping address:',
+    ...address,
+    '',
+    'Kind regards,',
+    'Whisky for Charity',
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+export const ORDER_EMAIL_RENDERERS: Record<OrderEmailTemplate, EmailTemplateRenderer<OrderEmailData>> = {
+  order_confirmation: orderConfirmationTemplate,
+  order_notification: orderNotificationTemplate,
+  order_shipped: orderShippedTemplate,
+}
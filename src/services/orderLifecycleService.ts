@@ -0,0 +1,170 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OrderLifecycleService, AuditService } from '../types/services'
+import type {
+  OrderStatus,
+  OrderStatusHistoryRecord,
+  OrderTransitionOptions,
+  OrderTransitionResult
+} from '../types/orders'
+import { ORDER_STATUS_TRANSITIONS, ORDER_STATUS_LABELS, ORDER_TABLES, REFUND_ORDER_STATUSES } from '../constants/orders'
+import { createOrderError, isOrderStatus } from '../utils/typeGuards'
+
+/**
+ * Order Lifecycle Service Implementation
+ *
+ * Enforces the order status state machine defined in ORDER_STATUS_TRANSITIONS:
+ * - Rejects unknown statuses and illegal moves (e.g. cancelled → paid)
+ * - Guards against concurrent updates by only writing when the status is unchanged
+ * - Records every transition in order_status_history with author and note
+ * - Writes an audit entry when constructed with an AuditService (server-side)
+ */
+export class OrderLifecycleServiceImpl implements OrderLifecycleService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Checks whether an order may move from one status to another
+   */
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    const allowed = ORDER_STATUS_TRANSITIONS[from]
+    return !!allowed && allowed.includes(to)
+  }
+
+  /**
+   * Lists the statuses an order may move to from its current status
+   */
+  getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+    return [...(ORDER_STATUS_TRANSITIONS[from] || [])]
+  }
+
+  /**
+   * Lists the statuses a user may pick by hand; refund statuses are left to the refund service
+   */
+  getManualTransitions(from: OrderStatus): OrderStatus[] {
+    return this.getAllowedTransitions(from).filter(status => !REFUND_ORDER_STATUSES.includes(status))
+  }
+
+  /**
+   * Validates and applies a status transition, recording it in the status history
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    options: OrderTransitionOptions = {}
+  ): Promise<OrderTransitionResult> {
+    if (!isOrderStatus(to)) {
+      throw createOrderError('invalid_status', `Unknown order status: ${to}`, { orderId, to })
+    }
+
+    const { data: current, error: fetchError } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .select('id, status')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (fetchError) {
+      throw createOrderError('database_error', fetchError.message, { orderId })
+    }
+
+    if (!current) {
+      throw createOrderError('order_not_found', 'Order not found', { orderId })
+    }
+
+    const from = current.status as OrderStatus
+
+    if (!this.canTransition(from, to)) {
+      throw createOrderError(
+        'invalid_transition',
+        `Cannot change order status from ${ORDER_STATUS_LABELS[from] ?? from} to ${ORDER_STATUS_LABELS[to]}`,
+        { orderId, from, to, allowed: this.getAllowedTransitions(from) }
+      )
+    }
+
+    const updatedAt = new Date().toISOString()
+
+    // Only update if nobody changed the status since we read it
+    const { data: updated, error: updateError } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .update({ status: to, updated_at: updatedAt })
+      .eq('id', orderId)
+      .eq('status', from)
+      .select('id, status, updated_at')
+
+    if (updateError) {
+      throw createOrderError('database_error', updateError.message, { orderId })
+    }
+
+    if (!updated || updated.length === 0) {
+      throw createOrderError(
+        'concurrent_update',
+        'Order status was changed by someone else. Please refresh and try again.',
+        { orderId, from, to }
+      )
+    }
+
+    const historyRecord: OrderStatusHistoryRecord = {
+      order_id: orderId,
+      from_status: from,
+      to_status: to,
+      changed_by: options.userId || null,
+      changed_by_email: options.userEmail || null,
+      note: options.note?.trim() || null,
+    }
+
+    const { data: history, error: historyError } = await this.supabase
+      .from(ORDER_TABLES.ORDER_STATUS_HISTORY)
+      .insert(historyRecord)
+      .select()
+      .single()
+
+    if (historyError) {
+      // The status change itself succeeded; don't fail the transition over the audit trail
+      console.error('[OrderLifecycleService] Failed to record status history:', historyError)
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'order.status_changed',
+        actor: { id: historyRecord.changed_by, email: historyRecord.changed_by_email },
+        changes: { status: { from, to } },
+        metadata: historyRecord.note ? { note: historyRecord.note } : null,
+      })
+    }
+
+    return {
+      order: updated[0],
+      history: (history as OrderStatusHistoryRecord) || { ...historyRecord, created_at: updatedAt },
+    }
+  }
+
+  /**
+   * Gets the status history of an order, oldest first
+   */
+  async getHistory(orderId: string): Promise<OrderStatusHistoryRecord[]> {
+    const { data, error } = await this.supabase
+      .from(ORDER_TABLES.ORDER_STATUS_HISTORY)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return (data || []) as OrderStatusHistoryRecord[]
+  }
+}
+
+/**
+ * Factory function to create OrderLifecycleService instance
+ */
+export function createOrderLifecycleService(supabase: SupabaseClient, audit?: AuditService): OrderLifecycleService {
+  return new OrderLifecycleServiceImpl(supabase, audit)
+}
@@ -0,0 +1,185 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OrderNoteService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { CreateOrderNoteInput, MentionableUser, OrderNoteRecord } from '../types/notes'
+import { DATABASE } from '../constants/auth'
+import { NOTE_MAX_LENGTH, NOTE_TABLES } from '../constants/notes'
+import { createNoteError, createOrderError, isValidRole } from '../utils/typeGuards'
+import { extractMentionHandles, getMentionHandle } from '../utils/mentions'
+
+/**
+ * Order Note Service Implementation (server-side)
+ *
+ * Internal notes on an order, threaded one level deep:
+ * - Replies to a reply are attached to the root note of the thread
+ * - @handles are resolved against the dashboard users and stored as user IDs
+ * - Only the author can delete a note, and only while it has no replies
+ */
+export class OrderNoteServiceImpl implements OrderNoteService {
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  /**
+   * Gets all notes of an order, oldest first
+   */
+  async getNotes(orderId: string): Promise<OrderNoteRecord[]> {
+    const { data, error } = await this.supabase
+      .from(NOTE_TABLES.ORDER_NOTES)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return (data || []) as OrderNoteRecord[]
+  }
+
+  /**
+   * Gets the dashboard users that can be @mentioned
+   */
+  async getMentionableUsers(): Promise<MentionableUser[]> {
+    const { data, error } = await this.supabase
+      .from(DATABASE.TABLES.USERS)
+      .select('id, email, role')
+      .order('email', { ascending: true })
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    return ((data || []) as { id: string; email: string | null; role: unknown }[])
+      .filter(user => user.email && isValidRole(user.role))
+      .map(user => ({
+        id: user.id,
+        email: user.email as string,
+        handle: getMentionHandle(user.email as string),
+        role: user.role as MentionableUser['role'],
+      }))
+  }
+
+  /**
+   * Adds a note or a reply and resolves its @mentions
+   */
+  async createNote(orderId: string, input: CreateOrderNoteInput, actor: AuditActor): Promise<OrderNoteRecord> {
+    const content = typeof input.content === 'string' ? input.content.trim() : ''
+
+    if (!content) {
+      throw createNoteError('invalid_note', 'Note cannot be empty', { field: 'content' })
+    }
+
+    if (content.length > NOTE_MAX_LENGTH) {
+      throw createNoteError('invalid_note', `Note cannot be longer than ${NOTE_MAX_LENGTH} characters`, {
+        field: 'content',
+        maxLength: NOTE_MAX_LENGTH,
+      })
+    }
+
+    let parentId: string | null = null
+
+    if (input.parentId) {
+      const parent = await this.fetchNote(orderId, input.parentId)
+      parentId = parent.parent_id ?? parent.id ?? null
+    }
+
+    const mentions = await this.resolveMentions(content, actor.id)
+
+    const record: OrderNoteRecord = {
+      order_id: orderId,
+      parent_id: parentId,
+      author_id: actor.id,
+      author_email: actor.email,
+      content,
+      mentions,
+    }
+
+    const { data, error } = await this.supabase
+      .from(NOTE_TABLES.ORDER_NOTES)
+      .insert(record)
+      .select()
+      .single()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return data as OrderNoteRecord
+  }
+
+  /**
+   * Deletes a note written by the actor that nobody replied to yet
+   */
+  async deleteNote(orderId: string, noteId: string, actor: AuditActor): Promise<void> {
+    const note = await this.fetchNote(orderId, noteId)
+
+    if (!actor.id || note.author_id !== actor.id) {
+      throw createNoteError('note_not_allowed', 'Only the author can delete a note', { orderId, noteId })
+    }
+
+    const { data: replies, error: repliesError } = await this.supabase
+      .from(NOTE_TABLES.ORDER_NOTES)
+      .select('id')
+      .eq('parent_id', noteId)
+      .limit(1)
+
+    if (repliesError) {
+      throw createOrderError('database_error', repliesError.message, { orderId, noteId })
+    }
+
+    if (replies && replies.length > 0) {
+      throw createNoteError('note_not_allowed', 'Notes with replies cannot be deleted', { orderId, noteId })
+    }
+
+    const { error } = await this.supabase
+      .from(NOTE_TABLES.ORDER_NOTES)
+      .delete()
+      .eq('id', noteId)
+      .eq('order_id', orderId)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId, noteId })
+    }
+  }
+
+  private async fetchNote(orderId: string, noteId: string): Promise<OrderNoteRecord> {
+    const { data, error } = await this.supabase
+      .from(NOTE_TABLES.ORDER_NOTES)
+      .select('*')
+      .eq('id', noteId)
+      .eq('order_id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId, noteId })
+    }
+
+    if (!data) {
+      throw createNoteError('note_not_found', 'Note not found', { orderId, noteId })
+    }
+
+    return data as OrderNoteRecord
+  }
+
+  // Handles that don't match a dashboard user are left as plain text; mentioning yourself is ignored
+  private async resolveMentions(content: string, authorId: string | null): Promise<string[]> {
+    const handles = extractMentionHandles(content)
+    if (handles.length === 0) return []
+
+    const users = await this.getMentionableUsers()
+
+    return users
+      .filter(user => handles.includes(user.handle) && user.id !== authorId)
+      .map(user => user.id)
+  }
+}
+
+/**
+ * Factory function to create OrderNoteService instance
+ */
+export function createOrderNoteService(supabase: SupabaseClient): OrderNoteService {
+  return new OrderNoteServiceImpl(supabase)
+}
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Order, OrderItem } from '../types/orders'
+import type { ProductVariant } from '../types/products'
+import { ORDER_TABLES } from '../constants/orders'
+import { PRODUCT_TABLES } from '../constants/products'
+import { createOrderError } from '../utils/typeGuards'
+import { formatVariantLabel } from '../utils/productVariants'
+
+export interface OrderWithItems {
+  order: Order
+  items: (OrderItem & { product_name: string; product_category_id: string | null })[]
+}
+
+/**
+ * Loads an order with its items and product names, shared by the email and document services.
+ * Items of a variant get its label in the name, e.g. "Glen Charity 12 (70 cl · 2012)".
+ * Each item carries its product's category, which decides its VAT rate.
+ * @throws OrderError 'order_not_found' or 'database_error'
+ */
+export async function fetchOrderWithItems(supabase: SupabaseClient, orderId: string): Promise<OrderWithItems> {
+  const { data: order, error: orderError } = await supabase
+    .from(ORDER_TABLES.ORDERS)
+    .select('*')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (orderError) {
+    throw createOrderError('database_error', orderError.message, { orderId })
+  }
+
+  if (!order) {
+    throw createOrderError('order_not_found', 'Order not found', { orderId })
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from(ORDER_TABLES.ORDER_ITEMS)
+    .select('*')
+    .eq('order_id', orderId)
+
+  if (itemsError) {
+    throw createOrderError('database_error', itemsError.message, { orderId })
+  }
+
+  const orderItems = (items || []) as OrderItem[]
+  const productIds = Array.from(new Set(orderItems.map(item => item.product_id)))
+  const products = new Map<string, { name: string; category_id: string | null }>()
+
+  if (productIds.length > 0) {
+    const { data: rows, error: productsError } = await supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('id, name, category_id')
+      .in('id', productIds)
+
+    if (productsError) {
+      throw createOrderError('database_error', productsError.message, { orderId })
+    }
+
+    ;(rows || []).forEach((product: { id: string; name: string; category_id?: string | null }) => {
+      products.set(product.id, { name: product.name, category_id: product.category_id ?? null })
+    })
+  }
+
+  const variantIds = Array.from(new Set(orderItems.map(item => item.variant_id).filter((id): id is string => !!id)))
+  const variants = new Map<string, ProductVariant>()
+
+  if (variantIds.length > 0) {
+    const { data: rows, error: variantsError } = await supabase
+      .from(PRODUCT_TABLES.PRODUCT_VARIANTS)
+      .select('id, sku, bottle_size_ml, vintage, cask, image')
+      .in('id', variantIds)
+
+    if (variantsError) {
+      throw createOrderError('database_error', variantsError.message, { orderId })
+    }
+
+    ;(rows || []).forEach((variant: ProductVariant) => {
+      variants.set(variant.id, variant)
+    })
+  }
+
+  return {
+    order: order as Order,
+    items: orderItems.map(item => {
+      const product = products.get(item.product_id)
+      const productName = product?.name || 'Unknown Product'
+      const variant = item.variant_id ? variants.get(item.variant_id) : undefined
+
+      return {
+        ...item,
+        variant: variant ?? null,
+        product_name: variant ? `${productName} (${formatVariantLabel(variant)})` : productName,
+        product_category_id: product?.category_id ?? null,
+      }
+    }),
+  }
+}
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OrderQueryService } from '../types/services'
+import type {
+  AdjacentOrders,
+  Order,
+  OrderFilterPresetRecord,
+  OrderListFilters,
+  OrderListPage
+} from '../types/orders'
+import { ORDER_FILTER_PRESET_NAME_MAX_LENGTH, ORDER_LIST_PAGE_SIZE, ORDER_TABLES } from '../constants/orders'
+import { createOrderError } from '../utils/typeGuards'
+import { applyOrderFilters, quoteFilterValue } from '../utils/orderFilters'
+
+/**
+ * Order Query Service Implementation
+ *
+ * Read side of the order list:
+ * - Paginated, filtered and searched queries that run in the database
+ * - Keyset prev/next lookups that follow the list's sort order and filters
+ * - Named filter presets per user
+ */
+export class OrderQueryServiceImpl implements OrderQueryService {
+  private supabase: SupabaseClient
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase
+  }
+
+  /**
+   * Gets one page of orders matching the filters
+   */
+  async listOrders(filters: OrderListFilters, page: number = 1, pageSize: number = ORDER_LIST_PAGE_SIZE): Promise<OrderListPage> {
+    const ascending = filters.sortDirection === 'asc'
+    const from = (Math.max(page, 1) - 1) * pageSize
+
+    const { data, error, count } = await applyOrderFilters(
+      this.supabase.from(ORDER_TABLES.ORDERS).select('*', { count: 'exact' }),
+      filters
+    )
+      .order(filters.sortField, { ascending })
+      .order('id', { ascending }) // Tie-breaker so pages and keyset navigation agree
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    const total = count ?? 0
+
+    return {
+      orders: (data || []) as Order[],
+      total,
+      page,
+      pageSize,
+      pageCount: Math.max(Math.ceil(total / pageSize), 1),
+    }
+  }
+
+  /**
+   * Gets the IDs of all orders matching the filters, in list order (up to limit)
+   */
+  async listOrderIds(filters: OrderListFilters, limit: number): Promise<string[]> {
+    const ascending = filters.sortDirection === 'asc'
+
+    const { data, error } = await applyOrderFilters(
+      this.supabase.from(ORDER_TABLES.ORDERS).select('id'),
+      filters
+    )
+      .order(filters.sortField, { ascending })
+      .order('id', { ascending })
+      .limit(limit)
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    return (data || []).map((row: { id: string }) => row.id)
+  }
+
+  /**
+   * Finds the orders before and after an order in the filtered, sorted list
+   */
+  async getAdjacentOrders(orderId: string, filters: OrderListFilters): Promise<AdjacentOrders> {
+    const { sortField, sortDirection } = filters
+
+    const { data: current, error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .select(`id, ${sortField}`)
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    if (!current) {
+      throw createOrderError('order_not_found', 'Order not found', { orderId })
+    }
+
+    const value = quoteFilterValue((current as Record<string, any>)[sortField])
+    const id = quoteFilterValue(orderId)
+
+    // Rows sorting after the current one: greater (asc) or smaller (desc) value, ties broken by id
+    const keyset = (operator: 'gt' | 'lt') =>
+      `${sortField}.${operator}.${value},and(${sortField}.eq.${value},id.${operator}.${id})`
+
+    const lookup = async (operator: 'gt' | 'lt') => {
+      const { data, error: lookupError } = await applyOrderFilters(
+        this.supabase.from(ORDER_TABLES.ORDERS).select('id'),
+        filters
+      )
+        .or(keyset(operator))
+        .order(sortField, { ascending: operator === 'gt' })
+        .order('id', { ascending: operator === 'gt' })
+        .limit(1)
+
+      if (lookupError) {
+        throw createOrderError('database_error', lookupError.message, { orderId })
+      }
+
+      return (data && data[0]?.id) || null
+    }
+
+    const [before, after] = sortDirection === 'asc' ? ['lt', 'gt'] as const : ['gt', 'lt'] as const
+    const [prevId, nextId] = await Promise.all([lookup(before), lookup(after)])
+
+    return { prevId, nextId }
+  }
+
+  /**
+   * Gets the saved filter presets of a user, alphabetically
+   */
+  async listPresets(userId: string): Promise<OrderFilterPresetRecord[]> {
+    const { data, error } = await this.supabase
+      .from(ORDER_TABLES.ORDER_FILTER_PRESETS)
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    return (data || []) as OrderFilterPresetRecord[]
+  }
+
+  /**
+   * Saves a named filter preset, replacing an existing preset with the same name
+   */
+  async savePreset(userId: string, name: string, filters: OrderListFilters): Promise<OrderFilterPresetRecord> {
+    const trimmed = name.trim()
+
+    if (!trimmed || trimmed.length > ORDER_FILTER_PRESET_NAME_MAX_LENGTH) {
+      throw createOrderError('invalid_preset', `Preset name must be 1-${ORDER_FILTER_PRESET_NAME_MAX_LENGTH} characters`, { name })
+    }
+
+    const record: OrderFilterPresetRecord = {
+      user_id: userId,
+      name: trimmed,
+      filters,
+      updated_at: new Date().toISOString(),
+    }
+
+    const { data, error } = await this.supabase
+      .from(ORDER_TABLES.ORDER_FILTER_PRESETS)
+      .upsert(record, { onConflict: 'user_id,name' })
+      .select()
+      .single()
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    return (data as OrderFilterPresetRecord) || record
+  }
+
+  /**
+   * Deletes a filter preset
+   */
+  async deletePreset(presetId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(ORDER_TABLES.ORDER_FILTER_PRESETS)
+      .delete()
+      .eq('id', presetId)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { presetId })
+    }
+  }
+}
+
+/**
+ * Factory function to create OrderQueryService instance
+ */
+export function createOrderQueryService(supabase: SupabaseClient): OrderQueryService {
+  return new OrderQueryServiceImpl(supabase)
+}
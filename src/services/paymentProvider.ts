@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto'
+import type {
+  PaymentConfig,
+  PaymentProvider,
+  PaymentProviderType,
+  PaymentRefundRequest,
+  PaymentRefundResult
+} from '../types/refunds'
+import { DEFAULT_PAYMENT_CONFIG } from '../constants/refunds'
+import { createRefundError } from '../utils/typeGuards'
+
+/**
+ * Payment providers (server-side only)
+ *
+ * - mollie: refunds through the Mollie Payments API; payment references are Mollie payment IDs (tr_...)
+ * - fake: records refunds in memory without moving money (tests, local development)
+ */
+
+/**
+ * Refunds payments through the Mollie REST API
+ */
+export function createMolliePaymentProvider(mollie: PaymentConfig['mollie']): PaymentProvider {
+  return {
+    name: 'mollie',
+    async refund(request: PaymentRefundRequest): Promise<PaymentRefundResult> {
+      if (!mollie.apiKey) {
+        throw createRefundError('configuration_error', 'MOLLIE_API_KEY is not set')
+      }
+
+      const response = await fetch(`${mollie.apiUrl}/payments/${encodeURIComponent(request.paymentReference)}/refunds`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${mollie.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount: { currency: request.currency, value: request.amount.toFixed(2) },
+          description: request.description,
+          metadata: request.metadata,
+        }),
+      })
+
+      const body = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        throw createRefundError('provider_error', body?.detail || `Mollie refund failed with status ${response.status}`, {
+          status: response.status,
+          paymentReference: request.paymentReference,
+        })
+      }
+
+      return {
+        providerRefundId: body.id,
+        status: body.status === 'refunded' ? 'refunded' : body.status === 'processing' ? 'processing' : 'pending',
+      }
+    },
+  }
+}
+
+export interface FakePaymentProvider extends PaymentProvider {
+  readonly refunds: (PaymentRefundRequest & { providerRefundId: string })[]
+  /** Makes the next refund call fail with the given message */
+  failNext(message: string): void
+}
+
+/**
+ * Accepts every refund and keeps it in memory; useful for asserting on refunds in tests
+ */
+export function createFakePaymentProvider(): FakePaymentProvider {
+  const refunds: (PaymentRefundRequest & { providerRefundId: string })[] = []
+  let nextFailure: string | null = null
+
+  return {
+    name: 'fake',
+    refunds,
+    failNext(message: string) {
+      nextFailure = message
+    },
+    async refund(request: PaymentRefundRequest): Promise<PaymentRefundResult> {
+      if (nextFailure) {
+        const message = nextFailure
+        nextFailure = null
+        throw createRefundError('provider_error', message, { paymentReference: request.paymentReference })
+      }
+
+      const providerRefundId = `re_fake_${randomUUID()}`
+      refunds.push({ ...request, providerRefundId })
+      return { providerRefundId, status: 'refunded' }
+    },
+  }
+}
+
+const PROVIDER_TYPES: PaymentProviderType[] = ['mollie', 'fake']
+
+/**
+ * Reads the payment configuration from PAYMENT_* and MOLLIE_* environment variables
+ */
+export function getPaymentConfig(env: Record<string, string | undefined> = process.env): PaymentConfig {
+  const provider = (env.PAYMENT_PROVIDER || DEFAULT_PAYMENT_CONFIG.provider) as PaymentProviderType
+
+  if (!PROVIDER_TYPES.includes(provider)) {
+    throw createRefundError('configuration_error', `Unknown PAYMENT_PROVIDER: ${provider}`, { provider })
+  }
+
+  return {
+    provider,
+    currency: env.PAYMENT_CURRENCY || DEFAULT_PAYMENT_CONFIG.currency,
+    mollie: {
+      apiKey: env.MOLLIE_API_KEY,
+      apiUrl: env.MOLLIE_API_URL || DEFAULT_PAYMENT_CONFIG.mollie.apiUrl,
+    },
+  }
+}
+
+/**
+ * Creates the provider selected in the payment configuration
+ */
+export function createPaymentProvider(config: PaymentConfig): PaymentProvider {
+  switch (config.provider) {
+    case 'mollie':
+      return createMolliePaymentProvider(config.mollie)
+    case 'fake':
+      return createFakePaymentProvider()
+  }
+}
@@ -0,0 +1,256 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, PricingService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { Order } from '../types/orders'
+import type { ProductCategory } from '../types/catalog'
+import type { OrderPricing, PricedOrderLine, PricingOrderItem, VatRateInput, VatRateRecord } from '../types/pricing'
+import { DATABASE } from '../constants/auth'
+import { CATALOG_TABLES } from '../constants/catalog'
+import { PRICING_TABLES, VAT_RATE_LIMITS } from '../constants/pricing'
+import { createOrderError, createPricingError } from '../utils/typeGuards'
+import { calculateVatTotals, normalizeCountryCode, resolveVatRate, roundCurrency, splitVat } from '../utils/vat'
+import { getCategoryWithAncestors } from '../utils/catalog'
+import { getOrderCurrency } from '../utils/currency'
+import { fetchOrderWithItems } from './orderQueries'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Pricing Service Implementation
+ *
+ * Prices in the shop include VAT. This service decides which part of that is VAT:
+ * - VAT rates per destination country, optionally per product category
+ * - Net/VAT/gross breakdown of an order in the currency it was placed in
+ */
+export class PricingServiceImpl implements PricingService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Validates a VAT rate payload: { country_code, category_id, rate }
+   */
+  validateVatRateInput(payload: unknown): VatRateInput {
+    if (!isObject(payload)) {
+      throw createPricingError('invalid_vat_rate', 'Request body must be an object')
+    }
+
+    const countryCode = typeof payload.country_code === 'string' ? payload.country_code.trim().toUpperCase() : ''
+    if (!/^[A-Z]{2}$/.test(countryCode)) {
+      throw createPricingError('invalid_vat_rate', 'Country must be a two-letter ISO code, e.g. NL', { field: 'country_code' })
+    }
+
+    const categoryId = payload.category_id ?? null
+    if (categoryId !== null && (typeof categoryId !== 'string' || !categoryId)) {
+      throw createPricingError('invalid_vat_rate', 'category_id must be a category ID or null', { field: 'category_id' })
+    }
+
+    const rate = Number(payload.rate)
+    if (payload.rate === null || payload.rate === '' || !Number.isFinite(rate) || rate < VAT_RATE_LIMITS.MIN || rate > VAT_RATE_LIMITS.MAX) {
+      throw createPricingError('invalid_vat_rate', `VAT rate must be between ${VAT_RATE_LIMITS.MIN} and ${VAT_RATE_LIMITS.MAX}%`, { field: 'rate' })
+    }
+
+    return { country_code: countryCode, category_id: categoryId as string | null, rate: roundCurrency(rate) }
+  }
+
+  /**
+   * Gets all configured VAT rates, per country
+   */
+  async getVatRates(): Promise<VatRateRecord[]> {
+    const { data, error } = await this.supabase
+      .from(PRICING_TABLES.VAT_RATES)
+      .select('*')
+      .order('country_code', { ascending: true })
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    return (data || []) as VatRateRecord[]
+  }
+
+  /**
+   * Sets the VAT rate of a country, or of a category in a country, replacing the rate it had
+   */
+  async saveVatRate(input: VatRateInput, actor: AuditActor): Promise<VatRateRecord> {
+    if (input.category_id) {
+      const { data: category, error: categoryError } = await this.supabase
+        .from(CATALOG_TABLES.CATEGORIES)
+        .select('id')
+        .eq('id', input.category_id)
+        .maybeSingle()
+
+      if (categoryError) {
+        throw createOrderError('database_error', categoryError.message)
+      }
+      if (!category) {
+        throw createPricingError('invalid_vat_rate', 'Category not found', { field: 'category_id', categoryId: input.category_id })
+      }
+    }
+
+    // Looked up rather than upserted: a unique index doesn't treat two null categories as the same
+    const lookup = this.supabase
+      .from(PRICING_TABLES.VAT_RATES)
+      .select('*')
+      .eq('country_code', input.country_code)
+    const { data: existing, error: lookupError } = await (input.category_id
+      ? lookup.eq('category_id', input.category_id)
+      : lookup.is('category_id', null)
+    ).maybeSingle()
+
+    if (lookupError) {
+      throw createOrderError('database_error', lookupError.message)
+    }
+
+    const previous = existing as VatRateRecord | null
+    const { data, error } = previous
+      ? await this.supabase
+        .from(PRICING_TABLES.VAT_RATES)
+        .update({ rate: input.rate, updated_at: new Date().toISOString() })
+        .eq('id', previous.id)
+        .select()
+        .single()
+      : await this.supabase
+        .from(PRICING_TABLES.VAT_RATES)
+        .insert(input)
+        .select()
+        .single()
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    const saved = data as VatRateRecord
+
+    if (this.audit && Number(previous?.rate) !== input.rate) {
+      await this.audit.record({
+        entityType: 'vat_rate',
+        entityId: saved.id,
+        action: 'vat_rate.saved',
+        actor,
+        changes: { rate: { from: previous ? Number(previous.rate) : null, to: input.rate } },
+        metadata: { countryCode: input.country_code, categoryId: input.category_id },
+      })
+    }
+
+    return saved
+  }
+
+  /**
+   * Deletes a VAT rate; its orders fall back to the country's standard rate
+   */
+  async deleteVatRate(vatRateId: string, actor: AuditActor): Promise<void> {
+    const { data, error } = await this.supabase
+      .from(PRICING_TABLES.VAT_RATES)
+      .delete()
+      .eq('id', vatRateId)
+      .select()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { vatRateId })
+    }
+
+    const deleted = (data || [])[0] as VatRateRecord | undefined
+
+    if (!deleted) {
+      throw createPricingError('vat_rate_not_found', 'VAT rate not found', { vatRateId })
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'vat_rate',
+        entityId: vatRateId,
+        action: 'vat_rate.deleted',
+        actor,
+        changes: { rate: { from: Number(deleted.rate), to: null } },
+        metadata: { countryCode: deleted.country_code, categoryId: deleted.category_id },
+      })
+    }
+  }
+
+  /**
+   * Splits the lines of a loaded order into net and VAT, at the rate of their category in the customer's country
+   */
+  async priceOrder(order: Order, items: PricingOrderItem[]): Promise<OrderPricing> {
+    const countryCode = normalizeCountryCode(order.customer_country)
+    const [rates, categories] = await Promise.all([
+      countryCode ? this.getCountryVatRates(countryCode) : Promise.resolve([]),
+      items.some(item => item.product_category_id) ? this.getCategoryParents() : Promise.resolve([]),
+    ])
+
+    const lines: PricedOrderLine[] = items.map(item => {
+      const categoryIds = item.product_category_id ? getCategoryWithAncestors(categories, item.product_category_id) : []
+      const { rate, source } = resolveVatRate(rates, countryCode, categoryIds)
+      const { net, vat, gross } = splitVat(item.quantity * Number(item.price), rate)
+
+      return {
+        order_item_id: item.id,
+        product_id: item.product_id,
+        name: item.product_name,
+        quantity: item.quantity,
+        unit_price: Number(item.price),
+        vat_rate: rate,
+        vat_source: source,
+        net,
+        vat,
+        gross,
+      }
+    })
+
+    return {
+      orderId: order.id,
+      currency: getOrderCurrency(order),
+      countryCode,
+      lines,
+      vat: calculateVatTotals(lines.map(line => ({ line_total: line.gross, vat_rate: line.vat_rate }))),
+      refundedAmount: Number(order.refunded_amount || 0),
+    }
+  }
+
+  /**
+   * Loads an order and gets its net/VAT/gross breakdown
+   */
+  async getOrderPricing(orderId: string): Promise<OrderPricing> {
+    const { order, items } = await fetchOrderWithItems(this.supabase, orderId)
+    return this.priceOrder(order, items)
+  }
+
+  private async getCountryVatRates(countryCode: string): Promise<VatRateRecord[]> {
+    const { data, error } = await this.supabase
+      .from(PRICING_TABLES.VAT_RATES)
+      .select('*')
+      .eq('country_code', countryCode)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { countryCode })
+    }
+
+    return (data || []) as VatRateRecord[]
+  }
+
+  private async getCategoryParents(): Promise<Pick<ProductCategory, 'id' | 'parent_id'>[]> {
+    const { data, error } = await this.supabase
+      .from(CATALOG_TABLES.CATEGORIES)
+      .select('id, parent_id')
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createOrderError('database_error', error.message)
+    }
+
+    return (data || []) as Pick<ProductCategory, 'id' | 'parent_id'>[]
+  }
+}
+
+/**
+ * Factory function to create PricingService instance
+ */
+export function createPricingService(supabase: SupabaseClient, audit?: AuditService): PricingService {
+  return new PricingServiceImpl(supabase, audit)
+}
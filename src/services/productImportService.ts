@@ -0,0 +1,414 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inflateRawSync } from 'zlib'
+import { v4 as uuidv4 } from 'uuid'
+import type { AuditService, ProductImportService, ProductService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { Product, ProductInput } from '../types/products'
+import type { StockChangeOptions } from '../types/inventory'
+import type {
+  ProductImportField,
+  ProductImportFile,
+  ProductImportMapping,
+  ProductImportPreview,
+  ProductImportReport,
+  ProductImportRequest,
+  ProductImportRollbackEntry,
+  ProductImportRowResult,
+  SpreadsheetTable
+} from '../types/productImport'
+import { DATABASE } from '../constants/auth'
+import { PRODUCT_TABLES, VARIANT_DERIVED_FIELDS } from '../constants/products'
+import { INVENTORY_TABLES } from '../constants/inventory'
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  PRODUCT_IMPORT_FORMATS,
+  PRODUCT_IMPORT_LIMITS,
+  PRODUCT_IMPORT_REASONS
+} from '../constants/productImport'
+import { createProductError, createProductImportError, isProductError } from '../utils/typeGuards'
+import { parseCsv } from '../utils/csv'
+import { readXlsx } from '../utils/xlsx'
+import { suggestImportMapping, toProductPayload, withImageAltText } from '../utils/productImport'
+import { diffFields } from './auditService'
+import { createProductService } from './productService'
+
+// Product fields an import row can change, compared in this order
+const IMPORT_FIELDS = PRODUCT_IMPORT_COLUMNS
+  .map(column => column.field)
+  .filter((field): field is Exclude<ProductImportField, 'id'> => field !== 'id')
+
+// Lookups shared by the rows of one preview
+interface ImportContext {
+  byId: Map<string, Product>
+  byName: Map<string, Product[]>
+  claimedBy: Map<string, number> // Product ID, or the name of a new product, to the row that imports it
+}
+
+/**
+ * Product Import Service Implementation
+ *
+ * Imports products from CSV or XLSX spreadsheets:
+ * - Columns mapped to product fields, suggested from the headers
+ * - Rows matched to products by ID, or else by name; unmatched rows create products
+ * - A dry run that validates every row and shows the changes before anything is written
+ * - All-or-nothing apply: after a failing row the rows written before it are undone
+ * - Stock changes recorded in the stock ledger as 'import' movements
+ */
+export class ProductImportServiceImpl implements ProductImportService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+  private products: ProductService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+    this.products = createProductService(supabase, audit)
+  }
+
+  /**
+   * Validates an import request
+   */
+  validateRequest(payload: unknown): ProductImportRequest {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw createProductImportError('invalid_import_file', 'Request body must be an object')
+    }
+
+    const body = payload as Record<string, unknown>
+
+    if (!PRODUCT_IMPORT_FORMATS.includes(body.format as ProductImportRequest['format'])) {
+      throw createProductImportError('invalid_import_file', `Format must be one of: ${PRODUCT_IMPORT_FORMATS.join(', ')}`, { field: 'format' })
+    }
+
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      throw createProductImportError('invalid_import_file', 'The file is empty', { field: 'content' })
+    }
+
+    // Base64 takes four characters for every three bytes
+    const size = body.format === 'xlsx' ? Math.floor(body.content.length * 3 / 4) : body.content.length
+    if (size > PRODUCT_IMPORT_LIMITS.MAX_FILE_BYTES) {
+      throw createProductImportError('invalid_import_file', `The file is larger than ${PRODUCT_IMPORT_LIMITS.MAX_FILE_BYTES / 1024 / 1024} MB`, { field: 'content' })
+    }
+
+    if (body.filename !== undefined && typeof body.filename !== 'string') {
+      throw createProductImportError('invalid_import_file', 'filename must be text', { field: 'filename' })
+    }
+
+    let mapping: ProductImportMapping | undefined
+    if (body.mapping !== undefined && body.mapping !== null) {
+      const fields = PRODUCT_IMPORT_COLUMNS.map(column => column.field)
+
+      if (!Array.isArray(body.mapping) || body.mapping.some(field => field !== null && !fields.includes(field))) {
+        throw createProductImportError('invalid_import_file', 'mapping must list a product field or null per column', { field: 'mapping' })
+      }
+
+      const mapped = (body.mapping as ProductImportMapping).filter((field): field is ProductImportField => field !== null)
+      const duplicate = mapped.find((field, index) => mapped.indexOf(field) !== index)
+      if (duplicate) {
+        const header = PRODUCT_IMPORT_COLUMNS.find(column => column.field === duplicate)?.header
+        throw createProductImportError('invalid_import_file', `${header} is mapped to more than one column`, { field: 'mapping' })
+      }
+
+      mapping = body.mapping as ProductImportMapping
+    }
+
+    return {
+      format: body.format as ProductImportRequest['format'],
+      filename: typeof body.filename === 'string' ? body.filename.trim().slice(0, 255) : undefined,
+      content: body.content,
+      mapping,
+      dryRun: body.dryRun !== false,
+    }
+  }
+
+  /**
+   * Reads the header and data rows of the file
+   */
+  readFile(file: ProductImportFile): SpreadsheetTable {
+    let cells: string[][]
+
+    if (file.format === 'xlsx') {
+      try {
+        cells = readXlsx(new Uint8Array(Buffer.from(file.content, 'base64')), inflateRawSync)
+      } catch (error) {
+        throw createProductImportError('invalid_import_file', error instanceof Error ? error.message : 'The file is not an XLSX workbook')
+      }
+    } else {
+      cells = parseCsv(file.content)
+    }
+
+    const [headerRow, ...rows] = cells
+    const headers = (headerRow || []).map(header => header.trim())
+
+    if (!headers.some(Boolean)) {
+      throw createProductImportError('invalid_import_file', 'The first row must hold the column headers')
+    }
+    if (rows.length > PRODUCT_IMPORT_LIMITS.MAX_ROWS) {
+      throw createProductImportError('invalid_import_file', `The file has more than ${PRODUCT_IMPORT_LIMITS.MAX_ROWS} rows; split it into smaller files`)
+    }
+
+    return { headers, rows }
+  }
+
+  /**
+   * Dry run: validates and compares every row without writing anything
+   */
+  async preview(request: ProductImportRequest): Promise<ProductImportPreview> {
+    const table = this.readFile(request)
+    const mapping = request.mapping ?? suggestImportMapping(table.headers)
+
+    if (mapping.length > table.headers.length) {
+      throw createProductImportError('invalid_import_file', 'The mapping has more columns than the file', { field: 'mapping' })
+    }
+    if (!mapping.includes('id') && !mapping.includes('name')) {
+      throw createProductImportError('invalid_import_file', 'Map a column to ID or Name to match the rows with products', { field: 'mapping' })
+    }
+
+    const products = await this.loadProducts()
+    const context: ImportContext = {
+      byId: new Map(products.map(product => [product.id, product])),
+      byName: new Map(),
+      claimedBy: new Map(),
+    }
+    products.forEach(product => {
+      const key = product.name.trim().toLowerCase()
+      context.byName.set(key, [...(context.byName.get(key) || []), product])
+    })
+
+    const rows: ProductImportRowResult[] = []
+    table.rows.forEach((cells, index) => {
+      // Blank lines are skipped but still counted, so row numbers match the spreadsheet
+      if (cells.some(cell => cell.trim())) {
+        rows.push(this.previewRow(index + 2, cells, mapping, context))
+      }
+    })
+
+    return {
+      headers: table.headers,
+      mapping,
+      rows,
+      summary: {
+        create: rows.filter(row => row.action === 'create').length,
+        update: rows.filter(row => row.action === 'update').length,
+        unchanged: rows.filter(row => row.action === 'unchanged').length,
+        error: rows.filter(row => row.action === 'error').length,
+      },
+    }
+  }
+
+  /**
+   * Applies the import, undoing the written rows when one fails
+   */
+  async apply(request: ProductImportRequest, actor: AuditActor): Promise<ProductImportReport> {
+    const { rows } = await this.preview(request)
+    const failing = rows.filter(row => row.action === 'error')
+
+    if (failing.length > 0) {
+      throw createProductImportError(
+        'import_has_errors',
+        `${failing.length} ${failing.length === 1 ? 'row has' : 'rows have'} errors; fix them and try again`,
+        { rows: failing.map(row => row.rowNumber) }
+      )
+    }
+
+    const importId = uuidv4()
+    const stockChange: StockChangeOptions = {
+      type: 'import',
+      reason: request.filename ? `${PRODUCT_IMPORT_REASONS.IMPORT}: ${request.filename}` : PRODUCT_IMPORT_REASONS.IMPORT,
+      referenceId: importId,
+    }
+    const applied: { row: ProductImportRowResult; productId: string }[] = []
+
+    for (const row of rows) {
+      if (row.action !== 'create' && row.action !== 'update') continue
+
+      try {
+        if (row.action === 'create') {
+          const product = await this.products.createProduct(row.input as ProductInput, actor, stockChange)
+          applied.push({ row, productId: product.id })
+        } else {
+          await this.products.updateProduct(row.productId as string, row.input as Partial<ProductInput>, actor, stockChange)
+          applied.push({ row, productId: row.productId as string })
+        }
+      } catch (error) {
+        console.error(`[ProductImportService] Row ${row.rowNumber} failed, rolling back:`, error)
+
+        const rollback: ProductImportRollbackEntry[] = []
+        for (const entry of applied.reverse()) {
+          rollback.push(await this.undoRow(entry.row, entry.productId, importId, actor))
+        }
+
+        return {
+          importId,
+          status: 'rolled_back',
+          created: 0,
+          updated: 0,
+          failedRow: row.rowNumber,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          rollback,
+        }
+      }
+    }
+
+    return {
+      importId,
+      status: 'applied',
+      created: applied.filter(entry => entry.row.action === 'create').length,
+      updated: applied.filter(entry => entry.row.action === 'update').length,
+      failedRow: null,
+      error: null,
+      rollback: [],
+    }
+  }
+
+  // Matches one row with a product and validates it like the product form
+  private previewRow(
+    rowNumber: number,
+    cells: string[],
+    mapping: ProductImportMapping,
+    context: ImportContext
+  ): ProductImportRowResult {
+    const { id, payload, errors } = toProductPayload(cells, mapping)
+    const name = typeof payload.name === 'string' ? payload.name.trim() : ''
+    let target: Product | undefined
+
+    if (id) {
+      target = context.byId.get(id)
+      if (!target) errors.push(`No product with ID ${id}`)
+    } else if (name) {
+      const matches = context.byName.get(name.toLowerCase()) || []
+      if (matches.length > 1) errors.push(`${matches.length} products are called "${name}"; add the ID column to choose one`)
+      target = matches.length === 1 ? matches[0] : undefined
+    } else {
+      errors.push('ID or Name is required')
+    }
+
+    const claimKey = target ? target.id : `new:${name.toLowerCase()}`
+    const claimedBy = context.claimedBy.get(claimKey)
+    if (claimedBy) {
+      errors.push(`Row ${claimedBy} already imports this product`)
+    } else {
+      context.claimedBy.set(claimKey, rowNumber)
+    }
+
+    const result: ProductImportRowResult = {
+      rowNumber,
+      action: 'error',
+      productId: target?.id ?? null,
+      productName: name || target?.name || '',
+      input: null,
+      changes: {},
+      errors,
+    }
+
+    if (errors.length > 0) return result
+
+    try {
+      if (!target) {
+        // New products stay hidden from the shop unless the file says otherwise
+        const input = this.products.validateInput({ is_active: false, ...withImageAltText(payload) }) as ProductInput
+        return { ...result, action: 'create', input, changes: diffFields<ProductInput>({}, input, IMPORT_FIELDS) }
+      }
+
+      const validated = Object.keys(payload).length > 0 ? this.products.validateInput(withImageAltText(payload, target), true) : {}
+      const changes = diffFields<ProductInput>(target, validated, IMPORT_FIELDS)
+      const changedFields = Object.keys(changes)
+
+      if ((target.variants || []).length > 0 && VARIANT_DERIVED_FIELDS.some(field => changedFields.includes(field))) {
+        return { ...result, errors: ['Price and stock are set per variant for this product; change them on the product page'] }
+      }
+
+      if (changedFields.length === 0) {
+        return { ...result, action: 'unchanged', input: {} }
+      }
+
+      const input = Object.fromEntries(changedFields.map(field => [field, changes[field].to])) as Partial<ProductInput>
+      // New images bring their alt text; the old images keep theirs, so a rollback finds it again
+      if (validated.image_meta && ('image' in input || 'images' in input)) {
+        input.image_meta = { ...(target.image_meta || {}), ...validated.image_meta }
+      }
+      return { ...result, action: 'update', input, changes }
+    } catch (error) {
+      if (!isProductError(error)) throw error
+      return { ...result, errors: [error.message] }
+    }
+  }
+
+  // Restores the fields an update changed, or removes a product the import created
+  private async undoRow(
+    row: ProductImportRowResult,
+    productId: string,
+    importId: string,
+    actor: AuditActor
+  ): Promise<ProductImportRollbackEntry> {
+    const entry = { rowNumber: row.rowNumber, productId, action: row.action as 'create' | 'update' }
+
+    try {
+      if (row.action === 'update') {
+        const previous = Object.fromEntries(Object.keys(row.changes).map(field => [field, row.changes[field].from])) as Partial<ProductInput>
+        await this.products.updateProduct(productId, previous, actor, {
+          type: 'import',
+          reason: PRODUCT_IMPORT_REASONS.ROLLBACK,
+          referenceId: importId,
+        })
+      } else {
+        await this.deleteProduct(productId, importId, actor)
+      }
+
+      return { ...entry, restored: true }
+    } catch (error) {
+      console.error(`[ProductImportService] Could not roll back row ${row.rowNumber}:`, error)
+      return { ...entry, restored: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+
+  // A product that only existed for the failed import, together with its ledger
+  private async deleteProduct(productId: string, importId: string, actor: AuditActor): Promise<void> {
+    const { error: movementsError } = await this.supabase
+      .from(INVENTORY_TABLES.STOCK_MOVEMENTS)
+      .delete()
+      .eq('product_id', productId)
+
+    if (movementsError) {
+      throw createProductError('database_error', movementsError.message, { productId })
+    }
+
+    const { error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .delete()
+      .eq('id', productId)
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'product',
+        entityId: productId,
+        action: 'product.deleted',
+        actor,
+        metadata: { reason: PRODUCT_IMPORT_REASONS.ROLLBACK, importId },
+      })
+    }
+  }
+
+  private async loadProducts(): Promise<Product[]> {
+    const { data, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('*, variants:product_variants(id)')
+      .limit(DATABASE.MAX_QUERY_LIMIT)
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    return (data || []) as Product[]
+  }
+}
+
+/**
+ * Factory function to create ProductImportService instance
+ */
+export function createProductImportService(supabase: SupabaseClient, audit?: AuditService): ProductImportService {
+  return new ProductImportServiceImpl(supabase, audit)
+}
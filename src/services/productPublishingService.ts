@@ -0,0 +1,134 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, ProductPublishingService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { Product, ProductPublishingRun, ProductReleaseEvent } from '../types/products'
+import { PRODUCT_PUBLISHING_BATCH_SIZE, PRODUCT_TABLES } from '../constants/products'
+import { createProductError } from '../utils/typeGuards'
+import { getDueRelease } from '../utils/productPublishing'
+import { diffFields } from './auditService'
+
+type ScheduledProduct = Pick<Product, 'id' | 'name' | 'status' | 'is_active' | 'publish_at' | 'unpublish_at'>
+
+const SCHEDULE_COLUMNS = 'id, name, status, is_active, publish_at, unpublish_at'
+
+/**
+ * Product Publishing Service Implementation
+ *
+ * Applies scheduled visibility changes for the publishing job:
+ * - Scheduled products whose publish date has passed go live
+ * - Scheduled and live products whose unpublish date has passed go back to draft
+ *
+ * A product edited since it was loaded is left for the next run. Every change is recorded in the
+ * audit trail.
+ */
+export class ProductPublishingServiceImpl implements ProductPublishingService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+  }
+
+  /**
+   * Gets the scheduled changes that are due, oldest first
+   */
+  async getDueReleases(now: Date = new Date()): Promise<ProductReleaseEvent[]> {
+    return (await this.getDueProducts(now)).map(({ event }) => event)
+  }
+
+  /**
+   * Applies the scheduled changes that are due
+   */
+  async applyDueReleases(actor: AuditActor, now: Date = new Date()): Promise<ProductPublishingRun> {
+    const applied: ProductReleaseEvent[] = []
+
+    for (const { product, event } of await this.getDueProducts(now)) {
+      if (await this.applyRelease(product, event, actor)) {
+        applied.push(event)
+      }
+    }
+
+    return { ranAt: now.toISOString(), applied }
+  }
+
+  // Loaded separately, so live products with a past release date don't crowd out the due ones
+  private async getDueProducts(now: Date): Promise<{ product: ScheduledProduct; event: ProductReleaseEvent }[]> {
+    const time = now.toISOString()
+    const [publishing, unpublishing] = await Promise.all([
+      this.supabase
+        .from(PRODUCT_TABLES.PRODUCTS)
+        .select(SCHEDULE_COLUMNS)
+        .eq('status', 'scheduled')
+        .lte('publish_at', time)
+        .order('publish_at', { ascending: true })
+        .limit(PRODUCT_PUBLISHING_BATCH_SIZE),
+      this.supabase
+        .from(PRODUCT_TABLES.PRODUCTS)
+        .select(SCHEDULE_COLUMNS)
+        .in('status', ['scheduled', 'live'])
+        .lte('unpublish_at', time)
+        .order('unpublish_at', { ascending: true })
+        .limit(PRODUCT_PUBLISHING_BATCH_SIZE),
+    ])
+
+    if (publishing.error) {
+      throw createProductError('database_error', publishing.error.message)
+    }
+    if (unpublishing.error) {
+      throw createProductError('database_error', unpublishing.error.message)
+    }
+
+    const products = new Map<string, ScheduledProduct>()
+    ;[...(publishing.data || []), ...(unpublishing.data || [])].forEach(product => {
+      products.set(product.id, product as ScheduledProduct)
+    })
+
+    return Array.from(products.values())
+      .map(product => ({ product, event: getDueRelease(product, now) }))
+      .filter((due): due is { product: ScheduledProduct; event: ProductReleaseEvent } => due.event !== null)
+      .sort((a, b) => Date.parse(a.event.at) - Date.parse(b.event.at))
+  }
+
+  // Resolves to false when the product's status changed since it was loaded
+  private async applyRelease(product: ScheduledProduct, event: ProductReleaseEvent, actor: AuditActor): Promise<boolean> {
+    const changes: Partial<ScheduledProduct> = event.action === 'publish'
+      ? { status: 'live', is_active: true }
+      : { status: 'draft', is_active: false, publish_at: null, unpublish_at: null }
+
+    const { data, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', product.id)
+      .eq('status', product.status)
+      .select('id')
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId: product.id })
+    }
+
+    if (!data || data.length === 0) {
+      return false
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'product',
+        entityId: product.id,
+        action: event.action === 'publish' ? 'product.published' : 'product.unpublished',
+        actor,
+        changes: diffFields<ScheduledProduct>(product, changes, ['status', 'is_active', 'publish_at', 'unpublish_at']),
+        metadata: { scheduledAt: event.at },
+      })
+    }
+
+    return true
+  }
+}
+
+/**
+ * Factory function to create ProductPublishingService instance
+ */
+export function createProductPublishingService(supabase: SupabaseClient, audit?: AuditService): ProductPublishingService {
+  return new ProductPublishingServiceImpl(supabase, audit)
+}
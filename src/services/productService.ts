@@ -0,0 +1,767 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { v4 as uuidv4 } from 'uuid'
+import type { ProductService, AuditService, InventoryService, CatalogService } from '../types/services'
+import type {
+  Product,
+  ProductImageMeta,
+  ProductInput,
+  ProductRevision,
+  ProductRevisionSnapshot,
+  ProductStatus,
+  ProductVariant,
+  ProductVariantInput
+} from '../types/products'
+import type { AuditActor } from '../types/audit'
+import type { StockChangeOptions } from '../types/inventory'
+import { ORDER_TABLES } from '../constants/orders'
+import {
+  PRODUCT_TABLES,
+  PRODUCT_VALIDATION,
+  PRODUCT_DESCRIPTION_FORMAT,
+  PRODUCT_EDITABLE_FIELDS,
+  PRODUCT_REVISION_FIELDS,
+  PRODUCT_STATUSES,
+  VARIANT_DERIVED_FIELDS,
+  VARIANT_SKU_PATTERN
+} from '../constants/products'
+import { STOCK_MOVEMENT_REASONS } from '../constants/inventory'
+import { CATALOG_TABLES, CATALOG_VALIDATION } from '../constants/catalog'
+import { createProductError } from '../utils/typeGuards'
+import { formatVariantLabel, normalizeSku, summarizeVariants } from '../utils/productVariants'
+import { normalizeTags } from '../utils/catalog'
+import { pickSnapshot } from '../utils/revisions'
+import { renderMarkdown } from '../utils/markdown'
+import { diffFields, toRevision } from './auditService'
+import { createInventoryService } from './inventoryService'
+import { createCatalogService } from './catalogService'
+
+// Postgres unique_violation, raised for a SKU that's already taken
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Validates the variants of a create or update payload
+ */
+function validateVariants(value: unknown): ProductVariantInput[] {
+  const fail = (field: string, message: string): never => {
+    throw createProductError('validation_error', message, { field })
+  }
+
+  if (!Array.isArray(value)) fail('variants', 'variants must be a list')
+  const list = value as unknown[]
+  if (list.length > PRODUCT_VALIDATION.MAX_VARIANTS) fail('variants', 'Too many variants')
+
+  const variants = list.map((entry, index): ProductVariantInput => {
+    const field = (name: string) => `variants[${index}].${name}`
+
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) fail(`variants[${index}]`, 'Each variant must be an object')
+    const body = entry as Record<string, unknown>
+    const isEmpty = (key: string) => body[key] === undefined || body[key] === null || body[key] === ''
+
+    if (body.id !== undefined && (typeof body.id !== 'string' || !body.id)) fail(field('id'), 'Variant id must be a string')
+
+    if (typeof body.sku !== 'string' || !VARIANT_SKU_PATTERN.test(normalizeSku(body.sku))) {
+      fail(field('sku'), 'SKU may only contain letters, digits, dots, dashes and underscores')
+    }
+
+    const bottleSize = Number(body.bottle_size_ml)
+    if (!isEmpty('bottle_size_ml') && (
+      !Number.isInteger(bottleSize) ||
+      bottleSize < PRODUCT_VALIDATION.MIN_BOTTLE_SIZE_ML ||
+      bottleSize > PRODUCT_VALIDATION.MAX_BOTTLE_SIZE_ML
+    )) {
+      fail(field('bottle_size_ml'), `Bottle size must be between ${PRODUCT_VALIDATION.MIN_BOTTLE_SIZE_ML} and ${PRODUCT_VALIDATION.MAX_BOTTLE_SIZE_ML} ml`)
+    }
+
+    const vintage = Number(body.vintage)
+    const currentYear = new Date().getFullYear()
+    if (!isEmpty('vintage') && (!Number.isInteger(vintage) || vintage < PRODUCT_VALIDATION.MIN_VINTAGE || vintage > currentYear)) {
+      fail(field('vintage'), `Vintage must be a year between ${PRODUCT_VALIDATION.MIN_VINTAGE} and ${currentYear}`)
+    }
+
+    if (!isEmpty('cask') && (typeof body.cask !== 'string' || body.cask.length > PRODUCT_VALIDATION.CASK_MAX_LENGTH)) {
+      fail(field('cask'), 'Cask must be a short description')
+    }
+
+    const price = Number(body.price)
+    if (typeof body.price === 'boolean' || !Number.isFinite(price) || price <= 0) fail(field('price'), 'Variant price must be greater than zero')
+    if (price > PRODUCT_VALIDATION.MAX_PRICE) fail(field('price'), 'Variant price is too high')
+
+    const stock = Number(body.stock)
+    if (typeof body.stock === 'boolean' || !Number.isInteger(stock) || stock < 0) fail(field('stock'), 'Variant stock must be a whole number of zero or more')
+    if (stock > PRODUCT_VALIDATION.MAX_STOCK) fail(field('stock'), 'Variant stock is too high')
+
+    if (!isEmpty('image') && typeof body.image !== 'string') fail(field('image'), 'Variant image must be an image ID')
+
+    return {
+      ...(body.id ? { id: body.id as string } : {}),
+      sku: normalizeSku(body.sku as string),
+      bottle_size_ml: isEmpty('bottle_size_ml') ? null : bottleSize,
+      vintage: isEmpty('vintage') ? null : vintage,
+      cask: isEmpty('cask') ? null : (body.cask as string).trim() || null,
+      price: Math.round(price * 100) / 100,
+      stock,
+      image: isEmpty('image') ? null : (body.image as string).trim() || null,
+    }
+  })
+
+  const skus = new Set<string>()
+  const options = new Set<string>()
+
+  variants.forEach((variant, index) => {
+    if (skus.has(variant.sku)) fail(`variants[${index}].sku`, `SKU ${variant.sku} is used twice`)
+    skus.add(variant.sku)
+
+    const option = JSON.stringify([variant.bottle_size_ml, variant.vintage, variant.cask?.toLowerCase() ?? null])
+    if (options.has(option)) fail(`variants[${index}]`, `Two variants are both ${formatVariantLabel(variant)}`)
+    options.add(option)
+  })
+
+  return variants
+}
+
+/**
+ * Validates a status with its schedule. A scheduled product needs a publish date in the future; a live
+ * one keeps its release date, or goes live now. Drafts have no schedule.
+ */
+function validatePublishing(body: Record<string, unknown>): Pick<ProductInput, 'is_active' | 'status' | 'publish_at' | 'unpublish_at'> {
+  const fail = (field: string, message: string): never => {
+    throw createProductError('validation_error', message, { field })
+  }
+  const now = Date.now()
+  const parseTime = (field: string): string | null => {
+    const value = body[field]
+    if (value === undefined || value === null || value === '') return null
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) fail(field, `${field} must be a date and time`)
+    return new Date(value as string).toISOString()
+  }
+
+  if (!(PRODUCT_STATUSES as readonly unknown[]).includes(body.status)) {
+    fail('status', `status must be one of ${PRODUCT_STATUSES.join(', ')}`)
+  }
+  const status = body.status as ProductStatus
+  const publishAt = parseTime('publish_at')
+  const unpublishAt = parseTime('unpublish_at')
+
+  if (status === 'draft') {
+    return { status, is_active: false, publish_at: null, unpublish_at: null }
+  }
+
+  if (status === 'scheduled' && (!publishAt || Date.parse(publishAt) <= now)) {
+    fail('publish_at', 'A scheduled product needs a publish date in the future')
+  }
+  if (status === 'live' && publishAt && Date.parse(publishAt) > now) {
+    fail('publish_at', 'Schedule the product to publish it later')
+  }
+  if (unpublishAt && Date.parse(unpublishAt) <= Math.max(now, publishAt ? Date.parse(publishAt) : 0)) {
+    fail('unpublish_at', 'The unpublish date must be in the future and after the publish date')
+  }
+
+  return {
+    status,
+    is_active: status === 'live',
+    publish_at: publishAt ?? new Date(now).toISOString(),
+    unpublish_at: unpublishAt,
+  }
+}
+
+/**
+ * Validates the alt text and focal points of a create or update payload. When the payload sets
+ * the gallery, every gallery image needs alt text and entries of other images are dropped.
+ */
+function validateImageMeta(value: unknown, gallery: string[] | null): Record<string, ProductImageMeta> {
+  const fail = (field: string, message: string): never => {
+    throw createProductError('validation_error', message, { field })
+  }
+  const isObject = (entry: unknown): entry is Record<string, unknown> =>
+    typeof entry === 'object' && entry !== null && !Array.isArray(entry)
+  const isFraction = (number: unknown) => typeof number === 'number' && Number.isFinite(number) && number >= 0 && number <= 1
+
+  if (!isObject(value)) fail('image_meta', 'image_meta must be an object keyed by image ID')
+  const entries = value as Record<string, unknown>
+  const publicIds = gallery ?? Object.keys(entries)
+
+  return Object.fromEntries(publicIds.map((publicId): [string, ProductImageMeta] => {
+    const field = (name: string) => `image_meta.${publicId}.${name}`
+    const entry = entries[publicId]
+
+    if (entry !== undefined && !isObject(entry)) fail(`image_meta.${publicId}`, 'Each image entry must be an object')
+    const body = (entry || {}) as Record<string, unknown>
+
+    if (typeof body.alt !== 'string' || !body.alt.trim()) fail(field('alt'), `Alt text is required for ${publicId}`)
+    if ((body.alt as string).trim().length > PRODUCT_VALIDATION.ALT_TEXT_MAX_LENGTH) {
+      fail(field('alt'), `Alt text can be at most ${PRODUCT_VALIDATION.ALT_TEXT_MAX_LENGTH} characters`)
+    }
+
+    const focal = body.focal_point
+    if (focal !== undefined && focal !== null && (!isObject(focal) || !isFraction(focal.x) || !isFraction(focal.y))) {
+      fail(field('focal_point'), 'Focal point must have an x and y between 0 and 1')
+    }
+
+    return [publicId, {
+      alt: (body.alt as string).trim(),
+      focal_point: isObject(focal) ? { x: focal.x as number, y: focal.y as number } : null,
+    }]
+  }))
+}
+
+// Variant fields compared in the audit trail, in a fixed order
+function toVariantSnapshot(variant: ProductVariantInput): Omit<ProductVariantInput, 'id'> {
+  return {
+    sku: variant.sku,
+    bottle_size_ml: variant.bottle_size_ml,
+    vintage: variant.vintage,
+    cask: variant.cask,
+    price: Number(variant.price),
+    stock: Number(variant.stock),
+    image: variant.image,
+  }
+}
+
+/**
+ * Product Service Implementation
+ *
+ * Server-side product mutations with:
+ * - Payload validation shared by the create and update routes
+ * - Field-level audit entries for every change
+ * - Variants (bottle size, vintage, cask) with their own SKU, price, stock and image; a product
+ *   with variants keeps its lowest variant price and total variant stock in price and stock
+ * - Stock set through the product form recorded in the stock ledger
+ * - A category, tags and the collections the product is curated in
+ * - A draft, scheduled or live status; is_active follows it for the shop
+ * - Markdown descriptions, saved with their format version and the sanitised HTML for the shop
+ * - Revisions: every save keeps a snapshot of the content fields in its audit entry, and an
+ *   earlier revision can be restored as a new one
+ */
+export class ProductServiceImpl implements ProductService {
+  private supabase: SupabaseClient
+  private audit?: AuditService
+  private inventory: InventoryService
+  private catalog: CatalogService
+
+  constructor(supabase: SupabaseClient, audit?: AuditService) {
+    this.supabase = supabase
+    this.audit = audit
+    this.inventory = createInventoryService(supabase)
+    this.catalog = createCatalogService(supabase)
+  }
+
+  /**
+   * Validates a create or update payload
+   */
+  validateInput(payload: unknown, partial: boolean = false): Partial<ProductInput> {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw createProductError('validation_error', 'Request body must be an object')
+    }
+
+    const body = payload as Record<string, unknown>
+    const unknownFields = Object.keys(body).filter(key => !(PRODUCT_EDITABLE_FIELDS as readonly string[]).includes(key))
+    if (unknownFields.length > 0) {
+      throw createProductError('validation_error', `Unknown fields: ${unknownFields.join(', ')}`, { fields: unknownFields })
+    }
+
+    const input: Partial<ProductInput> = {}
+    const fail = (field: string, message: string) => {
+      throw createProductError('validation_error', message, { field })
+    }
+    const has = (field: string) => body[field] !== undefined
+    const requireField = (field: string) => {
+      if (!partial && !has(field)) fail(field, `${field} is required`)
+      return has(field)
+    }
+
+    if (has('variants')) {
+      input.variants = validateVariants(body.variants)
+    }
+
+    // Price and stock come from the variants, so they aren't required (or used) alongside them
+    const derivesFromVariants = !!input.variants && input.variants.length > 0
+
+    if (requireField('name')) {
+      if (typeof body.name !== 'string' || !body.name.trim()) fail('name', 'Product name is required')
+      if ((body.name as string).length > PRODUCT_VALIDATION.NAME_MAX_LENGTH) fail('name', 'Product name is too long')
+      input.name = (body.name as string).trim()
+    }
+
+    if (requireField('description')) {
+      if (typeof body.description !== 'string' || !body.description.trim()) fail('description', 'Description is required')
+      if ((body.description as string).length > PRODUCT_VALIDATION.DESCRIPTION_MAX_LENGTH) fail('description', 'Description is too long')
+      input.description = body.description as string
+      input.description_format = PRODUCT_DESCRIPTION_FORMAT
+      input.description_html = renderMarkdown(input.description)
+    }
+
+    if (!derivesFromVariants && requireField('price')) {
+      const price = Number(body.price)
+      if (typeof body.price === 'boolean' || !Number.isFinite(price) || price <= 0) fail('price', 'Price must be greater than zero')
+      if (price > PRODUCT_VALIDATION.MAX_PRICE) fail('price', 'Price is too high')
+      input.price = Math.round(price * 100) / 100
+    }
+
+    if (!derivesFromVariants && requireField('stock')) {
+      const stock = Number(body.stock)
+      if (typeof body.stock === 'boolean' || !Number.isInteger(stock) || stock < 0) fail('stock', 'Stock must be a whole number of zero or more')
+      if (stock > PRODUCT_VALIDATION.MAX_STOCK) fail('stock', 'Stock is too high')
+      input.stock = stock
+    }
+
+    // is_active on its own is the plain live/draft switch, and leaves the schedule alone
+    if (has('status') || has('publish_at') || has('unpublish_at')) {
+      if (has('is_active')) fail('is_active', 'Set either status or is_active, not both')
+      Object.assign(input, validatePublishing(body))
+    } else if (has('is_active')) {
+      if (typeof body.is_active !== 'boolean') fail('is_active', 'is_active must be true or false')
+      input.is_active = body.is_active as boolean
+      input.status = input.is_active ? 'live' : 'draft'
+    } else if (!partial) {
+      fail('status', 'status is required')
+    }
+
+    if (has('low_stock_threshold')) {
+      // null falls back to the default threshold
+      const threshold = body.low_stock_threshold === null ? null : Number(body.low_stock_threshold)
+      if (threshold !== null && (typeof body.low_stock_threshold === 'boolean' || !Number.isInteger(threshold) || threshold < 0 || threshold > PRODUCT_VALIDATION.MAX_STOCK)) {
+        fail('low_stock_threshold', 'Low-stock threshold must be a whole number of zero or more')
+      }
+      input.low_stock_threshold = threshold
+    }
+
+    if (has('category_id')) {
+      if (body.category_id !== null && (typeof body.category_id !== 'string' || !body.category_id)) {
+        fail('category_id', 'category_id must be a category ID or null')
+      }
+      input.category_id = body.category_id as string | null
+    }
+
+    if (has('tags')) {
+      if (!Array.isArray(body.tags) || body.tags.some(tag => typeof tag !== 'string')) fail('tags', 'tags must be a list of text')
+      const tags = normalizeTags(body.tags as string[])
+      if (tags.length > CATALOG_VALIDATION.MAX_TAGS) fail('tags', 'Too many tags')
+      if (tags.some(tag => tag.length > CATALOG_VALIDATION.TAG_MAX_LENGTH)) {
+        fail('tags', `Tags can be at most ${CATALOG_VALIDATION.TAG_MAX_LENGTH} characters`)
+      }
+      input.tags = tags
+    }
+
+    if (has('collection_ids')) {
+      if (!Array.isArray(body.collection_ids) || body.collection_ids.some(id => typeof id !== 'string' || !id)) {
+        fail('collection_ids', 'collection_ids must be a list of collection IDs')
+      }
+      input.collection_ids = Array.from(new Set(body.collection_ids as string[]))
+    }
+
+    if (requireField('image')) {
+      if (typeof body.image !== 'string' || !body.image.trim()) fail('image', 'Main image is required')
+      input.image = (body.image as string).trim()
+    }
+
+    if (has('images')) {
+      if (!Array.isArray(body.images) || body.images.some(img => typeof img !== 'string')) {
+        fail('images', 'images must be a list of image IDs')
+      }
+      const images = (body.images as string[]).filter(img => img.trim())
+      if (images.length > PRODUCT_VALIDATION.MAX_IMAGES) fail('images', 'Too many images')
+      input.images = images
+    } else if (!partial) {
+      input.images = input.image ? [input.image] : []
+    }
+
+    // Every image of a gallery needs alt text, also when the payload leaves image_meta out
+    if (input.images || has('image_meta')) {
+      const gallery = input.images
+        ? Array.from(new Set([input.image, ...input.images].filter((img): img is string => !!img)))
+        : null
+      input.image_meta = validateImageMeta(has('image_meta') ? body.image_meta : {}, gallery)
+    }
+
+    if (derivesFromVariants) {
+      const summary = summarizeVariants(input.variants!)
+      input.price = summary.minPrice!
+      input.stock = summary.stock
+    }
+
+    if (partial && Object.keys(input).length === 0) {
+      throw createProductError('validation_error', 'No fields to update')
+    }
+
+    return input
+  }
+
+  /**
+   * Gets a product by ID
+   */
+  async getProduct(productId: string): Promise<Product> {
+    const { data, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .select('*')
+      .eq('id', productId)
+      .maybeSingle()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    if (!data) {
+      throw createProductError('product_not_found', 'Product not found', { productId })
+    }
+
+    return {
+      ...(data as Product),
+      variants: await this.getVariants(productId),
+      collection_ids: await this.catalog.getProductCollectionIds(productId),
+    }
+  }
+
+  /**
+   * Gets the variants of a product in display order
+   */
+  async getVariants(productId: string): Promise<ProductVariant[]> {
+    const { data, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCT_VARIANTS)
+      .select('*')
+      .eq('product_id', productId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    return (data || []) as ProductVariant[]
+  }
+
+  /**
+   * Creates a product and records an audit entry
+   */
+  async createProduct(
+    input: ProductInput,
+    actor: AuditActor,
+    stockChange: StockChangeOptions = { type: 'adjustment', reason: STOCK_MOVEMENT_REASONS.INITIAL_STOCK }
+  ): Promise<Product> {
+    const { variants, collection_ids: collectionIds, ...fields } = input
+    await this.checkCatalogReferences(input)
+    const now = new Date().toISOString()
+    const newProduct = {
+      id: uuidv4(),
+      ...fields,
+      cloudinary_id: input.image, // Using main image as cloudinary_id
+      created_at: now,
+      updated_at: now,
+    }
+
+    const { data, error } = await this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .insert([newProduct])
+      .select()
+      .single()
+
+    if (error) {
+      throw createProductError('database_error', error.message)
+    }
+
+    const created = (data || newProduct) as Product
+    const savedVariants = variants && variants.length > 0 ? await this.saveVariants(created.id, variants, []) : []
+    const savedCollectionIds = collectionIds && collectionIds.length > 0 ? await this.catalog.setProductCollections(created.id, collectionIds) : []
+    await this.recordStockChanges({ stock: 0 }, [], { ...created, variants: savedVariants }, stockChange, actor)
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'product',
+        entityId: created.id,
+        action: 'product.created',
+        actor,
+        changes: diffFields<ProductInput>({}, { ...input, ...(variants ? { variants: variants.map(toVariantSnapshot) } : {}) }, [...PRODUCT_EDITABLE_FIELDS]),
+        snapshot: pickSnapshot<ProductRevisionSnapshot>(created, PRODUCT_REVISION_FIELDS),
+      })
+    }
+
+    return { ...created, variants: savedVariants, collection_ids: savedCollectionIds }
+  }
+
+  /**
+   * Updates a product and records the changed fields in the audit trail; with expectedUpdatedAt, only while
+   * nobody else saved the product since
+   */
+  async updateProduct(
+    productId: string,
+    changes: Partial<ProductInput>,
+    actor: AuditActor,
+    stockChange: StockChangeOptions = { type: 'adjustment', reason: STOCK_MOVEMENT_REASONS.PRODUCT_EDIT },
+    expectedUpdatedAt?: string
+  ): Promise<Product> {
+    return this.saveChanges(productId, changes, actor, stockChange, null, expectedUpdatedAt)
+  }
+
+  /**
+   * Gets the saved revisions of a product, newest first
+   */
+  async getRevisions(productId: string): Promise<ProductRevision[]> {
+    if (!this.audit) return []
+
+    const entries = await this.audit.getEntries('product', productId, { revisionsOnly: true })
+    return entries.map(entry => toRevision<ProductRevisionSnapshot>(entry))
+  }
+
+  /**
+   * Puts the content fields of an earlier revision back, recorded as a new revision
+   */
+  async restoreRevision(productId: string, revisionId: string, actor: AuditActor): Promise<Product> {
+    const revision = (await this.getRevisions(productId)).find(candidate => candidate.id === revisionId)
+
+    if (!revision) {
+      throw createProductError('revision_not_found', 'Revision not found', { productId, revisionId })
+    }
+
+    const current = await this.getProduct(productId)
+    const hasVariants = (current.variants || []).length > 0
+    const { price, tags, image_meta: imageMeta, ...snapshot } = pickSnapshot<ProductRevisionSnapshot>(revision.snapshot, PRODUCT_REVISION_FIELDS)
+    // Price follows the variants of a product that has them. Images keep their current alt text
+    // where the revision has none (imported products may not)
+    const changes = this.validateInput({
+      ...snapshot,
+      tags: tags || [],
+      ...(hasVariants ? {} : { price }),
+      image_meta: { ...(current.image_meta || {}), ...(imageMeta || {}) },
+    }, true)
+
+    return this.saveChanges(productId, changes, actor, { type: 'adjustment', reason: STOCK_MOVEMENT_REASONS.PRODUCT_EDIT }, revision.id)
+  }
+
+  // Shared by updates and restores; a restore is recorded as product.restored with the revision it restored
+  private async saveChanges(
+    productId: string,
+    changes: Partial<ProductInput>,
+    actor: AuditActor,
+    stockChange: StockChangeOptions,
+    restoredFrom: string | null,
+    expectedUpdatedAt?: string
+  ): Promise<Product> {
+    const existing = await this.getProduct(productId)
+    const existingVariants = existing.variants || []
+    const { variants, collection_ids: collectionIds, ...fields } = changes
+
+    if (!variants && existingVariants.length > 0 && VARIANT_DERIVED_FIELDS.some(field => field in fields)) {
+      throw createProductError('validation_error', 'Price and stock are set per variant for this product', {
+        field: VARIANT_DERIVED_FIELDS.find(field => field in fields),
+      })
+    }
+
+    if (variants) {
+      await this.checkVariantChanges(productId, variants, existingVariants)
+    }
+
+    await this.checkCatalogReferences(changes)
+
+    let query = this.supabase
+      .from(PRODUCT_TABLES.PRODUCTS)
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', productId)
+
+    // Only update if nobody saved the product since the edit started
+    if (expectedUpdatedAt) {
+      query = query.eq('updated_at', expectedUpdatedAt)
+    }
+
+    const { data, error } = await query.select().maybeSingle()
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    if (!data) {
+      throw createProductError(
+        'concurrent_update',
+        'This product was saved by someone else since you started editing',
+        { productId, current: await this.getProduct(productId) }
+      )
+    }
+
+    const updated: Product = {
+      ...(data as Product),
+      variants: variants ? await this.saveVariants(productId, variants, existingVariants) : existingVariants,
+      collection_ids: collectionIds ? await this.catalog.setProductCollections(productId, collectionIds) : existing.collection_ids,
+    }
+    await this.recordStockChanges(existing, existingVariants, updated, stockChange, actor)
+    // Collection memberships have no order of their own, so they're compared sorted
+    const fieldChanges = diffFields<ProductInput>(
+      { ...existing, variants: existingVariants.map(toVariantSnapshot), collection_ids: [...(existing.collection_ids || [])].sort() },
+      {
+        ...changes,
+        ...(variants ? { variants: variants.map(toVariantSnapshot) } : {}),
+        ...(collectionIds ? { collection_ids: [...collectionIds].sort() } : {}),
+      },
+      [...PRODUCT_EDITABLE_FIELDS]
+    )
+
+    if (this.audit && Object.keys(fieldChanges).length > 0) {
+      await this.audit.record({
+        entityType: 'product',
+        entityId: productId,
+        action: restoredFrom ? 'product.restored' : 'product.updated',
+        actor,
+        changes: fieldChanges,
+        metadata: restoredFrom ? { restoredFrom } : null,
+        snapshot: pickSnapshot<ProductRevisionSnapshot>(updated, PRODUCT_REVISION_FIELDS),
+      })
+    }
+
+    return updated
+  }
+
+  // Stock set through the product form or an import goes into the ledger like any other stock change
+  private async recordStockChanges(
+    before: Pick<Product, 'stock'>,
+    beforeVariants: ProductVariant[],
+    after: Product,
+    stockChange: StockChangeOptions,
+    actor: AuditActor
+  ): Promise<void> {
+    const afterVariants = after.variants || []
+
+    if (afterVariants.length === 0) {
+      const quantity = Number(after.stock) - Number(before.stock)
+      if (quantity !== 0) {
+        await this.inventory.recordMovement({ productId: after.id, quantity, stockAfter: Number(after.stock), ...stockChange }, actor)
+      }
+      return
+    }
+
+    for (const variant of afterVariants) {
+      const previous = beforeVariants.find(candidate => candidate.id === variant.id)
+      const quantity = Number(variant.stock) - Number(previous?.stock ?? 0)
+
+      if (quantity !== 0) {
+        await this.inventory.recordMovement({
+          productId: after.id,
+          variantId: variant.id,
+          quantity,
+          stockAfter: Number(variant.stock),
+          ...stockChange,
+        }, actor)
+      }
+    }
+  }
+
+  // The category and collections must exist before the product refers to them
+  private async checkCatalogReferences(input: Partial<ProductInput>): Promise<void> {
+    if (input.category_id) {
+      const { data, error } = await this.supabase
+        .from(CATALOG_TABLES.CATEGORIES)
+        .select('id')
+        .eq('id', input.category_id)
+        .maybeSingle()
+
+      if (error) {
+        throw createProductError('database_error', error.message)
+      }
+
+      if (!data) {
+        throw createProductError('validation_error', 'Category not found', { field: 'category_id' })
+      }
+    }
+
+    if (input.collection_ids && input.collection_ids.length > 0) {
+      const { data, error } = await this.supabase
+        .from(CATALOG_TABLES.COLLECTIONS)
+        .select('id')
+        .in('id', input.collection_ids)
+
+      if (error) {
+        throw createProductError('database_error', error.message)
+      }
+
+      const found = new Set(((data || []) as { id: string }[]).map(collection => collection.id))
+      const missing = input.collection_ids.filter(id => !found.has(id))
+
+      if (missing.length > 0) {
+        throw createProductError('validation_error', 'Collection not found', { field: 'collection_ids', collectionIds: missing })
+      }
+    }
+  }
+
+  // Variants are matched by id; removing a variant that was ordered would orphan its order items
+  private async checkVariantChanges(productId: string, variants: ProductVariantInput[], existing: ProductVariant[]): Promise<void> {
+    const existingIds = existing.map(variant => variant.id)
+    const unknown = variants.find(variant => variant.id && !existingIds.includes(variant.id))
+
+    if (unknown) {
+      throw createProductError('validation_error', 'Variant does not belong to this product', { field: 'variants', variantId: unknown.id })
+    }
+
+    const removedIds = existingIds.filter(id => !variants.some(variant => variant.id === id))
+    if (removedIds.length === 0) return
+
+    const { data: ordered, error } = await this.supabase
+      .from(ORDER_TABLES.ORDER_ITEMS)
+      .select('variant_id')
+      .in('variant_id', removedIds)
+      .limit(1)
+
+    if (error) {
+      throw createProductError('database_error', error.message, { productId })
+    }
+
+    if (ordered && ordered.length > 0) {
+      const variant = existing.find(candidate => candidate.id === ordered[0].variant_id)
+      throw createProductError('validation_error', `${variant ? variant.sku : 'A variant'} has been ordered and cannot be removed; set its stock to 0 instead`, {
+        field: 'variants',
+        variantId: ordered[0].variant_id,
+      })
+    }
+  }
+
+  // Replaces the product's variants with the given list, keeping the ids of existing ones
+  private async saveVariants(productId: string, variants: ProductVariantInput[], existing: ProductVariant[]): Promise<ProductVariant[]> {
+    const now = new Date().toISOString()
+    const removedIds = existing.map(variant => variant.id).filter(id => !variants.some(variant => variant.id === id))
+
+    // Removed first, so their SKUs can be reused
+    if (removedIds.length > 0) {
+      const { error } = await this.supabase
+        .from(PRODUCT_TABLES.PRODUCT_VARIANTS)
+        .delete()
+        .in('id', removedIds)
+
+      if (error) {
+        throw createProductError('database_error', error.message, { productId })
+      }
+    }
+
+    const rows = variants.map((variant, position) => ({
+      ...toVariantSnapshot(variant),
+      product_id: productId,
+      position,
+      updated_at: now,
+      id: variant.id,
+    }))
+    const updates = rows.filter(row => row.id)
+    const inserts = rows.filter(row => !row.id).map(row => ({ ...row, id: uuidv4(), created_at: now }))
+    const saved: ProductVariant[] = []
+
+    for (const [batch, write] of [
+      [updates, () => this.supabase.from(PRODUCT_TABLES.PRODUCT_VARIANTS).upsert(updates).select()],
+      [inserts, () => this.supabase.from(PRODUCT_TABLES.PRODUCT_VARIANTS).insert(inserts).select()],
+    ] as const) {
+      if (batch.length === 0) continue
+
+      const { data, error } = await write()
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw createProductError('validation_error', 'One of the SKUs is already used by another product', { field: 'variants' })
+      }
+
+      if (error) {
+        throw createProductError('database_error', error.message, { productId })
+      }
+
+      saved.push(...((data || []) as ProductVariant[]))
+    }
+
+    return saved.sort((a, b) => a.position - b.position)
+  }
+}
+
+/**
+ * Factory function to create ProductService instance
+ */
+export function createProductService(supabase: SupabaseClient, audit?: AuditService): ProductService {
+  return new ProductServiceImpl(supabase, audit)
+}
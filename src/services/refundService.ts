@@ -0,0 +1,488 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditService, InventoryService, RefundService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { Order, OrderItem, OrderStatus } from '../types/orders'
+import type {
+  CreateRefundInput,
+  OrderRefundSummary,
+  PaymentProvider,
+  RefundLineRecord,
+  RefundRecord,
+  RefundResult
+} from '../types/refunds'
+import { ORDER_STATUS_LABELS, ORDER_TABLES } from '../constants/orders'
+import {
+  DEFAULT_PAYMENT_CONFIG,
+  REFUNDABLE_ORDER_STATUSES,
+  REFUND_REASON_MAX_LENGTH,
+  REFUND_RESERVE_MAX_RETRIES,
+  REFUND_TABLES
+} from '../constants/refunds'
+import { createOrderError, createRefundError, isRefundError } from '../utils/typeGuards'
+import { roundCurrency } from '../utils/vat'
+import { formatMoney } from '../utils/currency'
+import { fetchOrderWithItems } from './orderQueries'
+import { createOrderLifecycleService } from './orderLifecycleService'
+import { createInventoryService } from './inventoryService'
+
+/**
+ * Adds up earlier refunds of an order: the amount refunded and the quantity refunded per order item
+ */
+export function summarizeRefunds(order: Pick<Order, 'total_amount'>, refunds: RefundRecord[]): OrderRefundSummary {
+  const refundedQuantities: Record<string, number> = {}
+
+  // Failed refunds moved no money
+  const counted = refunds.filter(refund => refund.status !== 'failed')
+
+  counted.forEach(refund => {
+    ;(refund.lines || []).forEach(line => {
+      refundedQuantities[line.order_item_id] = (refundedQuantities[line.order_item_id] || 0) + line.quantity
+    })
+  })
+
+  const orderTotal = roundCurrency(Number(order.total_amount))
+  const refundedAmount = roundCurrency(counted.reduce((sum, refund) => sum + Number(refund.amount), 0))
+
+  return {
+    orderTotal,
+    refundedAmount,
+    netAmount: roundCurrency(orderTotal - refundedAmount),
+    refundedQuantities,
+  }
+}
+
+/**
+ * Refund Service Implementation (server-side)
+ *
+ * Refunds paid orders through the injected PaymentProvider:
+ * - Full refunds (everything not refunded yet) and partial refunds per order item
+ * - Optional restock of the refunded quantities, recorded in the stock ledger
+ * - Moves the order to partially_refunded / refunded through the lifecycle state machine
+ * - Keeps orders.refunded_amount in sync so lists and analytics can show net totals
+ */
+export class RefundServiceImpl implements RefundService {
+  private supabase: SupabaseClient
+  private provider: PaymentProvider
+  private audit?: AuditService
+  private inventory: InventoryService
+  private currency: string // For orders without a currency of their own
+
+  constructor(supabase: SupabaseClient, provider: PaymentProvider, audit?: AuditService, currency: string = DEFAULT_PAYMENT_CONFIG.currency) {
+    this.supabase = supabase
+    this.provider = provider
+    this.audit = audit
+    this.inventory = createInventoryService(supabase)
+    this.currency = currency
+  }
+
+  /**
+   * Gets the refunds of an order with their lines, newest first
+   */
+  async getRefunds(orderId: string): Promise<RefundRecord[]> {
+    const { data: refunds, error } = await this.supabase
+      .from(REFUND_TABLES.REFUNDS)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    const records = (refunds || []) as RefundRecord[]
+    const refundIds = records.map(refund => refund.id).filter(Boolean) as string[]
+
+    if (refundIds.length === 0) {
+      return records.map(refund => ({ ...refund, lines: [] }))
+    }
+
+    const { data: lines, error: linesError } = await this.supabase
+      .from(REFUND_TABLES.REFUND_LINES)
+      .select('*')
+      .in('refund_id', refundIds)
+
+    if (linesError) {
+      throw createOrderError('database_error', linesError.message, { orderId })
+    }
+
+    return records.map(refund => ({
+      ...refund,
+      lines: ((lines || []) as RefundLineRecord[]).filter(line => line.refund_id === refund.id),
+    }))
+  }
+
+  /**
+   * Validates and executes a refund, then records it
+   */
+  async createRefund(orderId: string, input: CreateRefundInput, actor: AuditActor): Promise<RefundResult> {
+    const reason = typeof input.reason === 'string' ? input.reason.trim() : ''
+
+    if (!reason || reason.length > REFUND_REASON_MAX_LENGTH) {
+      throw createRefundError('invalid_refund', `A reason of at most ${REFUND_REASON_MAX_LENGTH} characters is required`, {
+        field: 'reason',
+      })
+    }
+
+    const { order, items } = await fetchOrderWithItems(this.supabase, orderId)
+
+    if (!REFUNDABLE_ORDER_STATUSES.includes(order.status)) {
+      throw createRefundError('refund_not_allowed', `${ORDER_STATUS_LABELS[order.status] ?? order.status} orders cannot be refunded`, {
+        orderId,
+        status: order.status,
+      })
+    }
+
+    if (!order.payment_reference) {
+      throw createRefundError('refund_not_allowed', 'Order has no payment reference to refund', { orderId })
+    }
+
+    const summary = summarizeRefunds(order, await this.getRefunds(orderId))
+    const remainingAmount = roundCurrency(summary.orderTotal - summary.refundedAmount)
+
+    if (remainingAmount <= 0) {
+      throw createRefundError('refund_not_allowed', 'Order has already been refunded in full', { orderId })
+    }
+
+    const remainingQuantity = (itemId: string, quantity: number) => quantity - (summary.refundedQuantities[itemId] || 0)
+    const type = input.lines && input.lines.length > 0 ? 'partial' : 'full'
+    let lines: RefundLineRecord[]
+    let amount: number
+
+    if (type === 'full') {
+      // Everything that's left, including amounts not tied to items (e.g. shipping)
+      lines = items
+        .map(item => ({ item, quantity: remainingQuantity(item.id, item.quantity) }))
+        .filter(({ quantity }) => quantity > 0)
+        .map(({ item, quantity }) => ({
+          order_item_id: item.id,
+          product_id: item.product_id,
+          quantity,
+          amount: roundCurrency(quantity * Number(item.price)),
+        }))
+      amount = remainingAmount
+    } else {
+      const quantities = new Map<string, number>()
+
+      input.lines!.forEach(line => {
+        if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+          throw createRefundError('invalid_refund', 'Refund quantities must be whole numbers of at least 1', { line })
+        }
+        quantities.set(line.orderItemId, (quantities.get(line.orderItemId) || 0) + line.quantity)
+      })
+
+      lines = Array.from(quantities).map(([orderItemId, quantity]) => {
+        const item = items.find(orderItem => orderItem.id === orderItemId)
+
+        if (!item) {
+          throw createRefundError('invalid_refund', 'Order item not found on this order', { orderItemId })
+        }
+
+        const available = remainingQuantity(item.id, item.quantity)
+        if (quantity > available) {
+          throw createRefundError('refund_exceeds_total', `Only ${available} of ${item.product_name} can still be refunded`, {
+            orderItemId,
+            requested: quantity,
+            available,
+          })
+        }
+
+        return {
+          order_item_id: item.id,
+          product_id: item.product_id,
+          quantity,
+          amount: roundCurrency(quantity * Number(item.price)),
+        }
+      })
+
+      amount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0))
+
+      if (amount > remainingAmount) {
+        throw createRefundError('refund_exceeds_total', `At most ${formatMoney(remainingAmount, order.currency)} can still be refunded`, {
+          requested: amount,
+          available: remainingAmount,
+        })
+      }
+    }
+
+    // Reserve the amount on the order first, guarded by what is left, so refunds sent at the same time
+    // can't together refund more than was paid. The pending refund records the reservation.
+    const refundedAmount = await this.reserveAmount(order, amount, summary.orderTotal)
+    const refund = await this.recordPending(orderId, {
+      order_id: orderId,
+      type,
+      amount,
+      reason,
+      restocked: false,
+      status: 'pending',
+      provider: this.provider.name,
+      provider_refund_id: null,
+      created_by: actor.id,
+      created_by_email: actor.email,
+    }, lines)
+
+    let providerRefundId: string
+
+    try {
+      const result = await this.provider.refund({
+        paymentReference: order.payment_reference,
+        amount,
+        currency: order.currency || this.currency,
+        description: `Refund order ${order.order_number}`,
+        metadata: { orderId, refundId: refund.id! },
+      })
+      providerRefundId = result.providerRefundId
+    } catch (error) {
+      const refundError = isRefundError(error)
+        ? error
+        : createRefundError('provider_error', error instanceof Error ? error.message : 'Payment provider error', { orderId })
+
+      await this.updateRefund(refund.id!, { status: 'failed', failure_reason: refundError.message })
+        .catch(updateError => console.error('[RefundService] Failed to mark refund as failed:', { refundId: refund.id, updateError }))
+      await this.releaseAmount(orderId, amount)
+      throw refundError
+    }
+
+    // The money has moved: from here on a failure is recorded on the refund and in the audit log, not only thrown
+    let restocked = false
+    let status: OrderStatus = order.status
+
+    try {
+      restocked = input.restock && lines.length > 0 ? await this.restock(orderId, lines, items, actor) : false
+      await this.updateRefund(refund.id!, { status: 'succeeded', provider_refund_id: providerRefundId, restocked })
+      Object.assign(refund, { status: 'succeeded', provider_refund_id: providerRefundId, restocked })
+
+      status = refundedAmount >= summary.orderTotal ? 'refunded' : 'partially_refunded'
+
+      if (status !== order.status) {
+        await createOrderLifecycleService(this.supabase, this.audit).transition(orderId, status, {
+          userId: actor.id,
+          userEmail: actor.email,
+          note: `Refunded ${formatMoney(amount, order.currency)}: ${reason}`,
+        })
+      }
+    } catch (error) {
+      await this.recordIncomplete(orderId, refund, providerRefundId, error, actor)
+      throw createOrderError('database_error', 'The refund was paid out but not fully recorded; it is marked as needing attention', {
+        orderId,
+        refundId: refund.id,
+        providerRefundId,
+      })
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'order.refunded',
+        actor,
+        changes: { refunded_amount: { from: roundCurrency(refundedAmount - amount), to: refundedAmount } },
+        metadata: { refundId: refund.id, type, amount, reason, restocked, providerRefundId },
+      })
+    }
+
+    return {
+      refund,
+      order: { id: orderId, status, refunded_amount: refundedAmount },
+      summary: {
+        ...summary,
+        refundedAmount: roundCurrency(summary.refundedAmount + amount),
+        netAmount: roundCurrency(summary.netAmount - amount),
+        refundedQuantities: lines.reduce(
+          (quantities, line) => ({ ...quantities, [line.order_item_id]: (quantities[line.order_item_id] || 0) + line.quantity }),
+          summary.refundedQuantities
+        ),
+      },
+    }
+  }
+
+  /**
+   * Adds a refund to orders.refunded_amount with a conditional update on the amount read, retrying when
+   * another refund changed it in between
+   * @returns The order's refunded amount including this refund
+   * @throws RefundError 'refund_exceeds_total' when the amount is no longer left, OrderError 'concurrent_update'
+   */
+  private async reserveAmount(order: Order, amount: number, orderTotal: number): Promise<number> {
+    const orderId = order.id
+    let current = order.refunded_amount ?? null
+
+    for (let attempt = 0; attempt < REFUND_RESERVE_MAX_RETRIES; attempt++) {
+      const available = roundCurrency(orderTotal - Number(current || 0))
+
+      if (amount > available) {
+        throw createRefundError('refund_exceeds_total', `At most ${formatMoney(Math.max(available, 0), order.currency)} can still be refunded`, {
+          requested: amount,
+          available,
+        })
+      }
+
+      const reserved = roundCurrency(Number(current || 0) + amount)
+      if (await this.compareAndSetRefunded(orderId, current, reserved)) {
+        return reserved
+      }
+
+      current = await this.readRefunded(orderId)
+    }
+
+    throw createOrderError('concurrent_update', 'The order is being refunded by someone else; try again', { orderId })
+  }
+
+  /**
+   * Takes a refund that didn't go through off orders.refunded_amount again
+   */
+  private async releaseAmount(orderId: string, amount: number): Promise<void> {
+    try {
+      for (let attempt = 0; attempt < REFUND_RESERVE_MAX_RETRIES; attempt++) {
+        const current = await this.readRefunded(orderId)
+
+        if (await this.compareAndSetRefunded(orderId, current, roundCurrency(Math.max(Number(current || 0) - amount, 0)))) {
+          return
+        }
+      }
+    } catch (error) {
+      console.error('[RefundService] Cannot release refund reservation:', { orderId, amount, error })
+      return
+    }
+
+    console.error('[RefundService] Gave up releasing refund reservation after concurrent updates:', { orderId, amount })
+  }
+
+  private async readRefunded(orderId: string): Promise<number | null> {
+    const { data, error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .select('id, refunded_amount')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    if (!data) {
+      throw createOrderError('order_not_found', 'Order not found', { orderId })
+    }
+
+    return data.refunded_amount ?? null
+  }
+
+  /**
+   * Sets orders.refunded_amount only while it is still the amount read
+   * @returns Whether the update was applied
+   */
+  private async compareAndSetRefunded(orderId: string, expected: number | null, refundedAmount: number): Promise<boolean> {
+    const query = this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .update({ refunded_amount: refundedAmount, updated_at: new Date().toISOString() })
+      .eq('id', orderId)
+
+    const { data, error } = await (expected === null ? query.is('refunded_amount', null) : query.eq('refunded_amount', expected))
+      .select('id')
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return !!data && data.length > 0
+  }
+
+  /**
+   * Inserts the pending refund and its lines; releases the reservation when that fails
+   */
+  private async recordPending(orderId: string, record: RefundRecord, lines: RefundLineRecord[]): Promise<RefundRecord> {
+    const { data: created, error: insertError } = await this.supabase
+      .from(REFUND_TABLES.REFUNDS)
+      .insert(record)
+      .select()
+      .single()
+
+    if (insertError) {
+      await this.releaseAmount(orderId, record.amount)
+      throw createOrderError('database_error', insertError.message, { orderId })
+    }
+
+    const refund: RefundRecord = { ...record, ...(created as RefundRecord) }
+    refund.lines = lines.map(line => ({ ...line, refund_id: refund.id }))
+
+    if (lines.length > 0) {
+      const { error: linesError } = await this.supabase
+        .from(REFUND_TABLES.REFUND_LINES)
+        .insert(refund.lines)
+
+      if (linesError) {
+        console.error('[RefundService] Failed to record refund lines:', linesError)
+      }
+    }
+
+    return refund
+  }
+
+  private async updateRefund(refundId: string, changes: Partial<RefundRecord>): Promise<void> {
+    const { error } = await this.supabase
+      .from(REFUND_TABLES.REFUNDS)
+      .update(changes)
+      .eq('id', refundId)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { refundId })
+    }
+  }
+
+  /**
+   * Records a refund the provider paid out but that couldn't be finished: on the refund itself, and in the
+   * audit log in case that fails too
+   */
+  private async recordIncomplete(
+    orderId: string,
+    refund: RefundRecord,
+    providerRefundId: string,
+    error: unknown,
+    actor: AuditActor
+  ): Promise<void> {
+    const failureReason = error instanceof Error ? error.message : String(error)
+    console.error('[RefundService] Refund executed but not fully recorded:', { orderId, refundId: refund.id, providerRefundId, error })
+
+    await this.updateRefund(refund.id!, { status: 'needs_attention', provider_refund_id: providerRefundId, failure_reason: failureReason })
+      .catch(updateError => console.error('[RefundService] Failed to mark refund as needing attention:', updateError))
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'order.refund_incomplete',
+        actor,
+        metadata: { refundId: refund.id, amount: refund.amount, providerRefundId, failureReason },
+      })
+    }
+  }
+
+  /**
+   * Puts refunded quantities back in stock, on the variant as well when one was ordered
+   * @returns Whether every product was restocked
+   */
+  private async restock(orderId: string, lines: RefundLineRecord[], items: OrderItem[], actor: AuditActor): Promise<boolean> {
+    let restocked = true
+
+    for (const line of lines) {
+      const variantId = items.find(item => item.id === line.order_item_id)?.variant_id ?? null
+      const movement = await this.inventory.changeStock(line.product_id, variantId, line.quantity, {
+        type: 'refund_restock',
+        referenceId: orderId,
+      }, actor)
+
+      restocked = movement !== null && restocked
+    }
+
+    return restocked
+  }
+}
+
+/**
+ * Factory function to create RefundService instance
+ */
+export function createRefundService(
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  audit?: AuditService,
+  currency?: string
+): RefundService {
+  return new RefundServiceImpl(supabase, provider, audit, currency)
+}
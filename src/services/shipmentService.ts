@@ -0,0 +1,434 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { format, isValid, parseISO } from 'date-fns'
+import type { AuditService, OrderEmailService, ShipmentService } from '../types/services'
+import type { AuditActor } from '../types/audit'
+import type { Order, OrderStatus } from '../types/orders'
+import type {
+  CarrierAdapters,
+  CarrierCode,
+  CreateShipmentInput,
+  ShipmentRecord,
+  ShipmentResult,
+  UpdateShipmentInput
+} from '../types/shipments'
+import { ORDER_STATUS_LABELS, ORDER_TABLES } from '../constants/orders'
+import {
+  CARRIER_CODES,
+  CARRIER_LABELS,
+  MAX_PARCEL_WEIGHT_KG,
+  MAX_PARCELS_PER_SHIPMENT,
+  SHIPMENT_TABLES,
+  SHIPPABLE_ORDER_STATUSES,
+  TRACKING_NUMBER_PATTERN
+} from '../constants/shipments'
+import { createOrderError, createShipmentError, isShipmentError } from '../utils/typeGuards'
+import { diffFields } from './auditService'
+import { createOrderLifecycleService } from './orderLifecycleService'
+
+type ShipmentOrder = Pick<Order, 'id' | 'status' | 'customer_postal_code' | 'customer_country'>
+
+// Statuses adding parcels doesn't change: already shipped, or partially refunded
+// (such an order may already have been completed, so it keeps its status)
+const SHIPPED_ORDER_STATUSES: readonly OrderStatus[] = ['shipped', 'completed', 'partially_refunded']
+
+/**
+ * Normalizes a tracking number (no spaces, upper case); empty values mean "no tracking"
+ */
+export function normalizeTrackingNumber(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+
+  if (typeof value !== 'string') {
+    throw createShipmentError('invalid_shipment', 'Tracking number must be a string', { field: 'trackingNumber' })
+  }
+
+  const trackingNumber = value.replace(/\s+/g, '').toUpperCase()
+  if (!trackingNumber) return null
+
+  if (!TRACKING_NUMBER_PATTERN.test(trackingNumber)) {
+    throw createShipmentError('invalid_shipment', `Invalid tracking number: ${value}`, { field: 'trackingNumber', value })
+  }
+
+  return trackingNumber
+}
+
+function validateCarrier(carrier: unknown): CarrierCode {
+  if (!CARRIER_CODES.includes(carrier as CarrierCode)) {
+    throw createShipmentError('invalid_shipment', `Unknown carrier: ${carrier}`, { field: 'carrier', value: carrier })
+  }
+  return carrier as CarrierCode
+}
+
+function validateWeight(weight: unknown): number | null {
+  if (weight === undefined || weight === null) return null
+
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0 || weight > MAX_PARCEL_WEIGHT_KG) {
+    throw createShipmentError('invalid_shipment', `Weight must be between 0 and ${MAX_PARCEL_WEIGHT_KG} kg`, {
+      field: 'weightKg',
+      value: weight,
+    })
+  }
+
+  return Math.round(weight * 1000) / 1000
+}
+
+function validateShipDate(shippedAt: unknown): string {
+  if (shippedAt === undefined || shippedAt === null || shippedAt === '') {
+    return format(new Date(), 'yyyy-MM-dd')
+  }
+
+  const date = typeof shippedAt === 'string' ? parseISO(shippedAt) : null
+
+  if (!date || !isValid(date)) {
+    throw createShipmentError('invalid_shipment', 'Ship date must be a yyyy-MM-dd date', { field: 'shippedAt', value: shippedAt })
+  }
+
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Shipment Service Implementation (server-side)
+ *
+ * Registers the parcels sent for an order:
+ * - One shipments row per parcel, with carrier, tracking number, ship date and weight
+ * - Marks paid orders as shipped through the lifecycle state machine
+ * - Keeps orders.tracking_number / carrier in sync so the list can show and filter on tracking
+ * - Looks up tracking through the injected carrier adapters
+ * - Sends the order_shipped email through the OrderEmailService when asked to
+ */
+export class ShipmentServiceImpl implements ShipmentService {
+  private supabase: SupabaseClient
+  private carriers: CarrierAdapters
+  private emails?: OrderEmailService
+  private audit?: AuditService
+
+  constructor(supabase: SupabaseClient, carriers: CarrierAdapters, emails?: OrderEmailService, audit?: AuditService) {
+    this.supabase = supabase
+    this.carriers = carriers
+    this.emails = emails
+    this.audit = audit
+  }
+
+  /**
+   * Gets the parcels of an order in the order they were shipped
+   */
+  async getShipments(orderId: string): Promise<ShipmentRecord[]> {
+    const { data, error } = await this.supabase
+      .from(SHIPMENT_TABLES.SHIPMENTS)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('shipped_at', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return (data || []) as ShipmentRecord[]
+  }
+
+  /**
+   * Registers one or more parcels and marks the order as shipped
+   */
+  async createShipment(orderId: string, input: CreateShipmentInput, actor: AuditActor): Promise<ShipmentResult> {
+    const carrier = validateCarrier(input.carrier)
+    const shippedAt = validateShipDate(input.shippedAt)
+
+    if (!Array.isArray(input.parcels) || input.parcels.length === 0 || input.parcels.length > MAX_PARCELS_PER_SHIPMENT) {
+      throw createShipmentError('invalid_shipment', `A shipment needs 1-${MAX_PARCELS_PER_SHIPMENT} parcels`, { field: 'parcels' })
+    }
+
+    const parcels = input.parcels.map(parcel => ({
+      trackingNumber: normalizeTrackingNumber(parcel.trackingNumber),
+      weightKg: validateWeight(parcel.weightKg),
+    }))
+
+    const trackingNumbers = parcels.map(parcel => parcel.trackingNumber).filter(Boolean) as string[]
+    if (new Set(trackingNumbers).size !== trackingNumbers.length) {
+      throw createShipmentError('invalid_shipment', 'Every parcel needs its own tracking number', { field: 'parcels' })
+    }
+
+    const order = await this.fetchOrder(orderId)
+
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      throw createShipmentError('shipment_not_allowed', `${ORDER_STATUS_LABELS[order.status] ?? order.status} orders cannot be shipped`, {
+        orderId,
+        status: order.status,
+      })
+    }
+
+    const records: ShipmentRecord[] = parcels.map(parcel => ({
+      order_id: orderId,
+      carrier,
+      tracking_number: parcel.trackingNumber,
+      shipped_at: shippedAt,
+      weight_kg: parcel.weightKg,
+      tracking_status: null,
+      tracking_description: null,
+      tracking_checked_at: null,
+      created_by: actor.id,
+    }))
+
+    const { data: created, error } = await this.supabase
+      .from(SHIPMENT_TABLES.SHIPMENTS)
+      .insert(records)
+      .select()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    const { shipments, order: synced } = await this.syncOrderTracking(orderId)
+    let status = order.status
+
+    if (!SHIPPED_ORDER_STATUSES.includes(order.status)) {
+      const transition = await createOrderLifecycleService(this.supabase, this.audit).transition(orderId, 'shipped', {
+        userId: actor.id,
+        userEmail: actor.email,
+        note: `Shipped ${records.length} parcel${records.length === 1 ? '' : 's'} with ${CARRIER_LABELS[carrier]}`,
+      })
+      status = transition.order.status
+    }
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'order.shipment_added',
+        actor,
+        metadata: {
+          shipmentIds: ((created || []) as ShipmentRecord[]).map(shipment => shipment.id),
+          carrier,
+          shippedAt,
+          trackingNumbers,
+        },
+      })
+    }
+
+    return {
+      shipments,
+      order: { ...synced, status },
+      emailSent: input.notifyCustomer ? await this.sendShippedEmail(orderId, actor) : null,
+    }
+  }
+
+  /**
+   * Changes a parcel, typically to add the tracking number later
+   */
+  async updateShipment(orderId: string, shipmentId: string, input: UpdateShipmentInput, actor: AuditActor): Promise<ShipmentResult> {
+    const existing = await this.fetchShipment(orderId, shipmentId)
+    const changes: Partial<ShipmentRecord> = {}
+
+    if (input.carrier !== undefined) changes.carrier = validateCarrier(input.carrier)
+    if (input.trackingNumber !== undefined) changes.tracking_number = normalizeTrackingNumber(input.trackingNumber)
+    if (input.weightKg !== undefined) changes.weight_kg = validateWeight(input.weightKg)
+
+    const fieldChanges = diffFields<ShipmentRecord>(existing, changes, ['carrier', 'tracking_number', 'weight_kg'])
+
+    if (fieldChanges.tracking_number || fieldChanges.carrier) {
+      // The cached tracking status belonged to the old number
+      Object.assign(changes, { tracking_status: null, tracking_description: null, tracking_checked_at: null })
+    }
+
+    if (Object.keys(fieldChanges).length > 0) {
+      const { error } = await this.supabase
+        .from(SHIPMENT_TABLES.SHIPMENTS)
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', shipmentId)
+        .eq('order_id', orderId)
+
+      if (error) {
+        throw createOrderError('database_error', error.message, { orderId, shipmentId })
+      }
+    }
+
+    const { shipments, order } = await this.syncOrderTracking(orderId)
+
+    if (this.audit && Object.keys(fieldChanges).length > 0) {
+      await this.audit.record({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'order.shipment_updated',
+        actor,
+        changes: fieldChanges,
+        metadata: { shipmentId },
+      })
+    }
+
+    return {
+      shipments,
+      order,
+      emailSent: input.notifyCustomer ? await this.sendShippedEmail(orderId, actor) : null,
+    }
+  }
+
+  /**
+   * Removes a parcel that was registered by mistake; the order status is left alone
+   */
+  async deleteShipment(orderId: string, shipmentId: string, actor: AuditActor): Promise<ShipmentResult> {
+    const existing = await this.fetchShipment(orderId, shipmentId)
+
+    const { error } = await this.supabase
+      .from(SHIPMENT_TABLES.SHIPMENTS)
+      .delete()
+      .eq('id', shipmentId)
+      .eq('order_id', orderId)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId, shipmentId })
+    }
+
+    const { shipments, order } = await this.syncOrderTracking(orderId)
+
+    if (this.audit) {
+      await this.audit.record({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'order.shipment_removed',
+        actor,
+        metadata: {
+          shipmentId,
+          carrier: existing.carrier,
+          trackingNumber: existing.tracking_number,
+        },
+      })
+    }
+
+    return { shipments, order, emailSent: null }
+  }
+
+  /**
+   * Looks up the latest tracking status with the carrier and stores it on the parcel
+   */
+  async refreshTracking(orderId: string, shipmentId: string): Promise<ShipmentRecord> {
+    const shipment = await this.fetchShipment(orderId, shipmentId)
+
+    if (!shipment.tracking_number) {
+      throw createShipmentError('shipment_not_allowed', 'Parcel has no tracking number', { orderId, shipmentId })
+    }
+
+    const order = await this.fetchOrder(orderId)
+    const adapter = this.carriers[shipment.carrier]
+
+    if (!adapter) {
+      throw createShipmentError('configuration_error', `No carrier adapter for ${shipment.carrier}`, { carrier: shipment.carrier })
+    }
+
+    let tracking
+
+    try {
+      tracking = await adapter.track({
+        trackingNumber: shipment.tracking_number,
+        postalCode: order.customer_postal_code,
+        country: order.customer_country,
+      })
+    } catch (error) {
+      if (isShipmentError(error)) throw error
+      throw createShipmentError('carrier_error', error instanceof Error ? error.message : 'Carrier tracking error', {
+        carrier: shipment.carrier,
+      })
+    }
+
+    const changes = {
+      tracking_status: tracking.status,
+      tracking_description: tracking.description,
+      tracking_checked_at: new Date().toISOString(),
+    }
+
+    const { error } = await this.supabase
+      .from(SHIPMENT_TABLES.SHIPMENTS)
+      .update(changes)
+      .eq('id', shipmentId)
+      .eq('order_id', orderId)
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId, shipmentId })
+    }
+
+    return { ...shipment, ...changes }
+  }
+
+  private async fetchOrder(orderId: string): Promise<ShipmentOrder> {
+    const { data, error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .select('id, status, customer_postal_code, customer_country')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    if (!data) {
+      throw createOrderError('order_not_found', 'Order not found', { orderId })
+    }
+
+    return data as ShipmentOrder
+  }
+
+  private async fetchShipment(orderId: string, shipmentId: string): Promise<ShipmentRecord> {
+    const { data, error } = await this.supabase
+      .from(SHIPMENT_TABLES.SHIPMENTS)
+      .select('*')
+      .eq('id', shipmentId)
+      .eq('order_id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId, shipmentId })
+    }
+
+    if (!data) {
+      throw createShipmentError('shipment_not_found', 'Shipment not found', { orderId, shipmentId })
+    }
+
+    return data as ShipmentRecord
+  }
+
+  // Copies the latest tracked parcel onto the order, for the list column and the "without tracking" filter
+  private async syncOrderTracking(orderId: string): Promise<Pick<ShipmentResult, 'shipments' | 'order'>> {
+    const shipments = await this.getShipments(orderId)
+    const latest = [...shipments].reverse().find(shipment => shipment.tracking_number)
+
+    const { data: order, error } = await this.supabase
+      .from(ORDER_TABLES.ORDERS)
+      .update({
+        tracking_number: latest?.tracking_number ?? null,
+        carrier: latest?.carrier ?? shipments[shipments.length - 1]?.carrier ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', orderId)
+      .select('id, status, tracking_number, carrier')
+      .single()
+
+    if (error) {
+      throw createOrderError('database_error', error.message, { orderId })
+    }
+
+    return { shipments, order: order as ShipmentResult['order'] }
+  }
+
+  // The parcels are registered either way; a failed email shows up in the send log
+  private async sendShippedEmail(orderId: string, actor: AuditActor): Promise<boolean> {
+    if (!this.emails) return false
+
+    try {
+      const result = await this.emails.sendOrderEmails(orderId, { templates: ['order_shipped'], sentBy: actor.id })
+      return result.emailsSent
+    } catch (error) {
+      console.error(`[ShipmentService] Failed to send shipped email for order ${orderId}:`, error)
+      return false
+    }
+  }
+}
+
+/**
+ * Factory function to create ShipmentService instance
+ */
+export function createShipmentService(
+  supabase: SupabaseClient,
+  carriers: CarrierAdapters,
+  emails?: OrderEmailService,
+  audit?: AuditService
+): ShipmentService {
+  return new ShipmentServiceImpl(supabase, carriers, emails, audit)
+}
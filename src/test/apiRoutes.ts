@@ -0,0 +1,26 @@
+import { vi } from 'vitest'
+import { createMockSupabase } from './mockSupabase'
+
+// Shared setup for the API route tests: the route handlers get the Supabase mock of the running test
+// (from `mockRouteSupabase()` in beforeEach), and `signIn(role)` sets the logged-in user.
+// Import this before the routes under test, so the mocks below are in place when they load.
+
+let mock: ReturnType<typeof createMockSupabase>
+
+vi.mock('next/headers', () => ({ cookies: vi.fn() }))
+vi.mock('@supabase/auth-helpers-nextjs', () => ({
+  createRouteHandlerClient: () => mock.client,
+}))
+
+export function mockRouteSupabase() {
+  mock = createMockSupabase()
+  return mock
+}
+
+// A logged-in user with the given role in their app metadata; null for a user without one
+export function signIn(role: string | null, email = 'staff@example.com') {
+  mock.client.auth.getUser.mockResolvedValue({
+    data: { user: { id: 'user-1', email, app_metadata: role ? { role } : {}, user_metadata: {} } },
+    error: null,
+  })
+}
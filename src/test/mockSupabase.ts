@@ -0,0 +1,66 @@
+import { vi } from 'vitest'
+
+// Chainable Supabase client mock for service and route tests.
+// Queue results per table with `respond(table, result)`; each awaited query on
+// that table consumes the next queued result (or `{ data: null, error: null }`).
+
+export interface MockQueryResult {
+  data?: any
+  error?: { message: string; code?: string } | null
+  count?: number | null
+}
+
+export interface MockQueryCall {
+  table: string
+  method: string
+  args: any[]
+}
+
+const CHAIN_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in',
+  'or', 'not', 'match', 'contains', 'filter',
+  'order', 'limit', 'range', 'single', 'maybeSingle',
+]
+
+export function createMockSupabase() {
+  const queues = new Map<string, MockQueryResult[]>()
+  const calls: MockQueryCall[] = []
+
+  const respond = (table: string, ...results: MockQueryResult[]) => {
+    queues.set(table, [...(queues.get(table) || []), ...results])
+  }
+
+  const from = vi.fn((table: string) => {
+    const builder: any = {}
+
+    CHAIN_METHODS.forEach(method => {
+      builder[method] = vi.fn((...args: any[]) => {
+        calls.push({ table, method, args })
+        return builder
+      })
+    })
+
+    builder.then = (resolve: (value: any) => any, reject?: (reason: any) => any) => {
+      const queue = queues.get(table) || []
+      const next = queue.shift() || { data: null, error: null }
+      return Promise.resolve({ data: null, error: null, count: null, ...next }).then(resolve, reject)
+    }
+
+    return builder
+  })
+
+  const client: any = {
+    from,
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: null }),
+    },
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+  }
+
+  /** Returns the recorded calls for a table, optionally filtered by method */
+  const callsFor = (table: string, method?: string) =>
+    calls.filter(call => call.table === table && (!method || call.method === method))
+
+  return { client, respond, calls, callsFor }
+}
@@ -0,0 +1,37 @@
+// Server-side API route types
+
+import type { User } from '@supabase/auth-js'
+
+export type UserRole = 'admin' | 'editor'
+
+// Authenticated caller of an API route
+export interface ApiCaller {
+  user: User
+  role: UserRole
+}
+
+// API Errors
+export type ApiErrorType =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invalid_payload'
+  | 'configuration_error'
+
+export interface ApiError extends Error {
+  type: ApiErrorType
+  details?: Record<string, any>
+}
+
+// Error body returned by API routes
+export interface ApiErrorBody {
+  error: string
+  type?: string
+  details?: Record<string, any>
+}
+
+// Error thrown by the client-side API helper for non-2xx responses
+export interface ApiResponseError extends Error {
+  status: number
+  type?: string
+  details?: Record<string, any>
+}
@@ -0,0 +1,103 @@
+// Audit trail types
+// Matches the audit_log table written by server-side API routes
+
+export type AuditEntityType = 'order' | 'product' | 'customer' | 'category' | 'collection' | 'media_asset' | 'vat_rate' | 'content_section' // Customers are identified by email
+
+export type AuditAction =
+  | 'order.status_changed'
+  | 'order.refunded'
+  | 'order.refund_incomplete'
+  | 'order.shipment_added'
+  | 'order.shipment_updated'
+  | 'order.shipment_removed'
+  | 'product.created'
+  | 'product.updated'
+  | 'product.stock_adjusted'
+  | 'product.published' // By the publishing job
+  | 'product.unpublished'
+  | 'product.restored' // Back to an earlier revision
+  | 'product.deleted' // Only when rolling back an import
+  | 'category.created'
+  | 'category.updated'
+  | 'category.deleted'
+  | 'collection.created'
+  | 'collection.updated'
+  | 'collection.deleted'
+  | 'media.tags_updated'
+  | 'media.deleted'
+  | 'customer.merged'
+  | 'customer.exported'
+  | 'customer.anonymised'
+  | 'vat_rate.saved'
+  | 'vat_rate.deleted'
+  | 'content_section.submitted'
+  | 'content_section.rejected'
+  | 'content_section.published'
+  | 'content_section.restored' // Back to an earlier version, on its own or with the whole page
+
+// Who performed an audited action
+export interface AuditActor {
+  id: string | null // References Supabase user IDs
+  email: string | null
+  role?: 'admin' | 'editor' | null
+}
+
+// Field-level change, e.g. { price: { from: 50, to: 55 } }
+export type AuditChanges = Record<string, { from: any; to: any }>
+
+// Tracked fields of an entity as they were right after an audited change
+export type AuditSnapshot = Record<string, any>
+
+// Database record for the audit_log table
+export interface AuditLogRecord {
+  id?: string
+  entity_type: AuditEntityType
+  entity_id: string
+  action: AuditAction
+  actor_id: string | null
+  actor_email: string | null
+  changes: AuditChanges | null
+  metadata: Record<string, any> | null
+  snapshot?: AuditSnapshot | null // Only on entries that are a revision
+  created_at?: string
+}
+
+export interface AuditEntryInput {
+  entityType: AuditEntityType
+  entityId: string
+  action: AuditAction
+  actor: AuditActor
+  changes?: AuditChanges | null
+  metadata?: Record<string, any> | null
+  snapshot?: AuditSnapshot | null
+}
+
+// Options for reading the audit trail of an entity
+export interface AuditEntriesOptions {
+  revisionsOnly?: boolean // Only entries with a snapshot
+}
+
+// An audit entry with a snapshot: a saved state of the entity that can be compared and restored
+export interface AuditRevision<T extends AuditSnapshot = AuditSnapshot> {
+  id: string
+  action: AuditAction
+  actorEmail: string | null
+  createdAt: string
+  changedFields: string[]
+  snapshot: T
+  restoredFrom: string | null // The revision this one restored
+}
+
+// One run of words in a word-level comparison of two texts
+export interface WordDiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string // The words with the whitespace between them
+}
+
+// One row of the side-by-side comparison of two revisions
+export interface AuditRevisionFieldDiff {
+  field: string
+  from: any
+  to: any
+  changed: boolean
+}
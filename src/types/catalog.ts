@@ -0,0 +1,86 @@
+// Catalog types: the category taxonomy, free-form tags, curated collections and revenue per category
+
+// Database record for the product_categories table; categories nest through parent_id
+export interface ProductCategory {
+  id: string
+  name: string
+  slug: string
+  parent_id: string | null // null for top-level categories
+  created_at: string
+  updated_at: string
+}
+
+// Fields an admin may set when creating or editing a category
+export interface CategoryInput {
+  name: string
+  parent_id: string | null
+}
+
+// Category in the taxonomy tree, with its place in the hierarchy
+export interface CategoryTreeNode extends ProductCategory {
+  depth: number // 0 for top-level categories
+  path: string // e.g. "Whisky › Scotch › Islay"
+  children: CategoryTreeNode[]
+}
+
+// Database record for the product_collections table
+export interface ProductCollection {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  created_at: string
+  updated_at: string
+  product_ids?: string[] // In curated order, when loaded with the collection
+}
+
+// Fields an admin may set when creating or editing a collection
+export interface CollectionInput {
+  name: string
+  description: string | null
+}
+
+// Database record for the product_collection_items table (one row per product in a collection)
+export interface ProductCollectionItem {
+  collection_id: string
+  product_id: string
+  position: number
+}
+
+// Result of deleting a category: its products move to the parent category
+export interface CategoryDeleteResult {
+  categoryId: string
+  movedProducts: number
+  parentId: string | null
+}
+
+// Revenue of one category, or of the products without a category (categoryId null)
+export interface CategoryRevenueRow {
+  categoryId: string | null
+  name: string
+  path: string
+  depth: number
+  revenue: Record<string, number> // Per currency, net of refunds, for products directly in this category
+  totalRevenue: Record<string, number> // Per currency, including the subcategories
+  unitsSold: number // Including the subcategories
+}
+
+export interface CategoryRevenueReport {
+  since: string | null // null for all time
+  orderCount: number
+  total: Record<string, number> // Per currency
+  rows: CategoryRevenueRow[] // In taxonomy order, uncategorised last
+}
+
+// Catalog Errors
+export type CatalogErrorType =
+  | 'invalid_category'
+  | 'category_not_found'
+  | 'category_not_allowed'
+  | 'invalid_collection'
+  | 'collection_not_found'
+
+export interface CatalogError extends Error {
+  type: CatalogErrorType
+  details?: Record<string, any>
+}
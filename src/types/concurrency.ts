@@ -0,0 +1,39 @@
+// Optimistic concurrency types: a save names the version of the record it started from, and fails with a
+// concurrent_update (409) when someone else saved the record in the meantime
+
+// Details of a concurrent_update error of a product or content draft
+export interface ConcurrentUpdateDetails<T extends Record<string, any> = Record<string, any>> {
+  current: T | null // The record as it is now; null when it was removed
+}
+
+// A field compared in the conflict dialog
+export interface ConflictField {
+  key: string
+  label: string
+  format?: (value: any) => string // Readable value; plain text, lists and JSON by default
+}
+
+// A save that ran into someone else's change: the record the edit started from, the record as it is now and the edit
+export interface EditConflict<T extends Record<string, any> = Record<string, any>> {
+  title: string
+  fields: ConflictField[]
+  base: Partial<T>
+  theirs: Partial<T>
+  yours: Partial<T>
+  theirAuthor?: string | null
+  theirTime?: string | null
+}
+
+// One field of an edit conflict, compared three ways
+export interface ConflictFieldComparison {
+  field: ConflictField
+  base: any
+  theirs: any
+  yours: any
+  changedByThem: boolean
+  changedByYou: boolean
+  conflicting: boolean // Both changed it, to different values
+}
+
+// Which side a conflicting field keeps when merging
+export type ConflictChoice = 'theirs' | 'yours'
@@ -0,0 +1,109 @@
+// Website content types: the text sections of the public site pages, edited from the dashboard as reviewed drafts
+
+import type { AuditRevision } from './audit'
+
+// Pages whose content is a list of sections; the homepage has its own editor
+export type ContentPageSlug = 'aboutpage' | 'charitypage' | 'artpage' | 'whiskypage'
+
+// How a section is shown on the site, and so how it is edited
+export type SectionStyleType = 'title' | 'subtitle' | 'paragraph' | 'email' | 'link' | 'image' | 'image_alt'
+
+// Database record shared by the about_sections, charity_sections, art_hero_sections and whisky_sections tables
+export interface ContentSection {
+  id: string
+  section_key: string
+  content: string
+  order_number: number
+  style_type: string // One of the page's SectionStyleTypes
+  is_active?: boolean
+  version?: number // Not on every table
+  updated_at?: string
+  last_edited_by?: string // Only on pages with tracksEditor
+}
+
+// Registry entry of a content page
+export interface ContentPageDefinition {
+  name: string
+  description: string
+  title: string // Heading of the editor, e.g. "About Us"
+  table: string
+  styleTypes: readonly SectionStyleType[]
+  tracksEditor: boolean // Whether the table has a last_edited_by column
+}
+
+// A draft is submitted for review; an admin approves it by publishing it, or rejects it back to draft
+export type ContentDraftStatus = 'draft' | 'in_review'
+
+// Database record for the content_drafts table: the unpublished edit of a section, at most one per section
+export interface ContentDraft {
+  id: string
+  page: ContentPageSlug
+  section_id: string
+  content: string
+  status: ContentDraftStatus
+  created_by: string | null // Email of the author
+  updated_by: string | null
+  submitted_by: string | null
+  submitted_at: string | null
+  review_note: string | null // Why an admin sent it back
+  created_at: string
+  updated_at: string
+}
+
+// Result of publishing every draft in review on a page
+export interface ContentPublishResult {
+  page: ContentPageSlug
+  published: number
+}
+
+// A section as it went live: kept as the snapshot of its content_section.published or .restored audit entry
+export type ContentRevisionSnapshot = {
+  content: string
+  version: number | null // null on tables without a version column
+  author: string | null // Who wrote the content; the entry's actor is who published it
+}
+
+export type ContentRevision = AuditRevision<ContentRevisionSnapshot>
+
+// One section of a page as it looked at a given moment
+export interface ContentSnapshotSection {
+  section: ContentSection // The live section
+  content: string // Its content at the moment of the snapshot
+  changed: boolean // Whether that differs from the live content
+}
+
+// A whole page as it looked at a given moment, built from the published versions of its sections
+export interface ContentPageSnapshot {
+  page: ContentPageSlug
+  at: string
+  sections: ContentSnapshotSection[]
+}
+
+// Result of rolling a page back to a snapshot
+export interface ContentRollbackResult {
+  page: ContentPageSlug
+  at: string
+  restored: number // Sections that got their earlier content back as a new version
+}
+
+// How the editor shows and validates one style type
+export interface SectionFieldConfig {
+  label: string | null // null shows the section key instead
+  input: 'text' | 'textarea' | 'email' | 'url'
+  placeholder?: string
+  required: boolean
+}
+
+export type ContentErrorType =
+  | 'content_page_not_found'
+  | 'content_section_not_found'
+  | 'content_draft_not_found'
+  | 'content_revision_not_found'
+  | 'content_not_allowed'
+  | 'concurrent_update' // The draft or section changed since the edit started
+  | 'invalid_content_section'
+
+export interface ContentError extends Error {
+  type: ContentErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,113 @@
+// Customer directory types
+// Customers aren't stored separately: profiles are built from the customer columns on orders, grouped by email
+
+import type { Order, OrderItem, SortDirection } from './orders'
+import type { OrderEmailLogRecord } from './email'
+import type { ShipmentRecord } from './shipments'
+
+// Order columns a customer profile is built from
+export type CustomerOrder = Pick<
+  Order,
+  | 'id'
+  | 'order_number'
+  | 'customer_first_name'
+  | 'customer_last_name'
+  | 'customer_email'
+  | 'customer_address'
+  | 'customer_city'
+  | 'customer_postal_code'
+  | 'customer_country'
+  | 'total_amount'
+  | 'refunded_amount'
+  | 'currency'
+  | 'status'
+  | 'created_at'
+>
+
+export interface CustomerAddress {
+  address: string
+  postalCode: string
+  city: string
+  country: string
+  lastUsedAt: string
+}
+
+export interface CustomerProfile {
+  email: string // Trimmed, lower-cased email; identifies the customer
+  emailVariants: string[] // Spellings of the email as stored on the orders
+  firstName: string // From the most recent order
+  lastName: string
+  orderCount: number
+  paidOrderCount: number
+  lifetimeDonated: Record<string, number> // Paid order totals minus refunds, per currency
+  firstOrderAt: string
+  lastOrderAt: string
+  addresses: CustomerAddress[] // Most recently used first
+  orderIds: string[] // Newest first
+  anonymised: boolean
+}
+
+export type CustomerSortField = 'last_order' | 'lifetime_donated' | 'order_count' | 'name'
+
+export interface CustomerListQuery {
+  search: string // Matches name, email and city
+  sortField: CustomerSortField
+  sortDirection: SortDirection
+  page: number // 1-based
+}
+
+export interface CustomerListPage {
+  customers: CustomerProfile[]
+  total: number
+  page: number
+  pageSize: number
+  pageCount: number
+}
+
+export interface CustomerDetail {
+  profile: CustomerProfile
+  orders: Order[] // Newest first
+}
+
+export type CustomerDuplicateReason = 'similar_email' | 'same_name_and_postal_code'
+
+// Profiles that probably belong to the same person
+export interface CustomerDuplicateGroup {
+  reason: CustomerDuplicateReason
+  customers: CustomerProfile[]
+}
+
+export interface MergeCustomersInput {
+  targetEmail: string // Email the orders of the other profiles are moved to
+  sourceEmails: string[]
+}
+
+export interface CustomerMergeResult {
+  customer: CustomerProfile
+  mergedOrderIds: string[]
+}
+
+// Everything stored about a customer, for GDPR access requests
+export interface CustomerExport {
+  exportedAt: string
+  customer: CustomerProfile
+  orders: (Order & { items: OrderItem[] })[]
+  emails: OrderEmailLogRecord[]
+  shipments: ShipmentRecord[]
+}
+
+export interface CustomerAnonymiseResult {
+  pseudonym: string // Replaces the email on the orders and in the audit log
+  anonymisedOrderIds: string[]
+}
+
+// Customer Errors
+export type CustomerErrorType =
+  | 'invalid_customer'
+  | 'customer_not_found'
+  | 'customer_not_allowed'
+
+export interface CustomerError extends Error {
+  type: CustomerErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,82 @@
+// Order document types: invoices, packing slips and batch exports
+
+import type { Order } from './orders'
+
+export type OrderDocumentType = 'invoice' | 'packing_slip'
+
+// Database record for the invoices table (one invoice per order)
+export interface InvoiceRecord {
+  id?: string
+  order_id: string
+  sequence: number // Gapless, unique counter used for the invoice number
+  invoice_number: string
+  issued_at: string
+  subtotal_excl_vat: number
+  vat_amount: number
+  total_incl_vat: number
+  lines?: DocumentLine[] | null // As invoiced; null on invoices issued before the lines were stored
+  created_by: string | null // References Supabase user IDs
+  created_at?: string
+}
+
+export interface DocumentLine {
+  product_id: string
+  name: string
+  quantity: number
+  unit_price: number // Including VAT
+  line_total: number // Including VAT
+  vat_rate: number // Percentage, e.g. 21
+}
+
+export interface VatBreakdownLine {
+  rate: number
+  net: number
+  vat: number
+  gross: number
+}
+
+export interface VatTotals {
+  subtotalExclVat: number
+  vatAmount: number
+  totalInclVat: number
+  breakdown: VatBreakdownLine[]
+}
+
+// Data a document is rendered from
+export interface OrderDocumentData {
+  order: Order
+  lines: DocumentLine[]
+}
+
+export interface InvoiceDocumentData extends OrderDocumentData {
+  invoice: InvoiceRecord
+  vat: VatTotals
+}
+
+export interface RenderedDocument {
+  filename: string
+  contentType: 'application/pdf'
+  bytes: Uint8Array
+}
+
+export interface OrderDocumentOptions {
+  createdBy?: string | null // Recorded on newly issued invoices
+}
+
+export interface DocumentExportResult {
+  document: RenderedDocument
+  exported: string[] // Order IDs included in the PDF
+  skipped: string[] // Order IDs that could not be invoiced
+}
+
+// Document Errors
+export type DocumentErrorType =
+  | 'invalid_document_type'
+  | 'invoice_not_allowed'
+  | 'invoice_number_conflict'
+  | 'too_many_orders'
+
+export interface DocumentError extends Error {
+  type: DocumentErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,120 @@
+// Order email types: templates, mail transports and the per-order send log
+
+import type { Order } from './orders'
+
+// Templates
+export type OrderEmailTemplate =
+  | 'order_confirmation' // Sent to the customer
+  | 'order_notification' // Sent to the shop team
+  | 'order_shipped' // Sent to the customer with the tracking links
+
+export type OrderEmailRecipient = 'customer' | 'team'
+
+export interface OrderEmailItem {
+  product_id: string
+  name: string
+  quantity: number
+  unit_price: number
+  line_total: number
+}
+
+// Parcel as shown in the shipped email
+export interface OrderEmailShipment {
+  carrier: string // Display label, e.g. PostNL
+  tracking_number: string | null
+  tracking_url: string | null
+}
+
+// Data every order template is rendered from
+export interface OrderEmailData {
+  order: Order
+  items: OrderEmailItem[]
+  shipments?: OrderEmailShipment[] // Loaded for the order_shipped template
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export type EmailTemplateRenderer<TData> = (data: TData) => RenderedEmail
+
+// Transport
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+}
+
+export interface MailSendResult {
+  messageId: string | null
+}
+
+export type MailTransportType = 'smtp' | 'file' | 'memory'
+
+/**
+ * Sends a single message. Swap implementations to use a real SMTP server,
+ * a local SMTP stand-in (e.g. Mailpit) or a file sink in tests.
+ */
+export interface MailTransport {
+  readonly name: MailTransportType
+  send(message: MailMessage): Promise<MailSendResult>
+}
+
+export interface MailConfig {
+  transport: MailTransportType
+  from: string
+  notificationTo: string
+  replyTo?: string
+  smtp: {
+    host: string
+    port: number
+    secure: boolean
+    user?: string
+    pass?: string
+  }
+  fileDirectory: string
+}
+
+// Database record for the order_email_log table
+export type OrderEmailSendStatus = 'sent' | 'failed'
+
+export interface OrderEmailLogRecord {
+  id?: string
+  order_id: string
+  template: OrderEmailTemplate
+  recipient: string
+  subject: string
+  status: OrderEmailSendStatus
+  transport: MailTransportType
+  message_id: string | null
+  error: string | null
+  sent_by: string | null // References Supabase user IDs
+  created_at?: string
+}
+
+export interface SendOrderEmailsOptions {
+  templates?: OrderEmailTemplate[]
+  sentBy?: string | null
+}
+
+export interface SendOrderEmailsResult {
+  orderId: string
+  emailsSent: boolean
+  log: OrderEmailLogRecord[]
+}
+
+// Email Errors
+export type EmailErrorType =
+  | 'invalid_template'
+  | 'configuration_error'
+  | 'send_failed'
+
+export interface EmailError extends Error {
+  type: EmailErrorType
+  details?: Record<string, any>
+}
@@ -3,9 +3,43 @@ export * from './auth'
 export * from './services'
 export * from './supabase'
 export * from './config'
+export * from './orders'
+export * from './products'
+export * from './audit'
+export * from './api'
+export * from './email'
+export * from './documents'
+export * from './refunds'
+export * from './shipments'
+export * from './notes'
+export * from './customers'
+export * from './inventory'
+export * from './productImport'
+export * from './catalog'
+export * from './media'
+export * from './pricing'
+export * from './content'
+export * from './concurrency'
+export * from './presence'
 
 // Re-export constants for convenience
 export * from '../constants/auth'
+export * from '../constants/orders'
+export * from '../constants/products'
+export * from '../constants/api'
+export * from '../constants/email'
+export * from '../constants/documents'
+export * from '../constants/refunds'
+export * from '../constants/shipments'
+export * from '../constants/notes'
+export * from '../constants/customers'
+export * from '../constants/inventory'
+export * from '../constants/productImport'
+export * from '../constants/catalog'
+export * from '../constants/media'
+export * from '../constants/pricing'
+export * from '../constants/content'
+export * from '../constants/presence'
 
 // Re-export utilities
 export * from '../utils/typeGuards'
\ No newline at end of file
@@ -0,0 +1,89 @@
+// Inventory types: the stock movement ledger, manual adjustments and low-stock alerts
+
+export type StockMovementType =
+  | 'adjustment' // Manual change: stock count, product edit, reconciliation
+  | 'sale' // Written by the shop checkout
+  | 'refund_restock'
+  | 'import'
+
+// Database record for the stock_movements table; stock only changes together with a movement
+export interface StockMovementRecord {
+  id?: string
+  product_id: string
+  variant_id: string | null // Set when the stock of a variant changed
+  type: StockMovementType
+  quantity: number // Signed change, e.g. -2 for a sale of two bottles
+  stock_after: number // Stock of the product or variant after the movement
+  reason: string | null
+  reference_id: string | null // Order, refund or import the movement came from
+  created_by: string | null // References Supabase user IDs
+  created_by_email: string | null
+  created_at?: string
+}
+
+export interface StockMovementInput {
+  productId: string
+  variantId?: string | null
+  type: StockMovementType
+  quantity: number
+  stockAfter: number
+  reason?: string | null
+  referenceId?: string | null
+}
+
+// Options for a stock change made by the inventory service itself
+export interface StockChangeOptions {
+  type: StockMovementType
+  reason?: string | null
+  referenceId?: string | null
+}
+
+// Manual adjustment to a counted stock level
+export interface StockAdjustmentInput {
+  stock: number
+  variantId?: string | null // Required for products with variants
+  reason: string
+}
+
+export interface StockAdjustmentResult {
+  movement: StockMovementRecord
+  productStock: number
+}
+
+// Recorded stock compared with the sum of the ledger, per product or variant
+export interface StockReconciliation {
+  productId: string
+  variantId: string | null
+  recordedStock: number
+  ledgerStock: number
+  difference: number // recordedStock - ledgerStock
+}
+
+export interface StockHistoryResponse {
+  movements: StockMovementRecord[] // Oldest first
+  reconciliation: StockReconciliation[]
+}
+
+export interface LowStockAlert {
+  productId: string
+  productName: string
+  variantId: string | null
+  variantLabel: string | null
+  stock: number
+  threshold: number
+}
+
+export interface StockSeriesPoint {
+  at: string
+  stock: number
+}
+
+// Inventory Errors
+export type InventoryErrorType =
+  | 'invalid_stock_adjustment'
+  | 'stock_conflict'
+
+export interface InventoryError extends Error {
+  type: InventoryErrorType
+  details?: Record<string, any>
+}
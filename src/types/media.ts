@@ -0,0 +1,84 @@
+// Media library types: Cloudinary assets, where they are used and the media adapter interface
+
+// Image asset as stored in Cloudinary
+export interface MediaAsset {
+  publicId: string // What product images and CldImage refer to, e.g. products/bottle
+  url: string // Secure delivery URL of the original
+  format: string
+  width: number
+  height: number
+  bytes: number
+  tags: string[]
+  createdAt: string
+}
+
+export type MediaUsageKind = 'product' | 'product_variant' | 'hero_item'
+
+// A product, variant or homepage section that shows the asset
+export interface MediaUsage {
+  kind: MediaUsageKind
+  id: string
+  label: string
+  href: string | null // Dashboard page to edit the usage, if there is one
+}
+
+export interface MediaAssetWithUsage extends MediaAsset {
+  usage: MediaUsage[]
+}
+
+export interface MediaSearchQuery {
+  query: string | null // Matches the start of words in the public ID, file name and tags
+  tag: string | null
+  cursor: string | null // nextCursor of the previous page
+  limit: number
+}
+
+export interface MediaSearchResult {
+  assets: MediaAsset[]
+  nextCursor: string | null
+}
+
+export interface MediaLibraryPage {
+  assets: MediaAssetWithUsage[]
+  nextCursor: string | null
+}
+
+export interface MediaDeleteResult {
+  publicId: string
+  usage: MediaUsage[] // Usages that still referred to the asset when it was deleted anyway
+}
+
+export type MediaAdapterMode = 'live' | 'mock'
+
+// Lists and manages uploaded assets; uploading itself goes through CldUploadWidget
+export interface MediaAdapter {
+  mode: MediaAdapterMode
+  search(query: MediaSearchQuery): Promise<MediaSearchResult>
+  getAsset(publicId: string): Promise<MediaAsset | null>
+  listTags(): Promise<string[]>
+  setTags(publicId: string, tags: string[]): Promise<MediaAsset>
+  destroy(publicId: string): Promise<void>
+}
+
+export interface MediaConfig {
+  mode: MediaAdapterMode
+  cloudinary: {
+    cloudName?: string
+    apiKey?: string
+    apiSecret?: string
+    apiUrl: string
+  }
+}
+
+// Media Errors
+export type MediaErrorType =
+  | 'invalid_media_request'
+  | 'asset_not_found'
+  | 'asset_in_use'
+  | 'provider_error'
+  | 'configuration_error'
+
+export interface MediaError extends Error {
+  type: MediaErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,69 @@
+// Internal order notes and the order activity feed
+
+import type { UserRole } from './api'
+import type { AuditLogRecord } from './audit'
+import type { OrderEmailLogRecord } from './email'
+import type { OrderStatusHistoryRecord } from './orders'
+
+// Database record for the order_notes table
+export interface OrderNoteRecord {
+  id?: string
+  order_id: string
+  parent_id: string | null // Root note of the thread; replies are one level deep
+  author_id: string | null // References Supabase user IDs
+  author_email: string | null
+  content: string
+  mentions: string[] // User IDs of the @mentioned dashboard users
+  created_at?: string
+}
+
+export interface CreateOrderNoteInput {
+  content: string
+  parentId?: string | null
+}
+
+// A root note with its replies, oldest reply first
+export interface OrderNoteThread extends OrderNoteRecord {
+  replies: OrderNoteRecord[]
+}
+
+// Dashboard user that can be @mentioned by handle (the local part of the email)
+export interface MentionableUser {
+  id: string
+  email: string
+  handle: string
+  role: UserRole
+}
+
+export interface OrderActivityResponse {
+  notes: OrderNoteRecord[]
+  audit: AuditLogRecord[]
+  mentionable: MentionableUser[]
+}
+
+export type OrderActivityKind = 'note' | 'status' | 'email' | 'edit'
+
+// One entry of the merged activity feed; `at` is the time used for ordering
+export type OrderActivityItem =
+  | { kind: 'note'; id: string; at: string; note: OrderNoteThread }
+  | { kind: 'status'; id: string; at: string; history: OrderStatusHistoryRecord }
+  | { kind: 'email'; id: string; at: string; email: OrderEmailLogRecord }
+  | { kind: 'edit'; id: string; at: string; entry: AuditLogRecord }
+
+export interface OrderActivitySources {
+  notes: OrderNoteRecord[]
+  history: OrderStatusHistoryRecord[]
+  emails: OrderEmailLogRecord[]
+  audit: AuditLogRecord[]
+}
+
+// Note Errors
+export type NoteErrorType =
+  | 'invalid_note'
+  | 'note_not_found'
+  | 'note_not_allowed'
+
+export interface NoteError extends Error {
+  type: NoteErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,155 @@
+// Order management types
+// These types match the existing orders / order_items schema
+
+import type { CarrierCode } from './shipments'
+import type { ProductVariant } from './products'
+import type { CurrencyCode } from './pricing'
+
+// Order lifecycle
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'shipped'
+  | 'completed'
+  | 'cancelled'
+  | 'partially_refunded'
+  | 'refunded'
+
+export interface OrderItem {
+  id: string
+  order_id: string
+  product_id: string
+  variant_id?: string | null // References product_variants when the product has variants
+  quantity: number
+  price: number
+  created_at: string
+  product?: {
+    name: string
+    image: string
+  }
+  variant?: Pick<ProductVariant, 'sku' | 'bottle_size_ml' | 'vintage' | 'cask' | 'image'> | null
+}
+
+export interface Order {
+  id: string
+  order_number: string
+  customer_first_name: string
+  customer_last_name: string
+  customer_email: string
+  customer_address: string
+  customer_city: string
+  customer_postal_code: string
+  customer_country: string
+  total_amount: number
+  currency?: CurrencyCode | null // null on orders from before multi-currency, which are in euros
+  status: OrderStatus
+  payment_reference: string | null
+  created_at: string
+  updated_at: string
+  emails_sent: boolean
+  refunded_amount?: number | null // Sum of the refunds paid out or pending; the refund service reserves a refund here before paying it out
+  tracking_number?: string | null // Latest tracked parcel, kept in sync by the shipment service
+  carrier?: CarrierCode | null
+  items?: OrderItem[]
+}
+
+// Database record for the order_status_history table
+export interface OrderStatusHistoryRecord {
+  id?: string
+  order_id: string
+  from_status: OrderStatus | null
+  to_status: OrderStatus
+  changed_by: string | null // References Supabase user IDs
+  changed_by_email: string | null
+  note: string | null
+  created_at?: string
+}
+
+export interface OrderTransitionOptions {
+  userId?: string | null
+  userEmail?: string | null
+  note?: string | null
+}
+
+export interface OrderTransitionResult {
+  order: Pick<Order, 'id' | 'status' | 'updated_at'>
+  history: OrderStatusHistoryRecord
+}
+
+// Order list queries
+export type OrderSortField = 'order_number' | 'customer_last_name' | 'created_at' | 'total_amount'
+
+export type SortDirection = 'asc' | 'desc'
+
+// Filter state of the order list; also serialized into the URL query string
+export interface OrderListFilters {
+  search: string // Matches order number, customer name, email and payment reference
+  status: OrderStatus | 'all'
+  dateFrom: string | null // yyyy-MM-dd, inclusive
+  dateTo: string | null // yyyy-MM-dd, inclusive
+  minAmount: number | null
+  maxAmount: number | null
+  missingTracking: boolean // Only shipped orders without a tracking number
+  sortField: OrderSortField
+  sortDirection: SortDirection
+}
+
+export interface OrderListPage {
+  orders: Order[]
+  total: number
+  page: number // 1-based
+  pageSize: number
+  pageCount: number
+}
+
+export interface AdjacentOrders {
+  prevId: string | null
+  nextId: string | null
+}
+
+// Database record for the order_filter_presets table
+export interface OrderFilterPresetRecord {
+  id?: string
+  user_id: string // References Supabase user IDs
+  name: string
+  filters: OrderListFilters
+  created_at?: string
+  updated_at?: string
+}
+
+// Bulk actions on selected orders
+export type BulkOrderAction = 'change_status' | 'send_emails' | 'export_csv' | 'print_packing_slips'
+
+export type BulkOrderItemStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface BulkOrderItemResult {
+  orderId: string
+  orderNumber: string
+  status: BulkOrderItemStatus
+  error?: string // Why the order failed, as reported by the API
+}
+
+// Snapshot reported after every processed order
+export interface BulkOrderProgress {
+  action: BulkOrderAction
+  total: number
+  completed: number
+  succeeded: number
+  failed: number
+  results: BulkOrderItemResult[]
+  done: boolean
+}
+
+// Order Errors
+export type OrderErrorType =
+  | 'invalid_status'
+  | 'invalid_transition'
+  | 'order_not_found'
+  | 'concurrent_update'
+  | 'invalid_preset'
+  | 'database_error'
+
+export interface OrderError extends Error {
+  type: OrderErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,21 @@
+// Realtime presence on the editor pages: who has a content editor or product page open, and which section they edit.
+// Editing a section puts a soft lock on it for the others, which they can take over.
+
+// What one open editor tab shares on the presence channel of its page
+export interface EditorPresence {
+  userId: string
+  email: string | null
+  openedAt: string
+  sectionId: string | null // The section being edited; null while only looking
+  sectionLabel: string | null // Its name, for the others
+  editingSince: string | null // When editing the section started or was taken over
+  activeAt: string // Last input in the section
+}
+
+// Someone else on the page; one per user, however many tabs they have open
+export interface PresenceMember extends EditorPresence {
+  isEditing: boolean // Editing a section and not idle for PRESENCE_IDLE_MS
+}
+
+// Section id → the member holding its soft lock
+export type SectionLocks = Map<string, PresenceMember>
@@ -0,0 +1,72 @@
+// Pricing types: order currencies and VAT rates per country and category
+
+import type { VatTotals } from './documents'
+import type { OrderItem } from './orders'
+
+// ISO 4217 codes the shop takes payment in
+export type CurrencyCode = 'EUR' | 'GBP' | 'USD' | 'CHF'
+
+// Database record for the vat_rates table.
+// A rate without a category is the country's standard rate; a category rate also covers its subcategories.
+export interface VatRateRecord {
+  id: string
+  country_code: string // ISO 3166-1 alpha-2, e.g. "NL"
+  category_id: string | null // References product_categories
+  rate: number // Percentage, e.g. 21
+  created_at: string
+  updated_at: string
+}
+
+export interface VatRateInput {
+  country_code: string
+  category_id: string | null
+  rate: number
+}
+
+// Where the VAT rate of an order line came from
+export type VatRateSource = 'category' | 'country' | 'default'
+
+export interface ResolvedVatRate {
+  rate: number
+  source: VatRateSource
+}
+
+// Order item as loaded for pricing, with its product's category
+export type PricingOrderItem = Pick<OrderItem, 'id' | 'product_id' | 'quantity' | 'price'> & {
+  product_name: string
+  product_category_id: string | null
+}
+
+// Order line with its VAT-inclusive price split into net and VAT
+export interface PricedOrderLine {
+  order_item_id: string
+  product_id: string
+  name: string
+  quantity: number
+  unit_price: number // Including VAT
+  vat_rate: number
+  vat_source: VatRateSource
+  net: number
+  vat: number
+  gross: number
+}
+
+// Net, VAT and gross amounts of an order, in the order's currency
+export interface OrderPricing {
+  orderId: string
+  currency: CurrencyCode
+  countryCode: string | null // null when the customer's country isn't recognised
+  lines: PricedOrderLine[]
+  vat: VatTotals // Over the order lines; shipping and other charges are not itemised
+  refundedAmount: number
+}
+
+// Pricing Errors
+export type PricingErrorType =
+  | 'invalid_vat_rate'
+  | 'vat_rate_not_found'
+
+export interface PricingError extends Error {
+  type: PricingErrorType
+  details?: Record<string, any>
+}
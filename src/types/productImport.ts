@@ -0,0 +1,94 @@
+// Product import/export types: spreadsheet files, column mapping, the dry-run diff and the apply report
+
+import type { AuditChanges } from './audit'
+import type { ProductInput } from './products'
+
+export type ProductImportFormat = 'csv' | 'xlsx'
+
+// Product fields a spreadsheet column can be mapped to
+export type ProductImportField =
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'price'
+  | 'stock'
+  | 'is_active'
+  | 'low_stock_threshold'
+  | 'image'
+  | 'images'
+
+// Target field per file column, by column index; null skips the column
+export type ProductImportMapping = (ProductImportField | null)[]
+
+// Uploaded file as sent to the import route
+export interface ProductImportFile {
+  format: ProductImportFormat
+  filename?: string
+  content: string // Text for CSV, base64 for XLSX
+}
+
+export interface ProductImportRequest extends ProductImportFile {
+  mapping?: ProductImportMapping // Suggested from the headers when left out
+  dryRun?: boolean // Only false applies the import
+}
+
+// Header row and data rows of the first sheet
+export interface SpreadsheetTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export type ProductImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export interface ProductImportRowResult {
+  rowNumber: number // Line in the file, the header being row 1
+  action: ProductImportAction
+  productId: string | null
+  productName: string
+  input: Partial<ProductInput> | null // Validated fields to write; null for errors
+  changes: AuditChanges // Compared with the current product
+  errors: string[]
+}
+
+export interface ProductImportSummary {
+  create: number
+  update: number
+  unchanged: number
+  error: number
+}
+
+export interface ProductImportPreview {
+  headers: string[]
+  mapping: ProductImportMapping
+  rows: ProductImportRowResult[]
+  summary: ProductImportSummary
+}
+
+// Undo of one applied row after a later row failed
+export interface ProductImportRollbackEntry {
+  rowNumber: number
+  productId: string
+  action: 'create' | 'update'
+  restored: boolean
+  error?: string
+}
+
+export interface ProductImportReport {
+  importId: string // Reference of the stock movements written by the import
+  status: 'applied' | 'rolled_back'
+  created: number
+  updated: number
+  failedRow: number | null
+  error: string | null
+  rollback: ProductImportRollbackEntry[]
+}
+
+// Product Import Errors
+export type ProductImportErrorType =
+  | 'invalid_import_file'
+  | 'import_has_errors'
+
+export interface ProductImportError extends Error {
+  type: ProductImportErrorType
+  details?: Record<string, any>
+}
@@ -0,0 +1,175 @@
+// Product management types
+// These types match the existing products schema
+
+import type { AuditRevision } from './audit'
+
+// Visibility in the shop; is_active follows it and is only true while a product is live
+export type ProductStatus = 'draft' | 'scheduled' | 'live'
+
+// Markup of a description. Versioned, so the shop keeps rendering a description the way it was written.
+export type ProductDescriptionFormat = 'plain' | 'markdown-v1'
+
+export interface Product {
+  id: string
+  name: string
+  description: string
+  description_format: ProductDescriptionFormat | null // null: saved before Markdown, read as plain
+  description_html: string | null // Sanitised HTML rendered from the description by the server
+  price: number
+  image: string
+  images: string[] // The gallery in display order, starting with the main image
+  image_meta: Record<string, ProductImageMeta> // Keyed by public ID
+  cloudinary_id: string
+  stock: number
+  low_stock_threshold: number | null // Falls back to DEFAULT_LOW_STOCK_THRESHOLD
+  is_active: boolean
+  status: ProductStatus
+  publish_at: string | null // When a scheduled product goes live; kept as the release date once it has
+  unpublish_at: string | null // When a scheduled or live product goes back to draft
+  category_id: string | null // References product_categories
+  tags: string[] // Normalised to lower case
+  created_at: string
+  updated_at: string
+  variants?: ProductVariant[] // When present, price is the lowest variant price and stock the sum of variant stock
+  collection_ids?: string[] // Collections the product is curated in, when loaded with the product
+}
+
+// Point of interest of an image as fractions of its width and height, from the top left
+export interface ImageFocalPoint {
+  x: number
+  y: number
+}
+
+// Alt text and focal point of one gallery image
+export interface ProductImageMeta {
+  alt: string
+  focal_point: ImageFocalPoint | null // null crops around the centre
+}
+
+// Gallery image as edited in the product form
+export interface ProductImageDraft {
+  publicId: string
+  alt: string
+  focalPoint: ImageFocalPoint | null
+}
+
+// Database record for the product_variants table (bottle sizes, vintages and cask editions)
+export interface ProductVariant {
+  id: string
+  product_id: string
+  sku: string
+  bottle_size_ml: number | null
+  vintage: number | null
+  cask: string | null
+  price: number
+  stock: number
+  image: string | null // Falls back to the product image
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+// Variant fields an admin may set; variants without an id are created
+export interface ProductVariantInput {
+  id?: string
+  sku: string
+  bottle_size_ml: number | null
+  vintage: number | null
+  cask: string | null
+  price: number
+  stock: number
+  image: string | null
+}
+
+// Fields an admin may set when creating or editing a product
+export interface ProductInput {
+  name: string
+  description: string
+  description_format?: ProductDescriptionFormat // Set with the description by validation, not by clients
+  description_html?: string
+  price: number
+  stock: number
+  is_active: boolean // Derived from status; still accepted on its own as live (true) or draft (false)
+  status?: ProductStatus
+  publish_at?: string | null
+  unpublish_at?: string | null
+  image: string
+  images: string[]
+  image_meta?: Record<string, ProductImageMeta> // Alt text is required for every gallery image
+  low_stock_threshold?: number | null
+  category_id?: string | null
+  tags?: string[]
+  variants?: ProductVariantInput[] // The full list; variants left out are removed
+  collection_ids?: string[] // The full list; new memberships go to the end of the collection
+}
+
+// Variant as edited in the product form, with numbers kept as typed
+export interface ProductVariantDraft {
+  key: string // Stable React key, also for unsaved variants
+  id?: string
+  sku: string
+  bottleSizeMl: string
+  vintage: string
+  cask: string
+  price: string
+  stock: string
+  image: string
+}
+
+// Status and schedule as edited in the product form, with datetime-local values in local time
+export interface ProductPublishingDraft {
+  status: ProductStatus
+  publishAt: string
+  unpublishAt: string
+}
+
+// Scheduled change of a product's visibility
+export type ProductReleaseAction = 'publish' | 'unpublish'
+
+export interface ProductReleaseEvent {
+  productId: string
+  name: string
+  action: ProductReleaseAction
+  at: string
+}
+
+// Result of one run of the publishing job
+export interface ProductPublishingRun {
+  ranAt: string
+  applied: ProductReleaseEvent[]
+}
+
+// Day in the release calendar; weeks start on Monday
+export interface ProductReleaseCalendarDay {
+  date: string // yyyy-MM-dd
+  inMonth: boolean
+  events: ProductReleaseEvent[]
+}
+
+// Content fields kept with every saved revision of a product
+export type ProductRevisionSnapshot = Pick<
+  Product,
+  'name' | 'description' | 'price' | 'image' | 'images' | 'image_meta' | 'category_id' | 'tags'
+>
+
+export type ProductRevision = AuditRevision<ProductRevisionSnapshot>
+
+export interface ProductVariantSummary {
+  count: number
+  stock: number
+  minPrice: number | null
+  maxPrice: number | null
+}
+
+// Product Errors
+export type ProductErrorType =
+  | 'validation_error'
+  | 'product_not_found'
+  | 'revision_not_found'
+  | 'concurrent_update' // Saved by someone else since the edit started
+  | 'database_error'
+
+export interface ProductError extends Error {
+  type: ProductErrorType
+  details?: Record<string, any>
+}
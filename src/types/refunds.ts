@@ -0,0 +1,112 @@
+// Refund types: refund records, refund requests and the payment provider interface
+
+import type { Order } from './orders'
+
+export type RefundType = 'full' | 'partial'
+
+// pending: amount reserved on the order, provider not done yet; failed: the provider refused, nothing moved;
+// needs_attention: the money moved but recording the rest failed
+export type RefundStatus = 'pending' | 'succeeded' | 'failed' | 'needs_attention'
+
+// Database record for the refunds table
+export interface RefundRecord {
+  id?: string
+  order_id: string
+  type: RefundType
+  amount: number
+  reason: string
+  restocked: boolean
+  status: RefundStatus
+  failure_reason?: string | null
+  provider: PaymentProviderType
+  provider_refund_id: string | null
+  created_by: string | null // References Supabase user IDs
+  created_by_email: string | null
+  created_at?: string
+  lines?: RefundLineRecord[]
+}
+
+// Database record for the refund_lines table (one row per refunded order item)
+export interface RefundLineRecord {
+  id?: string
+  refund_id?: string
+  order_item_id: string
+  product_id: string
+  quantity: number
+  amount: number
+}
+
+export interface RefundLineInput {
+  orderItemId: string
+  quantity: number
+}
+
+export interface CreateRefundInput {
+  lines?: RefundLineInput[] // Omit for a full refund of everything not yet refunded
+  reason: string
+  restock: boolean
+}
+
+// What has been refunded so far, per order and per order item
+export interface OrderRefundSummary {
+  orderTotal: number
+  refundedAmount: number
+  netAmount: number
+  refundedQuantities: Record<string, number> // By order item ID
+}
+
+// Response of GET /api/orders/[id]/refunds
+export interface OrderRefundsResponse {
+  refunds: RefundRecord[]
+  summary: OrderRefundSummary
+}
+
+export interface RefundResult {
+  refund: RefundRecord
+  order: Pick<Order, 'id' | 'status' | 'refunded_amount'>
+  summary: OrderRefundSummary
+}
+
+// Payment provider
+export type PaymentProviderType = 'mollie' | 'fake'
+
+export interface PaymentRefundRequest {
+  paymentReference: string
+  amount: number
+  currency: string
+  description: string
+  metadata?: Record<string, string>
+}
+
+export interface PaymentRefundResult {
+  providerRefundId: string
+  status: 'pending' | 'processing' | 'refunded'
+}
+
+// Refunds money through the payment provider the order was paid with
+export interface PaymentProvider {
+  name: PaymentProviderType
+  refund(request: PaymentRefundRequest): Promise<PaymentRefundResult>
+}
+
+export interface PaymentConfig {
+  provider: PaymentProviderType
+  currency: string
+  mollie: {
+    apiKey?: string
+    apiUrl: string
+  }
+}
+
+// Refund Errors
+export type RefundErrorType =
+  | 'invalid_refund'
+  | 'refund_not_allowed'
+  | 'refund_exceeds_total'
+  | 'provider_error'
+  | 'configuration_error'
+
+export interface RefundError extends Error {
+  type: RefundErrorType
+  details?: Record<string, any>
+}
@@ -7,6 +7,90 @@ import type {
   AuthEventLog,
   AuthEventType 
 } from './auth'
+import type {
+  AdjacentOrders,
+  Order,
+  OrderFilterPresetRecord,
+  OrderListFilters,
+  OrderListPage,
+  OrderStatus,
+  OrderStatusHistoryRecord,
+  OrderTransitionOptions,
+  OrderTransitionResult
+} from './orders'
+import type { Product, ProductInput, ProductPublishingRun, ProductReleaseEvent, ProductRevision, ProductVariant } from './products'
+import type { AuditActor, AuditEntityType, AuditEntriesOptions, AuditEntryInput, AuditLogRecord } from './audit'
+import type {
+  OrderEmailData,
+  OrderEmailLogRecord,
+  OrderEmailTemplate,
+  RenderedEmail,
+  SendOrderEmailsOptions,
+  SendOrderEmailsResult
+} from './email'
+import type {
+  DocumentExportResult,
+  InvoiceRecord,
+  OrderDocumentData,
+  OrderDocumentOptions,
+  OrderDocumentType,
+  RenderedDocument
+} from './documents'
+import type { CreateRefundInput, RefundRecord, RefundResult } from './refunds'
+import type { CreateShipmentInput, ShipmentRecord, ShipmentResult, UpdateShipmentInput } from './shipments'
+import type { CreateOrderNoteInput, MentionableUser, OrderNoteRecord } from './notes'
+import type {
+  CustomerAnonymiseResult,
+  CustomerDetail,
+  CustomerDuplicateGroup,
+  CustomerExport,
+  CustomerListPage,
+  CustomerListQuery,
+  CustomerMergeResult,
+  MergeCustomersInput
+} from './customers'
+import type {
+  LowStockAlert,
+  StockAdjustmentInput,
+  StockAdjustmentResult,
+  StockChangeOptions,
+  StockMovementInput,
+  StockMovementRecord,
+  StockReconciliation
+} from './inventory'
+import type {
+  ProductImportFile,
+  ProductImportPreview,
+  ProductImportReport,
+  ProductImportRequest,
+  SpreadsheetTable
+} from './productImport'
+import type {
+  CategoryDeleteResult,
+  CategoryInput,
+  CategoryRevenueReport,
+  CollectionInput,
+  ProductCategory,
+  ProductCollection
+} from './catalog'
+import type {
+  MediaAssetWithUsage,
+  MediaDeleteResult,
+  MediaLibraryPage,
+  MediaSearchQuery,
+  MediaUsage
+} from './media'
+import type { OrderPricing, PricingOrderItem, VatRateInput, VatRateRecord } from './pricing'
+import type {
+  ContentDraft,
+  ContentPageDefinition,
+  ContentPageSlug,
+  ContentPageSnapshot,
+  ContentPublishResult,
+  ContentRevision,
+  ContentRollbackResult,
+  ContentSection
+} from './content'
 
 // Re-export types that are used by services
 export type { 
@@ -171,4 +255,837 @@ export interface LoggerService {
     endDate?: Date
     limit?: number
   }): Promise<AuthEventLog[]>
-}
\ No newline at end of file
+}
+
+// Order Lifecycle Service Interface
+export interface OrderLifecycleService {
+  /**
+   * Checks whether an order may move from one status to another
+   * @param from - Current order status
+   * @param to - Requested order status
+   */
+  canTransition(from: OrderStatus, to: OrderStatus): boolean
+
+  /**
+   * Lists the statuses an order may move to from its current status
+   * @param from - Current order status
+   */
+  getAllowedTransitions(from: OrderStatus): OrderStatus[]
+
+  /**
+   * Lists the statuses a user may pick by hand, without the refund statuses
+   * @param from - Current order status
+   */
+  getManualTransitions(from: OrderStatus): OrderStatus[]
+
+  /**
+   * Validates and applies a status transition, recording it in the status history
+   * @param orderId - The order to update
+   * @param to - Requested order status
+   * @param options - Who made the change and an optional note
+   * @returns Promise resolving to the updated order fields and the history record
+   */
+  transition(orderId: string, to: OrderStatus, options?: OrderTransitionOptions): Promise<OrderTransitionResult>
+
+  /**
+   * Gets the status history of an order, oldest first
+   * @param orderId - The order to get the history for
+   */
+  getHistory(orderId: string): Promise<OrderStatusHistoryRecord[]>
+}
+
+// Audit Service Interface
+export interface AuditService {
+  /**
+   * Records an audit entry for a mutation
+   * @param entry - The entity, action, actor and field changes to record
+   */
+  record(entry: AuditEntryInput): Promise<void>
+
+  /**
+   * Gets the audit entries for an entity, newest first
+   * @param entityType - Type of the audited entity
+   * @param entityId - ID of the audited entity
+   * @param options - Whether to only return the revisions (entries with a snapshot)
+   */
+  getEntries(entityType: AuditEntityType, entityId: string, options?: AuditEntriesOptions): Promise<AuditLogRecord[]>
+}
+
+// Product Service Interface
+export interface ProductService {
+  /**
+   * Validates a create or update payload
+   * @param payload - Untrusted request body
+   * @param partial - Whether only a subset of fields is required (updates)
+   * @returns The validated product fields
+   */
+  validateInput(payload: unknown, partial?: boolean): Partial<ProductInput>
+
+  /**
+   * Gets a product by ID
+   * @param productId - The product to fetch
+   */
+  getProduct(productId: string): Promise<Product>
+
+  /**
+   * Gets the variants of a product in display order
+   * @param productId - The product whose variants to fetch
+   */
+  getVariants(productId: string): Promise<ProductVariant[]>
+
+  /**
+   * Creates a product and records an audit entry
+   * @param input - Validated product fields
+   * @param actor - Who creates the product
+   * @param stockChange - How the initial stock is recorded in the stock ledger; a manual adjustment by default
+   */
+  createProduct(input: ProductInput, actor: AuditActor, stockChange?: StockChangeOptions): Promise<Product>
+
+  /**
+   * Updates a product and records the changed fields in the audit trail
+   * @param productId - The product to update
+   * @param changes - Validated product fields to change
+   * @param actor - Who updates the product
+   * @param stockChange - How a stock change is recorded in the stock ledger; a manual adjustment by default
+   * @param expectedUpdatedAt - updated_at of the product the edit started from; left out to save regardless
+   * @throws ProductError 'concurrent_update' with the current product when it was saved since
+   */
+  updateProduct(
+    productId: string,
+    changes: Partial<ProductInput>,
+    actor: AuditActor,
+    stockChange?: StockChangeOptions,
+    expectedUpdatedAt?: string
+  ): Promise<Product>
+
+  /**
+   * Gets the saved revisions of a product, newest first. Every create, update and restore is a
+   * revision, kept as a snapshot in its audit entry.
+   * @param productId - The product whose revisions to fetch
+   */
+  getRevisions(productId: string): Promise<ProductRevision[]>
+
+  /**
+   * Puts the name, description, price, images and catalog fields of an earlier revision back
+   * @param productId - The product to restore
+   * @param revisionId - The audit entry of the revision to restore
+   * @param actor - Who restores the revision
+   * @throws ProductError 'revision_not_found' when the revision isn't one of the product's
+   */
+  restoreRevision(productId: string, revisionId: string, actor: AuditActor): Promise<Product>
+}
+
+// Product Publishing Service Interface
+export interface ProductPublishingService {
+  /**
+   * Gets the scheduled publish and unpublish changes that are due, oldest first
+   * @param now - The moment to compare the schedules with; defaults to the current time
+   */
+  getDueReleases(now?: Date): Promise<ProductReleaseEvent[]>
+
+  /**
+   * Applies the due changes: scheduled products go live, products past their unpublish date go back
+   * to draft. Products edited since they were loaded are left for the next run.
+   * @param actor - Who runs the job; the scheduler has no user
+   * @param now - The moment to compare the schedules with; defaults to the current time
+   */
+  applyDueReleases(actor: AuditActor, now?: Date): Promise<ProductPublishingRun>
+}
+
+// Order Email Service Interface
+export interface OrderEmailService {
+  /**
+   * Loads the order, its items and product names needed to render the templates
+   * @param orderId - The order to load
+   * @param options - Whether to load the parcels with tracking links (for order_shipped)
+   */
+  loadOrderEmailData(orderId: string, options?: { withShipments?: boolean }): Promise<OrderEmailData>
+
+  /**
+   * Renders a template without sending it
+   * @param template - The template to render
+   * @param data - Order data from loadOrderEmailData
+   */
+  render(template: OrderEmailTemplate, data: OrderEmailData): RenderedEmail
+
+  /**
+   * Sends the order emails and records every attempt in the send log
+   * @param orderId - The order to send emails for
+   * @param options - Which templates to send (default: confirmation and notification) and who triggered the send
+   * @throws EmailError 'send_failed' when one or more emails could not be sent
+   */
+  sendOrderEmails(orderId: string, options?: SendOrderEmailsOptions): Promise<SendOrderEmailsResult>
+
+  /**
+   * Gets the send log of an order, newest first
+   * @param orderId - The order whose send log to fetch
+   */
+  getSendLog(orderId: string): Promise<OrderEmailLogRecord[]>
+}
+
+// Order Document Service Interface
+export interface OrderDocumentService {
+  /**
+   * Loads the order and its lines (with VAT rate) for rendering
+   * @param orderId - The order to load
+   */
+  loadDocumentData(orderId: string): Promise<OrderDocumentData>
+
+  /**
+   * Gets the invoice of an order, issuing the next sequential invoice number on first use
+   * @param data - Order data from loadDocumentData
+   * @param options - Who issues the invoice
+   * @throws DocumentError 'invoice_not_allowed' for unpaid orders
+   */
+  getOrCreateInvoice(data: OrderDocumentData, options?: OrderDocumentOptions): Promise<InvoiceRecord>
+
+  /**
+   * Renders the invoice or packing slip of one order as a PDF
+   * @param orderId - The order to render
+   * @param type - 'invoice' or 'packing_slip'
+   * @param options - Who issues the invoice
+   */
+  renderDocument(orderId: string, type: OrderDocumentType, options?: OrderDocumentOptions): Promise<RenderedDocument>
+
+  /**
+   * Renders the documents of many orders into a single PDF
+   * @param orderIds - Orders to include, in order
+   * @param type - 'invoice' or 'packing_slip'
+   * @param options - Who issues the invoices
+   */
+  exportDocuments(orderIds: string[], type: OrderDocumentType, options?: OrderDocumentOptions): Promise<DocumentExportResult>
+}
+
+// Order Query Service Interface
+export interface OrderQueryService {
+  /**
+   * Gets one page of orders matching the filters
+   * @param filters - Search, status, date range, amount range and sorting
+   * @param page - 1-based page number
+   * @param pageSize - Orders per page
+   */
+  listOrders(filters: OrderListFilters, page?: number, pageSize?: number): Promise<OrderListPage>
+
+  /**
+   * Gets the IDs of all orders matching the filters, in list order
+   * @param filters - The active list filters
+   * @param limit - Maximum number of IDs to return
+   */
+  listOrderIds(filters: OrderListFilters, limit: number): Promise<string[]>
+
+  /**
+   * Finds the previous and next order using a keyset query that respects the filters and sort order
+   * @param orderId - The current order
+   * @param filters - The active list filters
+   */
+  getAdjacentOrders(orderId: string, filters: OrderListFilters): Promise<AdjacentOrders>
+
+  /**
+   * Gets the saved filter presets of a user
+   * @param userId - The preset owner
+   */
+  listPresets(userId: string): Promise<OrderFilterPresetRecord[]>
+
+  /**
+   * Saves a named filter preset, replacing an existing preset with the same name
+   * @param userId - The preset owner
+   * @param name - Display name of the preset
+   * @param filters - The filters to save
+   */
+  savePreset(userId: string, name: string, filters: OrderListFilters): Promise<OrderFilterPresetRecord>
+
+  /**
+   * Deletes a filter preset
+   * @param presetId - The preset to delete
+   */
+  deletePreset(presetId: string): Promise<void>
+}
+
+// Refund Service Interface
+export interface RefundService {
+  /**
+   * Gets the refunds of an order with their lines, newest first
+   * @param orderId - The order whose refunds to fetch
+   */
+  getRefunds(orderId: string): Promise<RefundRecord[]>
+
+  /**
+   * Refunds an order in full or per order item through the payment provider, optionally restocking the items
+   * @param orderId - The order to refund
+   * @param input - Lines to refund (omit for a full refund), reason and restock flag
+   * @param actor - Who performs the refund, for the status history and audit log
+   * @throws RefundError 'invalid_refund', 'refund_not_allowed', 'refund_exceeds_total' or 'provider_error'
+   */
+  createRefund(orderId: string, input: CreateRefundInput, actor: AuditActor): Promise<RefundResult>
+}
+
+// Shipment Service Interface
+export interface ShipmentService {
+  /**
+   * Gets the parcels of an order in the order they were shipped
+   * @param orderId - The order whose shipments to fetch
+   */
+  getShipments(orderId: string): Promise<ShipmentRecord[]>
+
+  /**
+   * Registers one or more parcels, marks the order as shipped and optionally emails the customer
+   * @param orderId - The order that was shipped
+   * @param input - Carrier, ship date, parcels (tracking number and weight) and whether to notify the customer
+   * @param actor - Who registers the shipment, for the status history and audit log
+   * @throws ShipmentError 'invalid_shipment' or 'shipment_not_allowed'
+   */
+  createShipment(orderId: string, input: CreateShipmentInput, actor: AuditActor): Promise<ShipmentResult>
+
+  /**
+   * Changes the carrier, tracking number or weight of a parcel
+   * @param orderId - The order the parcel belongs to
+   * @param shipmentId - The parcel to change
+   * @param input - Fields to change and whether to email the customer again
+   * @param actor - Who changes the parcel, for the audit log
+   * @throws ShipmentError 'invalid_shipment' or 'shipment_not_found'
+   */
+  updateShipment(orderId: string, shipmentId: string, input: UpdateShipmentInput, actor: AuditActor): Promise<ShipmentResult>
+
+  /**
+   * Removes a parcel that was registered by mistake
+   * @param orderId - The order the parcel belongs to
+   * @param shipmentId - The parcel to remove
+   * @param actor - Who removes the parcel, for the audit log
+   * @throws ShipmentError 'shipment_not_found'
+   */
+  deleteShipment(orderId: string, shipmentId: string, actor: AuditActor): Promise<ShipmentResult>
+
+  /**
+   * Looks up the tracking status with the carrier and stores it on the parcel
+   * @param orderId - The order the parcel belongs to
+   * @param shipmentId - The parcel to track
+   * @throws ShipmentError 'shipment_not_found', 'shipment_not_allowed' (no tracking number) or 'carrier_error'
+   */
+  refreshTracking(orderId: string, shipmentId: string): Promise<ShipmentRecord>
+}
+
+// Order Note Service Interface
+export interface OrderNoteService {
+  /**
+   * Gets all notes of an order, oldest first
+   * @param orderId - The order whose notes to fetch
+   */
+  getNotes(orderId: string): Promise<OrderNoteRecord[]>
+
+  /**
+   * Gets the dashboard users that can be @mentioned in notes
+   */
+  getMentionableUsers(): Promise<MentionableUser[]>
+
+  /**
+   * Adds a note or a reply; @handles of dashboard users are stored as mentions
+   * @param orderId - The order the note is about
+   * @param input - Note text and the note being replied to, if any
+   * @param actor - The author of the note
+   * @throws NoteError 'invalid_note' or 'note_not_found' (unknown parent note)
+   */
+  createNote(orderId: string, input: CreateOrderNoteInput, actor: AuditActor): Promise<OrderNoteRecord>
+
+  /**
+   * Deletes a note; only the author can, and only while it has no replies
+   * @param orderId - The order the note belongs to
+   * @param noteId - The note to delete
+   * @param actor - Who deletes the note
+   * @throws NoteError 'note_not_found' or 'note_not_allowed'
+   */
+  deleteNote(orderId: string, noteId: string, actor: AuditActor): Promise<void>
+}
+
+// Customer Service Interface
+export interface CustomerService {
+  /**
+   * Gets one page of customer profiles built from order history
+   * @param query - Search, sort and page
+   */
+  listCustomers(query: CustomerListQuery): Promise<CustomerListPage>
+
+  /**
+   * Gets a customer profile with all of their orders
+   * @param email - The customer's email, in any case
+   * @throws CustomerError 'customer_not_found' when no order has this email
+   */
+  getCustomer(email: string): Promise<CustomerDetail>
+
+  /**
+   * Gets groups of profiles that probably belong to the same person
+   */
+  getDuplicates(): Promise<CustomerDuplicateGroup[]>
+
+  /**
+   * Moves the orders of the source profiles to the target email
+   * @param input - Target email and the emails of the profiles to merge into it
+   * @param actor - Who merges the profiles, for the audit log
+   * @throws CustomerError 'invalid_customer', 'customer_not_found' or 'customer_not_allowed' (anonymised customers)
+   */
+  mergeCustomers(input: MergeCustomersInput, actor: AuditActor): Promise<CustomerMergeResult>
+
+  /**
+   * Collects the customer's orders, order items, emails and shipments for a GDPR access request
+   * @param email - The customer's email
+   * @param actor - Who exports the data, for the audit log
+   * @throws CustomerError 'customer_not_found'
+   */
+  exportCustomer(email: string, actor: AuditActor): Promise<CustomerExport>
+
+  /**
+   * Replaces the customer's name, email and address on all of their orders with a pseudonym
+   * @param email - The customer's email
+   * @param actor - Who anonymises the customer, for the audit log
+   * @throws CustomerError 'customer_not_found' or 'customer_not_allowed' (open orders, already anonymised)
+   */
+  anonymiseCustomer(email: string, actor: AuditActor): Promise<CustomerAnonymiseResult>
+}
+
+// Inventory Service Interface
+export interface InventoryService {
+  /**
+   * Validates a manual stock adjustment payload
+   * @param payload - Untrusted request body
+   * @throws InventoryError 'invalid_stock_adjustment'
+   */
+  validateAdjustment(payload: unknown): StockAdjustmentInput
+
+  /**
+   * Writes a movement to the stock ledger; failures are logged, not thrown
+   * @param input - The stock change that already happened
+   * @param actor - Who changed the stock, null for system changes
+   */
+  recordMovement(input: StockMovementInput, actor: AuditActor | null): Promise<StockMovementRecord>
+
+  /**
+   * Adds or removes stock of a product or variant with a compare-and-set update and records the movement
+   * @param productId - The product whose stock changes
+   * @param variantId - The variant whose stock changes, null for products without variants
+   * @param quantity - Signed change
+   * @param options - Movement type, reason and the order, refund or import it belongs to
+   * @param actor - Who changed the stock, null for system changes
+   * @returns The movement, or null when the stock could not be updated
+   */
+  changeStock(
+    productId: string,
+    variantId: string | null,
+    quantity: number,
+    options: StockChangeOptions,
+    actor: AuditActor | null
+  ): Promise<StockMovementRecord | null>
+
+  /**
+   * Sets a counted stock level and records it as a manual adjustment
+   * @param productId - The product to adjust
+   * @param input - Validated new stock, variant and reason
+   * @param actor - Who adjusts the stock
+   * @throws InventoryError 'invalid_stock_adjustment' or 'stock_conflict', ProductError 'product_not_found'
+   */
+  adjustStock(productId: string, input: StockAdjustmentInput, actor: AuditActor): Promise<StockAdjustmentResult>
+
+  /**
+   * Gets the stock ledger of a product, oldest first
+   * @param productId - The product whose movements to fetch
+   */
+  getMovements(productId: string): Promise<StockMovementRecord[]>
+
+  /**
+   * Compares the recorded stock of a product or its variants with the ledger total
+   * @param productId - The product to check
+   * @throws ProductError 'product_not_found'
+   */
+  getReconciliation(productId: string): Promise<StockReconciliation[]>
+
+  /**
+   * Records correcting movements so the ledger adds up to the recorded stock
+   * @param productId - The product to reconcile
+   * @param actor - Who reconciles the ledger
+   * @returns The correcting movements, empty when the ledger already matched
+   */
+  reconcile(productId: string, actor: AuditActor): Promise<StockMovementRecord[]>
+
+  /**
+   * Gets active products and variants at or below their low-stock threshold, lowest stock first
+   */
+  getLowStockAlerts(): Promise<LowStockAlert[]>
+}
+
+// Product Import Service Interface
+export interface ProductImportService {
+  /**
+   * Validates an import request: file format, size and column mapping
+   * @param payload - Untrusted request body
+   * @throws ProductImportError 'invalid_import_file'
+   */
+  validateRequest(payload: unknown): ProductImportRequest
+
+  /**
+   * Reads the header and data rows of an uploaded CSV or XLSX file
+   * @param file - Validated file
+   * @throws ProductImportError 'invalid_import_file'
+   */
+  readFile(file: ProductImportFile): SpreadsheetTable
+
+  /**
+   * Validates every row and compares it with the current products without writing anything (dry run)
+   * @param request - Validated file and column mapping
+   * @returns Per row whether it creates, updates or leaves a product unchanged, with the changed fields or errors
+   */
+  preview(request: ProductImportRequest): Promise<ProductImportPreview>
+
+  /**
+   * Applies all rows of the import, or none: when a row fails, the rows written before it are undone
+   * @param request - Validated file and column mapping
+   * @param actor - Who imports the products
+   * @returns What was applied, or which rows were rolled back after which failure
+   * @throws ProductImportError 'import_has_errors' when the dry run has rows with errors
+   */
+  apply(request: ProductImportRequest, actor: AuditActor): Promise<ProductImportReport>
+}
+
+// Catalog Service Interface
+export interface CatalogService {
+  /**
+   * Validates a create or update category payload
+   * @param payload - Untrusted request body
+   * @param partial - Allow a subset of fields (for updates)
+   * @throws CatalogError 'invalid_category'
+   */
+  validateCategoryInput(payload: unknown, partial?: boolean): Partial<CategoryInput>
+
+  /**
+   * Validates a create or update collection payload
+   * @param payload - Untrusted request body
+   * @param partial - Allow a subset of fields (for updates)
+   * @throws CatalogError 'invalid_collection'
+   */
+  validateCollectionInput(payload: unknown, partial?: boolean): Partial<CollectionInput>
+
+  /**
+   * Validates the curated product order of a collection
+   * @param payload - Untrusted request body with productIds
+   * @throws CatalogError 'invalid_collection'
+   */
+  validateProductOrder(payload: unknown): string[]
+
+  /**
+   * Gets all categories, alphabetically
+   */
+  getCategories(): Promise<ProductCategory[]>
+
+  /**
+   * Creates a category and records an audit entry
+   * @param input - Validated name and parent
+   * @param actor - Who creates the category
+   * @throws CatalogError 'invalid_category' for an unknown parent or a name its siblings already use
+   */
+  createCategory(input: CategoryInput, actor: AuditActor): Promise<ProductCategory>
+
+  /**
+   * Renames a category or moves it under another parent
+   * @param categoryId - The category to update
+   * @param changes - Validated fields to change
+   * @param actor - Who updates the category
+   * @throws CatalogError 'category_not_found', 'invalid_category', or 'category_not_allowed' for a move that would create a cycle or nest too deep
+   */
+  updateCategory(categoryId: string, changes: Partial<CategoryInput>, actor: AuditActor): Promise<ProductCategory>
+
+  /**
+   * Deletes a category; its products move to the parent category
+   * @param categoryId - The category to delete
+   * @param actor - Who deletes the category
+   * @throws CatalogError 'category_not_found', or 'category_not_allowed' while it has subcategories
+   */
+  deleteCategory(categoryId: string, actor: AuditActor): Promise<CategoryDeleteResult>
+
+  /**
+   * Gets all collections with their product IDs in curated order
+   */
+  getCollections(): Promise<ProductCollection[]>
+
+  /**
+   * Creates an empty collection and records an audit entry
+   * @param input - Validated name and description
+   * @param actor - Who creates the collection
+   * @throws CatalogError 'invalid_collection' for a name that's already used
+   */
+  createCollection(input: CollectionInput, actor: AuditActor): Promise<ProductCollection>
+
+  /**
+   * Renames a collection or changes its description
+   * @param collectionId - The collection to update
+   * @param changes - Validated fields to change
+   * @param actor - Who updates the collection
+   * @throws CatalogError 'collection_not_found' or 'invalid_collection'
+   */
+  updateCollection(collectionId: string, changes: Partial<CollectionInput>, actor: AuditActor): Promise<ProductCollection>
+
+  /**
+   * Deletes a collection, leaving its products as they are
+   * @param collectionId - The collection to delete
+   * @param actor - Who deletes the collection
+   * @throws CatalogError 'collection_not_found'
+   */
+  deleteCollection(collectionId: string, actor: AuditActor): Promise<void>
+
+  /**
+   * Replaces the products of a collection, in the given order
+   * @param collectionId - The collection to curate
+   * @param productIds - Validated product IDs in display order
+   * @param actor - Who curates the collection
+   * @throws CatalogError 'collection_not_found', or 'invalid_collection' for unknown products
+   */
+  setCollectionProducts(collectionId: string, productIds: string[], actor: AuditActor): Promise<ProductCollection>
+
+  /**
+   * Gets the IDs of the collections a product is in
+   * @param productId - The product to look up
+   */
+  getProductCollectionIds(productId: string): Promise<string[]>
+
+  /**
+   * Puts a product in exactly these collections; it joins new collections at the end
+   * @param productId - The product whose memberships change
+   * @param collectionIds - Existing collection IDs
+   * @returns The collection IDs the product is now in
+   */
+  setProductCollections(productId: string, collectionIds: string[]): Promise<string[]>
+
+  /**
+   * Gets the revenue of paid orders per category and currency, net of refunds, rolled up through the taxonomy
+   * @param since - Only orders placed from this ISO timestamp; null for all time
+   */
+  getCategoryRevenue(since: string | null): Promise<CategoryRevenueReport>
+}
+
+// Pricing Service Interface
+export interface PricingService {
+  /**
+   * Validates a VAT rate payload
+   * @param payload - Untrusted request body with country_code, category_id and rate
+   * @throws PricingError 'invalid_vat_rate'
+   */
+  validateVatRateInput(payload: unknown): VatRateInput
+
+  /**
+   * Gets all configured VAT rates, per country
+   */
+  getVatRates(): Promise<VatRateRecord[]>
+
+  /**
+   * Sets the VAT rate of a country or of a category in a country, and records an audit entry
+   * @param input - Validated country, category (null for the country's standard rate) and rate
+   * @param actor - Who sets the rate
+   * @throws PricingError 'invalid_vat_rate' for an unknown category
+   */
+  saveVatRate(input: VatRateInput, actor: AuditActor): Promise<VatRateRecord>
+
+  /**
+   * Deletes a VAT rate and records an audit entry
+   * @param vatRateId - The rate to delete
+   * @param actor - Who deletes the rate
+   * @throws PricingError 'vat_rate_not_found'
+   */
+  deleteVatRate(vatRateId: string, actor: AuditActor): Promise<void>
+
+  /**
+   * Splits the lines of a loaded order into net and VAT at the rates for the customer's country
+   * @param order - The order, for its country and currency
+   * @param items - Its items with their product's category
+   */
+  priceOrder(order: Order, items: PricingOrderItem[]): Promise<OrderPricing>
+
+  /**
+   * Gets the net/VAT/gross breakdown of an order in its currency
+   * @param orderId - The order to price
+   * @throws OrderError 'order_not_found'
+   */
+  getOrderPricing(orderId: string): Promise<OrderPricing>
+}
+
+// Content Service Interface
+export interface ContentService {
+  /**
+   * Looks up a section-based page in the registry
+   * @param slug - Page slug, e.g. 'aboutpage'
+   * @throws ContentError 'content_page_not_found'
+   */
+  getPage(slug: string): ContentPageDefinition
+
+  /**
+   * Validates a draft payload
+   * @param payload - Untrusted request body with content
+   * @throws ContentError 'invalid_content_section'
+   */
+  validateSectionInput(payload: unknown): { content: string }
+
+  /**
+   * Validates a rejection payload
+   * @param payload - Untrusted request body with an optional note
+   * @throws ContentError 'invalid_content_section'
+   */
+  validateReviewInput(payload: unknown): { note: string }
+
+  /**
+   * Validates the moment of a page snapshot
+   * @param payload - Untrusted request body or query with an ISO date in at
+   * @returns The date as an ISO string
+   * @throws ContentError 'invalid_content_section' for dates that don't parse or are in the future
+   */
+  validateSnapshotInput(payload: unknown): { at: string }
+
+  /**
+   * Gets the live sections of a page in the order the site shows them
+   * @param slug - Page slug
+   * @throws ContentError 'content_page_not_found'
+   */
+  getSections(slug: string): Promise<ContentSection[]>
+
+  /**
+   * Gets the unpublished drafts of a page's sections
+   * @param slug - Page slug
+   * @throws ContentError 'content_page_not_found'
+   */
+  getDrafts(slug: string): Promise<ContentDraft[]>
+
+  /**
+   * Counts the drafts in review per page
+   */
+  getPendingCounts(): Promise<Partial<Record<ContentPageSlug, number>>>
+
+  /**
+   * Saves the draft of a section; a draft in review goes back to draft
+   * @param slug - Page slug
+   * @param sectionId - The section the draft is for
+   * @param content - Draft content, checked against the section's style type
+   * @param actor - Who edits the draft
+   * @param expectedUpdatedAt - updated_at of the draft the edit started from, null when there was none; left out to save regardless
+   * @throws ContentError 'content_section_not_found' or 'invalid_content_section', or 'concurrent_update' with the
+   * current draft when it was saved, published or discarded since
+   */
+  saveDraft(slug: string, sectionId: string, content: string, actor: AuditActor, expectedUpdatedAt?: string | null): Promise<ContentDraft>
+
+  /**
+   * Throws away the draft of a section
+   * @throws ContentError 'content_draft_not_found'
+   */
+  discardDraft(slug: string, sectionId: string): Promise<void>
+
+  /**
+   * Submits the draft of a section for review and records an audit entry
+   * @throws ContentError 'content_draft_not_found', or 'content_not_allowed' when it is already in review
+   */
+  submitDraft(slug: string, sectionId: string, actor: AuditActor): Promise<ContentDraft>
+
+  /**
+   * Sends a draft in review back to draft with a note for its author, and records an audit entry
+   * @param note - Validated reason for the author; may be empty
+   * @throws ContentError 'content_draft_not_found', or 'content_not_allowed' when it isn't in review
+   */
+  rejectDraft(slug: string, sectionId: string, note: string, actor: AuditActor): Promise<ContentDraft>
+
+  /**
+   * Publishes a draft in review: the section gets its content and a new version, and an audit entry is recorded
+   * @throws ContentError 'content_draft_not_found', 'content_not_allowed' when it isn't in review, or
+   * 'concurrent_update' when the section got another version while publishing
+   */
+  publishDraft(slug: string, sectionId: string, actor: AuditActor): Promise<ContentSection>
+
+  /**
+   * Publishes every draft in review on a page
+   * @param slug - Page slug
+   * @param actor - The admin publishing the page
+   */
+  publishPage(slug: string, actor: AuditActor): Promise<ContentPublishResult>
+
+  /**
+   * Gets the published versions of a section with their authors, newest first
+   * @param slug - Page slug
+   * @param sectionId - The section
+   * @throws ContentError 'content_page_not_found'
+   */
+  getRevisions(slug: string, sectionId: string): Promise<ContentRevision[]>
+
+  /**
+   * Puts the content of an earlier version live again; this is recorded as a new version
+   * @param revisionId - The audit entry of the version
+   * @param actor - Who restores it, credited as its author
+   * @throws ContentError 'content_revision_not_found', or 'invalid_content_section' when the old content no longer validates
+   */
+  restoreRevision(slug: string, sectionId: string, revisionId: string, actor: AuditActor): Promise<ContentSection>
+
+  /**
+   * Shows every section of a page as it was at a moment, next to its live content
+   * @param slug - Page slug
+   * @param at - Validated ISO date
+   * @throws ContentError 'content_page_not_found'
+   */
+  getPageSnapshot(slug: string, at: string): Promise<ContentPageSnapshot>
+
+  /**
+   * Rolls a page back to its snapshot at a moment; every section that differs gets a new version
+   * @param at - Validated ISO date
+   * @param actor - The admin rolling the page back
+   * @throws ContentError 'invalid_content_section' when old content no longer validates
+   */
+  rollbackPage(slug: string, at: string, actor: AuditActor): Promise<ContentRollbackResult>
+}
+
+// Media Service Interface
+export interface MediaService {
+  /**
+   * Validates the search parameters of the media library
+   * @param params - Untrusted query parameters (query, tag, cursor, limit)
+   * @throws MediaError 'invalid_media_request'
+   */
+  validateSearchQuery(params: Record<string, string | null | undefined>): MediaSearchQuery
+
+  /**
+   * Validates a tags payload: { tags: [...] }
+   * @param payload - Untrusted request body
+   * @throws MediaError 'invalid_media_request'
+   */
+  validateTags(payload: unknown): string[]
+
+  /**
+   * Lists uploaded assets, newest first, with where each one is used
+   * @param query - Validated search parameters
+   */
+  searchAssets(query: MediaSearchQuery): Promise<MediaLibraryPage>
+
+  /**
+   * Gets one asset with where it is used
+   * @param publicId - Cloudinary public ID
+   * @throws MediaError 'asset_not_found'
+   */
+  getAsset(publicId: string): Promise<MediaAssetWithUsage>
+
+  /**
+   * Gets the products, variants and homepage sections that show an asset
+   * @param publicId - Cloudinary public ID
+   */
+  getUsage(publicId: string): Promise<MediaUsage[]>
+
+  /**
+   * Lists every tag used in the library
+   */
+  listTags(): Promise<string[]>
+
+  /**
+   * Replaces the tags of an asset and records an audit entry
+   * @param publicId - Cloudinary public ID
+   * @param tags - Validated tags
+   * @param actor - Who tags the asset
+   * @throws MediaError 'asset_not_found'
+   */
+  updateTags(publicId: string, tags: string[], actor: AuditActor): Promise<MediaAssetWithUsage>
+
+  /**
+   * Deletes an asset from Cloudinary and records an audit entry
+   * @param publicId - Cloudinary public ID
+   * @param force - Delete even though products or sections still show it
+   * @param actor - Who deletes the asset
+   * @throws MediaError 'asset_in_use' with the usages when not forced, or 'asset_not_found'
+   */
+  deleteAsset(publicId: string, force: boolean, actor: AuditActor): Promise<MediaDeleteResult>
+}
@@ -0,0 +1,105 @@
+// Shipment types: parcels sent for an order, tracking and the carrier adapter interface
+
+import type { Order } from './orders'
+
+export type CarrierCode = 'postnl' | 'dhl' | 'other'
+
+export type TrackingStatus =
+  | 'pre_transit' // Label created, not yet handed to the carrier
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception' // Failed delivery, returned, damaged...
+  | 'unknown'
+
+// Database record for the shipments table (one row per parcel)
+export interface ShipmentRecord {
+  id?: string
+  order_id: string
+  carrier: CarrierCode
+  tracking_number: string | null
+  shipped_at: string // yyyy-MM-dd
+  weight_kg: number | null
+  tracking_status: TrackingStatus | null
+  tracking_description: string | null
+  tracking_checked_at: string | null
+  created_by: string | null // References Supabase user IDs
+  created_at?: string
+  updated_at?: string
+}
+
+export interface ShipmentParcelInput {
+  trackingNumber?: string | null
+  weightKg?: number | null
+}
+
+export interface CreateShipmentInput {
+  carrier: CarrierCode
+  shippedAt?: string // yyyy-MM-dd, defaults to today
+  parcels: ShipmentParcelInput[]
+  notifyCustomer: boolean // Sends the order_shipped email
+}
+
+export interface UpdateShipmentInput {
+  carrier?: CarrierCode
+  trackingNumber?: string | null
+  weightKg?: number | null
+  notifyCustomer?: boolean // Sends the order_shipped email again, e.g. once tracking is added
+}
+
+export interface ShipmentResult {
+  shipments: ShipmentRecord[] // All shipments of the order after the change
+  order: Pick<Order, 'id' | 'status' | 'tracking_number' | 'carrier'>
+  emailSent: boolean | null // null when no email was requested
+}
+
+// Carrier adapters
+export interface TrackingLookup {
+  trackingNumber: string
+  postalCode?: string | null
+  country?: string | null
+}
+
+export interface TrackingInfo {
+  status: TrackingStatus
+  description: string | null
+  updatedAt: string | null // Time of the latest carrier event
+}
+
+/**
+ * Looks up tracking information with a carrier. Swap implementations to call
+ * the carrier's API or a local mock in tests and development.
+ */
+export interface CarrierAdapter {
+  readonly code: CarrierCode
+  track(lookup: TrackingLookup): Promise<TrackingInfo>
+}
+
+export type CarrierAdapters = Record<CarrierCode, CarrierAdapter>
+
+export type CarrierAdapterMode = 'live' | 'mock'
+
+export interface CarrierConfig {
+  mode: CarrierAdapterMode
+  postnl: {
+    apiKey?: string
+    apiUrl: string
+  }
+  dhl: {
+    apiKey?: string
+    apiUrl: string
+  }
+}
+
+// Shipment Errors
+export type ShipmentErrorType =
+  | 'invalid_shipment'
+  | 'shipment_not_allowed'
+  | 'shipment_not_found'
+  | 'carrier_error'
+  | 'configuration_error'
+
+export interface ShipmentError extends Error {
+  type: ShipmentErrorType
+  details?: Record<string, any>
+}
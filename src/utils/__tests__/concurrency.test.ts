@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { compareEdits, mergeEdits, readExpectedVersion } from '../concurrency'
+
+describe('edit conflicts', () => {
+  const conflict = {
+    title: 'Conflict',
+    fields: [{ key: 'name', label: 'Name' }, { key: 'price', label: 'Price' }, { key: 'tags', label: 'Tags' }],
+    base: { name: 'Bottle', price: 10, tags: ['water'] },
+    theirs: { name: 'Bottle', price: 12, tags: ['water', 'sale'] },
+    yours: { name: 'Blue bottle', price: 11, tags: ['water'] },
+  }
+
+  it('should compare both edits with the version they started from', () => {
+    expect(compareEdits(conflict).map(({ field, changedByThem, changedByYou, conflicting }) => [field.key, changedByThem, changedByYou, conflicting])).toEqual([
+      ['name', false, true, false],
+      ['price', true, true, true],
+      ['tags', true, false, false],
+    ])
+  })
+
+  it('should keep the changes of both sides and follow the choices where they overlap', () => {
+    const comparisons = compareEdits(conflict)
+
+    expect(mergeEdits(comparisons, conflict.yours)).toEqual({ name: 'Blue bottle', price: 11, tags: ['water', 'sale'] })
+    expect(mergeEdits(comparisons, conflict.yours, { price: 'theirs' })).toEqual({ name: 'Blue bottle', price: 12, tags: ['water', 'sale'] })
+  })
+
+  it('should take the expected version off a payload', () => {
+    expect(readExpectedVersion({ name: 'Bottle', expected_updated_at: '2024-05-01T10:00:00Z' }))
+      .toEqual({ payload: { name: 'Bottle' }, expectedUpdatedAt: '2024-05-01T10:00:00Z' })
+    expect(readExpectedVersion({ name: 'Bottle' }).expectedUpdatedAt).toBeUndefined()
+    expect(() => readExpectedVersion({ expected_updated_at: 5 })).toThrow('expected_updated_at')
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { markdownToText, renderDescription, renderMarkdown } from '../markdown'
+
+describe('description markdown', () => {
+  it('should render the markdown-v1 subset', () => {
+    expect(renderMarkdown([
+      '# Tasting notes',
+      '',
+      'Sherry cask, **cask strength**',
+      'and *very* rare.',
+      '',
+      '- Nose: peat',
+      '- Palate: `52.1%`',
+      '1. Pour',
+      '> Best whisky [ever](https://example.com/review?a=1&b=2)',
+    ].join('\n'))).toBe([
+      '<h2>Tasting notes</h2>',
+      '<p>Sherry cask, <strong>cask strength</strong><br>and <em>very</em> rare.</p>',
+      '<ul><li>Nose: peat</li><li>Palate: <code>52.1%</code></li></ul>',
+      '<ol><li>Pour</li></ol>',
+      '<blockquote><p>Best whisky <a href="https://example.com/review?a=1&amp;b=2" rel="nofollow noopener noreferrer">ever</a></p></blockquote>',
+    ].join('\n'))
+  })
+
+  it('should escape markup and drop unsafe links', () => {
+    expect(renderMarkdown('<script>alert(1)</script> <img src=x onerror=alert(1)>'))
+      .toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt; &lt;img src=x onerror=alert(1)&gt;</p>')
+    expect(renderMarkdown('[click](javascript:alert%281%29) [x](//evil.example) [y](https://a.example/"onmouseover="alert.1)'))
+      .toBe('<p>click x <a href="https://a.example/&quot;onmouseover=&quot;alert.1" rel="nofollow noopener noreferrer">y</a></p>')
+    expect(renderMarkdown('`<b>**not bold**</b>`')).toBe('<p><code>&lt;b&gt;**not bold**&lt;/b&gt;</code></p>')
+  })
+
+  it('should render older descriptions as plain text and strip markup for excerpts', () => {
+    expect(renderDescription('Line <1>\nLine 2\n\n**Not bold**', null)).toBe('<p>Line &lt;1&gt;<br>Line 2</p>\n<p>**Not bold**</p>')
+    expect(markdownToText('## Nose\n\n- **Peat** and [smoke](https://example.com)')).toBe('Nose Peat and smoke')
+  })
+})
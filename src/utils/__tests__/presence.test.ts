@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { presenceInitials, presenceMembers, sectionLocks } from '../presence'
+import { PRESENCE_IDLE_MS } from '../../constants/presence'
+import type { EditorPresence } from '../../types/presence'
+
+describe('editor presence', () => {
+  const now = new Date('2024-05-01T12:00:00Z').getTime()
+  const at = (minutesAgo: number) => new Date(now - minutesAgo * 60 * 1000).toISOString()
+  const tab = (userId: string, sectionId: string | null, editingSince: string | null, activeAt = at(0)): EditorPresence => ({
+    userId,
+    email: `${userId}@example.com`,
+    openedAt: at(30),
+    sectionId,
+    sectionLabel: sectionId,
+    editingSince,
+    activeAt,
+  })
+
+  it('should list the others once per user, with the tab that is editing', () => {
+    const members = presenceMembers({
+      me: [tab('me', null, null)],
+      piet: [tab('piet', null, null)],
+      anna: [tab('anna', null, null), tab('anna', 'intro', at(2))],
+    }, 'me', now)
+
+    expect(members.map(member => [member.userId, member.sectionId, member.isEditing])).toEqual([
+      ['anna', 'intro', true],
+      ['piet', null, false],
+    ])
+  })
+
+  it('should let a lock lapse once its editor is idle', () => {
+    const idleSince = new Date(now - PRESENCE_IDLE_MS).toISOString()
+    const members = presenceMembers({ anna: [tab('anna', 'intro', at(10), idleSince)] }, 'me', now)
+
+    expect(members[0].isEditing).toBe(false)
+    expect(sectionLocks(members, null).size).toBe(0)
+  })
+
+  it('should give a section to whoever started editing it last, so it can be taken over', () => {
+    const members = presenceMembers({
+      anna: [tab('anna', 'intro', at(5))],
+      piet: [tab('piet', 'intro', at(1))],
+      kees: [tab('kees', 'footer', at(3))],
+    }, 'me', now)
+
+    expect(sectionLocks(members, tab('me', null, null)).get('intro')?.userId).toBe('piet')
+    expect(sectionLocks(members, tab('me', 'intro', at(3))).get('intro')?.userId).toBe('piet')
+    expect(sectionLocks(members, tab('me', 'intro', at(0))).has('intro')).toBe(false)
+    expect(sectionLocks(members, tab('me', 'intro', at(0))).get('footer')?.userId).toBe('kees')
+  })
+
+  it('should make avatar initials from an email', () => {
+    expect(presenceInitials('piet.jansen@example.com')).toBe('PJ')
+    expect(presenceInitials('anna@example.com')).toBe('AN')
+    expect(presenceInitials(null)).toBe('?')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { addImages, clampFocalPoint, focalPointCrop, fromImageDrafts, moveImage, toImageDrafts } from '../productImages'
+
+describe('product image helpers', () => {
+  const drafts = [
+    { publicId: 'products/bottle', alt: 'Bottle', focalPoint: null },
+    { publicId: 'products/box', alt: '', focalPoint: { x: 0.9, y: 0.1 } },
+    { publicId: 'products/label', alt: 'Label', focalPoint: null },
+  ]
+
+  it('should load the gallery main image first and save the first draft as main image', () => {
+    expect(toImageDrafts({
+      image: 'products/box',
+      images: ['products/bottle', 'products/box'],
+      image_meta: { 'products/box': { alt: 'Gift box', focal_point: { x: 0.9, y: 0.1 } } },
+    })).toEqual([
+      { publicId: 'products/box', alt: 'Gift box', focalPoint: { x: 0.9, y: 0.1 } },
+      { publicId: 'products/bottle', alt: '', focalPoint: null },
+    ])
+
+    expect(fromImageDrafts(moveImage(drafts, 2, 0))).toEqual({
+      image: 'products/label',
+      images: ['products/label', 'products/bottle', 'products/box'],
+      image_meta: {
+        'products/label': { alt: 'Label', focal_point: null },
+        'products/bottle': { alt: 'Bottle', focal_point: null },
+        'products/box': { alt: '', focal_point: { x: 0.9, y: 0.1 } },
+      },
+    })
+  })
+
+  it('should skip images the gallery already has', () => {
+    expect(addImages(drafts, ['products/box', 'products/new', 'products/new']).map(draft => draft.publicId))
+      .toEqual(['products/bottle', 'products/box', 'products/label', 'products/new'])
+  })
+
+  it('should keep the focal point crop inside the image', () => {
+    expect(focalPointCrop(null)).toBeUndefined()
+    expect(focalPointCrop({ x: 0.9, y: 0.1 })).toEqual({
+      type: 'crop',
+      gravity: 'xy_center',
+      x: 0.7,
+      y: 0.3,
+      width: 0.6,
+      height: 0.6,
+    })
+    expect(clampFocalPoint({ x: 1.04, y: 0.333 })).toEqual({ x: 1, y: 0.33 })
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { buildReleaseCalendar, getDueRelease, getUpcomingReleases } from '../productPublishing'
+
+describe('product publishing helpers', () => {
+  const now = new Date('2024-03-10T12:00:00Z')
+  const scheduled = {
+    id: 'product-1',
+    name: 'Port Ellen 1981',
+    status: 'scheduled' as const,
+    publish_at: '2024-03-10T09:00:00Z',
+    unpublish_at: '2024-03-20T09:00:00Z',
+  }
+
+  it('should publish scheduled products that are due and unpublish when both dates passed', () => {
+    expect(getDueRelease(scheduled, now)).toEqual({ productId: 'product-1', name: 'Port Ellen 1981', action: 'publish', at: '2024-03-10T09:00:00Z' })
+    expect(getDueRelease({ ...scheduled, unpublish_at: '2024-03-10T11:00:00Z' }, now)?.action).toBe('unpublish')
+    expect(getDueRelease({ ...scheduled, status: 'live', unpublish_at: null }, now)).toBeNull()
+    expect(getDueRelease({ ...scheduled, publish_at: '2024-03-11T09:00:00Z' }, now)).toBeNull()
+  })
+
+  it('should list the upcoming releases earliest first', () => {
+    const products = [
+      { ...scheduled, id: 'product-2', name: 'Brora 1972', publish_at: '2024-03-15T09:00:00Z', unpublish_at: null },
+      { ...scheduled, status: 'live' as const },
+      { ...scheduled, id: 'product-3', status: 'draft' as const, publish_at: null },
+    ]
+
+    expect(getUpcomingReleases(products, now).map(event => `${event.productId}:${event.action}`))
+      .toEqual(['product-2:publish', 'product-1:unpublish'])
+  })
+
+  it('should lay out the calendar month in weeks from Monday', () => {
+    const weeks = buildReleaseCalendar(
+      [{ productId: 'product-1', name: 'Port Ellen 1981', action: 'publish', at: '2024-03-15T12:00:00Z' }],
+      new Date(2024, 2, 10)
+    )
+
+    expect(weeks).toHaveLength(5)
+    expect(weeks[0][0]).toMatchObject({ date: '2024-02-26', inMonth: false })
+    expect(weeks[4][6]).toMatchObject({ date: '2024-03-31', inMonth: true })
+    expect(weeks.flat().find(day => day.events.length > 0)?.date).toBe('2024-03-15')
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { diffSnapshots, diffWords } from '../revisions'
+import type { ProductRevisionSnapshot } from '../../types/products'
+
+describe('diffSnapshots', () => {
+  it('should compare two snapshots field by field', () => {
+    expect(diffSnapshots<ProductRevisionSnapshot>({ name: 'A', tags: ['x'], price: 1 }, { name: 'B', tags: ['x'] }, ['name', 'tags', 'price'])).toEqual([
+      { field: 'name', from: 'A', to: 'B', changed: true },
+      { field: 'tags', from: ['x'], to: ['x'], changed: false },
+      { field: 'price', from: 1, to: null, changed: true },
+    ])
+  })
+})
+
+describe('diffWords', () => {
+  it('should mark the words that were removed and added', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox jumps')).toEqual([
+      { type: 'same', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'same', text: ' brown fox' },
+      { type: 'added', text: ' jumps' },
+    ])
+  })
+
+  it('should join back into either text', () => {
+    const before = 'Distilled in small batches.\n\nAged for twelve years.'
+    const after = 'Distilled in batches.\n\nAged for at least twelve years in oak.'
+    const parts = diffWords(before, after)
+
+    expect(parts.filter(part => part.type !== 'added').map(part => part.text).join('')).toBe(before)
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after)
+  })
+})
@@ -0,0 +1,208 @@
+// Server-side helpers for API route handlers: caller authorization, body parsing and error responses
+
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { ApiCaller, ApiErrorBody, UserRole } from '../types/api'
+import type { AuditActor } from '../types/audit'
+import type { RenderedDocument } from '../types/documents'
+import { DATABASE } from '../constants/auth'
+import { API_ERROR_STATUS, JOB_ACTOR } from '../constants/api'
+import {
+  createApiError,
+  isApiError,
+  isCatalogError,
+  isContentError,
+  isCustomerError,
+  isDocumentError,
+  isEmailError,
+  isInventoryError,
+  isMediaError,
+  isNoteError,
+  isOrderError,
+  isPricingError,
+  isProductError,
+  isProductImportError,
+  isRefundError,
+  isShipmentError,
+  isValidRole
+} from './typeGuards'
+
+/**
+ * Resolves the caller's role: app metadata first, then the users table, then super admins from user_profiles.
+ * Never user metadata: users can change that on their own account with auth.updateUser.
+ */
+async function resolveRole(supabase: SupabaseClient, userId: string, appMetadataRole: unknown): Promise<UserRole | null> {
+  if (isValidRole(appMetadataRole)) {
+    return appMetadataRole
+  }
+
+  const { data: userRecord } = await supabase
+    .from(DATABASE.TABLES.USERS)
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (isValidRole(userRecord?.role)) {
+    return userRecord.role
+  }
+
+  const { data: profile } = await supabase
+    .from(DATABASE.TABLES.USER_PROFILES)
+    .select('is_super_admin')
+    .eq('id', userId)
+    .maybeSingle()
+
+  return profile?.is_super_admin === true ? 'admin' : null
+}
+
+/**
+ * Checks that the request comes from a logged-in user with one of the allowed roles
+ * @throws ApiError 'unauthorized' or 'forbidden'
+ */
+export async function authorizeRequest(
+  supabase: SupabaseClient,
+  allowedRoles: readonly UserRole[]
+): Promise<ApiCaller> {
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw createApiError('unauthorized', 'You must be logged in')
+  }
+
+  const role = await resolveRole(supabase, user.id, user.app_metadata?.role)
+
+  if (!role || !allowedRoles.includes(role)) {
+    throw createApiError('forbidden', 'You do not have permission to perform this action', {
+      role,
+      allowedRoles,
+    })
+  }
+
+  return { user, role }
+}
+
+/**
+ * Supabase client with the service role key, for jobs that run without a user session.
+ * Bypasses RLS: server-side only.
+ * @throws ApiError 'configuration_error' when the URL or service role key is missing
+ */
+export function createServiceRoleClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw createApiError('configuration_error', 'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set')
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+      detectSessionInUrl: false
+    }
+  })
+}
+
+/**
+ * Checks that a job request comes from the scheduler (`Authorization: Bearer <CRON_SECRET>`), which
+ * gets a service role client, or from a logged-in user with one of the allowed roles
+ * @returns The client to run the job with and the actor to record
+ * @throws ApiError 'unauthorized', 'forbidden' or 'configuration_error'
+ */
+export async function authorizeJobRequest(
+  request: Request,
+  supabase: SupabaseClient,
+  allowedRoles: readonly UserRole[]
+): Promise<{ supabase: SupabaseClient; actor: AuditActor }> {
+  const authorization = request.headers.get('authorization')
+
+  if (authorization?.startsWith('Bearer ')) {
+    const secret = process.env.CRON_SECRET
+    const token = Buffer.from(authorization.slice('Bearer '.length))
+
+    if (!secret || token.length !== Buffer.byteLength(secret) || !timingSafeEqual(token, Buffer.from(secret))) {
+      throw createApiError('unauthorized', 'Invalid job token')
+    }
+
+    return { supabase: createServiceRoleClient(), actor: JOB_ACTOR }
+  }
+
+  return { supabase, actor: toAuditActor(await authorizeRequest(supabase, allowedRoles)) }
+}
+
+/**
+ * Parses a JSON request body
+ * @throws ApiError 'invalid_payload' when the body is not valid JSON
+ */
+export async function parseJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    throw createApiError('invalid_payload', 'Request body must be valid JSON')
+  }
+}
+
+export function toAuditActor(caller: ApiCaller): AuditActor {
+  return {
+    id: caller.user.id,
+    email: caller.user.email ?? null,
+    role: caller.role,
+  }
+}
+
+/**
+ * Serves a rendered document as a file download
+ */
+export function fileResponse(document: RenderedDocument, headers: Record<string, string> = {}): NextResponse {
+  return new NextResponse(Buffer.from(document.bytes), {
+    status: 200,
+    headers: {
+      'Content-Type': document.contentType,
+      'Content-Disposition': `attachment; filename="${document.filename}"`,
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+  })
+}
+
+/**
+ * Maps API and domain errors (order, product, email, document, refund, shipment, note, customer, inventory, product import, catalog, media, pricing, content) to a JSON error response with the matching status code
+ */
+export function errorResponse(error: unknown, logPrefix: string): NextResponse<ApiErrorBody> {
+  if (
+    isApiError(error) ||
+    isOrderError(error) ||
+    isProductError(error) ||
+    isEmailError(error) ||
+    isDocumentError(error) ||
+    isRefundError(error) ||
+    isShipmentError(error) ||
+    isNoteError(error) ||
+    isCustomerError(error) ||
+    isInventoryError(error) ||
+    isProductImportError(error) ||
+    isCatalogError(error) ||
+    isMediaError(error) ||
+    isPricingError(error) ||
+    isContentError(error)
+  ) {
+    const status = API_ERROR_STATUS[error.type] ?? 500
+
+    if (status >= 500) {
+      console.error(`${logPrefix} ${error.type}:`, error)
+    }
+
+    return NextResponse.json(
+      {
+        error: status >= 500 ? 'Internal Server Error' : error.message,
+        type: error.type,
+        details: status >= 500 ? undefined : error.details,
+      },
+      { status }
+    )
+  }
+
+  console.error(`${logPrefix} Unexpected error:`, error)
+  return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+}
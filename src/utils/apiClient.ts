@@ -0,0 +1,74 @@
+// Client-side helpers for calling the dashboard API routes
+
+import type { ApiErrorBody, ApiResponseError } from '../types/api'
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+  body?: unknown
+}
+
+function sendRequest(url: string, { method = 'GET', body }: ApiRequestOptions): Promise<Response> {
+  return fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+}
+
+async function toResponseError(response: Response): Promise<ApiResponseError> {
+  const errorBody = ((await response.json().catch(() => null)) || {}) as ApiErrorBody
+  const error = new Error(errorBody.error || `Request failed with status ${response.status}`) as ApiResponseError
+  error.name = 'ApiResponseError'
+  error.status = response.status
+  error.type = errorBody.type
+  error.details = errorBody.details
+  return error
+}
+
+/**
+ * Calls an API route and returns the parsed JSON response
+ * @throws ApiResponseError with the server's message, error type and status code
+ */
+export async function apiRequest<T>(url: string, options: ApiRequestOptions = {}): Promise<T> {
+  const response = await sendRequest(url, options)
+
+  if (!response.ok) {
+    throw await toResponseError(response)
+  }
+
+  return (await response.json().catch(() => null)) as T
+}
+
+/**
+ * Calls an API route that returns a file and lets the browser save it
+ * @returns The response headers, e.g. to read export counts
+ * @throws ApiResponseError with the server's message, error type and status code
+ */
+export async function downloadFile(url: string, fallbackFilename: string, options: ApiRequestOptions = {}): Promise<Headers> {
+  const response = await sendRequest(url, options)
+
+  if (!response.ok) {
+    throw await toResponseError(response)
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackFilename
+
+  saveFile(await response.blob(), filename)
+
+  return response.headers
+}
+
+/**
+ * Lets the browser save a file that was built on the client
+ */
+export function saveFile(blob: Blob, filename: string): void {
+  const objectUrl = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(objectUrl)
+}
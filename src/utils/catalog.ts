@@ -0,0 +1,195 @@
+// Catalog helpers: slugs, tags, the category tree and revenue per category
+
+import type { Product } from '../types/products'
+import type { CategoryRevenueRow, CategoryTreeNode, ProductCategory } from '../types/catalog'
+import { CATEGORY_PATH_SEPARATOR, UNCATEGORISED_LABEL } from '../constants/catalog'
+import { sumByCurrency } from './currency'
+
+// Revenue or refund of a product; refunds have a negative amount and quantity
+export interface ProductSale {
+  productId: string
+  amount: number
+  currency: string
+  quantity: number
+}
+
+/**
+ * URL-friendly version of a name, e.g. "Islay & Skye" becomes "islay-skye"
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Slug of the name that isn't taken yet, numbered from -2 when it is
+ */
+export function uniqueSlug(name: string, taken: string[]): string {
+  const base = slugify(name) || 'untitled'
+  let slug = base
+
+  for (let suffix = 2; taken.includes(slug); suffix++) {
+    slug = `${base}-${suffix}`
+  }
+
+  return slug
+}
+
+/**
+ * Tags are compared and stored in lower case, with single spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Normalised tags without blanks and duplicates, in the order given
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)))
+}
+
+/**
+ * All tags in use, alphabetically
+ */
+export function collectTags(products: Pick<Product, 'tags'>[]): string[] {
+  return normalizeTags(products.flatMap(product => product.tags || [])).sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Nests the categories under their parents, alphabetically per level. Categories whose
+ * parent is missing are shown at the top level.
+ */
+export function buildCategoryTree(categories: ProductCategory[]): CategoryTreeNode[] {
+  const ids = new Set(categories.map(category => category.id))
+  const byParent = new Map<string | null, ProductCategory[]>()
+
+  categories.forEach(category => {
+    const parentId = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null
+    byParent.set(parentId, [...(byParent.get(parentId) || []), category])
+  })
+
+  const build = (parentId: string | null, depth: number, parentPath: string): CategoryTreeNode[] =>
+    (byParent.get(parentId) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(category => {
+        const path = parentPath ? `${parentPath}${CATEGORY_PATH_SEPARATOR}${category.name}` : category.name
+        return { ...category, depth, path, children: build(category.id, depth + 1, path) }
+      })
+
+  return build(null, 0, '')
+}
+
+/**
+ * The tree as a list in display order, each category followed by its subcategories
+ */
+export function flattenCategoryTree(nodes: CategoryTreeNode[]): CategoryTreeNode[] {
+  return nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)])
+}
+
+/**
+ * IDs of a category and all categories below it
+ */
+export function getCategoryWithDescendants(categories: ProductCategory[], categoryId: string): Set<string> {
+  const ids = new Set([categoryId])
+  let added = true
+
+  while (added) {
+    added = false
+    categories.forEach(category => {
+      if (category.parent_id && ids.has(category.parent_id) && !ids.has(category.id)) {
+        ids.add(category.id)
+        added = true
+      }
+    })
+  }
+
+  return ids
+}
+
+/**
+ * Number of levels between a category and the top level (0 for top-level categories)
+ */
+export function getCategoryDepth(categories: ProductCategory[], categoryId: string): number {
+  const byId = new Map(categories.map(category => [category.id, category]))
+  let depth = 0
+  let parentId = byId.get(categoryId)?.parent_id ?? null
+
+  while (parentId && byId.has(parentId) && depth <= categories.length) {
+    depth++
+    parentId = byId.get(parentId)!.parent_id
+  }
+
+  return depth
+}
+
+/**
+ * IDs of a category followed by its parents up to the top level, nearest first
+ */
+export function getCategoryWithAncestors(categories: Pick<ProductCategory, 'id' | 'parent_id'>[], categoryId: string): string[] {
+  const byId = new Map(categories.map(category => [category.id, category]))
+  const ids = [categoryId]
+  let parentId = byId.get(categoryId)?.parent_id ?? null
+
+  while (parentId && !ids.includes(parentId)) {
+    ids.push(parentId)
+    parentId = byId.get(parentId)?.parent_id ?? null
+  }
+
+  return ids
+}
+
+/**
+ * Adds up sales per category, in taxonomy order. Each category shows its own revenue and
+ * the total including its subcategories, per currency; sales of products without a (known) category are
+ * listed last as uncategorised.
+ */
+export function summarizeCategoryRevenue(
+  categories: ProductCategory[],
+  productCategories: Map<string, string | null>,
+  sales: ProductSale[]
+): CategoryRevenueRow[] {
+  const nodes = flattenCategoryTree(buildCategoryTree(categories))
+  const known = new Set(nodes.map(node => node.id))
+  const salesByCategory = new Map<string | null, ProductSale[]>()
+
+  sales.forEach(sale => {
+    const categoryId = productCategories.get(sale.productId) ?? null
+    const key = categoryId && known.has(categoryId) ? categoryId : null
+    salesByCategory.set(key, [...(salesByCategory.get(key) || []), sale])
+  })
+
+  const salesBelow = (node: CategoryTreeNode): ProductSale[] =>
+    [...(salesByCategory.get(node.id) || []), ...node.children.flatMap(salesBelow)]
+
+  const unitsOf = (categorySales: ProductSale[]) => categorySales.reduce((sum, sale) => sum + sale.quantity, 0)
+
+  const rows: CategoryRevenueRow[] = nodes.map(node => ({
+    categoryId: node.id,
+    name: node.name,
+    path: node.path,
+    depth: node.depth,
+    revenue: sumByCurrency(salesByCategory.get(node.id) || []),
+    totalRevenue: sumByCurrency(salesBelow(node)),
+    unitsSold: unitsOf(salesBelow(node)),
+  }))
+
+  const uncategorised = salesByCategory.get(null)
+  if (uncategorised) {
+    rows.push({
+      categoryId: null,
+      name: UNCATEGORISED_LABEL,
+      path: UNCATEGORISED_LABEL,
+      depth: 0,
+      revenue: sumByCurrency(uncategorised),
+      totalRevenue: sumByCurrency(uncategorised),
+      unitsSold: unitsOf(uncategorised),
+    })
+  }
+
+  return rows
+}
@@ -0,0 +1,70 @@
+// Optimistic concurrency: reading the version a save started from, and comparing and merging two edits of a record
+
+import type { ApiResponseError } from '../types/api'
+import type { ConcurrentUpdateDetails, ConflictChoice, ConflictFieldComparison, EditConflict } from '../types/concurrency'
+import { createApiError } from './typeGuards'
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+/**
+ * Splits the version a save started from off its payload: { ...changes, expected_updated_at }
+ * @returns The payload without it, and the expected updated_at: undefined when left out (no check), null for
+ * a record that didn't exist yet
+ * @throws ApiError 'invalid_payload' when it isn't a string or null
+ */
+export function readExpectedVersion(payload: unknown): { payload: unknown; expectedUpdatedAt: string | null | undefined } {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload) || !('expected_updated_at' in payload)) {
+    return { payload, expectedUpdatedAt: undefined }
+  }
+
+  const { expected_updated_at: expectedUpdatedAt, ...rest } = payload as Record<string, unknown>
+  if (expectedUpdatedAt !== null && (typeof expectedUpdatedAt !== 'string' || !expectedUpdatedAt)) {
+    throw createApiError('invalid_payload', 'expected_updated_at must be a timestamp or null', { field: 'expected_updated_at' })
+  }
+
+  return { payload: rest, expectedUpdatedAt: expectedUpdatedAt as string | null }
+}
+
+/**
+ * Whether an API call failed because someone else saved the record first
+ */
+export function isConcurrentUpdate(error: unknown): error is ApiResponseError & { details: ConcurrentUpdateDetails } {
+  return error instanceof Error && (error as ApiResponseError).type === 'concurrent_update'
+}
+
+/**
+ * Compares both edits of a conflict field by field against the record they started from
+ */
+export function compareEdits(conflict: EditConflict): ConflictFieldComparison[] {
+  return conflict.fields.map(field => {
+    const base = conflict.base[field.key] ?? null
+    const theirs = conflict.theirs[field.key] ?? null
+    const yours = field.key in conflict.yours ? conflict.yours[field.key] ?? null : base
+    const changedByThem = !sameValue(base, theirs)
+    const changedByYou = !sameValue(base, yours)
+
+    return { field, base, theirs, yours, changedByThem, changedByYou, conflicting: changedByThem && changedByYou && !sameValue(theirs, yours) }
+  })
+}
+
+/**
+ * Merges both edits: fields only you changed take your value, fields only they changed keep theirs, and
+ * fields you both changed follow the choice made for them (yours unless chosen otherwise)
+ * @returns Values for the fields of your edit
+ */
+export function mergeEdits(
+  comparisons: ConflictFieldComparison[],
+  yours: Record<string, any>,
+  choices: Record<string, ConflictChoice> = {}
+): Record<string, any> {
+  const merged: Record<string, any> = { ...yours }
+
+  comparisons.forEach(({ field, theirs, conflicting, changedByYou }) => {
+    if (!(field.key in yours)) return
+    if (conflicting ? choices[field.key] === 'theirs' : !changedByYou) {
+      merged[field.key] = theirs
+    }
+  })
+
+  return merged
+}
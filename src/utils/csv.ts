@@ -0,0 +1,86 @@
+// CSV helpers for spreadsheet exports
+
+// Cells starting with these characters are run as formulas by Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Escapes one CSV cell: quotes when needed and neutralizes spreadsheet formulas
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  let text = String(value)
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Builds a CSV document (RFC 4180, CRLF line endings) from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+}
+
+/**
+ * Parses a CSV document (RFC 4180) into rows of cells. Accepts CRLF or LF line endings,
+ * a UTF-8 BOM and a semicolon delimiter as written by Excel in Dutch locales.
+ * Blank lines are kept as rows, so row numbers match the spreadsheet.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const firstLine = input.slice(0, input.search(/\r?\n|$/))
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Reverses the formula escaping of escapeCsvValue, so exported files import unchanged
+ */
+export function unescapeCsvValue(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text
+}
@@ -0,0 +1,66 @@
+// Money formatting, shared by the dashboard, emails and documents
+
+import type { Order } from '../types/orders'
+import type { CurrencyCode } from '../types/pricing'
+import { CURRENCY_LOCALE, DEFAULT_CURRENCY } from '../constants/pricing'
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function getFormatter(currency: string): Intl.NumberFormat {
+  let formatter = formatters.get(currency)
+
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(CURRENCY_LOCALE, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+    formatters.set(currency, formatter)
+  }
+
+  return formatter
+}
+
+/**
+ * Formats an amount in a currency, e.g. "€1,234.50"; amounts without a currency are in euros
+ */
+export function formatMoney(amount: number | string | null | undefined, currency?: string | null): string {
+  return getFormatter(currency || DEFAULT_CURRENCY).format(Number(amount) || 0)
+}
+
+/**
+ * Symbol of a currency as formatMoney() shows it, e.g. "€" or "CHF"
+ */
+export function getCurrencySymbol(currency?: string | null): string {
+  return getFormatter(currency || DEFAULT_CURRENCY).formatToParts(0).find(part => part.type === 'currency')?.value || ''
+}
+
+/**
+ * The currency an order was placed in
+ */
+export function getOrderCurrency(order: Pick<Order, 'currency'>): CurrencyCode {
+  return order.currency || DEFAULT_CURRENCY
+}
+
+/**
+ * Adds up amounts per currency, as amounts in different currencies can't be summed
+ */
+export function sumByCurrency(entries: { amount: number; currency?: string | null }[]): Record<string, number> {
+  const totals: Record<string, number> = {}
+
+  entries.forEach(({ amount, currency }) => {
+    const code = currency || DEFAULT_CURRENCY
+    totals[code] = Math.round(((totals[code] || 0) + Number(amount)) * 100) / 100
+  })
+
+  return totals
+}
+
+/**
+ * Formats totals per currency, the default currency first, e.g. "€1,200.00 · £80.00"
+ */
+export function formatMoneyTotals(totals: Record<string, number>): string {
+  const currencies = Object.keys(totals).sort((a, b) =>
+    a === DEFAULT_CURRENCY ? -1 : b === DEFAULT_CURRENCY ? 1 : a.localeCompare(b)
+  )
+
+  return currencies.length > 0
+    ? currencies.map(currency => formatMoney(totals[currency], currency)).join(' · ')
+    : formatMoney(0)
+}
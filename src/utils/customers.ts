@@ -0,0 +1,258 @@
+// Customer directory helpers: building profiles from orders, duplicate detection and list query (de)serialization
+
+import type {
+  CustomerAddress,
+  CustomerDuplicateGroup,
+  CustomerListPage,
+  CustomerListQuery,
+  CustomerOrder,
+  CustomerProfile,
+  CustomerSortField
+} from '../types/customers'
+import type { SortDirection } from '../types/orders'
+import { PAID_ORDER_STATUSES } from '../constants/orders'
+import { DEFAULT_CURRENCY } from '../constants/pricing'
+import {
+  ANONYMISED_CUSTOMER,
+  CUSTOMER_LIST_PAGE_SIZE,
+  CUSTOMER_SORT_FIELDS,
+  DEFAULT_CUSTOMER_LIST_QUERY
+} from '../constants/customers'
+import { sumByCurrency } from './currency'
+
+const PARAM_KEYS = {
+  search: 'q',
+  sortField: 'sort',
+  sortDirection: 'dir',
+  page: 'page',
+} as const
+
+interface SearchParamsLike {
+  get(name: string): string | null
+}
+
+const normalizeText = (value: string | null | undefined) => (value || '').trim().replace(/\s+/g, ' ').toLowerCase()
+
+/**
+ * The email a customer is identified by: trimmed and lower-cased
+ */
+export function normalizeCustomerEmail(email: string | null | undefined): string {
+  return (email || '').trim().toLowerCase()
+}
+
+/**
+ * Reads a customer email from a URL segment; Next.js doesn't always decode dynamic segments
+ */
+export function decodeCustomerKey(value: string): string {
+  try {
+    return normalizeCustomerEmail(decodeURIComponent(value))
+  } catch {
+    return normalizeCustomerEmail(value)
+  }
+}
+
+/**
+ * Email with the parts mail providers ignore removed (+tags, dots in Gmail addresses), for spotting duplicates
+ */
+export function canonicalEmail(email: string): string {
+  const [local = '', domain = ''] = normalizeCustomerEmail(email).split('@')
+  const base = local.split('+')[0]
+
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    return `${base.replace(/\./g, '')}@gmail.com`
+  }
+
+  return `${base}@${domain}`
+}
+
+export function isAnonymisedEmail(email: string): boolean {
+  return normalizeCustomerEmail(email).endsWith(`@${ANONYMISED_CUSTOMER.EMAIL_DOMAIN}`)
+}
+
+function collectAddresses(orders: CustomerOrder[]): CustomerAddress[] {
+  const addresses = new Map<string, CustomerAddress>()
+
+  // Orders are newest first, so the first occurrence is the most recent use
+  orders.forEach(order => {
+    if (!order.customer_address && !order.customer_postal_code && !order.customer_city) return
+
+    const key = [order.customer_address, order.customer_postal_code.replace(/\s+/g, ''), order.customer_city, order.customer_country]
+      .map(normalizeText)
+      .join('|')
+
+    if (!addresses.has(key)) {
+      addresses.set(key, {
+        address: order.customer_address,
+        postalCode: order.customer_postal_code,
+        city: order.customer_city,
+        country: order.customer_country,
+        lastUsedAt: order.created_at,
+      })
+    }
+  })
+
+  return Array.from(addresses.values())
+}
+
+/**
+ * Groups orders by customer email into profiles with totals, order dates and addresses
+ */
+export function buildCustomerProfiles(orders: CustomerOrder[]): CustomerProfile[] {
+  const groups = new Map<string, CustomerOrder[]>()
+
+  ;[...orders]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .forEach(order => {
+      const email = normalizeCustomerEmail(order.customer_email)
+      if (!email) return
+      groups.set(email, [...(groups.get(email) || []), order])
+    })
+
+  return Array.from(groups.entries()).map(([email, customerOrders]) => {
+    const latest = customerOrders[0]
+    const paidOrders = customerOrders.filter(order => PAID_ORDER_STATUSES.includes(order.status))
+
+    return {
+      email,
+      emailVariants: Array.from(new Set(customerOrders.map(order => order.customer_email))),
+      firstName: latest.customer_first_name,
+      lastName: latest.customer_last_name,
+      orderCount: customerOrders.length,
+      paidOrderCount: paidOrders.length,
+      lifetimeDonated: sumByCurrency(paidOrders.map(order => ({
+        amount: Number(order.total_amount) - Number(order.refunded_amount || 0),
+        currency: order.currency,
+      }))),
+      firstOrderAt: customerOrders[customerOrders.length - 1].created_at,
+      lastOrderAt: latest.created_at,
+      addresses: collectAddresses(customerOrders),
+      orderIds: customerOrders.map(order => order.id),
+      anonymised: isAnonymisedEmail(email),
+    }
+  })
+}
+
+/**
+ * Finds profiles that probably belong to the same person: emails that only differ in
+ * +tags or Gmail dots, or the same name at the same postal code
+ */
+export function findDuplicateCustomers(profiles: CustomerProfile[]): CustomerDuplicateGroup[] {
+  const candidates = profiles.filter(profile => !profile.anonymised)
+  const groups: CustomerDuplicateGroup[] = []
+  const grouped = new Set<string>()
+
+  const collect = (keyOf: (profile: CustomerProfile) => string | null) => {
+    const byKey = new Map<string, CustomerProfile[]>()
+    candidates.forEach(profile => {
+      const key = keyOf(profile)
+      if (key) byKey.set(key, [...(byKey.get(key) || []), profile])
+    })
+    return Array.from(byKey.values()).filter(group => group.length > 1)
+  }
+
+  collect(profile => canonicalEmail(profile.email)).forEach(customers => {
+    customers.forEach(customer => grouped.add(customer.email))
+    groups.push({ reason: 'similar_email', customers })
+  })
+
+  collect(profile => {
+    const postalCode = profile.addresses[0]?.postalCode.replace(/\s+/g, '')
+    const name = normalizeText(`${profile.firstName} ${profile.lastName}`)
+    return postalCode && name ? `${name}|${postalCode.toLowerCase()}` : null
+  }).forEach(customers => {
+    // Already suggested because of their email
+    if (customers.every(customer => grouped.has(customer.email))) return
+    groups.push({ reason: 'same_name_and_postal_code', customers })
+  })
+
+  return groups
+}
+
+/**
+ * Stable key for a duplicate group, e.g. to track which group is being merged
+ */
+export function getDuplicateGroupKey(group: CustomerDuplicateGroup): string {
+  return `${group.reason}:${group.customers.map(customer => customer.email).join(',')}`
+}
+
+const SORT_VALUES: Record<CustomerSortField, (profile: CustomerProfile) => string | number> = {
+  last_order: profile => profile.lastOrderAt,
+  // Amounts in different currencies can't be compared, so this goes by the default currency
+  lifetime_donated: profile => profile.lifetimeDonated[DEFAULT_CURRENCY] || 0,
+  order_count: profile => profile.orderCount,
+  name: profile => normalizeText(`${profile.lastName} ${profile.firstName}`),
+}
+
+/**
+ * Searches, sorts and paginates customer profiles
+ */
+export function queryCustomers(
+  profiles: CustomerProfile[],
+  query: CustomerListQuery,
+  pageSize: number = CUSTOMER_LIST_PAGE_SIZE
+): CustomerListPage {
+  const search = normalizeText(query.search)
+  const valueOf = SORT_VALUES[query.sortField]
+  const direction = query.sortDirection === 'asc' ? 1 : -1
+
+  const matches = profiles
+    .filter(profile =>
+      !search ||
+      normalizeText(`${profile.firstName} ${profile.lastName}`).includes(search) ||
+      profile.emailVariants.some(email => normalizeText(email).includes(search)) ||
+      profile.addresses.some(address => normalizeText(address.city).includes(search))
+    )
+    .sort((a, b) => {
+      const [left, right] = [valueOf(a), valueOf(b)]
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right))
+      return order * direction || a.email.localeCompare(b.email)
+    })
+
+  const pageCount = Math.max(Math.ceil(matches.length / pageSize), 1)
+  const page = Math.min(Math.max(query.page, 1), pageCount)
+  const from = (page - 1) * pageSize
+
+  return {
+    customers: matches.slice(from, from + pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+    pageCount,
+  }
+}
+
+/**
+ * Reads the customer list query from URL search params, falling back to defaults
+ */
+export function parseCustomerListParams(params: SearchParamsLike): CustomerListQuery {
+  const sortField = params.get(PARAM_KEYS.sortField)
+  const sortDirection = params.get(PARAM_KEYS.sortDirection)
+  const page = Number(params.get(PARAM_KEYS.page))
+
+  return {
+    search: (params.get(PARAM_KEYS.search) || '').trim(),
+    sortField: CUSTOMER_SORT_FIELDS.includes(sortField as CustomerSortField)
+      ? (sortField as CustomerSortField)
+      : DEFAULT_CUSTOMER_LIST_QUERY.sortField,
+    sortDirection: sortDirection === 'asc' || sortDirection === 'desc'
+      ? (sortDirection as SortDirection)
+      : DEFAULT_CUSTOMER_LIST_QUERY.sortDirection,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+/**
+ * Serializes the customer list query to a query string, leaving out default values
+ */
+export function toCustomerListQuery(query: CustomerListQuery): string {
+  const params = new URLSearchParams()
+
+  if (query.search) params.set(PARAM_KEYS.search, query.search)
+  if (query.sortField !== DEFAULT_CUSTOMER_LIST_QUERY.sortField) params.set(PARAM_KEYS.sortField, query.sortField)
+  if (query.sortDirection !== DEFAULT_CUSTOMER_LIST_QUERY.sortDirection) params.set(PARAM_KEYS.sortDirection, query.sortDirection)
+  if (query.page > 1) params.set(PARAM_KEYS.page, String(query.page))
+
+  return params.toString()
+}
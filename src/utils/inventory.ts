@@ -0,0 +1,91 @@
+// Stock ledger helpers: ledger totals, the stock history series and low-stock detection
+
+import type { Product, ProductVariant } from '../types/products'
+import type { LowStockAlert, StockMovementRecord, StockSeriesPoint } from '../types/inventory'
+import { DEFAULT_LOW_STOCK_THRESHOLD } from '../constants/inventory'
+import { formatVariantLabel } from './productVariants'
+
+type LowStockProduct = Pick<Product, 'id' | 'name' | 'stock' | 'low_stock_threshold'> & {
+  variants?: Pick<ProductVariant, 'id' | 'sku' | 'bottle_size_ml' | 'vintage' | 'cask' | 'stock'>[]
+}
+
+// Ledger key of a product ('') or one of its variants
+const ledgerKey = (variantId: string | null | undefined) => variantId ?? ''
+
+export function getLowStockThreshold(product: Pick<Product, 'low_stock_threshold'>): number {
+  return product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD
+}
+
+/**
+ * Sum of the movements per variant; movements without a variant are under ''
+ */
+export function sumStockMovements(movements: Pick<StockMovementRecord, 'variant_id' | 'quantity'>[]): Map<string, number> {
+  const totals = new Map<string, number>()
+
+  movements.forEach(movement => {
+    const key = ledgerKey(movement.variant_id)
+    totals.set(key, (totals.get(key) || 0) + Number(movement.quantity))
+  })
+
+  return totals
+}
+
+/**
+ * Stock level after each movement, ending at the current stock. Walking back from the
+ * current stock keeps the line right when the ledger started after the product did.
+ * @param variantId - Only this variant's movements; all movements for the whole product
+ */
+export function buildStockSeries(
+  movements: StockMovementRecord[],
+  currentStock: number,
+  variantId?: string | null
+): StockSeriesPoint[] {
+  const relevant = movements
+    .filter(movement => !variantId || movement.variant_id === variantId)
+    .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+
+  let stock = currentStock - relevant.reduce((sum, movement) => sum + Number(movement.quantity), 0)
+
+  return relevant.map(movement => {
+    stock += Number(movement.quantity)
+    return { at: movement.created_at ?? '', stock }
+  })
+}
+
+/**
+ * Products, or for products with variants each variant, at or below the product's threshold.
+ * Lowest stock first.
+ */
+export function findLowStock(products: LowStockProduct[]): LowStockAlert[] {
+  const alerts: LowStockAlert[] = []
+
+  products.forEach(product => {
+    const threshold = getLowStockThreshold(product)
+
+    if (product.variants && product.variants.length > 0) {
+      product.variants
+        .filter(variant => Number(variant.stock) <= threshold)
+        .forEach(variant => {
+          alerts.push({
+            productId: product.id,
+            productName: product.name,
+            variantId: variant.id,
+            variantLabel: formatVariantLabel(variant),
+            stock: Number(variant.stock),
+            threshold,
+          })
+        })
+    } else if (Number(product.stock) <= threshold) {
+      alerts.push({
+        productId: product.id,
+        productName: product.name,
+        variantId: null,
+        variantLabel: null,
+        stock: Number(product.stock),
+        threshold,
+      })
+    }
+  })
+
+  return alerts.sort((a, b) => a.stock - b.stock || a.productName.localeCompare(b.productName))
+}
@@ -0,0 +1,157 @@
+// Markdown for product descriptions: the versioned subset the shop renders, to sanitised HTML
+//
+// markdown-v1 supports headings (#, ##, ###), paragraphs, line breaks, - and 1. lists, > quotes,
+// **bold**, *italic*, `code` and [links](https://...). Everything else is shown as typed. All text is
+// escaped before any tag is added and only the tags above are produced, so the output is safe to
+// insert as HTML; links only keep http(s), mailto and site-relative URLs.
+
+import type { ProductDescriptionFormat } from '../types/products'
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/
+const UNORDERED_ITEM_PATTERN = /^[-*]\s+(.*)$/
+const ORDERED_ITEM_PATTERN = /^\d{1,3}[.)]\s+(.*)$/
+const QUOTE_PATTERN = /^>\s?(.*)$/
+const LINK_PATTERN = /\[([^\]]+)\]\(([^()\s]+)\)/g
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:|\/(?!\/)|#)/i
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph' | 'quote'; lines: string[] }
+  | { type: 'ul' | 'ol'; items: string[] }
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Works on escaped text, so the markers can't wrap markup of their own
+function renderEmphasis(escaped: string): string {
+  return escaped
+    .replace(/\*\*(?=\S)([^*]+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(?=\S)([^*]+?)\*/g, '<em>$1</em>')
+}
+
+function renderLinks(text: string): string {
+  let html = ''
+  let last = 0
+
+  Array.from(text.matchAll(LINK_PATTERN)).forEach(match => {
+    const [source, label, url] = match
+    html += renderEmphasis(escapeHtml(text.slice(last, match.index)))
+    html += SAFE_URL_PATTERN.test(url)
+      ? `<a href="${escapeHtml(url)}" rel="nofollow noopener noreferrer">${renderEmphasis(escapeHtml(label))}</a>`
+      : renderEmphasis(escapeHtml(label))
+    last = match.index! + source.length
+  })
+
+  return html + renderEmphasis(escapeHtml(text.slice(last)))
+}
+
+function renderInline(text: string): string {
+  return text
+    .split(/(`[^`]+`)/)
+    .map(part => (/^`[^`]+`$/.test(part) ? `<code>${escapeHtml(part.slice(1, -1))}</code>` : renderLinks(part)))
+    .join('')
+}
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = []
+  const last = () => blocks[blocks.length - 1]
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trimEnd()
+    let match: RegExpMatchArray | null
+
+    if (!line.trim()) {
+      blocks.push({ type: 'paragraph', lines: [] }) // Ends the current block; empty ones are dropped
+    } else if ((match = line.match(HEADING_PATTERN))) {
+      blocks.push({ type: 'heading', level: match[1].length, text: match[2] })
+    } else if ((match = line.match(UNORDERED_ITEM_PATTERN)) || (match = line.match(ORDERED_ITEM_PATTERN))) {
+      const type = UNORDERED_ITEM_PATTERN.test(line) ? 'ul' : 'ol'
+      const current = last()
+      if (current?.type === type) {
+        current.items.push(match[1])
+      } else {
+        blocks.push({ type, items: [match[1]] })
+      }
+    } else if ((match = line.match(QUOTE_PATTERN))) {
+      const current = last()
+      if (current?.type === 'quote') {
+        current.lines.push(match[1])
+      } else {
+        blocks.push({ type: 'quote', lines: [match[1]] })
+      }
+    } else {
+      const current = last()
+      if (current?.type === 'paragraph' && current.lines.length > 0) {
+        current.lines.push(line.trim())
+      } else {
+        blocks.push({ type: 'paragraph', lines: [line.trim()] })
+      }
+    }
+  })
+
+  return blocks.filter(block => block.type !== 'paragraph' || block.lines.length > 0)
+}
+
+/**
+ * Renders markdown-v1 to sanitised HTML. Headings start at h2, as the product name is the page's h1.
+ */
+export function renderMarkdown(source: string): string {
+  return parseBlocks(source)
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level + 1}>${renderInline(block.text)}</h${block.level + 1}>`
+        case 'ul':
+        case 'ol':
+          return `<${block.type}>${block.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${block.type}>`
+        case 'quote':
+          return `<blockquote><p>${block.lines.map(renderInline).join('<br>')}</p></blockquote>`
+        default:
+          return `<p>${block.lines.map(renderInline).join('<br>')}</p>`
+      }
+    })
+    .join('\n')
+}
+
+/**
+ * Renders a stored description in the format it was saved in; descriptions from before Markdown are plain text
+ */
+export function renderDescription(source: string, format: ProductDescriptionFormat | null | undefined): string {
+  if (format === 'markdown-v1') {
+    return renderMarkdown(source)
+  }
+
+  return source
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+/**
+ * The text of a Markdown description without its markup, for excerpts and search
+ */
+export function markdownToText(source: string): string {
+  return source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line
+      .replace(HEADING_PATTERN, '$2')
+      .replace(UNORDERED_ITEM_PATTERN, '$1')
+      .replace(ORDERED_ITEM_PATTERN, '$1')
+      .replace(QUOTE_PATTERN, '$1')
+      .replace(LINK_PATTERN, '$1')
+      .replace(/\*\*(?=\S)([^*]+?)\*\*/g, '$1')
+      .replace(/\*(?=\S)([^*]+?)\*/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .trim())
+    .filter(Boolean)
+    .join(' ')
+}
@@ -0,0 +1,102 @@
+// Media library helpers: resolving image references to Cloudinary public IDs and tracking where assets are used
+
+import type { MediaUsage } from '../types/media'
+import type { Product, ProductVariant } from '../types/products'
+
+// Product columns needed to find the images it uses
+export type MediaProductSource = Pick<Product, 'id' | 'name' | 'image' | 'images'> & {
+  variants?: Pick<ProductVariant, 'id' | 'sku' | 'image'>[] | null
+}
+
+export interface MediaHeroItemSource {
+  id: string
+  word: string
+  image_src: string | null
+}
+
+// Leading path segments of a delivery URL that are transformations (c_fill,w_400) rather than folders
+const TRANSFORMATION_SEGMENT = /^[a-z]{1,3}_[^/,]+(,[a-z]{1,3}_[^/,]+)*$/
+const VERSION_SEGMENT = /^v\d+$/
+
+/**
+ * Resolves an image reference to its Cloudinary public ID. Products store public IDs, content
+ * sections often store full delivery URLs; URLs outside Cloudinary resolve to null.
+ */
+export function toPublicId(reference: string | null | undefined): string | null {
+  const value = (reference || '').trim()
+  if (!value) return null
+
+  if (!/^https?:\/\//i.test(value)) {
+    return value
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return null
+  }
+
+  const match = url.hostname.endsWith('cloudinary.com') ? url.pathname.match(/\/(?:image|video|raw)\/upload\/(.+)$/) : null
+  if (!match) return null
+
+  const segments = match[1].split('/').map(decodeURIComponent)
+  const versionIndex = segments.findIndex(segment => VERSION_SEGMENT.test(segment))
+  let start = versionIndex >= 0 ? versionIndex + 1 : 0
+
+  if (versionIndex < 0) {
+    while (start < segments.length - 1 && TRANSFORMATION_SEGMENT.test(segments[start])) start++
+  }
+
+  const publicId = segments.slice(start).join('/').replace(/\.[a-z0-9]+$/i, '')
+  return publicId || null
+}
+
+/**
+ * Indexes every product, variant and homepage hero image by public ID
+ */
+export function buildUsageIndex(products: MediaProductSource[], heroItems: MediaHeroItemSource[]): Map<string, MediaUsage[]> {
+  const index = new Map<string, MediaUsage[]>()
+
+  const add = (reference: string | null | undefined, usage: MediaUsage) => {
+    const publicId = toPublicId(reference)
+    if (!publicId) return
+
+    const usages = index.get(publicId) || []
+    // A product showing the same image as main and gallery image is one usage
+    if (!usages.some(existing => existing.kind === usage.kind && existing.id === usage.id)) {
+      usages.push(usage)
+    }
+    index.set(publicId, usages)
+  }
+
+  products.forEach(product => {
+    const usage: MediaUsage = { kind: 'product', id: product.id, label: product.name, href: `/dashboard/products/${product.id}` }
+    add(product.image, usage)
+    ;(product.images || []).forEach(image => add(image, usage))
+    ;(product.variants || []).forEach(variant => add(variant.image, {
+      kind: 'product_variant',
+      id: variant.id,
+      label: `${product.name} (${variant.sku})`,
+      href: `/dashboard/products/${product.id}`,
+    }))
+  })
+
+  heroItems.forEach(item => add(item.image_src, {
+    kind: 'hero_item',
+    id: item.id,
+    label: item.word,
+    href: '/dashboard/content/homepage',
+  }))
+
+  return index
+}
+
+/**
+ * File size for display, e.g. 1.4 MB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
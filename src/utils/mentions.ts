@@ -0,0 +1,61 @@
+// @mention helpers for internal notes, shared by the note service and the note composer
+
+import type { MentionableUser } from '../types/notes'
+import { MENTION_PATTERN } from '../constants/notes'
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; user: MentionableUser }
+
+/**
+ * Handle a dashboard user is mentioned by: the lower-cased local part of their email
+ */
+export function getMentionHandle(email: string): string {
+  return email.split('@')[0].toLowerCase()
+}
+
+/**
+ * Unique lower-cased handles mentioned in a note
+ */
+export function extractMentionHandles(content: string): string[] {
+  const handles = Array.from(content.matchAll(MENTION_PATTERN), match => match[2].toLowerCase())
+  return Array.from(new Set(handles))
+}
+
+/**
+ * Splits a note into text and mention segments for rendering; unknown handles stay text
+ */
+export function splitMentions(content: string, users: MentionableUser[]): MentionSegment[] {
+  const byHandle = new Map(users.map(user => [user.handle, user] as const))
+  const segments: MentionSegment[] = []
+  let lastIndex = 0
+
+  Array.from(content.matchAll(MENTION_PATTERN)).forEach(match => {
+    const user = byHandle.get(match[2].toLowerCase())
+    if (!user) return
+
+    // match[1] is the character before the @
+    const start = (match.index ?? 0) + match[1].length
+    if (start > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, start) })
+    }
+    segments.push({ type: 'mention', text: `@${match[2]}`, user })
+    lastIndex = start + match[2].length + 1
+  })
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) })
+  }
+
+  return segments
+}
+
+/**
+ * The @handle being typed at the cursor, for autocompletion; null when not typing a mention
+ */
+export function getMentionQuery(content: string, cursor: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([a-z0-9._-]*)$/i.exec(content.slice(0, cursor))
+  if (!match) return null
+
+  return { query: match[2].toLowerCase(), start: cursor - match[2].length - 1 }
+}
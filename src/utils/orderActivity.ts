@@ -0,0 +1,80 @@
+// Merges order notes, status history, email sends and audited edits into one activity feed
+
+import type { OrderActivityItem, OrderActivitySources, OrderNoteRecord, OrderNoteThread } from '../types/notes'
+import { ORDER_ACTIVITY_AUDIT_LABELS } from '../constants/notes'
+
+const byCreatedAt = (a: { created_at?: string }, b: { created_at?: string }) =>
+  (a.created_at ?? '').localeCompare(b.created_at ?? '')
+
+/**
+ * Groups replies under their root note; replies whose root is gone are shown as roots
+ */
+export function threadOrderNotes(notes: OrderNoteRecord[]): OrderNoteThread[] {
+  const roots = new Map<string, OrderNoteThread>()
+  const orphans: OrderNoteThread[] = []
+
+  notes.filter(note => !note.parent_id).forEach(note => {
+    roots.set(note.id ?? '', { ...note, replies: [] })
+  })
+
+  notes.filter(note => note.parent_id).sort(byCreatedAt).forEach(reply => {
+    const root = roots.get(reply.parent_id as string)
+    if (root) {
+      root.replies.push(reply)
+    } else {
+      orphans.push({ ...reply, replies: [] })
+    }
+  })
+
+  return [...Array.from(roots.values()), ...orphans]
+}
+
+/**
+ * Builds the activity feed, newest first. A thread is placed by its latest reply so new
+ * replies to old notes surface at the top.
+ */
+export function buildOrderActivityFeed({ notes, history, emails, audit }: OrderActivitySources): OrderActivityItem[] {
+  const items: OrderActivityItem[] = [
+    ...threadOrderNotes(notes).map(note => ({
+      kind: 'note' as const,
+      id: `note-${note.id}`,
+      at: [note, ...note.replies].map(n => n.created_at ?? '').sort().pop() ?? '',
+      note,
+    })),
+    ...history.map((entry, index) => ({
+      kind: 'status' as const,
+      id: `status-${entry.id ?? index}`,
+      at: entry.created_at ?? '',
+      history: entry,
+    })),
+    ...emails.map((entry, index) => ({
+      kind: 'email' as const,
+      id: `email-${entry.id ?? index}`,
+      at: entry.created_at ?? '',
+      email: entry,
+    })),
+    ...audit
+      .filter(entry => entry.action in ORDER_ACTIVITY_AUDIT_LABELS)
+      .map((entry, index) => ({
+        kind: 'edit' as const,
+        id: `edit-${entry.id ?? index}`,
+        at: entry.created_at ?? '',
+        entry,
+      })),
+  ]
+
+  // Entries without a timestamp were just created locally
+  return items.sort((a, b) => (b.at || '9999').localeCompare(a.at || '9999'))
+}
+
+/**
+ * Adds or replaces a record by id; used to merge realtime inserts with records the page
+ * already added from an API response
+ */
+export function upsertById<T extends { id?: string }>(records: T[], record: T, position: 'start' | 'end' = 'end'): T[] {
+  if (record.id && records.some(existing => existing.id === record.id)) {
+    return records.map(existing => (existing.id === record.id ? record : existing))
+  }
+
+  return position === 'start' ? [record, ...records] : [...records, record]
+}
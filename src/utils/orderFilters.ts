@@ -0,0 +1,154 @@
+// Order list filter helpers: URL (de)serialization and Supabase query filters
+
+import type { PostgrestFilterBuilder } from '@supabase/postgrest-js'
+import { addDays, format, isValid, parseISO } from 'date-fns'
+import type { OrderListFilters, OrderSortField, SortDirection } from '../types/orders'
+import { DEFAULT_ORDER_LIST_FILTERS, ORDER_SEARCH_COLUMNS, ORDER_SORT_FIELDS } from '../constants/orders'
+import { isOrderStatus } from './typeGuards'
+
+// Short query string keys, so list URLs stay readable
+const PARAM_KEYS = {
+  search: 'q',
+  status: 'status',
+  dateFrom: 'from',
+  dateTo: 'to',
+  minAmount: 'min',
+  maxAmount: 'max',
+  missingTracking: 'untracked',
+  sortField: 'sort',
+  sortDirection: 'dir',
+  page: 'page',
+} as const
+
+interface SearchParamsLike {
+  get(name: string): string | null
+}
+
+function parseDate(value: string | null): string | null {
+  if (!value) return null
+  const date = parseISO(value)
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null
+}
+
+function parseAmount(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null
+  const amount = Number(value)
+  return Number.isFinite(amount) && amount >= 0 ? amount : null
+}
+
+/**
+ * Reads the order list filters and page from URL search params, falling back to defaults
+ */
+export function parseOrderListParams(params: SearchParamsLike): { filters: OrderListFilters; page: number } {
+  const status = params.get(PARAM_KEYS.status)
+  const sortField = params.get(PARAM_KEYS.sortField)
+  const sortDirection = params.get(PARAM_KEYS.sortDirection)
+  const page = Number(params.get(PARAM_KEYS.page))
+
+  return {
+    filters: {
+      search: (params.get(PARAM_KEYS.search) || '').trim(),
+      status: isOrderStatus(status) ? status : 'all',
+      dateFrom: parseDate(params.get(PARAM_KEYS.dateFrom)),
+      dateTo: parseDate(params.get(PARAM_KEYS.dateTo)),
+      minAmount: parseAmount(params.get(PARAM_KEYS.minAmount)),
+      maxAmount: parseAmount(params.get(PARAM_KEYS.maxAmount)),
+      missingTracking: params.get(PARAM_KEYS.missingTracking) === '1',
+      sortField: ORDER_SORT_FIELDS.includes(sortField as OrderSortField)
+        ? (sortField as OrderSortField)
+        : DEFAULT_ORDER_LIST_FILTERS.sortField,
+      sortDirection: sortDirection === 'asc' || sortDirection === 'desc'
+        ? (sortDirection as SortDirection)
+        : DEFAULT_ORDER_LIST_FILTERS.sortDirection,
+    },
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+/**
+ * Serializes filters (and optionally a page) to a query string, leaving out default values
+ */
+export function toOrderListQuery(filters: OrderListFilters, page: number = 1): string {
+  const params = new URLSearchParams()
+
+  if (filters.search) params.set(PARAM_KEYS.search, filters.search)
+  if (filters.status !== 'all') params.set(PARAM_KEYS.status, filters.status)
+  if (filters.dateFrom) params.set(PARAM_KEYS.dateFrom, filters.dateFrom)
+  if (filters.dateTo) params.set(PARAM_KEYS.dateTo, filters.dateTo)
+  if (filters.minAmount !== null) params.set(PARAM_KEYS.minAmount, String(filters.minAmount))
+  if (filters.maxAmount !== null) params.set(PARAM_KEYS.maxAmount, String(filters.maxAmount))
+  if (filters.missingTracking) params.set(PARAM_KEYS.missingTracking, '1')
+  if (filters.sortField !== DEFAULT_ORDER_LIST_FILTERS.sortField) params.set(PARAM_KEYS.sortField, filters.sortField)
+  if (filters.sortDirection !== DEFAULT_ORDER_LIST_FILTERS.sortDirection) params.set(PARAM_KEYS.sortDirection, filters.sortDirection)
+  if (page > 1) params.set(PARAM_KEYS.page, String(page))
+
+  return params.toString()
+}
+
+/**
+ * Whether any filter (not sorting) differs from the defaults
+ */
+export function hasActiveOrderFilters(filters: OrderListFilters): boolean {
+  return !!filters.search ||
+    filters.status !== 'all' ||
+    !!filters.dateFrom ||
+    !!filters.dateTo ||
+    filters.minAmount !== null ||
+    filters.maxAmount !== null ||
+    filters.missingTracking
+}
+
+/**
+ * Splits a search term into tokens that are safe to embed in a PostgREST or() filter
+ */
+export function toSearchTokens(search: string): string[] {
+  return search
+    .split(/\s+/)
+    .map(token => token.replace(/[,()*%"\\]/g, ''))
+    .filter(Boolean)
+}
+
+/**
+ * Quotes a value for use inside a PostgREST or() filter
+ */
+export function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Applies the list filters to an orders query. Every search token must match one of the search columns.
+ */
+export function applyOrderFilters<Q extends PostgrestFilterBuilder<any, any, any>>(query: Q, filters: OrderListFilters): Q {
+  let filtered = query
+
+  if (filters.status !== 'all') {
+    filtered = filtered.eq('status', filters.status)
+  }
+
+  if (filters.dateFrom) {
+    filtered = filtered.gte('created_at', parseISO(filters.dateFrom).toISOString())
+  }
+
+  if (filters.dateTo) {
+    filtered = filtered.lt('created_at', addDays(parseISO(filters.dateTo), 1).toISOString())
+  }
+
+  if (filters.minAmount !== null) {
+    filtered = filtered.gte('total_amount', filters.minAmount)
+  }
+
+  if (filters.maxAmount !== null) {
+    filtered = filtered.lte('total_amount', filters.maxAmount)
+  }
+
+  // tracking_number holds the latest tracked parcel, so null means no parcel has tracking
+  if (filters.missingTracking) {
+    filtered = filtered.eq('status', 'shipped').is('tracking_number', null)
+  }
+
+  toSearchTokens(filters.search).forEach(token => {
+    filtered = filtered.or(ORDER_SEARCH_COLUMNS.map(column => `${column}.ilike.*${token}*`).join(','))
+  })
+
+  return filtered
+}
@@ -0,0 +1,63 @@
+// Editor presence: the others on a page, who holds the soft lock of each section, and avatar initials
+
+import type { EditorPresence, PresenceMember, SectionLocks } from '../types/presence'
+import { PRESENCE_IDLE_MS } from '../constants/presence'
+
+// When a member started editing their section; -1 when they aren't (or went idle)
+const editingTime = (member: PresenceMember) => (member.isEditing ? new Date(member.editingSince!).getTime() : -1)
+
+/**
+ * The other users on a page, sorted by email. Of a user with several tabs open, the tab that started
+ * editing last counts.
+ * @param state Presence state of the page channel, keyed by user id
+ * @param now Current time in ms, to tell active editors from idle ones
+ */
+export function presenceMembers(
+  state: Record<string, EditorPresence[]>,
+  ownUserId: string | null,
+  now: number
+): PresenceMember[] {
+  return Object.entries(state)
+    .filter(([userId, tabs]) => userId !== ownUserId && tabs.length > 0)
+    .map(([, tabs]) => tabs
+      .map(tab => ({
+        ...tab,
+        isEditing: !!tab.sectionId && !!tab.editingSince && now - new Date(tab.activeAt).getTime() < PRESENCE_IDLE_MS,
+      }))
+      .reduce((latest, tab) => (editingTime(tab) > editingTime(latest) ? tab : latest)))
+    .sort((a, b) => (a.email || '').localeCompare(b.email || ''))
+}
+
+/**
+ * The soft locks on a page: per section the member who started editing it last. A section this user
+ * started editing (or took over) after the others is left out.
+ */
+export function sectionLocks(members: PresenceMember[], own: EditorPresence | null): SectionLocks {
+  const locks: SectionLocks = new Map()
+
+  members.filter(member => member.isEditing).forEach(member => {
+    const holder = locks.get(member.sectionId!)
+    if (!holder || editingTime(member) > editingTime(holder)) {
+      locks.set(member.sectionId!, member)
+    }
+  })
+
+  if (own?.sectionId && own.editingSince) {
+    const holder = locks.get(own.sectionId)
+    if (holder && new Date(own.editingSince).getTime() >= editingTime(holder)) {
+      locks.delete(own.sectionId)
+    }
+  }
+
+  return locks
+}
+
+/**
+ * Initials for an avatar from the local part of an email: piet.jansen@… → PJ
+ */
+export function presenceInitials(email: string | null): string {
+  const parts = (email || '').split('@')[0].split(/[._-]+/).filter(Boolean)
+  if (parts.length === 0) return '?'
+
+  return (parts.length === 1 ? parts[0].slice(0, 2) : parts[0][0] + parts[parts.length - 1][0]).toUpperCase()
+}
@@ -0,0 +1,86 @@
+// Product gallery helpers: converting between form drafts and API payloads, ordering and focal point crops
+
+import type { ImageFocalPoint, Product, ProductImageDraft, ProductImageMeta, ProductInput } from '../types/products'
+import { FOCAL_POINT_CROP_SIZE } from '../constants/products'
+
+type GalleryFields = Pick<Product, 'image' | 'images'> & { image_meta?: Product['image_meta'] | null }
+
+/**
+ * The gallery of a product as form drafts, main image first
+ */
+export function toImageDrafts(product: GalleryFields): ProductImageDraft[] {
+  const meta = product.image_meta || {}
+  const publicIds = Array.from(new Set([product.image, ...(product.images || [])].filter(Boolean)))
+
+  return publicIds.map(publicId => ({
+    publicId,
+    alt: meta[publicId]?.alt ?? '',
+    focalPoint: meta[publicId]?.focal_point ?? null,
+  }))
+}
+
+/**
+ * The gallery fields of a create or update payload; the first image is the main image
+ */
+export function fromImageDrafts(drafts: ProductImageDraft[]): Pick<ProductInput, 'image' | 'images' | 'image_meta'> {
+  return {
+    image: drafts[0]?.publicId ?? '',
+    images: drafts.map(draft => draft.publicId),
+    image_meta: Object.fromEntries(drafts.map((draft): [string, ProductImageMeta] => [
+      draft.publicId,
+      { alt: draft.alt.trim(), focal_point: draft.focalPoint },
+    ])),
+  }
+}
+
+/**
+ * Moves the image at index `from` to index `to`
+ */
+export function moveImage(drafts: ProductImageDraft[], from: number, to: number): ProductImageDraft[] {
+  if (from === to || from < 0 || from >= drafts.length || to < 0 || to >= drafts.length) return drafts
+
+  const next = [...drafts]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+/**
+ * Adds images to the end of the gallery, skipping ones it already has
+ */
+export function addImages(drafts: ProductImageDraft[], publicIds: string[]): ProductImageDraft[] {
+  const added = publicIds
+    .filter((publicId, index) => publicId && publicIds.indexOf(publicId) === index)
+    .filter(publicId => !drafts.some(draft => draft.publicId === publicId))
+
+  return [...drafts, ...added.map(publicId => ({ publicId, alt: '', focalPoint: null }))]
+}
+
+/**
+ * Rounds a focal point to whole percentages and keeps it inside the image
+ */
+export function clampFocalPoint(point: ImageFocalPoint): ImageFocalPoint {
+  const clamp = (value: number) => Math.min(1, Math.max(0, Math.round(value * 100) / 100))
+  return { x: clamp(point.x), y: clamp(point.y) }
+}
+
+/**
+ * CldImage crop parameters that keep the focal point in view: a crop of FOCAL_POINT_CROP_SIZE of the
+ * image centred on the focal point, moved back inside the image near the edges. Without a focal
+ * point the image isn't cropped.
+ */
+export function focalPointCrop(point: ImageFocalPoint | null) {
+  if (!point) return undefined
+
+  const half = FOCAL_POINT_CROP_SIZE / 2
+  const centre = (value: number) => Math.round(Math.min(1 - half, Math.max(half, value)) * 100) / 100
+
+  return {
+    type: 'crop' as const,
+    gravity: 'xy_center',
+    x: centre(point.x),
+    y: centre(point.y),
+    width: FOCAL_POINT_CROP_SIZE,
+    height: FOCAL_POINT_CROP_SIZE,
+  }
+}
@@ -0,0 +1,137 @@
+// Product spreadsheet helpers shared by the import route and the export on the products page
+
+import type { Product } from '../types/products'
+import type { ProductImportField, ProductImportMapping } from '../types/productImport'
+import {
+  IMPORT_FALSE_VALUES,
+  IMPORT_IMAGE_SEPARATOR,
+  IMPORT_TRUE_VALUES,
+  PRODUCT_IMPORT_COLUMNS
+} from '../constants/productImport'
+import { toCsv, unescapeCsvValue } from './csv'
+import { buildXlsx } from './xlsx'
+
+const NUMBER_FIELDS: ProductImportField[] = ['price', 'stock', 'low_stock_threshold']
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Maps each file column to the product field whose header or alias it matches.
+ * A field is only mapped once; later columns with the same header are skipped.
+ */
+export function suggestImportMapping(headers: string[]): ProductImportMapping {
+  const used = new Set<ProductImportField>()
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header)
+    const column = PRODUCT_IMPORT_COLUMNS.find(candidate =>
+      candidate.header.toLowerCase() === normalized || candidate.aliases.includes(normalized) || candidate.field === normalized
+    )
+
+    if (!column || used.has(column.field)) return null
+    used.add(column.field)
+    return column.field
+  })
+}
+
+// Numbers as typed in Dutch or English spreadsheets: "1.234,50", "1,234.50", "89,5" or "€ 89"
+function parseNumber(text: string): number {
+  const cleaned = text.replace(/[€\s]/g, '')
+  const normalized = /,\d{1,2}$/.test(cleaned)
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '')
+  return normalized === '' ? NaN : Number(normalized)
+}
+
+/**
+ * Converts the cells of one row into a product payload for ProductService.validateInput.
+ * Empty cells are left out, so they don't change the product.
+ * @returns The payload, the product ID when the row has one, and cell errors
+ */
+export function toProductPayload(
+  cells: string[],
+  mapping: ProductImportMapping
+): { id: string | null; payload: Record<string, unknown>; errors: string[] } {
+  const payload: Record<string, unknown> = {}
+  const errors: string[] = []
+  let id: string | null = null
+
+  mapping.forEach((field, column) => {
+    const text = unescapeCsvValue((cells[column] ?? '').trim())
+    if (!field || !text) return
+
+    const header = PRODUCT_IMPORT_COLUMNS.find(candidate => candidate.field === field)?.header ?? field
+
+    if (field === 'id') {
+      id = text
+    } else if (NUMBER_FIELDS.includes(field)) {
+      const value = parseNumber(text)
+      if (Number.isNaN(value)) {
+        errors.push(`${header} "${text}" is not a number`)
+      } else {
+        payload[field] = value
+      }
+    } else if (field === 'is_active') {
+      const value = text.toLowerCase()
+      if (IMPORT_TRUE_VALUES.includes(value)) {
+        payload.is_active = true
+      } else if (IMPORT_FALSE_VALUES.includes(value)) {
+        payload.is_active = false
+      } else {
+        errors.push(`${header} "${text}" is not yes or no`)
+      }
+    } else if (field === 'images') {
+      payload.images = text.split(IMPORT_IMAGE_SEPARATOR).map(image => image.trim()).filter(Boolean)
+    } else {
+      payload[field] = text
+    }
+  })
+
+  return { id, payload, errors }
+}
+
+/**
+ * Adds alt text for the images a payload sets, as files have no alt text column: images the product
+ * already has keep their alt text and focal point, new images are described by the product name
+ */
+export function withImageAltText(payload: Record<string, unknown>, product?: Product): Record<string, unknown> {
+  const publicIds = [payload.image, ...(Array.isArray(payload.images) ? payload.images : [])]
+    .filter((image): image is string => typeof image === 'string' && !!image.trim())
+    .map(image => image.trim())
+
+  if (publicIds.length === 0) return payload
+
+  const name = typeof payload.name === 'string' && payload.name.trim() ? payload.name.trim() : product?.name ?? ''
+
+  return {
+    ...payload,
+    image_meta: Object.fromEntries(publicIds.map(publicId => [
+      publicId,
+      product?.image_meta?.[publicId] ?? { alt: name, focal_point: null },
+    ])),
+  }
+}
+
+// Export row of a product, in the order of PRODUCT_IMPORT_COLUMNS
+function toExportRow(product: Product): unknown[] {
+  return PRODUCT_IMPORT_COLUMNS.map(({ field }) => {
+    if (field === 'images') return (product.images || []).join(IMPORT_IMAGE_SEPARATOR)
+    if (field === 'is_active') return product.is_active ? 'TRUE' : 'FALSE'
+    if (field === 'price' || field === 'stock') return Number(product[field])
+    return product[field] ?? null
+  })
+}
+
+/**
+ * Builds the product export as CSV, in the format the import reads back
+ */
+export function productsToCsv(products: Product[]): string {
+  return toCsv(PRODUCT_IMPORT_COLUMNS.map(column => column.header), products.map(toExportRow))
+}
+
+/**
+ * Builds the product export as an XLSX workbook, in the format the import reads back
+ */
+export function productsToXlsx(products: Product[]): Uint8Array {
+  return buildXlsx(PRODUCT_IMPORT_COLUMNS.map(column => column.header), products.map(toExportRow), 'Products')
+}
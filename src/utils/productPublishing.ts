@@ -0,0 +1,109 @@
+// Product publishing helpers: due scheduled changes and the release calendar
+
+import {
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+import type {
+  Product,
+  ProductInput,
+  ProductPublishingDraft,
+  ProductReleaseCalendarDay,
+  ProductReleaseEvent
+} from '../types/products'
+
+type ScheduleFields = Pick<Product, 'id' | 'name' | 'status' | 'publish_at' | 'unpublish_at'>
+
+const isDue = (time: string | null, now: Date) => !!time && Date.parse(time) <= now.getTime()
+
+// datetime-local inputs have no time zone; they're read and written in local time
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm"
+
+/**
+ * Product form state for the status and schedule; new products start live
+ */
+export function toPublishingDraft(product?: Pick<Product, 'status' | 'publish_at' | 'unpublish_at'> | null): ProductPublishingDraft {
+  return {
+    status: product?.status ?? 'live',
+    publishAt: product?.publish_at ? format(new Date(product.publish_at), DATETIME_INPUT_FORMAT) : '',
+    unpublishAt: product?.unpublish_at ? format(new Date(product.unpublish_at), DATETIME_INPUT_FORMAT) : '',
+  }
+}
+
+/**
+ * Status and schedule fields of the product payload; a draft drops its schedule
+ */
+export function fromPublishingDraft(draft: ProductPublishingDraft): Pick<ProductInput, 'status' | 'publish_at' | 'unpublish_at'> {
+  const toTime = (value: string) => value ? new Date(value).toISOString() : null
+
+  return {
+    status: draft.status,
+    publish_at: draft.status === 'draft' ? null : toTime(draft.publishAt),
+    unpublish_at: draft.status === 'draft' ? null : toTime(draft.unpublishAt),
+  }
+}
+
+/**
+ * The scheduled change the publishing job should apply now, if any. When both dates have passed
+ * (the job didn't run in between) the product ends up unpublished.
+ */
+export function getDueRelease(product: ScheduleFields, now: Date): ProductReleaseEvent | null {
+  if ((product.status === 'scheduled' || product.status === 'live') && isDue(product.unpublish_at, now)) {
+    return { productId: product.id, name: product.name, action: 'unpublish', at: product.unpublish_at! }
+  }
+
+  if (product.status === 'scheduled' && isDue(product.publish_at, now)) {
+    return { productId: product.id, name: product.name, action: 'publish', at: product.publish_at! }
+  }
+
+  return null
+}
+
+/**
+ * Scheduled publish and unpublish dates still to come, earliest first
+ */
+export function getUpcomingReleases(products: ScheduleFields[], now: Date): ProductReleaseEvent[] {
+  const events: ProductReleaseEvent[] = []
+
+  products.forEach(product => {
+    if (product.status === 'scheduled' && product.publish_at && !isDue(product.publish_at, now)) {
+      events.push({ productId: product.id, name: product.name, action: 'publish', at: product.publish_at })
+    }
+    if (product.status !== 'draft' && product.unpublish_at && !isDue(product.unpublish_at, now)) {
+      events.push({ productId: product.id, name: product.name, action: 'unpublish', at: product.unpublish_at })
+    }
+  })
+
+  return events.sort((a, b) => Date.parse(a.at) - Date.parse(b.at))
+}
+
+/**
+ * Month grid of the release calendar, in whole weeks from Monday to Sunday, with the events of each day
+ * in local time
+ */
+export function buildReleaseCalendar(events: ProductReleaseEvent[], month: Date): ProductReleaseCalendarDay[][] {
+  const byDay = new Map<string, ProductReleaseEvent[]>()
+  events.forEach(event => {
+    const day = format(new Date(event.at), 'yyyy-MM-dd')
+    byDay.set(day, [...(byDay.get(day) || []), event])
+  })
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  }).map((day): ProductReleaseCalendarDay => {
+    const date = format(day, 'yyyy-MM-dd')
+    return { date, inMonth: isSameMonth(day, month), events: byDay.get(date) || [] }
+  })
+
+  const weeks: ProductReleaseCalendarDay[][] = []
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7))
+  }
+  return weeks
+}
@@ -0,0 +1,84 @@
+// Product variant helpers: labels, stock/price summaries and converting between form drafts and API payloads
+
+import type { ProductVariant, ProductVariantDraft, ProductVariantInput, ProductVariantSummary } from '../types/products'
+
+type VariantLabelFields = Pick<ProductVariant, 'sku' | 'bottle_size_ml' | 'vintage' | 'cask'>
+
+let draftCounter = 0
+
+/**
+ * Formats a bottle size the way it's printed on labels: 70 cl, 1 L, 1.5 L
+ */
+export function formatBottleSize(ml: number): string {
+  if (ml >= 1000) return `${ml / 1000} L`
+  if (ml % 10 === 0) return `${ml / 10} cl`
+  return `${ml} ml`
+}
+
+/**
+ * Short description of a variant, e.g. "70 cl · 2012 · Sherry cask"; falls back to the SKU
+ */
+export function formatVariantLabel(variant: VariantLabelFields): string {
+  const parts = [
+    variant.bottle_size_ml ? formatBottleSize(variant.bottle_size_ml) : null,
+    variant.vintage ? String(variant.vintage) : null,
+    variant.cask || null,
+  ].filter(Boolean)
+
+  return parts.length > 0 ? parts.join(' · ') : variant.sku
+}
+
+export function normalizeSku(value: string): string {
+  return value.trim().toUpperCase()
+}
+
+/**
+ * Total stock and price range across variants
+ */
+export function summarizeVariants(variants: Pick<ProductVariant, 'price' | 'stock'>[]): ProductVariantSummary {
+  const prices = variants.map(variant => Number(variant.price))
+
+  return {
+    count: variants.length,
+    stock: variants.reduce((sum, variant) => sum + Number(variant.stock), 0),
+    minPrice: prices.length > 0 ? Math.min(...prices) : null,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : null,
+  }
+}
+
+/**
+ * Turns a saved variant (or nothing, for a new one) into editable form values
+ */
+export function toVariantDraft(variant?: ProductVariant): ProductVariantDraft {
+  draftCounter += 1
+
+  return {
+    key: variant?.id ?? `new-${draftCounter}`,
+    id: variant?.id,
+    sku: variant?.sku ?? '',
+    bottleSizeMl: variant?.bottle_size_ml ? String(variant.bottle_size_ml) : '',
+    vintage: variant?.vintage ? String(variant.vintage) : '',
+    cask: variant?.cask ?? '',
+    price: variant ? String(variant.price) : '',
+    stock: variant ? String(variant.stock) : '0',
+    image: variant?.image ?? '',
+  }
+}
+
+/**
+ * Turns form values into the API payload; the server validates the numbers
+ */
+export function fromVariantDraft(draft: ProductVariantDraft): ProductVariantInput {
+  const toNumberOrNull = (value: string) => (value.trim() ? Number(value) : null)
+
+  return {
+    ...(draft.id ? { id: draft.id } : {}),
+    sku: normalizeSku(draft.sku),
+    bottle_size_ml: toNumberOrNull(draft.bottleSizeMl),
+    vintage: toNumberOrNull(draft.vintage),
+    cask: draft.cask.trim() || null,
+    price: Number(draft.price),
+    stock: Number(draft.stock),
+    image: draft.image.trim() || null,
+  }
+}
@@ -0,0 +1,96 @@
+// Revision snapshots kept in the audit trail: taking them and comparing two of them
+
+import type { AuditRevisionFieldDiff, AuditSnapshot, WordDiffPart } from '../types/audit'
+
+// Above this many word pairs the changed middle of two texts is shown as removed and added whole
+const MAX_WORD_DIFF_CELLS = 1_000_000
+
+/**
+ * Copies the tracked fields of a record into a revision snapshot
+ */
+export function pickSnapshot<T extends AuditSnapshot>(record: Partial<T>, fields: readonly (keyof T)[]): T {
+  const snapshot: AuditSnapshot = {}
+  fields.forEach(field => {
+    snapshot[field as string] = record[field] ?? null
+  })
+  return snapshot as T
+}
+
+/**
+ * Compares two revision snapshots field by field, in the order of the given fields
+ */
+export function diffSnapshots<T extends AuditSnapshot>(
+  before: Partial<T>,
+  after: Partial<T>,
+  fields: readonly (keyof T)[]
+): AuditRevisionFieldDiff[] {
+  return fields.map(field => {
+    const from = before[field] ?? null
+    const to = after[field] ?? null
+    return { field: field as string, from, to, changed: JSON.stringify(from) !== JSON.stringify(to) }
+  })
+}
+
+/**
+ * Compares two texts word by word; whitespace stays with the words so the parts join back into either text
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const from = before.match(/\s+|\S+/g) || []
+  const to = after.match(/\s+|\S+/g) || []
+
+  // Most edits touch a few words, so the common start and end are left out of the table
+  let start = 0
+  while (start < from.length && start < to.length && from[start] === to[start]) start++
+  let end = 0
+  while (end < from.length - start && end < to.length - start && from[from.length - 1 - end] === to[to.length - 1 - end]) end++
+
+  const parts: WordDiffPart[] = []
+  const push = (type: WordDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  from.slice(0, start).forEach(word => push('same', word))
+
+  const removed = from.slice(start, from.length - end)
+  const added = to.slice(start, to.length - end)
+
+  if (removed.length * added.length > MAX_WORD_DIFF_CELLS) {
+    removed.forEach(word => push('removed', word))
+    added.forEach(word => push('added', word))
+  } else {
+    // Longest common subsequence, filled from the end so the walk below goes forwards
+    const width = added.length + 1
+    const lengths = new Uint32Array((removed.length + 1) * width)
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = removed[i] === added[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < removed.length && j < added.length) {
+      if (removed[i] === added[j]) {
+        push('same', removed[i++])
+        j++
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('removed', removed[i++])
+      } else {
+        push('added', added[j++])
+      }
+    }
+    removed.slice(i).forEach(word => push('removed', word))
+    added.slice(j).forEach(word => push('added', word))
+  }
+
+  from.slice(from.length - end).forEach(word => push('same', word))
+
+  return parts
+}
@@ -0,0 +1,26 @@
+// Track & trace link helpers, shared by the dashboard and the shipped email
+
+import type { Order } from '../types/orders'
+import type { CarrierCode } from '../types/shipments'
+import { CARRIER_TRACKING_URLS } from '../constants/shipments'
+
+/**
+ * Public tracking page of a parcel, or null when the carrier has none or there is no tracking number
+ */
+export function getTrackingUrl(
+  carrier: CarrierCode | null | undefined,
+  trackingNumber: string | null | undefined,
+  destination?: Pick<Order, 'customer_postal_code' | 'customer_country'>
+): string | null {
+  const buildUrl = carrier ? CARRIER_TRACKING_URLS[carrier] : null
+
+  if (!buildUrl || !trackingNumber) {
+    return null
+  }
+
+  return buildUrl({
+    trackingNumber,
+    postalCode: destination?.customer_postal_code,
+    country: destination?.customer_country,
+  })
+}
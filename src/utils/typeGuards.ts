@@ -14,7 +14,25 @@ import type {
   LoginAttemptRecord,
   AuthEventRecord
 } from '../types/supabase'
+import type { OrderStatus, OrderError, OrderErrorType } from '../types/orders'
+import type { ProductError, ProductErrorType } from '../types/products'
+import type { ApiError, ApiErrorType } from '../types/api'
+import type { EmailError, EmailErrorType, OrderEmailTemplate } from '../types/email'
+import type { DocumentError, DocumentErrorType, OrderDocumentType } from '../types/documents'
+import type { RefundError, RefundErrorType } from '../types/refunds'
+import type { ShipmentError, ShipmentErrorType } from '../types/shipments'
+import type { NoteError, NoteErrorType } from '../types/notes'
+import type { CustomerError, CustomerErrorType } from '../types/customers'
+import type { InventoryError, InventoryErrorType } from '../types/inventory'
+import type { ProductImportError, ProductImportErrorType } from '../types/productImport'
+import type { CatalogError, CatalogErrorType } from '../types/catalog'
+import type { MediaError, MediaErrorType } from '../types/media'
+import type { PricingError, PricingErrorType } from '../types/pricing'
+import type { ContentError, ContentErrorType } from '../types/content'
 import { AUTH_EVENTS, AUTH_ERROR_TYPES } from '../constants/auth'
+import { ORDER_STATUSES } from '../constants/orders'
+import { ORDER_EMAIL_TEMPLATES } from '../constants/email'
+import { ORDER_DOCUMENT_TYPES } from '../constants/documents'
 
 // Type Guards for Authentication Types
 export function isAuthError(error: unknown): error is AuthError {
@@ -206,4 +224,211 @@ export function isSecurityError(error: AuthError): boolean {
   ]
   
   return securityTypes.includes(error.type)
-}
\ No newline at end of file
+}
+
+// Order Type Guards and Errors
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && Object.values(ORDER_STATUSES).includes(value as OrderStatus)
+}
+
+export function createOrderError(type: OrderErrorType, message: string, details?: Record<string, any>): OrderError {
+  const error = new Error(message) as OrderError
+  error.name = 'OrderError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isOrderError(error: unknown): error is OrderError {
+  return error instanceof Error && error.name === 'OrderError' && typeof (error as OrderError).type === 'string'
+}
+
+// Product Errors
+export function createProductError(type: ProductErrorType, message: string, details?: Record<string, any>): ProductError {
+  const error = new Error(message) as ProductError
+  error.name = 'ProductError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isProductError(error: unknown): error is ProductError {
+  return error instanceof Error && error.name === 'ProductError' && typeof (error as ProductError).type === 'string'
+}
+
+// API Errors
+export function createApiError(type: ApiErrorType, message: string, details?: Record<string, any>): ApiError {
+  const error = new Error(message) as ApiError
+  error.name = 'ApiError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof Error && error.name === 'ApiError' && typeof (error as ApiError).type === 'string'
+}
+
+// Email Type Guards and Errors
+export function isOrderEmailTemplate(value: unknown): value is OrderEmailTemplate {
+  return typeof value === 'string' && ORDER_EMAIL_TEMPLATES.includes(value as OrderEmailTemplate)
+}
+
+export function createEmailError(type: EmailErrorType, message: string, details?: Record<string, any>): EmailError {
+  const error = new Error(message) as EmailError
+  error.name = 'EmailError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isEmailError(error: unknown): error is EmailError {
+  return error instanceof Error && error.name === 'EmailError' && typeof (error as EmailError).type === 'string'
+}
+
+// Document Type Guards and Errors
+export function isOrderDocumentType(value: unknown): value is OrderDocumentType {
+  return typeof value === 'string' && ORDER_DOCUMENT_TYPES.includes(value as OrderDocumentType)
+}
+
+export function createDocumentError(type: DocumentErrorType, message: string, details?: Record<string, any>): DocumentError {
+  const error = new Error(message) as DocumentError
+  error.name = 'DocumentError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isDocumentError(error: unknown): error is DocumentError {
+  return error instanceof Error && error.name === 'DocumentError' && typeof (error as DocumentError).type === 'string'
+}
+
+// Refund Errors
+export function createRefundError(type: RefundErrorType, message: string, details?: Record<string, any>): RefundError {
+  const error = new Error(message) as RefundError
+  error.name = 'RefundError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isRefundError(error: unknown): error is RefundError {
+  return error instanceof Error && error.name === 'RefundError' && typeof (error as RefundError).type === 'string'
+}
+
+// Shipment Errors
+export function createShipmentError(type: ShipmentErrorType, message: string, details?: Record<string, any>): ShipmentError {
+  const error = new Error(message) as ShipmentError
+  error.name = 'ShipmentError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isShipmentError(error: unknown): error is ShipmentError {
+  return error instanceof Error && error.name === 'ShipmentError' && typeof (error as ShipmentError).type === 'string'
+}
+
+// Note Errors
+export function createNoteError(type: NoteErrorType, message: string, details?: Record<string, any>): NoteError {
+  const error = new Error(message) as NoteError
+  error.name = 'NoteError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isNoteError(error: unknown): error is NoteError {
+  return error instanceof Error && error.name === 'NoteError' && typeof (error as NoteError).type === 'string'
+}
+
+// Customer Errors
+export function createCustomerError(type: CustomerErrorType, message: string, details?: Record<string, any>): CustomerError {
+  const error = new Error(message) as CustomerError
+  error.name = 'CustomerError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isCustomerError(error: unknown): error is CustomerError {
+  return error instanceof Error && error.name === 'CustomerError' && typeof (error as CustomerError).type === 'string'
+}
+
+// Inventory Errors
+export function createInventoryError(type: InventoryErrorType, message: string, details?: Record<string, any>): InventoryError {
+  const error = new Error(message) as InventoryError
+  error.name = 'InventoryError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isInventoryError(error: unknown): error is InventoryError {
+  return error instanceof Error && error.name === 'InventoryError' && typeof (error as InventoryError).type === 'string'
+}
+
+// Product Import Errors
+export function createProductImportError(type: ProductImportErrorType, message: string, details?: Record<string, any>): ProductImportError {
+  const error = new Error(message) as ProductImportError
+  error.name = 'ProductImportError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isProductImportError(error: unknown): error is ProductImportError {
+  return error instanceof Error && error.name === 'ProductImportError' && typeof (error as ProductImportError).type === 'string'
+}
+
+// Catalog Errors
+export function createCatalogError(type: CatalogErrorType, message: string, details?: Record<string, any>): CatalogError {
+  const error = new Error(message) as CatalogError
+  error.name = 'CatalogError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isCatalogError(error: unknown): error is CatalogError {
+  return error instanceof Error && error.name === 'CatalogError' && typeof (error as CatalogError).type === 'string'
+}
+
+// Media Errors
+export function createMediaError(type: MediaErrorType, message: string, details?: Record<string, any>): MediaError {
+  const error = new Error(message) as MediaError
+  error.name = 'MediaError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isMediaError(error: unknown): error is MediaError {
+  return error instanceof Error && error.name === 'MediaError' && typeof (error as MediaError).type === 'string'
+}
+
+// Pricing Errors
+export function createPricingError(type: PricingErrorType, message: string, details?: Record<string, any>): PricingError {
+  const error = new Error(message) as PricingError
+  error.name = 'PricingError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isPricingError(error: unknown): error is PricingError {
+  return error instanceof Error && error.name === 'PricingError' && typeof (error as PricingError).type === 'string'
+}
+
+// Content Errors
+export function createContentError(type: ContentErrorType, message: string, details?: Record<string, any>): ContentError {
+  const error = new Error(message) as ContentError
+  error.name = 'ContentError'
+  error.type = type
+  error.details = details || {}
+  return error
+}
+
+export function isContentError(error: unknown): error is ContentError {
+  return error instanceof Error && error.name === 'ContentError' && typeof (error as ContentError).type === 'string'
+}
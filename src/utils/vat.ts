@@ -0,0 +1,73 @@
+// VAT calculations for prices that include VAT
+
+import type { DocumentLine, VatBreakdownLine, VatTotals } from '../types/documents'
+import type { ResolvedVatRate, VatRateRecord } from '../types/pricing'
+import { DEFAULT_VAT_RATE } from '../constants/documents'
+import { COUNTRY_CODES } from '../constants/pricing'
+
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Splits a VAT-inclusive amount into net and VAT parts
+ */
+export function splitVat(gross: number, rate: number): VatBreakdownLine {
+  const net = roundCurrency(gross / (1 + rate / 100))
+  return { rate, net, vat: roundCurrency(gross - net), gross: roundCurrency(gross) }
+}
+
+/**
+ * Groups VAT-inclusive lines per rate and totals them.
+ * VAT is calculated per rate over the summed gross amount, as on the invoice.
+ */
+export function calculateVatTotals(lines: Pick<DocumentLine, 'line_total' | 'vat_rate'>[]): VatTotals {
+  const grossPerRate = new Map<number, number>()
+
+  lines.forEach(line => {
+    grossPerRate.set(line.vat_rate, (grossPerRate.get(line.vat_rate) || 0) + line.line_total)
+  })
+
+  const breakdown = Array.from(grossPerRate.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([rate, gross]) => splitVat(gross, rate))
+
+  return {
+    subtotalExclVat: roundCurrency(breakdown.reduce((sum, line) => sum + line.net, 0)),
+    vatAmount: roundCurrency(breakdown.reduce((sum, line) => sum + line.vat, 0)),
+    totalInclVat: roundCurrency(breakdown.reduce((sum, line) => sum + line.gross, 0)),
+    breakdown,
+  }
+}
+
+/**
+ * ISO code of a country as customers enter it ("Netherlands", "nl"), or null when it isn't recognised
+ */
+export function normalizeCountryCode(country: string | null | undefined): string | null {
+  const value = (country || '').trim().toLowerCase()
+
+  if (COUNTRY_CODES[value]) {
+    return COUNTRY_CODES[value]
+  }
+
+  return /^[a-z]{2}$/.test(value) ? value.toUpperCase() : null
+}
+
+/**
+ * VAT rate of a product sold to a country. The most specific configured rate wins:
+ * the product's category, then its parent categories, then the country's standard rate, then DEFAULT_VAT_RATE.
+ * @param categoryIds - The product's category followed by its ancestors, nearest first
+ */
+export function resolveVatRate(rates: VatRateRecord[], countryCode: string | null, categoryIds: string[] = []): ResolvedVatRate {
+  const countryRates = countryCode ? rates.filter(rate => rate.country_code === countryCode) : []
+
+  for (const categoryId of categoryIds) {
+    const categoryRate = countryRates.find(rate => rate.category_id === categoryId)
+    if (categoryRate) return { rate: Number(categoryRate.rate), source: 'category' }
+  }
+
+  const standardRate = countryRates.find(rate => rate.category_id === null)
+  if (standardRate) return { rate: Number(standardRate.rate), source: 'country' }
+
+  return { rate: DEFAULT_VAT_RATE, source: 'default' }
+}
@@ -0,0 +1,293 @@
+// Minimal XLSX (Office Open XML spreadsheet) reading and writing for product import/export.
+// Only the first sheet and cell values are supported: no styles, formulas or dates.
+
+const ZIP_SIGNATURES = {
+  LOCAL_FILE: 0x04034b50,
+  CENTRAL_DIRECTORY: 0x02014b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+} as const
+
+const ZIP_METHOD_STORED = 0
+const ZIP_METHOD_DEFLATE = 8
+
+// 1980-01-01 00:00 in MS-DOS date/time format
+const DOS_DATE = 0x0021
+const DOS_TIME = 0
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Zip archive with uncompressed entries, which every spreadsheet application opens
+ */
+function buildZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const entries = files.map(file => ({ ...file, nameBytes: encoder.encode(file.name), crc: crc32(file.data) }))
+
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.nameBytes.length + entry.data.length, 0)
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.nameBytes.length, 0)
+  const bytes = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(bytes.buffer)
+
+  let offset = 0
+  const localOffsets: number[] = []
+
+  entries.forEach(entry => {
+    localOffsets.push(offset)
+    view.setUint32(offset, ZIP_SIGNATURES.LOCAL_FILE, true)
+    view.setUint16(offset + 4, 20, true) // Version needed
+    view.setUint16(offset + 8, ZIP_METHOD_STORED, true)
+    view.setUint16(offset + 10, DOS_TIME, true)
+    view.setUint16(offset + 12, DOS_DATE, true)
+    view.setUint32(offset + 14, entry.crc, true)
+    view.setUint32(offset + 18, entry.data.length, true)
+    view.setUint32(offset + 22, entry.data.length, true)
+    view.setUint16(offset + 26, entry.nameBytes.length, true)
+    bytes.set(entry.nameBytes, offset + 30)
+    bytes.set(entry.data, offset + 30 + entry.nameBytes.length)
+    offset += 30 + entry.nameBytes.length + entry.data.length
+  })
+
+  const centralOffset = offset
+
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, ZIP_SIGNATURES.CENTRAL_DIRECTORY, true)
+    view.setUint16(offset + 4, 20, true) // Version made by
+    view.setUint16(offset + 6, 20, true) // Version needed
+    view.setUint16(offset + 10, ZIP_METHOD_STORED, true)
+    view.setUint16(offset + 12, DOS_TIME, true)
+    view.setUint16(offset + 14, DOS_DATE, true)
+    view.setUint32(offset + 16, entry.crc, true)
+    view.setUint32(offset + 20, entry.data.length, true)
+    view.setUint32(offset + 24, entry.data.length, true)
+    view.setUint16(offset + 28, entry.nameBytes.length, true)
+    view.setUint32(offset + 42, localOffsets[index], true)
+    bytes.set(entry.nameBytes, offset + 46)
+    offset += 46 + entry.nameBytes.length
+  })
+
+  view.setUint32(offset, ZIP_SIGNATURES.END_OF_CENTRAL_DIRECTORY, true)
+  view.setUint16(offset + 8, entries.length, true)
+  view.setUint16(offset + 10, entries.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, centralOffset, true)
+
+  return bytes
+}
+
+/**
+ * Reads the files of a zip archive
+ * @param inflateRaw - Decompresses deflated entries, e.g. zlib.inflateRawSync on the server
+ */
+function readZip(bytes: Uint8Array, inflateRaw: (data: Uint8Array) => Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+
+  let end = bytes.length - 22
+  const commentLimit = Math.max(0, end - 0xffff)
+  while (end >= commentLimit && view.getUint32(end, true) !== ZIP_SIGNATURES.END_OF_CENTRAL_DIRECTORY) {
+    end--
+  }
+  if (end < commentLimit) {
+    throw new Error('The file is not an XLSX workbook')
+  }
+
+  const files = new Map<string, Uint8Array>()
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_SIGNATURES.CENTRAL_DIRECTORY) {
+      throw new Error('The XLSX workbook is damaged')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === ZIP_METHOD_STORED) {
+      files.set(name, data)
+    } else if (method === ZIP_METHOD_DEFLATE) {
+      files.set(name, inflateRaw(data))
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10))
+    }
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()]
+  })
+}
+
+// Spreadsheet column name of a zero-based index: 0 → A, 26 → AA
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function columnIndex(name: string): number {
+  return name.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+// Concatenated text of all <t> runs within an element
+function textContent(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)).map(match => unescapeXml(match[1])).join('')
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+}
+
+function toCellXml(value: unknown, ref: string): string {
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+/**
+ * Builds a single-sheet XLSX workbook from a header row and data rows. Numbers and
+ * booleans keep their type; everything else is written as text.
+ */
+export function buildXlsx(headers: string[], rows: unknown[][], sheetName: string = 'Sheet1'): Uint8Array {
+  const sheetRows = [headers, ...rows]
+    .map((row, rowIndex) => `<row r="${rowIndex + 1}">${row.map((value, column) => toCellXml(value, `${columnName(column)}${rowIndex + 1}`)).join('')}</row>`)
+    .join('')
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>',
+    '_rels/.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+      + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>',
+    'xl/_rels/workbook.xml.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>',
+    'xl/worksheets/sheet1.xml': `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+      + `<sheetData>${sheetRows}</sheetData>`
+      + '</worksheet>',
+  }
+
+  const encoder = new TextEncoder()
+  return buildZip(Object.keys(files).map(name => ({ name, data: encoder.encode(files[name]) })))
+}
+
+/**
+ * Reads the cell values of the first sheet of an XLSX workbook as text, one array per row.
+ * Empty rows are kept, so row numbers match the spreadsheet.
+ * @param inflateRaw - Decompresses deflated zip entries, e.g. zlib.inflateRawSync on the server
+ * @throws Error when the file isn't a readable workbook
+ */
+export function readXlsx(bytes: Uint8Array, inflateRaw: (data: Uint8Array) => Uint8Array): string[][] {
+  const files = readZip(bytes, inflateRaw)
+  const decoder = new TextDecoder()
+  const read = (name: string) => {
+    const file = files.get(name)
+    return file ? decoder.decode(file) : null
+  }
+
+  // The first sheet of the workbook, through the workbook relationships
+  const workbook = read('xl/workbook.xml')
+  if (!workbook) {
+    throw new Error('The file is not an XLSX workbook')
+  }
+
+  const sheetId = attribute(workbook.match(/<sheet\b[^>]*>/)?.[0] ?? '', 'r:id')
+  const relationships = read('xl/_rels/workbook.xml.rels') ?? ''
+  const relationship = Array.from(relationships.matchAll(/<Relationship\b[^>]*>/g))
+    .map(match => match[0])
+    .find(tag => attribute(tag, 'Id') === sheetId)
+  const target = relationship ? attribute(relationship, 'Target') ?? '' : 'worksheets/sheet1.xml'
+  const sheet = read(target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+
+  if (!sheet) {
+    throw new Error('The workbook has no sheets')
+  }
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') ?? '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g))
+    .map(match => textContent(match[1]))
+
+  const rows: string[][] = []
+
+  Array.from(sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)).forEach(rowMatch => {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1
+    const cells: string[] = []
+
+    Array.from((rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)).forEach(cellMatch => {
+      const ref = attribute(cellMatch[1], 'r')
+      const column = ref ? columnIndex(ref.replace(/\d+$/, '')) : cells.length
+      const type = attribute(cellMatch[1], 't')
+      const content = cellMatch[2] ?? ''
+      const value = unescapeXml(content.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '')
+
+      while (cells.length < column) cells.push('')
+
+      if (type === 's') {
+        cells[column] = sharedStrings[Number(value)] ?? ''
+      } else if (type === 'inlineStr') {
+        cells[column] = textContent(content)
+      } else if (type === 'b') {
+        cells[column] = value === '1' ? 'TRUE' : 'FALSE'
+      } else {
+        cells[column] = value
+      }
+    })
+
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows[rowNumber - 1] = cells
+  })
+
+  return rows
+}